@@ -0,0 +1,103 @@
+// CookSnap service worker — lets the installed app open without a network.
+//
+// Hashed build assets are served cache-first (a new build means new URLs).
+// Pages are network-first, falling back to the copy from the last visit
+// when the network fails or is too slow to be useful. Data comes from the
+// store's own IndexedDB snapshot, so Supabase and /api requests pass
+// straight through.
+
+const STATIC_CACHE = "cooksnap-static-v1";
+const PAGE_CACHE = "cooksnap-pages-v1";
+const NETWORK_TIMEOUT_MS = 3000;
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keep = [STATIC_CACHE, PAGE_CACHE];
+      for (const key of await caches.keys()) {
+        if (key.startsWith("cooksnap-") && !keep.includes(key)) await caches.delete(key);
+      }
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/") || url.pathname.startsWith("/auth/")) return;
+  // Client-side navigation payloads; when they fail Next falls back to a
+  // full page load, which is served below
+  if (request.headers.has("RSC")) return;
+
+  if (url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/icons/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(STATIC_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(PAGE_CACHE);
+  const network = fetch(request).then(async (response) => {
+    // Redirects (to /login, say) aren't pages worth keeping
+    if (response.ok && response.type === "basic") await cache.put(request, response.clone());
+    return response;
+  });
+
+  const cached = await cache.match(request);
+  try {
+    if (!cached) return await network;
+    // A copy is on hand, so don't wait out a basement-grade connection
+    return await Promise.race([
+      network,
+      new Promise((resolve) => setTimeout(() => resolve(cached), NETWORK_TIMEOUT_MS)),
+    ]);
+  } catch {
+    return cached ?? offlinePage();
+  }
+}
+
+function offlinePage() {
+  return new Response(
+    `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Offline · CookSnap</title>
+<style>
+  body { font-family: system-ui, sans-serif; display: grid; place-items: center; min-height: 100dvh; margin: 0; padding: 1.5rem; text-align: center; color: #171717; }
+  @media (prefers-color-scheme: dark) { body { background: #0a0a0a; color: #ededed; } }
+  a { color: inherit; }
+</style>
+</head>
+<body>
+  <main>
+    <h1>You're offline</h1>
+    <p>This page hasn't been opened on this device yet.</p>
+    <p><a href="/">Go to your recipes</a></p>
+  </main>
+</body>
+</html>`,
+    { status: 503, headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+}
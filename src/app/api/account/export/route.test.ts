@@ -0,0 +1,81 @@
+/**
+ * Tests for the account backup route handler (GET /api/account/export).
+ *
+ * Covers auth and the download response. Archive assembly is covered by the
+ * service layer tests.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ---------------------------------------------------------------------------
+// vi.hoisted — these run before vi.mock factories, which are hoisted to top.
+// ---------------------------------------------------------------------------
+
+const { mockGetUser, mockExport } = vi.hoisted(() => {
+  const mockGetUser = vi.fn();
+  const mockExport = vi.fn();
+  return { mockGetUser, mockExport };
+});
+
+// ---------------------------------------------------------------------------
+// Module mocks
+// ---------------------------------------------------------------------------
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn().mockResolvedValue({
+    auth: { getUser: mockGetUser },
+  }),
+}));
+
+vi.mock("@/lib/supabase/service", () => ({
+  exportAccountData: mockExport,
+}));
+
+// ---------------------------------------------------------------------------
+// Imports (after mocks)
+// ---------------------------------------------------------------------------
+
+import { GET } from "./route";
+
+// ---------------------------------------------------------------------------
+// Route handler tests
+// ---------------------------------------------------------------------------
+
+describe("GET /api/account/export", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetUser.mockResolvedValue({ data: { user: { id: "user-1" } }, error: null });
+  });
+
+  it("returns 401 for unauthenticated requests", async () => {
+    mockGetUser.mockResolvedValue({ data: { user: null }, error: null });
+
+    const res = await GET();
+
+    expect(res.status).toBe(401);
+    expect(mockExport).not.toHaveBeenCalled();
+  });
+
+  it("returns the archive as a dated attachment", async () => {
+    mockExport.mockResolvedValue({ version: 1, exportedAt: "2026-10-19T12:00:00.000Z", recipes: [] });
+
+    const res = await GET();
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="cooksnap-backup-2026-10-19.json"',
+    );
+    expect(body.version).toBe(1);
+  });
+
+  it("returns 500 when the export fails", async () => {
+    mockExport.mockRejectedValue(new Error("db down"));
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const res = await GET();
+
+    expect(res.status).toBe(500);
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * GET /api/account/export
+ *
+ * Downloads a backup of everything the authenticated user owns — recipes
+ * (with ingredients, instructions and tags), meal plans, templates, shopping,
+ * grocery and pantry lists, checked ingredients and recipe groups — as one
+ * versioned JSON archive. POST /api/account/import restores it.
+ */
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { exportAccountData } from "@/lib/supabase/service";
+
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const backup = await exportAccountData(supabase);
+    const date = backup.exportedAt.slice(0, 10);
+
+    return NextResponse.json(backup, {
+      headers: {
+        "Content-Disposition": `attachment; filename="cooksnap-backup-${date}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("Failed to export account:", err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: "Failed to export account data" }, { status: 500 });
+  }
+}
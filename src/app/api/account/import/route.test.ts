@@ -0,0 +1,151 @@
+/**
+ * Tests for the account restore route handler (POST /api/account/import).
+ *
+ * Covers auth, archive validation and the restore call. The restore itself
+ * is covered by the service layer tests.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ---------------------------------------------------------------------------
+// vi.hoisted — these run before vi.mock factories, which are hoisted to top.
+// ---------------------------------------------------------------------------
+
+const { mockGetUser, mockRestore } = vi.hoisted(() => {
+  const mockGetUser = vi.fn();
+  const mockRestore = vi.fn();
+  return { mockGetUser, mockRestore };
+});
+
+// ---------------------------------------------------------------------------
+// Module mocks
+// ---------------------------------------------------------------------------
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn().mockResolvedValue({
+    auth: { getUser: mockGetUser },
+  }),
+}));
+
+vi.mock("@/lib/supabase/service", () => ({
+  restoreAccountData: mockRestore,
+}));
+
+// ---------------------------------------------------------------------------
+// Imports (after mocks)
+// ---------------------------------------------------------------------------
+
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+
+function createRequest(body: unknown): NextRequest {
+  return new NextRequest("http://localhost:3000/api/account/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+const backup = {
+  version: 1,
+  exportedAt: "2026-10-19T12:00:00.000Z",
+  recipes: [
+    {
+      id: "r1",
+      title: "Toast",
+      image: null,
+      source_url: "",
+      prep_time: null,
+      cook_time: null,
+      total_time: null,
+      servings: null,
+      author: null,
+      cuisine_type: null,
+      difficulty: null,
+      rating: null,
+      is_favorite: false,
+      notes: null,
+      created_at: "2026-01-01T00:00:00Z",
+      ingredients: ["1 slice bread"],
+      instructions: ["Toast it."],
+      tags: [],
+    },
+  ],
+  meal_plans: [{ date: "2026-10-19", meal_type: "breakfast", recipe_id: "r1", is_leftover: false, position: 0 }],
+  meal_templates: [],
+  shopping_items: [],
+  grocery_items: [],
+  pantry_items: [],
+  checked_ingredients: [],
+  recipe_groups: [],
+};
+
+// ---------------------------------------------------------------------------
+// Route handler tests
+// ---------------------------------------------------------------------------
+
+describe("POST /api/account/import", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetUser.mockResolvedValue({ data: { user: { id: "user-1" } }, error: null });
+    mockRestore.mockResolvedValue({ recipeCount: 1 });
+  });
+
+  it("returns 401 for unauthenticated requests", async () => {
+    mockGetUser.mockResolvedValue({ data: { user: null }, error: null });
+
+    const res = await POST(createRequest(backup));
+
+    expect(res.status).toBe(401);
+    expect(mockRestore).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for malformed JSON", async () => {
+    expect((await POST(createRequest("{not json"))).status).toBe(400);
+  });
+
+  it("returns 400 for archives that fail validation", async () => {
+    const res = await POST(
+      createRequest({ ...backup, meal_plans: [{ ...backup.meal_plans[0], meal_type: "brunch" }] }),
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(body.error).toMatch(/not a valid cooksnap backup/i);
+    expect(body.issues.length).toBeGreaterThan(0);
+    expect(mockRestore).not.toHaveBeenCalled();
+  });
+
+  it("rejects backups from a newer archive version", async () => {
+    const res = await POST(createRequest({ ...backup, version: 2 }));
+    const body = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(body.error).toMatch(/newer version/i);
+  });
+
+  it("restores a valid archive", async () => {
+    const res = await POST(createRequest(backup));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({ success: true, recipeCount: 1 });
+    // Archives from before prices and stores restore without them
+    expect(mockRestore).toHaveBeenCalledWith(expect.anything(), {
+      ...backup,
+      ingredient_prices: [],
+      price_history: [],
+      grocery_stores: [],
+    });
+  });
+
+  it("returns 500 when the restore fails", async () => {
+    mockRestore.mockRejectedValue(new Error("insert failed"));
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const res = await POST(createRequest(backup));
+
+    expect(res.status).toBe(500);
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * POST /api/account/import
+ *
+ * Restores a backup produced by GET /api/account/export. The body is the
+ * archive itself; it is validated against `accountBackupSchema` and then
+ * REPLACES all of the user's existing data (see `restoreAccountData`).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { restoreAccountData } from "@/lib/supabase/service";
+import { accountBackupSchema, ACCOUNT_BACKUP_VERSION } from "@/lib/schemas";
+
+/** Generous for a few thousand recipes; embedded data-URI images are the main risk. */
+const MAX_BACKUP_BYTES = 50 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (Number(request.headers.get("content-length") ?? 0) > MAX_BACKUP_BYTES) {
+    return NextResponse.json({ error: "Backup file is too large" }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
+  }
+
+  const version = (body as { version?: unknown } | null)?.version;
+  if (typeof version === "number" && version > ACCOUNT_BACKUP_VERSION) {
+    return NextResponse.json(
+      { error: "This backup was made by a newer version of CookSnap" },
+      { status: 400 },
+    );
+  }
+
+  const parsed = accountBackupSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Not a valid CookSnap backup", issues: parsed.error.issues.slice(0, 10) },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { recipeCount } = await restoreAccountData(supabase, parsed.data);
+    return NextResponse.json({ success: true, recipeCount });
+  } catch (err) {
+    console.error("Failed to restore account:", err instanceof Error ? err.message : err);
+    return NextResponse.json(
+      { error: "Restore failed. Nothing was changed — try importing the backup again." },
+      { status: 500 },
+    );
+  }
+}
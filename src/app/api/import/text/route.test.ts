@@ -0,0 +1,103 @@
+/**
+ * Tests for the text import route handler (POST /api/import/text).
+ *
+ * Covers auth, input validation and the parsed-recipe response. Parsing
+ * itself is covered by src/lib/text-recipe-parser.test.ts.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ---------------------------------------------------------------------------
+// vi.hoisted — these run before vi.mock factories, which are hoisted to top.
+// ---------------------------------------------------------------------------
+
+const { mockGetUser } = vi.hoisted(() => {
+  const mockGetUser = vi.fn();
+  return { mockGetUser };
+});
+
+// ---------------------------------------------------------------------------
+// Module mocks
+// ---------------------------------------------------------------------------
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn().mockResolvedValue({
+    auth: { getUser: mockGetUser },
+  }),
+}));
+
+// ---------------------------------------------------------------------------
+// Imports (after mocks)
+// ---------------------------------------------------------------------------
+
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+
+function createRequest(body: Record<string, unknown>): NextRequest {
+  return new NextRequest("http://localhost:3000/api/import/text", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Route handler tests
+// ---------------------------------------------------------------------------
+
+describe("POST /api/import/text", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetUser.mockResolvedValue({ data: { user: { id: "user-1" } } });
+  });
+
+  it("returns 401 for unauthenticated requests", async () => {
+    mockGetUser.mockResolvedValue({ data: { user: null } });
+
+    const res = await POST(createRequest({ text: "Toast\nIngredients\n1 slice bread" }));
+
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 400 when text is missing or blank", async () => {
+    expect((await POST(createRequest({}))).status).toBe(400);
+    expect((await POST(createRequest({ text: "   " }))).status).toBe(400);
+    expect((await POST(createRequest({ text: 42 }))).status).toBe(400);
+  });
+
+  it("returns 400 for malformed JSON body", async () => {
+    const req = new NextRequest("http://localhost:3000/api/import/text", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{not json",
+    });
+
+    expect((await POST(req)).status).toBe(400);
+  });
+
+  it("returns 413 for oversized text", async () => {
+    const res = await POST(createRequest({ text: "a".repeat(50_001) }));
+
+    expect(res.status).toBe(413);
+  });
+
+  it("returns 422 when no recipe is found", async () => {
+    const res = await POST(createRequest({ text: "Just a title" }));
+    const body = await res.json();
+
+    expect(res.status).toBe(422);
+    expect(body.error).toMatch(/could not find a recipe/i);
+  });
+
+  it("returns the parsed recipe", async () => {
+    const res = await POST(
+      createRequest({ text: "Toast\nIngredients\n1 slice bread\nInstructions\nToast the bread." }),
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.title).toBe("Toast");
+    expect(body.ingredients).toEqual(["1 slice bread"]);
+    expect(body.instructions).toEqual(["Toast the bread."]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * POST /api/import/text — parses pasted recipe text (or the contents of a
+ * plain-text file) into structured recipe data.
+ *
+ * Body: { text: string }. Returns a ScrapedRecipe, like POST /api/scrape.
+ * Auth is required even though nothing is fetched, so the parser can't be
+ * used as an anonymous compute endpoint.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { parseRecipeText, MAX_RECIPE_TEXT_LENGTH } from "@/lib/text-recipe-parser";
+
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required." },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid request body." },
+      { status: 400 }
+    );
+  }
+  const { text } = body as { text?: unknown };
+
+  if (!text || typeof text !== "string" || !text.trim()) {
+    return NextResponse.json(
+      { error: "Recipe text is required" },
+      { status: 400 }
+    );
+  }
+
+  if (text.length > MAX_RECIPE_TEXT_LENGTH) {
+    return NextResponse.json(
+      { error: "Text is too long (max 50,000 characters)." },
+      { status: 413 }
+    );
+  }
+
+  const recipe = parseRecipeText(text);
+
+  if (!recipe) {
+    return NextResponse.json(
+      {
+        error:
+          "Could not find a recipe in this text. Try adding \"Ingredients\" and \"Instructions\" headings.",
+      },
+      { status: 422 }
+    );
+  }
+
+  return NextResponse.json(recipe);
+}
@@ -0,0 +1,127 @@
+/**
+ * Tests for the recipe card route handler (GET /api/print/recipe/:id).
+ *
+ * Covers auth, lookup and the PDF response. Layout is covered by the
+ * lib/print tests.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// ---------------------------------------------------------------------------
+// vi.hoisted — these run before vi.mock factories, which are hoisted to top.
+// ---------------------------------------------------------------------------
+
+const { mockGetUser, mockFetchRecipe } = vi.hoisted(() => {
+  const mockGetUser = vi.fn();
+  const mockFetchRecipe = vi.fn();
+  return { mockGetUser, mockFetchRecipe };
+});
+
+// ---------------------------------------------------------------------------
+// Module mocks
+// ---------------------------------------------------------------------------
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn().mockResolvedValue({
+    auth: { getUser: mockGetUser },
+  }),
+}));
+
+vi.mock("@/lib/supabase/service", () => ({
+  fetchRecipe: mockFetchRecipe,
+}));
+
+// ---------------------------------------------------------------------------
+// Imports (after mocks)
+// ---------------------------------------------------------------------------
+
+import { GET } from "./route";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function print(query = "", id = "r1") {
+  const request = new NextRequest(`http://localhost/api/print/recipe/${id}${query}`);
+  return GET(request, { params: Promise.resolve({ id }) });
+}
+
+const recipe = {
+  id: "r1",
+  title: "Crème Brûlée",
+  image: null,
+  ingredients: ["2 cups cream", "4 egg yolks"],
+  instructions: ["Bake at 325°F."],
+  sourceUrl: "manual",
+  tags: [],
+  createdAt: "2026-10-01T00:00:00Z",
+  servings: "4",
+};
+
+// ---------------------------------------------------------------------------
+// Route handler tests
+// ---------------------------------------------------------------------------
+
+describe("GET /api/print/recipe/:id", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetUser.mockResolvedValue({ data: { user: { id: "user-1" } }, error: null });
+    mockFetchRecipe.mockResolvedValue(recipe);
+  });
+
+  it("returns 401 for unauthenticated requests", async () => {
+    mockGetUser.mockResolvedValue({ data: { user: null }, error: null });
+
+    const res = await print();
+
+    expect(res.status).toBe(401);
+    expect(mockFetchRecipe).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for a recipe the user can't see", async () => {
+    mockFetchRecipe.mockResolvedValue(null);
+
+    const res = await print();
+
+    expect(res.status).toBe(404);
+  });
+
+  it("returns the card as an inline PDF named after the recipe", async () => {
+    const res = await print();
+    const body = new TextDecoder().decode(await res.arrayBuffer());
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/pdf");
+    expect(res.headers.get("Content-Disposition")).toBe('inline; filename="creme-brulee.pdf"');
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+    expect(body.startsWith("%PDF-")).toBe(true);
+  });
+
+  it("scales and converts as asked", async () => {
+    const res = await print("?servings=8&units=metric");
+    const body = new TextDecoder().decode(await res.arrayBuffer());
+
+    expect(body).toContain("Serves 8");
+    expect(body).toContain("\\260C");
+  });
+
+  it("ignores servings and units it can't use", async () => {
+    const res = await print("?servings=-3&units=imperial");
+    const body = new TextDecoder().decode(await res.arrayBuffer());
+
+    expect(res.status).toBe(200);
+    expect(body).toContain("(2 cups cream)");
+    expect(body).toContain("325\\260F");
+  });
+
+  it("returns 500 when loading the recipe fails", async () => {
+    mockFetchRecipe.mockRejectedValue(new Error("db down"));
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const res = await print();
+
+    expect(res.status).toBe(500);
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * GET /api/print/recipe/:id?servings=6&units=metric
+ *
+ * A recipe as a one-page printable card (PDF), scaled to `servings` and
+ * converted to `units` ("us" | "metric") the way the recipe page shows it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { fetchRecipe } from "@/lib/supabase/service";
+import { recipeCardPdf } from "@/lib/print";
+import { slugify } from "@/lib/recipe-exchange";
+import type { UnitSystem } from "@/lib/unit-converter";
+
+const MAX_SERVINGS = 100;
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const query = request.nextUrl.searchParams;
+  const servings = Number(query.get("servings"));
+  const units = query.get("units");
+
+  try {
+    const recipe = await fetchRecipe(supabase, id);
+    if (!recipe) {
+      return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
+    }
+
+    const pdf = recipeCardPdf(recipe, {
+      servings: Number.isInteger(servings) && servings > 0 && servings <= MAX_SERVINGS ? servings : null,
+      unitSystem: units === "us" || units === "metric" ? (units as UnitSystem) : null,
+    });
+
+    return new NextResponse(pdf as BodyInit, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${slugify(recipe.title)}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("Failed to print recipe:", err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: "Failed to print recipe" }, { status: 500 });
+  }
+}
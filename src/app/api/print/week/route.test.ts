@@ -0,0 +1,137 @@
+/**
+ * Tests for the week plan route handler (GET /api/print/week).
+ *
+ * Covers auth, which recipes the plan is printed with and the PDF response.
+ * Layout is covered by the lib/print tests.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+// ---------------------------------------------------------------------------
+// vi.hoisted — these run before vi.mock factories, which are hoisted to top.
+// ---------------------------------------------------------------------------
+
+const { mockGetUser, mockFetchMealPlan, mockFetchRecipes, mockFetchHouseholdRecipes, mockFetchPantry } =
+  vi.hoisted(() => ({
+    mockGetUser: vi.fn(),
+    mockFetchMealPlan: vi.fn(),
+    mockFetchRecipes: vi.fn(),
+    mockFetchHouseholdRecipes: vi.fn(),
+    mockFetchPantry: vi.fn(),
+  }));
+
+// ---------------------------------------------------------------------------
+// Module mocks
+// ---------------------------------------------------------------------------
+
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: vi.fn().mockResolvedValue({
+    auth: { getUser: mockGetUser },
+  }),
+}));
+
+vi.mock("@/lib/supabase/service", () => ({
+  fetchMealPlan: mockFetchMealPlan,
+  fetchRecipes: mockFetchRecipes,
+  fetchHouseholdRecipes: mockFetchHouseholdRecipes,
+  fetchPantry: mockFetchPantry,
+}));
+
+// ---------------------------------------------------------------------------
+// Imports (after mocks)
+// ---------------------------------------------------------------------------
+
+import { GET } from "./route";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function print(query = "?start=2026-10-19") {
+  return GET(new NextRequest(`http://localhost/api/print/week${query}`));
+}
+
+const recipe = (id: string, title: string, ingredients: string[]) => ({
+  id,
+  title,
+  image: null,
+  ingredients,
+  instructions: ["Cook."],
+  sourceUrl: "",
+  tags: [],
+  createdAt: "2026-10-01T00:00:00Z",
+});
+
+const emptyDay = { breakfast: [], lunch: [], dinner: [], snack: [] };
+
+// ---------------------------------------------------------------------------
+// Route handler tests
+// ---------------------------------------------------------------------------
+
+describe("GET /api/print/week", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetUser.mockResolvedValue({ data: { user: { id: "user-1" } }, error: null });
+    mockFetchMealPlan.mockResolvedValue({});
+    mockFetchRecipes.mockResolvedValue([]);
+    mockFetchHouseholdRecipes.mockResolvedValue([]);
+    mockFetchPantry.mockResolvedValue([]);
+  });
+
+  it("returns 401 for unauthenticated requests", async () => {
+    mockGetUser.mockResolvedValue({ data: { user: null }, error: null });
+
+    const res = await print();
+
+    expect(res.status).toBe(401);
+    expect(mockFetchMealPlan).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for a start that isn't a date", async () => {
+    const res = await print("?start=next-week");
+
+    expect(res.status).toBe(400);
+  });
+
+  it("prints housemates' planned meals and their ingredients", async () => {
+    mockFetchMealPlan.mockResolvedValue({
+      "2026-10-19": {
+        ...emptyDay,
+        lunch: [{ recipeId: "r1", isLeftover: false, position: 0 }],
+        dinner: [{ recipeId: "r2", isLeftover: false, position: 0 }],
+      },
+    });
+    mockFetchRecipes.mockResolvedValue([recipe("r1", "Tomato Soup", ["4 tomatoes"])]);
+    mockFetchHouseholdRecipes.mockResolvedValue([recipe("r2", "Their Curry", ["2 cups coconut milk"])]);
+
+    const res = await print();
+    const body = new TextDecoder().decode(await res.arrayBuffer());
+
+    expect(res.status).toBe(200);
+    expect(mockFetchMealPlan).toHaveBeenCalledWith(expect.anything(), "2026-10-19", "2026-10-25");
+    expect(mockFetchHouseholdRecipes).toHaveBeenCalledWith(expect.anything(), ["r2"]);
+    expect(body).toContain("Tomato Soup");
+    expect(body).toContain("Their Curry");
+    expect(body).toContain("coconut milk");
+  });
+
+  it("returns the plan as an inline PDF named after the week", async () => {
+    const res = await print();
+    const body = new TextDecoder().decode(await res.arrayBuffer());
+
+    expect(res.headers.get("Content-Type")).toBe("application/pdf");
+    expect(res.headers.get("Content-Disposition")).toBe('inline; filename="meal-plan-2026-10-19.pdf"');
+    expect(body.startsWith("%PDF-")).toBe(true);
+  });
+
+  it("returns 500 when loading the plan fails", async () => {
+    mockFetchMealPlan.mockRejectedValue(new Error("db down"));
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const res = await print();
+
+    expect(res.status).toBe(500);
+    consoleSpy.mockRestore();
+  });
+});
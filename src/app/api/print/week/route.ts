@@ -0,0 +1,76 @@
+/**
+ * GET /api/print/week?start=2026-10-19
+ *
+ * The household's meal plan for the week starting `start` (this week when
+ * missing), followed by its shopping list less the pantry, as a PDF for the
+ * fridge.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { fetchHouseholdRecipes, fetchMealPlan, fetchPantry, fetchRecipes } from "@/lib/supabase/service";
+import { weekPlanPdf } from "@/lib/print";
+import { SLOTS } from "@/lib/constants";
+import { getWeekDates } from "@/lib/utils";
+import type { MealPlan, Recipe } from "@/types";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** The seven dates from `start`, YYYY-MM-DD. */
+function weekFrom(start: string): string[] {
+  return Array.from({ length: 7 }, (_, i) => {
+    const d = new Date(start + "T00:00:00Z");
+    d.setUTCDate(d.getUTCDate() + i);
+    return d.toISOString().slice(0, 10);
+  });
+}
+
+/** Recipes the plan holds that aren't among `recipes` — housemates' planned meals. */
+function missingRecipeIds(plan: MealPlan, recipes: Recipe[]): string[] {
+  const known = new Set(recipes.map((r) => r.id));
+  const missing = new Set<string>();
+  for (const day of Object.values(plan)) {
+    for (const slot of SLOTS) {
+      for (const entry of day[slot]) {
+        if (!known.has(entry.recipeId)) missing.add(entry.recipeId);
+      }
+    }
+  }
+  return [...missing];
+}
+
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const start = request.nextUrl.searchParams.get("start");
+  if (start && (!ISO_DATE.test(start) || isNaN(Date.parse(start)))) {
+    return NextResponse.json({ error: "start must be a date (YYYY-MM-DD)" }, { status: 400 });
+  }
+  const dates = start ? weekFrom(start) : getWeekDates(0);
+
+  try {
+    const [mealPlan, recipes, pantry] = await Promise.all([
+      fetchMealPlan(supabase, dates[0], dates[6]),
+      fetchRecipes(supabase),
+      fetchPantry(supabase),
+    ]);
+    const housemates = await fetchHouseholdRecipes(supabase, missingRecipeIds(mealPlan, recipes));
+    const pdf = weekPlanPdf({ dates, mealPlan, recipes: [...recipes, ...housemates], pantry });
+
+    return new NextResponse(pdf as BodyInit, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="meal-plan-${dates[0]}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("Failed to print meal plan:", err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: "Failed to print meal plan" }, { status: 500 });
+  }
+}
@@ -3,7 +3,7 @@
  *
  * Covers:
  *   - isBlockedIP: SSRF protection for private/reserved IP ranges
- *   - Route handler: auth, input validation, rate limiting
+ *   - Route handler: auth, input validation, rate limiting, caching
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
@@ -48,6 +48,7 @@ vi.mock("node:dns/promises", () => ({
 // ---------------------------------------------------------------------------
 
 import { isBlockedIP, POST } from "./route";
+import { clearScrapeCache } from "@/lib/scrape-cache";
 import { NextRequest } from "next/server";
 
 // ---------------------------------------------------------------------------
@@ -170,6 +171,7 @@ describe("isBlockedIP", () => {
 describe("POST /api/scrape", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    clearScrapeCache();
   });
 
   it("returns 401 for unauthenticated requests", async () => {
@@ -576,4 +578,129 @@ describe("POST /api/scrape", () => {
 
     fetchSpy.mockRestore();
   });
+
+  // --- Scrape cache -----------------------------------------------------------
+
+  it("serves a page imported before from the cache, by canonical URL", async () => {
+    mockGetUser.mockResolvedValue({
+      data: { user: { id: "cache-test-user" } },
+    });
+
+    const { scrapeRecipe } = await import("@/lib/scraper");
+    const mockScrapeRecipe = vi.mocked(scrapeRecipe);
+    mockScrapeRecipe.mockReturnValue({
+      title: "Chili",
+      ingredients: ["1 lb beef"],
+      instructions: ["Simmer"],
+      image: null,
+      canonicalUrl: "https://chili-site.com/chili",
+    });
+
+    const fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue(
+      new Response("<html></html>", {
+        status: 200,
+        headers: { "Content-Type": "text/html" },
+      })
+    );
+
+    await POST(createRequest({ url: "https://www.chili-site.com/chili/" }));
+    const res = await POST(createRequest({ url: "https://chili-site.com/chili?utm_source=pinterest" }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.title).toBe("Chili");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(mockScrapeRecipe).toHaveBeenCalledTimes(1);
+
+    fetchSpy.mockRestore();
+  });
+
+  it("doesn't cache a page under the canonical URL it claims", async () => {
+    mockGetUser.mockResolvedValue({
+      data: { user: { id: "cache-canonical-user" } },
+    });
+
+    const { scrapeRecipe } = await import("@/lib/scraper");
+    const mockScrapeRecipe = vi.mocked(scrapeRecipe);
+    mockScrapeRecipe
+      .mockReturnValueOnce({
+        title: "Fake Chili",
+        ingredients: ["sawdust"],
+        instructions: ["Serve"],
+        image: null,
+        canonicalUrl: "https://forum-site.com/recipes/chili",
+      })
+      .mockReturnValueOnce({ title: "Chili", ingredients: ["1 lb beef"], instructions: ["Simmer"], image: null });
+
+    const fetchSpy = vi.spyOn(global, "fetch").mockImplementation(async () =>
+      new Response("<html></html>", {
+        status: 200,
+        headers: { "Content-Type": "text/html" },
+      })
+    );
+
+    await POST(createRequest({ url: "https://forum-site.com/posts/123" }));
+    const res = await POST(createRequest({ url: "https://forum-site.com/recipes/chili" }));
+
+    expect((await res.json()).title).toBe("Chili");
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    fetchSpy.mockRestore();
+  });
+
+  it("caches rendered results so the rendering fallback isn't paid for twice", async () => {
+    mockGetUser.mockResolvedValue({
+      data: { user: { id: "cache-render-user" } },
+    });
+
+    const { scrapeRecipe } = await import("@/lib/scraper");
+    vi.mocked(scrapeRecipe)
+      .mockReturnValueOnce(null)
+      .mockReturnValueOnce({ title: "SPA Chili", ingredients: ["beans"], instructions: ["Cook"], image: null });
+
+    const { fetchRenderedHtml } = await import("@/lib/cloudflare-render");
+    const mockFetchRendered = vi.mocked(fetchRenderedHtml);
+    mockFetchRendered.mockResolvedValue("<html><body>rendered</body></html>");
+
+    const fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue(
+      new Response("<html></html>", {
+        status: 200,
+        headers: { "Content-Type": "text/html" },
+      })
+    );
+
+    await POST(createRequest({ url: "https://spa-site.com/chili" }));
+    const res = await POST(createRequest({ url: "https://spa-site.com/chili/amp" }));
+
+    expect((await res.json()).title).toBe("SPA Chili");
+    expect(mockFetchRendered).toHaveBeenCalledTimes(1);
+
+    fetchSpy.mockRestore();
+  });
+
+  it("doesn't cache failures", async () => {
+    mockGetUser.mockResolvedValue({
+      data: { user: { id: "cache-fail-user" } },
+    });
+
+    const { scrapeRecipe } = await import("@/lib/scraper");
+    vi.mocked(scrapeRecipe).mockReturnValue(null);
+
+    const { fetchRenderedHtml } = await import("@/lib/cloudflare-render");
+    vi.mocked(fetchRenderedHtml).mockResolvedValue(null);
+
+    const fetchSpy = vi.spyOn(global, "fetch").mockImplementation(async () =>
+      new Response("<html></html>", {
+        status: 200,
+        headers: { "Content-Type": "text/html" },
+      })
+    );
+
+    await POST(createRequest({ url: "https://flaky-site.com/chili" }));
+    await POST(createRequest({ url: "https://flaky-site.com/chili" }));
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    fetchSpy.mockRestore();
+  });
 });
@@ -1,6 +1,13 @@
 /**
  * POST /api/scrape — fetches a URL and extracts structured recipe data.
  *
+ * Returns a ScrapedRecipe whose `strategy` reports how it was found: a
+ * generic strategy ("json-ld", "dom-text", …) or a site extractor's id, and
+ * whose `confidence` rates each field for review before saving.
+ *
+ * Results are cached by canonical URL (see lib/scrape-cache), so importing
+ * a page again skips the fetch and the Browser Rendering fallback.
+ *
  * Security hardening:
  *   - Supabase auth required (C1)
  *   - SSRF protection via DNS resolution + IP blocklist + manual redirects (C2)
@@ -13,6 +20,7 @@ import { NextRequest, NextResponse } from "next/server";
 import dns from "node:dns/promises";
 import { createClient } from "@/lib/supabase/server";
 import { scrapeRecipe } from "@/lib/scraper";
+import { cacheScrape, getCachedScrape } from "@/lib/scrape-cache";
 import { fetchRenderedHtml } from "@/lib/cloudflare-render";
 
 // ---------------------------------------------------------------------------
@@ -321,6 +329,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // --- Cache -------------------------------------------------------------
+    const cached = getCachedScrape(url);
+    if (cached) return NextResponse.json(cached);
+
     // --- Fetch with SSRF protection (C2) ----------------------------------
     const response = await safeFetch(
       parsedUrl,
@@ -378,7 +390,10 @@ export async function POST(request: NextRequest) {
       const renderedHtml = await fetchRenderedHtml(url);
       if (renderedHtml) {
         const renderedRecipe = scrapeRecipe(renderedHtml, url);
-        if (renderedRecipe) return NextResponse.json(renderedRecipe);
+        if (renderedRecipe) {
+          cacheScrape(url, renderedRecipe);
+          return NextResponse.json(renderedRecipe);
+        }
       }
 
       return NextResponse.json(
@@ -390,6 +405,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    cacheScrape(url, recipe);
     return NextResponse.json(recipe);
   } catch (error) {
     if (error instanceof SSRFError) {
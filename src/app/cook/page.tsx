@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useMemo } from "react";
 import { useRecipeStore } from "@/stores/recipe-store";
 import { useAuth } from "@/components/auth-provider";
 import { CookingView } from "@/components/cooking-view";
@@ -14,6 +14,7 @@ import Link from "next/link";
 export default function CookPage() {
   const { user } = useAuth();
   const recipes = useRecipeStore((s) => s.recipes);
+  const householdRecipes = useRecipeStore((s) => s.householdRecipes);
   const isLoading = useRecipeStore((s) => s.isLoading);
   const hydrated = useRecipeStore((s) => s.hydrated);
   const hydrate = useRecipeStore((s) => s.hydrate);
@@ -26,13 +27,18 @@ export default function CookPage() {
     }
   }, [user, hydrated, isLoading, hydrate]);
 
+  // A housemate's recipe from the shared meal plan can be cooked too
+  const recipe = useMemo(
+    () => [...recipes, ...householdRecipes].find((r) => r.id === cookingRecipeId),
+    [recipes, householdRecipes, cookingRecipeId],
+  );
+
   // Clear stale cookingRecipeId when the referenced recipe no longer exists
   useEffect(() => {
-    if (cookingRecipeId && hydrated && !isLoading) {
-      const found = recipes.find((r) => r.id === cookingRecipeId);
-      if (!found) stopCooking();
+    if (cookingRecipeId && hydrated && !isLoading && !recipe) {
+      stopCooking();
     }
-  }, [cookingRecipeId, recipes, hydrated, isLoading, stopCooking]);
+  }, [cookingRecipeId, recipe, hydrated, isLoading, stopCooking]);
 
   if (isLoading) {
     return (
@@ -65,7 +71,6 @@ export default function CookPage() {
   }
 
   // Recipe set but not found (deleted) — useEffect above clears the state
-  const recipe = recipes.find((r) => r.id === cookingRecipeId);
   if (!recipe) {
     return (
       <div className="flex flex-col items-center justify-center px-6 py-20 text-center">
@@ -5,6 +5,8 @@ import { ThemeProvider } from "next-themes";
 import { Toaster } from "sonner";
 import { BottomNav } from "@/components/bottom-nav";
 import { AuthProvider } from "@/components/auth-provider";
+import { HouseholdSync } from "@/components/household-sync";
+import { OfflineSync } from "@/components/offline-sync";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -58,6 +60,8 @@ export default async function RootLayout({
           <AuthProvider>
             <main id="main-content" className="mx-auto min-h-dvh max-w-lg pb-20">{children}</main>
             <BottomNav />
+            <HouseholdSync />
+            <OfflineSync />
             <Toaster position="top-center" richColors />
           </AuthProvider>
         </ThemeProvider>
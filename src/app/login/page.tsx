@@ -19,6 +19,12 @@ import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
 import { Loader2 } from "lucide-react";
 
+/** Where to go after signing in: the `next` query param if it's a local path, else home. */
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next") ?? "/";
+  return next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
 export default function LoginPage() {
   const router = useRouter();
   const [email, setEmail] = useState("");
@@ -44,7 +50,7 @@ export default function LoginPage() {
 
     // R5-31: Clear loading state if navigation fails (e.g. middleware redirect loop)
     try {
-      router.push("/");
+      router.push(nextPath());
       router.refresh();
     } catch {
       setLoading(false);
@@ -57,7 +63,7 @@ export default function LoginPage() {
     const { error } = await supabase.auth.signInWithOAuth({
       provider: "google",
       options: {
-        redirectTo: `${window.location.origin}/auth/callback`,
+        redirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(nextPath())}`,
       },
     });
 
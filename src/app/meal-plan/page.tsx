@@ -12,6 +12,8 @@
  * - Leftover indicator and toggle
  * - Shopping list generation and clear week
  * - Meal templates (save, apply, delete)
+ * - Estimated calories and protein per day (one serving per planned meal)
+ * - Weekly nutrition and cost summary against calorie and budget goals
  * - Responsive: stacked cards on mobile, 7-column grid on desktop
  */
 
@@ -32,6 +34,7 @@ import {
   CalendarDays,
   Pencil,
   Check,
+  Printer,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -64,6 +67,10 @@ import { useRecipeStore } from "@/stores/recipe-store";
 import { useAuth } from "@/components/auth-provider";
 import { cn, getWeekDates, formatWeekRange, getTodayISO, getWeekOffsetForDate } from "@/lib/utils";
 import { SLOTS, SLOT_LABELS, DAY_LABELS } from "@/lib/constants";
+import { estimateNutrition, formatNutrient, type DayNutrition } from "@/lib/nutrition";
+import { estimateCost } from "@/lib/cost";
+import { summarizeWeek } from "@/lib/meal-plan-summary";
+import { WeekSummaryPanel } from "@/components/week-summary-panel";
 import { toast } from "sonner";
 import type { MealSlot, MealSlotEntry, Recipe, MealPlanDay } from "@/types";
 
@@ -82,6 +89,26 @@ export default function MealPlanPage() {
   );
 }
 
+// ---------- DayNutritionLine (estimated totals under a day's header) ----------
+
+/** One-line daily estimate, e.g. "~1,850 kcal · 95 g protein". */
+function DayNutritionLine({ nutrition }: { nutrition: DayNutrition | null }) {
+  if (!nutrition) return null;
+  return (
+    <div
+      className="mb-1 text-[10px] text-muted-foreground tabular-nums"
+      title={
+        nutrition.complete
+          ? `Estimated from ${nutrition.counted} serving${nutrition.counted !== 1 ? "s" : ""}`
+          : "Partial estimate — some meals or ingredients couldn't be estimated"
+      }
+    >
+      ~{formatNutrient("calories", nutrition.total.calories)} · {formatNutrient("protein", nutrition.total.protein)} protein
+      {!nutrition.complete && "*"}
+    </div>
+  );
+}
+
 // ---------- EntryRow (renders a single recipe entry within a slot) ----------
 
 /** Props for the EntryRow component — always represents a filled entry. */
@@ -211,6 +238,7 @@ function MealPlanContent() {
   // ---------- store ----------
   const { user } = useAuth();
   const recipes = useRecipeStore((s) => s.recipes);
+  const householdRecipes = useRecipeStore((s) => s.householdRecipes);
   const mealPlan = useRecipeStore((s) => s.mealPlan);
   const mealTemplates = useRecipeStore((s) => s.mealTemplates);
   const assignMeal = useRecipeStore((s) => s.assignMeal);
@@ -243,13 +271,30 @@ function MealPlanContent() {
     return () => document.removeEventListener("visibilitychange", handleVisibility);
   }, []);
 
+  /** The user's recipes plus the housemates' ones the shared plan holds. */
+  const planRecipes = useMemo(() => [...recipes, ...householdRecipes], [recipes, householdRecipes]);
+
   /** Return the full Recipe object for a given id, or null. */
   const getRecipe = useCallback(
     (recipeId?: string): Recipe | null => {
       if (!recipeId) return null;
-      return recipes.find((r) => r.id === recipeId) ?? null;
+      return planRecipes.find((r) => r.id === recipeId) ?? null;
     },
-    [recipes],
+    [planRecipes],
+  );
+
+  /** Nutrition and cost estimates for every recipe, rolled up per day and week below. */
+  const recipeEstimates = useMemo(
+    () => ({
+      nutrition: new Map(planRecipes.map((r) => [r.id, estimateNutrition(r.ingredients, r.servings)])),
+      cost: new Map(planRecipes.map((r) => [r.id, estimateCost(r.ingredients, r.servings)])),
+    }),
+    [planRecipes],
+  );
+
+  const weekSummary = useMemo(
+    () => summarizeWeek(weekDates, mealPlan, recipeEstimates.nutrition, recipeEstimates.cost),
+    [weekDates, mealPlan, recipeEstimates],
   );
 
   // ---------- effects ----------
@@ -542,6 +587,7 @@ function MealPlanContent() {
                     })}
                   </span>
                 </div>
+                <DayNutritionLine nutrition={weekSummary.days[dayIdx].nutrition} />
                 <div className="space-y-0.5">
                   {SLOTS.map((slot) => {
                     const entries = mealPlan[date]?.[slot] ?? [];
@@ -614,6 +660,7 @@ function MealPlanContent() {
                     })}
                   </div>
                 </div>
+                <DayNutritionLine nutrition={weekSummary.days[dayIdx].nutrition} />
                 <div className="space-y-0.5">
                   {SLOTS.map((slot) => {
                     const entries = mealPlan[date]?.[slot] ?? [];
@@ -683,12 +730,21 @@ function MealPlanContent() {
             </div>
           )}
 
+          {/* ===================== WEEK SUMMARY ===================== */}
+          <WeekSummaryPanel summary={weekSummary} />
+
           {/* ===================== ACTION BUTTONS ===================== */}
           <div className="flex flex-wrap items-center gap-1.5">
             <Button size="sm" onClick={handleGenerateShoppingList}>
               <ShoppingCart className="mr-1.5 h-3.5 w-3.5" />
               Shopping List
             </Button>
+            <Button size="sm" variant="outline" asChild>
+              <a href={`/api/print/week?start=${weekDates[0]}`} target="_blank" rel="noopener">
+                <Printer className="mr-1.5 h-3.5 w-3.5" />
+                Print Week
+              </a>
+            </Button>
             <Button size="sm" variant="destructive" onClick={handleClearWeek}>
               <Trash2 className="mr-1.5 h-3.5 w-3.5" />
               Clear Week
@@ -0,0 +1,251 @@
+"use client";
+
+import { useState, useMemo, useEffect } from "react";
+import Link from "next/link";
+import { ArrowLeft, Plus, Trash2, Package, Loader2, Pencil, Check, ChefHat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { UserMenu } from "@/components/user-menu";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { useAuth } from "@/components/auth-provider";
+import { toast } from "sonner";
+import { parseIngredient, formatQuantity } from "@/lib/ingredient-parser";
+import {
+  categorizeIngredient,
+  INGREDIENT_CATEGORIES,
+  type IngredientCategory,
+} from "@/lib/ingredient-categorizer";
+import type { PantryItem } from "@/types";
+
+/** "2 cups", "3", or "" for untracked stock. */
+function formatAmount(item: Pick<PantryItem, "quantity" | "unit">): string {
+  if (item.quantity === null) return "";
+  return item.unit ? `${formatQuantity(item.quantity)} ${item.unit}` : formatQuantity(item.quantity);
+}
+
+export default function PantryPage() {
+  const [newItem, setNewItem] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editAmount, setEditAmount] = useState("");
+
+  const { user } = useAuth();
+
+  const pantry = useRecipeStore((s) => s.pantry);
+  const stockPantry = useRecipeStore((s) => s.stockPantry);
+  const updatePantryItem = useRecipeStore((s) => s.updatePantryItem);
+  const removePantryItem = useRecipeStore((s) => s.removePantryItem);
+  const addPantryItem = useRecipeStore((s) => s.addPantryItem);
+
+  const isLoading = useRecipeStore((s) => s.isLoading);
+  const hydrated = useRecipeStore((s) => s.hydrated);
+  const error = useRecipeStore((s) => s.error);
+  const clearError = useRecipeStore((s) => s.clearError);
+  const hydrate = useRecipeStore((s) => s.hydrate);
+
+  useEffect(() => {
+    if (user && !hydrated && !isLoading) {
+      hydrate();
+    }
+  }, [user, hydrated, isLoading, hydrate]);
+
+  useEffect(() => {
+    if (error) {
+      toast.error(error);
+      clearError();
+    }
+  }, [error, clearError]);
+
+  /** Group pantry items by grocery section, alphabetical within each */
+  const groupedItems = useMemo(() => {
+    const groupMap = new Map<IngredientCategory, PantryItem[]>();
+
+    for (const item of pantry) {
+      const category = categorizeIngredient(item.name);
+      let group = groupMap.get(category);
+      if (!group) {
+        group = [];
+        groupMap.set(category, group);
+      }
+      group.push(item);
+    }
+
+    for (const items of groupMap.values()) {
+      items.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    return INGREDIENT_CATEGORIES.filter((cat) => groupMap.has(cat)).map(
+      (category) => ({ category, items: groupMap.get(category)! })
+    );
+  }, [pantry]);
+
+  const handleAdd = () => {
+    const trimmed = newItem.trim();
+    if (trimmed) {
+      stockPantry(trimmed);
+      setNewItem("");
+    }
+  };
+
+  const startEditing = (item: PantryItem) => {
+    setEditingId(item.id);
+    setEditAmount(formatAmount(item));
+  };
+
+  /** Parse the edited amount against the item name; blank means "have some" */
+  const saveEditing = (item: PantryItem) => {
+    const amount = editAmount.trim();
+    const parsed = amount ? parseIngredient(`${amount} ${item.name}`) : null;
+    updatePantryItem(item.id, {
+      quantity: parsed?.quantity ?? null,
+      unit: parsed?.quantity != null ? parsed.unit : null,
+    });
+    setEditingId(null);
+  };
+
+  /** Remove an item with undo toast */
+  const handleRemove = (item: PantryItem) => {
+    removePantryItem(item.id);
+    toast(`Removed ${item.name}`, {
+      action: {
+        label: "Undo",
+        onClick: () => addPantryItem(item.name, item.quantity, item.unit),
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-4 p-4 pt-6 overflow-x-hidden">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+            <Link href="/shopping-list" aria-label="Back to shopping list">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Pantry</h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/what-to-cook" aria-label="Find recipes I can cook" title="What can I cook?">
+              <ChefHat className="h-4 w-4" />
+            </Link>
+          </Button>
+          <ThemeToggle />
+          <UserMenu />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-col items-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          <p className="mt-4 text-sm text-muted-foreground">Loading...</p>
+        </div>
+      ) : (
+        <>
+          {/* Add item */}
+          <div className="flex gap-2">
+            <label htmlFor="pantry-add-item" className="sr-only">Add to pantry</label>
+            <Input
+              id="pantry-add-item"
+              placeholder="e.g. 2 lbs rice, or just cumin"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+            />
+            <Button size="icon" onClick={handleAdd} disabled={!newItem.trim()} aria-label="Add to pantry">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {pantry.length > 0 ? (
+            <div>
+              {groupedItems.map((group, gi) => (
+                <div key={group.category} className={gi === 0 ? "" : "mt-3"}>
+                  <h2 className="mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                    {group.category}
+                    <span className="ml-1.5 normal-case tracking-normal">
+                      ({group.items.length})
+                    </span>
+                  </h2>
+                  <div className="space-y-0">
+                    {group.items.map((item) => (
+                      <div
+                        key={item.id}
+                        className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-accent/50 transition-colors"
+                      >
+                        <span className="flex-1 min-w-0 truncate text-sm">{item.name}</span>
+                        {editingId === item.id ? (
+                          <>
+                            <label htmlFor={`pantry-amount-${item.id}`} className="sr-only">
+                              Amount of {item.name}
+                            </label>
+                            <Input
+                              id={`pantry-amount-${item.id}`}
+                              className="h-7 w-28 text-xs"
+                              placeholder="On hand"
+                              value={editAmount}
+                              autoFocus
+                              onChange={(e) => setEditAmount(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") saveEditing(item);
+                                if (e.key === "Escape") setEditingId(null);
+                              }}
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => saveEditing(item)}
+                              aria-label={`Save amount of ${item.name}`}
+                            >
+                              <Check className="h-3.5 w-3.5" />
+                            </Button>
+                          </>
+                        ) : (
+                          <>
+                            <span className="text-xs text-muted-foreground">
+                              {formatAmount(item) || "On hand"}
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => startEditing(item)}
+                              aria-label={`Edit amount of ${item.name}`}
+                            >
+                              <Pencil className="h-3.5 w-3.5" />
+                            </Button>
+                          </>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-muted-foreground"
+                          onClick={() => handleRemove(item)}
+                          aria-label={`Remove ${item.name}`}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center py-16 text-center">
+              <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+                <Package className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h2 className="text-lg font-semibold">Pantry is empty</h2>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Add what you have on hand and generated shopping lists will skip it
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, useMemo, useEffect } from "react";
+import Link from "next/link";
+import { ArrowLeft, Plus, Trash2, Tags, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { UserMenu } from "@/components/user-menu";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { useAuth } from "@/components/auth-provider";
+import { toast } from "sonner";
+import { formatQuantity } from "@/lib/ingredient-parser";
+import { formatCost, priceFromItem } from "@/lib/cost";
+import type { IngredientPrice } from "@/types";
+
+/** "$4.99 / 2 lb", or "$3.50 each" for prices recorded without a unit. */
+function formatPrice(price: IngredientPrice): string {
+  const amount = formatCost(price.price);
+  if (price.unit) return `${amount} / ${formatQuantity(price.quantity)} ${price.unit}`;
+  return price.quantity === 1 ? `${amount} each` : `${amount} / ${formatQuantity(price.quantity)}`;
+}
+
+export default function PricesPage() {
+  const [newItem, setNewItem] = useState("");
+  const [newPrice, setNewPrice] = useState("");
+  const [newStore, setNewStore] = useState("");
+
+  const { user } = useAuth();
+
+  const ingredientPrices = useRecipeStore((s) => s.ingredientPrices);
+  const saveIngredientPrice = useRecipeStore((s) => s.saveIngredientPrice);
+  const removeIngredientPrice = useRecipeStore((s) => s.removeIngredientPrice);
+
+  const isLoading = useRecipeStore((s) => s.isLoading);
+  const hydrated = useRecipeStore((s) => s.hydrated);
+  const error = useRecipeStore((s) => s.error);
+  const clearError = useRecipeStore((s) => s.clearError);
+  const hydrate = useRecipeStore((s) => s.hydrate);
+
+  useEffect(() => {
+    if (user && !hydrated && !isLoading) {
+      hydrate();
+    }
+  }, [user, hydrated, isLoading, hydrate]);
+
+  useEffect(() => {
+    if (error) {
+      toast.error(error);
+      clearError();
+    }
+  }, [error, clearError]);
+
+  /** Alphabetical by ingredient, then store */
+  const sortedPrices = useMemo(
+    () =>
+      [...ingredientPrices].sort(
+        (a, b) => a.name.localeCompare(b.name) || (a.store ?? "").localeCompare(b.store ?? "")
+      ),
+    [ingredientPrices]
+  );
+
+  const parsedPrice = parseFloat(newPrice.replace(/^\$/, ""));
+  const canAdd = newItem.trim() !== "" && Number.isFinite(parsedPrice) && parsedPrice >= 0;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    saveIngredientPrice(priceFromItem(newItem.trim(), parsedPrice, newStore));
+    setNewItem("");
+    setNewPrice("");
+  };
+
+  /** Remove a price with undo toast */
+  const handleRemove = (price: IngredientPrice) => {
+    removeIngredientPrice(price.id);
+    toast(`Removed price for ${price.name}`, {
+      action: {
+        label: "Undo",
+        onClick: () =>
+          saveIngredientPrice({
+            name: price.name,
+            store: price.store,
+            price: price.price,
+            quantity: price.quantity,
+            unit: price.unit,
+          }),
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-4 p-4 pt-6 overflow-x-hidden">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+            <Link href="/shopping-list" aria-label="Back to shopping list">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Prices</h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <ThemeToggle />
+          <UserMenu />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-col items-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          <p className="mt-4 text-sm text-muted-foreground">Loading...</p>
+        </div>
+      ) : (
+        <>
+          {/* Add price */}
+          <div className="space-y-2">
+            <label htmlFor="price-add-item" className="sr-only">Item</label>
+            <Input
+              id="price-add-item"
+              placeholder="e.g. 2 lb chicken thighs"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+            />
+            <div className="flex gap-2">
+              <label htmlFor="price-add-price" className="sr-only">Price</label>
+              <Input
+                id="price-add-price"
+                className="w-28"
+                inputMode="decimal"
+                placeholder="$ Price"
+                value={newPrice}
+                onChange={(e) => setNewPrice(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+              />
+              <label htmlFor="price-add-store" className="sr-only">Store</label>
+              <Input
+                id="price-add-store"
+                placeholder="Store (optional)"
+                value={newStore}
+                onChange={(e) => setNewStore(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+              />
+              <Button size="icon" className="shrink-0" onClick={handleAdd} disabled={!canAdd} aria-label="Add price">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {sortedPrices.length > 0 ? (
+            <div className="space-y-0">
+              {sortedPrices.map((price) => (
+                <div
+                  key={price.id}
+                  className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-accent/50 transition-colors"
+                >
+                  <span className="flex-1 min-w-0 truncate text-sm">
+                    {price.name}
+                    {price.store && (
+                      <span className="ml-1.5 text-xs text-muted-foreground">{price.store}</span>
+                    )}
+                  </span>
+                  <span className="text-xs tabular-nums text-muted-foreground">{formatPrice(price)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground"
+                    onClick={() => handleRemove(price)}
+                    aria-label={`Remove price for ${price.name}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center py-16 text-center">
+              <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+                <Tags className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h2 className="text-lg font-semibold">No prices yet</h2>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Check items off your shopping list with what you paid, and list totals will use your prices
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
-import { Loader2, LogOut, Trash2, ChefHat, RefreshCw } from "lucide-react";
+import { Loader2, LogOut, Trash2, ChefHat, RefreshCw, DownloadCloud, UploadCloud } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/components/auth-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { RecipeLibraryCard } from "@/components/recipe-library-card";
+import { DietaryRestrictionsCard } from "@/components/dietary-restrictions-card";
+import { HouseholdCard } from "@/components/household-card";
 import { useRecipeStore } from "@/stores/recipe-store";
 import { createClient } from "@/lib/supabase/client";
 import { fetchProfile, updateProfile } from "@/lib/supabase/service";
@@ -29,18 +32,27 @@ import type { Profile } from "@/types";
 
 /**
  * Profile page — displays user identity, allows editing display name,
- * shows recipe stats, and provides sign-out / delete-account actions.
+ * household sharing and dietary restrictions, shows recipe stats, bulk recipe import/export, and provides backup/restore,
+ * sign-out and delete-account actions.
  */
 export default function ProfilePage() {
   const { user, signOut } = useAuth();
   const router = useRouter();
   const recipes = useRecipeStore((s) => s.recipes);
+  const isLoading = useRecipeStore((s) => s.isLoading);
+  const hydrated = useRecipeStore((s) => s.hydrated);
+  const hydrate = useRecipeStore((s) => s.hydrate);
+  const storeError = useRecipeStore((s) => s.error);
+  const clearError = useRecipeStore((s) => s.clearError);
 
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [displayName, setDisplayName] = useState("");
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const backupInputRef = useRef<HTMLInputElement>(null);
 
   /** Fetch the user's profile from the database. Extracted so it can be retried (R5-42). */
   const loadProfile = useCallback(() => {
@@ -64,6 +76,20 @@ export default function ProfilePage() {
     loadProfile();
   }, [user, loadProfile]);
 
+  // Dietary restrictions and recipe stats come from the store
+  useEffect(() => {
+    if (user && !hydrated && !isLoading) {
+      hydrate();
+    }
+  }, [user, hydrated, isLoading, hydrate]);
+
+  useEffect(() => {
+    if (storeError) {
+      toast.error(storeError);
+      clearError();
+    }
+  }, [storeError, clearError]);
+
   /** Save updated display name to the database. */
   async function handleSave() {
     if (!displayName.trim()) {
@@ -117,6 +143,30 @@ export default function ProfilePage() {
     }
   }
 
+  /** Replace all account data with an uploaded backup from /api/account/export. */
+  async function handleRestore() {
+    if (!restoreFile) return;
+    setRestoring(true);
+    try {
+      const res = await fetch("/api/account/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await restoreFile.text(),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || "Failed to restore backup");
+
+      await useRecipeStore.getState().hydrate();
+      toast.success(`Restored ${body.recipeCount} recipe${body.recipeCount !== 1 ? "s" : ""}`);
+      setRestoreFile(null);
+    } catch (err) {
+      console.error("Failed to restore backup:", err instanceof Error ? err.message : err);
+      toast.error(err instanceof Error ? err.message : "Failed to restore backup");
+    } finally {
+      setRestoring(false);
+    }
+  }
+
   // Format the "member since" date
   const memberSince = profile?.createdAt
     ? new Date(profile.createdAt).toLocaleDateString("en-US", {
@@ -228,6 +278,12 @@ export default function ProfilePage() {
         </CardContent>
       </Card>
 
+      {/* Household Card */}
+      <HouseholdCard />
+
+      {/* Dietary Restrictions Card */}
+      <DietaryRestrictionsCard />
+
       {/* Stats Card */}
       <Card>
         <CardHeader>
@@ -248,12 +304,66 @@ export default function ProfilePage() {
         </CardContent>
       </Card>
 
+      {/* Import / Export Card */}
+      <RecipeLibraryCard />
+
       {/* Account Card */}
       <Card>
         <CardHeader>
           <CardTitle>Account</CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
+          <Button variant="outline" className="w-full" asChild>
+            <a href="/api/account/export" download>
+              <DownloadCloud className="mr-2 h-4 w-4" />
+              Download backup
+            </a>
+          </Button>
+
+          <input
+            ref={backupInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              setRestoreFile(e.target.files?.[0] ?? null);
+              e.target.value = "";
+            }}
+          />
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => backupInputRef.current?.click()}
+          >
+            <UploadCloud className="mr-2 h-4 w-4" />
+            Restore from backup
+          </Button>
+          <Dialog
+            open={restoreFile !== null}
+            onOpenChange={(open) => {
+              if (!open && !restoring) setRestoreFile(null);
+            }}
+          >
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Restore from backup</DialogTitle>
+                <DialogDescription>
+                  This replaces all of your recipes, meal plans, lists and groups
+                  with the contents of {restoreFile?.name ?? "the backup"}.
+                </DialogDescription>
+              </DialogHeader>
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button variant="outline" disabled={restoring}>Cancel</Button>
+                </DialogClose>
+                <Button onClick={handleRestore} disabled={restoring}>
+                  {restoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {restoring ? "Restoring..." : "Replace my data"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
           <Button variant="outline" className="w-full" onClick={handleSignOut}>
             <LogOut className="mr-2 h-4 w-4" />
             Sign out
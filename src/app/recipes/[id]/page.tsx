@@ -2,10 +2,12 @@
 
 import { use, useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { ArrowLeft, Pencil, Loader2 } from "lucide-react";
+import { ArrowLeft, Pencil, Loader2, Share2, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { RecipeDetail } from "@/components/recipe-detail";
 import { RecipeEditForm } from "@/components/recipe-edit-form";
+import { ShareDialog } from "@/components/share-dialog";
+import { RecipeHistorySheet } from "@/components/recipe-history-sheet";
 import { useRecipeStore } from "@/stores/recipe-store";
 import { useAuth } from "@/components/auth-provider";
 
@@ -18,6 +20,7 @@ export default function RecipeDetailPage({
   const router = useRouter();
   const { user } = useAuth();
   const recipes = useRecipeStore((s) => s.recipes);
+  const householdRecipes = useRecipeStore((s) => s.householdRecipes);
   const isLoading = useRecipeStore((s) => s.isLoading);
   const hydrated = useRecipeStore((s) => s.hydrated);
   const hydrate = useRecipeStore((s) => s.hydrate);
@@ -25,6 +28,8 @@ export default function RecipeDetailPage({
   const startCooking = useRecipeStore((s) => s.startCooking);
   const [editing, setEditing] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   useEffect(() => {
     if (user && !hydrated && !isLoading) {
@@ -32,7 +37,10 @@ export default function RecipeDetailPage({
     }
   }, [user, hydrated, isLoading, hydrate]);
 
-  const recipe = recipes.find((r) => r.id === id);
+  // A housemate's recipe (from the shared meal plan) can be viewed and cooked, not changed
+  const ownRecipe = recipes.find((r) => r.id === id);
+  const recipe = ownRecipe ?? householdRecipes.find((r) => r.id === id);
+  const readOnly = !ownRecipe;
 
   if (isLoading || isDeleting) {
     return (
@@ -86,23 +94,54 @@ export default function RecipeDetailPage({
         <span className="line-clamp-1 flex-1 text-sm font-medium">
           {recipe.title}
         </span>
-        <Button
-          variant="ghost"
-          size="icon"
-          onClick={() => setEditing(!editing)}
-          aria-label={editing ? "Cancel editing" : "Edit recipe"}
-        >
-          <Pencil className="h-4 w-4" />
-        </Button>
+        {!readOnly && (
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShareOpen(true)}
+              aria-label="Share recipe"
+            >
+              <Share2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setHistoryOpen(true)}
+              aria-label="Recipe history"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setEditing(!editing)}
+              aria-label={editing ? "Cancel editing" : "Edit recipe"}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+          </>
+        )}
       </div>
-      {editing ? (
+      {editing && !readOnly ? (
         <RecipeEditForm
           recipe={recipe}
           onSave={() => setEditing(false)}
           onCancel={() => setEditing(false)}
         />
       ) : (
-        <RecipeDetail recipe={recipe} onDelete={handleDelete} onCook={handleCook} />
+        <RecipeDetail recipe={recipe} readOnly={readOnly} onDelete={handleDelete} onCook={handleCook} />
+      )}
+      {!readOnly && (
+        <>
+          <ShareDialog
+            open={shareOpen}
+            onOpenChange={setShareOpen}
+            target={{ type: "recipe", id: recipe.id }}
+            name={recipe.title}
+          />
+          <RecipeHistorySheet recipe={recipe} open={historyOpen} onOpenChange={setHistoryOpen} />
+        </>
       )}
     </div>
   );
@@ -3,20 +3,26 @@
 import { useState, useMemo, useEffect, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import Link from "next/link";
-import { Search, Loader2, Plus, Heart, FolderOpen, ArrowLeft, BookOpen, Trash2 } from "lucide-react";
+import { Search, Loader2, Plus, Heart, FolderOpen, ArrowLeft, BookOpen, Trash2, Refrigerator, ShieldCheck, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { RecipeCard } from "@/components/recipe-card";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { UserMenu } from "@/components/user-menu";
 import { CreateGroupDialog } from "@/components/create-group-dialog";
+import { ShareDialog } from "@/components/share-dialog";
 import { useRecipeStore } from "@/stores/recipe-store";
 import { useAuth } from "@/components/auth-provider";
 import { DEFAULT_TAGS, SLOT_LABELS } from "@/lib/constants";
 import { getWeekOffsetForDate } from "@/lib/utils";
+import { dietaryConflicts } from "@/lib/dietary";
+import { isEmptyQuery, parseSearchQuery, searchRecipes as rankRecipes } from "@/lib/recipe-search";
+import { createClient } from "@/lib/supabase/client";
+import { searchRecipes } from "@/lib/supabase/service";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
-import type { MealSlot, Recipe } from "@/types";
+import type { MealSlot, Recipe, RecipeGroup } from "@/types";
 
 /** Suspense wrapper required because useSearchParams triggers CSR bailout. */
 export default function RecipesPage() {
@@ -48,12 +54,17 @@ function RecipesContent() {
   const groupMembers = useRecipeStore((s) => s.groupMembers);
   const createGroup = useRecipeStore((s) => s.createGroup);
   const deleteGroup = useRecipeStore((s) => s.deleteGroup);
+  const dietaryRestrictions = useRecipeStore((s) => s.dietaryRestrictions);
 
   const [query, setQuery] = useState("");
+  const [serverResults, setServerResults] = useState<{ query: string; recipes: Recipe[] } | null>(null);
   const [activeTag, setActiveTag] = useState<string | null>(null);
   const [activeGroup, setActiveGroup] = useState<string | null>(null);
+  /** Hide recipes that break household restrictions; unset means "only when picking a meal". */
+  const [safeOnlyChoice, setSafeOnlyChoice] = useState<boolean | null>(null);
   const [createGroupOpen, setCreateGroupOpen] = useState(false);
   const [deleteGroupId, setDeleteGroupId] = useState<string | null>(null);
+  const [shareGroup, setShareGroup] = useState<RecipeGroup | null>(null);
 
   // ---------- pick mode (assign=DATE_SLOT from meal plan) ----------
   const assignParam = searchParams.get("assign");
@@ -101,8 +112,50 @@ function RecipesContent() {
     return Array.from(tagSet).sort();
   }, [recipes]);
 
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query]);
+
+  // Ask the database too (debounced): it searches the whole library without
+  // it having to be loaded, and its ranking wins once it answers.
+  useEffect(() => {
+    if (!user || isEmptyQuery(parsedQuery)) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchRecipes(createClient(), parsedQuery);
+        if (!cancelled) setServerResults({ query, recipes: results });
+      } catch (e) {
+        // Local ranking below still covers the loaded recipes
+        console.error("Failed to search recipes:", e instanceof Error ? e.message : e);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user, query, parsedQuery]);
+
+  const searched = useMemo(() => {
+    if (isEmptyQuery(parsedQuery)) return recipes;
+    const local = rankRecipes(recipes, parsedQuery);
+    if (serverResults?.query !== query) return local;
+
+    // Prefer the store's copy (it has unsaved edits); once hydrated, a
+    // recipe missing from the store has been deleted.
+    const byId = new Map(recipes.map((r) => [r.id, r]));
+    const ranked = serverResults.recipes.flatMap((r) => {
+      const current = byId.get(r.id);
+      if (current) return [current];
+      return hydrated ? [] : [r];
+    });
+    // Append local matches the server didn't return (unsynced or past its limit)
+    const seen = new Set(ranked.map((r) => r.id));
+    return [...ranked, ...local.filter((r) => !seen.has(r.id))];
+  }, [recipes, hydrated, query, parsedQuery, serverResults]);
+
+  const safeOnly = dietaryRestrictions.length > 0 && (safeOnlyChoice ?? pickTarget !== null);
+
   const filtered = useMemo(() => {
-    let result = recipes;
+    let result = searched;
 
     // Filter by group
     if (activeGroup) {
@@ -110,19 +163,15 @@ function RecipesContent() {
       result = result.filter((r) => memberIds.includes(r.id));
     }
 
-    if (query) {
-      const q = query.toLowerCase();
-      result = result.filter(
-        (r) =>
-          r.title.toLowerCase().includes(q) ||
-          r.ingredients.some((ing) => ing.toLowerCase().includes(q))
-      );
-    }
     if (activeTag) {
       result = result.filter((r) => r.tags.includes(activeTag));
     }
+
+    if (safeOnly) {
+      result = result.filter((r) => dietaryConflicts(r, dietaryRestrictions).length === 0);
+    }
     return result;
-  }, [recipes, query, activeTag, activeGroup, groupMembers]);
+  }, [searched, activeTag, activeGroup, groupMembers, safeOnly, dietaryRestrictions]);
 
   const handleDeleteGroup = (groupId: string) => {
     deleteGroup(groupId);
@@ -170,16 +219,23 @@ function RecipesContent() {
         {!isLoading && (
           <>
             {/* Search */}
-            <div className="relative">
-              <label htmlFor="recipe-search" className="sr-only">Search recipes</label>
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden="true" />
-              <Input
-                id="recipe-search"
-                placeholder="Search recipes or ingredients..."
-                value={query}
-                onChange={(e) => setQuery(e.target.value)}
-                className="pl-9"
-              />
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <label htmlFor="recipe-search" className="sr-only">Search recipes</label>
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden="true" />
+                <Input
+                  id="recipe-search"
+                  placeholder="Search… try ingredient:chicken time:<30m"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Button variant="outline" size="icon" asChild>
+                <Link href="/what-to-cook" aria-label="What can I cook with what I have?" title="What can I cook?">
+                  <Refrigerator className="h-4 w-4" />
+                </Link>
+              </Button>
             </div>
 
             {/* Group & tag filters */}
@@ -219,6 +275,19 @@ function RecipesContent() {
                   New Group
                 </Badge>
               </button>
+              {dietaryRestrictions.length > 0 && (
+                <button
+                  onClick={() => setSafeOnlyChoice(!safeOnly)}
+                  type="button"
+                  className="shrink-0"
+                  aria-pressed={safeOnly}
+                >
+                  <Badge variant={safeOnly ? "default" : "outline"}>
+                    <ShieldCheck className="h-3 w-3" aria-hidden="true" />
+                    Safe for household
+                  </Badge>
+                </button>
+              )}
               {/* Divider between groups and tags */}
               {allTags.length > 0 && (
                 <span className="mx-0.5 h-5 w-px self-center bg-border" aria-hidden="true" />
@@ -253,20 +322,30 @@ function RecipesContent() {
         </div>
       ) : (
         <>
-          {/* Delete group option — shown when inside a custom (non-default) group */}
+          {/* Group options — share any group; delete only custom (non-default) ones */}
           {activeGroup && (() => {
             const group = recipeGroups.find((g) => g.id === activeGroup);
-            if (!group || group.isDefault) return null;
+            if (!group) return null;
             return (
-              <div className="flex justify-end">
+              <div className="flex justify-end gap-4">
                 <button
                   type="button"
-                  onClick={() => setDeleteGroupId(group.id)}
-                  className="inline-flex items-center gap-1 text-xs text-destructive hover:text-destructive/80 transition-colors"
+                  onClick={() => setShareGroup(group)}
+                  className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
                 >
-                  <Trash2 className="h-3 w-3" />
-                  Delete group
+                  <Share2 className="h-3 w-3" />
+                  Share group
                 </button>
+                {!group.isDefault && (
+                  <button
+                    type="button"
+                    onClick={() => setDeleteGroupId(group.id)}
+                    className="inline-flex items-center gap-1 text-xs text-destructive hover:text-destructive/80 transition-colors"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    Delete group
+                  </button>
+                )}
               </div>
             );
           })()}
@@ -324,6 +403,15 @@ function RecipesContent() {
         }}
       />
 
+      {shareGroup && (
+        <ShareDialog
+          open
+          onOpenChange={(open) => { if (!open) setShareGroup(null); }}
+          target={{ type: "group", id: shareGroup.id }}
+          name={shareGroup.name}
+        />
+      )}
+
       {/* Delete group confirmation */}
       <AlertDialog open={deleteGroupId !== null} onOpenChange={(open) => { if (!open) setDeleteGroupId(null); }}>
         <AlertDialogContent>
@@ -0,0 +1,18 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+/** Unknown token, or the owner stopped sharing. */
+export default function SharedRecipeNotFound() {
+  return (
+    <div className="flex flex-col items-center py-20 text-center">
+      <span className="text-4xl" role="img" aria-label="Not found">🤷</span>
+      <p className="mt-4 font-medium">This link doesn&apos;t work anymore</p>
+      <p className="mt-1 max-w-xs text-sm text-muted-foreground">
+        It may have been mistyped, or the person who shared it stopped sharing.
+      </p>
+      <Button variant="outline" className="mt-4" asChild>
+        <Link href="/">Go to CookSnap</Link>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { fetchSharedRecipes } from "@/lib/supabase/service";
+import { recipeToJsonLd } from "@/lib/recipe-exchange";
+import { SharedRecipe } from "@/components/shared-recipe";
+import { SaveSharedRecipesButton } from "@/components/save-shared-recipes-button";
+import type { SharedRecipes } from "@/types";
+
+type Params = Promise<{ token: string }>;
+
+/** One lookup per request, shared by the metadata and the page. */
+const loadShare = cache(async (token: string) => fetchSharedRecipes(await createClient(), token));
+
+function describe(share: SharedRecipes): string {
+  if (share.kind === "group") {
+    const titles = share.recipes.slice(0, 3).map((r) => r.title).join(", ");
+    const more = share.recipes.length > 3 ? ` and ${share.recipes.length - 3} more` : "";
+    return `${share.recipes.length} recipe${share.recipes.length === 1 ? "" : "s"}: ${titles}${more}`;
+  }
+  const [recipe] = share.recipes;
+  const parts = [
+    recipe.author && `By ${recipe.author}`,
+    `${recipe.ingredients.filter((i) => !i.startsWith("## ")).length} ingredients`,
+    recipe.servings && `serves ${recipe.servings}`,
+  ].filter(Boolean);
+  return parts.join(" · ");
+}
+
+/** schema.org markup: a Recipe, or an ItemList of them for a group. */
+function jsonLd(share: SharedRecipes): Record<string, unknown> {
+  if (share.kind === "recipe") {
+    return { "@context": "https://schema.org", ...recipeToJsonLd(share.recipes[0]) };
+  }
+  return {
+    "@context": "https://schema.org",
+    "@type": "ItemList",
+    name: share.name,
+    itemListElement: share.recipes.map((recipe, i) => ({
+      "@type": "ListItem",
+      position: i + 1,
+      item: recipeToJsonLd(recipe),
+    })),
+  };
+}
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const share = await loadShare((await params).token);
+  if (!share) return { title: "Recipe not found · CookSnap", robots: { index: false } };
+
+  const description = describe(share);
+  const images = share.recipes.flatMap((r) => (r.image ? [{ url: r.image, alt: r.title }] : [])).slice(0, 1);
+  return {
+    title: `${share.name} · CookSnap`,
+    description,
+    // The link is private to whoever it was sent to; keep it out of search results
+    robots: { index: false, follow: false },
+    openGraph: {
+      type: "article",
+      siteName: "CookSnap",
+      title: share.name,
+      description,
+      images,
+    },
+    twitter: {
+      card: images.length > 0 ? "summary_large_image" : "summary",
+      title: share.name,
+      description,
+      images: images.map((i) => i.url),
+    },
+  };
+}
+
+/** Public page for a share link — readable without an account. */
+export default async function SharedRecipePage({ params }: { params: Params }) {
+  const { token } = await params;
+  const share = await loadShare(token);
+  if (!share || (share.kind === "recipe" && share.recipes.length === 0)) notFound();
+
+  const nonce = (await headers()).get("x-nonce") ?? undefined;
+
+  return (
+    <div>
+      <script
+        type="application/ld+json"
+        nonce={nonce}
+        // "<" escaped so a title can't close the script tag
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd(share)).replace(/</g, "\\u003c") }}
+      />
+
+      <div className="space-y-3 border-b p-4">
+        <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          Shared from CookSnap
+        </p>
+        {share.kind === "group" && (
+          <div>
+            <h1 className="text-2xl font-bold">{share.name}</h1>
+            <p className="mt-0.5 text-sm text-muted-foreground">{describe(share)}</p>
+          </div>
+        )}
+        <SaveSharedRecipesButton recipes={share.recipes} returnTo={`/share/${token}`} />
+        {share.kind === "group" && share.recipes.length > 1 && (
+          <nav aria-label="Recipes in this collection">
+            <ul className="space-y-1 text-sm">
+              {share.recipes.map((recipe) => (
+                <li key={recipe.id}>
+                  <a href={`#${recipe.id}`} className="underline-offset-4 hover:underline">
+                    {recipe.title}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )}
+      </div>
+
+      {share.kind === "group" && share.recipes.length === 0 ? (
+        <p className="p-8 text-center text-sm text-muted-foreground">
+          There are no recipes in this collection yet.
+        </p>
+      ) : (
+        <div className="divide-y">
+          {share.recipes.map((recipe, i) => (
+            <SharedRecipe
+              key={recipe.id}
+              recipe={recipe}
+              as={share.kind === "group" ? "h2" : "h1"}
+              priority={i === 0}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,30 +1,130 @@
 "use client";
 
 import { useState, useMemo, useEffect } from "react";
-import { Plus, Trash2, ShoppingCart, CalendarDays, Loader2, RotateCcw, ListChecks } from "lucide-react";
+import Link from "next/link";
+import { Plus, Trash2, ShoppingCart, CalendarDays, Loader2, RotateCcw, ListChecks, Package, DollarSign, Tags, Store } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { UserMenu } from "@/components/user-menu";
+import { PriceDialog } from "@/components/price-dialog";
+import { StoresDialog } from "@/components/stores-dialog";
 import { useRecipeStore } from "@/stores/recipe-store";
 import { useAuth } from "@/components/auth-provider";
 import { getWeekDates, getTodayISO, cn } from "@/lib/utils";
 import { DAY_LABELS } from "@/lib/constants";
 import { toast } from "sonner";
 import { parseIngredient, formatIngredientMain } from "@/lib/ingredient-parser";
-import {
-  categorizeIngredient,
-  INGREDIENT_CATEGORIES,
-  type IngredientCategory,
-} from "@/lib/ingredient-categorizer";
-import type { ShoppingItem, GroceryItem } from "@/types";
+import { estimateListCost, formatCost, type ItemCost, type ListCost } from "@/lib/cost";
+import { findItemStore, splitListByStore, type StoreSection } from "@/lib/shopping-stores";
+import type { ShoppingItem, GroceryStore } from "@/types";
+
+/** Value of the "no store" option in the store picker. */
+const NO_STORE = "";
+
+/** Per-item store picker, shown once the user has stores. */
+function ItemStoreMenu({
+  itemText,
+  stores,
+  current,
+  onAssign,
+}: {
+  itemText: string;
+  stores: GroceryStore[];
+  current: GroceryStore | null;
+  onAssign: (storeId: string | null) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-7 w-7 shrink-0", !current && "text-muted-foreground/60")}
+          aria-label={`Store for ${itemText}`}
+        >
+          <Store className="h-3.5 w-3.5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup value={current?.id ?? NO_STORE} onValueChange={(v) => onAssign(v || null)}>
+          {stores.map((store) => (
+            <DropdownMenuRadioItem key={store.id} value={store.id}>
+              {store.name}
+            </DropdownMenuRadioItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuRadioItem value={NO_STORE}>Any store</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+/** Store name above its part of the list; omitted when the user has no stores. */
+function StoreHeading<T>({ section }: { section: StoreSection<T> }) {
+  const count = section.groups.reduce((n, g) => n + g.items.length, 0);
+  return (
+    <h2 className="mb-1.5 flex items-center gap-1.5 border-b pb-1 text-sm font-semibold">
+      <Store className="h-3.5 w-3.5 text-muted-foreground" />
+      {section.store?.name ?? "Any store"}
+      <span className="text-xs font-normal text-muted-foreground">({count})</span>
+    </h2>
+  );
+}
+
+/** Estimated cost of a line, doubling as the "check off with price" button. */
+function ItemPriceButton({ cost, itemText, onClick }: { cost: ItemCost | null | undefined; itemText: string; onClick: () => void }) {
+  return (
+    <button
+      className="shrink-0 rounded px-1.5 py-1 text-xs tabular-nums text-muted-foreground hover:bg-accent hover:text-foreground"
+      aria-label={`Check off ${itemText} with price`}
+      title={cost?.source === "typical" ? "Typical price — tap to record what you paid" : "Tap to record what you paid"}
+      onClick={onClick}
+    >
+      {cost ? (
+        `${cost.source === "typical" ? "~" : ""}${formatCost(cost.cost)}`
+      ) : (
+        <DollarSign className="h-3.5 w-3.5" />
+      )}
+    </button>
+  );
+}
+
+/** "Estimated total $42.10 (3 items not priced)" */
+function ListTotal({ cost }: { cost: ListCost }) {
+  return (
+    <div className="flex items-baseline justify-between px-2 text-sm">
+      <span className="text-muted-foreground">Estimated total</span>
+      <span className="font-semibold tabular-nums">
+        {formatCost(cost.total)}
+        {cost.unpriced > 0 && (
+          <span className="ml-1.5 text-xs font-normal text-muted-foreground">
+            ({cost.unpriced} item{cost.unpriced !== 1 ? "s" : ""} not priced)
+          </span>
+        )}
+      </span>
+    </div>
+  );
+}
 
 export default function ShoppingListPage() {
   const [newItem, setNewItem] = useState("");
   const [newGroceryItem, setNewGroceryItem] = useState("");
   const [todayISO, setTodayISO] = useState(() => getTodayISO());
+  const [pricing, setPricing] = useState<{ list: "shopping" | "grocery"; id: string; text: string } | null>(null);
+  const [lastStore, setLastStore] = useState("");
+  const [storesOpen, setStoresOpen] = useState(false);
 
   /** Recompute todayISO when the page becomes visible (handles midnight rollover). */
   useEffect(() => {
@@ -48,6 +148,7 @@ export default function ShoppingListPage() {
   const uncheckAllShoppingItems = useRecipeStore((s) => s.uncheckAllShoppingItems);
   const restoreShoppingItems = useRecipeStore((s) => s.restoreShoppingItems);
   const generateShoppingList = useRecipeStore((s) => s.generateShoppingList);
+  const addShoppingItemToPantry = useRecipeStore((s) => s.addShoppingItemToPantry);
 
   // Grocery list store
   const groceryList = useRecipeStore((s) => s.groceryList);
@@ -58,6 +159,15 @@ export default function ShoppingListPage() {
   const uncheckAllGroceryItems = useRecipeStore((s) => s.uncheckAllGroceryItems);
   const restoreGroceryItems = useRecipeStore((s) => s.restoreGroceryItems);
 
+  // Prices
+  const ingredientPrices = useRecipeStore((s) => s.ingredientPrices);
+  const checkOffWithPrice = useRecipeStore((s) => s.checkOffWithPrice);
+
+  // Stores
+  const groceryStores = useRecipeStore((s) => s.groceryStores);
+  const storeAssignments = useRecipeStore((s) => s.storeAssignments);
+  const assignItemToStore = useRecipeStore((s) => s.assignItemToStore);
+
   const isLoading = useRecipeStore((s) => s.isLoading);
   const hydrated = useRecipeStore((s) => s.hydrated);
   const error = useRecipeStore((s) => s.error);
@@ -83,31 +193,16 @@ export default function ShoppingListPage() {
     [shoppingList]
   );
 
-  /** Group shopping items by grocery section, unchecked first within each */
-  const groupedItems = useMemo(() => {
-    const groupMap = new Map<
-      IngredientCategory,
-      ShoppingItem[]
-    >();
-
-    for (const item of shoppingList) {
-      const category = categorizeIngredient(item.text);
-      let group = groupMap.get(category);
-      if (!group) {
-        group = [];
-        groupMap.set(category, group);
-      }
-      group.push(item);
-    }
-
-    for (const items of groupMap.values()) {
-      items.sort((a, b) => Number(a.checked) - Number(b.checked));
-    }
+  /** Split shopping items per store, each in walking order, unchecked first */
+  const shoppingSections = useMemo(
+    () => splitListByStore(shoppingList, groceryStores, storeAssignments),
+    [shoppingList, groceryStores, storeAssignments]
+  );
 
-    return INGREDIENT_CATEGORIES.filter((cat) => groupMap.has(cat)).map(
-      (category) => ({ category, items: groupMap.get(category)! })
-    );
-  }, [shoppingList]);
+  const shoppingCost = useMemo(
+    () => estimateListCost(shoppingList, ingredientPrices),
+    [shoppingList, ingredientPrices]
+  );
 
   // Grocery list derived state
   const groceryCheckedCount = useMemo(
@@ -115,31 +210,16 @@ export default function ShoppingListPage() {
     [groceryList]
   );
 
-  /** Group grocery items by category, unchecked first within each */
-  const groupedGroceryItems = useMemo(() => {
-    const groupMap = new Map<
-      IngredientCategory,
-      GroceryItem[]
-    >();
-
-    for (const item of groceryList) {
-      const category = categorizeIngredient(item.text);
-      let group = groupMap.get(category);
-      if (!group) {
-        group = [];
-        groupMap.set(category, group);
-      }
-      group.push(item);
-    }
-
-    for (const items of groupMap.values()) {
-      items.sort((a, b) => Number(a.checked) - Number(b.checked));
-    }
+  /** Split grocery items per store, each in walking order, unchecked first */
+  const grocerySections = useMemo(
+    () => splitListByStore(groceryList, groceryStores, storeAssignments),
+    [groceryList, groceryStores, storeAssignments]
+  );
 
-    return INGREDIENT_CATEGORIES.filter((cat) => groupMap.has(cat)).map(
-      (category) => ({ category, items: groupMap.get(category)! })
-    );
-  }, [groceryList]);
+  const groceryCost = useMemo(
+    () => estimateListCost(groceryList, ingredientPrices),
+    [groceryList, ingredientPrices]
+  );
 
   const handleAddShopping = () => {
     const trimmed = newItem.trim();
@@ -157,6 +237,26 @@ export default function ShoppingListPage() {
     }
   };
 
+  /** Toggle a shopping item; checking one off offers to record it in the pantry */
+  const handleToggleShopping = (item: ShoppingItem) => {
+    toggleShoppingItem(item.id);
+    if (item.checked) return;
+    toast(`Got ${item.text}`, {
+      action: {
+        label: "Add to pantry",
+        onClick: () => addShoppingItemToPantry(item.id),
+      },
+    });
+  };
+
+  /** Check off the item being priced and record what was paid */
+  const handleSavePrice = (price: number, store: string) => {
+    if (!pricing) return;
+    checkOffWithPrice(pricing.list, pricing.id, price, store || null);
+    setLastStore(store);
+    setPricing(null);
+  };
+
   /** Clear checked shopping items with undo toast */
   const handleClearChecked = () => {
     const removed = shoppingList.filter((i) => i.checked);
@@ -214,6 +314,19 @@ export default function ShoppingListPage() {
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">Shop</h1>
         <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setStoresOpen(true)} aria-label="Stores">
+            <Store className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+            <Link href="/prices" aria-label="Prices">
+              <Tags className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+            <Link href="/pantry" aria-label="Pantry">
+              <Package className="h-4 w-4" />
+            </Link>
+          </Button>
           <ThemeToggle />
           <UserMenu />
         </div>
@@ -294,47 +407,65 @@ export default function ShoppingListPage() {
               </Button>
             </div>
 
-            {/* List grouped by grocery section */}
+            {/* List split per store, grouped by aisle in walking order */}
             {shoppingList.length > 0 ? (
               <div>
-                {groupedItems.map((group, gi) => (
-                  <div key={group.category} className={gi === 0 ? "" : "mt-3"}>
-                    <h2 className="mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
-                      {group.category}
-                      <span className="ml-1.5 normal-case tracking-normal">
-                        ({group.items.length})
-                      </span>
-                    </h2>
-                    <div className="space-y-0">
-                      {group.items.map((item) => {
-                        const parsed = parseIngredient(item.text);
-                        return (
-                          <div
-                            key={item.id}
-                            className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-accent/50 transition-colors"
-                          >
-                            <Checkbox
-                              id={`shop-${item.id}`}
-                              checked={item.checked}
-                              onCheckedChange={() => toggleShoppingItem(item.id)}
-                            />
-                            <label
-                              htmlFor={`shop-${item.id}`}
-                              className={`flex-1 cursor-pointer text-sm ${
-                                item.checked
-                                  ? "text-muted-foreground line-through"
-                                  : ""
-                              }`}
-                            >
-                              {formatIngredientMain(parsed)}
-                              {parsed.prepNote && (
-                                <span className="italic text-muted-foreground/70">, {parsed.prepNote}</span>
-                              )}
-                            </label>
-                          </div>
-                        );
-                      })}
-                    </div>
+                {shoppingSections.map((section, si) => (
+                  <div key={section.store?.id ?? "none"} className={si === 0 ? "" : "mt-5"}>
+                    {groceryStores.length > 0 && <StoreHeading section={section} />}
+                    {section.groups.map((group, gi) => (
+                      <div key={group.category} className={gi === 0 ? "" : "mt-3"}>
+                        <h3 className="mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                          {group.category}
+                          <span className="ml-1.5 normal-case tracking-normal">
+                            ({group.items.length})
+                          </span>
+                        </h3>
+                        <div className="space-y-0">
+                          {group.items.map((item) => {
+                            const parsed = parseIngredient(item.text);
+                            return (
+                              <div
+                                key={item.id}
+                                className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-accent/50 transition-colors"
+                              >
+                                <Checkbox
+                                  id={`shop-${item.id}`}
+                                  checked={item.checked}
+                                  onCheckedChange={() => handleToggleShopping(item)}
+                                />
+                                <label
+                                  htmlFor={`shop-${item.id}`}
+                                  className={`flex-1 cursor-pointer text-sm ${
+                                    item.checked
+                                      ? "text-muted-foreground line-through"
+                                      : ""
+                                  }`}
+                                >
+                                  {formatIngredientMain(parsed)}
+                                  {parsed.prepNote && (
+                                    <span className="italic text-muted-foreground/70">, {parsed.prepNote}</span>
+                                  )}
+                                </label>
+                                <ItemPriceButton
+                                  cost={shoppingCost.items.get(item.id)}
+                                  itemText={item.text}
+                                  onClick={() => setPricing({ list: "shopping", id: item.id, text: item.text })}
+                                />
+                                {groceryStores.length > 0 && (
+                                  <ItemStoreMenu
+                                    itemText={item.text}
+                                    stores={groceryStores}
+                                    current={section.store}
+                                    onAssign={(storeId) => assignItemToStore(item.text, storeId)}
+                                  />
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 ))}
               </div>
@@ -350,6 +481,8 @@ export default function ShoppingListPage() {
               </div>
             )}
 
+            {shoppingList.length > 0 && <ListTotal cost={shoppingCost} />}
+
             {/* Uncheck all / Clear checked / Clear all */}
             {shoppingList.length > 0 && (
               <div className="flex flex-wrap gap-2">
@@ -408,47 +541,65 @@ export default function ShoppingListPage() {
               </Button>
             </div>
 
-            {/* List grouped by category */}
+            {/* List split per store, grouped by aisle in walking order */}
             {groceryList.length > 0 ? (
               <div>
-                {groupedGroceryItems.map((group, gi) => (
-                  <div key={group.category} className={gi === 0 ? "" : "mt-3"}>
-                    <h2 className="mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
-                      {group.category}
-                      <span className="ml-1.5 normal-case tracking-normal">
-                        ({group.items.length})
-                      </span>
-                    </h2>
-                    <div className="space-y-0">
-                      {group.items.map((item) => {
-                        const parsed = parseIngredient(item.text);
-                        return (
-                          <div
-                            key={item.id}
-                            className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-accent/50 transition-colors"
-                          >
-                            <Checkbox
-                              id={`groc-${item.id}`}
-                              checked={item.checked}
-                              onCheckedChange={() => toggleGroceryItem(item.id)}
-                            />
-                            <label
-                              htmlFor={`groc-${item.id}`}
-                              className={`flex-1 cursor-pointer text-sm ${
-                                item.checked
-                                  ? "text-muted-foreground line-through"
-                                  : ""
-                              }`}
-                            >
-                              {formatIngredientMain(parsed)}
-                              {parsed.prepNote && (
-                                <span className="italic text-muted-foreground/70">, {parsed.prepNote}</span>
-                              )}
-                            </label>
-                          </div>
-                        );
-                      })}
-                    </div>
+                {grocerySections.map((section, si) => (
+                  <div key={section.store?.id ?? "none"} className={si === 0 ? "" : "mt-5"}>
+                    {groceryStores.length > 0 && <StoreHeading section={section} />}
+                    {section.groups.map((group, gi) => (
+                      <div key={group.category} className={gi === 0 ? "" : "mt-3"}>
+                        <h3 className="mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                          {group.category}
+                          <span className="ml-1.5 normal-case tracking-normal">
+                            ({group.items.length})
+                          </span>
+                        </h3>
+                        <div className="space-y-0">
+                          {group.items.map((item) => {
+                            const parsed = parseIngredient(item.text);
+                            return (
+                              <div
+                                key={item.id}
+                                className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-accent/50 transition-colors"
+                              >
+                                <Checkbox
+                                  id={`groc-${item.id}`}
+                                  checked={item.checked}
+                                  onCheckedChange={() => toggleGroceryItem(item.id)}
+                                />
+                                <label
+                                  htmlFor={`groc-${item.id}`}
+                                  className={`flex-1 cursor-pointer text-sm ${
+                                    item.checked
+                                      ? "text-muted-foreground line-through"
+                                      : ""
+                                  }`}
+                                >
+                                  {formatIngredientMain(parsed)}
+                                  {parsed.prepNote && (
+                                    <span className="italic text-muted-foreground/70">, {parsed.prepNote}</span>
+                                  )}
+                                </label>
+                                <ItemPriceButton
+                                  cost={groceryCost.items.get(item.id)}
+                                  itemText={item.text}
+                                  onClick={() => setPricing({ list: "grocery", id: item.id, text: item.text })}
+                                />
+                                {groceryStores.length > 0 && (
+                                  <ItemStoreMenu
+                                    itemText={item.text}
+                                    stores={groceryStores}
+                                    current={section.store}
+                                    onAssign={(storeId) => assignItemToStore(item.text, storeId)}
+                                  />
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 ))}
               </div>
@@ -464,6 +615,8 @@ export default function ShoppingListPage() {
               </div>
             )}
 
+            {groceryList.length > 0 && <ListTotal cost={groceryCost} />}
+
             {/* Uncheck all / Clear checked / Clear all */}
             {groceryList.length > 0 && (
               <div className="flex flex-wrap gap-2">
@@ -506,6 +659,15 @@ export default function ShoppingListPage() {
           </TabsContent>
         </Tabs>
       )}
+
+      <PriceDialog
+        itemText={pricing?.text ?? null}
+        defaultStore={(pricing && findItemStore(pricing.text, groceryStores, storeAssignments)?.name) || lastStore}
+        onOpenChange={(open) => !open && setPricing(null)}
+        onSave={handleSavePrice}
+      />
+
+      <StoresDialog open={storesOpen} onOpenChange={setStoresOpen} />
     </div>
   );
 }
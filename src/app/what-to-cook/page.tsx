@@ -0,0 +1,201 @@
+"use client";
+
+import { useState, useMemo, useEffect } from "react";
+import Link from "next/link";
+import { ArrowLeft, Plus, X, Package, Refrigerator, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { UserMenu } from "@/components/user-menu";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { useAuth } from "@/components/auth-provider";
+import { toast } from "sonner";
+import { findRecipesByIngredients } from "@/lib/recipe-finder";
+
+export default function WhatToCookPage() {
+  const [newItem, setNewItem] = useState("");
+  const [onHand, setOnHand] = useState<string[]>([]);
+
+  const { user } = useAuth();
+
+  const recipes = useRecipeStore((s) => s.recipes);
+  const pantry = useRecipeStore((s) => s.pantry);
+
+  const isLoading = useRecipeStore((s) => s.isLoading);
+  const hydrated = useRecipeStore((s) => s.hydrated);
+  const error = useRecipeStore((s) => s.error);
+  const clearError = useRecipeStore((s) => s.clearError);
+  const hydrate = useRecipeStore((s) => s.hydrate);
+
+  useEffect(() => {
+    if (user && !hydrated && !isLoading) {
+      hydrate();
+    }
+  }, [user, hydrated, isLoading, hydrate]);
+
+  useEffect(() => {
+    if (error) {
+      toast.error(error);
+      clearError();
+    }
+  }, [error, clearError]);
+
+  const matches = useMemo(() => findRecipesByIngredients(recipes, onHand), [recipes, onHand]);
+
+  /** Add one or more comma-separated items, skipping ones already listed */
+  const addItems = (items: string[]) => {
+    setOnHand((current) => {
+      const seen = new Set(current.map((i) => i.toLowerCase()));
+      const next = [...current];
+      for (const raw of items) {
+        const item = raw.trim();
+        if (!item || seen.has(item.toLowerCase())) continue;
+        seen.add(item.toLowerCase());
+        next.push(item);
+      }
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    if (!newItem.trim()) return;
+    addItems(newItem.split(","));
+    setNewItem("");
+  };
+
+  return (
+    <div className="space-y-4 p-4 pt-6 overflow-x-hidden">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+            <Link href="/recipes" aria-label="Back to recipes">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">What can I cook?</h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <ThemeToggle />
+          <UserMenu />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-col items-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          <p className="mt-4 text-sm text-muted-foreground">Loading...</p>
+        </div>
+      ) : (
+        <>
+          {/* Ingredients on hand */}
+          <div className="flex gap-2">
+            <label htmlFor="on-hand-add-item" className="sr-only">Ingredient you have</label>
+            <Input
+              id="on-hand-add-item"
+              placeholder="e.g. half a cabbage, chicken thighs"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+            />
+            <Button size="icon" onClick={handleAdd} disabled={!newItem.trim()} aria-label="Add ingredient">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            {onHand.map((item) => (
+              <span
+                key={item}
+                className="inline-flex items-center gap-1 rounded-full border bg-muted/50 py-0.5 pl-2.5 pr-1 text-xs"
+              >
+                {item}
+                <button
+                  type="button"
+                  onClick={() => setOnHand((current) => current.filter((i) => i !== item))}
+                  className="rounded-full p-0.5 hover:bg-accent"
+                  aria-label={`Remove ${item}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+            {pantry.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 rounded-full px-2.5 text-xs"
+                onClick={() => addItems(pantry.map((p) => p.name))}
+              >
+                <Package className="mr-1 h-3 w-3" />
+                Add pantry
+              </Button>
+            )}
+            {onHand.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setOnHand([])}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+
+          {/* Results */}
+          {matches.length > 0 ? (
+            <ul className="space-y-2">
+              {matches.map(({ recipe, have, missing, coverage }) => (
+                <li key={recipe.id}>
+                  <Link
+                    href={`/recipes/${recipe.id}`}
+                    className="block rounded-lg border p-3 transition-colors hover:bg-accent/50"
+                  >
+                    <div className="flex items-baseline justify-between gap-2">
+                      <h2 className="min-w-0 truncate font-medium">{recipe.title}</h2>
+                      <span className="shrink-0 text-xs tabular-nums text-muted-foreground">
+                        {have.length} of {have.length + missing.length}
+                      </span>
+                    </div>
+                    <div
+                      className="mt-1.5 h-1.5 overflow-hidden rounded-full bg-muted"
+                      role="progressbar"
+                      aria-label={`${recipe.title} ingredients on hand`}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-valuenow={Math.round(coverage * 100)}
+                    >
+                      <div className="h-full bg-primary" style={{ width: `${coverage * 100}%` }} />
+                    </div>
+                    {missing.length > 0 ? (
+                      <p className="mt-1.5 text-xs text-muted-foreground">
+                        <span className="font-medium text-foreground">Missing:</span> {missing.join(" · ")}
+                      </p>
+                    ) : (
+                      <p className="mt-1.5 text-xs font-medium text-primary">You have everything</p>
+                    )}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="flex flex-col items-center py-16 text-center">
+              <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+                <Refrigerator className="h-8 w-8 text-muted-foreground" />
+              </div>
+              {onHand.length === 0 ? (
+                <>
+                  <h2 className="text-lg font-semibold">What&apos;s in the fridge?</h2>
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    Add ingredients you have and we&apos;ll find recipes that use them
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">None of your recipes use these ingredients.</p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
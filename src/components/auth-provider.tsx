@@ -9,7 +9,7 @@ import {
 } from "react";
 import { createClient } from "@/lib/supabase/client";
 import { useRecipeStore } from "@/stores/recipe-store";
-import type { User, Session } from "@supabase/supabase-js";
+import { isAuthRetryableFetchError, type User, type Session } from "@supabase/supabase-js";
 
 type AuthContext = {
   user: User | null;
@@ -29,7 +29,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const supabase = createClient();
 
     // Get initial user (server-verified, not just local storage)
-    supabase.auth.getUser().then(({ data: { user } }) => {
+    supabase.auth.getUser().then(async ({ data: { user }, error }) => {
+      // Offline the server can't verify anyone; trust the stored session so
+      // the app still opens with this device's saved data
+      if (!user && isAuthRetryableFetchError(error)) {
+        const { data: { session } } = await supabase.auth.getSession();
+        setUser(session?.user ?? null);
+        setSession(session);
+        setLoading(false);
+        return;
+      }
       setUser(user ?? null);
       // Also hydrate session so consumers don't see null (R4-8)
       if (user) {
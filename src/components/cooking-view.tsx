@@ -11,9 +11,12 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useRecipeStore } from "@/stores/recipe-store";
 import { formatDuration } from "@/lib/utils";
-import { formatIngredientMain } from "@/lib/ingredient-parser";
+import { formatIngredientForSystem, convertTemperatures } from "@/lib/unit-converter";
 import { groupIngredientsByCategory } from "@/lib/ingredient-categorizer";
 import { highlightIngredients } from "@/lib/ingredient-highlighter";
+import { groupInstructions, type InstructionSection } from "@/lib/instructions";
+import { UnitToggle } from "@/components/unit-toggle";
+import { SubstitutionButton } from "@/components/substitution-button";
 import type { Recipe } from "@/types";
 
 /** Stable empty array to avoid re-renders when no ingredients are checked. */
@@ -35,10 +38,14 @@ export function CookingView({ recipe }: CookingViewProps) {
   const checked = useRecipeStore((s) => s.checkedIngredients[recipe.id]) ?? EMPTY_ARRAY;
   const toggleIngredient = useRecipeStore((s) => s.toggleIngredient);
   const addIngredientsToShoppingList = useRecipeStore((s) => s.addIngredientsToShoppingList);
+  const unitSystem = useRecipeStore((s) => s.unitSystem);
 
   const [doneDialogOpen, setDoneDialogOpen] = useState(false);
-  const completedCount = cookingCompletedSteps.size;
-  const totalSteps = recipe.instructions.length;
+  const sections = useMemo(() => groupInstructions(recipe.instructions), [recipe.instructions]);
+  const doneIn = (section: InstructionSection) =>
+    section.steps.filter((step) => cookingCompletedSteps.has(step.index)).length;
+  const completedCount = sections.reduce((n, section) => n + doneIn(section), 0);
+  const totalSteps = sections.reduce((n, section) => n + section.steps.length, 0);
   const progress = totalSteps > 0 ? (completedCount / totalSteps) * 100 : 0;
 
   const cookDisplay = formatDuration(recipe.cookTime);
@@ -144,20 +151,22 @@ export function CookingView({ recipe }: CookingViewProps) {
               Add to list
             </Button>
           </div>
-          <Tabs
-            value={ingredientView}
-            onValueChange={(v) => setIngredientView(v as "category" | "original")}
-            className="mb-3"
-          >
-            <TabsList className="h-7">
-              <TabsTrigger value="category" className="text-xs px-2.5 h-6">
-                By Category
-              </TabsTrigger>
-              <TabsTrigger value="original" className="text-xs px-2.5 h-6">
-                As Written
-              </TabsTrigger>
-            </TabsList>
-          </Tabs>
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <Tabs
+              value={ingredientView}
+              onValueChange={(v) => setIngredientView(v as "category" | "original")}
+            >
+              <TabsList className="h-7">
+                <TabsTrigger value="category" className="text-xs px-2.5 h-6">
+                  By Category
+                </TabsTrigger>
+                <TabsTrigger value="original" className="text-xs px-2.5 h-6">
+                  As Written
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <UnitToggle />
+          </div>
           {ingredientView === "category" ? (
             <div className="space-y-3">
               {ingredientGroups.map((group) => (
@@ -198,11 +207,12 @@ export function CookingView({ recipe }: CookingViewProps) {
                                 : ""
                             }`}
                           >
-                            {formatIngredientMain(parsed)}
+                            {formatIngredientForSystem(parsed, unitSystem)}
                             {parsed.prepNote && (
                               <span className="italic text-muted-foreground/70">, {parsed.prepNote}</span>
                             )}
                           </span>
+                          <SubstitutionButton parsed={parsed} tags={recipe.tags} />
                         </li>
                       );
                     })}
@@ -244,11 +254,12 @@ export function CookingView({ recipe }: CookingViewProps) {
                           : ""
                       }`}
                     >
-                      {formatIngredientMain(parsed)}
+                      {formatIngredientForSystem(parsed, unitSystem)}
                       {parsed.prepNote && (
                         <span className="italic text-muted-foreground/70">, {parsed.prepNote}</span>
                       )}
                     </span>
+                    <SubstitutionButton parsed={parsed} tags={recipe.tags} />
                   </li>
                 );
               })}
@@ -264,39 +275,64 @@ export function CookingView({ recipe }: CookingViewProps) {
               {completedCount}/{totalSteps}
             </span>
           </h2>
-          <div className="space-y-3">
-            {recipe.instructions.map((step, i) => {
-              const isDone = cookingCompletedSteps.has(i);
-              return (
-                <button
-                  key={i}
-                  type="button"
-                  className={`flex w-full items-start gap-3 rounded-lg border p-4 text-left transition-colors ${
-                    isDone
-                      ? "border-muted bg-muted/50"
-                      : "border-border hover:bg-accent/30"
-                  }`}
-                  onClick={() => toggleCookingStep(i)}
-                >
-                  <span
-                    className={`flex h-7 w-7 shrink-0 items-center justify-center rounded-full text-sm font-medium transition-colors ${
-                      isDone
-                        ? "bg-primary text-primary-foreground"
-                        : "bg-muted text-muted-foreground"
-                    }`}
-                  >
-                    {isDone ? <Check className="h-4 w-4" /> : i + 1}
-                  </span>
-                  <p
-                    className={`text-base leading-relaxed pt-0.5 ${
-                      isDone ? "text-muted-foreground line-through" : ""
-                    }`}
-                  >
-                    {highlightIngredients(step)}
-                  </p>
-                </button>
-              );
-            })}
+          <div className="space-y-6">
+            {sections.map((section, sectionIndex) => (
+              <section key={sectionIndex} aria-label={section.title ?? undefined}>
+                {section.title && (
+                  <h3 className="mb-2 flex items-baseline justify-between gap-2 text-sm font-medium uppercase tracking-wide text-muted-foreground">
+                    <span>{section.title}</span>
+                    <span className="font-normal normal-case tabular-nums">
+                      {doneIn(section) === section.steps.length ? (
+                        <Check className="inline h-4 w-4 text-primary" aria-label="Section done" />
+                      ) : (
+                        `${doneIn(section)}/${section.steps.length}`
+                      )}
+                    </span>
+                  </h3>
+                )}
+                <div className="space-y-3">
+                  {section.steps.map((step) => {
+                    const isDone = cookingCompletedSteps.has(step.index);
+                    return (
+                      <button
+                        key={step.index}
+                        type="button"
+                        className={`flex w-full items-start gap-3 rounded-lg border p-4 text-left transition-colors ${
+                          isDone
+                            ? "border-muted bg-muted/50"
+                            : "border-border hover:bg-accent/30"
+                        }`}
+                        onClick={() => toggleCookingStep(step.index)}
+                      >
+                        <span
+                          className={`flex h-7 w-7 shrink-0 items-center justify-center rounded-full text-sm font-medium transition-colors ${
+                            isDone
+                              ? "bg-primary text-primary-foreground"
+                              : "bg-muted text-muted-foreground"
+                          }`}
+                        >
+                          {isDone ? <Check className="h-4 w-4" /> : step.number}
+                        </span>
+                        <div
+                          className={`text-base leading-relaxed pt-0.5 ${
+                            isDone ? "text-muted-foreground line-through" : ""
+                          }`}
+                        >
+                          <p>{highlightIngredients(convertTemperatures(step.text, unitSystem))}</p>
+                          {step.subSteps.length > 0 && (
+                            <ul className="mt-2 list-disc space-y-1 pl-5">
+                              {step.subSteps.map((subStep, j) => (
+                                <li key={j}>{highlightIngredients(convertTemperatures(subStep, unitSystem))}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              </section>
+            ))}
           </div>
         </div>
 
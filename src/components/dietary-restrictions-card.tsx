@@ -0,0 +1,59 @@
+"use client";
+
+import { Check } from "lucide-react";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { ALLERGENS, DIETS, DIETARY_LABELS } from "@/lib/dietary";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { DietaryRestriction } from "@/types";
+
+/**
+ * Household dietary restrictions for the profile page. Recipes that break
+ * them are flagged on their cards and hidden by default when picking a meal.
+ */
+export function DietaryRestrictionsCard() {
+  const dietaryRestrictions = useRecipeStore((s) => s.dietaryRestrictions);
+  const setDietaryRestrictions = useRecipeStore((s) => s.setDietaryRestrictions);
+
+  const toggle = (restriction: DietaryRestriction) => {
+    setDietaryRestrictions(
+      dietaryRestrictions.includes(restriction)
+        ? dietaryRestrictions.filter((r) => r !== restriction)
+        : [...dietaryRestrictions, restriction]
+    );
+  };
+
+  const chips = (label: string, options: DietaryRestriction[]) => (
+    <div className="space-y-1.5">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <div className="flex flex-wrap gap-1.5" role="group" aria-label={label}>
+        {options.map((option) => {
+          const active = dietaryRestrictions.includes(option);
+          return (
+            <button key={option} type="button" onClick={() => toggle(option)} aria-pressed={active}>
+              <Badge variant={active ? "default" : "outline"}>
+                {active && <Check className="h-3 w-3" aria-hidden="true" />}
+                {DIETARY_LABELS[option]}
+              </Badge>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Dietary Restrictions</CardTitle>
+        <CardDescription>
+          Detected from ingredient lists, so double-check recipes before serving.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {chips("Avoid", ALLERGENS)}
+        {chips("Diet", DIETS)}
+      </CardContent>
+    </Card>
+  );
+}
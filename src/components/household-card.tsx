@@ -0,0 +1,342 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, Copy, Loader2, LogOut, RefreshCw, UserMinus, Users } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/components/auth-provider";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { createClient } from "@/lib/supabase/client";
+import {
+  fetchHousehold,
+  joinHousehold,
+  leaveHousehold,
+  removeHouseholdMember,
+  renameHousehold,
+  resetHouseholdInviteCode,
+} from "@/lib/supabase/service";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { Household, HouseholdMember } from "@/types";
+
+/**
+ * Household sharing for the profile page: members, the invite code another
+ * account uses to join, and joining or leaving. Everyone in a household
+ * shares one meal plan, shopping list and grocery list.
+ */
+export function HouseholdCard() {
+  const { user } = useAuth();
+
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [confirmLeave, setConfirmLeave] = useState(false);
+  const [removing, setRemoving] = useState<HouseholdMember | null>(null);
+
+  const loadHousehold = useCallback(() => {
+    setLoading(true);
+    fetchHousehold(createClient())
+      .then((h) => {
+        setHousehold(h);
+        setName(h.name);
+      })
+      .catch((err) => {
+        console.error("Failed to load household:", err instanceof Error ? err.message : err);
+        toast.error("Failed to load household");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    loadHousehold();
+  }, [user, loadHousehold]);
+
+  const isOwner = household?.members.some((m) => m.userId === user?.id && m.role === "owner") ?? false;
+  const shared = (household?.members.length ?? 0) > 1;
+
+  /** Run a membership change, then reload the household and everything it scopes. */
+  async function changeMembership(action: () => Promise<void>, success: string, failure: string): Promise<boolean> {
+    setBusy(true);
+    try {
+      await action();
+      loadHousehold();
+      await useRecipeStore.getState().hydrate();
+      toast.success(success);
+      return true;
+    } catch (err) {
+      console.error(`${failure}:`, err instanceof Error ? err.message : err);
+      toast.error(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleJoin() {
+    if (!inviteCode.trim()) return;
+    const joined = await changeMembership(
+      () => joinHousehold(createClient(), inviteCode),
+      "Joined household",
+      "Failed to join household"
+    );
+    if (joined) setInviteCode("");
+  }
+
+  async function handleRename() {
+    if (!household || name.trim() === household.name) return;
+    setBusy(true);
+    try {
+      await renameHousehold(createClient(), name);
+      setHousehold({ ...household, name: name.trim() });
+      toast.success("Household renamed");
+    } catch (err) {
+      console.error("Failed to rename household:", err instanceof Error ? err.message : err);
+      toast.error(err instanceof Error ? err.message : "Failed to rename household");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleResetCode() {
+    if (!household) return;
+    setBusy(true);
+    try {
+      const code = await resetHouseholdInviteCode(createClient());
+      setHousehold({ ...household, inviteCode: code });
+      toast.success("New invite code created — the old one no longer works");
+    } catch (err) {
+      console.error("Failed to reset invite code:", err instanceof Error ? err.message : err);
+      toast.error("Failed to reset invite code");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleCopy() {
+    if (!household) return;
+    try {
+      await navigator.clipboard.writeText(household.inviteCode);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error("Couldn't copy — select the code instead");
+    }
+  }
+
+  if (loading && !household) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Household</CardTitle>
+        </CardHeader>
+        <CardContent className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!household) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Household</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-3">
+          <p className="text-sm text-muted-foreground">Could not load your household.</p>
+          <Button variant="outline" onClick={loadHousehold}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Retry
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Household</CardTitle>
+        <CardDescription>
+          Everyone in your household shares the meal plan, shopping list and grocery list.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {isOwner && (
+          <div className="space-y-2">
+            <Label htmlFor="household-name">Name</Label>
+            <div className="flex gap-2">
+              <Input
+                id="household-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                maxLength={100}
+              />
+              <Button
+                variant="outline"
+                onClick={handleRename}
+                disabled={busy || !name.trim() || name.trim() === household.name}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Members */}
+        <ul className="space-y-2" aria-label="Household members">
+          {household.members.map((member) => (
+            <li key={member.userId} className="flex items-center gap-2 text-sm">
+              <Users className="h-4 w-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+              <span className="min-w-0 truncate">
+                {member.displayName ?? member.email ?? "Member"}
+                {member.userId === user?.id && <span className="text-muted-foreground"> (you)</span>}
+              </span>
+              {member.role === "owner" && <Badge variant="outline">Owner</Badge>}
+              {isOwner && member.userId !== user?.id && (
+                <button
+                  type="button"
+                  onClick={() => setRemoving(member)}
+                  disabled={busy}
+                  className="ml-auto rounded-full p-1 text-muted-foreground hover:bg-accent hover:text-destructive"
+                  aria-label={`Remove ${member.displayName ?? member.email ?? "member"} from household`}
+                >
+                  <UserMinus className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {/* Invite */}
+        <div className="space-y-2">
+          <Label>Invite code</Label>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 rounded-md border bg-muted/50 px-3 py-1.5 font-mono text-sm tracking-wider select-all">
+              {household.inviteCode}
+            </code>
+            <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy invite code">
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+            {isOwner && (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleResetCode}
+                disabled={busy}
+                aria-label="Create a new invite code"
+                title="Create a new invite code"
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Share this with someone to let them join from their own Profile page.
+          </p>
+        </div>
+
+        {/* Join or leave */}
+        {shared ? (
+          <Button variant="outline" className="w-full" onClick={() => setConfirmLeave(true)} disabled={busy}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Leave household
+          </Button>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="join-household">Join a household</Label>
+            <div className="flex gap-2">
+              <Input
+                id="join-household"
+                placeholder="Invite code"
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleJoin()}
+                autoCapitalize="off"
+                autoComplete="off"
+              />
+              <Button onClick={handleJoin} disabled={busy || !inviteCode.trim()}>
+                {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Join
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Your meal plan and lists are merged into theirs.
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Leave confirmation */}
+      <AlertDialog open={confirmLeave} onOpenChange={setConfirmLeave}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave {household.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The shared meal plan and lists stay with the household. You&apos;ll start
+              over with empty ones of your own.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                changeMembership(() => leaveHousehold(createClient()), "Left household", "Failed to leave household")
+              }
+            >
+              Leave
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Remove member confirmation */}
+      <AlertDialog open={removing !== null} onOpenChange={(open) => { if (!open) setRemoving(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Remove {removing?.displayName ?? removing?.email ?? "this member"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              They&apos;ll no longer see the household&apos;s meal plan and lists, and their
+              recipes will disappear from yours.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                const member = removing;
+                if (!member) return;
+                changeMembership(
+                  () => removeHouseholdMember(createClient(), member.userId),
+                  "Member removed",
+                  "Failed to remove member"
+                );
+              }}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
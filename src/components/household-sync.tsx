@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect } from "react";
+import { useAuth } from "@/components/auth-provider";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { createClient } from "@/lib/supabase/client";
+import { subscribeToHouseholdChanges } from "@/lib/supabase/service";
+
+/**
+ * Keeps the meal plan, shopping list and grocery list in step with the rest
+ * of the household while the app is open. Renders nothing; subscribes once
+ * the store has hydrated and catches up whenever the connection comes back.
+ */
+export function HouseholdSync() {
+  const { user } = useAuth();
+  const hydrated = useRecipeStore((s) => s.hydrated);
+
+  useEffect(() => {
+    if (!user || !hydrated) return;
+    const { applyHouseholdChange, resyncHousehold } = useRecipeStore.getState();
+    return subscribeToHouseholdChanges(createClient(), applyHouseholdChange, resyncHousehold);
+  }, [user, hydrated]);
+
+  return null;
+}
@@ -58,6 +58,7 @@ export function MealPrepSheet({
   const assignMeal = useRecipeStore((s) => s.assignMeal);
   const mealPlan = useRecipeStore((s) => s.mealPlan);
   const recipes = useRecipeStore((s) => s.recipes);
+  const householdRecipes = useRecipeStore((s) => s.householdRecipes);
   const fetchMealPlanForWeek = useRecipeStore((s) => s.fetchMealPlanForWeek);
 
   const maxSlots = servings ?? parseServings(recipe.servings) ?? null;
@@ -227,7 +228,7 @@ export function MealPrepSheet({
                     const isCurrentRecipe = entries.some((e) => e.recipeId === recipe.id);
                     const otherTitles = entries
                       .filter((e) => e.recipeId !== recipe.id)
-                      .map((e) => recipes.find((r) => r.id === e.recipeId)?.title)
+                      .map((e) => (recipes.find((r) => r.id === e.recipeId) ?? householdRecipes.find((r) => r.id === e.recipeId))?.title)
                       .filter(Boolean);
                     const existingTitle = otherTitles.length > 0 ? otherTitles.join(", ") : null;
 
@@ -0,0 +1,127 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { estimateNutrition, formatNutrient, NUTRIENT_LABELS, type Nutrients } from "@/lib/nutrition";
+import type { NutritionFacts, Recipe } from "@/types";
+
+type NutritionView = "source" | "serving" | "recipe";
+
+/** Published figures in display order (the serving size goes in the caption). */
+const PUBLISHED_LABELS: [Exclude<keyof NutritionFacts, "servingSize">, string][] = [
+  ["calories", "Calories"],
+  ["protein", "Protein"],
+  ["carbohydrates", "Carbs"],
+  ["fat", "Fat"],
+  ["saturatedFat", "Sat. fat"],
+  ["fiber", "Fiber"],
+  ["sugar", "Sugar"],
+  ["sodium", "Sodium"],
+  ["cholesterol", "Cholesterol"],
+];
+
+/**
+ * Nutrition for a recipe: the source page's published figures when it gave
+ * any, and our estimate per serving or for the whole batch. Hidden when
+ * there's neither.
+ */
+export function NutritionPanel({ recipe }: { recipe: Recipe }) {
+  const estimate = useMemo(
+    () => estimateNutrition(recipe.ingredients, recipe.servings),
+    [recipe.ingredients, recipe.servings],
+  );
+  const facts = recipe.nutrition ?? {};
+  const published = PUBLISHED_LABELS.filter(([key]) => facts[key]);
+  const [view, setView] = useState<NutritionView>(published.length > 0 ? "source" : "serving");
+
+  if (estimate.counted === 0 && published.length === 0) return null;
+
+  const perServing = estimate.perServing !== null;
+  const showSource = published.length > 0 && (view === "source" || estimate.counted === 0);
+  const values = view === "serving" && estimate.perServing ? estimate.perServing : estimate.total;
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Nutrition</h2>
+        {(perServing || published.length > 0) && estimate.counted > 0 && (
+          <Tabs value={view} onValueChange={(v) => setView(v as NutritionView)}>
+            <TabsList className="h-7" aria-label="Nutrition amount">
+              {published.length > 0 && (
+                <TabsTrigger value="source" className="text-xs px-2 h-6">
+                  From source
+                </TabsTrigger>
+              )}
+              {perServing && (
+                <TabsTrigger value="serving" className="text-xs px-2 h-6">
+                  Per serving
+                </TabsTrigger>
+              )}
+              <TabsTrigger value="recipe" className="text-xs px-2 h-6">
+                Whole recipe
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+      </div>
+
+      {showSource ? (
+        <>
+          <dl className="grid grid-cols-3 gap-2 sm:grid-cols-6">
+            {published.map(([key, label]) => (
+              <div key={key} className="rounded-lg border px-2 py-1.5 text-center">
+                <dt className="text-[11px] text-muted-foreground">{label}</dt>
+                <dd className="text-sm font-semibold tabular-nums">{facts[key]}</dd>
+              </div>
+            ))}
+          </dl>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Per serving{facts.servingSize ? ` (${facts.servingSize})` : ""}, as published by the source.
+          </p>
+        </>
+      ) : (
+        <NutritionEstimate estimate={estimate} values={values} perServing={perServing} />
+      )}
+    </div>
+  );
+}
+
+function NutritionEstimate({
+  estimate,
+  values,
+  perServing,
+}: {
+  estimate: ReturnType<typeof estimateNutrition>;
+  values: Nutrients;
+  perServing: boolean;
+}) {
+  return (
+    <>
+      <dl className="grid grid-cols-3 gap-2 sm:grid-cols-6">
+        {(Object.keys(NUTRIENT_LABELS) as (keyof Nutrients)[]).map((key) => (
+          <div key={key} className="rounded-lg border px-2 py-1.5 text-center">
+            <dt className="text-[11px] text-muted-foreground">{NUTRIENT_LABELS[key].label}</dt>
+            <dd className="text-sm font-semibold tabular-nums">{formatNutrient(key, values[key])}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <p className="mt-2 text-xs text-muted-foreground">
+        {perServing
+          ? `Estimated for ${estimate.servings} serving${estimate.servings !== 1 ? "s" : ""} `
+          : "Estimated for the whole recipe "}
+        from {estimate.counted} of {estimate.ingredientCount} ingredients.
+      </p>
+      {estimate.missing.length > 0 && (
+        <details className="mt-1 text-xs text-muted-foreground">
+          <summary className="cursor-pointer">Not included</summary>
+          <ul className="mt-1 list-disc space-y-0.5 pl-4">
+            {estimate.missing.map((line, i) => (
+              <li key={i}>{line}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </>
+  );
+}
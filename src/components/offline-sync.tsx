@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useSyncExternalStore } from "react";
+import { CloudOff, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useRecipeStore } from "@/stores/recipe-store";
+
+function subscribeToConnection(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+/**
+ * Registers the service worker, replays queued changes when the connection
+ * comes back, and shows a small status pill while offline or syncing.
+ */
+export function OfflineSync() {
+  const online = useSyncExternalStore(subscribeToConnection, () => navigator.onLine, () => true);
+  const pendingCount = useRecipeStore((s) => s.pendingMutations.length);
+  const isSyncing = useRecipeStore((s) => s.isSyncing);
+
+  useEffect(() => {
+    // Dev builds change on every save; a cached copy would only get in the way
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch((err) => {
+      console.error("Failed to register service worker:", err instanceof Error ? err.message : err);
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => useRecipeStore.getState().flushQueue();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, []);
+
+  if (online && pendingCount === 0) return null;
+
+  const changes = `${pendingCount} change${pendingCount === 1 ? "" : "s"}`;
+  let label: string;
+  if (!online) {
+    label = pendingCount > 0 ? `Offline · ${changes} will sync later` : "Offline · showing saved data";
+  } else {
+    label = isSyncing ? `Syncing ${changes}…` : `${changes} waiting to sync`;
+  }
+
+  return (
+    <div className="pointer-events-none fixed inset-x-0 bottom-20 z-40 flex justify-center px-4">
+      <p
+        role="status"
+        className="flex items-center gap-1.5 rounded-full border bg-background/95 px-3 py-1 text-xs text-muted-foreground shadow-sm backdrop-blur"
+      >
+        {online ? (
+          <RefreshCw className={cn("h-3.5 w-3.5", isSyncing && "animate-spin")} aria-hidden="true" />
+        ) : (
+          <CloudOff className="h-3.5 w-3.5" aria-hidden="true" />
+        )}
+        {label}
+      </p>
+    </div>
+  );
+}
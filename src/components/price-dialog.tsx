@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface PriceDialogProps {
+  /** The list item being checked off; null closes the dialog. */
+  itemText: string | null;
+  /** Prefilled store, usually the last one used. */
+  defaultStore: string;
+  onOpenChange: (open: boolean) => void;
+  onSave: (price: number, store: string) => void;
+}
+
+/**
+ * "Check off with price" dialog for shopping and grocery list items. The
+ * price is for the whole line as written ("2 lb chicken thighs").
+ */
+export function PriceDialog({ itemText, defaultStore, onOpenChange, onSave }: PriceDialogProps) {
+  return (
+    <Dialog open={itemText !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>What did you pay?</DialogTitle>
+          <DialogDescription>{itemText}</DialogDescription>
+        </DialogHeader>
+        {/* Keyed so the form resets for each item */}
+        {itemText !== null && (
+          <PriceForm key={itemText} defaultStore={defaultStore} onCancel={() => onOpenChange(false)} onSave={onSave} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PriceForm({
+  defaultStore,
+  onCancel,
+  onSave,
+}: {
+  defaultStore: string;
+  onCancel: () => void;
+  onSave: (price: number, store: string) => void;
+}) {
+  const [price, setPrice] = useState("");
+  const [store, setStore] = useState(defaultStore);
+
+  const parsed = parseFloat(price.replace(/^\$/, ""));
+  const valid = Number.isFinite(parsed) && parsed >= 0;
+
+  const handleSave = () => {
+    if (valid) onSave(parsed, store.trim());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1.5">
+        <Label htmlFor="price-paid">Price ($)</Label>
+        <Input
+          id="price-paid"
+          type="text"
+          inputMode="decimal"
+          placeholder="e.g. 4.99"
+          value={price}
+          autoFocus
+          onChange={(e) => setPrice(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="price-store">Store (optional)</Label>
+        <Input
+          id="price-store"
+          placeholder="e.g. Costco"
+          value={store}
+          onChange={(e) => setStore(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!valid}>
+          Check off
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
-import { Clock, Users, CalendarPlus, Heart, Copy } from "lucide-react";
+import { Clock, Users, CalendarPlus, Heart, Copy, TriangleAlert } from "lucide-react";
 
 import { Card, CardContent } from "@/components/ui/card";
 import { formatDuration } from "@/lib/utils";
+import { dietaryConflicts, describeConflicts } from "@/lib/dietary";
 import { useRecipeStore } from "@/stores/recipe-store";
 import { MealPrepSheet } from "@/components/meal-prep-sheet";
 import { SchedulePickerSheet } from "@/components/schedule-picker-sheet";
@@ -21,12 +22,19 @@ interface RecipeCardProps {
 /**
  * Compact recipe card for grid views. Shows image, truncated title (max 2 lines),
  * metadata, tags, and a quick "add to plan" button overlaid on the image.
+ * Flags recipes that break the household's dietary restrictions.
  */
 export function RecipeCard({ recipe, onPick }: RecipeCardProps) {
   const recipeGroups = useRecipeStore((s) => s.recipeGroups);
   const groupMembers = useRecipeStore((s) => s.groupMembers);
   const addRecipeToGroup = useRecipeStore((s) => s.addRecipeToGroup);
   const removeRecipeFromGroup = useRecipeStore((s) => s.removeRecipeFromGroup);
+  const dietaryRestrictions = useRecipeStore((s) => s.dietaryRestrictions);
+
+  const conflicts = useMemo(
+    () => dietaryConflicts(recipe, dietaryRestrictions),
+    [recipe, dietaryRestrictions]
+  );
 
   // Check if recipe is in the Favorites group (the default group)
   const favoritesGroup = recipeGroups.find((g) => g.isDefault);
@@ -138,7 +146,12 @@ export function RecipeCard({ recipe, onPick }: RecipeCardProps) {
             )}
           </div>
         )}
-
+        {conflicts.length > 0 && (
+          <p className="mt-0.5 flex items-center gap-0.5 text-[10px] font-medium text-amber-600 dark:text-amber-500">
+            <TriangleAlert className="h-2.5 w-2.5 shrink-0" aria-hidden="true" />
+            <span className="truncate">{describeConflicts(conflicts)}</span>
+          </p>
+        )}
       </CardContent>
     </Card>
   );
@@ -2,7 +2,7 @@
 
 import { useState, useMemo } from "react";
 import Image from "next/image";
-import { ExternalLink, Trash2, RotateCcw, Clock, Users, ChefHat, Minus, Plus, CalendarPlus, ChevronDown, Tag, Flame, FolderOpen, Heart, ShoppingCart, Copy } from "lucide-react";
+import { ExternalLink, Trash2, RotateCcw, Clock, Users, ChefHat, Minus, Plus, CalendarPlus, ChevronDown, Tag, Flame, FolderOpen, Heart, ShoppingCart, Copy, Scale, Printer, Star, Leaf, CirclePlay } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -12,12 +12,18 @@ import { toast } from "sonner";
 import { useRecipeStore } from "@/stores/recipe-store";
 import { TagPicker } from "@/components/tag-picker";
 import { GroupPicker } from "@/components/group-picker";
+import { suggestTags } from "@/lib/tag-suggestions";
+import { groupInstructions } from "@/lib/instructions";
 import { formatDuration } from "@/lib/utils";
-import { scaleIngredient, formatIngredientMain, parseServings, parseIngredient } from "@/lib/ingredient-parser";
+import { parseServings, parseIngredient } from "@/lib/ingredient-parser";
+import { formatIngredientForSystem, formatIngredientAsGrams, hasGramConversions, scaleIngredientForSystem, convertTemperatures } from "@/lib/unit-converter";
 import { groupIngredientsByCategory } from "@/lib/ingredient-categorizer";
 import { highlightIngredients } from "@/lib/ingredient-highlighter";
 import { MealPrepSheet } from "@/components/meal-prep-sheet";
 import { SchedulePickerSheet } from "@/components/schedule-picker-sheet";
+import { UnitToggle } from "@/components/unit-toggle";
+import { NutritionPanel } from "@/components/nutrition-panel";
+import { SubstitutionButton } from "@/components/substitution-button";
 import type { Recipe } from "@/types";
 
 /** Stable empty array to avoid re-renders when no ingredients are checked. */
@@ -25,11 +31,13 @@ const EMPTY_ARRAY: number[] = [];
 
 interface RecipeDetailProps {
   recipe: Recipe;
+  /** A housemate's recipe: viewable and cookable, without favorite, tag, group or delete controls. */
+  readOnly?: boolean;
   onDelete?: () => void;
   onCook?: () => void;
 }
 
-export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
+export function RecipeDetail({ recipe, readOnly = false, onDelete, onCook }: RecipeDetailProps) {
   const updateTags = useRecipeStore((s) => s.updateTags);
   const checked = useRecipeStore((s) => s.checkedIngredients[recipe.id]) ?? EMPTY_ARRAY;
   const toggleIngredient = useRecipeStore((s) => s.toggleIngredient);
@@ -40,6 +48,7 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
   const removeRecipeFromGroup = useRecipeStore((s) => s.removeRecipeFromGroup);
   const createGroup = useRecipeStore((s) => s.createGroup);
   const addIngredientsToShoppingList = useRecipeStore((s) => s.addIngredientsToShoppingList);
+  const unitSystem = useRecipeStore((s) => s.unitSystem);
 
   // Favorite toggle — mirrors the pattern in recipe-card.tsx
   const favoritesGroup = recipeGroups.find((g) => g.isDefault);
@@ -69,6 +78,20 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
   const [currentServings, setCurrentServings] = useState(baseServings ?? 0);
   const scalingRatio = baseServings ? currentServings / baseServings : 1;
   const isScaled = baseServings !== null && currentServings !== baseServings;
+  const printParams = new URLSearchParams();
+  if (isScaled) printParams.set("servings", String(currentServings));
+  if (unitSystem) printParams.set("units", unitSystem);
+  const printHref = `/api/print/recipe/${recipe.id}${printParams.size > 0 ? `?${printParams}` : ""}`;
+
+  const instructionSections = useMemo(() => groupInstructions(recipe.instructions), [recipe.instructions]);
+
+  const toggleStep = (index: number) =>
+    setCompletedSteps((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
 
   const ingredientGroups = useMemo(
     () => groupIngredientsByCategory(recipe.ingredients),
@@ -83,6 +106,14 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
     [ingredientGroups],
   );
 
+  /** Grams view is only offered for recipes with weighable volume measures (baking). */
+  const canShowGrams = useMemo(
+    () => hasGramConversions(flatIngredients.map((i) => i.parsed)),
+    [flatIngredients],
+  );
+  const [showGrams, setShowGrams] = useState(false);
+  const gramsActive = canShowGrams && showGrams;
+
   const prepDisplay = formatDuration(recipe.prepTime);
   const cookDisplay = formatDuration(recipe.cookTime);
   const totalDisplay = formatDuration(recipe.totalTime);
@@ -108,7 +139,7 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
         <div>
           <div className="flex items-start gap-2">
             <h1 className="text-2xl font-bold leading-tight flex-1">{recipe.title}</h1>
-            {favoritesGroup && (
+            {favoritesGroup && !readOnly && (
               <button
                 type="button"
                 onClick={toggleFavorite}
@@ -130,6 +161,11 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
               by {recipe.author}
             </p>
           )}
+          {readOnly && (
+            <p className="mt-0.5 text-xs text-muted-foreground">
+              From a housemate&apos;s recipes — only they can change it.
+            </p>
+          )}
           {/^https?:\/\//i.test(recipe.sourceUrl) && (
             <a
               href={recipe.sourceUrl}
@@ -141,10 +177,14 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
               View original
             </a>
           )}
+          {recipe.description && (
+            <p className="mt-2 text-sm leading-relaxed text-muted-foreground">{recipe.description}</p>
+          )}
         </div>
 
         {/* Metadata pills */}
-        {(prepDisplay || cookDisplay || totalDisplay || recipe.servings || recipe.cuisineType) && (
+        {(prepDisplay || cookDisplay || totalDisplay || recipe.servings || recipe.cuisineType ||
+          recipe.aggregateRating || recipe.suitableForDiet?.length || recipe.video) && (
           <div className="flex flex-wrap gap-2">
             {prepDisplay && (
               <div className="inline-flex items-center gap-1.5 rounded-full bg-muted px-3 py-1 text-xs">
@@ -203,6 +243,41 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
                 <span>{recipe.cuisineType}</span>
               </div>
             )}
+            {recipe.aggregateRating && (
+              <div
+                className="inline-flex items-center gap-1.5 rounded-full bg-muted px-3 py-1 text-xs"
+                title="Readers' rating on the source site"
+              >
+                <Star className="h-3 w-3 fill-current" aria-hidden="true" />
+                <span>
+                  {recipe.aggregateRating.value.toFixed(1)}
+                  {recipe.aggregateRating.count != null && (
+                    <span className="text-muted-foreground"> ({recipe.aggregateRating.count.toLocaleString()})</span>
+                  )}
+                </span>
+              </div>
+            )}
+            {recipe.suitableForDiet?.map((diet) => (
+              <div
+                key={diet}
+                className="inline-flex items-center gap-1.5 rounded-full bg-muted px-3 py-1 text-xs"
+                title="As labelled by the source"
+              >
+                <Leaf className="h-3 w-3" aria-hidden="true" />
+                <span>{diet}</span>
+              </div>
+            ))}
+            {recipe.video && (
+              <a
+                href={recipe.video.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1.5 rounded-full bg-muted px-3 py-1 text-xs hover:bg-accent"
+              >
+                <CirclePlay className="h-3 w-3" aria-hidden="true" />
+                <span>Watch video</span>
+              </a>
+            )}
           </div>
         )}
 
@@ -230,6 +305,11 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
               Cook
             </Button>
           )}
+          <Button variant="outline" size="icon" className="shrink-0" asChild>
+            <a href={printHref} target="_blank" rel="noopener" aria-label="Print recipe card">
+              <Printer className="h-4 w-4" aria-hidden="true" />
+            </a>
+          </Button>
         </div>
 
         {/* Notes */}
@@ -241,36 +321,38 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
 
         {/* Tags & Groups (side-by-side toggles, pickers expand below) */}
         <div>
-          <div className="flex gap-3">
-            <button
-              type="button"
-              className="flex items-center gap-2 py-1"
-              onClick={() => { setTagsOpen((o) => !o); setGroupsOpen(false); }}
-              aria-expanded={tagsOpen}
-            >
-              <Tag className="h-3.5 w-3.5 text-muted-foreground" aria-hidden="true" />
-              <span className="text-sm font-medium text-muted-foreground">Tags</span>
-              <ChevronDown
-                className={`h-4 w-4 text-muted-foreground transition-transform ${tagsOpen ? "rotate-180" : ""}`}
-                aria-hidden="true"
-              />
-            </button>
-            {recipeGroups.length > 0 && (
+          {!readOnly && (
+            <div className="flex gap-3">
               <button
                 type="button"
                 className="flex items-center gap-2 py-1"
-                onClick={() => { setGroupsOpen((o) => !o); setTagsOpen(false); }}
-                aria-expanded={groupsOpen}
+                onClick={() => { setTagsOpen((o) => !o); setGroupsOpen(false); }}
+                aria-expanded={tagsOpen}
               >
-                <FolderOpen className="h-3.5 w-3.5 text-muted-foreground" aria-hidden="true" />
-                <span className="text-sm font-medium text-muted-foreground">Groups</span>
+                <Tag className="h-3.5 w-3.5 text-muted-foreground" aria-hidden="true" />
+                <span className="text-sm font-medium text-muted-foreground">Tags</span>
                 <ChevronDown
-                  className={`h-4 w-4 text-muted-foreground transition-transform ${groupsOpen ? "rotate-180" : ""}`}
+                  className={`h-4 w-4 text-muted-foreground transition-transform ${tagsOpen ? "rotate-180" : ""}`}
                   aria-hidden="true"
                 />
               </button>
-            )}
-          </div>
+              {recipeGroups.length > 0 && (
+                <button
+                  type="button"
+                  className="flex items-center gap-2 py-1"
+                  onClick={() => { setGroupsOpen((o) => !o); setTagsOpen(false); }}
+                  aria-expanded={groupsOpen}
+                >
+                  <FolderOpen className="h-3.5 w-3.5 text-muted-foreground" aria-hidden="true" />
+                  <span className="text-sm font-medium text-muted-foreground">Groups</span>
+                  <ChevronDown
+                    className={`h-4 w-4 text-muted-foreground transition-transform ${groupsOpen ? "rotate-180" : ""}`}
+                    aria-hidden="true"
+                  />
+                </button>
+              )}
+            </div>
+          )}
           {/* Collapsed tag/group badges */}
           {(!tagsOpen || !groupsOpen) && (
             <div className="flex flex-wrap gap-1 mt-1">
@@ -293,6 +375,7 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
               <TagPicker
                 selected={recipe.tags}
                 onChange={(tags) => updateTags(recipe.id, tags)}
+                suggested={suggestTags(recipe)}
               />
             </div>
           )}
@@ -340,9 +423,11 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
                 size="sm"
                 className="h-7 text-xs text-muted-foreground"
                 onClick={() => {
-                  const items = isScaled
+                  const items = isScaled || unitSystem
                     ? recipe.ingredients.map((ing) =>
-                        scaleIngredient(parseIngredient(ing), scalingRatio)
+                        ing.startsWith("## ")
+                          ? ing
+                          : scaleIngredientForSystem(parseIngredient(ing), isScaled ? scalingRatio : 1, unitSystem)
                       )
                     : recipe.ingredients;
                   addIngredientsToShoppingList(items);
@@ -365,20 +450,36 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
               )}
             </div>
           </div>
-          <Tabs
-            value={ingredientView}
-            onValueChange={(v) => setIngredientView(v as "category" | "original")}
-            className="mb-3"
-          >
-            <TabsList className="h-7">
-              <TabsTrigger value="original" className="text-xs px-2.5 h-6">
-                As Written
-              </TabsTrigger>
-              <TabsTrigger value="category" className="text-xs px-2.5 h-6">
-                By Category
-              </TabsTrigger>
-            </TabsList>
-          </Tabs>
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <Tabs
+              value={ingredientView}
+              onValueChange={(v) => setIngredientView(v as "category" | "original")}
+            >
+              <TabsList className="h-7">
+                <TabsTrigger value="original" className="text-xs px-2.5 h-6">
+                  As Written
+                </TabsTrigger>
+                <TabsTrigger value="category" className="text-xs px-2.5 h-6">
+                  By Category
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="flex items-center gap-1">
+              {canShowGrams && (
+                <Button
+                  variant={showGrams ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-7 text-xs text-muted-foreground"
+                  aria-pressed={showGrams}
+                  onClick={() => setShowGrams((v) => !v)}
+                >
+                  <Scale className="mr-1 h-3 w-3" aria-hidden="true" />
+                  Grams
+                </Button>
+              )}
+              <UnitToggle />
+            </div>
+          </div>
           {ingredientView === "category" ? (
             <div className="space-y-4">
               {ingredientGroups.map((group) => (
@@ -419,11 +520,13 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
                                 : ""
                             }`}
                           >
-                            {formatIngredientMain(parsed, isScaled ? scalingRatio : 1)}
+                            {(gramsActive && formatIngredientAsGrams(parsed, isScaled ? scalingRatio : 1)) ||
+                              formatIngredientForSystem(parsed, unitSystem, isScaled ? scalingRatio : 1)}
                             {parsed.prepNote && (
                               <span className="italic text-muted-foreground/70">, {parsed.prepNote}</span>
                             )}
                           </span>
+                          <SubstitutionButton parsed={parsed} tags={recipe.tags} scale={isScaled ? scalingRatio : 1} />
                         </li>
                       );
                     })}
@@ -473,11 +576,13 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
                           : ""
                       }`}
                     >
-                      {formatIngredientMain(parsed, isScaled ? scalingRatio : 1)}
+                      {(gramsActive && formatIngredientAsGrams(parsed, isScaled ? scalingRatio : 1)) ||
+                        formatIngredientForSystem(parsed, unitSystem, isScaled ? scalingRatio : 1)}
                       {parsed.prepNote && (
                         <span className="italic text-muted-foreground/70">, {parsed.prepNote}</span>
                       )}
                     </span>
+                    <SubstitutionButton parsed={parsed} tags={recipe.tags} scale={isScaled ? scalingRatio : 1} />
                   </div>
                 );
               })}
@@ -485,87 +590,98 @@ export function RecipeDetail({ recipe, onDelete, onCook }: RecipeDetailProps) {
           )}
         </div>
 
+        {/* Nutrition */}
+        <NutritionPanel recipe={recipe} />
+
         {/* Instructions */}
         <div>
           <h2 className="mb-3 text-lg font-semibold">Instructions</h2>
-          <ol className="space-y-4">
-            {recipe.instructions.map((step, i) => {
-              const isDone = completedSteps.has(i);
-              return (
-                <li
-                  key={i}
-                  role="button"
-                  tabIndex={0}
-                  className="flex gap-3 text-sm leading-relaxed cursor-pointer"
-                  onClick={() =>
-                    setCompletedSteps((prev) => {
-                      const next = new Set(prev);
-                      if (next.has(i)) next.delete(i);
-                      else next.add(i);
-                      return next;
-                    })
-                  }
-                  onKeyDown={(e) => {
-                    if (e.key === "Enter" || e.key === " ") {
-                      e.preventDefault();
-                      setCompletedSteps((prev) => {
-                        const next = new Set(prev);
-                        if (next.has(i)) next.delete(i);
-                        else next.add(i);
-                        return next;
-                      });
-                    }
-                  }}
-                >
-                  <span
-                    className={`flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-xs font-medium transition-colors ${
-                      isDone
-                        ? "bg-muted text-muted-foreground line-through"
-                        : "bg-primary text-primary-foreground"
-                    }`}
-                  >
-                    {i + 1}
-                  </span>
-                  <p
-                    className={`pt-0.5 transition-colors ${
-                      isDone ? "text-muted-foreground line-through" : ""
-                    }`}
-                  >
-                    {highlightIngredients(step)}
-                  </p>
-                </li>
-              );
-            })}
-          </ol>
+          <div className="space-y-5">
+            {instructionSections.map((section, sectionIndex) => (
+              <div key={sectionIndex}>
+                {section.title && (
+                  <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                    {section.title}
+                  </h3>
+                )}
+                <ol className="space-y-4">
+                  {section.steps.map((step) => {
+                    const isDone = completedSteps.has(step.index);
+                    return (
+                      <li
+                        key={step.index}
+                        role="button"
+                        tabIndex={0}
+                        className="flex gap-3 text-sm leading-relaxed cursor-pointer"
+                        onClick={() => toggleStep(step.index)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" || e.key === " ") {
+                            e.preventDefault();
+                            toggleStep(step.index);
+                          }
+                        }}
+                      >
+                        <span
+                          className={`flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-xs font-medium transition-colors ${
+                            isDone
+                              ? "bg-muted text-muted-foreground line-through"
+                              : "bg-primary text-primary-foreground"
+                          }`}
+                        >
+                          {step.number}
+                        </span>
+                        <div
+                          className={`pt-0.5 transition-colors ${
+                            isDone ? "text-muted-foreground line-through" : ""
+                          }`}
+                        >
+                          <p>{highlightIngredients(convertTemperatures(step.text, unitSystem))}</p>
+                          {step.subSteps.length > 0 && (
+                            <ul className="mt-1.5 list-disc space-y-1 pl-4">
+                              {step.subSteps.map((subStep, j) => (
+                                <li key={j}>{highlightIngredients(convertTemperatures(subStep, unitSystem))}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            ))}
+          </div>
         </div>
 
         {/* Actions */}
-        <div className="flex justify-end border-t pt-4">
-          <div>
-            <AlertDialog>
-              <AlertDialogTrigger asChild>
-                <Button variant="destructive" size="sm">
-                  <Trash2 className="mr-1 h-4 w-4" aria-hidden="true" />
-                  Delete
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Delete this recipe?</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    This will permanently remove the recipe and cannot be undone.
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction onClick={onDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+        {!readOnly && (
+          <div className="flex justify-end border-t pt-4">
+            <div>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" size="sm">
+                    <Trash2 className="mr-1 h-4 w-4" aria-hidden="true" />
                     Delete
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this recipe?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This will permanently remove the recipe and cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={onDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Meal prep sheet — only mount when open */}
@@ -1,11 +1,12 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
-import { Save, Plus, X } from "lucide-react";
+import { useState, useRef, useCallback, useMemo } from "react";
+import { Save, Plus, X, Heading, ListIndentIncrease, ListIndentDecrease } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useRecipeStore } from "@/stores/recipe-store";
 import { formatDurationForEdit, parseDurationToISO } from "@/lib/utils";
+import { groupInstructions, isSectionHeader, isSubStep, sectionTitle, subStepText, tidyInstructions, toSubStep } from "@/lib/instructions";
 import type { Recipe } from "@/types";
 
 interface RecipeEditFormProps {
@@ -25,7 +26,10 @@ export function RecipeEditForm({ recipe, onSave, onCancel }: RecipeEditFormProps
   const [cuisineType, setCuisineType] = useState(recipe.cuisineType ?? "");
   const [notes, setNotes] = useState(recipe.notes ?? "");
   const [ingredients, setIngredients] = useState<string[]>(recipe.ingredients);
-  const [instructions, setInstructions] = useState<string[]>(recipe.instructions);
+  // Headers are edited without their trailing colon; tidyInstructions puts it back on save
+  const [instructions, setInstructions] = useState<string[]>(() =>
+    recipe.instructions.map((line) => (isSectionHeader(line) ? `## ${sectionTitle(line)}` : line)),
+  );
   const [newIngredient, setNewIngredient] = useState("");
   const [newInstruction, setNewInstruction] = useState("");
 
@@ -56,7 +60,7 @@ export function RecipeEditForm({ recipe, onSave, onCancel }: RecipeEditFormProps
         cuisineType: cuisineType.trim() || null,
         notes: notes.trim() || null,
         ingredients: ingredients.filter(Boolean),
-        instructions: instructions.filter(Boolean),
+        instructions: tidyInstructions(instructions),
       });
       onSave();
     } catch {
@@ -100,6 +104,24 @@ export function RecipeEditForm({ recipe, onSave, onCancel }: RecipeEditFormProps
     setInstructions(instructions.map((item, i) => (i === index ? value : item)));
   };
 
+  const addSection = () => {
+    setInstructions([...instructions, "## "]);
+    setInstructionIds((prev) => [...prev, nextId.current++]);
+  };
+
+  /** Turn a step into a sub-step of the one above it, or back. */
+  const toggleSubStep = (index: number) => {
+    const line = instructions[index];
+    updateInstruction(index, isSubStep(line) ? subStepText(line) : toSubStep(line));
+  };
+
+  // Step numbers by line, restarting in each section
+  const sections = useMemo(() => groupInstructions(instructions), [instructions]);
+  const stepNumbers = new Map(sections.flatMap((section) => section.steps.map((step) => [step.index, step.number])));
+  const lastSection = sections[sections.length - 1];
+  const endsWithHeader = instructions.length > 0 && isSectionHeader(instructions[instructions.length - 1]);
+  const nextStepNumber = endsWithHeader || !lastSection ? 1 : lastSection.steps.length + 1;
+
   return (
     <div className="space-y-6 p-4">
       {/* Title */}
@@ -228,38 +250,78 @@ export function RecipeEditForm({ recipe, onSave, onCancel }: RecipeEditFormProps
       <div className="space-y-2">
         <h3 className="text-sm font-medium">Instructions</h3>
         <div className="space-y-1.5">
-          {instructions.map((step, i) => (
-            <div key={instructionIds[i]} className="flex gap-2">
-              <span className="mt-2 w-6 shrink-0 text-center text-xs font-medium text-muted-foreground">
-                {i + 1}.
-              </span>
-              <textarea
-                ref={(el) => autoResize(el)}
-                value={step}
-                onChange={(e) => {
-                  updateInstruction(i, e.target.value);
-                  autoResize(e.target);
-                }}
-                rows={1}
-                className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 resize-none overflow-hidden"
-                aria-label={`Step ${i + 1}`}
-              />
-              <Button
-                type="button"
-                variant="ghost"
-                size="icon"
-                className="mt-0.5 shrink-0"
-                onClick={() => removeInstruction(i)}
-                aria-label="Remove step"
-              >
-                <X className="h-4 w-4" />
-              </Button>
-            </div>
-          ))}
+          {instructions.map((line, i) => {
+            if (isSectionHeader(line)) {
+              return (
+                <div key={instructionIds[i]} className="flex gap-2 pt-2">
+                  <Input
+                    value={line.slice(3)}
+                    onChange={(e) => updateInstruction(i, `## ${e.target.value}`)}
+                    placeholder="Section name, e.g. For the sauce"
+                    className="text-sm font-medium"
+                    aria-label="Section name"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0"
+                    onClick={() => removeInstruction(i)}
+                    aria-label="Remove section"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            }
+            const subStep = isSubStep(line);
+            const text = subStep ? subStepText(line) : line;
+            // A step can only be tucked under a step (or sub-step) above it
+            const canIndent = i > 0 && !isSectionHeader(instructions[i - 1]);
+            return (
+              <div key={instructionIds[i]} className={`flex gap-2 ${subStep ? "pl-8" : ""}`}>
+                <span className="mt-2 w-6 shrink-0 text-center text-xs font-medium text-muted-foreground">
+                  {subStep ? "•" : `${stepNumbers.get(i)}.`}
+                </span>
+                <textarea
+                  ref={(el) => autoResize(el)}
+                  value={text}
+                  onChange={(e) => {
+                    updateInstruction(i, subStep ? `- ${e.target.value}` : e.target.value);
+                    autoResize(e.target);
+                  }}
+                  rows={1}
+                  className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 resize-none overflow-hidden"
+                  aria-label={subStep ? "Sub-step" : `Step ${stepNumbers.get(i)}`}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="mt-0.5 shrink-0"
+                  onClick={() => toggleSubStep(i)}
+                  disabled={!subStep && !canIndent}
+                  aria-label={subStep ? "Make a separate step" : "Make a sub-step of the step above"}
+                >
+                  {subStep ? <ListIndentDecrease className="h-4 w-4" /> : <ListIndentIncrease className="h-4 w-4" />}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="mt-0.5 shrink-0"
+                  onClick={() => removeInstruction(i)}
+                  aria-label="Remove step"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
         </div>
         <div className="flex gap-2">
           <span className="flex h-9 w-6 shrink-0 items-center justify-center text-xs font-medium text-muted-foreground">
-            {instructions.length + 1}.
+            {nextStepNumber}.
           </span>
           <Input
             value={newInstruction}
@@ -281,6 +343,10 @@ export function RecipeEditForm({ recipe, onSave, onCancel }: RecipeEditFormProps
             <Plus className="h-4 w-4" />
           </Button>
         </div>
+        <Button type="button" variant="outline" size="sm" onClick={addSection}>
+          <Heading className="mr-1.5 h-3.5 w-3.5" />
+          Add section
+        </Button>
       </div>
 
       {/* Actions */}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChevronDown, History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { createClient } from "@/lib/supabase/client";
+import { fetchRecipeRevisions } from "@/lib/supabase/service";
+import { diffSnapshots, summarizeDiff, type FieldChange, type LineChange } from "@/lib/recipe-revisions";
+import { countSteps } from "@/lib/instructions";
+import { cn, formatDuration } from "@/lib/utils";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { Recipe, RecipeRevision, RevisionKind } from "@/types";
+
+interface RecipeHistorySheetProps {
+  recipe: Recipe;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KIND_LABELS: Record<RevisionKind, string> = {
+  original: "Original",
+  edit: "Edited",
+  revert: "Restored",
+};
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatValue(change: FieldChange, value: string | null): string {
+  if (value === null) return "—";
+  if (change.field === "prepTime" || change.field === "cookTime" || change.field === "totalTime") {
+    return formatDuration(value) ?? value;
+  }
+  return value;
+}
+
+function LineChanges({ title, lines }: { title: string; lines: LineChange[] }) {
+  const changed = lines.filter((l) => l.type !== "same");
+  if (changed.length === 0) return null;
+  return (
+    <div>
+      <p className="text-xs font-medium text-muted-foreground">{title}</p>
+      <ul className="mt-1 space-y-0.5 text-sm">
+        {changed.map((line, i) => (
+          <li
+            key={i}
+            className={cn(
+              "rounded px-1.5 py-0.5",
+              line.type === "added"
+                ? "bg-green-500/10 text-green-700 dark:text-green-400"
+                : "bg-red-500/10 text-red-700 line-through dark:text-red-400"
+            )}
+          >
+            <span className="sr-only">{line.type === "added" ? "Added: " : "Removed: "}</span>
+            {line.text.startsWith("## ") ? line.text.slice(3) : line.text}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * The recipe's edit history, newest first: what each revision changed from
+ * the one before, and a button to restore any earlier one. The original is
+ * kept for good, so the recipe can always go back to how it was saved.
+ */
+export function RecipeHistorySheet({ recipe, open, onOpenChange }: RecipeHistorySheetProps) {
+  const revertRecipe = useRecipeStore((s) => s.revertRecipe);
+  const [revisions, setRevisions] = useState<RecipeRevision[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const recipeId = recipe.id;
+  useEffect(() => {
+    if (!open) return;
+    setRevisions(null);
+    setExpandedId(null);
+    fetchRecipeRevisions(createClient(), recipeId)
+      .then(setRevisions)
+      .catch((err) => {
+        console.error("Failed to load recipe history:", err instanceof Error ? err.message : err);
+        toast.error("Failed to load recipe history");
+        setRevisions([]);
+      });
+  }, [open, recipeId]);
+
+  async function handleRevert(revision: RecipeRevision) {
+    setRevertingId(revision.id);
+    try {
+      await revertRecipe(recipeId, revision);
+      toast.success(`Restored the version from ${formatWhen(revision.createdAt)}`);
+      onOpenChange(false);
+    } catch {
+      toast.error("Failed to restore this version");
+    } finally {
+      setRevertingId(null);
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="flex h-[85dvh] flex-col">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>Every change to this recipe. Restore any version, including the original.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4">
+          {revisions === null ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : revisions.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-center">
+              <History className="h-8 w-8 text-muted-foreground" aria-hidden="true" />
+              <p className="mt-3 text-sm font-medium">No edits yet</p>
+              <p className="mt-1 max-w-xs text-sm text-muted-foreground">
+                When you edit this recipe, each version is kept here along with the original.
+              </p>
+            </div>
+          ) : (
+            <ol className="divide-y rounded-lg border">
+              {revisions.map((revision, i) => {
+                const previous = revisions[i + 1] ?? null;
+                const diff = diffSnapshots(previous?.snapshot ?? null, revision.snapshot);
+                const expanded = expandedId === revision.id;
+                const isCurrent = i === 0;
+                return (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      className="flex w-full items-start gap-2 p-3 text-left hover:bg-accent/50"
+                      onClick={() => setExpandedId(expanded ? null : revision.id)}
+                      aria-expanded={expanded}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="flex flex-wrap items-center gap-1.5">
+                          <span className="text-sm font-medium">{KIND_LABELS[revision.kind]}</span>
+                          {isCurrent && <Badge variant="secondary">Current</Badge>}
+                          <span className="text-xs text-muted-foreground">{formatWhen(revision.createdAt)}</span>
+                        </div>
+                        <p className="mt-0.5 line-clamp-1 text-xs text-muted-foreground">
+                          {previous ? summarizeDiff(diff) : revision.snapshot.title}
+                        </p>
+                      </div>
+                      <ChevronDown
+                        className={cn("mt-0.5 h-4 w-4 shrink-0 text-muted-foreground transition-transform", expanded && "rotate-180")}
+                        aria-hidden="true"
+                      />
+                    </button>
+
+                    {expanded && (
+                      <div className="space-y-3 px-3 pb-3">
+                        {previous ? (
+                          <>
+                            {diff.fields.length > 0 && (
+                              <dl className="space-y-1 text-sm">
+                                {diff.fields.map((change) => (
+                                  <div key={change.field}>
+                                    <dt className="text-xs font-medium text-muted-foreground">{change.label}</dt>
+                                    <dd className="break-words">
+                                      <span className="text-muted-foreground line-through">{formatValue(change, change.before)}</span>
+                                      {" → "}
+                                      <span>{formatValue(change, change.after)}</span>
+                                    </dd>
+                                  </div>
+                                ))}
+                              </dl>
+                            )}
+                            <LineChanges title="Ingredients" lines={diff.ingredients} />
+                            <LineChanges title="Steps" lines={diff.instructions} />
+                          </>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            The recipe as first saved: {revision.snapshot.ingredients.filter((l) => !l.startsWith("## ")).length}{" "}
+                            ingredients, {countSteps(revision.snapshot.instructions)} steps.
+                          </p>
+                        )}
+                        {!isCurrent && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRevert(revision)}
+                            disabled={revertingId !== null}
+                          >
+                            {revertingId === revision.id ? (
+                              <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                            ) : (
+                              <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+                            )}
+                            Restore this version
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
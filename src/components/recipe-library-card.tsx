@@ -0,0 +1,186 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { ChevronDown, Download, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useRecipeStore } from "@/stores/recipe-store";
+import {
+  exportRecipes,
+  importRecipeFile,
+  RECIPE_EXPORT_FORMAT_LABELS,
+  RECIPE_IMPORT_ACCEPT,
+  type RecipeExportFormat,
+} from "@/lib/recipe-exchange";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+/** Scope value for "every recipe" in the group picker. */
+const ALL_RECIPES = "all";
+
+/** Recipe exports with embedded photos can be large; anything past this isn't one. */
+const MAX_IMPORT_BYTES = 200 * 1024 * 1024;
+
+/** Save bytes as a file via a temporary object URL. */
+function downloadFile(data: Uint8Array, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([data as Uint8Array<ArrayBuffer>], { type: mimeType }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoke after the click has been handled, or some browsers cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Bulk import/export for the profile page — the whole library or one group
+ * as schema.org JSON-LD, Paprika or Mealie, and import of the same formats.
+ */
+export function RecipeLibraryCard() {
+  const recipes = useRecipeStore((s) => s.recipes);
+  const recipeGroups = useRecipeStore((s) => s.recipeGroups);
+  const groupMembers = useRecipeStore((s) => s.groupMembers);
+  const importRecipes = useRecipeStore((s) => s.importRecipes);
+
+  const [format, setFormat] = useState<RecipeExportFormat>("jsonld");
+  const [scope, setScope] = useState(ALL_RECIPES);
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const group = recipeGroups.find((g) => g.id === scope) ?? null;
+  const scopedRecipes = group
+    ? recipes.filter((r) => (groupMembers[group.id] ?? []).includes(r.id))
+    : recipes;
+
+  async function handleExport() {
+    setExporting(true);
+    try {
+      const baseName = group
+        ? `cooksnap-${group.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "group"}`
+        : "cooksnap-recipes";
+      const file = await exportRecipes(scopedRecipes, format, baseName);
+      downloadFile(file.data, file.filename, file.mimeType);
+    } catch (err) {
+      console.error("Failed to export recipes:", err instanceof Error ? err.message : err);
+      toast.error("Failed to export recipes");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  async function handleImport(file: File | undefined) {
+    if (!file) return;
+    if (file.size > MAX_IMPORT_BYTES) {
+      toast.error("That file is too large to import.");
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const { recipes: parsed, skipped } = await importRecipeFile(new Uint8Array(await file.arrayBuffer()));
+      if (parsed.length === 0) {
+        toast.error("No recipes found in that file.");
+        return;
+      }
+
+      const { imported, duplicates, failed } = await importRecipes(parsed);
+      const details = [
+        duplicates > 0 && `${duplicates} already saved`,
+        skipped + failed > 0 && `${skipped + failed} couldn't be imported`,
+      ].filter(Boolean);
+      toast.success(
+        `Imported ${imported} recipe${imported !== 1 ? "s" : ""}` +
+          (details.length > 0 ? ` (${details.join(", ")})` : ""),
+      );
+    } catch (err) {
+      console.error("Failed to import recipes:", err instanceof Error ? err.message : err);
+      toast.error(err instanceof Error ? err.message : "Failed to import recipes");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recipe library</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Tabs value={format} onValueChange={(v) => setFormat(v as RecipeExportFormat)}>
+              <TabsList className="h-8" aria-label="Export format">
+                {(Object.keys(RECIPE_EXPORT_FORMAT_LABELS) as RecipeExportFormat[]).map((f) => (
+                  <TabsTrigger key={f} value={f} className="text-xs px-2 h-7">
+                    {RECIPE_EXPORT_FORMAT_LABELS[f]}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="min-w-0">
+                  <span className="truncate">{group?.name ?? "All recipes"}</span>
+                  <ChevronDown className="ml-1 h-3.5 w-3.5 shrink-0" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuRadioGroup value={scope} onValueChange={setScope}>
+                  <DropdownMenuRadioItem value={ALL_RECIPES}>All recipes</DropdownMenuRadioItem>
+                  {recipeGroups.length > 0 && <DropdownMenuSeparator />}
+                  {recipeGroups.map((g) => (
+                    <DropdownMenuRadioItem key={g.id} value={g.id}>
+                      {g.name}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleExport}
+            disabled={exporting || scopedRecipes.length === 0}
+          >
+            {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Export {scopedRecipes.length} recipe{scopedRecipes.length !== 1 ? "s" : ""}
+          </Button>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={RECIPE_IMPORT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            handleImport(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+        >
+          {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          {importing ? "Importing..." : "Import recipes"}
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Imports Paprika (.paprikarecipes), Mealie and schema.org JSON-LD files.
+          Recipes already saved from the same URL are skipped.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
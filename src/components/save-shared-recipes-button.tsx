@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { BookmarkPlus, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/components/auth-provider";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { Button } from "@/components/ui/button";
+import type { Recipe } from "@/types";
+
+interface SaveSharedRecipesButtonProps {
+  recipes: Recipe[];
+  /** This page's path, to come back to after signing in. */
+  returnTo: string;
+}
+
+/**
+ * "Save to my CookSnap" on a share link: copies the shared recipes into the
+ * viewer's library, or sends them to sign in first.
+ */
+export function SaveSharedRecipesButton({ recipes, returnTo }: SaveSharedRecipesButtonProps) {
+  const router = useRouter();
+  const { user, loading } = useAuth();
+  const [saving, setSaving] = useState(false);
+
+  const label = recipes.length === 1 ? "Save to my CookSnap" : `Save ${recipes.length} recipes to my CookSnap`;
+
+  if (loading) {
+    return (
+      <Button className="w-full" disabled>
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        {label}
+      </Button>
+    );
+  }
+
+  if (!user) {
+    return (
+      <Button className="w-full" asChild>
+        <Link href={`/login?next=${encodeURIComponent(returnTo)}`}>
+          <BookmarkPlus className="mr-2 h-4 w-4" />
+          Sign in to save to CookSnap
+        </Link>
+      </Button>
+    );
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const store = useRecipeStore.getState();
+      // Load the library first so recipes the viewer already has are skipped
+      if (!store.hydrated) await store.hydrate();
+      const { imported, duplicates, failed } = await useRecipeStore.getState().importRecipes(recipes);
+
+      if (imported === 0 && failed === 0) {
+        toast.info(duplicates === 1 ? "Already in your recipes" : "These are already in your recipes");
+        return;
+      }
+      if (failed > 0) {
+        toast.error(`Couldn't save ${failed} recipe${failed === 1 ? "" : "s"}`);
+        if (imported === 0) return;
+      } else {
+        toast.success(imported === 1 ? "Saved to your recipes" : `Saved ${imported} recipes`);
+      }
+      router.push("/recipes");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Button className="w-full" onClick={handleSave} disabled={saving || recipes.length === 0}>
+      {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <BookmarkPlus className="mr-2 h-4 w-4" />}
+      {label}
+    </Button>
+  );
+}
@@ -38,6 +38,7 @@ export function SchedulePickerSheet({ recipe, open, onOpenChange }: SchedulePick
   const assignMeal = useRecipeStore((s) => s.assignMeal);
   const mealPlan = useRecipeStore((s) => s.mealPlan);
   const recipes = useRecipeStore((s) => s.recipes);
+  const householdRecipes = useRecipeStore((s) => s.householdRecipes);
   const fetchMealPlanForWeek = useRecipeStore((s) => s.fetchMealPlanForWeek);
 
   const [weekOffset, setWeekOffset] = useState(0);
@@ -144,7 +145,7 @@ export function SchedulePickerSheet({ recipe, open, onOpenChange }: SchedulePick
                     const isCurrentRecipe = entries.some((e) => e.recipeId === recipe.id);
                     const otherRecipes = entries
                       .filter((e) => e.recipeId !== recipe.id)
-                      .map((e) => recipes.find((r) => r.id === e.recipeId))
+                      .map((e) => recipes.find((r) => r.id === e.recipeId) ?? householdRecipes.find((r) => r.id === e.recipeId))
                       .filter(Boolean);
                     const firstOther = otherRecipes[0];
                     const hasOthers = otherRecipes.length > 0;
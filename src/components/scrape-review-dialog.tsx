@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { TriangleAlert, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { isSectionHeader, sectionTitle } from "@/lib/instructions";
+import { overallConfidence } from "@/lib/scrape-confidence";
+import { formatDuration } from "@/lib/utils";
+import type { ConfidenceLevel, Recipe, ScrapedRecipe } from "@/types";
+
+interface ScrapeReviewDialogProps {
+  /** The recipe as scraped; null closes the dialog. */
+  scraped: ScrapedRecipe | null;
+  /** A recipe already saved from the same page, if any. */
+  duplicate?: Recipe;
+  onOpenChange: (open: boolean) => void;
+  onSave: (recipe: ScrapedRecipe) => void;
+}
+
+const SUMMARY: Record<ConfidenceLevel, string> = {
+  high: "Found in the page's recipe data.",
+  medium: "Partly pieced together from the page — check the highlighted parts.",
+  low: "Pieced together from the page's text — check it before saving.",
+};
+
+/**
+ * Review a scraped recipe before it's saved: the parsed fields, with the
+ * ones the scraper is unsure of marked and doubtful ingredient lines
+ * highlighted, and a warning when the page is already in the library. The
+ * title can be fixed and stray lines removed here; the rest can be edited
+ * after saving.
+ */
+export function ScrapeReviewDialog({ scraped, duplicate, onOpenChange, onSave }: ScrapeReviewDialogProps) {
+  return (
+    <Dialog open={scraped !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review recipe</DialogTitle>
+          <DialogDescription>
+            {scraped?.confidence ? SUMMARY[overallConfidence(scraped.confidence)] : SUMMARY.high}
+          </DialogDescription>
+        </DialogHeader>
+        {scraped !== null && (
+          <ReviewForm scraped={scraped} duplicate={duplicate} onCancel={() => onOpenChange(false)} onSave={onSave} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReviewForm({
+  scraped,
+  duplicate,
+  onCancel,
+  onSave,
+}: {
+  scraped: ScrapedRecipe;
+  duplicate?: Recipe;
+  onCancel: () => void;
+  onSave: (recipe: ScrapedRecipe) => void;
+}) {
+  const [title, setTitle] = useState(scraped.title);
+  const [ingredients, setIngredients] = useState(() =>
+    scraped.ingredients.map((text, i) => ({
+      text,
+      suspicious: scraped.confidence?.suspiciousIngredients.includes(i) ?? false,
+    }))
+  );
+  const [instructions, setInstructions] = useState(scraped.instructions);
+  const confidence = scraped.confidence;
+  const doubtful = (level: ConfidenceLevel | undefined) => level !== undefined && level !== "high";
+
+  const times = [
+    scraped.prepTime && `Prep ${formatDuration(scraped.prepTime)}`,
+    scraped.cookTime && `Cook ${formatDuration(scraped.cookTime)}`,
+    scraped.totalTime && `Total ${formatDuration(scraped.totalTime)}`,
+  ].filter(Boolean);
+  const details = [
+    { label: "Servings", value: scraped.servings, level: confidence?.servings },
+    { label: "Time", value: times.join(" · "), level: confidence?.times },
+    { label: "Author", value: scraped.author, level: confidence?.author },
+  ];
+
+  const handleSave = () => {
+    onSave({
+      ...scraped,
+      title: title.trim() || scraped.title,
+      ingredients: ingredients.map((line) => line.text),
+      instructions,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {duplicate && (
+        <p className="flex items-start gap-2 rounded-md bg-amber-100 px-3 py-2 text-sm text-amber-900 dark:bg-amber-950 dark:text-amber-200">
+          <TriangleAlert className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+          <span>
+            You already saved this page as{" "}
+            <Link href={`/recipes/${duplicate.id}`} className="font-medium underline" onClick={onCancel}>
+              {duplicate.title}
+            </Link>
+            .
+          </span>
+        </p>
+      )}
+      <div className="flex gap-3">
+        {scraped.image && (
+          <div className="relative h-16 w-16 shrink-0 overflow-hidden rounded-md bg-muted">
+            <Image src={scraped.image} alt="" fill className="object-cover" sizes="64px" />
+          </div>
+        )}
+        <div className="flex-1 space-y-1.5">
+          <Label htmlFor="review-title" className="flex items-center gap-1">
+            Title
+            {doubtful(confidence?.title) && <DoubtMark />}
+          </Label>
+          <Input id="review-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+        {details.map(({ label, value, level }) => (
+          <div key={label} className="contents">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className={`flex items-center gap-1 ${doubtful(level) ? "text-amber-600 dark:text-amber-500" : ""}`}>
+              {value || "Not found"}
+              {value && doubtful(level) && <DoubtMark />}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      <section aria-labelledby="review-ingredients">
+        <h3 id="review-ingredients" className="mb-1.5 flex items-center gap-1 text-sm font-semibold">
+          Ingredients ({ingredients.filter((line) => !isSectionHeader(line.text)).length})
+          {doubtful(confidence?.ingredients) && <DoubtMark />}
+        </h3>
+        <ul className="space-y-0.5">
+          {ingredients.map((line, i) => (
+            <ReviewLine
+              key={i}
+              text={isSectionHeader(line.text) ? sectionTitle(line.text) : line.text}
+              header={isSectionHeader(line.text)}
+              suspicious={line.suspicious}
+              onRemove={() => setIngredients((prev) => prev.filter((_, j) => j !== i))}
+            />
+          ))}
+        </ul>
+      </section>
+
+      <section aria-labelledby="review-instructions">
+        <h3 id="review-instructions" className="mb-1.5 flex items-center gap-1 text-sm font-semibold">
+          Instructions ({instructions.length})
+          {doubtful(confidence?.instructions) && <DoubtMark />}
+        </h3>
+        <ul className="space-y-0.5">
+          {instructions.map((text, i) => (
+            <ReviewLine
+              key={i}
+              text={isSectionHeader(text) ? sectionTitle(text) : text}
+              header={isSectionHeader(text)}
+              onRemove={() => setInstructions((prev) => prev.filter((_, j) => j !== i))}
+            />
+          ))}
+        </ul>
+      </section>
+
+      <DialogFooter className="gap-2">
+        <Button variant="ghost" onClick={onCancel}>
+          Discard
+        </Button>
+        <Button onClick={handleSave} disabled={ingredients.length === 0 && instructions.length === 0}>
+          {duplicate ? "Save another copy" : "Save recipe"}
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+function DoubtMark() {
+  return (
+    <>
+      <TriangleAlert className="h-3.5 w-3.5 shrink-0 text-amber-600 dark:text-amber-500" aria-hidden="true" />
+      <span className="sr-only">(check this)</span>
+    </>
+  );
+}
+
+function ReviewLine({
+  text,
+  header = false,
+  suspicious = false,
+  onRemove,
+}: {
+  text: string;
+  header?: boolean;
+  suspicious?: boolean;
+  onRemove: () => void;
+}) {
+  return (
+    <li
+      className={`flex items-start gap-2 rounded px-1.5 py-0.5 text-sm ${
+        suspicious ? "bg-amber-100 text-amber-900 dark:bg-amber-950 dark:text-amber-200" : ""
+      } ${header ? "font-medium" : ""}`}
+    >
+      <span className="flex-1">
+        {text}
+        {suspicious && <span className="sr-only"> (doesn&apos;t look like an ingredient)</span>}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-5 w-5 shrink-0"
+        onClick={onRemove}
+        aria-label={`Remove "${text}"`}
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </li>
+  );
+}
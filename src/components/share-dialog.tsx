@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Copy, Link2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { createClient } from "@/lib/supabase/client";
+import { createShareLink, deleteShareLink, fetchShareToken } from "@/lib/supabase/service";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ShareTarget } from "@/types";
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: ShareTarget;
+  /** The recipe's title or the group's name. */
+  name: string;
+}
+
+/**
+ * Publish a recipe or group at a public link anyone can open without an
+ * account, copy the link, or stop sharing it.
+ */
+export function ShareDialog({ open, onOpenChange, target, name }: ShareDialogProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const { type, id } = target;
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    fetchShareToken(createClient(), { type, id })
+      .then(setToken)
+      .catch((err) => {
+        console.error("Failed to load share link:", err instanceof Error ? err.message : err);
+        toast.error("Failed to load share link");
+      })
+      .finally(() => setLoading(false));
+  }, [open, type, id]);
+
+  const url = token ? `${window.location.origin}/share/${token}` : "";
+
+  async function handleCreate() {
+    setBusy(true);
+    try {
+      setToken(await createShareLink(createClient(), target));
+    } catch (err) {
+      console.error("Failed to create share link:", err instanceof Error ? err.message : err);
+      toast.error("Failed to create share link");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleStop() {
+    setBusy(true);
+    try {
+      await deleteShareLink(createClient(), target);
+      setToken(null);
+      toast.success("Stopped sharing — the link no longer works");
+    } catch (err) {
+      console.error("Failed to stop sharing:", err instanceof Error ? err.message : err);
+      toast.error("Failed to stop sharing");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error("Couldn't copy — select the link instead");
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Share {type === "group" ? "group" : "recipe"}</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view &ldquo;{name}&rdquo; and save a copy, no account needed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : token ? (
+          <div className="flex gap-2">
+            <Input
+              value={url}
+              readOnly
+              aria-label="Share link"
+              onFocus={(e) => e.target.select()}
+            />
+            <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy link">
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          {token ? (
+            <Button variant="outline" onClick={handleStop} disabled={busy || loading}>
+              Stop sharing
+            </Button>
+          ) : (
+            <Button onClick={handleCreate} disabled={busy || loading}>
+              {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+              Create link
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+import Image from "next/image";
+import { Clock, ExternalLink, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { formatDuration } from "@/lib/utils";
+import { groupInstructions } from "@/lib/instructions";
+import type { Recipe } from "@/types";
+
+interface SharedRecipeProps {
+  recipe: Recipe;
+  /** Heading level for the title: h1 alone on the page, h2 within a shared group. */
+  as?: "h1" | "h2";
+  /** Load the image eagerly (the first recipe on the page). */
+  priority?: boolean;
+}
+
+/**
+ * Read-only recipe card for share links. Renders on the server without the
+ * store, so visitors without an account see the whole recipe on first load.
+ */
+export function SharedRecipe({ recipe, as: Title = "h1", priority = false }: SharedRecipeProps) {
+  const prepDisplay = formatDuration(recipe.prepTime);
+  const cookDisplay = formatDuration(recipe.cookTime);
+  const totalDisplay = formatDuration(recipe.totalTime);
+  const Section = Title === "h1" ? "h2" : "h3";
+  const times = [
+    prepDisplay && `Prep: ${prepDisplay}`,
+    cookDisplay && `Cook: ${cookDisplay}`,
+    totalDisplay && !prepDisplay && !cookDisplay && `Total: ${totalDisplay}`,
+  ].filter((t): t is string => !!t);
+
+  return (
+    <article id={recipe.id}>
+      {recipe.image && (
+        <div className="relative aspect-[16/10] w-full bg-muted">
+          <Image
+            src={recipe.image}
+            alt={recipe.title}
+            fill
+            className="object-cover"
+            sizes="(max-width: 640px) 100vw, 512px"
+            priority={priority}
+          />
+        </div>
+      )}
+
+      <div className="space-y-6 p-4">
+        <div>
+          <Title className="text-2xl font-bold leading-tight">{recipe.title}</Title>
+          {recipe.author && (
+            <p className="mt-0.5 text-sm text-muted-foreground">by {recipe.author}</p>
+          )}
+          {/^https?:\/\//i.test(recipe.sourceUrl) && (
+            <a
+              href={recipe.sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mt-1 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <ExternalLink className="h-3 w-3" aria-hidden="true" />
+              View original
+            </a>
+          )}
+        </div>
+
+        {(times.length > 0 || recipe.servings || recipe.cuisineType || recipe.difficulty) && (
+          <div className="flex flex-wrap gap-2">
+            {times.map((time) => (
+              <div key={time} className="inline-flex items-center gap-1.5 rounded-full bg-muted px-3 py-1 text-xs">
+                <Clock className="h-3 w-3" aria-hidden="true" />
+                <span>{time}</span>
+              </div>
+            ))}
+            {recipe.servings && (
+              <div className="inline-flex items-center gap-1.5 rounded-full bg-muted px-3 py-1 text-xs">
+                <Users className="h-3 w-3" aria-hidden="true" />
+                <span>{recipe.servings}</span>
+              </div>
+            )}
+            {recipe.cuisineType && (
+              <div className="rounded-full bg-muted px-3 py-1 text-xs">{recipe.cuisineType}</div>
+            )}
+            {recipe.difficulty && (
+              <div className="rounded-full bg-muted px-3 py-1 text-xs">{recipe.difficulty}</div>
+            )}
+          </div>
+        )}
+
+        {recipe.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {recipe.tags.map((tag) => (
+              <Badge key={tag} variant="secondary">{tag}</Badge>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <Section className="mb-3 text-lg font-semibold">Ingredients</Section>
+          <ul className="space-y-1">
+            {recipe.ingredients.map((raw, i) =>
+              raw.startsWith("## ") ? (
+                <li key={i} className="mb-1 mt-3 first:mt-0 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  {raw.slice(3).replace(/:$/, "")}
+                </li>
+              ) : (
+                <li key={i} className="text-sm leading-relaxed">{raw}</li>
+              )
+            )}
+          </ul>
+        </div>
+
+        <div>
+          <Section className="mb-3 text-lg font-semibold">Instructions</Section>
+          <div className="space-y-5">
+            {groupInstructions(recipe.instructions).map((section, sectionIndex) => (
+              <div key={sectionIndex}>
+                {section.title && (
+                  <p className="mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">{section.title}</p>
+                )}
+                <ol className="space-y-4">
+                  {section.steps.map((step) => (
+                    <li key={step.index} className="flex gap-3 text-sm leading-relaxed">
+                      <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary text-xs font-medium text-primary-foreground">
+                        {step.number}
+                      </span>
+                      <div className="pt-0.5">
+                        <p>{step.text}</p>
+                        {step.subSteps.length > 0 && (
+                          <ul className="mt-1.5 list-disc space-y-1 pl-4">
+                            {step.subSteps.map((subStep, j) => (
+                              <li key={j}>{subStep}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { normalizeAisleOrder } from "@/lib/ingredient-categorizer";
+import type { GroceryStore } from "@/types";
+
+/** Swap the item at `index` with its neighbour `index + delta`. */
+function moved<T>(items: T[], index: number, delta: -1 | 1): T[] {
+  const target = index + delta;
+  if (target < 0 || target >= items.length) return items;
+  const result = [...items];
+  [result[index], result[target]] = [result[target], result[index]];
+  return result;
+}
+
+/**
+ * Manage the stores the shopping list is split by: add, rename, reorder and
+ * delete stores, and set each store's aisle order so its section of the
+ * list reads in walking order.
+ */
+export function StoresDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const groceryStores = useRecipeStore((s) => s.groceryStores);
+  const createGroceryStore = useRecipeStore((s) => s.createGroceryStore);
+  const updateGroceryStore = useRecipeStore((s) => s.updateGroceryStore);
+  const deleteGroceryStore = useRecipeStore((s) => s.deleteGroceryStore);
+
+  const [newStore, setNewStore] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const stores = [...groceryStores].sort((a, b) => a.sortOrder - b.sortOrder);
+
+  const handleAdd = () => {
+    const name = newStore.trim();
+    if (!name) return;
+    createGroceryStore(name);
+    setNewStore("");
+  };
+
+  /** Move a store up or down, renumbering sort orders to match. */
+  const moveStore = (index: number, delta: -1 | 1) => {
+    moved(stores, index, delta).forEach((store, sortOrder) => {
+      if (store.sortOrder !== sortOrder) updateGroceryStore(store.id, { sortOrder });
+    });
+  };
+
+  const moveAisle = (store: GroceryStore, index: number, delta: -1 | 1) => {
+    updateGroceryStore(store.id, { aisleOrder: moved(normalizeAisleOrder(store.aisleOrder), index, delta) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stores</DialogTitle>
+          <DialogDescription>
+            Split your lists by where you shop. Put each store&apos;s aisles in the order you walk them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <label htmlFor="store-add-name" className="sr-only">Store name</label>
+          <Input
+            id="store-add-name"
+            placeholder="e.g. Costco"
+            maxLength={100}
+            value={newStore}
+            onChange={(e) => setNewStore(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          />
+          <Button size="icon" onClick={handleAdd} disabled={!newStore.trim()} aria-label="Add store">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-1">
+          {stores.map((store, i) => {
+            const expanded = expandedId === store.id;
+            const aisles = normalizeAisleOrder(store.aisleOrder);
+            return (
+              <div key={store.id} className="rounded-md border">
+                <div className="flex items-center gap-1 px-1 py-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setExpandedId(expanded ? null : store.id)}
+                    aria-label={`${expanded ? "Hide" : "Edit"} aisle order for ${store.name}`}
+                    aria-expanded={expanded}
+                  >
+                    {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+                  </Button>
+                  <label htmlFor={`store-name-${store.id}`} className="sr-only">Name of {store.name}</label>
+                  <Input
+                    id={`store-name-${store.id}`}
+                    className="h-7 flex-1 border-transparent px-1 text-sm shadow-none"
+                    maxLength={100}
+                    defaultValue={store.name}
+                    onBlur={(e) => {
+                      const name = e.target.value.trim();
+                      if (name && name !== store.name) updateGroceryStore(store.id, { name });
+                      else e.target.value = store.name;
+                    }}
+                    onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={i === 0}
+                    onClick={() => moveStore(i, -1)}
+                    aria-label={`Move ${store.name} up`}
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={i === stores.length - 1}
+                    onClick={() => moveStore(i, 1)}
+                    aria-label={`Move ${store.name} down`}
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground"
+                    onClick={() => deleteGroceryStore(store.id)}
+                    aria-label={`Delete ${store.name}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+
+                {expanded && (
+                  <div className="border-t px-2 py-1.5">
+                    <ol className="space-y-0.5">
+                      {aisles.map((category, ai) => (
+                        <li key={category} className="flex items-center gap-1 text-sm">
+                          <span className="w-5 text-right text-xs tabular-nums text-muted-foreground">{ai + 1}</span>
+                          <span className="flex-1 pl-1">{category}</span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            disabled={ai === 0}
+                            onClick={() => moveAisle(store, ai, -1)}
+                            aria-label={`Move ${category} earlier`}
+                          >
+                            <ArrowUp className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            disabled={ai === aisles.length - 1}
+                            onClick={() => moveAisle(store, ai, 1)}
+                            aria-label={`Move ${category} later`}
+                          >
+                            <ArrowDown className="h-3 w-3" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ol>
+                    {store.aisleOrder.length > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="mt-1 h-7 text-xs"
+                        onClick={() => updateGroceryStore(store.id, { aisleOrder: [] })}
+                      >
+                        <RotateCcw className="mr-1 h-3 w-3" />
+                        Default order
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {stores.length === 0 && (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              No stores yet. Everything is listed in the default aisle order.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
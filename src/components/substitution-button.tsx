@@ -0,0 +1,63 @@
+"use client";
+
+import { useMemo } from "react";
+import { ArrowRightLeft } from "lucide-react";
+import { Popover, PopoverTrigger, PopoverContent } from "@/components/ui/popover";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { findSubstitutions } from "@/lib/substitutions";
+import { parseIngredient, type ParsedIngredient } from "@/lib/ingredient-parser";
+import { scaleIngredientForSystem } from "@/lib/unit-converter";
+
+/** Keep taps inside the popover from toggling the ingredient row it sits in. */
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+interface SubstitutionButtonProps {
+  parsed: ParsedIngredient;
+  /** Recipe tags; dietary ones (Vegan, Gluten-Free…) filter the suggestions. */
+  tags: string[];
+  /** Serving scale the ingredient is shown at. */
+  scale?: number;
+}
+
+/**
+ * Tappable "out of this?" action on an ingredient row. Renders nothing when
+ * there are no known substitutes for the ingredient.
+ */
+export function SubstitutionButton({ parsed, tags, scale = 1 }: SubstitutionButtonProps) {
+  const unitSystem = useRecipeStore((s) => s.unitSystem);
+  const substitutions = useMemo(() => findSubstitutions(parsed, tags, scale), [parsed, tags, scale]);
+
+  if (substitutions.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          onClick={stop}
+          onKeyDown={stop}
+          className="ml-auto shrink-0 rounded-full p-1.5 text-muted-foreground/70 hover:bg-accent hover:text-foreground"
+          aria-label={`Substitutes for ${parsed.name}`}
+        >
+          <ArrowRightLeft className="h-3.5 w-3.5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-3" onClick={stop} onKeyDown={stop}>
+        <p className="mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          Instead of {parsed.name}
+        </p>
+        <ul className="space-y-2.5">
+          {substitutions.map((sub, i) => (
+            <li key={i} className="text-sm">
+              <p className="font-medium">
+                {sub.lines.map((line) => scaleIngredientForSystem(parseIngredient(line), 1, unitSystem)).join(" + ")}
+                {sub.per && <span className="font-normal text-muted-foreground"> {sub.per}</span>}
+              </p>
+              {sub.note && <p className="text-xs text-muted-foreground">{sub.note}</p>}
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
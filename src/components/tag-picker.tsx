@@ -11,12 +11,15 @@ interface TagPickerProps {
   selected: string[];
   onChange: (tags: string[]) => void;
   showSuggestions?: boolean;
+  /** Tags suggested by the recipe's source page, listed before the defaults */
+  suggested?: string[];
 }
 
 export function TagPicker({
   selected,
   onChange,
   showSuggestions = true,
+  suggested = [],
 }: TagPickerProps) {
   const [custom, setCustom] = useState("");
 
@@ -37,7 +40,7 @@ export function TagPicker({
   };
 
   const suggestions = showSuggestions
-    ? DEFAULT_TAGS.filter((t) => !selected.includes(t))
+    ? [...new Set([...suggested, ...DEFAULT_TAGS])].filter((t) => !selected.includes(t))
     : [];
 
   return (
@@ -65,9 +68,10 @@ export function TagPicker({
           {suggestions.map((tag) => (
             <Badge
               key={tag}
-              variant="outline"
+              variant={suggested.includes(tag) ? "secondary" : "outline"}
               className="cursor-pointer"
               onClick={() => toggle(tag)}
+              title={suggested.includes(tag) ? "Suggested by the recipe's source" : undefined}
             >
               <Plus className="mr-0.5 h-3 w-3" />
               {tag}
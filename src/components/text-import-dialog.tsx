@@ -0,0 +1,131 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { ClipboardPaste, FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { toast } from "sonner";
+import type { ScrapedRecipe } from "@/types";
+
+/** Plain-text uploads larger than this are almost certainly not a recipe. */
+const MAX_FILE_BYTES = 200 * 1024;
+
+/**
+ * "Paste recipe text" mode next to the URL input — for family recipes,
+ * cookbook transcriptions and emailed recipes that aren't on any website.
+ * Text can be pasted or loaded from a .txt/.md file; parsing happens
+ * server-side via POST /api/import/text.
+ */
+export function TextImportDialog() {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [loading, setLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const addRecipe = useRecipeStore((s) => s.addRecipe);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_FILE_BYTES) {
+      toast.error("That file is too large to be a recipe.");
+      return;
+    }
+    setText(await file.text());
+  };
+
+  const handleImport = async () => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/import/text", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: trimmed }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        toast.error(data.error || "Failed to import recipe");
+        return;
+      }
+
+      const scraped = data as ScrapedRecipe;
+      // No source page — the detail view hides "View original" for empty URLs
+      const duplicate = addRecipe(scraped, "");
+      if (duplicate) {
+        toast.info(`Already saved as "${duplicate.title}"`);
+        return;
+      }
+      setText("");
+      setOpen(false);
+      toast.success(`"${scraped.title}" saved!`);
+    } catch {
+      toast.error("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Paste recipe text">
+          <ClipboardPaste className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Paste recipe text</DialogTitle>
+          <DialogDescription>
+            Paste a recipe from an email, notes app or cookbook. Headings like
+            &ldquo;Ingredients&rdquo; and &ldquo;Instructions&rdquo; help, but aren&apos;t required.
+          </DialogDescription>
+        </DialogHeader>
+        <label htmlFor="recipe-text" className="sr-only">Recipe text</label>
+        <textarea
+          id="recipe-text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={"Grandma's Lemon Bars\nServes 12\n\nIngredients\n2 cups flour\n...\n\nInstructions\n1. Preheat the oven..."}
+          className="flex min-h-[240px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          disabled={loading}
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,.md,text/plain,text/markdown"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={loading}
+          >
+            <FileText className="mr-2 h-4 w-4" />
+            Open text file
+          </Button>
+          <Button onClick={handleImport} disabled={loading || !text.trim()}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {loading ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { UNIT_SYSTEM_LABELS, type UnitSystem } from "@/lib/unit-converter";
+
+/** Tab value for "show quantities as written" (no conversion). */
+const ORIGINAL = "original";
+
+/**
+ * Compact segmented control for the ingredient unit preference
+ * (as written / US / metric). Reads and writes the store so the choice is
+ * shared between the recipe detail and cooking views.
+ */
+export function UnitToggle() {
+  const unitSystem = useRecipeStore((s) => s.unitSystem);
+  const setUnitSystem = useRecipeStore((s) => s.setUnitSystem);
+
+  return (
+    <Tabs
+      value={unitSystem ?? ORIGINAL}
+      onValueChange={(v) => setUnitSystem(v === ORIGINAL ? null : (v as UnitSystem))}
+    >
+      <TabsList className="h-7" aria-label="Units">
+        <TabsTrigger value={ORIGINAL} className="text-xs px-2 h-6">
+          Original
+        </TabsTrigger>
+        {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map((system) => (
+          <TabsTrigger key={system} value={system} className="text-xs px-2 h-6">
+            {UNIT_SYSTEM_LABELS[system]}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+    </Tabs>
+  );
+}
@@ -4,14 +4,21 @@ import { useState } from "react";
 import { Loader2, LinkIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { ScrapeReviewDialog } from "@/components/scrape-review-dialog";
+import { TextImportDialog } from "@/components/text-import-dialog";
 import { useRecipeStore } from "@/stores/recipe-store";
+import { findRecipeBySourceUrl } from "@/lib/canonical-url";
 import { toast } from "sonner";
 import type { ScrapedRecipe } from "@/types";
 
 export function UrlInput() {
   const [url, setUrl] = useState("");
   const [loading, setLoading] = useState(false);
+  /** A scraped recipe waiting for review, with the URL it came from. */
+  const [pending, setPending] = useState<{ scraped: ScrapedRecipe; url: string } | null>(null);
   const addRecipe = useRecipeStore((s) => s.addRecipe);
+  const recipes = useRecipeStore((s) => s.recipes);
+  const duplicate = pending ? findRecipeBySourceUrl(recipes, pending.url, pending.scraped.canonicalUrl) : undefined;
 
   const handleScrape = async () => {
     const trimmed = url.trim();
@@ -38,10 +45,7 @@ export function UrlInput() {
         return;
       }
 
-      const scraped = data as ScrapedRecipe;
-      addRecipe(scraped, fullUrl);
-      setUrl("");
-      toast.success(`"${scraped.title}" saved!`);
+      setPending({ scraped: data as ScrapedRecipe, url: fullUrl });
     } catch {
       toast.error("Network error. Please try again.");
     } finally {
@@ -49,6 +53,16 @@ export function UrlInput() {
     }
   };
 
+  const handleSave = (scraped: ScrapedRecipe) => {
+    if (!pending) return;
+    // Another copy only once the review dialog has warned about the first;
+    // otherwise a match keeps the dialog open, now showing the warning
+    if (addRecipe(scraped, pending.url, { allowDuplicate: !!duplicate })) return;
+    setPending(null);
+    setUrl("");
+    toast.success(`"${scraped.title}" saved!`);
+  };
+
   return (
     <div className="flex gap-2" aria-busy={loading}>
       <div className="relative flex-1">
@@ -72,6 +86,13 @@ export function UrlInput() {
           "Snap"
         )}
       </Button>
+      <TextImportDialog />
+      <ScrapeReviewDialog
+        scraped={pending?.scraped ?? null}
+        duplicate={duplicate}
+        onOpenChange={(open) => !open && setPending(null)}
+        onSave={handleSave}
+      />
     </div>
   );
 }
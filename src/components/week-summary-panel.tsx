@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import { Target } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useRecipeStore } from "@/stores/recipe-store";
+import { cn } from "@/lib/utils";
+import { DAY_LABELS } from "@/lib/constants";
+import { formatCost } from "@/lib/cost";
+import { formatNutrient } from "@/lib/nutrition";
+import type { WeekSummary } from "@/lib/meal-plan-summary";
+
+/** A day this far past the calorie target gets flagged. */
+const OVER_TARGET_RATIO = 1.15;
+
+/** Parse a goal input: blank or non-positive clears the target. */
+function parseGoal(value: string): number | null {
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Week-at-a-glance table for the meal plan page: calories, macros and
+ * estimated grocery cost per day and for the week, checked against the
+ * user's daily calorie target and weekly budget.
+ */
+export function WeekSummaryPanel({ summary }: { summary: WeekSummary }) {
+  const planGoals = useRecipeStore((s) => s.planGoals);
+  const setPlanGoals = useRecipeStore((s) => s.setPlanGoals);
+
+  const [goalsOpen, setGoalsOpen] = useState(false);
+  const [caloriesInput, setCaloriesInput] = useState("");
+  const [budgetInput, setBudgetInput] = useState("");
+
+  const { dailyCalories, weeklyBudget } = planGoals;
+  const overBudget = weeklyBudget !== null && summary.cost > weeklyBudget;
+
+  const openGoals = () => {
+    setCaloriesInput(dailyCalories?.toString() ?? "");
+    setBudgetInput(weeklyBudget?.toString() ?? "");
+    setGoalsOpen(true);
+  };
+
+  const saveGoals = () => {
+    setPlanGoals({ dailyCalories: parseGoal(caloriesInput), weeklyBudget: parseGoal(budgetInput) });
+    setGoalsOpen(false);
+  };
+
+  if (summary.eaten === 0) return null;
+
+  return (
+    <Card className="px-3 py-2 gap-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">This week</h2>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={openGoals}>
+          <Target className="mr-1 h-3.5 w-3.5" />
+          Goals
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs tabular-nums">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="py-1 text-left font-medium">Day</th>
+              <th className="py-1 text-right font-medium">Calories</th>
+              <th className="py-1 text-right font-medium">Protein</th>
+              <th className="py-1 text-right font-medium">Carbs</th>
+              <th className="py-1 text-right font-medium">Fat</th>
+              <th className="py-1 text-right font-medium">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.days.map((day, dayIdx) => {
+              const total = day.nutrition?.total;
+              const overTarget =
+                dailyCalories !== null && total !== undefined && total.calories > dailyCalories * OVER_TARGET_RATIO;
+              return (
+                <tr key={day.date} className="border-t">
+                  <td className="py-1 font-medium">{DAY_LABELS[dayIdx]}</td>
+                  <td className={cn("py-1 text-right", overTarget && "font-semibold text-destructive")}>
+                    {total ? formatNutrient("calories", total.calories) : "—"}
+                    {day.nutrition && !day.nutrition.complete && "*"}
+                  </td>
+                  <td className="py-1 text-right">{total ? formatNutrient("protein", total.protein) : "—"}</td>
+                  <td className="py-1 text-right">{total ? formatNutrient("carbs", total.carbs) : "—"}</td>
+                  <td className="py-1 text-right">{total ? formatNutrient("fat", total.fat) : "—"}</td>
+                  <td className="py-1 text-right">
+                    {day.cooked > 0 ? formatCost(day.cost) : "—"}
+                    {day.cooked > 0 && !day.costComplete && "*"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr className="border-t font-semibold">
+              <td className="py-1">Week</td>
+              <td className="py-1 text-right">{formatNutrient("calories", summary.nutrition.calories)}</td>
+              <td className="py-1 text-right">{formatNutrient("protein", summary.nutrition.protein)}</td>
+              <td className="py-1 text-right">{formatNutrient("carbs", summary.nutrition.carbs)}</td>
+              <td className="py-1 text-right">{formatNutrient("fat", summary.nutrition.fat)}</td>
+              <td className={cn("py-1 text-right", overBudget && "text-destructive")}>
+                {formatCost(summary.cost)}
+                {!summary.costComplete && "*"}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div className="space-y-0.5 text-[11px] text-muted-foreground">
+        {summary.averageCalories !== null && (
+          <p>
+            Averaging {formatNutrient("calories", summary.averageCalories)} a day
+            {dailyCalories !== null && ` against a ${formatNutrient("calories", dailyCalories)} target`}.
+          </p>
+        )}
+        {weeklyBudget !== null && (
+          <p className={cn(overBudget && "text-destructive")}>
+            {overBudget
+              ? `${formatCost(summary.cost - weeklyBudget)} over the ${formatCost(weeklyBudget)} budget.`
+              : `${formatCost(weeklyBudget - summary.cost)} left of the ${formatCost(weeklyBudget)} budget.`}
+          </p>
+        )}
+        <p>
+          One serving per planned meal; leftovers count as eaten but not cooked. * Partial estimate —
+          some ingredients couldn&apos;t be matched.
+        </p>
+      </div>
+
+      <Dialog open={goalsOpen} onOpenChange={setGoalsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Meal Plan Goals</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="goal-calories">Daily calories</Label>
+              <Input
+                id="goal-calories"
+                type="number"
+                inputMode="numeric"
+                min={0}
+                placeholder="e.g. 2000"
+                value={caloriesInput}
+                onChange={(e) => setCaloriesInput(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="goal-budget">Weekly grocery budget ($)</Label>
+              <Input
+                id="goal-budget"
+                type="number"
+                inputMode="decimal"
+                min={0}
+                placeholder="e.g. 150"
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setGoalsOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={saveGoals}>Save</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { canonicalizeUrl, findRecipeBySourceUrl, isSameSite } from "./canonical-url";
+
+describe("canonicalizeUrl", () => {
+  it.each([
+    ["https://www.site.com/chili/", "https://site.com/chili"],
+    ["http://Site.com/chili#comments", "https://site.com/chili"],
+    ["https://site.com/chili?utm_source=pinterest&utm_medium=social&fbclid=abc", "https://site.com/chili"],
+    ["https://site.com/recipe?b=2&a=1&gclid=x", "https://site.com/recipe?a=1&b=2"],
+    ["https://site.com/chili/amp/", "https://site.com/chili"],
+    ["https://site.com/amp/chili", "https://site.com/chili"],
+    ["https://site.com/chili.amp.html", "https://site.com/chili.html"],
+    ["https://amp.site.com/chili?amp=1", "https://site.com/chili"],
+    ["https://site.com/chili?outputType=amp", "https://site.com/chili"],
+    ["https://www-site-com.cdn.ampproject.org/c/s/www.site.com/chili/amp/", "https://site.com/chili"],
+  ])("%s → %s", (url, expected) => {
+    expect(canonicalizeUrl(url)).toBe(expected);
+  });
+
+  it("keeps parameters that pick the recipe", () => {
+    expect(canonicalizeUrl("https://site.com/recipe.php?id=42")).toBe("https://site.com/recipe.php?id=42");
+  });
+
+  it("returns anything that isn't a web URL as it is", () => {
+    expect(canonicalizeUrl(" not a url ")).toBe("not a url");
+    expect(canonicalizeUrl("")).toBe("");
+  });
+});
+
+describe("isSameSite", () => {
+  it("accepts canonical links on the page's own site", () => {
+    expect(isSameSite("https://site.com/chili?utm_source=x", "https://www.site.com/recipes/chili")).toBe(true);
+  });
+
+  it("rejects canonical links to another site", () => {
+    expect(isSameSite("https://copycat.example/chili", "https://site.com/chili")).toBe(false);
+    expect(isSameSite("https://site.com/chili", "not a url")).toBe(false);
+  });
+});
+
+describe("findRecipeBySourceUrl", () => {
+  const recipes = [
+    { id: "1", sourceUrl: "" },
+    { id: "2", sourceUrl: "https://www.site.com/chili/?utm_source=newsletter" },
+  ];
+
+  it("finds a recipe saved from another link to the same page", () => {
+    expect(findRecipeBySourceUrl(recipes, "https://site.com/chili/amp")?.id).toBe("2");
+    expect(findRecipeBySourceUrl(recipes, "https://other.com/x", "https://site.com/chili")?.id).toBe("2");
+  });
+
+  it("ignores recipes without a source URL", () => {
+    expect(findRecipeBySourceUrl(recipes, "", null, undefined)).toBeUndefined();
+    expect(findRecipeBySourceUrl(recipes, "https://site.com/stew")).toBeUndefined();
+  });
+});
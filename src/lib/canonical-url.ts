@@ -0,0 +1,89 @@
+// ---------------------------------------------------------------------------
+// Canonical URLs — one key per recipe page, however its link was shared
+//
+// The same recipe turns up as "https://www.site.com/chili/", "http://site.com/
+// chili?utm_source=pinterest", its AMP page and Google's AMP cache copy.
+// canonicalizeUrl maps all of those to "https://site.com/chili", for the
+// scrape cache and for spotting recipes saved twice. The result is a key for
+// comparing, not an address to fetch.
+// ---------------------------------------------------------------------------
+
+/** Query parameters that only say where a click came from. */
+const TRACKING_PARAM_RE =
+  /^(?:utm_\w+|fbclid|gclid|dclid|msclkid|yclid|igshid|mc_cid|mc_eid|_ga|_gl|ref|ref_src)$/i;
+
+/** Query parameters that ask for the AMP variant: "?amp", "?amp=1", "?outputType=amp". */
+function isAmpParam(key: string, value: string): boolean {
+  return key.toLowerCase() === "amp" || (key.toLowerCase() === "outputtype" && value.toLowerCase() === "amp");
+}
+
+/**
+ * Google's AMP cache serves "https://www-site-com.cdn.ampproject.org/c/s/
+ * www.site.com/chili" — the original page is in the path.
+ */
+function unwrapAmpCache(url: URL): URL {
+  if (!url.hostname.endsWith(".cdn.ampproject.org")) return url;
+  const match = url.pathname.match(/^\/[a-z]\/(s\/)?(.+)$/);
+  if (!match) return url;
+  try {
+    return new URL(`${match[1] ? "https" : "http"}://${match[2]}${url.search}`);
+  } catch {
+    return url;
+  }
+}
+
+/** Strip "/amp" and ".amp" from a path: "/amp/chili/", "/chili/amp", "/chili.amp.html". */
+function stripAmpPath(path: string): string {
+  return path
+    .replace(/^\/amp(?=\/|$)/i, "")
+    .replace(/\/amp\/?$/i, "")
+    .replace(/\.amp(?=\.html?$)/i, "");
+}
+
+/**
+ * The canonical form of a recipe page's URL: https, lowercase host without
+ * "www." or "amp.", no AMP variant, no tracking parameters or fragment, the
+ * remaining parameters sorted and no trailing slash. Strings that aren't
+ * http(s) URLs are returned trimmed, as they are.
+ */
+export function canonicalizeUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = unwrapAmpCache(new URL(raw.trim()));
+  } catch {
+    return raw.trim();
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return raw.trim();
+
+  const host = url.hostname.toLowerCase().replace(/^(?:www|amp)\./, "");
+  const path = stripAmpPath(url.pathname).replace(/\/+$/, "");
+  const params = [...url.searchParams]
+    .filter(([key, value]) => !TRACKING_PARAM_RE.test(key) && !isAmpParam(key, value))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+
+  return `https://${host}${path}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Whether a page's `<link rel="canonical">` can be believed: it must stay on
+ * the page's own site. A page naming another site's URL as its canonical
+ * would otherwise get its content matched as that site's recipe.
+ */
+export function isSameSite(pageUrl: string, canonicalUrl: string): boolean {
+  const host = (url: string) => new URL(canonicalizeUrl(url)).hostname;
+  try {
+    return host(pageUrl) === host(canonicalUrl);
+  } catch {
+    return false;
+  }
+}
+
+/** The saved recipe from the same page as any of `urls`, if there is one. */
+export function findRecipeBySourceUrl<T extends { sourceUrl: string }>(
+  recipes: T[],
+  ...urls: (string | null | undefined)[]
+): T | undefined {
+  const keys = new Set(urls.filter((url): url is string => !!url).map(canonicalizeUrl));
+  return recipes.find((recipe) => !!recipe.sourceUrl && keys.has(canonicalizeUrl(recipe.sourceUrl)));
+}
@@ -0,0 +1,115 @@
+// ---------------------------------------------------------------------------
+// Tests for cost — recipe grocery cost estimates
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import type { IngredientPrice } from "@/types";
+import {
+  estimateCost,
+  estimateItemCost,
+  estimateListCost,
+  findIngredientPrice,
+  findRecordedPrice,
+  formatCost,
+  INGREDIENT_PRICES,
+  priceFromItem,
+} from "./cost";
+
+describe("findIngredientPrice", () => {
+  it("matches plurals and descriptive prefixes", () => {
+    expect(findIngredientPrice("large eggs")).toBe(INGREDIENT_PRICES.egg);
+    expect(findIngredientPrice("extra virgin olive oil")).toBe(INGREDIENT_PRICES["olive oil"]);
+  });
+
+  it("returns null for unknown ingredients", () => {
+    expect(findIngredientPrice("saffron threads")).toBeNull();
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices weighed ingredients per kilogram", () => {
+    const estimate = estimateCost(["1 lb ground beef", "2 eggs", "1 (15 oz) can black beans"], "4");
+
+    const expected = 0.4536 * 12 + 0.1 * 6 + 0.4252 * 3.3;
+    expect(estimate.counted).toBe(3);
+    expect(estimate.total).toBeCloseTo(expected, 2);
+    expect(estimate.perServing).toBeCloseTo(expected / 4, 2);
+  });
+
+  it("reports lines it can't price and skips section headers", () => {
+    const estimate = estimateCost(["## Sauce", "1 pinch saffron threads", "salt to taste", "2 cups water"]);
+
+    expect(estimate.ingredientCount).toBe(3);
+    expect(estimate.counted).toBe(1);
+    expect(estimate.missing).toEqual(["1 pinch saffron threads", "salt to taste"]);
+    expect(estimate.perServing).toBeNull();
+  });
+});
+
+describe("formatCost", () => {
+  it("formats dollars with cents", () => {
+    expect(formatCost(12.4)).toBe("$12.40");
+    expect(formatCost(1234.567)).toBe("$1,234.57");
+  });
+});
+
+describe("shopping list costs", () => {
+  const price = (overrides: Partial<IngredientPrice>): IngredientPrice => ({
+    id: "p", name: "chicken thigh", store: null, price: 6, quantity: 1, unit: "lb",
+    updatedAt: "2026-10-01T00:00:00Z", ...overrides,
+  });
+
+  const prices = [
+    price({ id: "p1" }),
+    price({ id: "p2", store: "Costco", price: 4.5, updatedAt: "2026-09-01T00:00:00Z" }),
+    price({ id: "p3", name: "diced tomato", price: 1.2, quantity: 1, unit: "can" }),
+    price({ id: "p4", name: "lemon", price: 2, quantity: 3, unit: null }),
+  ];
+
+  it("prefers the requested store, then the most recent price", () => {
+    expect(findRecordedPrice("boneless chicken thighs", prices, "Costco")?.id).toBe("p2");
+    expect(findRecordedPrice("chicken thighs", prices)?.id).toBe("p1");
+    expect(findRecordedPrice("tofu", prices)).toBeNull();
+  });
+
+  it("converts the item's unit to the recorded price's unit", () => {
+    expect(estimateItemCost("32 oz chicken thighs", prices)).toEqual({ cost: 12, source: "recorded" });
+    expect(estimateItemCost("6 lemons", prices)?.cost).toBeCloseTo(4, 5);
+    expect(estimateItemCost("2 cans diced tomatoes", prices)?.cost).toBeCloseTo(2.4, 5);
+  });
+
+  it("charges a quantity-less line what was paid last time", () => {
+    expect(estimateItemCost("chicken thighs", prices)).toEqual({ cost: 6, source: "recorded" });
+  });
+
+  it("falls back to typical prices", () => {
+    // A can doesn't convert to cups, so the recorded per-can price can't be used
+    expect(estimateItemCost("2 cups diced tomatoes", prices)?.source).toBe("typical");
+    expect(estimateItemCost("1 kg rice", [])).toEqual({ cost: INGREDIENT_PRICES.rice, source: "typical" });
+    expect(estimateItemCost("dragon fruit", [])).toBeNull();
+  });
+
+  it("totals a list and counts unpriced items", () => {
+    const { items, total, unpriced } = estimateListCost(
+      [
+        { id: "a", text: "2 lb chicken thighs" },
+        { id: "b", text: "3 lemons" },
+        { id: "c", text: "dragon fruit" },
+      ],
+      prices,
+    );
+
+    expect(total).toBeCloseTo(14, 5);
+    expect(unpriced).toBe(1);
+    expect(items.get("c")).toBeNull();
+  });
+
+  it("builds a price record from a checked-off line", () => {
+    expect(priceFromItem("2 lbs chicken thighs", 7.98, " ")).toEqual({
+      name: "chicken thigh", store: null, price: 7.98, quantity: 2, unit: "lb",
+    });
+    expect(priceFromItem("Bananas", 1.2, "Aldi")).toEqual({
+      name: "banana", store: "Aldi", price: 1.2, quantity: 1, unit: null,
+    });
+  });
+});
@@ -0,0 +1,355 @@
+// ---------------------------------------------------------------------------
+// Cost — grocery cost estimates for recipes and shopping lists
+//
+// Ingredient lines are weighed the same way as for nutrition (see
+// weighIngredient) and priced from a bundled table of typical US supermarket
+// prices. Shopping list items prefer the prices the user has recorded,
+// converting between the item's unit and the price's unit.
+// ---------------------------------------------------------------------------
+
+import {
+  canConvertUnits,
+  convertQuantity,
+  convertToGrams,
+  lookupIngredient,
+  normalizeIngredientName,
+  normalizeUnit,
+} from "./ingredient-aggregator";
+import { parseIngredient, parseServings } from "./ingredient-parser";
+import { weighIngredient } from "./nutrition";
+import type { IngredientPrice } from "@/types";
+
+export interface CostEstimate {
+  /** Cost of the whole recipe, in dollars. */
+  total: number;
+  /** Null when the recipe has no parseable serving count. */
+  perServing: number | null;
+  servings: number | null;
+  /** Ingredient lines that contributed to the estimate. */
+  counted: number;
+  /** Ingredient lines considered (section headers excluded). */
+  ingredientCount: number;
+  /** Lines that couldn't be priced, as written. */
+  missing: string[];
+}
+
+/**
+ * Typical US retail prices in dollars per kilogram, keyed by normalized
+ * ingredient name. Rounded from BLS average price data and common
+ * supermarket shelf prices; pantry staples bought in bulk (salt, spices,
+ * oil) are priced per kilogram of the usual package size.
+ */
+export const INGREDIENT_PRICES: Record<string, number> = {
+  // Flours, grains & bread
+  flour: 1.2,
+  "bread flour": 1.8,
+  "whole wheat flour": 2,
+  "almond flour": 17,
+  cornstarch: 4.5,
+  cornmeal: 3,
+  oat: 3.5,
+  rice: 2.4,
+  "brown rice": 3.3,
+  quinoa: 11,
+  pasta: 3.3,
+  spaghetti: 3.3,
+  penne: 3.3,
+  macaroni: 3.3,
+  noodle: 5,
+  bread: 6,
+  tortilla: 6.5,
+  breadcrumb: 6.5,
+  panko: 11,
+  // Sugars & sweeteners
+  sugar: 2.1,
+  "brown sugar": 3,
+  "powdered sugar": 3.5,
+  honey: 15,
+  "maple syrup": 28,
+  molasses: 11,
+  "cocoa powder": 22,
+  "chocolate chip": 14,
+  chocolate: 18,
+  "vanilla extract": 250,
+  // Fats & oils
+  butter: 10,
+  oil: 4,
+  "olive oil": 12,
+  "peanut butter": 7,
+  "coconut milk": 5,
+  mayonnaise: 8,
+  // Dairy & eggs
+  milk: 1.1,
+  buttermilk: 2.2,
+  "heavy cream": 7,
+  cream: 7,
+  "sour cream": 5.5,
+  yogurt: 4.5,
+  "greek yogurt": 7,
+  cheese: 13,
+  cheddar: 13,
+  parmesan: 30,
+  mozzarella: 11,
+  feta: 18,
+  "cream cheese": 10,
+  egg: 6,
+  // Meat & seafood
+  chicken: 5,
+  "chicken breast": 9,
+  "chicken thigh": 6.5,
+  beef: 15,
+  "ground beef": 12,
+  pork: 9.5,
+  bacon: 16,
+  sausage: 11,
+  ham: 11,
+  "ground turkey": 11,
+  salmon: 24,
+  shrimp: 22,
+  tuna: 13,
+  tofu: 6,
+  // Beans & lentils
+  bean: 3.3,
+  "black bean": 3.3,
+  chickpea: 3.3,
+  lentil: 4,
+  // Vegetables & herbs
+  onion: 2.9,
+  "red onion": 3.5,
+  "green onion": 9,
+  scallion: 9,
+  shallot: 11,
+  garlic: 11,
+  ginger: 9,
+  carrot: 2.2,
+  celery: 3.5,
+  potato: 2.2,
+  "sweet potato": 3.3,
+  tomato: 4.4,
+  "cherry tomato": 9,
+  "diced tomato": 2.9,
+  "crushed tomato": 2.9,
+  "tomato sauce": 2.9,
+  "tomato paste": 7,
+  "bell pepper": 7,
+  jalapeno: 5.5,
+  "jalapeno pepper": 5.5,
+  spinach: 13,
+  kale: 9,
+  lettuce: 4.4,
+  broccoli: 4.8,
+  cauliflower: 4.4,
+  cabbage: 2.2,
+  mushroom: 9,
+  zucchini: 4.4,
+  cucumber: 3.3,
+  corn: 3.5,
+  pea: 4.4,
+  "green bean": 5.5,
+  avocado: 9,
+  basil: 45,
+  cilantro: 20,
+  parsley: 18,
+  // Fruit
+  apple: 4.4,
+  banana: 1.4,
+  blueberry: 13,
+  strawberry: 7,
+  orange: 3.3,
+  lemon: 5.5,
+  "lemon juice": 6,
+  lime: 5.5,
+  "lime juice": 6,
+  raisin: 9,
+  // Nuts & seeds
+  almond: 17,
+  walnut: 18,
+  pecan: 24,
+  peanut: 8,
+  "pine nut": 70,
+  "sesame seed": 13,
+  tahini: 15,
+  // Liquids, sauces & condiments
+  water: 0,
+  broth: 3,
+  stock: 3,
+  wine: 12,
+  "soy sauce": 7,
+  "fish sauce": 10,
+  vinegar: 2.5,
+  "balsamic vinegar": 12,
+  ketchup: 4.5,
+  mustard: 7,
+  "dijon mustard": 11,
+  // Leaveners, salt & spices
+  salt: 1.5,
+  "baking soda": 3,
+  "baking powder": 11,
+  yeast: 25,
+  pepper: 45,
+  "black pepper": 45,
+  cinnamon: 35,
+  cumin: 40,
+  paprika: 40,
+  "chili powder": 35,
+  oregano: 60,
+};
+
+/** Find the price per kilogram for an ingredient name, or null if unknown. */
+export function findIngredientPrice(name: string): number | null {
+  return lookupIngredient(INGREDIENT_PRICES, name.split(/\s+or\s+/)[0]);
+}
+
+/**
+ * Estimate the grocery cost of a recipe's ingredient list. `servings` is
+ * the raw servings string; per-serving cost is null when it has no number.
+ */
+export function estimateCost(ingredients: string[], servings?: string | null): CostEstimate {
+  const missing: string[] = [];
+  let total = 0;
+  let counted = 0;
+  let ingredientCount = 0;
+
+  for (const raw of ingredients) {
+    if (raw.trim().startsWith("## ") || !raw.trim()) continue;
+    ingredientCount++;
+
+    const { name, grams } = weighIngredient(raw);
+    const price = findIngredientPrice(name);
+    if (price === null || grams === null) {
+      missing.push(raw.trim());
+      continue;
+    }
+
+    total += (grams / 1000) * price;
+    counted++;
+  }
+
+  const servingCount = parseServings(servings);
+  return {
+    total,
+    perServing: servingCount ? total / servingCount : null,
+    servings: servingCount,
+    counted,
+    ingredientCount,
+    missing,
+  };
+}
+
+/** Format dollars for display, e.g. "$12.40". */
+export function formatCost(value: number): string {
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+// ---------------------------------------------------------------------------
+// Shopping list items — the user's recorded prices first, typical prices
+// as a fallback
+// ---------------------------------------------------------------------------
+
+export interface ItemCost {
+  cost: number;
+  /** "recorded" = from a price the user entered, "typical" = bundled table. */
+  source: "recorded" | "typical";
+}
+
+export interface ListCost {
+  /** Keyed by item id; null when the item couldn't be priced. */
+  items: Map<string, ItemCost | null>;
+  total: number;
+  unpriced: number;
+}
+
+/**
+ * Find the user's price for an ingredient name: the price from `store` if
+ * there is one, otherwise the most recently updated price at any store.
+ */
+export function findRecordedPrice(
+  name: string,
+  prices: IngredientPrice[],
+  store: string | null = null,
+): IngredientPrice | null {
+  const byName: Record<string, IngredientPrice[]> = {};
+  for (const price of prices) (byName[price.name] ??= []).push(price);
+
+  const candidates = lookupIngredient(byName, name);
+  if (!candidates) return null;
+  return (
+    candidates.find((p) => store !== null && p.store === store) ??
+    [...candidates].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]
+  );
+}
+
+/** How many of the price's `quantity unit` an amount is, or null if the units don't convert. */
+function priceUnits(qty: number, unit: string | null, price: IngredientPrice, name: string): number | null {
+  const from = normalizeUnit(unit);
+  const to = normalizeUnit(price.unit);
+  if (from === to) return qty / price.quantity;
+  if (from && to && canConvertUnits(from, to)) return convertQuantity(qty, from, to) / price.quantity;
+
+  // Across families (oz ↔ cup, g ↔ tbsp) via the ingredient's density
+  const grams = convertToGrams(qty, from, name);
+  const priceGrams = convertToGrams(price.quantity, to, name);
+  return grams !== null && priceGrams ? grams / priceGrams : null;
+}
+
+/**
+ * Estimate what a shopping list line will cost. Uses the user's recorded
+ * price when one exists and the units convert — a line with no quantity
+ * costs what was paid last time — otherwise the typical price table.
+ */
+export function estimateItemCost(
+  text: string,
+  prices: IngredientPrice[],
+  store: string | null = null,
+): ItemCost | null {
+  const parsed = parseIngredient(text);
+  const recorded = parsed.name ? findRecordedPrice(parsed.name, prices, store) : null;
+  if (recorded) {
+    const units = parsed.quantity === null ? 1 : priceUnits(parsed.quantity, parsed.unit, recorded, parsed.name);
+    if (units !== null) return { cost: units * recorded.price, source: "recorded" };
+  }
+
+  const { name, grams } = weighIngredient(text);
+  const perKg = findIngredientPrice(name);
+  if (grams === null || perKg === null) return null;
+  return { cost: (grams / 1000) * perKg, source: "typical" };
+}
+
+/** Estimate every item on a list and the list total. */
+export function estimateListCost(
+  items: { id: string; text: string }[],
+  prices: IngredientPrice[],
+): ListCost {
+  const costs = new Map<string, ItemCost | null>();
+  let total = 0;
+  let unpriced = 0;
+
+  for (const item of items) {
+    const cost = estimateItemCost(item.text, prices);
+    costs.set(item.id, cost);
+    if (cost) total += cost.cost;
+    else unpriced++;
+  }
+
+  return { items: costs, total, unpriced };
+}
+
+/**
+ * Turn "2 lb chicken thighs" checked off at $7.98 into a price record:
+ * normalized name, and the line's quantity and unit (1 item if it has none).
+ */
+export function priceFromItem(
+  text: string,
+  price: number,
+  store: string | null,
+): Pick<IngredientPrice, "name" | "store" | "price" | "quantity" | "unit"> {
+  const parsed = parseIngredient(text);
+  const hasQuantity = parsed.quantity !== null && parsed.quantity > 0;
+  return {
+    name: normalizeIngredientName(parsed.name || text),
+    store: store?.trim() || null,
+    price,
+    quantity: hasQuantity ? (parsed.quantity as number) : 1,
+    unit: hasQuantity ? normalizeUnit(parsed.unit) : null,
+  };
+}
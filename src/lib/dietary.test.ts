@@ -0,0 +1,74 @@
+// ---------------------------------------------------------------------------
+// Tests for dietary classification — allergens, diets and household conflicts
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import { classifyIngredients, describeConflicts, dietaryConflicts, recipeDietary } from "./dietary";
+
+describe("classifyIngredients", () => {
+  it("detects allergens from ingredient lines", () => {
+    expect(
+      classifyIngredients([
+        "2 cups all-purpose flour",
+        "1/2 cup unsalted butter, softened",
+        "2 large eggs",
+        "1 cup chopped walnuts",
+        "2 tbsp soy sauce",
+        "8 oz shrimp, peeled",
+      ]).allergens
+    ).toEqual(["gluten", "dairy", "nuts", "shellfish", "egg", "soy"]);
+  });
+
+  it("prefers the longest keyword", () => {
+    expect(classifyIngredients(["2 tbsp peanut butter"]).allergens).toEqual(["nuts"]);
+    expect(classifyIngredients(["1 can coconut milk", "1 eggplant", "1/4 tsp nutmeg"]).allergens).toEqual([]);
+    expect(classifyIngredients(["1 cup buckwheat groats"]).allergens).toEqual([]);
+    expect(classifyIngredients(["2 tbsp corn flour", "1 tbsp cornflour"]).allergens).toEqual([]);
+    expect(classifyIngredients(["2 cups shellfish stock"]).allergens).toEqual(["shellfish"]);
+  });
+
+  it("records every allergen in a line", () => {
+    expect(classifyIngredients(["2 tbsp peanut butter and wheat flour"]).allergens).toEqual(["gluten", "nuts"]);
+    expect(classifyIngredients(["1 cup coconut milk or whole milk"]).allergens).toEqual(["dairy"]);
+    expect(classifyIngredients(["shrimp and chicken stock"]).diets).toEqual([]);
+  });
+
+  it("derives vegetarian and vegan", () => {
+    expect(classifyIngredients(["1 onion", "2 cups rice", "1 tbsp olive oil"]).diets).toEqual(["vegetarian", "vegan"]);
+    expect(classifyIngredients(["1 onion", "1 cup grated parmesan"]).diets).toEqual(["vegetarian"]);
+    expect(classifyIngredients(["1 onion", "1 tbsp honey"]).diets).toEqual(["vegetarian"]);
+    expect(classifyIngredients(["1 lb chicken thighs"]).diets).toEqual([]);
+    expect(classifyIngredients(["1 tbsp fish sauce"]).diets).toEqual([]);
+  });
+
+  it("skips section headers", () => {
+    expect(classifyIngredients(["## Chicken marinade", "1 lime"]).diets).toEqual(["vegetarian", "vegan"]);
+  });
+});
+
+describe("recipeDietary", () => {
+  it("uses the stored classification when present", () => {
+    const recipe = { ingredients: ["1 cup milk"], allergens: [], diets: [] };
+    expect(recipeDietary(recipe)).toEqual({ allergens: [], diets: [] });
+    expect(recipeDietary({ ingredients: ["1 cup milk"] }).allergens).toEqual(["dairy"]);
+  });
+});
+
+describe("dietaryConflicts", () => {
+  const pesto = { ingredients: ["1/4 cup pine nuts", "1/2 cup parmesan", "2 cups basil"] };
+
+  it("lists the restrictions a recipe breaks", () => {
+    expect(dietaryConflicts(pesto, ["nuts", "vegan", "vegetarian", "shellfish"])).toEqual(["nuts", "vegan"]);
+  });
+
+  it("is empty without restrictions", () => {
+    expect(dietaryConflicts(pesto, [])).toEqual([]);
+  });
+});
+
+describe("describeConflicts", () => {
+  it("groups allergens and names the strictest diet", () => {
+    expect(describeConflicts(["nuts", "dairy", "vegan", "vegetarian"])).toBe("Contains nuts, dairy · Not vegetarian");
+    expect(describeConflicts(["vegan"])).toBe("Not vegan");
+  });
+});
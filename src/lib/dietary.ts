@@ -0,0 +1,202 @@
+// ---------------------------------------------------------------------------
+// Dietary classification — allergens and diets derived from ingredient lines
+//
+// Each ingredient name is matched against a keyword map, longest keywords
+// first and without overlaps, so "peanut butter" is nuts rather than dairy,
+// "coconut milk" is neither, and "peanut butter and wheat flour" is both
+// nuts and gluten. A recipe is vegetarian when no
+// ingredient is meat or seafood, and vegan when it's also free of dairy,
+// egg and honey. Keyword matching can miss things (a brand name, a
+// pre-made sauce), so the UI presents results as warnings, not guarantees.
+// ---------------------------------------------------------------------------
+
+import { parseIngredient } from "./ingredient-parser";
+import type { Allergen, Diet, DietaryRestriction, Recipe } from "@/types";
+
+export const ALLERGENS: Allergen[] = ["gluten", "dairy", "nuts", "shellfish", "egg", "soy"];
+
+export const DIETS: Diet[] = ["vegetarian", "vegan"];
+
+export const DIETARY_LABELS: Record<DietaryRestriction, string> = {
+  gluten: "Gluten",
+  dairy: "Dairy",
+  nuts: "Nuts",
+  shellfish: "Shellfish",
+  egg: "Egg",
+  soy: "Soy",
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+};
+
+/** What an ingredient can contain: the allergens, plus what rules out each diet. */
+type Trait = Allergen | "meat" | "fish" | "honey";
+
+/**
+ * Keyword map for keywordMatches. Entries with no traits exist to win over a
+ * shorter keyword ("coconut milk" over "milk", "butternut" over "butter").
+ */
+const DIETARY_KEYWORDS: [Trait[], string[]][] = [
+  [
+    [],
+    [
+      "coconut milk", "coconut cream", "cream of coconut", "oat milk", "rice milk",
+      "cream of tartar", "cocoa butter", "apple butter", "vegan butter", "vegan cheese",
+      "dairy-free", "gluten-free", "nutmeg", "butternut", "eggplant", "water chestnut",
+      "buckwheat", "rice flour", "corn flour", "cornflour", "corn tortilla", "coconut flour",
+      "chickpea flour", "tapioca flour", "rice noodle", "vegetable broth", "vegetable stock",
+      "nutritional yeast", "coconut", "oyster mushroom", "butter bean", "butter lettuce",
+    ],
+  ],
+  [
+    ["dairy"],
+    [
+      "milk", "butter", "buttermilk", "cheese", "cream", "sour cream", "yogurt", "yoghurt",
+      "ghee", "parmesan", "parmigiano", "pecorino", "mozzarella", "cheddar", "ricotta",
+      "feta", "mascarpone", "brie", "gruyere", "half-and-half", "half and half", "whey",
+      "creme fraiche", "crème fraîche", "custard", "paneer", "evaporated milk",
+      "condensed milk",
+    ],
+  ],
+  [["egg"], ["egg", "eggs", "egg yolk", "egg white", "mayonnaise", "mayo", "aioli", "meringue"]],
+  [["egg", "gluten"], ["egg noodle", "egg noodles", "fresh pasta"]],
+  [
+    ["gluten"],
+    [
+      "flour", "all-purpose flour", "bread flour", "whole wheat", "wheat", "bread",
+      "breadcrumb", "breadcrumbs", "panko", "pasta", "spaghetti", "linguine", "fettuccine",
+      "penne", "rigatoni", "macaroni", "orzo", "lasagna", "noodle", "noodles", "ramen",
+      "udon", "couscous", "bulgur", "farro", "barley", "rye", "semolina", "seitan",
+      "tortilla", "pita", "naan", "baguette", "bun", "buns", "cracker", "crackers",
+      "cookie", "cookies", "puff pastry", "pie crust", "phyllo", "filo", "beer", "malt",
+      "croutons", "graham",
+    ],
+  ],
+  [["soy"], ["soy", "soybean", "soybeans", "soy milk", "tofu", "tempeh", "edamame", "miso", "tamari"]],
+  [["soy", "gluten"], ["soy sauce", "teriyaki", "hoisin"]],
+  [
+    ["nuts"],
+    [
+      "almond", "almonds", "walnut", "walnuts", "pecan", "pecans", "cashew", "cashews",
+      "pistachio", "pistachios", "hazelnut", "hazelnuts", "macadamia", "pine nut",
+      "pine nuts", "brazil nut", "peanut", "peanuts", "peanut butter", "almond butter",
+      "almond milk", "almond flour", "cashew milk", "nutella", "praline", "marzipan",
+      "frangipane",
+    ],
+  ],
+  [["dairy", "nuts"], ["pesto"]],
+  [
+    ["shellfish"],
+    [
+      "shellfish", "shrimp", "prawn", "prawns", "crab", "lobster", "scallop", "scallops", "clam",
+      "clams", "mussel", "mussels", "oyster", "oysters", "crawfish", "crayfish",
+      "langoustine", "squid", "calamari", "octopus", "oyster sauce",
+    ],
+  ],
+  [
+    ["fish"],
+    [
+      "fish", "fish sauce", "salmon", "tuna", "cod", "anchovy", "anchovies", "tilapia",
+      "halibut", "sardine", "sardines", "trout", "mackerel", "sea bass", "snapper",
+      "haddock", "swordfish", "worcestershire",
+    ],
+  ],
+  [
+    ["meat"],
+    [
+      "chicken", "beef", "pork", "bacon", "ham", "sausage", "sausages", "lamb", "turkey",
+      "veal", "prosciutto", "pancetta", "chorizo", "salami", "pepperoni", "duck", "steak",
+      "ground beef", "ground pork", "gelatin", "lard", "chicken broth",
+      "chicken stock", "beef broth", "beef stock", "bone broth", "guanciale", "venison",
+    ],
+  ],
+  [["honey"], ["honey"]],
+];
+
+export interface DietaryInfo {
+  allergens: Allergen[];
+  diets: Diet[];
+}
+
+/**
+ * Every keyword found in `name`, longest first, skipping any that overlap a
+ * longer one already taken. Short keywords (<=3 chars) must be whole words,
+ * as in the categorizer's longestKeywordMatch ("egg" isn't in "eggplant").
+ */
+function keywordMatches<T>(name: string, keywordMap: [T, string[]][]): T[] {
+  const lower = name.toLowerCase();
+  const found: { value: T; start: number; end: number }[] = [];
+  for (const [value, keywords] of keywordMap) {
+    for (const keyword of keywords) {
+      const pattern = keyword.length <= 3 ? `\\b${keyword}\\b` : keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      for (const match of lower.matchAll(new RegExp(pattern, "g"))) {
+        found.push({ value, start: match.index, end: match.index + keyword.length });
+      }
+    }
+  }
+
+  found.sort((a, b) => b.end - b.start - (a.end - a.start) || a.start - b.start);
+  const taken: typeof found = [];
+  for (const match of found) {
+    if (taken.every((t) => match.end <= t.start || match.start >= t.end)) taken.push(match);
+  }
+  return taken.map((match) => match.value);
+}
+
+/** Traits of one ingredient line, e.g. "1 cup grated parmesan" → ["dairy"]. */
+function ingredientTraits(line: string): Trait[] {
+  if (line.startsWith("## ")) return [];
+  const parsed = parseIngredient(line);
+  return keywordMatches(parsed.name || line, DIETARY_KEYWORDS).flat();
+}
+
+/** Allergens the ingredients contain and the diets they fit, in canonical order. */
+export function classifyIngredients(ingredients: string[]): DietaryInfo {
+  const traits = new Set<Trait>(ingredients.flatMap(ingredientTraits));
+
+  const vegetarian = !traits.has("meat") && !traits.has("fish") && !traits.has("shellfish");
+  const vegan = vegetarian && !traits.has("dairy") && !traits.has("egg") && !traits.has("honey");
+
+  return {
+    allergens: ALLERGENS.filter((a) => traits.has(a)),
+    diets: DIETS.filter((d) => (d === "vegan" ? vegan : vegetarian)),
+  };
+}
+
+/** A recipe's stored classification, or one computed from its ingredients if it has none. */
+export function recipeDietary(recipe: Pick<Recipe, "ingredients" | "allergens" | "diets">): DietaryInfo {
+  if (recipe.allergens && recipe.diets) {
+    return { allergens: recipe.allergens, diets: recipe.diets };
+  }
+  return classifyIngredients(recipe.ingredients);
+}
+
+/**
+ * The household restrictions a recipe breaks: allergens it contains and
+ * diets it doesn't fit. Empty when the recipe is safe for everyone.
+ */
+export function dietaryConflicts(
+  recipe: Pick<Recipe, "ingredients" | "allergens" | "diets">,
+  restrictions: DietaryRestriction[],
+): DietaryRestriction[] {
+  if (restrictions.length === 0) return [];
+  const { allergens, diets } = recipeDietary(recipe);
+  return restrictions.filter((r) =>
+    r === "vegetarian" || r === "vegan"
+      ? !diets.includes(r)
+      : allergens.includes(r)
+  );
+}
+
+/** Short warning text for a recipe's conflicts, e.g. "Contains nuts, dairy · Not vegan". */
+export function describeConflicts(conflicts: DietaryRestriction[]): string {
+  const allergens = conflicts.filter((c): c is Allergen => c !== "vegetarian" && c !== "vegan");
+  const diets = conflicts.filter((c): c is Diet => c === "vegetarian" || c === "vegan");
+  const parts: string[] = [];
+  if (allergens.length > 0) {
+    parts.push(`Contains ${allergens.map((a) => DIETARY_LABELS[a].toLowerCase()).join(", ")}`);
+  }
+  // Vegan implies vegetarian, so only the stricter diet is worth naming
+  const diet = diets.includes("vegetarian") ? "vegetarian" : diets[0];
+  if (diet) parts.push(`Not ${DIETARY_LABELS[diet].toLowerCase()}`);
+  return parts.join(" · ");
+}
@@ -9,6 +9,10 @@ import {
   canConvertUnits,
   convertQuantity,
   aggregateIngredients,
+  getIngredientDensity,
+  convertToGrams,
+  subtractPantry,
+  restockPantryItem,
 } from "./ingredient-aggregator";
 
 // ---------------------------------------------------------------------------
@@ -127,6 +131,51 @@ describe("convertQuantity", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// getIngredientDensity / convertToGrams
+// ---------------------------------------------------------------------------
+
+describe("getIngredientDensity", () => {
+  it("looks up exact normalized names", () => {
+    expect(getIngredientDensity("flour")).toBe(125);
+    expect(getIngredientDensity("Brown Sugar")).toBe(213);
+  });
+
+  it("matches plural variants through normalizeIngredientName", () => {
+    expect(getIngredientDensity("rolled oats")).toBe(89);
+    expect(getIngredientDensity("chocolate chips")).toBe(170);
+  });
+
+  it("falls back to the longest matching suffix for adjectives", () => {
+    expect(getIngredientDensity("unsalted butter")).toBe(227);
+    expect(getIngredientDensity("sifted all-purpose flour")).toBe(125);
+    expect(getIngredientDensity("peanut butter")).toBe(270);
+  });
+
+  it("returns null for unknown ingredients", () => {
+    expect(getIngredientDensity("chicken breast")).toBeNull();
+  });
+});
+
+describe("convertToGrams", () => {
+  it("converts volumes through the density table", () => {
+    expect(convertToGrams(1, "cup", "flour")).toBeCloseTo(125);
+    expect(convertToGrams(2, "tbsp", "butter")).toBeCloseTo(28.4, 1);
+    expect(convertToGrams(250, "ml", "milk")).toBeCloseTo(255.7, 1);
+  });
+
+  it("converts weights directly regardless of density", () => {
+    expect(convertToGrams(1, "kg", "chicken")).toBe(1000);
+    expect(convertToGrams(1, "lb", "chicken")).toBeCloseTo(453.6, 1);
+  });
+
+  it("returns null for unknown densities or non-measure units", () => {
+    expect(convertToGrams(1, "cup", "chicken stock")).toBeNull();
+    expect(convertToGrams(2, "cloves", "garlic")).toBeNull();
+    expect(convertToGrams(2, null, "flour")).toBeNull();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // aggregateIngredients
 // ---------------------------------------------------------------------------
@@ -253,4 +302,90 @@ describe("aggregateIngredients", () => {
     expect(result).toHaveLength(1);
     expect(result[0]).toBe("1 1/2 kgs flour");
   });
+
+  it("merges volume and weight using the density table", () => {
+    // 1 cup flour = 125 g
+    const result = aggregateIngredients(["1 cup flour", "200 g flour"]);
+    expect(result).toEqual(["325 g flour"]);
+  });
+
+  it("merges volume into imperial weight", () => {
+    // 1 cup butter = 227 g ≈ 8 oz, so 8 oz + 1 cup ≈ 16 oz
+    const result = aggregateIngredients(["8 oz butter", "1 cup butter"]);
+    expect(result).toEqual(["16 oz butter"]);
+  });
+
+  it("keeps volume and weight separate when density is unknown", () => {
+    const result = aggregateIngredients(["1 cup chicken broth", "200 g chicken broth"]);
+    expect(result).toEqual(["1 cup + 200 g chicken broth"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// subtractPantry / restockPantryItem
+// ---------------------------------------------------------------------------
+
+describe("subtractPantry", () => {
+  it("returns lines unchanged with an empty pantry", () => {
+    expect(subtractPantry(["2 cups rice"], [])).toEqual(["2 cups rice"]);
+  });
+
+  it("drops lines covered by untracked pantry stock", () => {
+    const pantry = [{ name: "ground cumin", quantity: null, unit: null }];
+    expect(subtractPantry(["1 tsp ground cumin", "2 cups rice"], pantry)).toEqual(["2 cups rice"]);
+  });
+
+  it("drops unmeasured needs when the item is on hand", () => {
+    const pantry = [{ name: "olive oil", quantity: 500, unit: "ml" }];
+    expect(subtractPantry(["olive oil, for drizzling"], pantry)).toEqual([]);
+  });
+
+  it("keeps the remainder when stock only partially covers the need", () => {
+    const pantry = [{ name: "rice", quantity: 1, unit: "cup" }];
+    expect(subtractPantry(["3 cups rice"], pantry)).toEqual(["2 cups rice"]);
+  });
+
+  it("drops lines fully covered by stock", () => {
+    const pantry = [{ name: "eggs", quantity: 12, unit: null }];
+    expect(subtractPantry(["4 eggs"], pantry)).toEqual([]);
+  });
+
+  it("converts stock units within the same family", () => {
+    const pantry = [{ name: "butter", quantity: 4, unit: "tbsp" }];
+    expect(subtractPantry(["1/2 cup butter, softened"], pantry)).toEqual(["1/4 cup butter, softened"]);
+  });
+
+  it("converts between volume and weight via density", () => {
+    // 1 cup flour = 125 g
+    const pantry = [{ name: "flour", quantity: 1, unit: "cup" }];
+    expect(subtractPantry(["300 g flour"], pantry)).toEqual(["175 g flour"]);
+  });
+
+  it("passes through lines whose units can't be compared", () => {
+    const pantry = [{ name: "chicken broth", quantity: 1, unit: "can" }];
+    expect(subtractPantry(["2 cups chicken broth"], pantry)).toEqual(["2 cups chicken broth"]);
+  });
+});
+
+describe("restockPantryItem", () => {
+  it("adds comparable amounts in the stock's unit", () => {
+    const stock = { name: "rice", quantity: 1, unit: "cup" };
+    expect(restockPantryItem(stock, { quantity: 8, unit: "tbsp" })).toEqual({ quantity: 1.5, unit: "cup" });
+  });
+
+  it("replaces incomparable or untracked stock with the purchase", () => {
+    expect(restockPantryItem({ name: "broth", quantity: 1, unit: "can" }, { quantity: 1, unit: "l" })).toEqual({
+      quantity: 1,
+      unit: "l",
+    });
+    expect(restockPantryItem({ name: "cumin", quantity: null, unit: null }, { quantity: 2, unit: "oz" })).toEqual({
+      quantity: 2,
+      unit: "oz",
+    });
+  });
+
+  it("keeps existing stock when the purchase has no quantity", () => {
+    const stock = { name: "milk", quantity: 2, unit: "cup" };
+    expect(restockPantryItem(stock, { quantity: null, unit: null })).toEqual({ quantity: 2, unit: "cup" });
+  });
 });
@@ -152,6 +152,138 @@ export function normalizeIngredientName(name: string): string {
   return n;
 }
 
+// ---------------------------------------------------------------------------
+// Ingredient densities — volume ↔ weight for common pantry staples
+// ---------------------------------------------------------------------------
+
+/**
+ * Grams per US cup, keyed by normalized ingredient name (see
+ * normalizeIngredientName). Values follow common baking references (King
+ * Arthur / USDA) for spooned-and-leveled dry goods.
+ */
+export const INGREDIENT_DENSITIES: Record<string, number> = {
+  // Flours & starches
+  flour: 125,
+  "all-purpose flour": 125,
+  "bread flour": 127,
+  "cake flour": 114,
+  "whole wheat flour": 113,
+  "almond flour": 96,
+  cornstarch: 128,
+  cornmeal: 138,
+  "cocoa powder": 84,
+  // Sugars & syrups
+  sugar: 200,
+  "granulated sugar": 200,
+  "brown sugar": 213,
+  "light brown sugar": 213,
+  "dark brown sugar": 213,
+  "powdered sugar": 113,
+  "confectioners sugar": 113,
+  honey: 336,
+  "maple syrup": 312,
+  molasses: 340,
+  // Fats
+  butter: 227,
+  "olive oil": 216,
+  "vegetable oil": 218,
+  oil: 218,
+  "peanut butter": 270,
+  // Dairy
+  milk: 242,
+  buttermilk: 242,
+  "heavy cream": 238,
+  "sour cream": 242,
+  yogurt: 245,
+  "greek yogurt": 255,
+  // Grains
+  rice: 185,
+  "white rice": 185,
+  "brown rice": 190,
+  oat: 89,
+  "rolled oat": 89,
+  // Leaveners & salt
+  "baking soda": 220,
+  "baking powder": 192,
+  salt: 288,
+  "table salt": 288,
+  "kosher salt": 135,
+  // Mix-ins
+  "chocolate chip": 170,
+  raisin: 149,
+  water: 237,
+};
+
+/** Milliliters per US cup — bridges the metric volume family to cups. */
+const ML_PER_CUP = 236.588;
+
+/** Grams per ounce — bridges the imperial weight family to grams. */
+const GRAMS_PER_OZ = 28.3495;
+
+/**
+ * Look up an ingredient in a table keyed by normalized name. Tries the
+ * normalized name first, then the longest table key the name ends with so
+ * "unsalted butter" and "sifted all-purpose flour" hit "butter" and
+ * "all-purpose flour". Returns null when the ingredient isn't in the table.
+ */
+export function lookupIngredient<T>(table: Record<string, T>, name: string): T | null {
+  const normalized = normalizeIngredientName(name);
+  if (table[normalized] !== undefined) {
+    return table[normalized];
+  }
+
+  let best: string | null = null;
+  for (const key of Object.keys(table)) {
+    if (normalized.endsWith(` ${key}`) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best ? table[best] : null;
+}
+
+/** Look up the density (grams per cup) for an ingredient name. */
+export function getIngredientDensity(name: string): number | null {
+  return lookupIngredient(INGREDIENT_DENSITIES, name);
+}
+
+/** Convert a volume in any normalized volume unit (tsp/tbsp/cup/ml/l) to cups. */
+export function toCups(qty: number, unit: string): number | null {
+  if (canConvertUnits(unit, "cup")) return convertQuantity(qty, unit, "cup");
+  if (canConvertUnits(unit, "ml")) return convertQuantity(qty, unit, "ml") / ML_PER_CUP;
+  return null;
+}
+
+/** Convert a weight in any normalized weight unit (g/kg/oz/lb) to grams. */
+function toGrams(qty: number, unit: string): number | null {
+  if (canConvertUnits(unit, "g")) return convertQuantity(qty, unit, "g");
+  if (canConvertUnits(unit, "oz")) return convertQuantity(qty, unit, "oz") * GRAMS_PER_OZ;
+  return null;
+}
+
+/** Convert grams to a normalized weight unit (g/kg/oz/lb). */
+function fromGrams(grams: number, unit: string): number {
+  if (canConvertUnits(unit, "g")) return convertQuantity(grams, "g", unit);
+  return convertQuantity(grams / GRAMS_PER_OZ, "oz", unit);
+}
+
+/**
+ * Convert an ingredient quantity to grams. Weights convert directly; volumes
+ * convert through the density table. Returns null when the unit isn't a
+ * volume or weight, or the ingredient's density is unknown.
+ */
+export function convertToGrams(qty: number, unit: string | null, name: string): number | null {
+  const normalizedUnit = normalizeUnit(unit);
+  if (!normalizedUnit) return null;
+
+  const grams = toGrams(qty, normalizedUnit);
+  if (grams !== null) return grams;
+
+  const cups = toCups(qty, normalizedUnit);
+  if (cups === null) return null;
+  const density = getIngredientDensity(name);
+  return density === null ? null : cups * density;
+}
+
 // ---------------------------------------------------------------------------
 // Aggregation
 // ---------------------------------------------------------------------------
@@ -203,9 +335,12 @@ const UNIT_DISPLAY: Record<string, string> = {
   dash: "dash",
 };
 
+/** Abbreviations that read wrong with a trailing "s" ("200 gs"). */
+const NON_PLURAL_UNITS = new Set(["g", "ml", "oz"]);
+
 /** Pluralize a unit display string when quantity > 1. */
 function pluralizeUnit(unit: string, qty: number): string {
-  if (qty <= 1) return unit;
+  if (qty <= 1 || NON_PLURAL_UNITS.has(unit)) return unit;
   // Units that don't pluralize with simple "s"
   const irregulars: Record<string, string> = {
     bunch: "bunches",
@@ -267,7 +402,7 @@ export function aggregateIngredients(ingredients: string[]): string[] {
 
     // Merge quantified entries
     if (withQty.length > 0) {
-      const merged = mergeQuantifiedEntries(withQty);
+      const merged = mergeQuantifiedEntries(withQty, group[0].normalizedName);
       result.push(merged);
     }
 
@@ -288,9 +423,10 @@ export function aggregateIngredients(ingredients: string[]): string[] {
 
 /**
  * Merge a group of quantified entries (same normalized name) into one line.
- * Handles unit conversion within the same family.
+ * Handles unit conversion within the same family, and volume ↔ weight via
+ * the density table when the ingredient has a known density.
  */
-function mergeQuantifiedEntries(entries: ParsedEntry[]): string {
+function mergeQuantifiedEntries(entries: ParsedEntry[], normalizedName: string): string {
   // Group by normalized unit
   const unitGroups = new Map<string | null, ParsedEntry[]>();
   for (const e of entries) {
@@ -304,7 +440,7 @@ function mergeQuantifiedEntries(entries: ParsedEntry[]): string {
   }
 
   // Try to merge across convertible unit groups
-  const mergedBuckets: { qty: number; unit: string | null; displayUnit: string | null }[] = [];
+  const mergedBuckets: UnitBucket[] = [];
   const usedKeys = new Set<string | null>();
 
   const unitKeys = [...unitGroups.keys()];
@@ -341,6 +477,8 @@ function mergeQuantifiedEntries(entries: ParsedEntry[]): string {
     mergedBuckets.push({ qty: totalQty, unit: bestUnit, displayUnit });
   }
 
+  const buckets = mergeByDensity(mergedBuckets, normalizedName);
+
   // Use the display name from the first entry
   const displayName = entries[0].displayName;
 
@@ -352,12 +490,12 @@ function mergeQuantifiedEntries(entries: ParsedEntry[]): string {
   const prepNote = notes.size > 0 ? [...notes].join(" / ") : null;
 
   // Build the result string
-  if (mergedBuckets.length === 1) {
-    return formatMergedLine(mergedBuckets[0].qty, mergedBuckets[0].displayUnit, displayName, prepNote);
+  if (buckets.length === 1) {
+    return formatMergedLine(buckets[0].qty, buckets[0].displayUnit, displayName, prepNote);
   }
 
   // Multiple incompatible unit buckets — format each and join with " + "
-  const parts = mergedBuckets.map((b) =>
+  const parts = buckets.map((b) =>
     formatMergedLine(b.qty, b.displayUnit, "", null).trim()
   );
   const qtyPart = parts.join(" + ");
@@ -365,6 +503,41 @@ function mergeQuantifiedEntries(entries: ParsedEntry[]): string {
   return prepNote ? `${main}, ${prepNote}` : main;
 }
 
+interface UnitBucket {
+  qty: number;
+  unit: string | null;
+  displayUnit: string | null;
+}
+
+/**
+ * Fold volume buckets into the first weight bucket using the ingredient's
+ * density, so "1 cup flour" + "200 g flour" becomes "325 g flour". Buckets
+ * are returned unchanged when there's no weight bucket or no known density.
+ */
+function mergeByDensity(buckets: UnitBucket[], normalizedName: string): UnitBucket[] {
+  if (buckets.length < 2) return buckets;
+  const target = buckets.find((b) => b.unit && toGrams(1, b.unit) !== null);
+  if (!target?.unit) return buckets;
+  const density = getIngredientDensity(normalizedName);
+  if (density === null) return buckets;
+
+  let grams = 0;
+  const rest: UnitBucket[] = [];
+  for (const b of buckets) {
+    const converted = b.unit ? convertToGrams(b.qty, b.unit, normalizedName) : null;
+    if (converted === null) {
+      rest.push(b);
+    } else {
+      grams += converted;
+    }
+  }
+
+  // Whole grams read better than "325.42 g"
+  const qty = target.unit === "g" ? Math.round(grams) : fromGrams(grams, target.unit);
+  const merged = { qty, unit: target.unit, displayUnit: target.displayUnit };
+  return [merged, ...rest];
+}
+
 /** Sum quantities for a group of entries (all same normalized unit). */
 function sumQuantities(entries: ParsedEntry[]): number {
   return entries.reduce((sum, e) => sum + (e.quantity ?? 0), 0);
@@ -386,3 +559,105 @@ function formatMergedLine(
   const main = parts.join(" ");
   return prepNote ? `${main}, ${prepNote}` : main;
 }
+
+// ---------------------------------------------------------------------------
+// Pantry — subtract what's already on hand from aggregated needs
+// ---------------------------------------------------------------------------
+
+/** Stock of one pantry ingredient. A null quantity means "have some, untracked". */
+export interface PantryStock {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+/**
+ * Express `qty` of `fromUnit` in `toUnit` for an ingredient — same unit,
+ * same family, or volume ↔ weight via density. Null when not comparable.
+ */
+function convertStock(
+  qty: number,
+  fromUnit: string | null,
+  toUnit: string | null,
+  name: string,
+): number | null {
+  if (fromUnit === toUnit) return qty;
+  if (!fromUnit || !toUnit) return null;
+  if (canConvertUnits(fromUnit, toUnit)) return convertQuantity(qty, fromUnit, toUnit);
+
+  const grams = convertToGrams(qty, fromUnit, name);
+  const gramsPerUnit = convertToGrams(1, toUnit, name);
+  if (grams === null || !gramsPerUnit) return null;
+  return grams / gramsPerUnit;
+}
+
+/**
+ * Subtract pantry stock from aggregated shopping lines (output of
+ * `aggregateIngredients`). Lines fully covered by the pantry are dropped,
+ * partially covered lines keep the remainder, and lines whose units can't be
+ * compared with the stock pass through unchanged.
+ *
+ * Pantry items without a quantity (e.g. "cumin") cover any amount.
+ */
+export function subtractPantry(lines: string[], pantry: PantryStock[]): string[] {
+  if (pantry.length === 0) return lines;
+
+  const stockByName = new Map<string, PantryStock>();
+  for (const item of pantry) {
+    const key = normalizeIngredientName(item.name);
+    if (key && !stockByName.has(key)) stockByName.set(key, item);
+  }
+
+  const result: string[] = [];
+  for (const line of lines) {
+    const parsed = parseIngredient(line);
+    const key = normalizeIngredientName(parsed.name);
+    const stock = stockByName.get(key);
+
+    if (!stock) {
+      result.push(line);
+      continue;
+    }
+    // Untracked stock, or an unmeasured need ("salt to taste") — it's covered
+    if (stock.quantity === null || parsed.quantity === null) continue;
+
+    const needUnit = normalizeUnit(parsed.unit);
+    const have = convertStock(stock.quantity, normalizeUnit(stock.unit), needUnit, key);
+    if (have === null) {
+      result.push(line);
+      continue;
+    }
+
+    let remaining = parsed.quantity - have;
+    // Ignore floating-point crumbs left over from unit conversion
+    if (remaining <= 1e-6) continue;
+    if (needUnit === "g" || needUnit === "ml") remaining = Math.ceil(remaining);
+
+    const displayUnit = needUnit ? (UNIT_DISPLAY[needUnit] ?? parsed.unit) : null;
+    result.push(formatMergedLine(remaining, displayUnit, parsed.name, parsed.prepNote));
+  }
+
+  return result;
+}
+
+/**
+ * Add a purchased amount to existing pantry stock, keeping the stock's unit
+ * when the two are comparable. Incomparable amounts replace the old stock,
+ * since the fresh purchase is the better estimate of what's on hand.
+ */
+export function restockPantryItem(
+  stock: PantryStock,
+  added: Pick<PantryStock, "quantity" | "unit">,
+): Pick<PantryStock, "quantity" | "unit"> {
+  if (added.quantity === null) return { quantity: stock.quantity, unit: stock.unit };
+  if (stock.quantity === null) return { quantity: added.quantity, unit: added.unit };
+
+  const converted = convertStock(
+    added.quantity,
+    normalizeUnit(added.unit),
+    normalizeUnit(stock.unit),
+    normalizeIngredientName(stock.name),
+  );
+  if (converted === null) return { quantity: added.quantity, unit: added.unit };
+  return { quantity: stock.quantity + converted, unit: stock.unit };
+}
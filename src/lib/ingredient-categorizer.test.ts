@@ -3,6 +3,7 @@ import {
   categorizeIngredient,
   groupIngredientsByCategory,
   INGREDIENT_CATEGORIES,
+  normalizeAisleOrder,
 } from "./ingredient-categorizer";
 
 // ---------------------------------------------------------------------------
@@ -213,3 +214,35 @@ describe("groupIngredientsByCategory", () => {
     expect(item.parsed.name).toBe("flour");
   });
 });
+
+// ---------------------------------------------------------------------------
+// Aisle order
+// ---------------------------------------------------------------------------
+
+describe("normalizeAisleOrder", () => {
+  it("appends missing categories in display order", () => {
+    const order = normalizeAisleOrder(["Dairy & Eggs", "Produce"]);
+
+    expect(order.slice(0, 3)).toEqual(["Dairy & Eggs", "Produce", "Meat & Seafood"]);
+    expect(order).toHaveLength(INGREDIENT_CATEGORIES.length);
+  });
+
+  it("drops unknown and duplicate names", () => {
+    const order = normalizeAisleOrder(["Bakery", "Produce", "Produce"]);
+
+    expect(order).toEqual([...INGREDIENT_CATEGORIES]);
+  });
+});
+
+describe("groupIngredientsByCategory with an aisle order", () => {
+  it("returns categories in the given walking order", () => {
+    const ingredients = ["1 onion", "2 eggs", "1 lb ground beef"];
+    const order = normalizeAisleOrder(["Dairy & Eggs", "Meat & Seafood"]);
+
+    expect(groupIngredientsByCategory(ingredients, order).map((g) => g.category)).toEqual([
+      "Dairy & Eggs",
+      "Meat & Seafood",
+      "Produce",
+    ]);
+  });
+});
@@ -492,11 +492,20 @@ export const CATEGORY_KEYWORDS: [IngredientCategory, string[]][] = [
 
 /** Categorizes a single ingredient string using longest-keyword-match against the category dictionary. Returns the best-matching category name. */
 export function categorizeIngredient(name: string): IngredientCategory {
+  return longestKeywordMatch(name, CATEGORY_KEYWORDS) ?? "Other";
+}
+
+/**
+ * Find the value whose keyword is the longest match in `name`, or null.
+ * Longer keywords win so "peanut butter" beats "butter"; ties go to the
+ * earlier entry in the map.
+ */
+export function longestKeywordMatch<T>(name: string, keywordMap: [T, string[]][]): T | null {
   const lower = name.toLowerCase();
-  let bestCategory: IngredientCategory = "Other";
+  let best: T | null = null;
   let bestLength = 0;
 
-  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+  for (const [value, keywords] of keywordMap) {
     for (const keyword of keywords) {
       // Short keywords (<=3 chars) use word-boundary regex to avoid substring
       // false positives (e.g. "oat" matching inside "goat").
@@ -505,44 +514,78 @@ export function categorizeIngredient(name: string): IngredientCategory {
         : lower.includes(keyword);
       if (matches && keyword.length > bestLength) {
         bestLength = keyword.length;
-        bestCategory = category;
+        best = value;
       }
     }
   }
 
-  return bestCategory;
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Aisle order
+// ---------------------------------------------------------------------------
+
+/**
+ * Turns a stored aisle order into a full walking order: unknown and
+ * duplicate names are dropped, and categories the order doesn't mention
+ * are appended in default display order.
+ */
+export function normalizeAisleOrder(order: readonly string[]): IngredientCategory[] {
+  const known = new Set<string>(INGREDIENT_CATEGORIES);
+  const result: IngredientCategory[] = [];
+  for (const name of order) {
+    if (known.has(name) && !result.includes(name as IngredientCategory)) {
+      result.push(name as IngredientCategory);
+    }
+  }
+  for (const category of INGREDIENT_CATEGORIES) {
+    if (!result.includes(category)) result.push(category);
+  }
+  return result;
+}
+
+/** Groups items by the category of `nameOf(item)`, in `order`, omitting empty categories. Item order within a category is preserved. */
+export function groupByCategory<T>(
+  items: T[],
+  nameOf: (item: T) => string,
+  order: readonly IngredientCategory[] = INGREDIENT_CATEGORIES,
+): { category: IngredientCategory; items: T[] }[] {
+  const groupMap = new Map<IngredientCategory, T[]>();
+
+  for (const item of items) {
+    const category = categorizeIngredient(nameOf(item));
+    let group = groupMap.get(category);
+    if (!group) {
+      group = [];
+      groupMap.set(category, group);
+    }
+    group.push(item);
+  }
+
+  return order.filter((cat) => groupMap.has(cat)).map((category) => ({
+    category,
+    items: groupMap.get(category)!,
+  }));
 }
 
 // ---------------------------------------------------------------------------
 // groupIngredientsByCategory
 // ---------------------------------------------------------------------------
 
-/** Groups an array of raw ingredient strings by grocery category. Returns categories in display order with parsed ingredient data. */
+/** Groups an array of raw ingredient strings by grocery category. Returns categories in `order` (display order by default) with parsed ingredient data. */
 export function groupIngredientsByCategory(
   ingredients: string[],
+  order: readonly IngredientCategory[] = INGREDIENT_CATEGORIES,
 ): IngredientGroup[] {
-  const groupMap = new Map<IngredientCategory, CategorizedIngredient[]>();
+  const items: CategorizedIngredient[] = [];
 
   for (let i = 0; i < ingredients.length; i++) {
     const raw = ingredients[i];
     // Skip section headers — they're not real ingredients
     if (raw.startsWith("## ")) continue;
-    const parsed = parseIngredient(raw);
-    const category = categorizeIngredient(parsed.name);
-
-    let group = groupMap.get(category);
-    if (!group) {
-      group = [];
-      groupMap.set(category, group);
-    }
-    group.push({ originalIndex: i, raw, parsed });
+    items.push({ originalIndex: i, raw, parsed: parseIngredient(raw) });
   }
 
-  // Return in display order, omitting empty categories
-  return INGREDIENT_CATEGORIES.filter((cat) => groupMap.has(cat)).map(
-    (category) => ({
-      category,
-      items: groupMap.get(category)!,
-    }),
-  );
+  return groupByCategory(items, (item) => item.parsed.name, order);
 }
@@ -397,3 +397,48 @@ export function parseServings(
   const n = parseInt(match[0], 10);
   return isNaN(n) || n <= 0 ? null : n;
 }
+
+// ---------------------------------------------------------------------------
+// Section header detection — marks ingredient subheadings with "## " prefix
+// ---------------------------------------------------------------------------
+
+/** Common measurement units that indicate an actual ingredient, not a header. */
+export const UNIT_PATTERN =
+  /\d+\s*(?:cups?|tablespoons?|tbsp|teaspoons?|tsp|ounces?|oz|pounds?|lbs?|grams?|g|kg|ml|l|pinch|dash|cloves?|cans?|bunch|slices?|pieces?|heads?|stalks?|sprigs?|handful|package|pkg)\b/i;
+
+/**
+ * Common prefixes that indicate section headers even without a trailing colon
+ * — e.g. "For the sauce", "For the marinade", "For serving".
+ */
+const HEADER_PREFIX_PATTERN = /^for\s+(the\s+)?/i;
+
+/**
+ * Detects section headers in an ingredient list and prefixes them with "## ".
+ * Section headers are items that:
+ *   1. End with ":" and contain no quantities/units, OR
+ *   2. Start with "For the..." / "For ..." and are short, non-ingredient text
+ * Examples: "For the sauce:", "Marinade:", "Chicken:", "For the Topping"
+ */
+export function detectAndMarkSectionHeaders(ingredients: string[]): string[] {
+  return ingredients.map((item) => {
+    const trimmed = item.trim();
+    // Already marked
+    if (trimmed.startsWith("## ")) return trimmed;
+    // Must be relatively short (headers are typically <60 chars)
+    if (trimmed.length > 80) return trimmed;
+    // Must NOT contain quantities + measurement units (that's a real ingredient)
+    if (UNIT_PATTERN.test(trimmed)) return trimmed;
+    // Must NOT start with a digit (e.g. "3 cloves garlic:" is not a header)
+    if (/^\d/.test(trimmed)) return trimmed;
+
+    // Rule 1: ends with ":"
+    if (trimmed.endsWith(":")) return `## ${trimmed}`;
+
+    // Rule 2: starts with "For the..." / "For ..." and is short (likely a section label)
+    if (HEADER_PREFIX_PATTERN.test(trimmed) && trimmed.length <= 50) {
+      return `## ${trimmed}:`;
+    }
+
+    return trimmed;
+  });
+}
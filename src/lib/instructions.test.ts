@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { countSteps, groupInstructions, markInstructionHeaders, tidyInstructions } from "./instructions";
+
+describe("groupInstructions", () => {
+  it("numbers steps within each section and attaches sub-steps", () => {
+    expect(
+      groupInstructions([
+        "## For the sauce:",
+        "Simmer the tomatoes.",
+        "- Stir now and then.",
+        "Season.",
+        "## To assemble:",
+        "Layer everything.",
+      ])
+    ).toEqual([
+      {
+        title: "For the sauce",
+        steps: [
+          { index: 1, number: 1, text: "Simmer the tomatoes.", subSteps: ["Stir now and then."] },
+          { index: 3, number: 2, text: "Season.", subSteps: [] },
+        ],
+      },
+      { title: "To assemble", steps: [{ index: 5, number: 1, text: "Layer everything.", subSteps: [] }] },
+    ]);
+  });
+
+  it("puts steps before the first header in an untitled section", () => {
+    const sections = groupInstructions(["Preheat the oven.", "## Dough:", "Mix."]);
+    expect(sections.map((s) => s.title)).toEqual([null, "Dough"]);
+  });
+
+  it("drops empty sections and treats a leading sub-step as a step", () => {
+    expect(groupInstructions(["## Empty:", "## Filling:", "- Slice apples."])).toEqual([
+      { title: "Filling", steps: [{ index: 2, number: 1, text: "Slice apples.", subSteps: [] }] },
+    ]);
+  });
+
+  it("counts only steps", () => {
+    expect(countSteps(["## A:", "One.", "- detail", "Two."])).toBe(2);
+  });
+});
+
+describe("tidyInstructions", () => {
+  it("trims lines, drops empty ones and ends headers with a colon", () => {
+    expect(tidyInstructions(["## For the sauce", "  Simmer. ", "- ", "", "## ", "-  Stir. "])).toEqual([
+      "## For the sauce:",
+      "Simmer.",
+      "- Stir.",
+    ]);
+  });
+});
+
+describe("markInstructionHeaders", () => {
+  it("marks short section lines that introduce steps", () => {
+    expect(
+      markInstructionHeaders(["For the filling", "Slice the apples.", "To assemble:", "Fill the crust.", "Bake until golden:"])
+    ).toEqual(["## For the filling:", "Slice the apples.", "## To assemble:", "Fill the crust.", "Bake until golden:"]);
+  });
+
+  it("leaves sentences and numbered lines alone", () => {
+    const steps = ["To serve, slice thinly.", "2 minutes later, stir:", "Whisk the eggs. Then add:", "Done."];
+    expect(markInstructionHeaders(steps)).toEqual(steps);
+  });
+});
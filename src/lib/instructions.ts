@@ -0,0 +1,124 @@
+// ---------------------------------------------------------------------------
+// Instruction sections — the structure inside a recipe's list of steps
+//
+// Instructions are stored one line per row, like ingredients, with the same
+// "## Name:" marker starting a section ("For the sauce", "To assemble").
+// A line starting "- " is a sub-step of the step above it: a direction or
+// tip that belongs to that step rather than standing on its own. Everything
+// else is a step. Steps are numbered from 1 within each section.
+// ---------------------------------------------------------------------------
+
+export interface InstructionStep {
+  /** Position of the step's line in the instructions, used to track progress. */
+  index: number;
+  /** 1-based, counted within its section. */
+  number: number;
+  text: string;
+  subSteps: string[];
+}
+
+export interface InstructionSection {
+  /** Null for steps before the first header (or in a recipe without sections). */
+  title: string | null;
+  steps: InstructionStep[];
+}
+
+export function isSectionHeader(line: string): boolean {
+  return line.startsWith("## ");
+}
+
+export function isSubStep(line: string): boolean {
+  return line.startsWith("- ");
+}
+
+/** "## For the sauce:" → "For the sauce" */
+export function sectionTitle(line: string): string {
+  return line.slice(3).trim().replace(/:$/, "").trim();
+}
+
+/** "- Whisk the eggs" → "Whisk the eggs" */
+export function subStepText(line: string): string {
+  return line.slice(2).trim();
+}
+
+export function toSectionHeader(title: string): string {
+  return `## ${title.trim().replace(/:$/, "").trim()}:`;
+}
+
+export function toSubStep(text: string): string {
+  return `- ${text.trim()}`;
+}
+
+/**
+ * Group instruction lines into sections of numbered steps. Sections without
+ * steps are dropped, and a sub-step with no step above it counts as a step.
+ */
+export function groupInstructions(instructions: string[]): InstructionSection[] {
+  const sections: InstructionSection[] = [];
+  let current: InstructionSection = { title: null, steps: [] };
+
+  instructions.forEach((line, index) => {
+    if (isSectionHeader(line)) {
+      if (current.steps.length > 0) sections.push(current);
+      current = { title: sectionTitle(line), steps: [] };
+      return;
+    }
+    const previous = current.steps[current.steps.length - 1];
+    if (isSubStep(line) && previous) {
+      previous.subSteps.push(subStepText(line));
+      return;
+    }
+    current.steps.push({
+      index,
+      number: current.steps.length + 1,
+      text: isSubStep(line) ? subStepText(line) : line,
+      subSteps: [],
+    });
+  });
+  if (current.steps.length > 0) sections.push(current);
+  return sections;
+}
+
+/** Number of steps, not counting headers and sub-steps. */
+export function countSteps(instructions: string[]): number {
+  return groupInstructions(instructions).reduce((n, section) => n + section.steps.length, 0);
+}
+
+/**
+ * Tidy edited instructions for saving: trim lines, drop empty steps,
+ * sub-steps and headers, and end every header with a colon.
+ */
+export function tidyInstructions(instructions: string[]): string[] {
+  return instructions.flatMap((line) => {
+    if (isSectionHeader(line)) {
+      const title = sectionTitle(line);
+      return title ? [toSectionHeader(title)] : [];
+    }
+    if (isSubStep(line)) {
+      const text = subStepText(line);
+      return text ? [toSubStep(text)] : [];
+    }
+    const text = line.trim();
+    return text ? [text] : [];
+  });
+}
+
+/** Common prefixes of section names that have no colon: "For the sauce", "To assemble". */
+const HEADER_PREFIX_PATTERN = /^(?:for\s+(?:the\s+)?|to\s+(?:assemble|serve|finish|make)\b)/i;
+
+/**
+ * Mark the section headers in a plain list of steps, for sources that don't
+ * structure them. A header is a short line that ends with ":" or reads like
+ * a section name ("For the filling", "To assemble"), has no sentence ending,
+ * and is followed by a step.
+ */
+export function markInstructionHeaders(instructions: string[]): string[] {
+  return instructions.map((line, i) => {
+    const trimmed = line.trim();
+    if (isSectionHeader(trimmed) || isSubStep(trimmed)) return trimmed;
+    if (i === instructions.length - 1 || trimmed.length > 50 || /^\d/.test(trimmed)) return trimmed;
+    if (trimmed.endsWith(":") && !/[.!?]/.test(trimmed)) return toSectionHeader(trimmed);
+    if (HEADER_PREFIX_PATTERN.test(trimmed) && !/[.!?,;]/.test(trimmed)) return toSectionHeader(trimmed);
+    return trimmed;
+  });
+}
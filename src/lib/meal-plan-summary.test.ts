@@ -0,0 +1,83 @@
+// ---------------------------------------------------------------------------
+// Tests for meal-plan-summary — weekly nutrition and cost rollups
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import type { MealPlan } from "@/types";
+import { estimateCost, type CostEstimate } from "./cost";
+import { estimateNutrition, type NutritionEstimate } from "./nutrition";
+import { summarizeWeek } from "./meal-plan-summary";
+
+const recipes: Record<string, { ingredients: string[]; servings: string }> = {
+  chili: { ingredients: ["1 lb ground beef", "1 (15 oz) can black beans", "1 onion"], servings: "4" },
+  oats: { ingredients: ["1 cup oats", "1 cup milk"], servings: "2" },
+  mystery: { ingredients: ["1 jar unicorn relish"], servings: "2" },
+};
+
+const nutrition = new Map<string, NutritionEstimate>(
+  Object.entries(recipes).map(([id, r]) => [id, estimateNutrition(r.ingredients, r.servings)]),
+);
+const costs = new Map<string, CostEstimate>(
+  Object.entries(recipes).map(([id, r]) => [id, estimateCost(r.ingredients, r.servings)]),
+);
+
+const emptyDay = () => ({ breakfast: [], lunch: [], dinner: [], snack: [] });
+
+const mealPlan: MealPlan = {
+  "2026-03-02": {
+    ...emptyDay(),
+    breakfast: [{ recipeId: "oats", isLeftover: false, position: 0 }],
+    dinner: [{ recipeId: "chili", isLeftover: false, position: 0 }],
+  },
+  "2026-03-03": {
+    ...emptyDay(),
+    lunch: [{ recipeId: "chili", isLeftover: true, position: 0 }],
+  },
+  "2026-03-04": {
+    ...emptyDay(),
+    dinner: [{ recipeId: "mystery", isLeftover: false, position: 0 }],
+  },
+};
+
+const weekDates = ["2026-03-02", "2026-03-03", "2026-03-04", "2026-03-05"];
+
+describe("summarizeWeek", () => {
+  const summary = summarizeWeek(weekDates, mealPlan, nutrition, costs);
+
+  it("counts leftovers as eaten but not cooked", () => {
+    const [mon, tue] = summary.days;
+
+    expect(mon.cooked).toBe(2);
+    expect(tue.cooked).toBe(0);
+    expect(tue.eaten).toBe(1);
+    expect(tue.cost).toBe(0);
+    expect(tue.nutrition?.total.calories).toBeCloseTo(nutrition.get("chili")!.perServing!.calories, 5);
+    expect(mon.cost).toBeCloseTo(costs.get("oats")!.total + costs.get("chili")!.total, 5);
+  });
+
+  it("marks days and the week incomplete when something can't be estimated", () => {
+    const wed = summary.days[2];
+
+    expect(wed.nutrition).toBeNull();
+    expect(wed.costComplete).toBe(false);
+    expect(summary.costComplete).toBe(false);
+  });
+
+  it("totals the week and averages calories over estimated days", () => {
+    const [mon, tue] = summary.days;
+
+    expect(summary.eaten).toBe(4);
+    expect(summary.cooked).toBe(3);
+    expect(summary.cost).toBeCloseTo(mon.cost, 5);
+    expect(summary.nutrition.calories).toBeCloseTo(mon.nutrition!.total.calories + tue.nutrition!.total.calories, 5);
+    expect(summary.averageCalories).toBeCloseTo(summary.nutrition.calories / 2, 5);
+  });
+
+  it("returns empty totals for an unplanned week", () => {
+    const empty = summarizeWeek(weekDates, {}, nutrition, costs);
+
+    expect(empty.eaten).toBe(0);
+    expect(empty.averageCalories).toBeNull();
+    expect(empty.days.every((d) => d.nutrition === null && d.cost === 0)).toBe(true);
+  });
+});
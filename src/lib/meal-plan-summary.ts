@@ -0,0 +1,101 @@
+// ---------------------------------------------------------------------------
+// Meal plan summary — per-day and per-week nutrition and cost
+//
+// Nutrition counts what's eaten: every planned entry, fresh or leftover, is
+// one serving. Cost counts what's cooked: each fresh entry buys the whole
+// recipe, and leftovers are free since they come out of an earlier batch.
+// ---------------------------------------------------------------------------
+
+import {
+  addNutrients,
+  estimateDayNutrition,
+  ZERO_NUTRIENTS,
+  type DayNutrition,
+  type Nutrients,
+  type NutritionEstimate,
+} from "./nutrition";
+import type { CostEstimate } from "./cost";
+import type { MealPlan, MealPlanDay } from "@/types";
+
+export interface DaySummary {
+  date: string;
+  /** Null when nothing planned that day can be estimated. */
+  nutrition: DayNutrition | null;
+  /** Cost of the recipes cooked that day, in dollars. */
+  cost: number;
+  /** Fresh (non-leftover) entries. */
+  cooked: number;
+  /** All entries, leftovers included. */
+  eaten: number;
+  /** False when a cooked recipe couldn't be fully priced. */
+  costComplete: boolean;
+}
+
+export interface WeekSummary {
+  days: DaySummary[];
+  nutrition: Nutrients;
+  cost: number;
+  cooked: number;
+  eaten: number;
+  /** Average calories over days with an estimate; null when there are none. */
+  averageCalories: number | null;
+  costComplete: boolean;
+}
+
+function summarizeDayCost(
+  day: MealPlanDay | undefined,
+  costs: Map<string, CostEstimate>,
+): Pick<DaySummary, "cost" | "cooked" | "eaten" | "costComplete"> {
+  let cost = 0;
+  let cooked = 0;
+  let eaten = 0;
+  let costComplete = true;
+
+  if (day) {
+    for (const slot of Object.keys(day) as (keyof MealPlanDay)[]) {
+      for (const entry of day[slot]) {
+        eaten++;
+        if (entry.isLeftover) continue;
+        cooked++;
+        const estimate = costs.get(entry.recipeId);
+        if (!estimate || estimate.missing.length > 0) costComplete = false;
+        cost += estimate?.total ?? 0;
+      }
+    }
+  }
+
+  return { cost, cooked, eaten, costComplete };
+}
+
+/**
+ * Roll a week of meal plan entries up into per-day and whole-week totals.
+ * `nutrition` and `costs` hold per-recipe estimates keyed by recipe id.
+ */
+export function summarizeWeek(
+  weekDates: string[],
+  mealPlan: MealPlan,
+  nutrition: Map<string, NutritionEstimate>,
+  costs: Map<string, CostEstimate>,
+): WeekSummary {
+  const days = weekDates.map((date): DaySummary => ({
+    date,
+    nutrition: estimateDayNutrition(mealPlan[date], nutrition),
+    ...summarizeDayCost(mealPlan[date], costs),
+  }));
+
+  const estimatedDays = days.filter((d) => d.nutrition !== null).length;
+  const weekNutrition = days.reduce(
+    (sum, d) => (d.nutrition ? addNutrients(sum, d.nutrition.total) : sum),
+    { ...ZERO_NUTRIENTS },
+  );
+
+  return {
+    days,
+    nutrition: weekNutrition,
+    cost: days.reduce((sum, d) => sum + d.cost, 0),
+    cooked: days.reduce((sum, d) => sum + d.cooked, 0),
+    eaten: days.reduce((sum, d) => sum + d.eaten, 0),
+    averageCalories: estimatedDays > 0 ? weekNutrition.calories / estimatedDays : null,
+    costComplete: days.every((d) => d.costComplete),
+  };
+}
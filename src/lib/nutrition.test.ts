@@ -0,0 +1,166 @@
+// ---------------------------------------------------------------------------
+// Tests for nutrition — per-recipe, per-serving and per-day estimates
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import type { MealPlanDay } from "@/types";
+import {
+  estimateDayNutrition,
+  estimateNutrition,
+  findNutrientEntry,
+  formatNutrient,
+  NUTRIENT_TABLE,
+  type NutritionEstimate,
+} from "./nutrition";
+
+// ---------------------------------------------------------------------------
+// findNutrientEntry
+// ---------------------------------------------------------------------------
+
+describe("findNutrientEntry", () => {
+  it("matches plurals and descriptive prefixes", () => {
+    expect(findNutrientEntry("Eggs")).toBe(NUTRIENT_TABLE.egg);
+    expect(findNutrientEntry("large eggs")).toBe(NUTRIENT_TABLE.egg);
+    expect(findNutrientEntry("boneless skinless chicken thighs")).toBe(NUTRIENT_TABLE["chicken thigh"]);
+  });
+
+  it("prefers the longest matching key", () => {
+    expect(findNutrientEntry("extra virgin olive oil")).toBe(NUTRIENT_TABLE["olive oil"]);
+  });
+
+  it("uses the first option of an either/or name", () => {
+    expect(findNutrientEntry("butter or margarine")).toBe(NUTRIENT_TABLE.butter);
+  });
+
+  it("returns null for unknown ingredients", () => {
+    expect(findNutrientEntry("dragon fruit")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// estimateNutrition
+// ---------------------------------------------------------------------------
+
+describe("estimateNutrition", () => {
+  it("weighs metric and imperial weights directly", () => {
+    const { total, counted } = estimateNutrition(["200 g rice", "1 lb ground beef"]);
+
+    expect(counted).toBe(2);
+    expect(total.calories).toBeCloseTo(365 * 2 + 215 * 4.536, 0);
+  });
+
+  it("converts volumes through the density tables", () => {
+    // 1 cup flour = 125 g, 2 tbsp butter = 28.4 g
+    const { total } = estimateNutrition(["1 cup flour", "2 tbsp butter"]);
+
+    expect(total.calories).toBeCloseTo(364 * 1.25 + 717 * 0.284, 0);
+  });
+
+  it("falls back to the nutrient table's grams per cup", () => {
+    const { total, counted } = estimateNutrition(["1 cup cooked quinoa"]);
+
+    expect(counted).toBe(1);
+    expect(total.protein).toBeCloseTo(14.1 * 1.7, 1);
+  });
+
+  it("weighs counted items and count units", () => {
+    const { total, counted } = estimateNutrition(["2 eggs", "3 cloves garlic", "1 onion"]);
+
+    expect(counted).toBe(3);
+    expect(total.calories).toBeCloseTo(143 * 1 + 149 * 0.09 + 40 * 1.1, 0);
+  });
+
+  it("uses a can's labelled weight", () => {
+    const { total } = estimateNutrition(["1 (15 oz) can black beans, drained"]);
+
+    expect(total.fiber).toBeCloseTo(6.9 * 4.25, 0);
+  });
+
+  it("reports lines it can't estimate and skips section headers", () => {
+    const estimate = estimateNutrition([
+      "## For the sauce:",
+      "salt to taste",
+      "1 cup dragon fruit",
+      "1 tsp salt",
+    ]);
+
+    expect(estimate.ingredientCount).toBe(3);
+    expect(estimate.counted).toBe(1);
+    expect(estimate.missing).toEqual(["salt to taste", "1 cup dragon fruit"]);
+  });
+
+  it("divides by the parsed serving count", () => {
+    const estimate = estimateNutrition(["4 eggs"], "Serves 4");
+
+    expect(estimate.servings).toBe(4);
+    expect(estimate.perServing?.protein).toBeCloseTo(6.3, 1);
+  });
+
+  it("leaves per-serving values null without a serving count", () => {
+    expect(estimateNutrition(["4 eggs"]).perServing).toBeNull();
+    expect(estimateNutrition(["4 eggs"], "a crowd").perServing).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// estimateDayNutrition
+// ---------------------------------------------------------------------------
+
+describe("estimateDayNutrition", () => {
+  const omelette = estimateNutrition(["2 eggs"], "1");
+  const stew = estimateNutrition(["1 lb beef", "2 cups water"], "4");
+  const mystery = estimateNutrition(["1 cup dragon fruit"], "2");
+  const estimates = new Map<string, NutritionEstimate>([
+    ["omelette", omelette],
+    ["stew", stew],
+    ["mystery", mystery],
+  ]);
+
+  const day = (entries: Partial<Record<keyof MealPlanDay, string[]>>): MealPlanDay => {
+    const toEntries = (ids: string[] = []) =>
+      ids.map((recipeId, position) => ({ recipeId, isLeftover: false, position }));
+    return {
+      breakfast: toEntries(entries.breakfast),
+      lunch: toEntries(entries.lunch),
+      dinner: toEntries(entries.dinner),
+      snack: toEntries(entries.snack),
+    };
+  };
+
+  it("adds one serving per planned entry", () => {
+    const result = estimateDayNutrition(day({ breakfast: ["omelette"], lunch: ["stew"], dinner: ["stew"] }), estimates);
+
+    expect(result?.counted).toBe(3);
+    expect(result?.complete).toBe(true);
+    expect(result?.total.calories).toBeCloseTo(
+      omelette.perServing!.calories + 2 * stew.perServing!.calories,
+      5,
+    );
+  });
+
+  it("flags days with recipes it couldn't estimate", () => {
+    const result = estimateDayNutrition(day({ breakfast: ["omelette"], dinner: ["mystery", "unknown"] }), estimates);
+
+    expect(result?.counted).toBe(1);
+    expect(result?.complete).toBe(false);
+  });
+
+  it("returns null for empty or unestimated days", () => {
+    expect(estimateDayNutrition(undefined, estimates)).toBeNull();
+    expect(estimateDayNutrition(day({}), estimates)).toBeNull();
+    expect(estimateDayNutrition(day({ dinner: ["mystery"] }), estimates)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatNutrient
+// ---------------------------------------------------------------------------
+
+describe("formatNutrient", () => {
+  it("rounds by unit and magnitude", () => {
+    expect(formatNutrient("calories", 1849.6)).toBe("1,850 kcal");
+    expect(formatNutrient("fiber", 3.44)).toBe("3.4 g");
+    expect(formatNutrient("protein", 42.6)).toBe("43 g");
+    expect(formatNutrient("sodium", 512.2)).toBe("512 mg");
+  });
+});
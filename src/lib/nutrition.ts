@@ -0,0 +1,433 @@
+// ---------------------------------------------------------------------------
+// Nutrition — offline per-recipe and per-serving estimates
+//
+// Each ingredient line is parsed, matched against a bundled nutrient table
+// (USDA-style values per 100 g) and converted to grams: weights directly,
+// volumes through the density tables, counts ("2 eggs", "3 cloves garlic")
+// through a typical per-item weight. Lines that can't be weighed or matched
+// are reported as missing rather than guessed.
+// ---------------------------------------------------------------------------
+
+import { parseIngredient, parseServings } from "./ingredient-parser";
+import { convertToGrams, lookupIngredient, normalizeUnit, toCups } from "./ingredient-aggregator";
+import type { MealPlanDay } from "@/types";
+
+export interface Nutrients {
+  calories: number; // kcal
+  protein: number; // g
+  fat: number; // g
+  carbs: number; // g
+  fiber: number; // g
+  sodium: number; // mg
+}
+
+export interface NutrientEntry {
+  /** Nutrients per 100 g. */
+  per100g: Nutrients;
+  /** Typical weight of one item ("1 egg", "2 cloves garlic"), in grams. */
+  each?: number;
+  /** Grams per US cup, for ingredients missing from INGREDIENT_DENSITIES. */
+  gramsPerCup?: number;
+}
+
+export interface NutritionEstimate {
+  total: Nutrients;
+  /** Null when the recipe has no parseable serving count. */
+  perServing: Nutrients | null;
+  servings: number | null;
+  /** Ingredient lines that contributed to the estimate. */
+  counted: number;
+  /** Ingredient lines considered (section headers excluded). */
+  ingredientCount: number;
+  /** Lines that couldn't be estimated, as written. */
+  missing: string[];
+}
+
+export const NUTRIENT_LABELS: Record<keyof Nutrients, { label: string; unit: string }> = {
+  calories: { label: "Calories", unit: "kcal" },
+  protein: { label: "Protein", unit: "g" },
+  carbs: { label: "Carbs", unit: "g" },
+  fat: { label: "Fat", unit: "g" },
+  fiber: { label: "Fiber", unit: "g" },
+  sodium: { label: "Sodium", unit: "mg" },
+};
+
+export const ZERO_NUTRIENTS: Nutrients = { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0, sodium: 0 };
+
+// ---------------------------------------------------------------------------
+// Nutrient table
+// ---------------------------------------------------------------------------
+
+function n(
+  calories: number,
+  protein: number,
+  fat: number,
+  carbs: number,
+  fiber: number,
+  sodium: number,
+  extra: Omit<NutrientEntry, "per100g"> = {},
+): NutrientEntry {
+  return { per100g: { calories, protein, fat, carbs, fiber, sodium }, ...extra };
+}
+
+/**
+ * Nutrients per 100 g, keyed by normalized ingredient name (see
+ * normalizeIngredientName). Values are rounded from USDA FoodData Central
+ * (SR Legacy) for the raw or as-sold form a recipe usually calls for —
+ * raw meat, dry grains and pasta, canned beans drained.
+ *   calories kcal · protein g · fat g · carbs g · fiber g · sodium mg
+ */
+export const NUTRIENT_TABLE: Record<string, NutrientEntry> = {
+  // Flours, grains & bread
+  flour: n(364, 10.3, 1, 76.3, 2.7, 2),
+  "all-purpose flour": n(364, 10.3, 1, 76.3, 2.7, 2),
+  "bread flour": n(361, 12, 1.7, 72.5, 2.4, 2),
+  "whole wheat flour": n(340, 13.2, 2.5, 72, 10.7, 2),
+  "almond flour": n(579, 21.2, 49.9, 21.6, 12.5, 1),
+  cornstarch: n(381, 0.3, 0.1, 91.3, 0.9, 9),
+  cornmeal: n(362, 8.1, 3.6, 76.9, 7.3, 35),
+  oat: n(379, 13.2, 6.5, 67.7, 10.1, 6),
+  rice: n(365, 7.1, 0.7, 80, 1.3, 5),
+  "brown rice": n(370, 7.9, 2.9, 77.2, 3.5, 7),
+  quinoa: n(368, 14.1, 6.1, 64.2, 7, 5, { gramsPerCup: 170 }),
+  pasta: n(371, 13, 1.5, 75, 3.2, 6, { gramsPerCup: 100 }),
+  spaghetti: n(371, 13, 1.5, 75, 3.2, 6),
+  penne: n(371, 13, 1.5, 75, 3.2, 6, { gramsPerCup: 100 }),
+  macaroni: n(371, 13, 1.5, 75, 3.2, 6, { gramsPerCup: 105 }),
+  noodle: n(384, 14.2, 4.4, 71.3, 3.3, 21, { gramsPerCup: 38 }),
+  bread: n(265, 9, 3.2, 49, 2.7, 491, { each: 30 }),
+  tortilla: n(304, 8.2, 8, 50, 3.5, 650, { each: 45 }),
+  breadcrumb: n(395, 13.4, 5.3, 72, 4.5, 732, { gramsPerCup: 108 }),
+  panko: n(395, 13.4, 5.3, 72, 4.5, 300, { gramsPerCup: 60 }),
+  // Sugars & sweeteners
+  sugar: n(387, 0, 0, 100, 0, 1),
+  "brown sugar": n(380, 0.1, 0, 98, 0, 28),
+  "powdered sugar": n(389, 0, 0, 99.8, 0, 2),
+  honey: n(304, 0.3, 0, 82.4, 0.2, 4),
+  "maple syrup": n(260, 0, 0.1, 67, 0, 12),
+  molasses: n(290, 0, 0.1, 74.7, 0, 37),
+  "cocoa powder": n(228, 19.6, 13.7, 57.9, 37, 21),
+  "chocolate chip": n(480, 4.2, 30, 63.9, 5.9, 11),
+  chocolate: n(546, 4.9, 31, 61, 7, 24),
+  "vanilla extract": n(288, 0.1, 0.1, 12.7, 0, 9, { gramsPerCup: 208 }),
+  // Fats & oils
+  butter: n(717, 0.9, 81.1, 0.1, 0, 11),
+  "salted butter": n(717, 0.9, 81.1, 0.1, 0, 643),
+  oil: n(884, 0, 100, 0, 0, 0),
+  "olive oil": n(884, 0, 100, 0, 0, 2),
+  "peanut butter": n(598, 22.2, 51.4, 22.3, 5, 459),
+  "coconut milk": n(230, 2.3, 23.8, 5.5, 2.2, 15, { gramsPerCup: 226 }),
+  mayonnaise: n(680, 1, 75, 0.6, 0, 635, { gramsPerCup: 220 }),
+  // Dairy & eggs
+  milk: n(61, 3.2, 3.3, 4.8, 0, 43),
+  buttermilk: n(40, 3.3, 0.9, 4.8, 0, 105),
+  "heavy cream": n(340, 2.8, 36, 2.7, 0, 27),
+  cream: n(340, 2.8, 36, 2.7, 0, 27, { gramsPerCup: 238 }),
+  "sour cream": n(198, 2.4, 19.4, 4.6, 0, 31),
+  yogurt: n(61, 3.5, 3.3, 4.7, 0, 46),
+  "greek yogurt": n(59, 10.2, 0.4, 3.6, 0, 36),
+  cheese: n(403, 24.9, 33.1, 1.3, 0, 621, { gramsPerCup: 113 }),
+  cheddar: n(403, 24.9, 33.1, 1.3, 0, 621, { gramsPerCup: 113 }),
+  parmesan: n(420, 36, 28, 3.2, 0, 1500, { gramsPerCup: 100 }),
+  mozzarella: n(300, 22.2, 22.4, 2.2, 0, 627, { gramsPerCup: 113 }),
+  feta: n(264, 14.2, 21.3, 4.1, 0, 1116, { gramsPerCup: 150 }),
+  "cream cheese": n(342, 5.9, 34.2, 4.1, 0, 321, { gramsPerCup: 232 }),
+  egg: n(143, 12.6, 9.5, 0.7, 0, 142, { each: 50 }),
+  // Meat & seafood (raw)
+  chicken: n(135, 21, 5, 0, 0, 70),
+  "chicken breast": n(120, 22.5, 2.6, 0, 0, 45, { each: 175 }),
+  "chicken thigh": n(144, 19.7, 7, 0, 0, 95, { each: 115 }),
+  beef: n(180, 20, 11, 0, 0, 60),
+  "ground beef": n(215, 18.6, 15, 0, 0, 66),
+  pork: n(185, 19, 12, 0, 0, 55),
+  bacon: n(417, 13, 40, 1.4, 0, 833, { each: 28 }),
+  sausage: n(300, 14, 27, 1, 0, 800, { each: 75 }),
+  ham: n(145, 21, 6, 1.5, 0, 1200),
+  "ground turkey": n(148, 19.7, 7.7, 0, 0, 69),
+  salmon: n(208, 20.4, 13.4, 0, 0, 59, { each: 170 }),
+  shrimp: n(85, 20.1, 0.5, 0, 0, 119, { each: 12 }),
+  tuna: n(116, 25.5, 0.8, 0, 0, 338),
+  tofu: n(144, 17.3, 8.7, 2.8, 2.3, 14, { gramsPerCup: 250 }),
+  // Beans & lentils (canned beans drained, lentils dry)
+  bean: n(84, 5.2, 0.4, 15.5, 5.4, 260, { gramsPerCup: 172 }),
+  "black bean": n(91, 6, 0.3, 16.6, 6.9, 240, { gramsPerCup: 172 }),
+  chickpea: n(139, 7, 2.6, 22.5, 6.4, 246, { gramsPerCup: 164 }),
+  lentil: n(352, 24.6, 1.1, 63.4, 10.7, 6, { gramsPerCup: 192 }),
+  // Vegetables
+  onion: n(40, 1.1, 0.1, 9.3, 1.7, 4, { each: 110, gramsPerCup: 160 }),
+  "red onion": n(40, 1.1, 0.1, 9.3, 1.7, 4, { each: 110, gramsPerCup: 160 }),
+  "green onion": n(32, 1.8, 0.2, 7.3, 2.6, 16, { each: 15, gramsPerCup: 100 }),
+  scallion: n(32, 1.8, 0.2, 7.3, 2.6, 16, { each: 15, gramsPerCup: 100 }),
+  shallot: n(72, 2.5, 0.1, 16.8, 3.2, 12, { each: 40, gramsPerCup: 160 }),
+  garlic: n(149, 6.4, 0.5, 33, 2.1, 17, { each: 3, gramsPerCup: 136 }),
+  ginger: n(80, 1.8, 0.8, 17.8, 2, 13, { gramsPerCup: 96 }),
+  carrot: n(41, 0.9, 0.2, 9.6, 2.8, 69, { each: 61, gramsPerCup: 128 }),
+  celery: n(14, 0.7, 0.2, 3, 1.6, 80, { each: 40, gramsPerCup: 101 }),
+  potato: n(77, 2, 0.1, 17.5, 2.2, 6, { each: 213, gramsPerCup: 150 }),
+  "sweet potato": n(86, 1.6, 0.1, 20.1, 3, 55, { each: 130, gramsPerCup: 133 }),
+  tomato: n(18, 0.9, 0.2, 3.9, 1.2, 5, { each: 123, gramsPerCup: 180 }),
+  "cherry tomato": n(18, 0.9, 0.2, 3.9, 1.2, 5, { each: 17, gramsPerCup: 149 }),
+  "diced tomato": n(32, 1.6, 0.3, 7.3, 1.9, 180, { gramsPerCup: 240 }),
+  "crushed tomato": n(32, 1.6, 0.3, 7.3, 1.9, 180, { gramsPerCup: 242 }),
+  "tomato sauce": n(24, 1.2, 0.3, 5.3, 1.5, 474, { gramsPerCup: 245 }),
+  "tomato paste": n(82, 4.3, 0.5, 18.9, 4.1, 59, { gramsPerCup: 262 }),
+  "bell pepper": n(31, 1, 0.3, 6, 2.1, 4, { each: 119, gramsPerCup: 149 }),
+  jalapeno: n(29, 0.9, 0.4, 6.5, 2.8, 3, { each: 14 }),
+  "jalapeno pepper": n(29, 0.9, 0.4, 6.5, 2.8, 3, { each: 14 }),
+  spinach: n(23, 2.9, 0.4, 3.6, 2.2, 79, { gramsPerCup: 30 }),
+  kale: n(35, 2.9, 1.5, 4.4, 4.1, 53, { gramsPerCup: 21 }),
+  lettuce: n(17, 1.2, 0.3, 3.3, 2.1, 8, { each: 600, gramsPerCup: 47 }),
+  broccoli: n(34, 2.8, 0.4, 6.6, 2.6, 33, { each: 300, gramsPerCup: 91 }),
+  cauliflower: n(25, 1.9, 0.3, 5, 2, 30, { each: 575, gramsPerCup: 107 }),
+  cabbage: n(25, 1.3, 0.1, 5.8, 2.5, 18, { each: 900, gramsPerCup: 89 }),
+  mushroom: n(22, 3.1, 0.3, 3.3, 1, 5, { each: 18, gramsPerCup: 70 }),
+  zucchini: n(17, 1.2, 0.3, 3.1, 1, 8, { each: 196, gramsPerCup: 124 }),
+  cucumber: n(15, 0.7, 0.1, 3.6, 0.5, 2, { each: 301, gramsPerCup: 119 }),
+  corn: n(86, 3.3, 1.4, 19, 2.7, 15, { each: 90, gramsPerCup: 154 }),
+  pea: n(81, 5.4, 0.4, 14.5, 5.1, 5, { gramsPerCup: 145 }),
+  "green bean": n(31, 1.8, 0.2, 7, 2.7, 6, { gramsPerCup: 100 }),
+  avocado: n(160, 2, 14.7, 8.5, 6.7, 7, { each: 150, gramsPerCup: 150 }),
+  // Herbs (fresh)
+  basil: n(23, 3.2, 0.6, 2.7, 1.6, 4, { gramsPerCup: 21 }),
+  cilantro: n(23, 2.1, 0.5, 3.7, 2.8, 46, { gramsPerCup: 16 }),
+  parsley: n(36, 3, 0.8, 6.3, 3.3, 56, { gramsPerCup: 60 }),
+  // Fruit
+  apple: n(52, 0.3, 0.2, 13.8, 2.4, 1, { each: 182, gramsPerCup: 125 }),
+  banana: n(89, 1.1, 0.3, 22.8, 2.6, 1, { each: 118, gramsPerCup: 225 }),
+  blueberry: n(57, 0.7, 0.3, 14.5, 2.4, 1, { gramsPerCup: 148 }),
+  strawberry: n(32, 0.7, 0.3, 7.7, 2, 1, { each: 12, gramsPerCup: 152 }),
+  orange: n(47, 0.9, 0.1, 11.8, 2.4, 0, { each: 131 }),
+  lemon: n(29, 1.1, 0.3, 9.3, 2.8, 2, { each: 84 }),
+  "lemon juice": n(22, 0.4, 0.2, 6.9, 0.3, 1, { gramsPerCup: 244 }),
+  lime: n(30, 0.7, 0.2, 10.5, 2.8, 2, { each: 67 }),
+  "lime juice": n(25, 0.4, 0.1, 8.4, 0.4, 2, { gramsPerCup: 242 }),
+  raisin: n(299, 3.1, 0.5, 79.2, 3.7, 11),
+  // Nuts & seeds
+  almond: n(579, 21.2, 49.9, 21.6, 12.5, 1, { gramsPerCup: 143 }),
+  walnut: n(654, 15.2, 65.2, 13.7, 6.7, 2, { gramsPerCup: 117 }),
+  pecan: n(691, 9.2, 72, 13.9, 9.6, 0, { gramsPerCup: 109 }),
+  peanut: n(567, 25.8, 49.2, 16.1, 8.5, 18, { gramsPerCup: 146 }),
+  "pine nut": n(673, 13.7, 68.4, 13.1, 3.7, 2, { gramsPerCup: 135 }),
+  "sesame seed": n(573, 17.7, 49.7, 23.5, 11.8, 11, { gramsPerCup: 144 }),
+  tahini: n(595, 17, 53.8, 21.2, 9.3, 115, { gramsPerCup: 240 }),
+  // Liquids, sauces & condiments
+  water: n(0, 0, 0, 0, 0, 0),
+  broth: n(6, 0.6, 0.2, 0.4, 0, 380, { gramsPerCup: 240 }),
+  stock: n(6, 0.6, 0.2, 0.4, 0, 380, { gramsPerCup: 240 }),
+  wine: n(85, 0.1, 0, 2.6, 0, 5, { gramsPerCup: 235 }),
+  "soy sauce": n(53, 8.1, 0.6, 4.9, 0.8, 5493, { gramsPerCup: 255 }),
+  "fish sauce": n(35, 5.1, 0, 3.6, 0, 7851, { gramsPerCup: 288 }),
+  vinegar: n(18, 0, 0, 0, 0, 2, { gramsPerCup: 239 }),
+  "balsamic vinegar": n(88, 0.5, 0, 17, 0, 23, { gramsPerCup: 255 }),
+  ketchup: n(101, 1, 0.1, 27, 0.3, 907, { gramsPerCup: 240 }),
+  mustard: n(60, 3.7, 3.3, 5.8, 4, 1104, { gramsPerCup: 249 }),
+  "dijon mustard": n(60, 3.7, 3.3, 5.8, 4, 1104, { gramsPerCup: 249 }),
+  // Leaveners, salt & spices
+  salt: n(0, 0, 0, 0, 0, 38758),
+  "baking soda": n(0, 0, 0, 0, 0, 27360),
+  "baking powder": n(53, 0, 0, 27.7, 0.2, 10600),
+  yeast: n(325, 40.4, 7.6, 41.2, 26.9, 51, { gramsPerCup: 192 }),
+  pepper: n(251, 10.4, 3.3, 64, 25.3, 20, { gramsPerCup: 116 }),
+  "black pepper": n(251, 10.4, 3.3, 64, 25.3, 20, { gramsPerCup: 116 }),
+  cinnamon: n(247, 4, 1.2, 80.6, 53.1, 10, { gramsPerCup: 125 }),
+  cumin: n(375, 17.8, 22.3, 44.2, 10.5, 168, { gramsPerCup: 96 }),
+  paprika: n(282, 14.1, 12.9, 54, 34.9, 68, { gramsPerCup: 109 }),
+  "chili powder": n(282, 13.5, 14.3, 49.7, 34.8, 2867, { gramsPerCup: 128 }),
+  oregano: n(265, 9, 4.3, 68.9, 42.5, 25, { gramsPerCup: 45 }),
+};
+
+// ---------------------------------------------------------------------------
+// Lookup & weighing
+// ---------------------------------------------------------------------------
+
+/** Fixed weights for units that don't depend on the ingredient. */
+const UNIT_GRAMS: Record<string, number> = {
+  can: 400,
+  pinch: 0.36,
+  dash: 0.6,
+  handful: 30,
+  bunch: 100,
+  sprig: 1,
+};
+
+/** Units that mean "one of the thing" — weighed with the entry's `each`. */
+const COUNT_UNITS = new Set(["clove", "slice", "piece", "head", "stalk"]);
+
+/** "(14 oz) can tomatoes" / "(400g) tin chickpeas" — package size before the name. */
+const PACKAGE_SIZE_RE = /^\((\d+(?:\.\d+)?)\s*-?\s*(oz|ounces?|g|grams?|lbs?|pounds?|ml)\)\s*(?:cans?|tins?|packages?|pkgs?|jars?|bags?|boxes?)?\s*/i;
+
+/**
+ * Find the nutrient entry for an ingredient name, so "large eggs" hits "egg"
+ * and "boneless skinless chicken thighs" hits "chicken thigh". Only the
+ * first option of "butter or margarine" counts.
+ */
+export function findNutrientEntry(name: string): NutrientEntry | null {
+  return lookupIngredient(NUTRIENT_TABLE, name.split(/\s+or\s+/)[0]);
+}
+
+export interface WeighedIngredient {
+  /** Ingredient name with any package size ("(14 oz) can") removed. */
+  name: string;
+  /** Null when the line can't be weighed. */
+  grams: number | null;
+  entry: NutrientEntry | null;
+}
+
+/**
+ * Parse an ingredient line and weigh it: weights convert directly, volumes
+ * through the density tables, counts through the entry's typical weight,
+ * and "1 (14 oz) can tomatoes" by the labelled package size.
+ */
+export function weighIngredient(raw: string): WeighedIngredient {
+  const parsed = parseIngredient(raw);
+  const qty = parsed.quantity;
+  let name = parsed.name;
+
+  const pkg = name.match(PACKAGE_SIZE_RE);
+  if (pkg) name = name.slice(pkg[0].length);
+  const entry = findNutrientEntry(name);
+  if (qty === null) return { name, grams: null, entry };
+
+  if (pkg) {
+    return { name, grams: convertToGrams(qty * parseFloat(pkg[1]), pkg[2], "water"), entry };
+  }
+  return { name, grams: ingredientGrams(qty, normalizeUnit(parsed.unit), name, entry), entry };
+}
+
+function ingredientGrams(qty: number, unit: string | null, name: string, entry: NutrientEntry | null): number | null {
+  const weighed = convertToGrams(qty, unit, name);
+  if (weighed !== null) return weighed;
+
+  if (unit) {
+    const cups = toCups(qty, unit);
+    if (cups !== null) return entry?.gramsPerCup ? cups * entry.gramsPerCup : null;
+    if (UNIT_GRAMS[unit] !== undefined) return qty * UNIT_GRAMS[unit];
+    if (!COUNT_UNITS.has(unit)) return null;
+  }
+  return entry?.each ? qty * entry.each : null;
+}
+
+function addScaled(into: Nutrients, per100g: Nutrients, grams: number): void {
+  const factor = grams / 100;
+  into.calories += per100g.calories * factor;
+  into.protein += per100g.protein * factor;
+  into.fat += per100g.fat * factor;
+  into.carbs += per100g.carbs * factor;
+  into.fiber += per100g.fiber * factor;
+  into.sodium += per100g.sodium * factor;
+}
+
+export function addNutrients(a: Nutrients, b: Nutrients): Nutrients {
+  return {
+    calories: a.calories + b.calories,
+    protein: a.protein + b.protein,
+    fat: a.fat + b.fat,
+    carbs: a.carbs + b.carbs,
+    fiber: a.fiber + b.fiber,
+    sodium: a.sodium + b.sodium,
+  };
+}
+
+export function scaleNutrients(nutrients: Nutrients, factor: number): Nutrients {
+  return {
+    calories: nutrients.calories * factor,
+    protein: nutrients.protein * factor,
+    fat: nutrients.fat * factor,
+    carbs: nutrients.carbs * factor,
+    fiber: nutrients.fiber * factor,
+    sodium: nutrients.sodium * factor,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Estimates
+// ---------------------------------------------------------------------------
+
+/**
+ * Estimate nutrition for a recipe's ingredient list. `servings` is the raw
+ * servings string ("4", "Serves 6"); per-serving values are null when it
+ * has no number in it.
+ */
+export function estimateNutrition(
+  ingredients: string[],
+  servings?: string | null,
+): NutritionEstimate {
+  const total: Nutrients = { ...ZERO_NUTRIENTS };
+  const missing: string[] = [];
+  let counted = 0;
+  let ingredientCount = 0;
+
+  for (const raw of ingredients) {
+    if (raw.trim().startsWith("## ") || !raw.trim()) continue;
+    ingredientCount++;
+
+    const { grams, entry } = weighIngredient(raw);
+    if (!entry || grams === null) {
+      missing.push(raw.trim());
+      continue;
+    }
+
+    addScaled(total, entry.per100g, grams);
+    counted++;
+  }
+
+  const servingCount = parseServings(servings);
+  return {
+    total,
+    perServing: servingCount ? scaleNutrients(total, 1 / servingCount) : null,
+    servings: servingCount,
+    counted,
+    ingredientCount,
+    missing,
+  };
+}
+
+/** Round for display: whole kcal/mg, one decimal under 10 g, whole grams otherwise. */
+export function formatNutrient(key: keyof Nutrients, value: number): string {
+  const { unit } = NUTRIENT_LABELS[key];
+  if (unit === "g" && value < 10) return `${Math.round(value * 10) / 10} g`;
+  return `${Math.round(value).toLocaleString("en-US")} ${unit}`;
+}
+
+// ---------------------------------------------------------------------------
+// Meal plan rollup
+// ---------------------------------------------------------------------------
+
+export interface DayNutrition {
+  total: Nutrients;
+  /** Planned entries that contributed one serving to the total. */
+  counted: number;
+  /** False when any planned recipe has no serving count or no usable ingredients. */
+  complete: boolean;
+}
+
+/**
+ * Total one serving of every recipe planned for a day — each entry, fresh
+ * or leftover, is one person eating one portion. Returns null for an empty
+ * day or when none of its recipes can be estimated.
+ */
+export function estimateDayNutrition(
+  day: MealPlanDay | undefined,
+  estimates: Map<string, NutritionEstimate>,
+): DayNutrition | null {
+  if (!day) return null;
+
+  let total: Nutrients = { ...ZERO_NUTRIENTS };
+  let counted = 0;
+  let complete = true;
+
+  for (const slot of Object.keys(day) as (keyof MealPlanDay)[]) {
+    for (const entry of day[slot]) {
+      const estimate = estimates.get(entry.recipeId);
+      if (!estimate?.perServing || estimate.counted === 0) {
+        complete = false;
+        continue;
+      }
+      total = addNutrients(total, estimate.perServing);
+      counted++;
+      if (estimate.missing.length > 0) complete = false;
+    }
+  }
+
+  return counted > 0 ? { total, counted, complete } : null;
+}
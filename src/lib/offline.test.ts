@@ -0,0 +1,61 @@
+// ---------------------------------------------------------------------------
+// Tests for offline support — network error detection, id swaps, storage
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import { AuthRetryableFetchError } from "@supabase/supabase-js";
+import { isNetworkError, replaceId, retryDelay, loadOffline, saveOffline } from "./offline";
+
+describe("isNetworkError", () => {
+  it("recognizes fetch failures in each browser's wording", () => {
+    expect(isNetworkError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isNetworkError(new TypeError("Load failed"))).toBe(true);
+    expect(isNetworkError(new TypeError("NetworkError when attempting to fetch resource."))).toBe(true);
+  });
+
+  it("recognizes PostgREST and auth errors for calls that never connected", () => {
+    expect(isNetworkError({ message: "TypeError: Failed to fetch", details: "", hint: "", code: "" })).toBe(true);
+    expect(isNetworkError(new AuthRetryableFetchError("Failed to fetch", 0))).toBe(true);
+  });
+
+  it("leaves errors the server returned alone", () => {
+    expect(isNetworkError({ message: "permission denied for table recipes", code: "42501" })).toBe(false);
+    expect(isNetworkError(new Error("Not authenticated"))).toBe(false);
+  });
+});
+
+describe("replaceId", () => {
+  it("swaps the id in strings, arrays and object keys", () => {
+    const state = {
+      mealPlan: { "2026-02-22": { dinner: [{ recipeId: "temp-1", position: 0 }] } },
+      checkedIngredients: { "temp-1": [0, 2] },
+      args: ["temp-1", true],
+    };
+
+    expect(replaceId(state, "temp-1", "r1")).toEqual({
+      mealPlan: { "2026-02-22": { dinner: [{ recipeId: "r1", position: 0 }] } },
+      checkedIngredients: { r1: [0, 2] },
+      args: ["r1", true],
+    });
+  });
+
+  it("leaves other values and non-plain objects as they are", () => {
+    const steps = new Set([1]);
+    expect(replaceId({ text: "temp-10", steps }, "temp-1", "r1")).toEqual({ text: "temp-10", steps });
+  });
+});
+
+describe("retryDelay", () => {
+  it("backs off exponentially up to a minute", () => {
+    expect(retryDelay(1)).toBe(2000);
+    expect(retryDelay(3)).toBe(8000);
+    expect(retryDelay(20)).toBe(60_000);
+  });
+});
+
+describe("offline storage", () => {
+  it("is a no-op without IndexedDB", async () => {
+    await saveOffline("queue", [{ id: "m1" }]);
+    expect(await loadOffline("queue")).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+// ---------------------------------------------------------------------------
+// Offline support — the device's copy of the store and its mutation queue
+//
+// The store keeps a snapshot of its hydrated state in IndexedDB so the app
+// opens with data when there's no signal, and queues service calls made
+// while offline to replay in order once the connection is back. Without
+// IndexedDB (some private browsing modes, tests) both are no-ops and the
+// app behaves as it does online.
+// ---------------------------------------------------------------------------
+
+import { isAuthRetryableFetchError } from "@supabase/supabase-js";
+
+/** A service call made while offline, waiting to be replayed. */
+export interface QueuedMutation<Op extends string = string> {
+  id: string;
+  /** Service function to call, e.g. "toggleShoppingItem". */
+  op: Op;
+  /** Its arguments after the client. */
+  args: unknown[];
+  /** Placeholder id of the item an add created, swapped for the real one once saved. */
+  tempId?: string;
+  queuedAt: string;
+  /** Replays that couldn't reach the server. */
+  attempts: number;
+}
+
+/** What a snapshot was saved as: whose it is and when. */
+export interface OfflineSnapshot<T> {
+  userId: string;
+  savedAt: string;
+  state: T;
+}
+
+/** Whether the browser knows it has no connection. */
+export function isOffline(): boolean {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+const NETWORK_ERROR = /failed to fetch|fetch failed|load failed|networkerror|network request failed/i;
+
+/**
+ * Whether a failed call never reached the server (as opposed to the server
+ * refusing it). Covers fetch rejections in each browser's wording, which
+ * PostgREST errors carry in their message, and auth calls that couldn't
+ * connect.
+ */
+export function isNetworkError(e: unknown): boolean {
+  if (isAuthRetryableFetchError(e)) return true;
+  const message = e instanceof Error || (typeof e === "object" && e !== null && "message" in e)
+    ? String((e as { message: unknown }).message)
+    : String(e);
+  return NETWORK_ERROR.test(message);
+}
+
+/** Wait before retrying a replay: 2s, 4s, 8s… up to a minute. */
+export function retryDelay(attempts: number): number {
+  return Math.min(1000 * 2 ** Math.max(attempts, 1), 60_000);
+}
+
+/**
+ * Replace every occurrence of an id in a value — strings, array items and
+ * object keys (checked ingredients are keyed by recipe id) — as a new value.
+ */
+export function replaceId<T>(value: T, from: string, to: string): T {
+  if (value === from) return to as T;
+  if (Array.isArray(value)) return value.map((v) => replaceId(v, from, to)) as T;
+  if (typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k === from ? to : k, replaceId(v, from, to)])
+    ) as T;
+  }
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB persistence
+// ---------------------------------------------------------------------------
+
+const DB_NAME = "cooksnap";
+const DB_VERSION = 1;
+const OBJECT_STORE = "offline";
+
+export type OfflineKey = "snapshot" | "queue";
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  dbPromise ??= new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(OBJECT_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error("Failed to open offline storage:", request.error?.message);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+/** Run one request against the object store; resolves null when storage is unavailable. */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise((resolve) => {
+    const request = run(db.transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error("Offline storage request failed:", request.error?.message);
+      resolve(null);
+    };
+  });
+}
+
+export async function loadOffline<T>(key: OfflineKey): Promise<T | null> {
+  return ((await withStore("readonly", (store) => store.get(key))) as T | undefined) ?? null;
+}
+
+export async function saveOffline(key: OfflineKey, value: unknown): Promise<void> {
+  await withStore("readwrite", (store) => store.put(value, key));
+}
+
+/**
+ * Forget everything stored for offline use (on sign-out), including the
+ * pages the service worker kept (its static asset cache isn't personal).
+ */
+export async function clearOffline(): Promise<void> {
+  await withStore("readwrite", (store) => store.clear());
+  if (typeof caches === "undefined") return;
+  for (const key of await caches.keys()) {
+    if (key.startsWith("cooksnap-pages-")) await caches.delete(key);
+  }
+}
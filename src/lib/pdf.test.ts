@@ -0,0 +1,77 @@
+// ---------------------------------------------------------------------------
+// Tests for pdf — text metrics, wrapping and the file structure
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import { createPdf, textWidth, wrapText } from "./pdf";
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe("textWidth", () => {
+  it("measures Helvetica advance widths", () => {
+    // "i" is 222, "W" is 944 units per 1000 em
+    expect(textWidth("i", "regular", 10)).toBeCloseTo(2.22);
+    expect(textWidth("W", "regular", 10)).toBeCloseTo(9.44);
+  });
+
+  it("measures bold wider than regular", () => {
+    expect(textWidth("Bread", "bold", 12)).toBeGreaterThan(textWidth("Bread", "regular", 12));
+  });
+
+  it("measures fractions WinAnsi lacks by their stand-in", () => {
+    expect(textWidth("⅓", "regular", 10)).toBeCloseTo(textWidth("1/3", "regular", 10));
+  });
+});
+
+describe("wrapText", () => {
+  it("breaks at spaces to fit the width", () => {
+    const lines = wrapText("one two three four five six", "regular", 10, 50);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(" ")).toBe("one two three four five six");
+    for (const line of lines) expect(textWidth(line, "regular", 10)).toBeLessThanOrEqual(50);
+  });
+
+  it("splits words too long for a line", () => {
+    const lines = wrapText("https://example.com/a-very-long-recipe-address", "regular", 10, 60);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join("")).toBe("https://example.com/a-very-long-recipe-address");
+  });
+
+  it("returns no lines for blank text", () => {
+    expect(wrapText("   ", "regular", 10, 100)).toEqual([]);
+  });
+});
+
+describe("createPdf", () => {
+  it("writes one page object per page with a valid cross-reference table", () => {
+    const file = decode(createPdf([[{ type: "text", x: 10, y: 20, text: "Hi", font: "regular", size: 12 }], []], "Test"));
+
+    expect(file.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(file.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(file).toContain("/Count 2");
+    expect(file.match(/\/Type \/Page /g)).toHaveLength(2);
+
+    // Every xref entry points at the start of its object
+    const xrefAt = Number(file.match(/startxref\n(\d+)/)![1]);
+    const entries = file.slice(xrefAt).split("\n").slice(3).filter((l) => / 00000 n $/.test(l));
+    entries.forEach((entry, i) => {
+      expect(file.slice(Number(entry.slice(0, 10)))).toMatch(new RegExp(`^${i + 1} 0 obj`));
+    });
+  });
+
+  it("places text from the top of the page", () => {
+    const file = decode(createPdf([[{ type: "text", x: 10, y: 20, text: "Hi", font: "bold", size: 12 }]], "Test"));
+
+    expect(file).toContain("BT /F2 12 Tf 0 g 10 772 Td (Hi) Tj ET");
+  });
+
+  it("escapes delimiters and encodes non-ASCII as WinAnsi octal", () => {
+    const file = decode(createPdf([[{ type: "text", x: 0, y: 0, text: "Crème (½) – ok", font: "regular", size: 10 }]], "Crème"));
+
+    expect(file).toContain("(Cr\\350me \\(\\275\\) \\226 ok)");
+    expect(file).toContain("/Title (Cr\\350me)");
+    expect([...file].every((ch) => ch.charCodeAt(0) < 0x80)).toBe(true);
+  });
+});
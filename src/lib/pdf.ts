@@ -0,0 +1,226 @@
+// ---------------------------------------------------------------------------
+// PDF — just enough of the format for printable recipe cards and meal plans
+//
+// Text is set in the standard Helvetica faces, which every PDF reader has,
+// so no fonts are embedded and the file stays small. Pages are laid out
+// top-down: `y` is the distance from the top edge in points. Text is encoded
+// as WinAnsi (Windows-1252); characters outside it get an obvious stand-in
+// where there is one ("⅓" → "1/3") and are dropped otherwise.
+// ---------------------------------------------------------------------------
+
+/** US Letter, in points. */
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export type PdfFont = "regular" | "bold" | "italic";
+
+/** Something drawn on a page. `gray` is 0 (black) to 1 (white). */
+export type PdfItem =
+  | { type: "text"; x: number; y: number; text: string; font: PdfFont; size: number; gray?: number }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number; gray?: number }
+  | { type: "box"; x: number; y: number; width: number; height: number };
+
+export type PdfPage = PdfItem[];
+
+// ---------------------------------------------------------------------------
+// Encoding & metrics
+// ---------------------------------------------------------------------------
+
+/** WinAnsi codes for the characters it places outside Latin-1. */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87,
+  "ˆ": 0x88, "‰": 0x89, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91,
+  "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "˜": 0x98,
+  "™": 0x99, "š": 0x9a, "›": 0x9b, "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+/** Stand-ins for common characters WinAnsi lacks. */
+const TRANSLITERATIONS: Record<string, string> = {
+  "⅓": "1/3", "⅔": "2/3", "⅕": "1/5", "⅙": "1/6", "⅛": "1/8", "⅜": "3/8", "⅝": "5/8", "⅞": "7/8",
+  "⁄": "/", "−": "-", "‐": "-", "‑": "-", "\u2009": " ", "\u202f": " ", "\u200b": "",
+};
+
+/** Helvetica advance widths for ASCII 32–126, in 1/1000 em. */
+const REGULAR_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/** Helvetica-Bold advance widths for ASCII 32–126. */
+const BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** Widths of the non-ASCII characters recipes use most; anything else is measured by its base letter. */
+const EXTRA_WIDTHS: Record<string, number> = {
+  "½": 834, "¼": 834, "¾": 834, "°": 400, "×": 584, "–": 556, "—": 1000,
+  "‘": 222, "’": 222, "“": 333, "”": 333, "•": 350, "…": 1000, "\u00a0": 278,
+};
+
+/** Rewrite text into characters WinAnsi can encode. */
+function toWinAnsiText(text: string): string {
+  let out = "";
+  for (const ch of text.normalize("NFC")) {
+    const code = ch.codePointAt(0)!;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || ch in WIN_ANSI_EXTRAS) {
+      out += ch;
+    } else if (ch in TRANSLITERATIONS) {
+      out += TRANSLITERATIONS[ch];
+    } else if (ch === "\t" || ch === "\n" || ch === "\r") {
+      out += " ";
+    } else {
+      // Accented letters beyond Latin-1 ("ł", "ő") keep their base letter
+      const base = ch.normalize("NFD")[0];
+      if (base !== ch && base.codePointAt(0)! < 0x7f) out += base;
+    }
+  }
+  return out;
+}
+
+function charWidth(ch: string, font: PdfFont): number {
+  const code = ch.codePointAt(0)!;
+  const table = font === "bold" ? BOLD_WIDTHS : REGULAR_WIDTHS;
+  if (code >= 0x20 && code <= 0x7e) return table[code - 0x20];
+  if (ch in EXTRA_WIDTHS) return EXTRA_WIDTHS[ch];
+  const base = ch.normalize("NFD").codePointAt(0)!;
+  return base >= 0x20 && base <= 0x7e ? table[base - 0x20] : 556;
+}
+
+/** Width of a line of text in points. */
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  let width = 0;
+  for (const ch of toWinAnsiText(text)) width += charWidth(ch, font);
+  return (width * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than `maxWidth`, at spaces where possible.
+ * Words too long for a line on their own are split.
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const words = toWinAnsiText(text).split(/ +/).filter(Boolean);
+  const lines: string[] = [];
+  let line = "";
+
+  for (let word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (textWidth(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    while (textWidth(word, font, size) > maxWidth && word.length > 1) {
+      let cut = word.length - 1;
+      while (cut > 1 && textWidth(word.slice(0, cut), font, size) > maxWidth) cut--;
+      lines.push(word.slice(0, cut));
+      word = word.slice(cut);
+    }
+    line = word;
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+  italic: { name: "F3", baseFont: "Helvetica-Oblique" },
+};
+
+function num(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+/** A PDF literal string. Bytes above ASCII are octal escapes, so the file stays 7-bit. */
+function pdfString(text: string): string {
+  let out = "(";
+  for (const ch of toWinAnsiText(text)) {
+    const code = WIN_ANSI_EXTRAS[ch] ?? ch.codePointAt(0)!;
+    if (ch === "(" || ch === ")" || ch === "\\") out += `\\${ch}`;
+    else if (code > 0x7e) out += `\\${code.toString(8).padStart(3, "0")}`;
+    else out += ch;
+  }
+  return out + ")";
+}
+
+function contentStream(page: PdfPage): string {
+  const ops: string[] = [];
+  for (const item of page) {
+    if (item.type === "text") {
+      const { name } = FONT_RESOURCES[item.font];
+      ops.push(
+        `BT /${name} ${num(item.size)} Tf ${num(item.gray ?? 0)} g ` +
+        `${num(item.x)} ${num(PAGE_HEIGHT - item.y)} Td ${pdfString(item.text)} Tj ET`
+      );
+    } else if (item.type === "line") {
+      ops.push(
+        `0.75 w ${num(item.gray ?? 0)} G ${num(item.x1)} ${num(PAGE_HEIGHT - item.y1)} m ` +
+        `${num(item.x2)} ${num(PAGE_HEIGHT - item.y2)} l S`
+      );
+    } else {
+      ops.push(
+        `0.75 w 0 G ${num(item.x)} ${num(PAGE_HEIGHT - item.y - item.height)} ` +
+        `${num(item.width)} ${num(item.height)} re S`
+      );
+    }
+  }
+  return ops.join("\n");
+}
+
+/** Assemble pages into a PDF file. */
+export function createPdf(pages: PdfPage[], title: string): Uint8Array {
+  // Fixed objects: 1 catalog, 2 page tree, 3 info, 4–6 fonts; then a page
+  // and its content stream for each page
+  const fontIds = { regular: 4, bold: 5, italic: 6 };
+  const firstPageId = 7;
+  const pageIds = pages.map((_, i) => firstPageId + i * 2);
+  const fonts = (Object.keys(FONT_RESOURCES) as PdfFont[])
+    .map((font) => `/${FONT_RESOURCES[font].name} ${fontIds[font]} 0 R`)
+    .join(" ");
+
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    `<< /Title ${pdfString(title)} /Producer (CookSnap) >>`,
+    ...(Object.keys(FONT_RESOURCES) as PdfFont[]).map(
+      (font) =>
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding /WinAnsiEncoding >>`
+    ),
+  ];
+  pages.forEach((page, i) => {
+    const stream = contentStream(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << ${fonts} >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Everything is ASCII, so string offsets are byte offsets
+  let file = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(file.length);
+    file += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xref = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) file += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(file);
+}
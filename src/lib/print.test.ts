@@ -0,0 +1,136 @@
+// ---------------------------------------------------------------------------
+// Tests for print — recipe cards and the week plan as PDF
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import type { MealPlan, Recipe } from "@/types";
+import { printableIngredients, recipeCardPdf, weekPlanPdf, weekShoppingList } from "./print";
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+const pageCount = (bytes: Uint8Array) => Number(decode(bytes).match(/\/Count (\d+)/)![1]);
+
+const recipe: Recipe = {
+  id: "r1",
+  title: "Lemon Chicken",
+  image: null,
+  ingredients: ["## Marinade", "2 tbsp olive oil", "1 lemon, juiced", "## Chicken", "1 lb chicken thighs"],
+  instructions: ["Whisk the marinade.", "Roast at 400°F for 30 minutes."],
+  sourceUrl: "https://example.com/lemon-chicken",
+  tags: [],
+  createdAt: "2026-10-01T00:00:00Z",
+  servings: "4",
+  prepTime: "PT10M",
+  notes: "Thighs stay juicier than breasts.",
+};
+
+const emptyDay = () => ({ breakfast: [], lunch: [], dinner: [], snack: [] });
+const dates = ["2026-10-19", "2026-10-20", "2026-10-21", "2026-10-22", "2026-10-23", "2026-10-24", "2026-10-25"];
+
+describe("printableIngredients", () => {
+  it("scales and converts ingredients, keeping section headers", () => {
+    expect(printableIngredients(recipe, { servings: 8, unitSystem: "metric" })).toEqual([
+      "## Marinade",
+      "59 ml olive oil",
+      "2 lemon, juiced",
+      "## Chicken",
+      "905 g chicken thighs",
+    ]);
+  });
+
+  it("returns the recipe's own lines when nothing changes", () => {
+    expect(printableIngredients(recipe, { servings: 4 })).toBe(recipe.ingredients);
+  });
+});
+
+describe("recipeCardPdf", () => {
+  it("fits a typical recipe on one page", () => {
+    const pdf = recipeCardPdf(recipe);
+    const file = decode(pdf);
+
+    expect(pageCount(pdf)).toBe(1);
+    expect(file).toContain("(Lemon Chicken)");
+    expect(file).toContain("(MARINADE)");
+    expect(file).toContain("(Thighs stay juicier than breasts.)");
+  });
+
+  it("prints instruction sections with steps numbered within each, and sub-steps as bullets", () => {
+    const file = decode(
+      recipeCardPdf({
+        ...recipe,
+        instructions: ["## Marinade:", "Whisk the marinade.", "- Taste for salt.", "## Chicken:", "Roast the chicken."],
+      })
+    );
+
+    expect(file).toContain("(CHICKEN)");
+    expect(file.match(/\(1\.\)/g)).toHaveLength(2);
+    expect(file).toContain("(Taste for salt.)");
+    expect(file).not.toContain("(2.)");
+  });
+
+  it("notes the scaling and converts oven temperatures", () => {
+    const file = decode(recipeCardPdf(recipe, { servings: 8, unitSystem: "metric" }));
+
+    expect(file).toContain("Serves 8 \\(recipe serves 4\\)");
+    expect(file).toContain("Roast at 205\\260C for 30 minutes.");
+  });
+
+  it("runs on to more pages when a recipe is too long for one", () => {
+    const long: Recipe = {
+      ...recipe,
+      instructions: Array.from({ length: 80 }, (_, i) => `Step ${i + 1}: stir the pot gently and keep an eye on the heat so nothing catches.`),
+    };
+
+    expect(pageCount(recipeCardPdf(long))).toBeGreaterThan(1);
+  });
+});
+
+describe("weekShoppingList", () => {
+  const mealPlan: MealPlan = {
+    "2026-10-19": { ...emptyDay(), dinner: [{ recipeId: "r1", isLeftover: false, position: 0 }] },
+    "2026-10-20": { ...emptyDay(), lunch: [{ recipeId: "r1", isLeftover: true, position: 0 }] },
+    "2026-10-22": { ...emptyDay(), dinner: [{ recipeId: "r1", isLeftover: false, position: 0 }] },
+  };
+
+  it("aggregates cooked meals, skipping leftovers and section headers", () => {
+    const list = weekShoppingList({ dates, mealPlan, recipes: [recipe] });
+
+    expect(list).toEqual(["4 tbsps olive oil", "2 lemon, juiced", "2 lbs chicken thighs"]);
+  });
+
+  it("leaves out what the pantry covers", () => {
+    const list = weekShoppingList({
+      dates,
+      mealPlan,
+      recipes: [recipe],
+      pantry: [{ name: "olive oil", quantity: null, unit: null }],
+    });
+
+    expect(list.some((line) => line.includes("olive oil"))).toBe(false);
+  });
+});
+
+describe("weekPlanPdf", () => {
+  it("prints the plan, then the shopping list", () => {
+    const mealPlan: MealPlan = {
+      "2026-10-19": { ...emptyDay(), dinner: [{ recipeId: "r1", isLeftover: false, position: 0 }] },
+      "2026-10-20": { ...emptyDay(), lunch: [{ recipeId: "r1", isLeftover: true, position: 0 }] },
+    };
+    const pdf = weekPlanPdf({ dates, mealPlan, recipes: [recipe] });
+    const file = decode(pdf);
+
+    expect(pageCount(pdf)).toBe(2);
+    expect(file).toContain("(Monday, Oct 19)");
+    expect(file).toContain("(Lemon Chicken \\(leftovers\\))");
+    expect(file).toContain("(Nothing planned)");
+    expect(file).toContain("(Shopping list)");
+    expect(file).toContain("(1 lb chicken thighs)");
+    // A checkbox per item
+    expect(file.match(/ re S/g)!.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it("says so when there's nothing to buy", () => {
+    const file = decode(weekPlanPdf({ dates, mealPlan: {}, recipes: [recipe] }));
+
+    expect(file).toContain("Nothing to buy");
+  });
+});
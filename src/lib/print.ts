@@ -0,0 +1,428 @@
+// ---------------------------------------------------------------------------
+// Printable documents — a recipe card, and a week's meal plan with its
+// shopping list — laid out as PDF pages (see ./pdf).
+//
+// A recipe card is one page: ingredients beside the method, with the type
+// size stepped down until both fit. Recipes too long even at the smallest
+// size run on in a single column. The week plan is a page of days followed
+// by the aggregated shopping list in two columns, grouped by aisle.
+// ---------------------------------------------------------------------------
+
+import { createPdf, PAGE_HEIGHT, PAGE_WIDTH, wrapText, type PdfFont, type PdfPage } from "./pdf";
+import { parseIngredient, parseServings } from "./ingredient-parser";
+import { groupInstructions } from "./instructions";
+import { scaleIngredientForSystem, convertTemperatures, type UnitSystem } from "./unit-converter";
+import { aggregateIngredients, subtractPantry, type PantryStock } from "./ingredient-aggregator";
+import { groupByCategory } from "./ingredient-categorizer";
+import { SLOTS, SLOT_LABELS } from "./constants";
+import { formatDuration, formatWeekRange } from "./utils";
+import type { MealPlan, Recipe } from "@/types";
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const COLUMN_GAP = 24;
+const MUTED = 0.4;
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+interface Run {
+  x: number;
+  text: string;
+  font: PdfFont;
+  size: number;
+  gray?: number;
+}
+
+/** One line of type: its runs, its height, and the space above it. */
+interface Line {
+  runs: Run[];
+  height: number;
+  gap: number;
+  /** Draw an empty checkbox left of the first run. */
+  checkbox?: boolean;
+}
+
+function lineHeight(size: number): number {
+  return size * 1.35;
+}
+
+/**
+ * Wrap text into lines with a hanging indent: `marker` ("•", "3.") sits at
+ * `x` on the first line and the text wraps at `x + indent`.
+ */
+function paragraph(
+  text: string,
+  { x = 0, width, font = "regular" as PdfFont, size, gap = 0, gray, marker, indent = 0 }: {
+    x?: number;
+    width: number;
+    font?: PdfFont;
+    size: number;
+    gap?: number;
+    gray?: number;
+    marker?: Run;
+    indent?: number;
+  }
+): Line[] {
+  return wrapText(text, font, size, width - indent).map((t, i) => ({
+    runs: [
+      ...(i === 0 && marker ? [{ ...marker, x: x + marker.x }] : []),
+      { x: x + indent, text: t, font, size, gray },
+    ],
+    height: lineHeight(size),
+    gap: i === 0 ? gap : 0,
+  }));
+}
+
+function heightOf(lines: Line[]): number {
+  return lines.reduce((sum, line, i) => sum + (i === 0 ? 0 : line.gap) + line.height, 0);
+}
+
+/** Draw lines from `top` down, without breaking; returns the y below the last one. */
+function drawLines(page: PdfPage, lines: Line[], x: number, top: number): number {
+  let y = top;
+  lines.forEach((line, i) => {
+    if (i > 0) y += line.gap;
+    const baseline = y + line.runs[0].size;
+    if (line.checkbox) {
+      const side = line.runs[0].size * 0.75;
+      page.push({ type: "box", x: x + line.runs[0].x - side - 6, y: baseline - side, width: side, height: side });
+    }
+    for (const run of line.runs) {
+      page.push({ type: "text", x: x + run.x, y: baseline, text: run.text, font: run.font, size: run.size, gray: run.gray });
+    }
+    y += line.height;
+  });
+  return y;
+}
+
+/**
+ * Flow blocks of lines down the page in `columns` columns, starting new
+ * columns and pages as they fill. A block moves whole to the next column
+ * when it doesn't fit (so headings stay with what follows), unless it's
+ * taller than a column.
+ */
+function flowBlocks(pages: PdfPage[], blocks: Line[][], top: number, columns = 1): void {
+  const columnWidth = columnWidthFor(columns);
+  const bottom = PAGE_HEIGHT - MARGIN;
+  let page = pages[pages.length - 1];
+  let column = 0;
+  let columnTop = top;
+  let y = top;
+
+  const nextColumn = () => {
+    column++;
+    if (column === columns) {
+      page = [];
+      pages.push(page);
+      column = 0;
+      columnTop = MARGIN;
+    }
+    y = columnTop;
+  };
+
+  for (const block of blocks) {
+    if (block.length === 0) continue;
+    if (y > columnTop && y + block[0].gap + heightOf(block) > bottom) nextColumn();
+    for (const line of block) {
+      if (y > columnTop && y + line.gap + line.height > bottom) nextColumn();
+      const lineTop = y > columnTop ? y + line.gap : y;
+      y = drawLines(page, [line], MARGIN + column * (columnWidth + COLUMN_GAP), lineTop);
+    }
+  }
+}
+
+function columnWidthFor(columns: number): number {
+  return (CONTENT_WIDTH - COLUMN_GAP * (columns - 1)) / columns;
+}
+
+// ---------------------------------------------------------------------------
+// Recipe card
+// ---------------------------------------------------------------------------
+
+export interface RecipeCardOptions {
+  /** Servings to scale the ingredients to; the recipe's own when missing. */
+  servings?: number | null;
+  unitSystem?: UnitSystem | null;
+}
+
+/** Body type sizes tried in turn until the card fits on one page. */
+const CARD_SIZES = [11, 10, 9, 8, 7];
+
+/** "by Jamie · Prep 15m · Cook 1h · Serves 6 (recipe serves 4) · Italian · Easy" */
+function recipeMeta(recipe: Recipe, servings: number | null, baseServings: number | null): string {
+  const prep = formatDuration(recipe.prepTime);
+  const cook = formatDuration(recipe.cookTime);
+  const total = formatDuration(recipe.totalTime);
+  let serves: string | null = recipe.servings ? `Serves ${recipe.servings}` : null;
+  if (servings && baseServings && servings !== baseServings) {
+    serves = `Serves ${servings} (recipe serves ${baseServings})`;
+  }
+  return [
+    recipe.author && `by ${recipe.author}`,
+    prep && `Prep ${prep}`,
+    cook && `Cook ${cook}`,
+    total && !prep && !cook && `Total ${total}`,
+    serves,
+    recipe.cuisineType,
+    recipe.difficulty,
+  ].filter(Boolean).join(" · ");
+}
+
+function heading(text: string, size: number, gap = 0): Line {
+  return { runs: [{ x: 0, text, font: "bold", size: size + 2 }], height: lineHeight(size + 2) * 1.2, gap };
+}
+
+/** Headings travel with the first line after them, so none ends up alone at a column foot. */
+function keepWithNext(headings: Line[], blocks: Line[][]): Line[][] {
+  const [first = [], ...rest] = blocks.filter((block) => block.length > 0);
+  return [[...headings, ...first], ...rest];
+}
+
+function ingredientBlocks(ingredients: string[], width: number, size: number): Line[][] {
+  const blocks: Line[][] = [];
+  // Headings waiting for the ingredient they introduce
+  let section: Line[] = [heading("Ingredients", size)];
+  for (const ingredient of ingredients) {
+    if (ingredient.startsWith("## ")) {
+      section = [
+        ...section,
+        ...paragraph(ingredient.slice(3).replace(/:$/, "").toUpperCase(), {
+          width, font: "bold", size: size - 1.5, gray: MUTED, gap: size * 0.6,
+        }),
+      ];
+      continue;
+    }
+    const lines = paragraph(ingredient, {
+      width, size, gap: size * 0.25, indent: size * 0.9,
+      marker: { x: 0, text: "•", font: "regular", size, gray: MUTED },
+    });
+    blocks.push([...section, ...lines]);
+    section = [];
+  }
+  if (section.length > 0) blocks.push(section);
+  return blocks;
+}
+
+function instructionBlocks(
+  instructions: string[],
+  width: number,
+  size: number,
+  unitSystem: UnitSystem | null,
+  headingGap = 0
+): Line[][] {
+  const stepIndent = size * 1.8;
+  const blocks = groupInstructions(instructions).flatMap((section) => {
+    const steps = section.steps.map((step) => [
+      ...paragraph(convertTemperatures(step.text, unitSystem), {
+        width, size, gap: size * 0.6, indent: stepIndent,
+        marker: { x: 0, text: `${step.number}.`, font: "bold", size },
+      }),
+      ...step.subSteps.flatMap((subStep) =>
+        paragraph(convertTemperatures(subStep, unitSystem), {
+          x: stepIndent, width: width - stepIndent, size, gap: size * 0.25, indent: size * 0.9,
+          marker: { x: 0, text: "•", font: "regular", size, gray: MUTED },
+        })
+      ),
+    ]);
+    if (!section.title) return steps;
+    const title = paragraph(section.title.toUpperCase(), {
+      width, font: "bold", size: size - 1.5, gray: MUTED, gap: size * 0.9,
+    });
+    return keepWithNext(title, steps);
+  });
+  return keepWithNext([heading("Method", size, headingGap)], blocks);
+}
+
+function notesBlocks(notes: string | null | undefined, width: number, size: number): Line[][] {
+  if (!notes?.trim()) return [];
+  const paragraphs = notes.trim().split(/\n+/).map((p) => paragraph(p, { width, size, gap: size * 0.4, font: "italic" }));
+  return keepWithNext([heading("Notes", size, size * 1.2)], paragraphs);
+}
+
+/** Draw the title, meta line and rule; returns the y where the body starts. */
+function drawCardHeader(page: PdfPage, recipe: Recipe, meta: string): number {
+  let y = drawLines(page, paragraph(recipe.title, { width: CONTENT_WIDTH, font: "bold", size: 22 }), MARGIN, MARGIN);
+  if (meta) y = drawLines(page, paragraph(meta, { width: CONTENT_WIDTH, size: 10, gray: MUTED }), MARGIN, y + 4);
+  if (/^https?:\/\//i.test(recipe.sourceUrl)) {
+    y = drawLines(page, paragraph(recipe.sourceUrl, { width: CONTENT_WIDTH, size: 8, gray: MUTED, font: "italic" }), MARGIN, y + 2);
+  }
+  y += 10;
+  page.push({ type: "line", x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y, gray: 0.75 });
+  return y + 16;
+}
+
+/** The ingredient lines as printed: scaled and converted, section headers kept. */
+export function printableIngredients(recipe: Recipe, options: RecipeCardOptions = {}): string[] {
+  const baseServings = parseServings(recipe.servings);
+  const ratio = baseServings && options.servings ? options.servings / baseServings : 1;
+  const system = options.unitSystem ?? null;
+  if (ratio === 1 && !system) return recipe.ingredients;
+  return recipe.ingredients.map((line) =>
+    line.startsWith("## ") ? line : scaleIngredientForSystem(parseIngredient(line), ratio, system)
+  );
+}
+
+/** A recipe as a printable card, scaled to `servings` when given. */
+export function recipeCardPdf(recipe: Recipe, options: RecipeCardOptions = {}): Uint8Array {
+  const baseServings = parseServings(recipe.servings);
+  const servings = baseServings && options.servings && options.servings > 0 ? options.servings : baseServings;
+  const ingredients = printableIngredients(recipe, { ...options, servings });
+  const unitSystem = options.unitSystem ?? null;
+
+  const page: PdfPage = [];
+  const top = drawCardHeader(page, recipe, recipeMeta(recipe, servings, baseServings));
+  const available = PAGE_HEIGHT - MARGIN - top;
+
+  // Ingredients take the narrow column, the method the wide one
+  const leftWidth = Math.round((CONTENT_WIDTH - COLUMN_GAP) * 0.38);
+  const rightWidth = CONTENT_WIDTH - COLUMN_GAP - leftWidth;
+
+  for (const size of CARD_SIZES) {
+    const left = ingredientBlocks(ingredients, leftWidth, size).flat();
+    const right = [
+      ...instructionBlocks(recipe.instructions, rightWidth, size, unitSystem),
+      ...notesBlocks(recipe.notes, rightWidth, size),
+    ].flat();
+    if (heightOf(left) <= available && heightOf(right) <= available) {
+      drawLines(page, left, MARGIN, top);
+      drawLines(page, right, MARGIN + leftWidth + COLUMN_GAP, top);
+      return createPdf([page], recipe.title);
+    }
+  }
+
+  // Too long for one page: run on in one column at the smallest size
+  const size = CARD_SIZES[CARD_SIZES.length - 1] + 1;
+  const pages = [page];
+  flowBlocks(pages, [
+    ...ingredientBlocks(ingredients, CONTENT_WIDTH, size),
+    ...instructionBlocks(recipe.instructions, CONTENT_WIDTH, size, unitSystem, size * 1.5),
+    ...notesBlocks(recipe.notes, CONTENT_WIDTH, size),
+  ], top);
+  return createPdf(pages, recipe.title);
+}
+
+// ---------------------------------------------------------------------------
+// Week plan
+// ---------------------------------------------------------------------------
+
+export interface WeekPlanInput {
+  /** The week's dates, YYYY-MM-DD, Monday first. */
+  dates: string[];
+  mealPlan: MealPlan;
+  recipes: Recipe[];
+  /** What's on hand, taken off the shopping list. */
+  pantry?: PantryStock[];
+}
+
+/**
+ * The week's shopping list: every cooked (non-leftover) recipe's ingredients,
+ * aggregated, less what the pantry covers — the same list "Generate from
+ * meal plan" builds.
+ */
+export function weekShoppingList({ dates, mealPlan, recipes, pantry = [] }: WeekPlanInput): string[] {
+  const byId = new Map(recipes.map((r) => [r.id, r]));
+  const raw: string[] = [];
+  for (const date of dates) {
+    const day = mealPlan[date];
+    if (!day) continue;
+    for (const slot of SLOTS) {
+      for (const entry of day[slot]) {
+        if (entry.isLeftover) continue;
+        const recipe = byId.get(entry.recipeId);
+        if (!recipe) continue;
+        raw.push(...recipe.ingredients.filter((i) => !i.startsWith("## ")));
+      }
+    }
+  }
+  return subtractPantry(aggregateIngredients(raw), pantry);
+}
+
+function dayLabel(date: string): string {
+  return new Date(date + "T00:00:00").toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" });
+}
+
+function planBlocks(input: WeekPlanInput, size: number): Line[][] {
+  const byId = new Map(input.recipes.map((r) => [r.id, r]));
+  const labelWidth = 70;
+  const blocks: Line[][] = [];
+
+  for (const date of input.dates) {
+    const block: Line[] = [{
+      runs: [{ x: 0, text: dayLabel(date), font: "bold", size: size + 2 }],
+      height: lineHeight(size + 2) + 2,
+      gap: size * 1.1,
+    }];
+    const day = input.mealPlan[date];
+    let planned = false;
+    for (const slot of SLOTS) {
+      const entries = (day?.[slot] ?? []).filter((e) => byId.has(e.recipeId));
+      if (entries.length === 0) continue;
+      planned = true;
+      entries.forEach((entry, i) => {
+        const title = byId.get(entry.recipeId)!.title + (entry.isLeftover ? " (leftovers)" : "");
+        const lines = paragraph(title, {
+          x: labelWidth, width: CONTENT_WIDTH - labelWidth, size, gap: size * 0.3,
+          font: entry.isLeftover ? "italic" : "regular",
+        });
+        if (i === 0) {
+          lines[0].runs.unshift({ x: 0, text: SLOT_LABELS[slot].toUpperCase(), font: "bold", size: size - 2, gray: MUTED });
+        }
+        block.push(...lines);
+      });
+    }
+    if (!planned) {
+      block.push(...paragraph("Nothing planned", { x: labelWidth, width: CONTENT_WIDTH - labelWidth, size, gray: MUTED, font: "italic", gap: size * 0.3 }));
+    }
+    blocks.push(block);
+  }
+  return blocks;
+}
+
+function shoppingBlocks(items: string[], width: number, size: number): Line[][] {
+  const indent = size * 1.4;
+  return groupByCategory(items, (item) => parseIngredient(item).name).map(({ category, items: group }) => [
+    { runs: [{ x: 0, text: category.toUpperCase(), font: "bold", size: size - 1.5, gray: MUTED }], height: lineHeight(size), gap: size * 1.1 },
+    ...group.flatMap((item) =>
+      paragraph(item, { width, size, gap: size * 0.3, indent }).map((line, i) => (i === 0 ? { ...line, checkbox: true } : line))
+    ),
+  ]);
+}
+
+function drawTitle(page: PdfPage, title: string, subtitle: string): number {
+  let y = drawLines(page, paragraph(title, { width: CONTENT_WIDTH, font: "bold", size: 22 }), MARGIN, MARGIN);
+  y = drawLines(page, paragraph(subtitle, { width: CONTENT_WIDTH, size: 10, gray: MUTED }), MARGIN, y + 2);
+  y += 10;
+  page.push({ type: "line", x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y, gray: 0.75 });
+  return y + 8;
+}
+
+/** The week's plan on one page (smaller type for a busy week), then its shopping list. */
+export function weekPlanPdf(input: WeekPlanInput): Uint8Array {
+  const range = formatWeekRange(input.dates);
+  const pages: PdfPage[] = [[]];
+
+  const top = drawTitle(pages[0], "Meal plan", range);
+  const available = PAGE_HEIGHT - MARGIN - top;
+  const size = [11, 10, 9, 8].find((s) => heightOf(planBlocks(input, s).flat()) <= available) ?? 8;
+  flowBlocks(pages, planBlocks(input, size), top);
+
+  const items = weekShoppingList(input);
+  const listPage: PdfPage = [];
+  pages.push(listPage);
+  const listTop = drawTitle(
+    listPage,
+    "Shopping list",
+    `${range} · ${items.length} item${items.length === 1 ? "" : "s"}`
+  );
+  if (items.length === 0) {
+    drawLines(listPage, paragraph("Nothing to buy — plan some meals, or the pantry has it covered.", {
+      width: CONTENT_WIDTH, size: 11, gray: MUTED, font: "italic",
+    }), MARGIN, listTop);
+  } else {
+    flowBlocks(pages, shoppingBlocks(items, columnWidthFor(2), 10), listTop, 2);
+  }
+
+  return createPdf(pages, `Meal plan ${range}`);
+}
@@ -0,0 +1,278 @@
+// ---------------------------------------------------------------------------
+// Tests for recipe-exchange — JSON-LD, Paprika and Mealie import/export
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import type { Recipe } from "@/types";
+import {
+  exportRecipes,
+  importRecipeFile,
+  parseRecipeObjects,
+  recipeToJsonLd,
+  recipeToMealie,
+  recipeToPaprika,
+} from "./recipe-exchange";
+import { createZip, gzip, readZip } from "./zip";
+
+const recipe: Recipe = {
+  id: "3f2c6a1e-0000-4000-8000-000000000001",
+  title: "Lemon Chicken",
+  image: "https://example.com/chicken.jpg",
+  ingredients: ["## For the marinade:", "2 tbsp lemon juice", "1 tsp salt", "4 chicken thighs"],
+  instructions: ["Marinate the chicken.", "Roast for 40 minutes."],
+  sourceUrl: "https://example.com/lemon-chicken",
+  tags: ["Dinner", "Chicken"],
+  createdAt: "2026-03-01T18:30:00.000Z",
+  prepTime: "PT15M",
+  cookTime: "PT40M",
+  totalTime: "PT1H",
+  servings: "4",
+  author: "Sam Cook",
+  cuisineType: "Greek",
+  difficulty: "Easy",
+  rating: 4,
+  isFavorite: true,
+  notes: "Use bone-in thighs.",
+};
+
+const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+describe("JSON-LD", () => {
+  it("exports schema.org fields with plain section headers", () => {
+    const ld = recipeToJsonLd(recipe);
+
+    expect(ld["@type"]).toBe("Recipe");
+    expect(ld.recipeIngredient).toEqual(["For the marinade:", "2 tbsp lemon juice", "1 tsp salt", "4 chicken thighs"]);
+    expect(ld.recipeInstructions).toEqual([
+      { "@type": "HowToStep", text: "Marinate the chicken." },
+      { "@type": "HowToStep", text: "Roast for 40 minutes." },
+    ]);
+    expect(ld.keywords).toBe("Dinner, Chicken");
+    expect(ld.author).toEqual({ "@type": "Person", name: "Sam Cook" });
+  });
+
+  it("round-trips through an exported file", async () => {
+    const file = await exportRecipes([recipe], "jsonld");
+    const { recipes, skipped } = await importRecipeFile(file.data);
+
+    expect(file.filename).toBe("cooksnap-recipes.jsonld");
+    expect(skipped).toBe(0);
+    expect(recipes[0]).toMatchObject({
+      title: "Lemon Chicken",
+      ingredients: recipe.ingredients,
+      instructions: recipe.instructions,
+      sourceUrl: recipe.sourceUrl,
+      tags: ["Dinner", "Chicken"],
+      createdAt: recipe.createdAt,
+      prepTime: "PT15M",
+      totalTime: "PT1H",
+      servings: "4",
+      author: "Sam Cook",
+      cuisineType: "Greek",
+    });
+  });
+
+  it("keeps HowToSection names and reads list-valued fields", () => {
+    const { recipes } = parseRecipeObjects({
+      "@context": "https://schema.org",
+      "@type": ["Recipe", "NewsArticle"],
+      name: "Pie",
+      image: [{ "@type": "ImageObject", url: "https://example.com/pie.jpg" }],
+      recipeYield: ["8", "8 slices"],
+      recipeIngredient: ["1 crust", "3 apples"],
+      recipeInstructions: [
+        { "@type": "HowToSection", name: "Filling", itemListElement: [{ "@type": "HowToStep", text: "Slice apples." }] },
+        { "@type": "HowToStep", text: "Bake." },
+      ],
+    });
+
+    expect(recipes[0].image).toBe("https://example.com/pie.jpg");
+    expect(recipes[0].servings).toBe("8");
+    expect(recipes[0].instructions).toEqual(["## Filling:", "Slice apples.", "Bake."]);
+  });
+});
+
+describe("Paprika", () => {
+  it("maps fields to Paprika's recipe shape", () => {
+    const p = recipeToPaprika(recipe);
+
+    expect(p.name).toBe("Lemon Chicken");
+    expect(p.ingredients).toBe("For the marinade:\n2 tbsp lemon juice\n1 tsp salt\n4 chicken thighs");
+    expect(p.directions).toBe("Marinate the chicken.\n\nRoast for 40 minutes.");
+    expect(p.prep_time).toBe("15 min");
+    expect(p.total_time).toBe("1 hr");
+    expect(p.categories).toEqual(["Dinner", "Chicken"]);
+    expect(p.created).toBe("2026-03-01 18:30:00");
+    expect(p.image_url).toBe("https://example.com/chicken.jpg");
+    expect(p.photo_data).toBeNull();
+  });
+
+  it("round-trips through a .paprikarecipes archive", async () => {
+    const file = await exportRecipes([recipe, { ...recipe, id: "b", sourceUrl: "" }], "paprika");
+    const entries = await readZip(file.data);
+
+    expect(file.filename).toBe("cooksnap-recipes.paprikarecipes");
+    expect(entries.map((e) => e.name)).toEqual([
+      "Lemon Chicken.paprikarecipe",
+      "Lemon Chicken (2).paprikarecipe",
+    ]);
+
+    const { recipes, skipped } = await importRecipeFile(file.data);
+    expect(skipped).toBe(0);
+    expect(recipes).toHaveLength(2);
+    expect(recipes[0]).toMatchObject({
+      title: "Lemon Chicken",
+      ingredients: recipe.ingredients,
+      instructions: recipe.instructions,
+      tags: ["Dinner", "Chicken"],
+      prepTime: "PT15M",
+      cookTime: "PT40M",
+      totalTime: "PT1H",
+      difficulty: "Easy",
+      rating: 4,
+      isFavorite: true,
+      notes: "Use bone-in thighs.",
+      createdAt: recipe.createdAt,
+    });
+    expect(recipes[1].sourceUrl).toBe("");
+  });
+
+  it("imports a single gzipped .paprikarecipe and skips unreadable entries", async () => {
+    const single = await gzip(encode({ name: "Toast", ingredients: "1 slice bread", directions: "Toast it.", rating: 0 }));
+    const result = await importRecipeFile(single);
+
+    expect(result.recipes[0]).toMatchObject({ title: "Toast", ingredients: ["1 slice bread"], rating: null });
+
+    const archive = createZip([
+      { name: "Toast.paprikarecipe", data: single },
+      { name: "Broken.paprikarecipe", data: new Uint8Array([1, 2, 3]) },
+    ]);
+    const { recipes, skipped } = await importRecipeFile(archive);
+    expect(recipes).toHaveLength(1);
+    expect(skipped).toBe(1);
+  });
+});
+
+describe("Mealie", () => {
+  it("titles the first ingredient of each section", () => {
+    const m = recipeToMealie(recipe);
+    const ingredients = m.recipeIngredient as { title: string | null; note: string }[];
+
+    expect(m.slug).toBe("lemon-chicken");
+    expect(m.orgURL).toBe(recipe.sourceUrl);
+    expect(ingredients).toHaveLength(3);
+    expect(ingredients[0]).toMatchObject({ title: "For the marinade", note: "2 tbsp lemon juice" });
+    expect(ingredients[1].title).toBeNull();
+    expect(m.tags).toEqual([
+      { name: "Dinner", slug: "dinner" },
+      { name: "Chicken", slug: "chicken" },
+    ]);
+  });
+
+  it("round-trips through an exported file", async () => {
+    const file = await exportRecipes([recipe], "mealie");
+    const { recipes } = await importRecipeFile(file.data);
+
+    expect(recipes[0]).toMatchObject({
+      title: "Lemon Chicken",
+      image: recipe.image,
+      ingredients: recipe.ingredients,
+      instructions: recipe.instructions,
+      sourceUrl: recipe.sourceUrl,
+      cookTime: "PT40M",
+      rating: 4,
+      notes: "Use bone-in thighs.",
+    });
+  });
+
+  it("builds ingredient text from parsed Mealie fields", () => {
+    const { recipes } = parseRecipeObjects({
+      items: [
+        {
+          name: "Rice",
+          slug: "rice",
+          recipeIngredient: [
+            { quantity: 1, unit: { name: "cup" }, food: { name: "rice" }, note: "rinsed", display: "" },
+            "2 cups water",
+          ],
+          recipeInstructions: [{ text: "Simmer 15 minutes." }],
+          recipeCategory: [{ name: "Sides" }],
+          performTime: "15 minutes",
+        },
+      ],
+    });
+
+    expect(recipes[0].ingredients).toEqual(["1 cup rice rinsed", "2 cups water"]);
+    expect(recipes[0].tags).toEqual(["Sides"]);
+    expect(recipes[0].cookTime).toBe("PT15M");
+  });
+});
+
+describe("importRecipeFile", () => {
+  it("skips objects that aren't usable recipes", async () => {
+    const { recipes, skipped } = await importRecipeFile(
+      encode([
+        { "@type": "Recipe", name: "Empty" },
+        { "@type": "Recipe", name: "Ok", recipeIngredient: ["1 egg"] },
+        { "@type": "Person", name: "Not a recipe" },
+      ]),
+    );
+
+    expect(recipes.map((r) => r.title)).toEqual(["Ok"]);
+    expect(skipped).toBe(2);
+  });
+
+  it("rejects files that aren't a recipe export", async () => {
+    await expect(importRecipeFile(new TextEncoder().encode("not json"))).rejects.toThrow(
+      /not a recognized recipe export/,
+    );
+  });
+});
+
+describe("Instruction sections", () => {
+  const sectioned: Recipe = {
+    ...recipe,
+    instructions: [
+      "## For the sauce:",
+      "Simmer the tomatoes.",
+      "- Stir every few minutes.",
+      "- Season to taste.",
+      "## To assemble:",
+      "Layer the pasta and sauce.",
+    ],
+  };
+
+  it("exports sections as HowToSections and sub-steps as HowToDirections", () => {
+    expect(recipeToJsonLd(sectioned).recipeInstructions).toEqual([
+      {
+        "@type": "HowToSection",
+        name: "For the sauce",
+        itemListElement: [
+          {
+            "@type": "HowToStep",
+            text: "Simmer the tomatoes.",
+            itemListElement: [
+              { "@type": "HowToDirection", text: "Stir every few minutes." },
+              { "@type": "HowToDirection", text: "Season to taste." },
+            ],
+          },
+        ],
+      },
+      {
+        "@type": "HowToSection",
+        name: "To assemble",
+        itemListElement: [{ "@type": "HowToStep", text: "Layer the pasta and sauce." }],
+      },
+    ]);
+    expect(recipeToPaprika(sectioned).directions).toBe(
+      "For the sauce:\n\nSimmer the tomatoes.\n\n- Stir every few minutes.\n\n- Season to taste.\n\nTo assemble:\n\nLayer the pasta and sauce."
+    );
+  });
+
+  it.each(["jsonld", "paprika", "mealie"] as const)("round-trips sections and sub-steps through %s", async (format) => {
+    const file = await exportRecipes([sectioned], format);
+    const { recipes } = await importRecipeFile(file.data);
+
+    expect(recipes[0].instructions).toEqual(sectioned.instructions);
+  });
+});
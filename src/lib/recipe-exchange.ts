@@ -0,0 +1,578 @@
+// ---------------------------------------------------------------------------
+// Recipe Exchange — bulk export/import in other apps' formats
+//
+//   - schema.org Recipe JSON-LD: one document with an @graph of recipes
+//   - Paprika: .paprikarecipes (zip of gzipped JSON, one per recipe)
+//   - Mealie: JSON array of Mealie recipe objects
+//
+// Imports detect the format per recipe, so a JSON file mixing JSON-LD and
+// Mealie objects works too. Every imported recipe is validated against
+// `recipeSchema`; anything that fails is counted as skipped.
+// ---------------------------------------------------------------------------
+
+import type { Recipe } from "@/types";
+import { recipeSchema } from "./schemas";
+import { detectAndMarkSectionHeaders } from "./ingredient-parser";
+import { groupInstructions, isSectionHeader, isSubStep, markInstructionHeaders, sectionTitle, toSectionHeader, toSubStep } from "./instructions";
+import { formatDurationForEdit, parseDurationToISO } from "./utils";
+import { createZip, gunzip, gzip, isGzip, isZip, readZip } from "./zip";
+
+export type RecipeExportFormat = "jsonld" | "paprika" | "mealie";
+
+export const RECIPE_EXPORT_FORMAT_LABELS: Record<RecipeExportFormat, string> = {
+  jsonld: "JSON-LD",
+  paprika: "Paprika",
+  mealie: "Mealie",
+};
+
+/** File extensions accepted by `importRecipeFile`. */
+export const RECIPE_IMPORT_ACCEPT = ".json,.jsonld,.paprikarecipes,.paprikarecipe";
+
+export interface RecipeExportFile {
+  filename: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface RecipeImportResult {
+  recipes: Recipe[];
+  skipped: number;
+}
+
+type JsonObject = Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function text(value: unknown): string | null {
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+}
+
+function httpUrl(value: unknown): string | null {
+  const url = text(value);
+  return url && /^https?:\/\//i.test(url) ? url : null;
+}
+
+/** Split a newline-separated block ("directions", "ingredients") into lines. */
+function lines(value: unknown): string[] {
+  const block = text(value);
+  if (!block) return [];
+  return block.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+}
+
+/** Collect names from a list of strings or `{ name }` objects (tags, categories). */
+function names(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  return items
+    .map((item) => text(isObject(item) ? item.name : item))
+    .filter((name): name is string => !!name);
+}
+
+function uniqueTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags.filter((tag) => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function parseDate(value: unknown): string | null {
+  const raw = text(value);
+  if (!raw) return null;
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function parseRating(value: unknown): number | null {
+  const n = typeof value === "number" ? value : parseFloat(text(value) ?? "");
+  if (!Number.isFinite(n)) return null;
+  const rounded = Math.round(n);
+  return rounded >= 1 && rounded <= 5 ? rounded : null;
+}
+
+function parseDifficulty(value: unknown): Recipe["difficulty"] {
+  const raw = text(value)?.toLowerCase();
+  if (raw === "easy") return "Easy";
+  if (raw === "medium") return "Medium";
+  if (raw === "hard") return "Hard";
+  return null;
+}
+
+/** "## For the sauce:" → "For the sauce:" — other apps don't know our header marker. */
+function plainIngredientLine(line: string): string {
+  if (!line.startsWith("## ")) return line;
+  const header = line.slice(3).trim();
+  return header.endsWith(":") ? header : `${header}:`;
+}
+
+/** "## To assemble:" → "To assemble:"; sub-steps keep their "- " bullet. */
+function plainInstructionLine(line: string): string {
+  return isSectionHeader(line) ? `${sectionTitle(line)}:` : line;
+}
+
+/** "Crème Brûlée!" → "creme-brulee", for file names. */
+export function slugify(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "recipe"
+  );
+}
+
+/** Fields every importer fills in; the rest are defaulted by `recipeSchema`. */
+type ImportedFields = Omit<Recipe, "id" | "createdAt" | "sourceUrl" | "image"> & {
+  image: string | null;
+  sourceUrl: string | null;
+  createdAt: string | null;
+};
+
+// ---------------------------------------------------------------------------
+// schema.org JSON-LD
+// ---------------------------------------------------------------------------
+
+export function recipeToJsonLd(recipe: Recipe): JsonObject {
+  return {
+    "@type": "Recipe",
+    name: recipe.title,
+    ...(recipe.image && { image: recipe.image }),
+    ...(recipe.author && { author: { "@type": "Person", name: recipe.author } }),
+    ...(recipe.sourceUrl && { url: recipe.sourceUrl }),
+    dateCreated: recipe.createdAt,
+    ...(recipe.prepTime && { prepTime: recipe.prepTime }),
+    ...(recipe.cookTime && { cookTime: recipe.cookTime }),
+    ...(recipe.totalTime && { totalTime: recipe.totalTime }),
+    ...(recipe.servings && { recipeYield: recipe.servings }),
+    ...(recipe.cuisineType && { recipeCuisine: recipe.cuisineType }),
+    ...(recipe.tags.length > 0 && { keywords: recipe.tags.join(", ") }),
+    recipeIngredient: recipe.ingredients.map(plainIngredientLine),
+    recipeInstructions: jsonLdInstructionList(recipe.instructions),
+  };
+}
+
+/** HowToSteps, in a HowToSection per section, with sub-steps as HowToDirections. */
+function jsonLdInstructionList(instructions: string[]): JsonObject[] {
+  return groupInstructions(instructions).flatMap((section): JsonObject[] => {
+    const steps: JsonObject[] = section.steps.map((step) => ({
+      "@type": "HowToStep",
+      text: step.text,
+      ...(step.subSteps.length > 0 && {
+        itemListElement: step.subSteps.map((subStep) => ({ "@type": "HowToDirection", text: subStep })),
+      }),
+    }));
+    return section.title ? [{ "@type": "HowToSection", name: section.title, itemListElement: steps }] : steps;
+  });
+}
+
+function isJsonLdRecipe(obj: JsonObject): boolean {
+  const type = obj["@type"];
+  return type === "Recipe" || (Array.isArray(type) && type.includes("Recipe"));
+}
+
+function jsonLdImage(value: unknown): string | null {
+  if (Array.isArray(value)) return jsonLdImage(value[0]);
+  if (isObject(value)) return httpUrl(value.url);
+  return httpUrl(value);
+}
+
+function jsonLdAuthor(value: unknown): string | null {
+  if (Array.isArray(value)) return jsonLdAuthor(value[0]);
+  if (isObject(value)) return text(value.name);
+  return text(value);
+}
+
+/** recipeYield / recipeCuisine may be a value or a list of values. */
+function firstText(value: unknown): string | null {
+  return text(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Strings, HowToStep and HowToSection entries as instruction lines: a
+ * section's name becomes a "## " header and a step's own items sub-steps.
+ */
+function jsonLdInstructions(value: unknown): string[] {
+  if (typeof value === "string") return lines(value);
+  if (!Array.isArray(value)) return isObject(value) ? jsonLdInstructions([value]) : [];
+  return value.flatMap((item): string[] => {
+    if (typeof item === "string") return lines(item);
+    if (!isObject(item)) return [];
+    const ownText = text(item.text);
+    if (item.itemListElement && (item["@type"] === "HowToSection" || !ownText)) {
+      const name = text(item.name);
+      return [...(name ? [toSectionHeader(name)] : []), ...jsonLdInstructions(item.itemListElement)];
+    }
+    if (item.itemListElement && ownText) {
+      const subSteps = jsonLdInstructions(item.itemListElement)
+        .filter((line) => !isSectionHeader(line))
+        .map((line) => (isSubStep(line) ? line : toSubStep(line)));
+      return [ownText, ...subSteps];
+    }
+    const step = ownText ?? text(item.name);
+    return step ? [step] : [];
+  });
+}
+
+function fromJsonLd(obj: JsonObject): ImportedFields {
+  const ingredients = Array.isArray(obj.recipeIngredient)
+    ? obj.recipeIngredient
+    : Array.isArray(obj.ingredients) ? obj.ingredients : [];
+
+  return {
+    title: text(obj.name) ?? "",
+    image: jsonLdImage(obj.image),
+    ingredients: detectAndMarkSectionHeaders(
+      ingredients.map(text).filter((l): l is string => !!l),
+    ),
+    instructions: jsonLdInstructions(obj.recipeInstructions),
+    sourceUrl: httpUrl(obj.url),
+    tags: uniqueTags(names(obj.keywords)),
+    createdAt: parseDate(obj.dateCreated) ?? parseDate(obj.datePublished),
+    prepTime: parseDurationToISO(text(obj.prepTime)),
+    cookTime: parseDurationToISO(text(obj.cookTime)),
+    totalTime: parseDurationToISO(text(obj.totalTime)),
+    servings: firstText(obj.recipeYield),
+    author: jsonLdAuthor(obj.author),
+    cuisineType: firstText(obj.recipeCuisine),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Paprika
+// ---------------------------------------------------------------------------
+
+/** Paprika's "created" format: "2024-03-01 18:30:00". */
+function paprikaDate(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+export function recipeToPaprika(recipe: Recipe): JsonObject {
+  // Paprika embeds photos as base64; pass through data URIs, link the rest
+  const photo = recipe.image?.match(/^data:image\/[\w.+-]+;base64,(.+)$/)?.[1] ?? null;
+
+  return {
+    uid: recipe.id.toUpperCase(),
+    name: recipe.title,
+    ingredients: recipe.ingredients.map(plainIngredientLine).join("\n"),
+    directions: recipe.instructions.map(plainInstructionLine).join("\n\n"),
+    notes: recipe.notes ?? "",
+    servings: recipe.servings ?? "",
+    prep_time: formatDurationForEdit(recipe.prepTime),
+    cook_time: formatDurationForEdit(recipe.cookTime),
+    total_time: formatDurationForEdit(recipe.totalTime),
+    difficulty: recipe.difficulty ?? "",
+    rating: recipe.rating ?? 0,
+    on_favorites: recipe.isFavorite ?? false,
+    categories: recipe.tags,
+    source: recipe.author ?? "",
+    source_url: recipe.sourceUrl,
+    image_url: recipe.image && !photo ? recipe.image : "",
+    photo_data: photo,
+    created: paprikaDate(recipe.createdAt),
+  };
+}
+
+function isPaprikaRecipe(obj: JsonObject): boolean {
+  return typeof obj.name === "string" && ("directions" in obj || typeof obj.ingredients === "string");
+}
+
+/**
+ * Paprika recipe → fields. Embedded `photo_data` is not imported — a library
+ * of base64 photos is far too heavy for the recipes table — so only
+ * `image_url` carries over.
+ */
+function fromPaprika(obj: JsonObject): ImportedFields {
+  return {
+    title: text(obj.name) ?? "",
+    image: httpUrl(obj.image_url),
+    ingredients: detectAndMarkSectionHeaders(lines(obj.ingredients)),
+    instructions: markInstructionHeaders(lines(obj.directions)),
+    sourceUrl: httpUrl(obj.source_url),
+    tags: uniqueTags(names(obj.categories)),
+    createdAt: parseDate(text(obj.created)?.replace(" ", "T")),
+    prepTime: parseDurationToISO(text(obj.prep_time)),
+    cookTime: parseDurationToISO(text(obj.cook_time)),
+    totalTime: parseDurationToISO(text(obj.total_time)),
+    servings: text(obj.servings),
+    author: text(obj.source),
+    cuisineType: null,
+    difficulty: parseDifficulty(obj.difficulty),
+    rating: parseRating(obj.rating),
+    isFavorite: !!obj.on_favorites,
+    notes: text(obj.notes),
+  };
+}
+
+/** Zip entry names must be unique; Paprika names each file after its recipe. */
+function paprikaEntryName(title: string, used: Set<string>): string {
+  const base = title.replace(/[\\/:*?"<>|]+/g, " ").trim().slice(0, 100) || "Recipe";
+  let name = `${base}.paprikarecipe`;
+  for (let n = 2; used.has(name); n++) name = `${base} (${n}).paprikarecipe`;
+  used.add(name);
+  return name;
+}
+
+// ---------------------------------------------------------------------------
+// Mealie
+// ---------------------------------------------------------------------------
+
+export function recipeToMealie(recipe: Recipe): JsonObject {
+  // Mealie marks a section by titling its first ingredient
+  const recipeIngredient: JsonObject[] = [];
+  let section: string | null = null;
+  for (const line of recipe.ingredients) {
+    if (line.startsWith("## ")) {
+      section = line.slice(3).replace(/:$/, "").trim();
+      continue;
+    }
+    recipeIngredient.push({
+      title: section,
+      note: line,
+      display: line,
+      originalText: line,
+      quantity: null,
+      unit: null,
+      food: null,
+      disableAmount: true,
+    });
+    section = null;
+  }
+
+  return {
+    name: recipe.title,
+    slug: slugify(recipe.title),
+    recipeYield: recipe.servings ?? null,
+    prepTime: formatDurationForEdit(recipe.prepTime) || null,
+    performTime: formatDurationForEdit(recipe.cookTime) || null,
+    totalTime: formatDurationForEdit(recipe.totalTime) || null,
+    recipeIngredient,
+    // Sections work as for ingredients; sub-steps go in the step's text as a list
+    recipeInstructions: groupInstructions(recipe.instructions).flatMap((section) =>
+      section.steps.map((step, i) => ({
+        title: i === 0 ? section.title ?? "" : "",
+        text: [step.text, ...step.subSteps.map(toSubStep)].join("\n"),
+      }))
+    ),
+    tags: recipe.tags.map((tag) => ({ name: tag, slug: slugify(tag) })),
+    rating: recipe.rating ?? null,
+    orgURL: recipe.sourceUrl || null,
+    dateAdded: recipe.createdAt.slice(0, 10),
+    notes: recipe.notes ? [{ title: "Notes", text: recipe.notes }] : [],
+    // Mealie keeps images in its own store; carry the URL as a custom field
+    extras: recipe.image?.startsWith("http") ? { source_image: recipe.image } : {},
+  };
+}
+
+function isMealieRecipe(obj: JsonObject): boolean {
+  return typeof obj.name === "string" && ("slug" in obj || "orgURL" in obj || Array.isArray(obj.recipeIngredient));
+}
+
+/** Mealie ingredient — a plain string (older exports) or a parsed object. */
+function mealieIngredient(item: unknown): { title: string | null; line: string | null } {
+  if (!isObject(item)) return { title: null, line: text(item) };
+
+  let line = text(item.display) ?? text(item.originalText);
+  if (!line) {
+    const parts = [
+      text(item.quantity) === "0" ? null : text(item.quantity),
+      isObject(item.unit) ? text(item.unit.name) : text(item.unit),
+      isObject(item.food) ? text(item.food.name) : text(item.food),
+      text(item.note),
+    ];
+    line = parts.filter(Boolean).join(" ") || null;
+  }
+  return { title: text(item.title), line };
+}
+
+function fromMealie(obj: JsonObject): ImportedFields {
+  const ingredients: string[] = [];
+  for (const item of Array.isArray(obj.recipeIngredient) ? obj.recipeIngredient : []) {
+    const { title, line } = mealieIngredient(item);
+    if (title) ingredients.push(`## ${title.replace(/:$/, "")}:`);
+    if (line) ingredients.push(line);
+  }
+
+  const instructions: string[] = [];
+  for (const item of Array.isArray(obj.recipeInstructions) ? obj.recipeInstructions : []) {
+    const title = isObject(item) ? text(item.title) : null;
+    if (title) instructions.push(toSectionHeader(title));
+    const raw = text(isObject(item) ? item.text : item);
+    if (!raw) continue;
+    // "- " lines at the end of a step are its sub-steps
+    const stepLines = raw.split(/\r?\n/);
+    const step = stepLines.filter((l) => !isSubStep(l.trim())).join("\n").trim();
+    if (step) instructions.push(step);
+    instructions.push(...stepLines.map((l) => l.trim()).filter(isSubStep));
+  }
+
+  const notes = (Array.isArray(obj.notes) ? obj.notes : [])
+    .filter(isObject)
+    .map((note) => {
+      const title = text(note.title);
+      // Our own export titles the single note "Notes" — don't repeat it
+      return [title?.toLowerCase() === "notes" ? null : title, text(note.text)].filter(Boolean).join(": ");
+    })
+    .filter(Boolean);
+
+  const extras = isObject(obj.extras) ? obj.extras : {};
+
+  return {
+    title: text(obj.name) ?? "",
+    image: httpUrl(extras.source_image) ?? httpUrl(obj.image),
+    ingredients,
+    instructions,
+    sourceUrl: httpUrl(obj.orgURL),
+    tags: uniqueTags([...names(obj.tags), ...names(obj.recipeCategory)]),
+    createdAt: parseDate(obj.dateAdded) ?? parseDate(obj.createdAt),
+    prepTime: parseDurationToISO(text(obj.prepTime)),
+    cookTime: parseDurationToISO(text(obj.performTime) ?? text(obj.cookTime)),
+    totalTime: parseDurationToISO(text(obj.totalTime)),
+    servings: text(obj.recipeYield) ?? text(obj.recipeServings),
+    author: null,
+    cuisineType: null,
+    rating: parseRating(obj.rating),
+    notes: notes.length > 0 ? notes.join("\n\n") : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** Serialize recipes into a downloadable file in the given format. */
+export async function exportRecipes(
+  recipes: Recipe[],
+  format: RecipeExportFormat,
+  baseName = "cooksnap-recipes",
+): Promise<RecipeExportFile> {
+  const encoder = new TextEncoder();
+
+  switch (format) {
+    case "jsonld":
+      return {
+        filename: `${baseName}.jsonld`,
+        mimeType: "application/ld+json",
+        data: encoder.encode(
+          JSON.stringify({ "@context": "https://schema.org", "@graph": recipes.map(recipeToJsonLd) }, null, 2),
+        ),
+      };
+    case "mealie":
+      return {
+        filename: `${baseName}.mealie.json`,
+        mimeType: "application/json",
+        data: encoder.encode(JSON.stringify(recipes.map(recipeToMealie), null, 2)),
+      };
+    case "paprika": {
+      const used = new Set<string>();
+      const entries = [];
+      for (const recipe of recipes) {
+        entries.push({
+          name: paprikaEntryName(recipe.title, used),
+          data: await gzip(encoder.encode(JSON.stringify(recipeToPaprika(recipe)))),
+        });
+      }
+      return {
+        filename: `${baseName}.paprikarecipes`,
+        mimeType: "application/zip",
+        data: createZip(entries),
+      };
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/** Unwrap arrays, JSON-LD @graph documents and Mealie's paginated `items`. */
+function collectCandidates(value: unknown): JsonObject[] {
+  if (Array.isArray(value)) return value.flatMap(collectCandidates);
+  if (!isObject(value)) return [];
+  if (Array.isArray(value["@graph"])) return collectCandidates(value["@graph"]);
+  if (Array.isArray(value.items) && !("name" in value)) return collectCandidates(value.items);
+  return [value];
+}
+
+function toImportedFields(obj: JsonObject): ImportedFields | null {
+  if (isJsonLdRecipe(obj)) return fromJsonLd(obj);
+  if (isMealieRecipe(obj)) return fromMealie(obj);
+  if (isPaprikaRecipe(obj)) return fromPaprika(obj);
+  return null;
+}
+
+/** Run imported fields through `recipeSchema`; null when the recipe is unusable. */
+function validateImported(fields: ImportedFields, index: number): Recipe | null {
+  if (!fields.title || (fields.ingredients.length === 0 && fields.instructions.length === 0)) {
+    return null;
+  }
+  const result = recipeSchema.safeParse({
+    ...fields,
+    // Placeholder — the database assigns the real id on save
+    id: `import-${index}`,
+    sourceUrl: fields.sourceUrl ?? "",
+    createdAt: fields.createdAt ?? new Date().toISOString(),
+  });
+  return result.success ? (result.data as Recipe) : null;
+}
+
+/** Parse already-decoded recipe objects (any supported format) into Recipes. */
+export function parseRecipeObjects(value: unknown): RecipeImportResult {
+  const recipes: Recipe[] = [];
+  let skipped = 0;
+
+  collectCandidates(value).forEach((obj, i) => {
+    const fields = toImportedFields(obj);
+    const recipe = fields && validateImported(fields, i);
+    if (recipe) recipes.push(recipe);
+    else skipped++;
+  });
+
+  return { recipes, skipped };
+}
+
+async function decodeJson(data: Uint8Array): Promise<unknown> {
+  const bytes = isGzip(data) ? await gunzip(data) : data;
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+/**
+ * Read an exported recipe file — a .paprikarecipes archive, a single gzipped
+ * .paprikarecipe, or JSON (JSON-LD or Mealie). Throws when the file can't be
+ * read at all; individual unusable recipes are counted in `skipped`.
+ */
+export async function importRecipeFile(data: Uint8Array): Promise<RecipeImportResult> {
+  if (isZip(data)) {
+    const objects: unknown[] = [];
+    let unreadable = 0;
+    for (const entry of await readZip(data)) {
+      try {
+        objects.push(await decodeJson(entry.data));
+      } catch {
+        unreadable++;
+      }
+    }
+    const result = parseRecipeObjects(objects);
+    return { ...result, skipped: result.skipped + unreadable };
+  }
+
+  let value: unknown;
+  try {
+    value = await decodeJson(data);
+  } catch {
+    throw new Error("File is not a recognized recipe export");
+  }
+  return parseRecipeObjects(value);
+}
@@ -0,0 +1,77 @@
+// ---------------------------------------------------------------------------
+// Tests for the recipe finder — matching on-hand ingredients to recipes
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import type { Recipe } from "@/types";
+import { findRecipesByIngredients, isStaple } from "./recipe-finder";
+
+function makeRecipe(title: string, ingredients: string[]): Recipe {
+  return {
+    id: title,
+    title,
+    image: null,
+    ingredients,
+    instructions: [],
+    sourceUrl: "",
+    tags: [],
+    createdAt: "2026-01-01T00:00:00Z",
+  };
+}
+
+const slaw = makeRecipe("Cabbage Slaw", [
+  "1/2 head green cabbage, shredded",
+  "1 large red onion, thinly sliced",
+  "Kosher salt and freshly ground black pepper",
+]);
+const thighs = makeRecipe("Roast Chicken Thighs", [
+  "## Chicken",
+  "2 lb boneless skinless chicken thighs",
+  "2 large red onions, diced",
+  "3 cloves garlic, minced",
+  "2 tbsp extra-virgin olive oil",
+  "salt, to taste",
+]);
+const soup = makeRecipe("Noodle Soup", ["4 cups chicken stock", "200 g egg noodles", "1 cup water"]);
+const recipes = [soup, thighs, slaw];
+
+describe("isStaple", () => {
+  it("recognizes salt, pepper and water however they're written", () => {
+    expect(isStaple("salt, to taste")).toBe(true);
+    expect(isStaple("Kosher salt and freshly ground black pepper")).toBe(true);
+    expect(isStaple("1 cup cold water")).toBe(true);
+    expect(isStaple("1 red bell pepper")).toBe(false);
+    expect(isStaple("2 tbsp sea bass")).toBe(false);
+  });
+});
+
+describe("findRecipesByIngredients", () => {
+  it("matches parsed ingredient names, ignoring quantities and prep", () => {
+    const [match] = findRecipesByIngredients([thighs], ["onion"]);
+    expect(match.have).toEqual(["2 large red onions, diced"]);
+  });
+
+  it("ranks by coverage and lists what's missing", () => {
+    const matches = findRecipesByIngredients(recipes, ["half a cabbage", "chicken thighs", "red onion"]);
+
+    expect(matches.map((m) => m.recipe.title)).toEqual(["Cabbage Slaw", "Roast Chicken Thighs"]);
+    expect(matches[0].coverage).toBe(1);
+    expect(matches[1].missing).toEqual(["3 cloves garlic, minced", "2 tbsp extra-virgin olive oil"]);
+    expect(matches[1].coverage).toBe(0.5);
+  });
+
+  it("leaves staples out of the count", () => {
+    const [match] = findRecipesByIngredients([slaw], ["cabbage"]);
+    expect(match.missing).toEqual(["1 large red onion, thinly sliced"]);
+  });
+
+  it("lets a general ingredient cover a specific one but not a derived product", () => {
+    const matches = findRecipesByIngredients(recipes, ["chicken"]);
+    expect(matches.map((m) => m.recipe.title)).toEqual(["Roast Chicken Thighs"]);
+    expect(findRecipesByIngredients([soup], ["chicken stock"])).toHaveLength(1);
+  });
+
+  it("returns nothing without ingredients on hand", () => {
+    expect(findRecipesByIngredients(recipes, [" "])).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+// ---------------------------------------------------------------------------
+// Recipe finder — "what can I cook with what I have"
+//
+// Ranks recipes by how many of their ingredients are on hand. Both sides go
+// through parseIngredient and normalizeIngredientName, then are compared as
+// sets of words with size and prep descriptors dropped, so "2 large red
+// onions, diced" is covered by "onion" and "chicken thighs" by "chicken".
+// Staples nobody shops for (salt, pepper, water) are left out of the count.
+// ---------------------------------------------------------------------------
+
+import { normalizeIngredientName } from "./ingredient-aggregator";
+import { parseIngredient } from "./ingredient-parser";
+import type { Recipe } from "@/types";
+
+export interface RecipeMatch {
+  recipe: Recipe;
+  /** Ingredient lines covered by what's on hand, as written. */
+  have: string[];
+  /** Ingredient lines still needed, as written. */
+  missing: string[];
+  /** Share of the (non-staple) ingredients on hand, 0–1. */
+  coverage: number;
+}
+
+/** Words that describe an ingredient rather than name it. */
+const DESCRIPTORS = new Set([
+  "a", "an", "of", "some", "half", "whole", "to", "taste", "for", "serving",
+  "large", "medium", "small", "big", "extra", "virgin", "all", "purpose",
+  "fresh", "freshly", "dried", "ground", "boneless", "skinless", "bone", "in",
+  "chopped", "diced", "minced", "sliced", "grated", "shredded", "crushed",
+  "peeled", "ripe", "raw", "frozen", "canned", "can", "jar", "package", "head",
+  "bunch", "optional", "about", "plus", "more", "needed", "as",
+]);
+
+/** Words that turn an ingredient into a different product ("chicken" ≠ "chicken stock"). */
+const DERIVED = new Set(["stock", "broth", "bouillon", "paste", "powder", "extract", "sauce"]);
+
+/** An ingredient made only of these words is a staple and isn't counted. */
+const STAPLE_WORDS = new Set([
+  "salt", "kosher", "sea", "table", "pepper", "black", "water", "cold", "warm",
+  "hot", "boiling", "ice", "cube", "cooking", "spray", "nonstick", "and", "or",
+]);
+
+/** The words naming an ingredient: "2 large red onions, diced" → ["red", "onion"]. */
+function nameWords(text: string): string[] {
+  const parsed = parseIngredient(text);
+  return (parsed.name || text)
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .split(/[^a-z]+/)
+    .filter((w) => w && !DESCRIPTORS.has(w))
+    .map(normalizeIngredientName);
+}
+
+/** True for salt, pepper, water and the like. */
+export function isStaple(ingredient: string): boolean {
+  const words = nameWords(ingredient);
+  return words.length > 0 && words.every((w) => STAPLE_WORDS.has(w));
+}
+
+/**
+ * True when an on-hand item covers a recipe ingredient: one's words contain
+ * the other's, and neither is a derived product the other isn't.
+ */
+function covers(onHand: string[], ingredient: string[]): boolean {
+  if (onHand.length === 0 || ingredient.length === 0) return false;
+  if (ingredient.some((w) => DERIVED.has(w) && !onHand.includes(w))) return false;
+  if (onHand.some((w) => DERIVED.has(w) && !ingredient.includes(w))) return false;
+  return (
+    onHand.every((w) => ingredient.includes(w)) ||
+    ingredient.every((w) => onHand.includes(w))
+  );
+}
+
+/**
+ * Recipes that use at least one of the ingredients on hand, best coverage
+ * first; ties go to the recipe with fewer ingredients missing.
+ */
+export function findRecipesByIngredients(recipes: Recipe[], onHand: string[]): RecipeMatch[] {
+  const available = onHand.map(nameWords).filter((w) => w.length > 0);
+  if (available.length === 0) return [];
+
+  const matches: RecipeMatch[] = [];
+  for (const recipe of recipes) {
+    const have: string[] = [];
+    const missing: string[] = [];
+    for (const line of recipe.ingredients) {
+      if (line.startsWith("## ") || isStaple(line)) continue;
+      const words = nameWords(line);
+      if (words.length === 0) continue;
+      if (available.some((a) => covers(a, words))) have.push(line);
+      else missing.push(line);
+    }
+    if (have.length === 0) continue;
+    matches.push({ recipe, have, missing, coverage: have.length / (have.length + missing.length) });
+  }
+
+  return matches.sort(
+    (a, b) =>
+      b.coverage - a.coverage ||
+      a.missing.length - b.missing.length ||
+      a.recipe.title.localeCompare(b.recipe.title)
+  );
+}
@@ -0,0 +1,94 @@
+// ---------------------------------------------------------------------------
+// Tests for recipe-revisions — snapshots and diffs for the history view
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import type { Recipe } from "@/types";
+import { diffLines, diffSnapshots, recipeSnapshot, sameSnapshot, summarizeDiff } from "./recipe-revisions";
+
+const recipe: Recipe = {
+  id: "r1",
+  title: "Tomato Soup",
+  image: null,
+  ingredients: ["2 lb tomatoes", "1 onion", "2 cups stock"],
+  instructions: ["Roast the tomatoes.", "Simmer with the stock.", "Blend."],
+  sourceUrl: "https://example.com/soup",
+  tags: ["soup"],
+  createdAt: "2026-10-01T00:00:00Z",
+  servings: "4",
+  rating: 5,
+};
+
+describe("recipeSnapshot", () => {
+  it("keeps the content and leaves out tags, ratings and ids", () => {
+    const snapshot = recipeSnapshot(recipe);
+
+    expect(snapshot).toMatchObject({ title: "Tomato Soup", servings: "4", notes: null, prepTime: null });
+    expect(snapshot).not.toHaveProperty("tags");
+    expect(snapshot).not.toHaveProperty("rating");
+    expect(snapshot).not.toHaveProperty("id");
+  });
+
+  it("compares equal when only untracked fields differ", () => {
+    expect(sameSnapshot(recipeSnapshot(recipe), recipeSnapshot({ ...recipe, rating: 1, tags: [] }))).toBe(true);
+    expect(sameSnapshot(recipeSnapshot(recipe), recipeSnapshot({ ...recipe, notes: "Add cream" }))).toBe(false);
+    expect(sameSnapshot(recipeSnapshot(recipe), recipeSnapshot({ ...recipe, ingredients: ["1 onion"] }))).toBe(false);
+  });
+});
+
+describe("diffLines", () => {
+  it("marks kept, removed and added lines in order", () => {
+    expect(diffLines(["a", "b", "c"], ["a", "x", "c", "d"])).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "x" },
+      { type: "same", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+  });
+
+  it("handles empty lists", () => {
+    expect(diffLines([], ["a"])).toEqual([{ type: "added", text: "a" }]);
+    expect(diffLines(["a"], [])).toEqual([{ type: "removed", text: "a" }]);
+    expect(diffLines([], [])).toEqual([]);
+  });
+
+  it("keeps a moved line as one removal and one addition", () => {
+    const changes = diffLines(["a", "b", "c"], ["b", "c", "a"]);
+
+    expect(changes.filter((c) => c.type === "same").map((c) => c.text)).toEqual(["b", "c"]);
+    expect(changes.filter((c) => c.type !== "same")).toHaveLength(2);
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("lists changed fields and lines", () => {
+    const before = recipeSnapshot(recipe);
+    const after = recipeSnapshot({
+      ...recipe,
+      servings: "6",
+      notes: "Add a splash of cream",
+      ingredients: ["3 lb tomatoes", "1 onion", "2 cups stock"],
+    });
+
+    const diff = diffSnapshots(before, after);
+
+    expect(diff.fields).toEqual([
+      { field: "servings", label: "Servings", before: "4", after: "6" },
+      { field: "notes", label: "Notes", before: null, after: "Add a splash of cream" },
+    ]);
+    expect(diff.ingredients.filter((l) => l.type !== "same")).toEqual([
+      { type: "removed", text: "2 lb tomatoes" },
+      { type: "added", text: "3 lb tomatoes" },
+    ]);
+    expect(diff.instructions.every((l) => l.type === "same")).toBe(true);
+    expect(summarizeDiff(diff)).toBe("Servings, Notes, 1 ingredient");
+  });
+
+  it("treats a cleared field and a missing one alike", () => {
+    const diff = diffSnapshots(recipeSnapshot({ ...recipe, author: "" }), recipeSnapshot(recipe));
+
+    expect(diff.fields).toEqual([]);
+    expect(summarizeDiff(diff)).toBe("No changes");
+  });
+});
@@ -0,0 +1,147 @@
+// ---------------------------------------------------------------------------
+// Recipe revisions — snapshots of a recipe's content, and what changed
+// between two of them (for the history view)
+// ---------------------------------------------------------------------------
+
+import type { Recipe, RecipeSnapshot } from "@/types";
+
+type ScalarField = Exclude<keyof RecipeSnapshot, "ingredients" | "instructions">;
+
+/** Single-value fields in the order the history lists them. */
+export const SNAPSHOT_FIELD_LABELS: Record<ScalarField, string> = {
+  title: "Title",
+  servings: "Servings",
+  prepTime: "Prep time",
+  cookTime: "Cook time",
+  totalTime: "Total time",
+  author: "Author",
+  cuisineType: "Cuisine",
+  difficulty: "Difficulty",
+  notes: "Notes",
+  image: "Photo",
+  sourceUrl: "Source",
+};
+
+const SCALAR_FIELDS = Object.keys(SNAPSHOT_FIELD_LABELS) as ScalarField[];
+
+/** Every field a snapshot keeps; an update touching any of them is a revision. */
+export const SNAPSHOT_FIELDS: (keyof RecipeSnapshot)[] = [...SCALAR_FIELDS, "ingredients", "instructions"];
+
+/** The revisioned content of a recipe, with missing metadata as null. */
+export function recipeSnapshot(recipe: Recipe | RecipeSnapshot): RecipeSnapshot {
+  return {
+    title: recipe.title,
+    image: recipe.image ?? null,
+    sourceUrl: recipe.sourceUrl ?? "",
+    ingredients: [...(recipe.ingredients ?? [])],
+    instructions: [...(recipe.instructions ?? [])],
+    prepTime: recipe.prepTime ?? null,
+    cookTime: recipe.cookTime ?? null,
+    totalTime: recipe.totalTime ?? null,
+    servings: recipe.servings ?? null,
+    author: recipe.author ?? null,
+    cuisineType: recipe.cuisineType ?? null,
+    difficulty: recipe.difficulty ?? null,
+    notes: recipe.notes ?? null,
+  };
+}
+
+export function sameSnapshot(a: RecipeSnapshot, b: RecipeSnapshot): boolean {
+  return (
+    // An emptied field and a missing one are the same
+    SCALAR_FIELDS.every((field) => (a[field] || null) === (b[field] || null)) &&
+    sameLines(a.ingredients, b.ingredients) &&
+    sameLines(a.instructions, b.instructions)
+  );
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+// ---------------------------------------------------------------------------
+// Diffing
+// ---------------------------------------------------------------------------
+
+export interface LineChange {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface FieldChange {
+  field: ScalarField;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface SnapshotDiff {
+  fields: FieldChange[];
+  ingredients: LineChange[];
+  instructions: LineChange[];
+}
+
+/**
+ * Line diff by longest common subsequence: unchanged lines in order, with
+ * removals listed before the additions that replace them. Recipe lists are
+ * short, so the quadratic table is fine.
+ */
+export function diffLines(before: string[], after: string[]): LineChange[] {
+  const n = before.length;
+  const m = after.length;
+  // lcs[i][j] = length of the LCS of before[i..] and after[j..]
+  const lcs = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      changes.push({ type: "same", text: before[i] });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      changes.push({ type: "removed", text: before[i++] });
+    } else {
+      changes.push({ type: "added", text: after[j++] });
+    }
+  }
+  return changes;
+}
+
+/** What changed from `before` to `after`; everything counts as added when there's no `before`. */
+export function diffSnapshots(before: RecipeSnapshot | null, after: RecipeSnapshot): SnapshotDiff {
+  const fields = SCALAR_FIELDS.flatMap((field): FieldChange[] => {
+    const from = before ? before[field] : null;
+    const to = after[field];
+    if (from === to || (!from && !to)) return [];
+    return [{ field, label: SNAPSHOT_FIELD_LABELS[field], before: from || null, after: to || null }];
+  });
+  return {
+    fields,
+    ingredients: diffLines(before?.ingredients ?? [], after.ingredients),
+    instructions: diffLines(before?.instructions ?? [], after.instructions),
+  };
+}
+
+/** "Title, 2 ingredients, 1 step" — a one-line summary of a diff for the history list. */
+export function summarizeDiff(diff: SnapshotDiff): string {
+  const count = (lines: LineChange[]) =>
+    Math.max(
+      lines.filter((l) => l.type === "added").length,
+      lines.filter((l) => l.type === "removed").length
+    );
+  const ingredients = count(diff.ingredients);
+  const steps = count(diff.instructions);
+  const parts = [
+    ...diff.fields.map((f) => f.label),
+    ingredients > 0 && `${ingredients} ingredient${ingredients === 1 ? "" : "s"}`,
+    steps > 0 && `${steps} step${steps === 1 ? "" : "s"}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "No changes";
+}
@@ -0,0 +1,155 @@
+// ---------------------------------------------------------------------------
+// Tests for recipe search — query parsing, matching and ranking
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import type { Recipe } from "@/types";
+import { parseSearchQuery, recipeMinutes, scoreRecipe, searchRecipes } from "./recipe-search";
+
+function makeRecipe(overrides: Partial<Recipe> = {}): Recipe {
+  return {
+    id: overrides.title ?? "r",
+    title: "Untitled",
+    image: null,
+    ingredients: [],
+    instructions: [],
+    sourceUrl: "",
+    tags: [],
+    createdAt: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const thighs = makeRecipe({
+  title: "Crispy Chicken Thighs",
+  ingredients: ["2 lb chicken thighs", "1 tbsp olive oil", "salt"],
+  tags: ["Dinner"],
+  author: "J. Kenji López-Alt",
+  totalTime: "PT25M",
+  rating: 5,
+});
+const curry = makeRecipe({
+  title: "Thai Green Curry",
+  ingredients: ["1 lb chicken breast", "2 tbsp green curry paste", "1 can coconut milk"],
+  tags: ["Dinner", "Spicy"],
+  prepTime: "PT15M",
+  cookTime: "PT30M",
+  rating: 4,
+});
+const salad = makeRecipe({
+  title: "Tomato Salad",
+  ingredients: ["4 tomatoes", "2 tbsp olive oil"],
+  instructions: ["Slice the tomatoes and dress with oil."],
+  tags: ["Lunch"],
+  totalTime: "PT10M",
+  isFavorite: true,
+});
+const recipes = [thighs, curry, salad];
+
+// ---------------------------------------------------------------------------
+// parseSearchQuery
+// ---------------------------------------------------------------------------
+
+describe("parseSearchQuery", () => {
+  it("parses fielded, negated and range terms", () => {
+    expect(parseSearchQuery("ingredient:chicken -tag:spicy time:<30m author:kenji rating:>=4")).toEqual({
+      terms: [
+        { field: "ingredient", value: "chicken", negate: false },
+        { field: "tag", value: "spicy", negate: true },
+        { field: "author", value: "kenji", negate: false },
+      ],
+      ranges: [
+        { field: "time", op: "<", value: 30, negate: false },
+        { field: "rating", op: ">=", value: 4, negate: false },
+      ],
+      favorite: null,
+    });
+  });
+
+  it("keeps quoted phrases together", () => {
+    expect(parseSearchQuery('ing:"olive oil" "green curry"').terms).toEqual([
+      { field: "ingredient", value: "olive oil", negate: false },
+      { field: "any", value: "green curry", negate: false },
+    ]);
+  });
+
+  it("reads hour durations and default comparisons", () => {
+    expect(parseSearchQuery("time:1h30m rating:4").ranges).toEqual([
+      { field: "time", op: "<=", value: 90, negate: false },
+      { field: "rating", op: ">=", value: 4, negate: false },
+    ]);
+  });
+
+  it("treats unknown fields and bad ranges as text", () => {
+    expect(parseSearchQuery("color:red time:soon").terms).toEqual([
+      { field: "any", value: "color:red", negate: false },
+      { field: "any", value: "time:soon", negate: false },
+    ]);
+  });
+
+  it("parses is:favorite", () => {
+    expect(parseSearchQuery("is:favorite").favorite).toBe(true);
+    expect(parseSearchQuery("-is:fav").favorite).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Matching and ranking
+// ---------------------------------------------------------------------------
+
+describe("searchRecipes", () => {
+  const search = (q: string) => searchRecipes(recipes, parseSearchQuery(q)).map((r) => r.title);
+
+  it("returns everything in order for an empty query", () => {
+    expect(search("  ")).toEqual(["Crispy Chicken Thighs", "Thai Green Curry", "Tomato Salad"]);
+  });
+
+  it("applies the example query from the search help", () => {
+    expect(search("ingredient:chicken -tag:spicy time:<30m author:kenji rating:>=4")).toEqual([
+      "Crispy Chicken Thighs",
+    ]);
+  });
+
+  it("ranks title matches above ingredient-only matches", () => {
+    expect(search("olive")).toEqual(["Crispy Chicken Thighs", "Tomato Salad"]);
+    expect(search("curry")[0]).toBe("Thai Green Curry");
+  });
+
+  it("tolerates typos in longer words", () => {
+    expect(search("chiken")).toEqual(["Crispy Chicken Thighs", "Thai Green Curry"]);
+    expect(search("tomatoe")).toEqual(["Tomato Salad"]);
+  });
+
+  it("doesn't let a typo exclude a recipe", () => {
+    expect(search("-tag:spicey")).toHaveLength(3);
+  });
+
+  it("matches accents and prefixes", () => {
+    expect(search("author:lopez")).toEqual(["Crispy Chicken Thighs"]);
+    expect(search("ing:tomato")).toEqual(["Tomato Salad"]);
+  });
+
+  it("searches instructions with step:", () => {
+    expect(search("step:slice")).toEqual(["Tomato Salad"]);
+  });
+
+  it("filters favorites", () => {
+    expect(search("is:favorite")).toEqual(["Tomato Salad"]);
+  });
+});
+
+describe("scoreRecipe", () => {
+  it("excludes recipes without the ranged field", () => {
+    const unrated = makeRecipe({ title: "Toast" });
+    expect(scoreRecipe(unrated, parseSearchQuery("rating:>=1"))).toBeNull();
+    expect(scoreRecipe(unrated, parseSearchQuery("-rating:>=1"))).toBe(0);
+  });
+});
+
+describe("recipeMinutes", () => {
+  it("falls back to prep plus cook time", () => {
+    expect(recipeMinutes(thighs)).toBe(25);
+    expect(recipeMinutes(curry)).toBe(45);
+    expect(recipeMinutes(makeRecipe())).toBeNull();
+  });
+});
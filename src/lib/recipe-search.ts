@@ -0,0 +1,315 @@
+// ---------------------------------------------------------------------------
+// Recipe search — query syntax, matching and ranking
+//
+// Queries mix free text with fielded terms:
+//
+//   ingredient:chicken -tag:spicy time:<30m author:kenji rating:>=4
+//
+// Quoted values keep spaces ("olive oil"), a leading "-" excludes matches,
+// and `is:favorite` limits to favorites. Unknown fields are searched as
+// plain text. The same parsed query drives the Postgres search function
+// (see searchRecipes in the service layer) and the in-memory fallback below,
+// which tolerates small typos the way the database's trigram match does.
+// ---------------------------------------------------------------------------
+
+import type { Recipe } from "@/types";
+
+export type SearchField =
+  | "any"
+  | "title"
+  | "ingredient"
+  | "instruction"
+  | "tag"
+  | "author"
+  | "cuisine"
+  | "difficulty";
+
+export type Comparison = "<" | "<=" | "=" | ">=" | ">";
+
+export interface TextTerm {
+  field: SearchField;
+  value: string;
+  negate: boolean;
+}
+
+export interface RangeTerm {
+  /** Total time in minutes, or star rating. */
+  field: "time" | "rating";
+  op: Comparison;
+  value: number;
+  negate: boolean;
+}
+
+export interface SearchQuery {
+  terms: TextTerm[];
+  ranges: RangeTerm[];
+  /** `is:favorite` → true, `-is:favorite` → false, otherwise null. */
+  favorite: boolean | null;
+}
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  title: "title",
+  ingredient: "ingredient",
+  ingredients: "ingredient",
+  ing: "ingredient",
+  instruction: "instruction",
+  instructions: "instruction",
+  step: "instruction",
+  tag: "tag",
+  author: "author",
+  by: "author",
+  cuisine: "cuisine",
+  difficulty: "difficulty",
+};
+
+/** How much a match in each field counts toward a recipe's relevance. */
+const FIELD_WEIGHTS: Record<Exclude<SearchField, "any">, number> = {
+  title: 10,
+  tag: 6,
+  ingredient: 4,
+  author: 3,
+  cuisine: 3,
+  difficulty: 2,
+  instruction: 1,
+};
+
+const TOKEN_RE = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+/** Parse "<30m", ">=4", "1h" into a comparison; `defaultOp` applies when none is given. */
+function parseComparison(
+  raw: string,
+  defaultOp: Comparison,
+  parseValue: (s: string) => number | null,
+): { op: Comparison; value: number } | null {
+  const match = raw.match(/^(<=|>=|<|>|=)?(.+)$/);
+  if (!match) return null;
+  const value = parseValue(match[2]);
+  if (value === null) return null;
+  return { op: (match[1] as Comparison | undefined) ?? defaultOp, value };
+}
+
+/** "30m", "1h30m", "1.5h", "90" (minutes) → minutes. */
+function parseMinutes(raw: string): number | null {
+  const s = raw.toLowerCase().replace(/\s+/g, "");
+  if (/^\d+(\.\d+)?$/.test(s)) return parseFloat(s);
+  const match = s.match(/^(?:(\d+(?:\.\d+)?)h(?:ours?|rs?)?)?(?:(\d+)m(?:ins?|inutes?)?)?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  return Math.round(parseFloat(match[1] ?? "0") * 60 + parseInt(match[2] ?? "0"));
+}
+
+function parseRating(raw: string): number | null {
+  const n = parseFloat(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Parse a search box string into terms. Never throws; unparseable bits become free text. */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], ranges: [], favorite: null };
+
+  for (const match of input.matchAll(TOKEN_RE)) {
+    const [token, dash, rawField, quoted, word] = match;
+    const negate = dash === "-";
+    const value = (quoted ?? word ?? "").trim();
+    const fieldName = rawField?.toLowerCase();
+
+    if (fieldName === "time" || fieldName === "rating") {
+      const parsed =
+        fieldName === "time"
+          ? parseComparison(value, "<=", parseMinutes)
+          : parseComparison(value, ">=", parseRating);
+      if (parsed) {
+        query.ranges.push({ field: fieldName, ...parsed, negate });
+        continue;
+      }
+    } else if (fieldName === "is" && /^fav(orite|ourite)?s?$/i.test(value)) {
+      query.favorite = !negate;
+      continue;
+    }
+
+    const field = fieldName ? FIELD_ALIASES[fieldName] : "any";
+    if (field) {
+      if (value) query.terms.push({ field, value, negate });
+    } else {
+      // Unknown field: search the whole token as text
+      const text = token.slice(negate ? 1 : 0).replace(/"/g, "").trim();
+      if (text) query.terms.push({ field: "any", value: text, negate });
+    }
+  }
+
+  return query;
+}
+
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return query.terms.length === 0 && query.ranges.length === 0 && query.favorite === null;
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+function words(text: string): string[] {
+  return normalize(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/** Typos allowed in a query word: none for short words, more for long ones. */
+function maxTypos(word: string): number {
+  if (word.length < 4) return 0;
+  return word.length < 8 ? 1 : 2;
+}
+
+/** Edit distance (with transpositions) between a and b, or Infinity once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, prevPrev[j - 2] + 1);
+      }
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return Infinity;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length] <= max ? prev[b.length] : Infinity;
+}
+
+/**
+ * How well `value` matches `text`, from 0 (no match) to 1 (exact substring).
+ * Every word of the value has to match some word of the text, by prefix
+ * ("tomato" → "tomatoes") or — when `fuzzy` — within a typo or two.
+ */
+function matchText(value: string, text: string, fuzzy: boolean): number {
+  const needle = normalize(value);
+  const haystack = normalize(text);
+  if (!needle || !haystack) return 0;
+  if (haystack.includes(needle)) return 1;
+
+  const queryWords = words(value);
+  if (queryWords.length === 0) return 0;
+
+  const textWords = words(text);
+  let score = 1;
+  for (const qw of queryWords) {
+    let best = 0;
+    for (const tw of textWords) {
+      if (tw === qw) best = 1;
+      else if (qw.length >= 3 && tw.startsWith(qw)) best = Math.max(best, 0.8);
+      else if (fuzzy && editDistance(qw, tw, maxTypos(qw)) !== Infinity) best = Math.max(best, 0.6);
+      if (best === 1) break;
+    }
+    if (best === 0) return 0;
+    score = Math.min(score, best);
+  }
+  return score;
+}
+
+function fieldTexts(recipe: Recipe, field: Exclude<SearchField, "any">): string[] {
+  switch (field) {
+    case "title":
+      return [recipe.title];
+    case "ingredient":
+      return recipe.ingredients.filter((i) => !i.startsWith("## "));
+    case "instruction":
+      return recipe.instructions;
+    case "tag":
+      return recipe.tags;
+    case "author":
+      return recipe.author ? [recipe.author] : [];
+    case "cuisine":
+      return recipe.cuisineType ? [recipe.cuisineType] : [];
+    case "difficulty":
+      return recipe.difficulty ? [recipe.difficulty] : [];
+  }
+}
+
+/** Weighted score of one term against a recipe; 0 when it doesn't match. */
+function scoreTerm(recipe: Recipe, term: TextTerm, fuzzy: boolean): number {
+  const fields =
+    term.field === "any"
+      ? (Object.keys(FIELD_WEIGHTS) as Exclude<SearchField, "any">[])
+      : [term.field];
+
+  let score = 0;
+  for (const field of fields) {
+    const best = Math.max(0, ...fieldTexts(recipe, field).map((t) => matchText(term.value, t, fuzzy)));
+    score += best * FIELD_WEIGHTS[field];
+  }
+  return score;
+}
+
+/** Total time in minutes, falling back to prep + cook. Null when unknown. */
+export function recipeMinutes(recipe: Pick<Recipe, "totalTime" | "prepTime" | "cookTime">): number | null {
+  const minutes = (iso: string | null | undefined) => {
+    const match = iso?.match(/^PT(?:(\d+)H)?(?:(\d+)M)?$/);
+    return match && (match[1] || match[2]) ? parseInt(match[1] ?? "0") * 60 + parseInt(match[2] ?? "0") : null;
+  };
+  const total = minutes(recipe.totalTime);
+  if (total !== null) return total;
+  const prep = minutes(recipe.prepTime);
+  const cook = minutes(recipe.cookTime);
+  return prep === null && cook === null ? null : (prep ?? 0) + (cook ?? 0);
+}
+
+function compare(actual: number, op: Comparison, expected: number): boolean {
+  switch (op) {
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case "=":
+      return actual === expected;
+    case ">=":
+      return actual >= expected;
+    case ">":
+      return actual > expected;
+  }
+}
+
+/**
+ * Relevance of a recipe for a query, or null if it doesn't match. Every
+ * positive term must match; negated terms exclude on an exact or prefix
+ * match only, so a typo never hides a recipe.
+ */
+export function scoreRecipe(recipe: Recipe, query: SearchQuery): number | null {
+  if (query.favorite !== null && Boolean(recipe.isFavorite) !== query.favorite) return null;
+
+  for (const range of query.ranges) {
+    const actual = range.field === "time" ? recipeMinutes(recipe) : recipe.rating ?? null;
+    const matches = actual !== null && compare(actual, range.op, range.value);
+    if (matches === range.negate) return null;
+  }
+
+  let score = 0;
+  for (const term of query.terms) {
+    const termScore = scoreTerm(recipe, term, !term.negate);
+    if (term.negate ? termScore > 0 : termScore === 0) return null;
+    score += termScore;
+  }
+  return score;
+}
+
+/** Recipes matching the query, most relevant first; ties keep their input order. */
+export function searchRecipes(recipes: Recipe[], query: SearchQuery): Recipe[] {
+  if (isEmptyQuery(query)) return recipes;
+
+  return recipes
+    .map((recipe) => ({ recipe, score: scoreRecipe(recipe, query) }))
+    .filter((hit): hit is { recipe: Recipe; score: number } => hit.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((hit) => hit.recipe);
+}
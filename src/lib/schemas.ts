@@ -52,3 +52,150 @@ export const storeStateSchema = z.object({
 });
 
 export type ValidatedStoreState = z.infer<typeof storeStateSchema>;
+
+// ---------------------------------------------------------------------------
+// Account backup (GET /api/account/export, POST /api/account/import)
+// ---------------------------------------------------------------------------
+
+/** Bump when the archive shape changes; importers reject versions they don't know. */
+export const ACCOUNT_BACKUP_VERSION = 1;
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+/**
+ * A full dump of the user's tables. Rows mirror the database columns (minus
+ * `user_id`); recipes carry their ingredients, instructions and tags, and
+ * groups their members. Recipe ids are kept only so references between
+ * tables survive — restore assigns fresh ids.
+ */
+export const accountBackupSchema = z.object({
+  version: z.literal(ACCOUNT_BACKUP_VERSION),
+  exportedAt: z.string(),
+  recipes: z.array(
+    z.object({
+      id: z.string(),
+      title: z.string().min(1),
+      image: z.string().nullable(),
+      source_url: z.string(),
+      prep_time: z.string().nullable(),
+      cook_time: z.string().nullable(),
+      total_time: z.string().nullable(),
+      servings: z.string().nullable(),
+      author: z.string().nullable(),
+      cuisine_type: z.string().nullable(),
+      difficulty: z.enum(["Easy", "Medium", "Hard"]).nullable(),
+      rating: z.number().int().min(1).max(5).nullable(),
+      is_favorite: z.boolean(),
+      notes: z.string().nullable(),
+      // Dietary classification; archives from before it was kept lack it
+      allergens: z.array(z.enum(["gluten", "dairy", "nuts", "shellfish", "egg", "soy"])).nullable().optional(),
+      diets: z.array(z.enum(["vegetarian", "vegan"])).nullable().optional(),
+      // Source page details; archives from before they were kept lack them
+      description: z.string().nullable().optional(),
+      nutrition: z.record(z.string(), z.string()).nullable().optional(),
+      categories: z.array(z.string()).nullable().optional(),
+      keywords: z.array(z.string()).nullable().optional(),
+      suitable_for_diet: z.array(z.string()).nullable().optional(),
+      video: z
+        .object({ name: z.string().nullable(), url: z.string(), thumbnailUrl: z.string().nullable() })
+        .nullable()
+        .optional(),
+      aggregate_rating: z.number().min(0).max(5).nullable().optional(),
+      aggregate_rating_count: z.number().int().min(0).nullable().optional(),
+      created_at: z.string(),
+      ingredients: z.array(z.string()),
+      instructions: z.array(z.string()),
+      tags: z.array(z.string()),
+    }),
+  ),
+  meal_plans: z.array(
+    z.object({
+      date: isoDateSchema,
+      meal_type: z.enum(["breakfast", "lunch", "dinner", "snack"]),
+      recipe_id: z.string(),
+      is_leftover: z.boolean(),
+      position: z.number().int().min(0),
+    }),
+  ),
+  meal_templates: z.array(
+    z.object({
+      name: z.string().min(1),
+      template: z.record(z.string(), z.unknown()),
+      created_at: z.string(),
+    }),
+  ),
+  shopping_items: z.array(
+    z.object({
+      text: z.string().max(500),
+      checked: z.boolean(),
+      recipe_id: z.string().nullable(),
+    }),
+  ),
+  grocery_items: z.array(
+    z.object({
+      text: z.string().max(500),
+      checked: z.boolean(),
+      created_at: z.string(),
+    }),
+  ),
+  pantry_items: z.array(
+    z.object({
+      name: z.string().min(1),
+      quantity: z.number().min(0).nullable(),
+      unit: z.string().nullable(),
+    }),
+  ),
+  checked_ingredients: z.array(
+    z.object({
+      recipe_id: z.string(),
+      ingredient_index: z.number().int().min(0),
+    }),
+  ),
+  recipe_groups: z.array(
+    z.object({
+      name: z.string().min(1),
+      icon: z.string().nullable(),
+      sort_order: z.number().int(),
+      is_default: z.boolean(),
+      created_at: z.string(),
+      members: z.array(z.object({ recipe_id: z.string(), added_at: z.string() })),
+    }),
+  ),
+  // Added after the first backups were taken; older archives have no prices
+  ingredient_prices: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(500),
+        store: z.string(),
+        price: z.number().min(0),
+        quantity: z.number().positive(),
+        unit: z.string().nullable(),
+      }),
+    )
+    .default([]),
+  price_history: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(500),
+        store: z.string(),
+        price: z.number().min(0),
+        quantity: z.number().positive(),
+        unit: z.string().nullable(),
+        recorded_at: z.string(),
+      }),
+    )
+    .default([]),
+  grocery_stores: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(100),
+        aisle_order: z.array(z.string()),
+        sort_order: z.number().int(),
+        /** Ingredient names assigned to this store */
+        items: z.array(z.string()),
+      }),
+    )
+    .default([]),
+});
+
+export type AccountBackup = z.infer<typeof accountBackupSchema>;
@@ -0,0 +1,29 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { cacheScrape, clearScrapeCache, getCachedScrape } from "./scrape-cache";
+import type { ScrapedRecipe } from "@/types";
+
+const chili: ScrapedRecipe = { title: "Chili", image: null, ingredients: ["beans"], instructions: ["Simmer."] };
+
+describe("scrape cache", () => {
+  beforeEach(() => clearScrapeCache());
+
+  it("finds a scrape by any link to the same page", () => {
+    cacheScrape("https://www.site.com/chili/?utm_source=x", chili);
+    expect(getCachedScrape("https://site.com/chili")).toBe(chili);
+    expect(getCachedScrape("https://site.com/chili/amp")).toBe(chili);
+    expect(getCachedScrape("https://site.com/stew")).toBeNull();
+  });
+
+  it("expires entries after a day", () => {
+    cacheScrape("https://site.com/chili", chili, 0);
+    expect(getCachedScrape("https://site.com/chili", 23 * 60 * 60 * 1000)).toBe(chili);
+    expect(getCachedScrape("https://site.com/chili", 24 * 60 * 60 * 1000)).toBeNull();
+  });
+
+  it("drops the oldest entries past its size limit", () => {
+    for (let i = 0; i <= 500; i++) cacheScrape(`https://site.com/recipe-${i}`, chili);
+    expect(getCachedScrape("https://site.com/recipe-0")).toBeNull();
+    expect(getCachedScrape("https://site.com/recipe-1")).toBe(chili);
+    expect(getCachedScrape("https://site.com/recipe-500")).toBe(chili);
+  });
+});
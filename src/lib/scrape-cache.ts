@@ -0,0 +1,51 @@
+// ---------------------------------------------------------------------------
+// Scrape cache — recent scrape results, keyed by canonical URL
+//
+// Popular recipes get imported again and again, and each miss can cost a
+// page fetch plus a Browser Rendering session. Results are kept in memory
+// per server instance (like the scrape route's rate limiter), under the
+// canonical form of the URL that was fetched, so "?utm_source=…" and AMP
+// links to a cached page hit too. The page's own canonical link is never a
+// key: the cache is shared by every user, and any page can name any URL on
+// its site as its canonical. Only successful scrapes are cached: a failure
+// may be a blip worth retrying.
+// ---------------------------------------------------------------------------
+
+import type { ScrapedRecipe } from "@/types";
+import { canonicalizeUrl } from "./canonical-url";
+
+/** Recipe pages rarely change; a day keeps edits reasonably fresh. */
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+/** Oldest entries are dropped past this, bounding memory use. */
+const CACHE_MAX_ENTRIES = 500;
+
+const cache = new Map<string, { recipe: ScrapedRecipe; expiresAt: number }>();
+
+/** The cached scrape of `url`'s page, or null. */
+export function getCachedScrape(url: string, now = Date.now()): ScrapedRecipe | null {
+  const key = canonicalizeUrl(url);
+  const entry = cache.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= now) {
+    cache.delete(key);
+    return null;
+  }
+  return entry.recipe;
+}
+
+/** Cache the scrape of the page fetched from `url`. */
+export function cacheScrape(url: string, recipe: ScrapedRecipe, now = Date.now()): void {
+  const key = canonicalizeUrl(url);
+  // Re-inserting moves the key to the end, so eviction drops the oldest
+  cache.delete(key);
+  cache.set(key, { recipe, expiresAt: now + CACHE_TTL_MS });
+  for (const key of cache.keys()) {
+    if (cache.size <= CACHE_MAX_ENTRIES) break;
+    cache.delete(key);
+  }
+}
+
+/** Empty the cache (tests). */
+export function clearScrapeCache(): void {
+  cache.clear();
+}
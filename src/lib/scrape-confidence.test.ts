@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { assessConfidence, isSuspiciousIngredient, overallConfidence } from "./scrape-confidence";
+import type { ScrapedRecipe } from "@/types";
+
+const recipe: ScrapedRecipe = {
+  title: "Pancakes",
+  image: "https://example.com/pancakes.jpg",
+  ingredients: ["## Batter:", "2 cups flour", "2 eggs", "1 cup milk", "Salt, to taste"],
+  instructions: ["Whisk everything.", "Fry."],
+  servings: "4",
+  prepTime: "PT10M",
+  author: null,
+};
+
+const notScanned = { servings: false, times: false, author: false };
+
+describe("isSuspiciousIngredient", () => {
+  it.each(["2 cups flour", "Salt, to taste", "1 (14 oz) can chickpeas, drained", "## For the sauce:", "Zest of 1 lemon"])(
+    "accepts %s",
+    (line) => expect(isSuspiciousIngredient(line)).toBe(false)
+  );
+
+  it.each([
+    "Jump to Recipe",
+    "Click here to see the full list",
+    "Preheat the oven to 350°F.",
+    "2. Add the eggs and whisk well",
+    "Our family has loved this one for years.",
+    "★★★★★",
+  ])("flags %s", (line) => expect(isSuspiciousIngredient(line)).toBe(true));
+});
+
+describe("assessConfidence", () => {
+  it("trusts structured data, except missing fields", () => {
+    expect(assessConfidence(recipe, "json-ld", notScanned)).toEqual({
+      title: "high",
+      image: "high",
+      ingredients: "high",
+      instructions: "high",
+      servings: "high",
+      times: "high",
+      author: "low",
+      suspiciousIngredients: [],
+    });
+  });
+
+  it("caps metadata scanned from the page text at medium", () => {
+    const confidence = assessConfidence(recipe, "microdata", { servings: true, times: true, author: false });
+    expect(confidence.servings).toBe("medium");
+    expect(confidence.times).toBe("medium");
+  });
+
+  it("trusts a DOM text walk least, and a site extractor fully", () => {
+    expect(assessConfidence(recipe, "dom-text", notScanned).ingredients).toBe("low");
+    expect(assessConfidence(recipe, "open-graph", notScanned).ingredients).toBe("medium");
+    expect(assessConfidence(recipe, "bbc-good-food", notScanned).ingredients).toBe("high");
+  });
+
+  it("flags suspicious ingredient lines and lowers the ingredients' confidence", () => {
+    const withJunk = { ...recipe, ingredients: [...recipe.ingredients, "Jump to Recipe"] };
+    expect(assessConfidence(withJunk, "json-ld", notScanned)).toMatchObject({
+      ingredients: "medium",
+      suspiciousIngredients: [5],
+    });
+
+    const mostlyJunk = { ...recipe, ingredients: ["2 eggs", "Print", "Preheat the oven."] };
+    expect(assessConfidence(mostlyJunk, "json-ld", notScanned).ingredients).toBe("low");
+  });
+
+  it("is low for an untitled recipe or one with nothing to cook", () => {
+    const confidence = assessConfidence(
+      { ...recipe, title: "Untitled Recipe", ingredients: ["## Batter:"], instructions: [] },
+      "json-ld",
+      notScanned
+    );
+    expect(confidence).toMatchObject({ title: "low", ingredients: "low", instructions: "low" });
+    expect(overallConfidence(confidence)).toBe("low");
+  });
+});
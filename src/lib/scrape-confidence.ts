@@ -0,0 +1,101 @@
+// ---------------------------------------------------------------------------
+// Scrape confidence — how far each field of a scraped recipe can be trusted
+//
+// Structured data (JSON-LD, microdata, a site extractor) is taken at its
+// word; Open Graph plus heuristics less so, and the DOM text walk least of
+// all. Servings, times and the author scanned from the page's text are never
+// more than medium. On top of that, ingredient lines that don't read like an
+// ingredient ("Jump to recipe", a method step) are flagged one by one, so the
+// review before saving can point at them.
+// ---------------------------------------------------------------------------
+
+import type { ConfidenceLevel, ScrapeConfidence, ScrapedRecipe } from "@/types";
+import { parseIngredient } from "./ingredient-parser";
+import { isSectionHeader } from "./instructions";
+
+/** Confidence in each generic strategy's fields. Site extractors are high. */
+const STRATEGY_CONFIDENCE: Record<string, ConfidenceLevel> = {
+  "json-ld": "high",
+  microdata: "high",
+  "open-graph": "medium",
+  "dom-text": "low",
+};
+
+const LEVELS: ConfidenceLevel[] = ["low", "medium", "high"];
+
+function atMost(level: ConfidenceLevel, cap: ConfidenceLevel): ConfidenceLevel {
+  return LEVELS.indexOf(level) < LEVELS.indexOf(cap) ? level : cap;
+}
+
+/** Page furniture that ends up in ingredient lists scraped from text. */
+const PAGE_TEXT_RE =
+  /\b(?:click|jump to|print|subscribe|sign (?:in|up)|log ?in|advertisement|sponsored|reviews?|ratings?|save recipe|https?:\/\/)/i;
+
+/** A method step that landed among the ingredients. */
+const STEP_RE =
+  /^(?:add|mix|combine|stir|heat|pour|preheat|bake|cook|whisk|blend|place|transfer|bring|remove|serve|let|allow)\b/i;
+
+/**
+ * Whether a line looks like something other than an ingredient. Lines with
+ * an amount or unit are trusted unless they read like page text or a step;
+ * lines without one ("Salt, to taste") should also be short and not read
+ * like a sentence.
+ */
+export function isSuspiciousIngredient(line: string): boolean {
+  const text = line.trim();
+  if (isSectionHeader(text)) return false;
+  if (text.length > 150 || PAGE_TEXT_RE.test(text)) return true;
+  if (STEP_RE.test(text.replace(/^[\d.)\s]+/, ""))) return true;
+
+  const { quantity, unit, name } = parseIngredient(text);
+  if (!/[a-z]/i.test(name)) return true;
+  if (quantity !== null || unit !== null) return false;
+  const words = name.split(/\s+/).length;
+  return words > 8 || (words > 4 && /[.!?]$/.test(text));
+}
+
+/** Which metadata the scraper filled in by scanning the page's text. */
+export interface ScannedFields {
+  servings: boolean;
+  times: boolean;
+  author: boolean;
+}
+
+/**
+ * Per-field confidence in a recipe found by `strategy` (a generic strategy
+ * or a site extractor's id). Missing fields are low. Ingredients drop to
+ * medium with any suspicious line, and to low when a third of them are.
+ */
+export function assessConfidence(
+  recipe: ScrapedRecipe,
+  strategy: string,
+  scanned: ScannedFields,
+): ScrapeConfidence {
+  const base = STRATEGY_CONFIDENCE[strategy] ?? "high";
+  const metadata = (value: unknown, wasScanned: boolean): ConfidenceLevel =>
+    !value ? "low" : wasScanned ? atMost(base, "medium") : base;
+
+  const suspiciousIngredients = recipe.ingredients.flatMap((line, i) => (isSuspiciousIngredient(line) ? [i] : []));
+  const ingredientCount = recipe.ingredients.filter((line) => !isSectionHeader(line)).length;
+  let ingredients: ConfidenceLevel = ingredientCount === 0 ? "low" : base;
+  if (suspiciousIngredients.length > 0) {
+    ingredients = suspiciousIngredients.length * 3 >= ingredientCount ? "low" : atMost(ingredients, "medium");
+  }
+
+  return {
+    title: !recipe.title || recipe.title === "Untitled Recipe" ? "low" : base,
+    image: recipe.image ? base : "low",
+    ingredients,
+    instructions: recipe.instructions.length > 0 ? base : "low",
+    servings: metadata(recipe.servings, scanned.servings),
+    times: metadata(recipe.prepTime || recipe.cookTime || recipe.totalTime, scanned.times),
+    author: metadata(recipe.author, scanned.author),
+    suspiciousIngredients,
+  };
+}
+
+/** The lowest confidence among the fields a recipe needs: title, ingredients, instructions. */
+export function overallConfidence(confidence: ScrapeConfidence): ConfidenceLevel {
+  const { title, ingredients, instructions } = confidence;
+  return [title, ingredients, instructions].reduce(atMost, "high");
+}
@@ -54,6 +54,8 @@ describe("scrapeRecipe", () => {
         "Add eggs and milk, stir until smooth.",
         "Cook on a hot griddle until bubbles form, then flip.",
       ]);
+      expect(result!.strategy).toBe("json-ld");
+      expect(result!.confidence).toMatchObject({ title: "high", ingredients: "high", instructions: "high" });
     });
 
     it("2. extracts recipe from JSON-LD with @graph wrapper (WordPress style)", () => {
@@ -140,7 +142,7 @@ describe("scrapeRecipe", () => {
       ]);
     });
 
-    it("5. extracts instructions from HowToSection objects", () => {
+    it("5. extracts instructions from HowToSection objects with their names as headers", () => {
       const html = htmlWithJsonLd({
         "@context": "https://schema.org",
         "@type": "Recipe",
@@ -171,14 +173,71 @@ describe("scrapeRecipe", () => {
 
       expect(result).not.toBeNull();
       expect(result!.instructions).toEqual([
+        "## Make the cake:",
         "Preheat oven to 350F.",
         "Mix dry ingredients together.",
         "Bake for 30 minutes.",
+        "## Frost the cake:",
         "Let the cake cool completely.",
         "Apply frosting evenly.",
       ]);
     });
 
+    it("keeps a HowToStep's own directions and tips as sub-steps", () => {
+      const html = htmlWithJsonLd({
+        "@context": "https://schema.org",
+        "@type": "Recipe",
+        name: "Lasagna",
+        recipeIngredient: ["1 lb pasta", "2 cups sauce"],
+        recipeInstructions: [
+          {
+            "@type": "HowToStep",
+            text: "Make the sauce.",
+            itemListElement: [
+              { "@type": "HowToDirection", text: "Brown the beef." },
+              { "@type": "HowToTip", text: "Don't rush the onions." },
+            ],
+          },
+          {
+            "@type": "HowToStep",
+            itemListElement: [
+              { "@type": "HowToDirection", text: "Boil the noodles." },
+              { "@type": "HowToDirection", text: "Drain well." },
+            ],
+          },
+        ],
+      });
+
+      const result = scrapeRecipe(html, "https://example.com/lasagna");
+
+      expect(result!.instructions).toEqual([
+        "Make the sauce.",
+        "- Brown the beef.",
+        "- Don't rush the onions.",
+        "Boil the noodles.",
+        "- Drain well.",
+      ]);
+    });
+
+    it("marks section lines in plain-text instructions as headers", () => {
+      const html = htmlWithJsonLd({
+        "@context": "https://schema.org",
+        "@type": "Recipe",
+        name: "Pie",
+        recipeIngredient: ["3 apples"],
+        recipeInstructions: "For the filling\nSlice the apples.\nTo assemble:\nFill the crust and bake.",
+      });
+
+      const result = scrapeRecipe(html, "https://example.com/pie");
+
+      expect(result!.instructions).toEqual([
+        "## For the filling:",
+        "Slice the apples.",
+        "## To assemble:",
+        "Fill the crust and bake.",
+      ]);
+    });
+
     it("splits concatenated numbered steps in a single HowToStep", () => {
       // Some sites (e.g. halfbakedharvest.com) put all steps in one HowToStep
       const html = htmlWithJsonLd({
@@ -403,6 +462,80 @@ describe("scrapeRecipe", () => {
       expect(result!.servings).toBe("6");
     });
 
+    it("keeps the rest of schema.org/Recipe: description, nutrition, categories, keywords, diets, video, rating", () => {
+      const html = htmlWithJsonLd({
+        "@context": "https://schema.org",
+        "@type": "Recipe",
+        name: "Fudgy Brownies",
+        description: "Rich, fudgy   brownies &amp; no mixer needed.",
+        recipeIngredient: ["1 cup sugar", "1/2 cup cocoa"],
+        recipeInstructions: ["Mix.", "Bake."],
+        recipeCategory: ["Dessert", "Baking"],
+        keywords: "chocolate, brownies, Chocolate, easy",
+        suitableForDiet: ["https://schema.org/VegetarianDiet", "GlutenFreeDiet"],
+        nutrition: {
+          "@type": "NutritionInformation",
+          servingSize: "1 brownie",
+          calories: "240 kcal",
+          fatContent: "12 g",
+          proteinContent: 3,
+          sodiumContent: "",
+        },
+        video: {
+          "@type": "VideoObject",
+          name: "How to make brownies",
+          contentUrl: "https://cdn.example.com/brownies.mp4",
+          embedUrl: "https://video.example.com/embed/brownies",
+          thumbnailUrl: ["https://cdn.example.com/brownies-thumb.jpg"],
+        },
+        aggregateRating: { "@type": "AggregateRating", ratingValue: "9", bestRating: "10", ratingCount: "1,234" },
+      });
+
+      const result = scrapeRecipe(html, "https://example.com/brownies");
+
+      expect(result).not.toBeNull();
+      expect(result!.description).toBe("Rich, fudgy brownies & no mixer needed.");
+      expect(result!.categories).toEqual(["Dessert", "Baking"]);
+      expect(result!.keywords).toEqual(["chocolate", "brownies", "easy"]);
+      expect(result!.suitableForDiet).toEqual(["Vegetarian", "Gluten-free"]);
+      expect(result!.nutrition).toEqual({
+        servingSize: "1 brownie",
+        calories: "240 kcal",
+        fat: "12 g",
+        protein: "3",
+      });
+      expect(result!.video).toEqual({
+        name: "How to make brownies",
+        url: "https://video.example.com/embed/brownies",
+        thumbnailUrl: "https://cdn.example.com/brownies-thumb.jpg",
+      });
+      expect(result!.aggregateRating).toEqual({ value: 4.5, count: 1234 });
+    });
+
+    it("leaves the extra schema.org fields null when the page doesn't give them", () => {
+      const html = htmlWithJsonLd({
+        "@context": "https://schema.org",
+        "@type": "Recipe",
+        name: "Toast",
+        recipeIngredient: ["1 slice bread"],
+        recipeInstructions: ["Toast it."],
+        video: { "@type": "VideoObject", name: "No link" },
+        aggregateRating: { "@type": "AggregateRating", ratingValue: "0" },
+      });
+
+      const result = scrapeRecipe(html, "https://example.com/toast");
+
+      expect(result).toMatchObject({
+        description: null,
+        nutrition: null,
+        categories: null,
+        keywords: null,
+        suitableForDiet: null,
+        video: null,
+        aggregateRating: null,
+      });
+    });
+
     it("10. returns null when no recipe data is found in JSON-LD", () => {
       const html = htmlWithJsonLd({
         "@context": "https://schema.org",
@@ -458,6 +591,7 @@ describe("scrapeRecipe", () => {
       ]);
       expect(result!.instructions).toHaveLength(3);
       expect(result!.instructions[0]).toContain("onion until soft");
+      expect(result!.strategy).toBe("microdata");
     });
 
     it("12. extracts microdata metadata (prepTime, cookTime from content attributes)", () => {
@@ -495,6 +629,46 @@ describe("scrapeRecipe", () => {
       expect(result!.servings).toBe("4");
       expect(result!.author).toBe("Gordon Ramsay");
     });
+    it("extracts the extra schema.org fields from microdata", () => {
+      const html = `
+        <html><body>
+          <div itemscope itemtype="https://schema.org/Recipe">
+            <h1 itemprop="name">Microdata Brownies</h1>
+            <p itemprop="description">Rich and fudgy.</p>
+            <meta itemprop="recipeCategory" content="Dessert" />
+            <meta itemprop="keywords" content="chocolate, brownies" />
+            <link itemprop="suitableForDiet" href="https://schema.org/VegetarianDiet" />
+            <div itemprop="aggregateRating" itemscope itemtype="https://schema.org/AggregateRating">
+              <span itemprop="ratingValue">4.8</span> from <span itemprop="ratingCount">52</span> ratings
+            </div>
+            <div itemprop="nutrition" itemscope itemtype="https://schema.org/NutritionInformation">
+              <span itemprop="calories">240 calories</span>
+              <span itemprop="sugarContent">20 g</span>
+            </div>
+            <div itemprop="video" itemscope itemtype="https://schema.org/VideoObject">
+              <meta itemprop="name" content="Brownie video" />
+              <link itemprop="contentUrl" href="https://cdn.example.com/brownies.mp4" />
+            </div>
+            <ul>
+              <li itemprop="recipeIngredient">1 cup sugar</li>
+            </ul>
+            <div itemprop="recipeInstructions"><ol><li>Bake.</li></ol></div>
+          </div>
+        </body></html>
+      `;
+
+      const result = scrapeRecipe(html, "https://example.com/microdata-brownies");
+
+      expect(result).not.toBeNull();
+      expect(result!.description).toBe("Rich and fudgy.");
+      expect(result!.categories).toEqual(["Dessert"]);
+      expect(result!.keywords).toEqual(["chocolate", "brownies"]);
+      expect(result!.suitableForDiet).toEqual(["Vegetarian"]);
+      expect(result!.aggregateRating).toEqual({ value: 4.8, count: 52 });
+      expect(result!.nutrition).toEqual({ calories: "240 calories", sugar: "20 g" });
+      expect(result!.video).toEqual({ name: "Brownie video", url: "https://cdn.example.com/brownies.mp4", thumbnailUrl: null });
+    });
+
     it("extracts servings from yield itemprop", () => {
       const html = `
         <html><body>
@@ -567,6 +741,7 @@ describe("scrapeRecipe", () => {
       expect(result!.image).toBe("https://example.com/pasta-og.jpg");
       expect(result!.ingredients.length).toBeGreaterThan(0);
       expect(result!.instructions.length).toBeGreaterThan(0);
+      expect(result!.strategy).toBe("open-graph");
     });
 
     it("14. deduplicates ingredients in OpenGraph extraction", () => {
@@ -837,6 +1012,32 @@ describe("scrapeRecipe", () => {
   // OG Fallback – non-ingredient filtering
   // ──────────────────────────────────────────
 
+  describe("Canonical URL", () => {
+    const page = (canonical: string) => `
+      <html>
+        <head>
+          <link rel="canonical" href="${canonical}" />
+          <script type="application/ld+json">${JSON.stringify({
+            "@type": "Recipe",
+            name: "Chili",
+            recipeIngredient: ["1 lb beef"],
+            recipeInstructions: ["Simmer."],
+          })}</script>
+        </head>
+      </html>
+    `;
+
+    it("reports the page's canonical link in canonical form", () => {
+      const result = scrapeRecipe(page("/recipes/chili/"), "https://www.example.com/chili?utm_source=pinterest");
+      expect(result!.canonicalUrl).toBe("https://example.com/recipes/chili");
+    });
+
+    it("ignores a canonical link to another site", () => {
+      const result = scrapeRecipe(page("https://popular-site.com/chili"), "https://copycat.example/chili/amp");
+      expect(result!.canonicalUrl).toBe("https://copycat.example/chili");
+    });
+  });
+
   describe("OG fallback ingredient filtering", () => {
     it("excludes nav/footer/sidebar list items from ingredients", () => {
       const html = `
@@ -1127,6 +1328,8 @@ describe("scrapeRecipe", () => {
       ]);
       expect(result!.instructions).toHaveLength(3);
       expect(result!.instructions[0]).toContain("Mix lamb with spices");
+      expect(result!.strategy).toBe("dom-text");
+      expect(result!.confidence).toMatchObject({ ingredients: "low", instructions: "low" });
     });
 
     it("handles heading with colon (Ingredients:)", () => {
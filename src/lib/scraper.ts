@@ -1,7 +1,12 @@
 import * as cheerio from "cheerio";
 import type { Element } from "domhandler";
 import { decodeHTML } from "entities";
-import type { ScrapedRecipe } from "@/types";
+import type { AggregateRating, NutritionFacts, RecipeVideo, ScrapedRecipe, SourceDetails } from "@/types";
+import { canonicalizeUrl, isSameSite } from "./canonical-url";
+import { detectAndMarkSectionHeaders } from "./ingredient-parser";
+import { markInstructionHeaders, toSectionHeader, toSubStep } from "./instructions";
+import { assessConfidence, type ScannedFields } from "./scrape-confidence";
+import { findSiteExtractors, type SiteExtractor } from "./site-extractors";
 
 /**
  * Decodes all HTML entities in a string (named, numeric, and hex).
@@ -12,51 +17,6 @@ function decodeEntities(text: string): string {
   return decodeHTML(text);
 }
 
-// ---------------------------------------------------------------------------
-// Section header detection — marks ingredient subheadings with "## " prefix
-// ---------------------------------------------------------------------------
-
-/** Common measurement units that indicate an actual ingredient, not a header. */
-const UNIT_PATTERN =
-  /\d+\s*(?:cups?|tablespoons?|tbsp|teaspoons?|tsp|ounces?|oz|pounds?|lbs?|grams?|g|kg|ml|l|pinch|dash|cloves?|cans?|bunch|slices?|pieces?|heads?|stalks?|sprigs?|handful|package|pkg)\b/i;
-
-/**
- * Common prefixes that indicate section headers even without a trailing colon
- * — e.g. "For the sauce", "For the marinade", "For serving".
- */
-const HEADER_PREFIX_PATTERN = /^for\s+(the\s+)?/i;
-
-/**
- * Detects section headers in an ingredient list and prefixes them with "## ".
- * Section headers are items that:
- *   1. End with ":" and contain no quantities/units, OR
- *   2. Start with "For the..." / "For ..." and are short, non-ingredient text
- * Examples: "For the sauce:", "Marinade:", "Chicken:", "For the Topping"
- */
-export function detectAndMarkSectionHeaders(ingredients: string[]): string[] {
-  return ingredients.map((item) => {
-    const trimmed = item.trim();
-    // Already marked
-    if (trimmed.startsWith("## ")) return trimmed;
-    // Must be relatively short (headers are typically <60 chars)
-    if (trimmed.length > 80) return trimmed;
-    // Must NOT contain quantities + measurement units (that's a real ingredient)
-    if (UNIT_PATTERN.test(trimmed)) return trimmed;
-    // Must NOT start with a digit (e.g. "3 cloves garlic:" is not a header)
-    if (/^\d/.test(trimmed)) return trimmed;
-
-    // Rule 1: ends with ":"
-    if (trimmed.endsWith(":")) return `## ${trimmed}`;
-
-    // Rule 2: starts with "For the..." / "For ..." and is short (likely a section label)
-    if (HEADER_PREFIX_PATTERN.test(trimmed) && trimmed.length <= 50) {
-      return `## ${trimmed}:`;
-    }
-
-    return trimmed;
-  });
-}
-
 /**
  * Extracts ingredient group headers from HTML structure (e.g. WPRM, Tasty plugins).
  * Returns an array of { header, count } where count is the number of ingredients
@@ -120,20 +80,59 @@ function mergeGroupHeaders(
   return result;
 }
 
-export function scrapeRecipe(html: string, url: string): ScrapedRecipe | null {
+/**
+ * Extract a recipe from a page. Site extractors for the page's hostname get
+ * the first try and the last word (see ./site-extractors); in between, the
+ * generic strategies run in order until one finds a recipe. The result's
+ * `strategy` says which did.
+ */
+export function scrapeRecipe(
+  html: string,
+  url: string,
+  siteExtractors: SiteExtractor[] = findSiteExtractors(url),
+): ScrapedRecipe | null {
   const $ = cheerio.load(html);
 
-  /** Fill in missing metadata from HTML for any strategy's result. */
-  const fillMetadata = (result: ScrapedRecipe): ScrapedRecipe => {
+  /**
+   * Fill in missing metadata from HTML for any strategy's result, and mark
+   * the section headers in instructions that came without structure. Then
+   * let the site extractors refine it, and record the strategy and how far
+   * each field can be trusted.
+   */
+  const fillMetadata = (result: ScrapedRecipe, strategy: string): ScrapedRecipe => {
+    result.instructions = markInstructionHeaders(result.instructions);
+    const scanned: ScannedFields = {
+      servings: !result.servings,
+      author: !result.author,
+      times: !result.prepTime && !result.cookTime && !result.totalTime,
+    };
     if (!result.servings) result.servings = extractServingsFromHtml($);
     if (!result.author) result.author = extractAuthorFromHtml($);
     const { prepTime, cookTime, totalTime } = extractTimesFromHtml($);
     if (!result.prepTime) result.prepTime = prepTime;
     if (!result.cookTime) result.cookTime = cookTime;
     if (!result.totalTime) result.totalTime = totalTime;
-    return result;
+
+    const strategies = [strategy];
+    for (const site of siteExtractors) {
+      if (!site.refine) continue;
+      result = site.refine(result, $);
+      if (site.id !== strategy) strategies.push(site.id);
+    }
+    return {
+      ...result,
+      strategy: strategies.join("+"),
+      confidence: assessConfidence(result, strategy, scanned),
+      canonicalUrl: extractCanonicalUrl($, url),
+    };
   };
 
+  // Site-specific extraction, for sites the generic strategies get wrong
+  for (const site of siteExtractors) {
+    const siteResult = site.extract?.($, url);
+    if (siteResult) return fillMetadata(siteResult, site.id);
+  }
+
   // Strategy 1: JSON-LD structured data (most recipe sites)
   const jsonLdResult = extractFromJsonLd($);
   if (jsonLdResult) {
@@ -142,24 +141,41 @@ export function scrapeRecipe(html: string, url: string): ScrapedRecipe | null {
     if (groupHeaders) {
       jsonLdResult.ingredients = mergeGroupHeaders(jsonLdResult.ingredients, groupHeaders);
     }
-    return fillMetadata(jsonLdResult);
+    return fillMetadata(jsonLdResult, "json-ld");
   }
 
   // Strategy 2: Microdata
   const microdataResult = extractFromMicrodata($);
-  if (microdataResult) return fillMetadata(microdataResult);
+  if (microdataResult) return fillMetadata(microdataResult, "microdata");
 
   // Strategy 3: Open Graph + heuristic
   const ogResult = extractFromOpenGraph($, url);
-  if (ogResult) return fillMetadata(ogResult);
+  if (ogResult) return fillMetadata(ogResult, "open-graph");
 
   // Strategy 4: DOM text walk (for SPA sites with no structured data or semantic HTML)
   const domResult = extractFromDomText($);
-  if (domResult) return fillMetadata(domResult);
+  if (domResult) return fillMetadata(domResult, "dom-text");
 
   return null;
 }
 
+/**
+ * The canonical form of the page's `<link rel="canonical">`, or of its own
+ * URL when it has none or names another site.
+ */
+function extractCanonicalUrl($: cheerio.CheerioAPI, url: string): string {
+  const href = $('link[rel="canonical"]').attr("href")?.trim();
+  if (href) {
+    try {
+      const canonical = new URL(href, url).toString();
+      if (isSameSite(url, canonical)) return canonicalizeUrl(canonical);
+    } catch {
+      // Unparseable href — fall back to the page's URL
+    }
+  }
+  return canonicalizeUrl(url);
+}
+
 function extractFromJsonLd(
   $: cheerio.CheerioAPI
 ): ScrapedRecipe | null {
@@ -259,6 +275,7 @@ function findRecipeInJsonLd(data: unknown, graph?: unknown[]): ScrapedRecipe | n
     servings,
     author,
     cuisineType,
+    ...extractSourceDetails(obj),
   };
 }
 
@@ -354,23 +371,19 @@ function extractInstructions(instructions: unknown): string[] {
         result.push(item.trim());
       } else if (item && typeof item === "object") {
         const obj = item as Record<string, unknown>;
-        // HowToSection with itemListElement
+        // HowToSection with itemListElement; its name becomes a "## Name:" header
         if (obj["@type"] === "HowToSection" && Array.isArray(obj.itemListElement)) {
+          const name = typeof obj.name === "string" ? obj.name.trim() : "";
+          if (name) result.push(toSectionHeader(name));
           for (const step of obj.itemListElement) {
             if (typeof step === "string") {
               result.push(step.trim());
             } else if (step && typeof step === "object") {
-              const stepObj = step as Record<string, unknown>;
-              const text = stepObj.text ?? stepObj.name ?? "";
-              const str = typeof text === "string" ? text.trim() : String(text).trim();
-              if (str) result.push(str);
+              result.push(...extractHowToStep(step as Record<string, unknown>));
             }
           }
         } else {
-          // HowToStep
-          const text = obj.text ?? obj.name ?? "";
-          const str = typeof text === "string" ? text.trim() : String(text).trim();
-          if (str) result.push(str);
+          result.push(...extractHowToStep(obj));
         }
       }
     }
@@ -392,12 +405,33 @@ function extractInstructions(instructions: unknown): string[] {
   return [];
 }
 
+/**
+ * A HowToStep as a step line, followed by its HowToDirection / HowToTip
+ * items as "- " sub-steps. A step with no text of its own is led by its
+ * first item.
+ */
+function extractHowToStep(obj: Record<string, unknown>): string[] {
+  const stepText = (value: Record<string, unknown>): string => {
+    const text = value.text ?? value.name ?? "";
+    return typeof text === "string" ? text.trim() : String(text).trim();
+  };
+  const items = (Array.isArray(obj.itemListElement) ? obj.itemListElement : [])
+    .map((item) =>
+      typeof item === "string" ? item.trim() : item && typeof item === "object" ? stepText(item as Record<string, unknown>) : ""
+    )
+    .filter(Boolean);
+
+  const text = typeof obj.text === "string" || items.length === 0 ? stepText(obj) : "";
+  const [step, ...subSteps] = text ? [text, ...items] : items;
+  return step ? [step, ...subSteps.map(toSubStep)] : [];
+}
+
 /**
  * Detects and splits a single text block that contains embedded numbered steps.
  * E.g. "1. Preheat oven.2. Mix ingredients.3. Bake for 30 min."
  * Returns null if the text doesn't contain sequential numbered steps.
  */
-function splitNumberedSteps(text: string): string[] | null {
+export function splitNumberedSteps(text: string): string[] | null {
   if (!/^\s*1\.\s/.test(text)) return null;
 
   const steps: string[] = [];
@@ -432,6 +466,180 @@ function splitNumberedSteps(text: string): string[] | null {
   return steps.length > 1 ? steps : null;
 }
 
+// ---------------------------------------------------------------------------
+// Source details — the rest of schema.org/Recipe (description, nutrition,
+// categories, keywords, diets, video, rating), kept as the page gives them
+// ---------------------------------------------------------------------------
+
+/** NutritionFacts fields and the NutritionInformation properties they come from. */
+const NUTRITION_PROPERTIES: Record<keyof NutritionFacts, string> = {
+  servingSize: "servingSize",
+  calories: "calories",
+  fat: "fatContent",
+  saturatedFat: "saturatedFatContent",
+  carbohydrates: "carbohydrateContent",
+  sugar: "sugarContent",
+  fiber: "fiberContent",
+  protein: "proteinContent",
+  cholesterol: "cholesterolContent",
+  sodium: "sodiumContent",
+};
+
+/** Readable names for schema.org's RestrictedDiet values. */
+const DIET_LABELS: Record<string, string> = {
+  DiabeticDiet: "Diabetic",
+  GlutenFreeDiet: "Gluten-free",
+  HalalDiet: "Halal",
+  HinduDiet: "Hindu",
+  KosherDiet: "Kosher",
+  LowCalorieDiet: "Low-calorie",
+  LowFatDiet: "Low-fat",
+  LowLactoseDiet: "Low-lactose",
+  LowSaltDiet: "Low-salt",
+  VeganDiet: "Vegan",
+  VegetarianDiet: "Vegetarian",
+};
+
+function extractSourceDetails(obj: Record<string, unknown>): SourceDetails {
+  return {
+    description: extractText(obj.description),
+    nutrition: extractNutrition(obj.nutrition),
+    categories: extractList(obj.recipeCategory),
+    keywords: extractList(obj.keywords),
+    suitableForDiet: extractDiets(obj.suitableForDiet),
+    video: extractVideo(obj.video),
+    aggregateRating: extractRating(obj.aggregateRating),
+  };
+}
+
+/** A string or number as trimmed, single-spaced text; null when empty. */
+function extractText(val: unknown): string | null {
+  if (typeof val !== "string" && typeof val !== "number") return null;
+  const text = decodeEntities(String(val)).replace(/\s+/g, " ").trim();
+  return text || null;
+}
+
+/**
+ * A list given either as an array or as one comma-separated string
+ * ("pasta, weeknight, easy"), deduplicated case-insensitively.
+ */
+function extractList(val: unknown): string[] | null {
+  const raw = Array.isArray(val) ? val : [val];
+  const seen = new Set<string>();
+  const items: string[] = [];
+  for (const entry of raw) {
+    const text = extractText(entry);
+    if (!text) continue;
+    for (const part of text.split(",")) {
+      const item = part.trim();
+      if (item && !seen.has(item.toLowerCase())) {
+        seen.add(item.toLowerCase());
+        items.push(item);
+      }
+    }
+  }
+  return items.length > 0 ? items : null;
+}
+
+function extractNutrition(val: unknown): NutritionFacts | null {
+  if (!val || typeof val !== "object" || Array.isArray(val)) return null;
+  const obj = val as Record<string, unknown>;
+  const facts: NutritionFacts = {};
+  for (const [field, property] of Object.entries(NUTRITION_PROPERTIES) as [keyof NutritionFacts, string][]) {
+    const value = extractText(obj[property]);
+    if (value) facts[field] = value;
+  }
+  return Object.keys(facts).length > 0 ? facts : null;
+}
+
+/** "https://schema.org/GlutenFreeDiet" → "Gluten-free"; unknown diets keep their name. */
+function extractDiets(val: unknown): string[] | null {
+  const diets = (extractList(val) ?? []).map((diet) => {
+    const name = diet.replace(/^https?:\/\/schema\.org\//i, "");
+    return DIET_LABELS[name] ?? name.replace(/Diet$/, "");
+  });
+  return diets.length > 0 ? [...new Set(diets)] : null;
+}
+
+function extractVideo(val: unknown): RecipeVideo | null {
+  const video = Array.isArray(val) ? val[0] : val;
+  if (!video || typeof video !== "object") return null;
+  const obj = video as Record<string, unknown>;
+  const url = [obj.embedUrl, obj.contentUrl, obj.url].find(
+    (u): u is string => typeof u === "string" && /^https?:\/\//i.test(u)
+  );
+  if (!url) return null;
+  return {
+    name: extractText(obj.name),
+    url,
+    thumbnailUrl: extractImage(obj.thumbnailUrl),
+  };
+}
+
+/** The rating scaled to 5 stars; null unless it has a usable value. */
+function extractRating(val: unknown): AggregateRating | null {
+  if (!val || typeof val !== "object" || Array.isArray(val)) return null;
+  const obj = val as Record<string, unknown>;
+  return toRating(obj.ratingValue, obj.bestRating, obj.ratingCount ?? obj.reviewCount);
+}
+
+function toRating(value: unknown, best: unknown, count: unknown): AggregateRating | null {
+  const rating = parseFloat(String(value ?? ""));
+  const scale = parseFloat(String(best ?? "")) || 5;
+  if (!Number.isFinite(rating) || rating <= 0 || scale <= 0) return null;
+  const ratingCount = parseInt(String(count ?? "").replace(/[^\d]/g, ""), 10);
+  return {
+    value: Math.round(Math.min(rating / scale, 1) * 500) / 100,
+    count: Number.isFinite(ratingCount) ? ratingCount : null,
+  };
+}
+
+/** The same details from microdata `itemprop`s inside the recipe element. */
+function extractSourceDetailsFromMicrodata(
+  $: cheerio.CheerioAPI,
+  recipeEl: ReturnType<cheerio.CheerioAPI>,
+): SourceDetails {
+  /** An itemprop's `content` attribute, or else its text. */
+  const prop = (scope: ReturnType<cheerio.CheerioAPI>, name: string): string | null => {
+    const el = scope.find(`[itemprop="${name}"]`).first();
+    if (el.length === 0) return null;
+    return extractText(el.attr("content") ?? el.text());
+  };
+  const all = (name: string): string[] =>
+    recipeEl
+      .find(`[itemprop="${name}"]`)
+      .map((_, el) => $(el).attr("content") ?? $(el).attr("href") ?? $(el).text())
+      .get();
+
+  const nutritionEl = recipeEl.find('[itemprop="nutrition"]').first();
+  const nutrition: Record<string, unknown> = {};
+  for (const property of Object.values(NUTRITION_PROPERTIES)) {
+    nutrition[property] = prop(nutritionEl, property);
+  }
+
+  const ratingEl = recipeEl.find('[itemprop="aggregateRating"]').first();
+  const videoEl = recipeEl.find('[itemprop="video"]').first();
+
+  return {
+    description: prop(recipeEl, "description"),
+    nutrition: extractNutrition(nutrition),
+    categories: extractList(all("recipeCategory")),
+    keywords: extractList(all("keywords")),
+    suitableForDiet: extractDiets(all("suitableForDiet")),
+    video: videoEl.length > 0
+      ? extractVideo({
+          name: prop(videoEl, "name"),
+          embedUrl: videoEl.find('[itemprop="embedUrl"]').attr("content") ?? videoEl.find('[itemprop="embedUrl"]').attr("href"),
+          contentUrl: videoEl.find('[itemprop="contentUrl"]').attr("content") ?? videoEl.find('[itemprop="contentUrl"]').attr("href"),
+          thumbnailUrl: videoEl.find('[itemprop="thumbnailUrl"]').attr("content") ?? videoEl.find('[itemprop="thumbnailUrl"]').attr("src"),
+        })
+      : null,
+    aggregateRating: ratingEl.length > 0
+      ? toRating(prop(ratingEl, "ratingValue"), prop(ratingEl, "bestRating"), prop(ratingEl, "ratingCount") ?? prop(ratingEl, "reviewCount"))
+      : null,
+  };
+}
+
 /**
  * Extracts ingredients with section headers from HTML structure.
  * Checks for common recipe plugin patterns (WPRM, Tasty, etc.) that wrap
@@ -529,7 +737,19 @@ function extractFromMicrodata(
   const cuisineType = recipeEl.find('[itemprop="recipeCuisine"]').attr("content") ||
     recipeEl.find('[itemprop="recipeCuisine"]').text().trim() || null;
 
-  return { title, image, ingredients, instructions, prepTime, cookTime, totalTime, servings, author, cuisineType };
+  return {
+    title,
+    image,
+    ingredients,
+    instructions,
+    prepTime,
+    cookTime,
+    totalTime,
+    servings,
+    author,
+    cuisineType,
+    ...extractSourceDetailsFromMicrodata($, recipeEl),
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -868,15 +1088,15 @@ function extractAuthorFromHtml($: cheerio.CheerioAPI): string | null {
 // ---------------------------------------------------------------------------
 
 /** Regex patterns for identifying ingredient/instruction section headings. */
-const INGREDIENTS_HEADING_RE = /^ingredients?\s*:?\s*$/i;
-const INSTRUCTIONS_HEADING_RE =
+export const INGREDIENTS_HEADING_RE = /^ingredients?\s*:?\s*$/i;
+export const INSTRUCTIONS_HEADING_RE =
   /^(instructions?|directions?|steps?|method|preparation)\s*:?\s*$/i;
 
 /**
  * Stop headings — when collecting text after "Instructions", stop at these.
  * Prevents nutrition data, notes, etc. from being included as instruction text.
  */
-const STOP_SECTION_RE =
+export const STOP_SECTION_RE =
   /^(nutrition|nutritional\s+info|nutritional?\s+facts|notes?|tips?|storage|equipment|video|comments?|ratings?|reviews?|related|you\s+may\s+also|more\s+recipes)\s*:?\s*$/i;
 
 /** Tags to skip entirely when collecting text content. */
@@ -897,7 +1117,7 @@ const UI_NOISE_RE =
   /^(home|back|menu|login|sign ?in|sign ?up|register|share|print|save|bookmark|subscribe|follow|search|cart|checkout|skip|close|cancel|delete|remove|edit|more|less|show|hide|toggle|expand|collapse|previous|next|submit|reset|ok|yes|no|continue|loading|advertisement|sponsored|ad)\b/i;
 
 /** Cooking verb prefixes — used to filter action phrases from ingredient lists. */
-const COOKING_VERB_RE =
+export const COOKING_VERB_RE =
   /^(add|mix|combine|stir|heat|serve|fold|pour|preheat|bake|cook|whisk|blend|sauté|saute|chop|dice|slice|mince|grate|drain|rinse|boil|simmer|fry|roast|grill|broil|steam|marinate|season|garnish|top|drizzle|spread|brush|toss|knead|roll|shape|chill|freeze|refrigerate|let|allow|set|place|put|transfer|remove|take|bring|turn|reduce|increase|adjust|taste|check)\b/i;
 
 /**
@@ -1244,7 +1464,7 @@ function extractRecipeImage($: cheerio.CheerioAPI): string | null {
  * into ISO 8601 duration format (e.g. "PT20M", "PT1H", "PT1H30M").
  * Returns null if the text doesn't contain a recognizable time pattern.
  */
-function parseTimeToISO(text: string): string | null {
+export function parseTimeToISO(text: string): string | null {
   const normalized = text.toLowerCase().trim();
   let hours = 0;
   let minutes = 0;
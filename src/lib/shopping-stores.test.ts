@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { findItemStore, splitListByStore, storeAssignmentKey } from "./shopping-stores";
+import type { GroceryStore } from "@/types";
+
+const costco: GroceryStore = { id: "s1", name: "Costco", aisleOrder: ["Dairy & Eggs", "Meat & Seafood"], sortOrder: 0 };
+const market: GroceryStore = { id: "s2", name: "Market", aisleOrder: [], sortOrder: 1 };
+
+const item = (text: string, checked = false) => ({ id: text, text, checked });
+
+describe("storeAssignmentKey", () => {
+  it("ignores quantity, unit and plurals", () => {
+    expect(storeAssignmentKey("2 lb chicken thighs")).toBe(storeAssignmentKey("chicken thigh"));
+  });
+});
+
+describe("findItemStore", () => {
+  it("ignores assignments to stores that no longer exist", () => {
+    const assignments = { [storeAssignmentKey("milk")]: "deleted" };
+    expect(findItemStore("1 gallon milk", [costco], assignments)).toBeNull();
+  });
+});
+
+describe("splitListByStore", () => {
+  it("returns one unassigned section when there are no stores", () => {
+    const sections = splitListByStore([item("1 onion"), item("2 eggs")], [], {});
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].store).toBeNull();
+    expect(sections[0].groups.map((g) => g.category)).toEqual(["Produce", "Dairy & Eggs"]);
+  });
+
+  it("splits items per store in store order, unassigned last", () => {
+    const assignments = {
+      [storeAssignmentKey("eggs")]: "s1",
+      [storeAssignmentKey("onion")]: "s2",
+    };
+    const sections = splitListByStore(
+      [item("1 lb pasta"), item("1 onion"), item("2 eggs")],
+      [market, costco],
+      assignments,
+    );
+
+    expect(sections.map((s) => s.store?.name ?? null)).toEqual(["Costco", "Market", null]);
+    expect(sections[2].groups[0].items.map((i) => i.text)).toEqual(["1 lb pasta"]);
+  });
+
+  it("walks each store's aisles in its own order", () => {
+    const assignments = Object.fromEntries(
+      ["onion", "eggs", "ground beef"].map((name) => [storeAssignmentKey(name), "s1"]),
+    );
+    const sections = splitListByStore(
+      [item("1 onion"), item("1 lb ground beef"), item("2 eggs")],
+      [costco],
+      assignments,
+    );
+
+    expect(sections[0].groups.map((g) => g.category)).toEqual(["Dairy & Eggs", "Meat & Seafood", "Produce"]);
+  });
+
+  it("lists unchecked items first within a category", () => {
+    const sections = splitListByStore([item("1 onion", true), item("2 carrots")], [], {});
+
+    expect(sections[0].groups[0].items.map((i) => i.text)).toEqual(["2 carrots", "1 onion"]);
+  });
+});
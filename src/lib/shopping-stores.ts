@@ -0,0 +1,70 @@
+// ---------------------------------------------------------------------------
+// Shopping stores — split a shopping or grocery list per store, each in that
+// store's walking order
+//
+// Items are assigned to stores by normalized ingredient name, so "2 lb
+// chicken thighs" and "chicken thighs" land in the same store and the
+// assignment survives regenerating the list.
+// ---------------------------------------------------------------------------
+
+import { normalizeIngredientName } from "./ingredient-aggregator";
+import {
+  groupByCategory,
+  normalizeAisleOrder,
+  type IngredientCategory,
+} from "./ingredient-categorizer";
+import { parseIngredient } from "./ingredient-parser";
+import type { GroceryStore, StoreAssignments } from "@/types";
+
+export interface StoreSection<T> {
+  /** Null for items not assigned to any store. */
+  store: GroceryStore | null;
+  groups: { category: IngredientCategory; items: T[] }[];
+}
+
+/** The key an item's store assignment is stored under. */
+export function storeAssignmentKey(text: string): string {
+  const parsed = parseIngredient(text);
+  return normalizeIngredientName(parsed.name || text);
+}
+
+/** The store an item is assigned to, or null. Assignments to deleted stores are ignored. */
+export function findItemStore(
+  text: string,
+  stores: GroceryStore[],
+  assignments: StoreAssignments,
+): GroceryStore | null {
+  const storeId = assignments[storeAssignmentKey(text)];
+  return (storeId && stores.find((s) => s.id === storeId)) || null;
+}
+
+/**
+ * Split list items into one section per store, in the user's store order,
+ * with unassigned items last. Each section is grouped by category in the
+ * store's aisle order (the default display order for unassigned items),
+ * unchecked items first within each category. Stores with nothing on the
+ * list are omitted.
+ */
+export function splitListByStore<T extends { text: string; checked: boolean }>(
+  items: T[],
+  stores: GroceryStore[],
+  assignments: StoreAssignments,
+): StoreSection<T>[] {
+  const byStore = new Map<string | null, T[]>();
+  for (const item of items) {
+    const storeId = findItemStore(item.text, stores, assignments)?.id ?? null;
+    byStore.set(storeId, [...(byStore.get(storeId) ?? []), item]);
+  }
+
+  const ordered = [...stores].sort((a, b) => a.sortOrder - b.sortOrder);
+  const sections: StoreSection<T>[] = [];
+  for (const store of [...ordered, null]) {
+    const storeItems = byStore.get(store?.id ?? null);
+    if (!storeItems) continue;
+
+    const sorted = [...storeItems].sort((a, b) => Number(a.checked) - Number(b.checked));
+    const order = store ? normalizeAisleOrder(store.aisleOrder) : undefined;
+    sections.push({ store, groups: groupByCategory(sorted, (item) => item.text, order) });
+  }
+  return sections;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { scrapeRecipe } from "../scraper";
+
+const URL = "https://www.allrecipes.com/recipe/12682/apple-pie-by-grandma-ople/";
+
+function allrecipesPage(groups: string): string {
+  return `
+    <html>
+      <head>
+        <script type="application/ld+json">${JSON.stringify({
+          "@context": "http://schema.org",
+          "@type": ["Recipe"],
+          name: "Apple Pie",
+          recipeIngredient: ["2 cups flour", "1 cup butter", "6 apples", "1 cup sugar"],
+          recipeInstructions: [{ "@type": "HowToStep", text: "Make the crust." }, { "@type": "HowToStep", text: "Fill and bake." }],
+        })}</script>
+      </head>
+      <body>
+        <div class="mm-recipes-structured-ingredients">${groups}</div>
+      </body>
+    </html>
+  `;
+}
+
+describe("allrecipes", () => {
+  it("restores the ingredient groups the JSON-LD flattens", () => {
+    const result = scrapeRecipe(
+      allrecipesPage(`
+        <p class="mm-recipes-structured-ingredients__list-heading">Crust:</p>
+        <ul class="mm-recipes-structured-ingredients__list"><li>2 cups flour</li><li>1 cup butter</li></ul>
+        <p class="mm-recipes-structured-ingredients__list-heading">Filling</p>
+        <ul class="mm-recipes-structured-ingredients__list"><li>6 apples</li><li>1 cup sugar</li></ul>
+      `),
+      URL
+    );
+
+    expect(result!.ingredients).toEqual(["## Crust:", "2 cups flour", "1 cup butter", "## Filling:", "6 apples", "1 cup sugar"]);
+    expect(result!.strategy).toBe("json-ld+allrecipes");
+  });
+
+  it("leaves the ingredients alone when the page's groups don't match them", () => {
+    const result = scrapeRecipe(
+      allrecipesPage(`
+        <p class="mm-recipes-structured-ingredients__list-heading">Crust</p>
+        <ul class="mm-recipes-structured-ingredients__list"><li>2 cups flour</li><li>1 cup butter</li></ul>
+      `),
+      URL
+    );
+
+    expect(result!.ingredients).toEqual(["2 cups flour", "1 cup butter", "6 apples", "1 cup sugar"]);
+  });
+
+  it("leaves a recipe without groups alone", () => {
+    const result = scrapeRecipe(
+      allrecipesPage(`
+        <ul class="mm-recipes-structured-ingredients__list">
+          <li>2 cups flour</li><li>1 cup butter</li><li>6 apples</li><li>1 cup sugar</li>
+        </ul>
+      `),
+      URL
+    );
+
+    expect(result!.ingredients).toEqual(["2 cups flour", "1 cup butter", "6 apples", "1 cup sugar"]);
+  });
+});
@@ -0,0 +1,11 @@
+import type { SiteExtractor } from ".";
+import { structuredIngredientGroups } from "./dotdash";
+import { withIngredientGroups } from "./ingredient-groups";
+
+/** Allrecipes: restores the ingredient groups ("For the crust") its JSON-LD flattens. */
+export const allrecipes: SiteExtractor = {
+  id: "allrecipes",
+  hosts: ["allrecipes.com"],
+  refine: (recipe, $) =>
+    withIngredientGroups(recipe, structuredIngredientGroups($, "mm-recipes-structured-ingredients")),
+};
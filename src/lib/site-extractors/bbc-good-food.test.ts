@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { scrapeRecipe } from "../scraper";
+
+const URL = "https://www.bbcgoodfood.com/recipes/chicken-tikka-masala";
+
+const page = `
+  <html>
+    <head>
+      <meta property="og:image" content="https://images.immediate.co.uk/tikka.jpg" />
+      <meta name="description" content="A creamy, mildly spiced curry." />
+      <script type="application/ld+json">${JSON.stringify({
+        "@context": "https://schema.org",
+        "@type": "Recipe",
+        name: "Chicken tikka masala",
+        recipeIngredient: ["4 chicken breasts", "150g yogurt", "1 onion", "400g chopped tomatoes"],
+        recipeInstructions: ["Marinate the chicken.", "Make the sauce."],
+      })}</script>
+    </head>
+    <body>
+      <h1 class="heading-1">Chicken tikka masala</h1>
+      <ul class="recipe__cook-and-prep">
+        <li><span>Prep: 20 mins</span></li>
+        <li><span>Cook: 40 mins</span></li>
+        <li><span>Serves 4</span></li>
+      </ul>
+      <section class="recipe__ingredients">
+        <h2>Ingredients</h2>
+        <section>
+          <h3 class="ingredients-list__group-title">For the marinade</h3>
+          <ul class="ingredients-list">
+            <li class="ingredients-list__item">4 <a href="/glossary/chicken">chicken breasts</a></li>
+            <li class="ingredients-list__item">150g <a href="/glossary/yogurt">yogurt</a></li>
+          </ul>
+        </section>
+        <section>
+          <h3 class="ingredients-list__group-title">For the sauce</h3>
+          <ul class="ingredients-list">
+            <li class="ingredients-list__item">1 onion, chopped</li>
+            <li class="ingredients-list__item">400g can chopped tomatoes</li>
+          </ul>
+        </section>
+      </section>
+      <section class="recipe__method-steps">
+        <ul class="method-steps__list">
+          <li class="method-steps__list-item">
+            <span class="method-steps__item-heading">STEP 1</span>
+            <div class="editor-content"><p>Mix the chicken with the yogurt and chill for 1 hr.</p></div>
+          </li>
+          <li class="method-steps__list-item">
+            <span class="method-steps__item-heading">STEP 2</span>
+            <div class="editor-content"><p>Fry the onion, add the tomatoes and simmer.</p></div>
+          </li>
+        </ul>
+      </section>
+    </body>
+  </html>
+`;
+
+describe("bbc good food", () => {
+  it("reads the ingredient groups and method from the page before the generic strategies", () => {
+    const result = scrapeRecipe(page, URL);
+
+    expect(result).toMatchObject({
+      title: "Chicken tikka masala",
+      image: "https://images.immediate.co.uk/tikka.jpg",
+      description: "A creamy, mildly spiced curry.",
+      ingredients: [
+        "## For the marinade:",
+        "4 chicken breasts",
+        "150g yogurt",
+        "## For the sauce:",
+        "1 onion, chopped",
+        "400g can chopped tomatoes",
+      ],
+      instructions: ["Mix the chicken with the yogurt and chill for 1 hr.", "Fry the onion, add the tomatoes and simmer."],
+      strategy: "bbc-good-food",
+    });
+  });
+
+  it("fills times and servings from the page like any other strategy", () => {
+    const result = scrapeRecipe(page, URL);
+
+    expect(result!.prepTime).toBe("PT20M");
+    expect(result!.cookTime).toBe("PT40M");
+    expect(result!.servings).toBe("4");
+  });
+
+  it("falls back to the generic strategies when the page has no method section", () => {
+    const result = scrapeRecipe(page.replace(/<section class="recipe__method-steps">[\s\S]*?<\/section>/, ""), URL);
+
+    expect(result!.strategy).toBe("json-ld");
+    expect(result!.instructions).toEqual(["Marinate the chicken.", "Make the sauce."]);
+  });
+});
@@ -0,0 +1,51 @@
+import type * as cheerio from "cheerio";
+import type { Element } from "domhandler";
+import type { SiteExtractor } from ".";
+import { toSectionHeader } from "../instructions";
+
+function cleanText(el: cheerio.Cheerio<Element>): string {
+  return el.text().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * BBC Good Food: reads the recipe straight from the page's ingredient and
+ * method sections, ahead of the generic strategies. They keep the ingredient
+ * groups ("For the curry paste") and give each method step on its own,
+ * without the "STEP 1" label the text walk runs into it. Times, servings and
+ * the author are filled in by the generic HTML fallbacks.
+ */
+export const bbcGoodFood: SiteExtractor = {
+  id: "bbc-good-food",
+  hosts: ["bbcgoodfood.com"],
+  extract: ($) => {
+    const ingredients: string[] = [];
+    $(".recipe__ingredients")
+      .find(".ingredients-list__group-title, .ingredients-list__item")
+      .each((_, el) => {
+        const text = cleanText($(el));
+        if (!text) return;
+        ingredients.push($(el).hasClass("ingredients-list__group-title") ? toSectionHeader(text) : text);
+      });
+
+    const instructions = $(".recipe__method-steps .method-steps__list-item")
+      .toArray()
+      .map((step) => {
+        const content = $(step).find(".editor-content");
+        return content.length > 0
+          ? cleanText(content)
+          : cleanText($(step)).replace(/^step\s+\d+\s*/i, "");
+      })
+      .filter(Boolean);
+
+    const title = cleanText($("h1").first());
+    if (!title || ingredients.length === 0 || instructions.length === 0) return null;
+
+    return {
+      title,
+      image: $('meta[property="og:image"]').attr("content") || null,
+      description: $('meta[name="description"]').attr("content")?.trim() || null,
+      ingredients,
+      instructions,
+    };
+  },
+};
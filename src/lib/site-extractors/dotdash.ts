@@ -0,0 +1,17 @@
+import type * as cheerio from "cheerio";
+import type { IngredientGroup } from "./ingredient-groups";
+
+/**
+ * Ingredient groups from a Dotdash Meredith recipe page (Allrecipes, Serious
+ * Eats). Their JSON-LD lists the ingredients flat; the page shows each group
+ * as a `<block>__list` preceded by a `<block>__list-heading` when it has one.
+ */
+export function structuredIngredientGroups($: cheerio.CheerioAPI, block: string): IngredientGroup[] {
+  return $(`.${block}__list`)
+    .toArray()
+    .map((list) => {
+      const previous = $(list).prev();
+      const heading = previous.hasClass(`${block}__list-heading`) ? previous.text().trim() : "";
+      return { heading: heading || null, count: $(list).children("li").length };
+    });
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from "vitest";
+import { findSiteExtractors, type SiteExtractor } from ".";
+import { scrapeRecipe } from "../scraper";
+
+const example: SiteExtractor = { id: "example", hosts: ["example.com"] };
+
+const jsonLdPage = `
+  <html>
+    <head>
+      <script type="application/ld+json">${JSON.stringify({
+        "@type": "Recipe",
+        name: "Toast",
+        recipeIngredient: ["1 slice bread"],
+        recipeInstructions: ["Toast the bread."],
+      })}</script>
+    </head>
+  </html>
+`;
+
+describe("findSiteExtractors", () => {
+  it("matches a host and its subdomains", () => {
+    expect(findSiteExtractors("https://example.com/toast", [example])).toEqual([example]);
+    expect(findSiteExtractors("https://www.EXAMPLE.com/toast", [example])).toEqual([example]);
+  });
+
+  it("doesn't match lookalike hosts or invalid URLs", () => {
+    expect(findSiteExtractors("https://notexample.com/toast", [example])).toEqual([]);
+    expect(findSiteExtractors("https://example.com.evil.test/toast", [example])).toEqual([]);
+    expect(findSiteExtractors("not a url", [example])).toEqual([]);
+  });
+
+  it("has an extractor for each supported site", () => {
+    expect(findSiteExtractors("https://cooking.nytimes.com/recipes/1").map((s) => s.id)).toEqual(["nyt-cooking"]);
+    expect(findSiteExtractors("https://www.nytimes.com/2024/food.html")).toEqual([]);
+  });
+});
+
+describe("scrapeRecipe with site extractors", () => {
+  it("uses an extractor's recipe instead of the generic strategies", () => {
+    const extract = vi.fn(() => ({ title: "Site toast", image: null, ingredients: ["bread"], instructions: ["Toast."] }));
+
+    const result = scrapeRecipe(jsonLdPage, "https://example.com/toast", [{ ...example, extract }]);
+
+    expect(extract).toHaveBeenCalledWith(expect.any(Function), "https://example.com/toast");
+    expect(result).toMatchObject({ title: "Site toast", strategy: "example" });
+  });
+
+  it("falls through to the generic strategies when the extractor finds nothing", () => {
+    const result = scrapeRecipe(jsonLdPage, "https://example.com/toast", [{ ...example, extract: () => null }]);
+
+    expect(result).toMatchObject({ title: "Toast", strategy: "json-ld" });
+  });
+
+  it("refines the generic result and reports each refinement", () => {
+    const refine: SiteExtractor["refine"] = (recipe) => ({ ...recipe, title: recipe.title.toUpperCase() });
+
+    const result = scrapeRecipe(jsonLdPage, "https://example.com/toast", [
+      { ...example, refine },
+      { id: "other", hosts: ["example.com"], refine: (recipe) => recipe },
+    ]);
+
+    expect(result).toMatchObject({ title: "TOAST", strategy: "json-ld+example+other" });
+  });
+
+  it("doesn't refine when no strategy finds a recipe", () => {
+    const refine = vi.fn((recipe) => recipe);
+
+    expect(scrapeRecipe("<html><body>Nothing here</body></html>", "https://example.com", [{ ...example, refine }])).toBeNull();
+    expect(refine).not.toHaveBeenCalled();
+  });
+});
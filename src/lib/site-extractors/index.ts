@@ -0,0 +1,50 @@
+// ---------------------------------------------------------------------------
+// Site extractors — fixes for recipe sites the generic strategies get wrong
+//
+// scrapeRecipe tries JSON-LD, microdata, Open Graph and a DOM text walk, in
+// that order, on every page. A site extractor is matched by hostname and can
+// hook in on either side of them: `extract` runs first and, when it finds a
+// recipe, replaces the generic strategies for that page; `refine` runs on
+// whatever recipe was found (its own or a generic one) to repair what that
+// site's markup loses. Each extractor only ever sees pages from its own
+// hosts, so fixing one site can't change how any other site is scraped.
+//
+// To add a site: write an extractor in its own module with fixture tests,
+// then list it in SITE_EXTRACTORS.
+// ---------------------------------------------------------------------------
+
+import type * as cheerio from "cheerio";
+import type { ScrapedRecipe } from "@/types";
+import { allrecipes } from "./allrecipes";
+import { bbcGoodFood } from "./bbc-good-food";
+import { nytCooking } from "./nyt-cooking";
+import { seriousEats } from "./serious-eats";
+
+export interface SiteExtractor {
+  /** Reported as the scrape strategy: "nyt-cooking". */
+  id: string;
+  /** Hostnames handled, each also matching its subdomains ("www."). */
+  hosts: string[];
+  /** Runs before the generic strategies; null falls through to them. */
+  extract?: ($: cheerio.CheerioAPI, url: string) => ScrapedRecipe | null;
+  /** Runs after a recipe was found, to repair it from the page. */
+  refine?: (recipe: ScrapedRecipe, $: cheerio.CheerioAPI) => ScrapedRecipe;
+}
+
+export const SITE_EXTRACTORS: SiteExtractor[] = [nytCooking, seriousEats, bbcGoodFood, allrecipes];
+
+/** The extractors for a page's hostname, in registry order. */
+export function findSiteExtractors(
+  url: string,
+  extractors: SiteExtractor[] = SITE_EXTRACTORS,
+): SiteExtractor[] {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return [];
+  }
+  return extractors.filter((extractor) =>
+    extractor.hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`))
+  );
+}
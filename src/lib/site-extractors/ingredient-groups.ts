@@ -0,0 +1,31 @@
+import type { ScrapedRecipe } from "@/types";
+import { isSectionHeader, toSectionHeader } from "../instructions";
+
+export interface IngredientGroup {
+  /** Null for a group the page shows without a heading. */
+  heading: string | null;
+  count: number;
+}
+
+/**
+ * Put a page's ingredient group headings back into a flat ingredient list,
+ * given each group's size in page order. The list is left alone if it
+ * already has headers, if no group has a heading, or if the sizes don't
+ * add up to the list — a miscount would file ingredients under the wrong
+ * heading.
+ */
+export function withIngredientGroups(recipe: ScrapedRecipe, groups: IngredientGroup[]): ScrapedRecipe {
+  const { ingredients } = recipe;
+  if (ingredients.some(isSectionHeader)) return recipe;
+  if (!groups.some((group) => group.heading)) return recipe;
+  if (groups.reduce((n, group) => n + group.count, 0) !== ingredients.length) return recipe;
+
+  const grouped: string[] = [];
+  let next = 0;
+  for (const { heading, count } of groups) {
+    if (heading) grouped.push(toSectionHeader(heading));
+    grouped.push(...ingredients.slice(next, next + count));
+    next += count;
+  }
+  return { ...recipe, ingredients: grouped };
+}
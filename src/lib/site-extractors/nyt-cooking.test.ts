@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { scrapeRecipe } from "../scraper";
+
+const URL = "https://cooking.nytimes.com/recipes/1018684-classic-marinara-sauce";
+
+function nytPage(ingredients: string): string {
+  return `
+    <html>
+      <head>
+        <script type="application/ld+json">${JSON.stringify({
+          "@context": "http://schema.org",
+          "@type": "Recipe",
+          name: "Chicken Pot Pie",
+          recipeIngredient: ["2 cups flour", "1 cup cold butter", "1 pound chicken thighs", "2 carrots"],
+          recipeInstructions: [
+            { "@type": "HowToStep", text: "Make the dough and chill it." },
+            { "@type": "HowToStep", text: "Cook the filling, top with dough and bake." },
+          ],
+        })}</script>
+      </head>
+      <body>
+        <div class="ingredients_ingredients__FLjsC">${ingredients}</div>
+      </body>
+    </html>
+  `;
+}
+
+describe("nyt cooking", () => {
+  it("restores ingredient groups from the hashed class names", () => {
+    const result = scrapeRecipe(
+      nytPage(`
+        <h3 class="pantry--ui-strong ingredientgroup_name__HYx8G">For the dough</h3>
+        <ul>
+          <li class="pantry--ui ingredient_ingredient__rfjvs"><span>2 cups</span> <span>flour</span></li>
+          <li class="pantry--ui ingredient_ingredient__rfjvs"><span>1 cup</span> <span>cold butter</span></li>
+        </ul>
+        <h3 class="pantry--ui-strong ingredientgroup_name__HYx8G">For the filling</h3>
+        <ul>
+          <li class="pantry--ui ingredient_ingredient__rfjvs"><span>1 pound</span> <span>chicken thighs</span></li>
+          <li class="pantry--ui ingredient_ingredient__rfjvs"><span>2</span> <span>carrots</span></li>
+        </ul>
+      `),
+      URL
+    );
+
+    expect(result!.ingredients).toEqual([
+      "## For the dough:",
+      "2 cups flour",
+      "1 cup cold butter",
+      "## For the filling:",
+      "1 pound chicken thighs",
+      "2 carrots",
+    ]);
+    expect(result!.strategy).toBe("json-ld+nyt-cooking");
+  });
+
+  it("leaves a recipe without group names alone", () => {
+    const result = scrapeRecipe(
+      nytPage(`
+        <ul>
+          <li class="ingredient_ingredient__rfjvs">2 cups flour</li>
+          <li class="ingredient_ingredient__rfjvs">1 cup cold butter</li>
+          <li class="ingredient_ingredient__rfjvs">1 pound chicken thighs</li>
+          <li class="ingredient_ingredient__rfjvs">2 carrots</li>
+        </ul>
+      `),
+      URL
+    );
+
+    expect(result!.ingredients).toEqual(["2 cups flour", "1 cup cold butter", "1 pound chicken thighs", "2 carrots"]);
+  });
+});
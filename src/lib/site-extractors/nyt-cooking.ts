@@ -0,0 +1,29 @@
+import type * as cheerio from "cheerio";
+import type { SiteExtractor } from ".";
+import { withIngredientGroups, type IngredientGroup } from "./ingredient-groups";
+
+/**
+ * Ingredient groups from NYT Cooking's markup, where the class names carry a
+ * build hash ("ingredientgroup_name__HYx8G") so only their prefixes are
+ * stable. Group names and ingredients are read in page order; ingredients
+ * before the first name form an untitled group.
+ */
+function ingredientGroups($: cheerio.CheerioAPI): IngredientGroup[] {
+  const groups: IngredientGroup[] = [];
+  $('[class*="ingredientgroup_name__"], li[class*="ingredient_ingredient__"]').each((_, el) => {
+    if ($(el).is('[class*="ingredientgroup_name__"]')) {
+      groups.push({ heading: $(el).text().trim() || null, count: 0 });
+      return;
+    }
+    if (groups.length === 0) groups.push({ heading: null, count: 0 });
+    groups[groups.length - 1].count++;
+  });
+  return groups;
+}
+
+/** NYT Cooking: restores the ingredient groups ("For the dough") its JSON-LD flattens. */
+export const nytCooking: SiteExtractor = {
+  id: "nyt-cooking",
+  hosts: ["cooking.nytimes.com"],
+  refine: (recipe, $) => withIngredientGroups(recipe, ingredientGroups($)),
+};
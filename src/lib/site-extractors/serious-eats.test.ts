@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { scrapeRecipe } from "../scraper";
+
+const html = `
+  <html>
+    <head>
+      <script type="application/ld+json">${JSON.stringify([
+        {
+          "@context": "http://schema.org",
+          "@type": ["Recipe"],
+          name: "Pasta alla Vodka",
+          recipeIngredient: ["1 pound rigatoni", "Kosher salt", "2 tablespoons butter", "1/2 cup vodka", "1 cup tomato purée"],
+          recipeInstructions: [
+            { "@type": "HowToStep", text: "Melt the butter and add the vodka." },
+            { "@type": "HowToStep", text: "Cook the pasta and toss with the sauce." },
+          ],
+        },
+      ])}</script>
+    </head>
+    <body>
+      <section class="section--ingredients">
+        <div class="structured-ingredients">
+          <ul class="structured-ingredients__list"><li>1 pound rigatoni</li><li>Kosher salt</li></ul>
+          <p class="structured-ingredients__list-heading">For the Sauce:</p>
+          <ul class="structured-ingredients__list"><li>2 tablespoons butter</li><li>1/2 cup vodka</li><li>1 cup tomato purée</li></ul>
+        </div>
+      </section>
+    </body>
+  </html>
+`;
+
+describe("serious eats", () => {
+  it("restores the ingredient groups the JSON-LD flattens, keeping an untitled first group", () => {
+    const result = scrapeRecipe(html, "https://www.seriouseats.com/pasta-alla-vodka");
+
+    expect(result!.ingredients).toEqual([
+      "1 pound rigatoni",
+      "Kosher salt",
+      "## For the Sauce:",
+      "2 tablespoons butter",
+      "1/2 cup vodka",
+      "1 cup tomato purée",
+    ]);
+    expect(result!.strategy).toBe("json-ld+serious-eats");
+  });
+
+  it("only runs on Serious Eats pages", () => {
+    const result = scrapeRecipe(html, "https://example.com/pasta-alla-vodka");
+
+    expect(result!.ingredients).not.toContain("## For the Sauce:");
+    expect(result!.strategy).toBe("json-ld");
+  });
+});
@@ -0,0 +1,10 @@
+import type { SiteExtractor } from ".";
+import { structuredIngredientGroups } from "./dotdash";
+import { withIngredientGroups } from "./ingredient-groups";
+
+/** Serious Eats: restores the ingredient groups ("For the sauce") its JSON-LD flattens. */
+export const seriousEats: SiteExtractor = {
+  id: "serious-eats",
+  hosts: ["seriouseats.com"],
+  refine: (recipe, $) => withIngredientGroups(recipe, structuredIngredientGroups($, "structured-ingredients")),
+};
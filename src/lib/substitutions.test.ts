@@ -0,0 +1,57 @@
+// ---------------------------------------------------------------------------
+// Tests for ingredient substitutions — lookup, scaling and dietary filtering
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import { parseIngredient } from "./ingredient-parser";
+import { dietaryConcerns, findSubstitutions } from "./substitutions";
+
+const subsFor = (line: string, tags: string[] = [], scale = 1) =>
+  findSubstitutions(parseIngredient(line), tags, scale);
+
+describe("findSubstitutions", () => {
+  it("suggests substitutes at the recipe's amount", () => {
+    const [first] = subsFor("1/2 cup buttermilk");
+    expect(first.lines).toEqual(["1/2 cup milk", "1/2 tbsp lemon juice"]);
+    expect(first.note).toMatch(/let stand/i);
+    expect(first.per).toBeNull();
+  });
+
+  it("scales countable ingredients", () => {
+    expect(subsFor("2 large eggs, beaten")[0].lines).toEqual(["2 tbsp ground flaxseed", "6 tbsp water"]);
+  });
+
+  it("converts between units, including metric", () => {
+    expect(subsFor("2 tbsp cornstarch")[0].lines).toEqual(["2 tbsp arrowroot powder"]);
+    expect(subsFor("3 tbsp unsalted butter")[0].lines).toEqual(["3 tbsp coconut oil"]);
+    expect(subsFor("240 ml buttermilk")[0].lines).toEqual(["240 ml milk", "1 tbsp lemon juice"]);
+  });
+
+  it("applies the recipe's serving scale", () => {
+    expect(subsFor("1 cup buttermilk", [], 2)[0].lines).toEqual(["2 cup milk", "2 tbsp lemon juice"]);
+  });
+
+  it("falls back to the base amount when it can't scale", () => {
+    const [first] = subsFor("butter, for greasing");
+    expect(first.lines).toEqual(["1 cup coconut oil"]);
+    expect(first.per).toBe("per 1 cup");
+  });
+
+  it("respects dietary tags", () => {
+    expect(subsFor("1 cup buttermilk", ["Vegan"]).map((s) => s.lines[0])).toEqual(["1 cup unsweetened soy milk"]);
+    expect(subsFor("1 cup white wine", ["Vegetarian"]).map((s) => s.lines[0])).toEqual(["1 cup vegetable broth"]);
+  });
+
+  it("doesn't confuse longer names with a shorter key", () => {
+    expect(subsFor("2 tbsp peanut butter")).toEqual([]);
+    expect(subsFor("1 can coconut milk")).toEqual([]);
+    expect(subsFor("1 tsp ground ginger")).toEqual([]);
+    expect(subsFor("2 cups flour")).toEqual([]);
+  });
+});
+
+describe("dietaryConcerns", () => {
+  it("combines the concerns of every dietary tag", () => {
+    expect([...dietaryConcerns(["Dinner", "vegetarian", "Gluten-Free"])].sort()).toEqual(["gluten", "meat"]);
+  });
+});
@@ -0,0 +1,300 @@
+// ---------------------------------------------------------------------------
+// Substitutions — what to use instead when you're out of an ingredient
+//
+// Each entry gives replacements for a fixed amount of the ingredient ("1 cup
+// buttermilk → 1 cup milk + 1 tbsp lemon juice"). Suggestions are scaled to
+// the amount the recipe calls for with scaleIngredient, converting units when
+// they differ. Substitutes that conflict with the recipe's dietary tags
+// (a vegan recipe never gets a dairy swap) are left out.
+// ---------------------------------------------------------------------------
+
+import { lookupIngredient, normalizeUnit } from "./ingredient-aggregator";
+import { parseIngredient, scaleIngredient, formatQuantity, type ParsedIngredient } from "./ingredient-parser";
+import { convertAcrossSystems } from "./unit-converter";
+
+/** Things a dietary tag rules out. */
+export type DietaryConcern = "meat" | "dairy" | "egg" | "gluten" | "honey";
+
+interface Substitution {
+  /** Replacement ingredient lines for `per` of the original. */
+  use: string[];
+  note?: string;
+  contains?: DietaryConcern[];
+}
+
+interface SubstitutionEntry {
+  /** The amount of the original ingredient the substitutes replace. */
+  per: { quantity: number; unit: string | null };
+  options: Substitution[];
+}
+
+export interface SuggestedSubstitution {
+  /** Replacement lines, scaled to the recipe's amount when possible. */
+  lines: string[];
+  note: string | null;
+  /** "per 1 cup" when the amount couldn't be scaled, otherwise null. */
+  per: string | null;
+}
+
+/** Recipe tag (lowercased) → what it rules out. */
+const DIETARY_TAGS: Record<string, DietaryConcern[]> = {
+  vegan: ["meat", "dairy", "egg", "honey"],
+  vegetarian: ["meat"],
+  "dairy-free": ["dairy"],
+  "egg-free": ["egg"],
+  "gluten-free": ["gluten"],
+};
+
+const VEGETABLE_BROTH: Substitution = { use: ["1 cup vegetable broth"] };
+
+/**
+ * Substitutions keyed by normalized ingredient name. Empty entries stop a
+ * longer name from falling back to a shorter key ("peanut butter" is not
+ * "butter").
+ */
+const SUBSTITUTIONS: Record<string, SubstitutionEntry | null> = {
+  buttermilk: {
+    per: { quantity: 1, unit: "cup" },
+    options: [
+      { use: ["1 cup milk", "1 tbsp lemon juice"], note: "Stir and let stand 5 minutes.", contains: ["dairy"] },
+      { use: ["3/4 cup plain yogurt", "1/4 cup milk"], contains: ["dairy"] },
+      { use: ["1 cup unsweetened soy milk", "1 tbsp lemon juice"], note: "Stir and let stand 5 minutes." },
+    ],
+  },
+  egg: {
+    per: { quantity: 1, unit: null },
+    options: [
+      { use: ["1 tbsp ground flaxseed", "3 tbsp water"], note: "Mix and let thicken 5 minutes. Best in baking." },
+      { use: ["1/4 cup unsweetened applesauce"], note: "For moist baked goods; adds a little sweetness." },
+      { use: ["1/4 cup mashed banana"], note: "For quick breads and pancakes." },
+    ],
+  },
+  butter: {
+    per: { quantity: 1, unit: "cup" },
+    options: [
+      { use: ["1 cup coconut oil"], note: "Solid for baking, melted for cooking." },
+      { use: ["3/4 cup olive oil"], note: "For cooking and savory dishes, not creamed batters." },
+    ],
+  },
+  milk: {
+    per: { quantity: 1, unit: "cup" },
+    options: [
+      { use: ["1 cup unsweetened soy milk"] },
+      { use: ["1/2 cup evaporated milk", "1/2 cup water"], contains: ["dairy"] },
+    ],
+  },
+  "heavy cream": {
+    per: { quantity: 1, unit: "cup" },
+    options: [
+      { use: ["3/4 cup milk", "1/4 cup melted butter"], note: "Won't whip.", contains: ["dairy"] },
+      { use: ["1 cup full-fat coconut milk"] },
+    ],
+  },
+  "whipping cream": {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["1 cup full-fat coconut milk"], note: "Chill the can and whip the solid cream." }],
+  },
+  "sour cream": {
+    per: { quantity: 1, unit: "cup" },
+    options: [
+      { use: ["1 cup plain Greek yogurt"], contains: ["dairy"] },
+      { use: ["1 cup coconut cream"], note: "Add a squeeze of lemon juice for tang." },
+    ],
+  },
+  yogurt: {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["1 cup sour cream"], contains: ["dairy"] }],
+  },
+  "self-rising flour": {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["1 cup all-purpose flour", "1 1/2 tsp baking powder", "1/4 tsp salt"], contains: ["gluten"] }],
+  },
+  "cake flour": {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["7/8 cup all-purpose flour", "2 tbsp cornstarch"], note: "Sift together twice.", contains: ["gluten"] }],
+  },
+  "baking powder": {
+    per: { quantity: 1, unit: "tsp" },
+    options: [{ use: ["1/4 tsp baking soda", "1/2 tsp cream of tartar"] }],
+  },
+  "brown sugar": {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["1 cup granulated sugar", "1 tbsp molasses"] }],
+  },
+  sugar: {
+    per: { quantity: 1, unit: "cup" },
+    options: [
+      { use: ["3/4 cup honey"], note: "Cut other liquids by 3 tbsp and bake 25°F lower.", contains: ["honey"] },
+      { use: ["3/4 cup maple syrup"], note: "Cut other liquids by 3 tbsp." },
+    ],
+  },
+  "powdered sugar": null,
+  honey: {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["1 cup maple syrup"] }, { use: ["1 cup agave nectar"] }],
+  },
+  "maple syrup": {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["1 cup honey"], contains: ["honey"] }, { use: ["1 cup agave nectar"] }],
+  },
+  cornstarch: {
+    per: { quantity: 1, unit: "tbsp" },
+    options: [
+      { use: ["1 tbsp arrowroot powder"] },
+      { use: ["2 tbsp all-purpose flour"], note: "Cook a few minutes longer to lose the raw taste.", contains: ["gluten"] },
+    ],
+  },
+  "white wine": {
+    per: { quantity: 1, unit: "cup" },
+    options: [
+      { use: ["1 cup chicken broth", "1 tbsp white wine vinegar"], contains: ["meat"] },
+      { use: ["1 cup vegetable broth", "1 tbsp white wine vinegar"] },
+    ],
+  },
+  "red wine": {
+    per: { quantity: 1, unit: "cup" },
+    options: [
+      { use: ["1 cup beef broth", "1 tbsp red wine vinegar"], contains: ["meat"] },
+      { use: ["1 cup vegetable broth", "1 tbsp red wine vinegar"] },
+    ],
+  },
+  "chicken broth": { per: { quantity: 1, unit: "cup" }, options: [VEGETABLE_BROTH] },
+  "chicken stock": { per: { quantity: 1, unit: "cup" }, options: [VEGETABLE_BROTH] },
+  "beef broth": { per: { quantity: 1, unit: "cup" }, options: [VEGETABLE_BROTH] },
+  "beef stock": { per: { quantity: 1, unit: "cup" }, options: [VEGETABLE_BROTH] },
+  "lemon juice": {
+    per: { quantity: 1, unit: "tbsp" },
+    options: [{ use: ["1 tbsp lime juice"] }, { use: ["1/2 tbsp white wine vinegar"] }],
+  },
+  "lime juice": {
+    per: { quantity: 1, unit: "tbsp" },
+    options: [{ use: ["1 tbsp lemon juice"] }],
+  },
+  garlic: {
+    per: { quantity: 1, unit: "clove" },
+    options: [{ use: ["1/8 tsp garlic powder"] }],
+  },
+  shallot: {
+    per: { quantity: 1, unit: null },
+    options: [{ use: ["1/2 small onion"], note: "Add a little minced garlic for the shallot's bite." }],
+  },
+  ginger: {
+    per: { quantity: 1, unit: "tbsp" },
+    options: [{ use: ["1/4 tsp ground ginger"] }],
+  },
+  "ground ginger": null,
+  "soy sauce": {
+    per: { quantity: 1, unit: "tbsp" },
+    options: [{ use: ["1 tbsp tamari"], note: "Most tamari is gluten-free." }, { use: ["1 tbsp coconut aminos"] }],
+  },
+  "fish sauce": {
+    per: { quantity: 1, unit: "tbsp" },
+    options: [{ use: ["1 tbsp soy sauce"], contains: ["gluten"] }, { use: ["1 tbsp tamari"] }],
+  },
+  mayonnaise: {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["1 cup plain Greek yogurt"], contains: ["dairy"] }],
+  },
+  breadcrumb: {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["1 cup crushed crackers"], contains: ["gluten"] }, { use: ["1 cup rolled oats"] }],
+  },
+  parmesan: {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["1 cup pecorino romano"], contains: ["dairy"] }, { use: ["1/2 cup nutritional yeast"] }],
+  },
+  "parmesan cheese": {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["1 cup pecorino romano"], contains: ["dairy"] }, { use: ["1/2 cup nutritional yeast"] }],
+  },
+  ricotta: {
+    per: { quantity: 1, unit: "cup" },
+    options: [{ use: ["1 cup cottage cheese"], contains: ["dairy"] }],
+  },
+  "peanut butter": null,
+  "almond butter": null,
+  "coconut milk": null,
+  "almond milk": null,
+  "oat milk": null,
+  "soy milk": null,
+  "evaporated milk": null,
+  "condensed milk": null,
+};
+
+/** What a recipe's tags rule out, e.g. ["Vegan"] → meat, dairy, egg, honey. */
+export function dietaryConcerns(tags: string[]): Set<DietaryConcern> {
+  const concerns = new Set<DietaryConcern>();
+  for (const tag of tags) {
+    for (const concern of DIETARY_TAGS[tag.toLowerCase()] ?? []) concerns.add(concern);
+  }
+  return concerns;
+}
+
+/** How many of the entry's `per` amounts the ingredient is, or null if the units don't compare. */
+function amountRatio(parsed: ParsedIngredient, per: SubstitutionEntry["per"]): number | null {
+  if (parsed.quantity === null) return null;
+  const unit = normalizeUnit(parsed.unit);
+  const perUnit = normalizeUnit(per.unit);
+  let ratio: number;
+  if (unit === perUnit) ratio = parsed.quantity / per.quantity;
+  else if (!unit || !perUnit) return null;
+  else {
+    const converted = convertAcrossSystems(parsed.quantity, unit, perUnit);
+    if (converted === null) return null;
+    ratio = converted / per.quantity;
+  }
+  // Snap near-misses from metric conversion (240 ml ≈ 1.01 cups) to eighths
+  const snapped = Math.round(ratio * 8) / 8;
+  return snapped > 0 && Math.abs(snapped - ratio) < ratio * 0.03 ? snapped : ratio;
+}
+
+/**
+ * Scale one substitute line. Lines measured like the original (cups of
+ * butter → cups of oil) are put in the recipe's unit, so "3 tbsp butter"
+ * becomes "3 tbsp coconut oil" rather than "0.19 cup".
+ */
+function scaleLine(line: string, ratio: number, per: SubstitutionEntry["per"], original: ParsedIngredient): string {
+  const parsed = parseIngredient(line);
+  if (parsed.quantity === null) return line;
+
+  const unit = normalizeUnit(parsed.unit);
+  const targetUnit = normalizeUnit(original.unit);
+  if (
+    original.quantity !== null &&
+    unit && targetUnit && unit !== targetUnit && unit === normalizeUnit(per.unit) &&
+    convertAcrossSystems(1, unit, targetUnit) !== null
+  ) {
+    const quantity = (parsed.quantity / per.quantity) * original.quantity;
+    return scaleIngredient({ ...parsed, quantity, unit: original.unit }, 1);
+  }
+  return scaleIngredient({ ...parsed, quantity: parsed.quantity * ratio }, 1);
+}
+
+/**
+ * Substitutes for an ingredient, scaled to the amount used, skipping any that
+ * conflict with the recipe's dietary tags. `scale` is the recipe's serving
+ * scale, applied on top of the ingredient's own quantity.
+ */
+export function findSubstitutions(
+  parsed: ParsedIngredient,
+  tags: string[] = [],
+  scale = 1,
+): SuggestedSubstitution[] {
+  const entry = parsed.name ? lookupIngredient(SUBSTITUTIONS, parsed.name) : null;
+  if (!entry) return [];
+
+  const concerns = dietaryConcerns(tags);
+  const scaled = parsed.quantity === null ? parsed : { ...parsed, quantity: parsed.quantity * scale };
+  const ratio = amountRatio(scaled, entry.per);
+  const per = ratio === null
+    ? `per ${[formatQuantity(entry.per.quantity), entry.per.unit].filter(Boolean).join(" ")}`
+    : null;
+
+  return entry.options
+    .filter((option) => !option.contains?.some((c) => concerns.has(c)))
+    .map((option) => ({
+      lines: option.use.map((line) => (ratio === null ? line : scaleLine(line, ratio, entry.per, scaled))),
+      note: option.note ?? null,
+      per,
+    }));
+}
@@ -147,6 +147,21 @@ describe("Middleware – Unauthenticated users", () => {
 
     expect(mockRedirect).not.toHaveBeenCalled();
   });
+
+  it("allows unauthenticated user to open a share link", async () => {
+    const request = createMockRequest("/share/0123456789abcdef0123456789abcdef");
+    await updateSession(request);
+
+    expect(mockRedirect).not.toHaveBeenCalled();
+  });
+
+  it("still protects routes that merely start with /share", async () => {
+    const request = createMockRequest("/shared-stuff");
+    await updateSession(request);
+
+    expect(mockRedirect).toHaveBeenCalled();
+    expect(mockRedirect.mock.calls[0][0].pathname).toBe("/login");
+  });
 });
 
 describe("Middleware – Authenticated users", () => {
@@ -193,4 +208,11 @@ describe("Middleware – Authenticated users", () => {
 
     expect(mockRedirect).not.toHaveBeenCalled();
   });
+
+  it("does NOT redirect authenticated user from a share link", async () => {
+    const request = createMockRequest("/share/0123456789abcdef0123456789abcdef");
+    await updateSession(request);
+
+    expect(mockRedirect).not.toHaveBeenCalled();
+  });
 });
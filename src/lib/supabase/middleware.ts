@@ -54,9 +54,10 @@ export async function updateSession(request: NextRequest, nonce?: string) {
     data: { user },
   } = await supabase.auth.getUser();
 
-  const publicRoutes = ["/login", "/signup", "/auth/callback", "/auth/confirmed"];
-  // Auth callback routes that authenticated users should NOT be redirected away from
-  const authCallbackRoutes = ["/auth/callback", "/auth/confirmed"];
+  const publicRoutes = ["/login", "/signup", "/auth/callback", "/auth/confirmed", "/share"];
+  // Public routes that authenticated users should NOT be redirected away from:
+  // auth callbacks, and share links (a signed-in viewer can save the recipe)
+  const openRoutes = ["/auth/callback", "/auth/confirmed", "/share"];
   const pathname = request.nextUrl.pathname;
   const isPublicRoute = publicRoutes.some((route) =>
     pathname === route || pathname.startsWith(route + "/")
@@ -69,11 +70,11 @@ export async function updateSession(request: NextRequest, nonce?: string) {
     return NextResponse.redirect(url);
   }
 
-  // Redirect authenticated users away from auth pages (except callback routes)
-  const isAuthCallback = authCallbackRoutes.some((route) =>
+  // Redirect authenticated users away from auth pages (except callback and share routes)
+  const isOpenRoute = openRoutes.some((route) =>
     pathname === route || pathname.startsWith(route + "/")
   );
-  if (user && isPublicRoute && !isAuthCallback) {
+  if (user && isPublicRoute && !isOpenRoute) {
     const url = request.nextUrl.clone();
     url.pathname = "/";
     return NextResponse.redirect(url);
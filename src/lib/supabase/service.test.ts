@@ -6,6 +6,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/supabase";
 
 // ---------------------------------------------------------------------------
 // Mock Supabase client builder
@@ -19,7 +21,7 @@ function mockChain(resolvedValue: { data: unknown; error: unknown }) {
   const chain: Record<string, ReturnType<typeof vi.fn>> = {};
   const methods = [
     "select", "insert", "update", "delete", "upsert",
-    "eq", "in", "gte", "lte", "order", "single", "maybeSingle",
+    "eq", "neq", "in", "gte", "lte", "order", "limit", "single", "maybeSingle",
   ];
   for (const m of methods) {
     chain[m] = vi.fn().mockReturnValue(chain);
@@ -39,10 +41,39 @@ function mockChain(resolvedValue: { data: unknown; error: unknown }) {
   return proxy;
 }
 
+/**
+ * Creates a mock Realtime channel. `.on` and `.subscribe` chain like the
+ * real one; `_emit` and `_status` drive the registered callbacks.
+ */
+function mockChannel() {
+  const handlers: { table: string; callback: (payload: unknown) => void }[] = [];
+  let onStatus: ((status: string) => void) | undefined;
+
+  const channel = {
+    on: vi.fn((_type: string, filter: { table: string }, callback: (payload: unknown) => void) => {
+      handlers.push({ table: filter.table, callback });
+      return channel;
+    }),
+    subscribe: vi.fn((callback?: (status: string) => void) => {
+      onStatus = callback;
+      return channel;
+    }),
+    _emit(table: string, payload: unknown) {
+      for (const h of handlers) if (h.table === table) h.callback(payload);
+    },
+    _status(status: string) {
+      onStatus?.(status);
+    },
+  };
+  return channel;
+}
+
 /**
  * Creates a mock Supabase client. Each table gets its own mock chain.
  * Use `_setTableResponse` to configure what a table call resolves with.
  * Use `_setTableResponses` to configure sequential responses for the same table.
+ * Typed as a real client as well, so it can be passed to service functions
+ * as it is.
  */
 function createMockClient(overrides: Record<string, unknown> = {}) {
   const fromMocks: Record<string, ReturnType<typeof mockChain>> = {};
@@ -50,8 +81,9 @@ function createMockClient(overrides: Record<string, unknown> = {}) {
   const sequentialMocks: Record<string, ReturnType<typeof mockChain>[]> = {};
   /** Track call counts for sequential responses */
   const callCounts: Record<string, number> = {};
+  const realtimeChannel = mockChannel();
 
-  return {
+  const client = {
     auth: {
       getUser: vi.fn().mockResolvedValue({
         data: { user: { id: "user-123" } },
@@ -59,6 +91,10 @@ function createMockClient(overrides: Record<string, unknown> = {}) {
       signOut: vi.fn().mockResolvedValue({ error: null }),
       ...overrides.auth as Record<string, unknown>,
     },
+    rpc: vi.fn().mockResolvedValue({ data: [], error: null }),
+    _channel: realtimeChannel,
+    channel: vi.fn(() => realtimeChannel),
+    removeChannel: vi.fn().mockResolvedValue("ok"),
     from: vi.fn((table: string) => {
       // If sequential mocks are configured, use them
       if (sequentialMocks[table] && sequentialMocks[table].length > 0) {
@@ -88,6 +124,7 @@ function createMockClient(overrides: Record<string, unknown> = {}) {
       delete fromMocks[table];
     },
   };
+  return client as typeof client & SupabaseClient<Database>;
 }
 
 // ---------------------------------------------------------------------------
@@ -96,10 +133,15 @@ function createMockClient(overrides: Record<string, unknown> = {}) {
 
 import {
   fetchRecipes,
+  fetchHouseholdRecipes,
+  fetchRecipe,
   addRecipe,
   deleteRecipe,
   updateRecipe,
+  fetchRecipeRevisions,
+  revertRecipe,
   updateRecipeTags,
+  searchRecipes,
   fetchMealPlan,
   assignMeal,
   removeMeal,
@@ -112,11 +154,33 @@ import {
   clearCheckedItems,
   clearShoppingList,
   generateShoppingList,
+  clearCheckedGroceryItems,
+  fetchPantry,
+  addPantryItem,
+  updatePantryItem,
+  deletePantryItem,
+  fetchIngredientPrices,
+  saveIngredientPrice,
+  deleteIngredientPrice,
+  recordPricePaid,
+  fetchPriceHistory,
+  fetchGroceryStores,
+  createGroceryStore,
+  updateGroceryStore,
+  fetchStoreAssignments,
+  assignItemToStore,
   fetchCheckedIngredients,
   toggleIngredient,
   clearCheckedIngredients,
   fetchProfile,
   updateProfile,
+  fetchHousehold,
+  renameHousehold,
+  resetHouseholdInviteCode,
+  joinHousehold,
+  leaveHousehold,
+  removeHouseholdMember,
+  subscribeToHouseholdChanges,
   fetchTemplates,
   saveTemplate,
   deleteTemplate,
@@ -128,7 +192,14 @@ import {
   addRecipeToGroup,
   removeRecipeFromGroup,
   ensureDefaultGroups,
+  fetchShareToken,
+  createShareLink,
+  deleteShareLink,
+  fetchSharedRecipes,
+  exportAccountData,
+  restoreAccountData,
 } from "./service";
+import { parseSearchQuery } from "@/lib/recipe-search";
 
 // ---------------------------------------------------------------------------
 // Tests
@@ -144,7 +215,7 @@ describe("Service Layer – Auth Guard", () => {
     });
 
     // fetchRecipes calls getUserId internally
-    await expect(fetchRecipes(client as any)).rejects.toThrow("Not authenticated");
+    await expect(fetchRecipes(client)).rejects.toThrow("Not authenticated");
   });
 });
 
@@ -158,14 +229,14 @@ describe("Service Layer – Recipes", () => {
   });
 
   it("fetchRecipes calls from('recipes') with user_id filter", async () => {
-    const recipes = await fetchRecipes(client as any);
+    const recipes = await fetchRecipes(client);
 
     expect(client.from).toHaveBeenCalledWith("recipes");
     expect(Array.isArray(recipes)).toBe(true);
   });
 
   it("fetchRecipes returns empty array when no recipes", async () => {
-    const recipes = await fetchRecipes(client as any);
+    const recipes = await fetchRecipes(client);
     expect(recipes).toEqual([]);
   });
 
@@ -199,7 +270,7 @@ describe("Service Layer – Recipes", () => {
       { recipe_id: "r1", tag: "dinner" },
     ]);
 
-    const recipes = await fetchRecipes(client as any);
+    const recipes = await fetchRecipes(client);
 
     expect(recipes).toHaveLength(1);
     expect(recipes[0].id).toBe("r1");
@@ -222,7 +293,7 @@ describe("Service Layer – Recipes", () => {
       { id: "r1", title: "Test", image: null, source_url: "", created_at: "", user_id: "user-123" },
     ]);
 
-    await fetchRecipes(client as any);
+    await fetchRecipes(client);
 
     expect(client.from).toHaveBeenCalledWith("recipes");
     expect(client.from).toHaveBeenCalledWith("recipe_ingredients");
@@ -230,9 +301,26 @@ describe("Service Layer – Recipes", () => {
     expect(client.from).toHaveBeenCalledWith("recipe_tags");
   });
 
+  it("fetchRecipe returns one recipe with its ingredients", async () => {
+    client._setTableResponse("recipes", { id: "r1", title: "Pasta", image: null, source_url: "", created_at: "", user_id: "user-123" });
+    client._setTableResponse("recipe_ingredients", [{ recipe_id: "r1", text: "Pasta", sort_order: 0 }]);
+
+    const recipe = await fetchRecipe(client, "r1");
+
+    expect(client.from("recipes").eq).toHaveBeenCalledWith("id", "r1");
+    expect(recipe?.title).toBe("Pasta");
+    expect(recipe?.ingredients).toEqual(["Pasta"]);
+  });
+
+  it("fetchRecipe returns null for a recipe the user can't see", async () => {
+    client._setTableResponse("recipes", null);
+
+    expect(await fetchRecipe(client, "r1")).toBeNull();
+  });
+
   it("fetchRecipes throws on database error", async () => {
     client._setTableResponse("recipes", null, { message: "DB error", code: "500" });
-    await expect(fetchRecipes(client as any)).rejects.toBeTruthy();
+    await expect(fetchRecipes(client)).rejects.toBeTruthy();
   });
 
   it("addRecipe inserts recipe and returns mapped Recipe", async () => {
@@ -262,7 +350,7 @@ describe("Service Layer – Recipes", () => {
       instructions: ["mix", "bake"],
     };
 
-    const recipe = await addRecipe(client as any, scraped, "https://example.com");
+    const recipe = await addRecipe(client, scraped, "https://example.com");
 
     expect(client.from).toHaveBeenCalledWith("recipes");
     expect(recipe.id).toBe("r1");
@@ -272,6 +360,43 @@ describe("Service Layer – Recipes", () => {
     expect(recipe.instructions).toEqual(["mix", "bake"]);
   });
 
+  it("addRecipe stores the source page's published details", async () => {
+    client._setTableResponse("recipes", {
+      id: "r1", title: "Brownies", image: null, source_url: "", created_at: "2026-01-01T00:00:00Z",
+      user_id: "user-123", description: "Fudgy.", nutrition: { calories: "240 kcal" },
+      categories: ["Dessert"], keywords: ["chocolate"], suitable_for_diet: ["Vegetarian"],
+      video: { name: null, url: "https://video.example.com/embed/1", thumbnailUrl: null },
+      aggregate_rating: "4.50", aggregate_rating_count: 120,
+    });
+
+    const recipe = await addRecipe(client, {
+      title: "Brownies",
+      image: null,
+      ingredients: [],
+      instructions: [],
+      description: "Fudgy.",
+      nutrition: { calories: "240 kcal" },
+      categories: ["Dessert"],
+      keywords: ["chocolate"],
+      suitableForDiet: ["Vegetarian"],
+      video: { name: null, url: "https://video.example.com/embed/1", thumbnailUrl: null },
+      aggregateRating: { value: 4.5, count: 120 },
+    }, "");
+
+    expect(client.from("recipes").insert).toHaveBeenCalledWith(expect.objectContaining({
+      description: "Fudgy.",
+      nutrition: { calories: "240 kcal" },
+      categories: ["Dessert"],
+      suitable_for_diet: ["Vegetarian"],
+      aggregate_rating: 4.5,
+      aggregate_rating_count: 120,
+    }));
+    // numeric columns come back as strings
+    expect(recipe.aggregateRating).toEqual({ value: 4.5, count: 120 });
+    expect(recipe.keywords).toEqual(["chocolate"]);
+    expect(recipe.video?.url).toBe("https://video.example.com/embed/1");
+  });
+
   it("addRecipe throws on database error", async () => {
     client._setTableResponse("recipes", null, { message: "Insert failed", code: "500" });
 
@@ -282,26 +407,26 @@ describe("Service Layer – Recipes", () => {
       instructions: [],
     };
 
-    await expect(addRecipe(client as any, scraped, "https://example.com")).rejects.toBeTruthy();
+    await expect(addRecipe(client, scraped, "https://example.com")).rejects.toBeTruthy();
   });
 
   it("deleteRecipe calls from('recipes').delete() with id and user_id filters", async () => {
-    await deleteRecipe(client as any, "recipe-1");
+    await deleteRecipe(client, "recipe-1");
     expect(client.from).toHaveBeenCalledWith("recipes");
   });
 
   it("deleteRecipe throws on database error", async () => {
     client._setTableResponse("recipes", null, { message: "Delete failed", code: "500" });
-    await expect(deleteRecipe(client as any, "recipe-1")).rejects.toBeTruthy();
+    await expect(deleteRecipe(client, "recipe-1")).rejects.toBeTruthy();
   });
 
   it("updateRecipeTags deletes existing then inserts new tags", async () => {
-    await updateRecipeTags(client as any, "recipe-1", ["dinner", "quick"]);
+    await updateRecipeTags(client, "recipe-1", ["dinner", "quick"]);
     expect(client.from).toHaveBeenCalledWith("recipe_tags");
   });
 
   it("updateRecipeTags handles empty tags array (delete only, no insert)", async () => {
-    await updateRecipeTags(client as any, "recipe-1", []);
+    await updateRecipeTags(client, "recipe-1", []);
     expect(client.from).toHaveBeenCalledWith("recipe_tags");
   });
 });
@@ -316,7 +441,7 @@ describe("Service Layer – updateRecipe", () => {
   });
 
   it("updates recipe fields with correct snake_case mapping", async () => {
-    await updateRecipe(client as any, "r1", {
+    await updateRecipe(client, "r1", {
       title: "Updated Title",
       isFavorite: true,
       cuisineType: "Mexican",
@@ -327,7 +452,7 @@ describe("Service Layer – updateRecipe", () => {
 
   it("does not call update when no column updates are provided", async () => {
     // Only passing ingredients, no top-level fields
-    await updateRecipe(client as any, "r1", {
+    await updateRecipe(client, "r1", {
       ingredients: ["flour"],
     });
 
@@ -336,15 +461,28 @@ describe("Service Layer – updateRecipe", () => {
   });
 
   it("replaces ingredients by deleting then inserting", async () => {
-    await updateRecipe(client as any, "r1", {
+    await updateRecipe(client, "r1", {
       ingredients: ["flour", "sugar"],
     });
 
     expect(client.from).toHaveBeenCalledWith("recipe_ingredients");
   });
 
+  it("reclassifies allergens and diets when ingredients change", async () => {
+    await updateRecipe(client, "r1", {
+      ingredients: ["1 cup milk", "2 cups flour"],
+    });
+
+    expect(client.from("recipes").update).toHaveBeenCalledWith({
+      allergens: ["gluten", "dairy"],
+      diets: ["vegetarian"],
+    });
+    // Ownership is still checked explicitly for ingredient-only edits
+    expect(client.from("recipes").single).toHaveBeenCalled();
+  });
+
   it("replaces instructions by deleting then inserting", async () => {
-    await updateRecipe(client as any, "r1", {
+    await updateRecipe(client, "r1", {
       instructions: ["Step 1", "Step 2"],
     });
 
@@ -352,7 +490,7 @@ describe("Service Layer – updateRecipe", () => {
   });
 
   it("handles empty ingredients array (delete only)", async () => {
-    await updateRecipe(client as any, "r1", {
+    await updateRecipe(client, "r1", {
       ingredients: [],
     });
 
@@ -360,7 +498,7 @@ describe("Service Layer – updateRecipe", () => {
   });
 
   it("handles empty instructions array (delete only)", async () => {
-    await updateRecipe(client as any, "r1", {
+    await updateRecipe(client, "r1", {
       instructions: [],
     });
 
@@ -371,13 +509,13 @@ describe("Service Layer – updateRecipe", () => {
     client._setTableResponse("recipes", null, { message: "Update failed", code: "500" });
 
     await expect(
-      updateRecipe(client as any, "r1", { title: "Fail" })
+      updateRecipe(client, "r1", { title: "Fail" })
     ).rejects.toBeTruthy();
   });
 
   it("maps all supported fields to snake_case", async () => {
     // Exercise all field mappings
-    await updateRecipe(client as any, "r1", {
+    await updateRecipe(client, "r1", {
       title: "T",
       image: "img.jpg",
       sourceUrl: "https://example.com",
@@ -397,6 +535,156 @@ describe("Service Layer – updateRecipe", () => {
   });
 });
 
+// ======================== RECIPE REVISIONS ========================
+
+describe("Service Layer – Recipe Revisions", () => {
+  let client: ReturnType<typeof createMockClient>;
+  const row = { id: "r1", title: "Pasta", image: null, source_url: "", created_at: "", user_id: "user-123", notes: null };
+
+  beforeEach(() => {
+    client = createMockClient();
+    client._setTableResponse("recipes", row);
+    client._setTableResponse("recipe_ingredients", [{ recipe_id: "r1", text: "200 g pasta", sort_order: 0 }]);
+  });
+
+  it("updateRecipe keeps the recipe as it was as the original before its first edit", async () => {
+    client._setTableResponse("recipe_revisions", null);
+
+    await updateRecipe(client, "r1", { notes: "More salt" });
+
+    const insert = client.from("recipe_revisions").insert;
+    expect(insert).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      recipe_id: "r1",
+      kind: "original",
+      snapshot: expect.objectContaining({ title: "Pasta", notes: null, ingredients: ["200 g pasta"] }),
+    }));
+    expect(insert).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      kind: "edit",
+      snapshot: expect.objectContaining({ title: "Pasta", notes: "More salt" }),
+    }));
+  });
+
+  it("updateRecipe records only the edit once the original is kept", async () => {
+    client._setTableResponse("recipe_revisions", { id: "rev-original" });
+
+    await updateRecipe(client, "r1", { title: "Better Pasta" });
+
+    const insert = client.from("recipe_revisions").insert;
+    expect(insert).toHaveBeenCalledTimes(1);
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ kind: "edit" }));
+  });
+
+  it("updateRecipe records nothing when the content is unchanged", async () => {
+    await updateRecipe(client, "r1", { title: "Pasta", ingredients: ["200 g pasta"] });
+
+    expect(client.from).not.toHaveBeenCalledWith("recipe_revisions");
+  });
+
+  it("updateRecipe records nothing for ratings and favourites", async () => {
+    await updateRecipe(client, "r1", { rating: 5, isFavorite: true });
+
+    expect(client.from).not.toHaveBeenCalledWith("recipe_revisions");
+  });
+
+  it("updateRecipe leaves the recipe untouched when the revision can't be saved", async () => {
+    client._setTableResponse("recipe_revisions", { id: "rev-original" }, { message: "denied", code: "42501" });
+
+    await expect(updateRecipe(client, "r1", { title: "Nope" })).rejects.toBeTruthy();
+    expect(client.from("recipes").update).not.toHaveBeenCalled();
+  });
+
+  it("fetchRecipeRevisions maps rows newest first", async () => {
+    client._setTableResponse("recipe_revisions", [
+      { id: "rev-2", recipe_id: "r1", kind: "edit", snapshot: { title: "Pasta", ingredients: [], instructions: [] }, created_at: "2026-10-02T00:00:00Z" },
+      { id: "rev-1", recipe_id: "r1", kind: "original", snapshot: { title: "Pasta" }, created_at: "2026-10-01T00:00:00Z" },
+    ]);
+
+    const revisions = await fetchRecipeRevisions(client, "r1");
+
+    expect(client.from("recipe_revisions").order).toHaveBeenCalledWith("created_at", { ascending: false });
+    expect(revisions.map((r) => r.kind)).toEqual(["edit", "original"]);
+    // Snapshots are normalised, so missing fields read as empty
+    expect(revisions[1].snapshot.ingredients).toEqual([]);
+    expect(revisions[1].snapshot.notes).toBeNull();
+  });
+
+  it("revertRecipe applies the revision's snapshot as a revert", async () => {
+    client._setTableResponses("recipe_revisions", [
+      { data: { snapshot: { title: "Old Pasta", ingredients: ["100 g pasta"], instructions: [] } }, error: null },
+      { data: { id: "rev-original" }, error: null },
+      { data: null, error: null },
+    ]);
+
+    await revertRecipe(client, "r1", "rev-1");
+
+    expect(client.from("recipes").update).toHaveBeenCalledWith(expect.objectContaining({ title: "Old Pasta" }));
+    expect(client.from("recipe_ingredients").insert).toHaveBeenCalledWith([
+      { recipe_id: "r1", text: "100 g pasta", sort_order: 0 },
+    ]);
+  });
+
+  it("revertRecipe throws for an unknown revision", async () => {
+    client._setTableResponse("recipe_revisions", null);
+
+    await expect(revertRecipe(client, "r1", "missing")).rejects.toThrow("Revision not found");
+  });
+});
+
+// ======================== RECIPE SEARCH ========================
+
+describe("Service Layer – Recipe Search", () => {
+  let client: ReturnType<typeof createMockClient>;
+
+  beforeEach(() => {
+    client = createMockClient();
+  });
+
+  it("searchRecipes passes the parsed query to the search_recipes function", async () => {
+    await searchRecipes(client, parseSearchQuery('"green curry" ingredient:chicken -tag:spicy time:<30m is:fav'));
+
+    expect(client.rpc).toHaveBeenCalledWith("search_recipes", {
+      p_text: '"green curry"',
+      p_terms: [
+        { field: "any", value: "green curry", negate: false },
+        { field: "ingredient", value: "chicken", negate: false },
+        { field: "tag", value: "spicy", negate: true },
+      ],
+      p_ranges: [{ field: "time", op: "<", value: 30, negate: false }],
+      p_favorite: true,
+      p_limit: 50,
+    });
+  });
+
+  it("searchRecipes returns [] without loading recipes when nothing matches", async () => {
+    const recipes = await searchRecipes(client, parseSearchQuery("nothing"));
+
+    expect(recipes).toEqual([]);
+    expect(client.from).not.toHaveBeenCalled();
+  });
+
+  it("searchRecipes returns matching recipes in rank order with their children", async () => {
+    client.rpc.mockResolvedValue({ data: [{ id: "r2", rank: 0.9 }, { id: "r1", rank: 0.4 }], error: null });
+    client._setTableResponse("recipes", [
+      { id: "r1", title: "Chicken Soup", image: null, source_url: "", created_at: "2026-01-01T00:00:00Z" },
+      { id: "r2", title: "Chicken Thighs", image: null, source_url: "", created_at: "2026-01-02T00:00:00Z" },
+    ]);
+    client._setTableResponse("recipe_ingredients", [{ recipe_id: "r2", text: "chicken thighs", sort_order: 0 }]);
+
+    const recipes = await searchRecipes(client, parseSearchQuery("chicken"));
+
+    expect(recipes.map((r) => r.id)).toEqual(["r2", "r1"]);
+    expect(recipes[0].ingredients).toEqual(["chicken thighs"]);
+  });
+
+  it("searchRecipes throws on RPC error", async () => {
+    client.rpc.mockResolvedValue({ data: null, error: { message: "function does not exist" } });
+
+    await expect(searchRecipes(client, parseSearchQuery("chicken"))).rejects.toEqual({
+      message: "function does not exist",
+    });
+  });
+});
+
 // ======================== MEAL PLAN ========================
 
 describe("Service Layer – Meal Plan", () => {
@@ -407,7 +695,7 @@ describe("Service Layer – Meal Plan", () => {
   });
 
   it("fetchMealPlan returns a MealPlan object keyed by date", async () => {
-    const plan = await fetchMealPlan(client as any, "2026-02-22", "2026-02-28");
+    const plan = await fetchMealPlan(client, "2026-02-22", "2026-02-28");
     expect(client.from).toHaveBeenCalledWith("meal_plans");
     expect(typeof plan).toBe("object");
   });
@@ -418,7 +706,7 @@ describe("Service Layer – Meal Plan", () => {
       { date: "2026-02-22", meal_type: "lunch", recipe_id: "r2", is_leftover: true, position: 0, user_id: "user-123" },
     ]);
 
-    const plan = await fetchMealPlan(client as any, "2026-02-22", "2026-02-28");
+    const plan = await fetchMealPlan(client, "2026-02-22", "2026-02-28");
 
     expect(plan["2026-02-22"]).toBeDefined();
     // Slots are now arrays of MealSlotEntry
@@ -431,31 +719,31 @@ describe("Service Layer – Meal Plan", () => {
 
   it("fetchMealPlan throws on database error", async () => {
     client._setTableResponse("meal_plans", null, { message: "DB error", code: "500" });
-    await expect(fetchMealPlan(client as any, "2026-02-22", "2026-02-28")).rejects.toBeTruthy();
+    await expect(fetchMealPlan(client, "2026-02-22", "2026-02-28")).rejects.toBeTruthy();
   });
 
   it("assignMeal upserts a meal_plans row", async () => {
-    await assignMeal(client as any, "2026-02-22", "dinner", "recipe-1");
+    await assignMeal(client, "2026-02-22", "dinner", "recipe-1");
     expect(client.from).toHaveBeenCalledWith("meal_plans");
   });
 
   it("assignMeal includes is_leftover in upsert", async () => {
-    await assignMeal(client as any, "2026-02-22", "dinner", "recipe-1", true);
+    await assignMeal(client, "2026-02-22", "dinner", "recipe-1", true);
     expect(client.from).toHaveBeenCalledWith("meal_plans");
   });
 
   it("assignMeal throws on database error", async () => {
     client._setTableResponse("meal_plans", null, { message: "Upsert failed", code: "500" });
-    await expect(assignMeal(client as any, "2026-02-22", "dinner", "recipe-1")).rejects.toBeTruthy();
+    await expect(assignMeal(client, "2026-02-22", "dinner", "recipe-1")).rejects.toBeTruthy();
   });
 
   it("removeMeal deletes a meal_plans row by date+slot+recipeId", async () => {
-    await removeMeal(client as any, "2026-02-22", "dinner", "recipe-1");
+    await removeMeal(client, "2026-02-22", "dinner", "recipe-1");
     expect(client.from).toHaveBeenCalledWith("meal_plans");
   });
 
   it("clearWeek deletes meal_plans for given dates", async () => {
-    await clearWeek(client as any, ["2026-02-22", "2026-02-23"]);
+    await clearWeek(client, ["2026-02-22", "2026-02-23"]);
     expect(client.from).toHaveBeenCalledWith("meal_plans");
   });
 });
@@ -475,7 +763,7 @@ describe("Service Layer – Shopping List", () => {
       { id: "i2", text: "Eggs", checked: true, recipe_id: null },
     ]);
 
-    const items = await fetchShoppingList(client as any);
+    const items = await fetchShoppingList(client);
 
     expect(client.from).toHaveBeenCalledWith("shopping_items");
     expect(Array.isArray(items)).toBe(true);
@@ -493,7 +781,7 @@ describe("Service Layer – Shopping List", () => {
       recipe_id: null,
     });
 
-    const item = await addShoppingItem(client as any, "Milk");
+    const item = await addShoppingItem(client, "Milk");
     expect(client.from).toHaveBeenCalledWith("shopping_items");
     expect(item.text).toBe("Milk");
     expect(item.checked).toBe(false);
@@ -502,21 +790,21 @@ describe("Service Layer – Shopping List", () => {
 
   it("addShoppingItem throws on database error", async () => {
     client._setTableResponse("shopping_items", null, { message: "Insert failed", code: "500" });
-    await expect(addShoppingItem(client as any, "Milk")).rejects.toBeTruthy();
+    await expect(addShoppingItem(client, "Milk")).rejects.toBeTruthy();
   });
 
   it("toggleShoppingItem updates the checked field", async () => {
-    await toggleShoppingItem(client as any, "item-1", true);
+    await toggleShoppingItem(client, "item-1", true);
     expect(client.from).toHaveBeenCalledWith("shopping_items");
   });
 
   it("clearCheckedItems deletes items where checked=true", async () => {
-    await clearCheckedItems(client as any);
+    await clearCheckedItems(client);
     expect(client.from).toHaveBeenCalledWith("shopping_items");
   });
 
   it("clearShoppingList deletes all items for user", async () => {
-    await clearShoppingList(client as any);
+    await clearShoppingList(client);
     expect(client.from).toHaveBeenCalledWith("shopping_items");
   });
 });
@@ -531,13 +819,13 @@ describe("Service Layer – uncheckAllShoppingItems", () => {
   });
 
   it("updates checked=false for all checked items belonging to user", async () => {
-    await uncheckAllShoppingItems(client as any);
+    await uncheckAllShoppingItems(client);
     expect(client.from).toHaveBeenCalledWith("shopping_items");
   });
 
   it("throws on database error", async () => {
     client._setTableResponse("shopping_items", null, { message: "Update failed", code: "500" });
-    await expect(uncheckAllShoppingItems(client as any)).rejects.toBeTruthy();
+    await expect(uncheckAllShoppingItems(client)).rejects.toBeTruthy();
   });
 });
 
@@ -551,7 +839,7 @@ describe("Service Layer – restoreShoppingItems", () => {
   });
 
   it("returns empty array when given no items", async () => {
-    const result = await restoreShoppingItems(client as any, []);
+    const result = await restoreShoppingItems(client, []);
     expect(result).toEqual([]);
     // Should not call from() at all for empty input
     expect(client.from).not.toHaveBeenCalled();
@@ -563,7 +851,7 @@ describe("Service Layer – restoreShoppingItems", () => {
       { id: "new-2", text: "Sugar", checked: true, recipe_id: null },
     ]);
 
-    const result = await restoreShoppingItems(client as any, [
+    const result = await restoreShoppingItems(client, [
       { text: "Flour", checked: false, recipeId: "r1" },
       { text: "Sugar", checked: true },
     ]);
@@ -579,7 +867,7 @@ describe("Service Layer – restoreShoppingItems", () => {
   it("throws on database error", async () => {
     client._setTableResponse("shopping_items", null, { message: "Insert failed", code: "500" });
     await expect(
-      restoreShoppingItems(client as any, [{ text: "Milk", checked: false }])
+      restoreShoppingItems(client, [{ text: "Milk", checked: false }])
     ).rejects.toBeTruthy();
   });
 });
@@ -598,7 +886,7 @@ describe("Service Layer – generateShoppingList", () => {
       { id: "gen-1", text: "Flour", checked: false, recipe_id: "r1" },
     ]);
 
-    const result = await generateShoppingList(client as any, [
+    const result = await generateShoppingList(client, [
       { text: "Flour", recipeId: "r1" },
     ]);
 
@@ -611,7 +899,7 @@ describe("Service Layer – generateShoppingList", () => {
   });
 
   it("returns empty array when given no items (but still clears)", async () => {
-    const result = await generateShoppingList(client as any, []);
+    const result = await generateShoppingList(client, []);
 
     expect(client.from).toHaveBeenCalledWith("shopping_items");
     expect(result).toEqual([]);
@@ -622,11 +910,201 @@ describe("Service Layer – generateShoppingList", () => {
     // we set error which will affect the resolved value
     client._setTableResponse("shopping_items", null, { message: "Insert failed", code: "500" });
     await expect(
-      generateShoppingList(client as any, [{ text: "Milk", recipeId: "r1" }])
+      generateShoppingList(client, [{ text: "Milk", recipeId: "r1" }])
     ).rejects.toBeTruthy();
   });
 });
 
+// ======================== PANTRY ========================
+
+describe("Service Layer – Pantry", () => {
+  let client: ReturnType<typeof createMockClient>;
+
+  beforeEach(() => {
+    client = createMockClient();
+  });
+
+  it("fetchPantry returns mapped PantryItem array", async () => {
+    client._setTableResponse("pantry_items", [
+      { id: "p1", name: "rice", quantity: 2, unit: "cup", updated_at: "2026-10-01T00:00:00Z" },
+      { id: "p2", name: "cumin", quantity: null, unit: null, updated_at: "2026-10-02T00:00:00Z" },
+    ]);
+
+    const items = await fetchPantry(client);
+
+    expect(client.from).toHaveBeenCalledWith("pantry_items");
+    expect(items).toHaveLength(2);
+    expect(items[0]).toEqual({ id: "p1", name: "rice", quantity: 2, unit: "cup", updatedAt: "2026-10-01T00:00:00Z" });
+    expect(items[1].quantity).toBeNull();
+  });
+
+  it("addPantryItem inserts and returns a PantryItem", async () => {
+    client._setTableResponse("pantry_items", {
+      id: "p1", name: "rice", quantity: 2, unit: "cup", updated_at: "2026-10-01T00:00:00Z",
+    });
+
+    const item = await addPantryItem(client, { name: "rice", quantity: 2, unit: "cup" });
+    expect(item.id).toBe("p1");
+    expect(item.updatedAt).toBe("2026-10-01T00:00:00Z");
+  });
+
+  it("addPantryItem rejects names over 500 characters", async () => {
+    await expect(
+      addPantryItem(client, { name: "x".repeat(501), quantity: null, unit: null }),
+    ).rejects.toThrow("500 character limit");
+  });
+
+  it("updatePantryItem and deletePantryItem target pantry_items", async () => {
+    await updatePantryItem(client, "p1", { quantity: 1 });
+    await deletePantryItem(client, "p1");
+    expect(client.from).toHaveBeenCalledWith("pantry_items");
+  });
+
+  it("deletePantryItem throws on database error", async () => {
+    client._setTableResponse("pantry_items", null, { message: "Delete failed", code: "500" });
+    await expect(deletePantryItem(client, "p1")).rejects.toBeTruthy();
+  });
+});
+
+// ======================== INGREDIENT PRICES ========================
+
+describe("Service Layer – Ingredient Prices", () => {
+  let client: ReturnType<typeof createMockClient>;
+
+  const priceRow = {
+    id: "ip1", name: "chicken thigh", store: "", price: 7.98, quantity: 2, unit: "lb",
+    updated_at: "2026-10-01T00:00:00Z",
+  };
+
+  beforeEach(() => {
+    client = createMockClient();
+  });
+
+  it("fetchIngredientPrices maps an empty store to null", async () => {
+    client._setTableResponse("ingredient_prices", [priceRow, { ...priceRow, id: "ip2", store: "Costco" }]);
+
+    const prices = await fetchIngredientPrices(client);
+
+    expect(prices[0]).toEqual({
+      id: "ip1", name: "chicken thigh", store: null, price: 7.98, quantity: 2, unit: "lb",
+      updatedAt: "2026-10-01T00:00:00Z",
+    });
+    expect(prices[1].store).toBe("Costco");
+  });
+
+  it("saveIngredientPrice upserts one row per ingredient and store", async () => {
+    client._setTableResponse("ingredient_prices", priceRow);
+
+    await saveIngredientPrice(client, { name: "chicken thigh", store: null, price: 7.98, quantity: 2, unit: "lb" });
+
+    const upsert = client.from("ingredient_prices").upsert;
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: "user-123", name: "chicken thigh", store: "" }),
+      { onConflict: "user_id,name,store" },
+    );
+  });
+
+  it("saveIngredientPrice rejects a zero quantity", async () => {
+    await expect(
+      saveIngredientPrice(client, { name: "egg", store: null, price: 3, quantity: 0, unit: null }),
+    ).rejects.toThrow("quantity positive");
+  });
+
+  it("recordPricePaid appends to history and updates the current price", async () => {
+    client._setTableResponse("ingredient_prices", { ...priceRow, store: "Costco" });
+
+    const price = await recordPricePaid(client, {
+      name: "chicken thigh", store: "Costco", price: 7.98, quantity: 2, unit: "lb",
+    });
+
+    expect(client.from("price_history").insert).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "chicken thigh", store: "Costco", price: 7.98 }),
+    );
+    expect(price.store).toBe("Costco");
+  });
+
+  it("recordPricePaid throws when the history insert fails", async () => {
+    client._setTableResponse("price_history", null, { message: "Insert failed", code: "500" });
+    await expect(
+      recordPricePaid(client, { name: "egg", store: null, price: 3, quantity: 12, unit: null }),
+    ).rejects.toBeTruthy();
+    expect(client.from).not.toHaveBeenCalledWith("ingredient_prices");
+  });
+
+  it("fetchPriceHistory and deleteIngredientPrice query their tables", async () => {
+    client._setTableResponse("price_history", [
+      { id: "h1", name: "egg", store: "", price: 3.49, quantity: 12, unit: null, recorded_at: "2026-10-01T00:00:00Z" },
+    ]);
+
+    const history = await fetchPriceHistory(client, "egg");
+    await deleteIngredientPrice(client, "ip1");
+
+    expect(history).toEqual([
+      { id: "h1", name: "egg", store: null, price: 3.49, quantity: 12, unit: null, recordedAt: "2026-10-01T00:00:00Z" },
+    ]);
+    expect(client.from).toHaveBeenCalledWith("ingredient_prices");
+  });
+});
+
+// ======================== GROCERY STORES ========================
+
+describe("Service Layer – Grocery Stores", () => {
+  let client: ReturnType<typeof createMockClient>;
+
+  const storeRow = {
+    id: "s1", user_id: "user-123", name: "Costco", aisle_order: ["Dairy & Eggs", "Produce"], sort_order: 0,
+    created_at: "2026-10-01T00:00:00Z", updated_at: "2026-10-01T00:00:00Z",
+  };
+
+  beforeEach(() => {
+    client = createMockClient();
+  });
+
+  it("fetchGroceryStores maps rows in sort order", async () => {
+    client._setTableResponse("grocery_stores", [storeRow]);
+
+    const stores = await fetchGroceryStores(client);
+
+    expect(stores).toEqual([{ id: "s1", name: "Costco", aisleOrder: ["Dairy & Eggs", "Produce"], sortOrder: 0 }]);
+    expect(client.from("grocery_stores").order).toHaveBeenCalledWith("sort_order", { ascending: true });
+  });
+
+  it("createGroceryStore inserts the aisle order", async () => {
+    client._setTableResponse("grocery_stores", storeRow);
+
+    await createGroceryStore(client, { name: "Costco", aisleOrder: ["Dairy & Eggs", "Produce"], sortOrder: 0 });
+
+    expect(client.from("grocery_stores").insert).toHaveBeenCalledWith({
+      user_id: "user-123", name: "Costco", aisle_order: ["Dairy & Eggs", "Produce"], sort_order: 0,
+    });
+  });
+
+  it("updateGroceryStore maps fields to columns", async () => {
+    await updateGroceryStore(client, "s1", { aisleOrder: ["Produce"] });
+
+    expect(client.from("grocery_stores").update).toHaveBeenCalledWith({ aisle_order: ["Produce"] });
+  });
+
+  it("fetchStoreAssignments returns a name → store map", async () => {
+    client._setTableResponse("store_assignments", [
+      { id: "a1", user_id: "user-123", name: "egg", store_id: "s1", created_at: "2026-10-01T00:00:00Z" },
+    ]);
+
+    expect(await fetchStoreAssignments(client)).toEqual({ egg: "s1" });
+  });
+
+  it("assignItemToStore upserts, or deletes for no store", async () => {
+    await assignItemToStore(client, "egg", "s1");
+    expect(client.from("store_assignments").upsert).toHaveBeenCalledWith(
+      { user_id: "user-123", name: "egg", store_id: "s1" },
+      { onConflict: "user_id,name" },
+    );
+
+    await assignItemToStore(client, "egg", null);
+    expect(client.from("store_assignments").delete).toHaveBeenCalled();
+  });
+});
+
 // ======================== CHECKED INGREDIENTS ========================
 
 describe("Service Layer – Checked Ingredients", () => {
@@ -643,7 +1121,7 @@ describe("Service Layer – Checked Ingredients", () => {
       { recipe_id: "r2", ingredient_index: 1, user_id: "user-123" },
     ]);
 
-    const result = await fetchCheckedIngredients(client as any);
+    const result = await fetchCheckedIngredients(client);
 
     expect(client.from).toHaveBeenCalledWith("checked_ingredients");
     expect(result["r1"]).toEqual([0, 2]);
@@ -651,22 +1129,22 @@ describe("Service Layer – Checked Ingredients", () => {
   });
 
   it("fetchCheckedIngredients returns empty object when no data", async () => {
-    const result = await fetchCheckedIngredients(client as any);
+    const result = await fetchCheckedIngredients(client);
     expect(result).toEqual({});
   });
 
   it("toggleIngredient inserts when checked=true", async () => {
-    await toggleIngredient(client as any, "recipe-1", 2, true);
+    await toggleIngredient(client, "recipe-1", 2, true);
     expect(client.from).toHaveBeenCalledWith("checked_ingredients");
   });
 
   it("toggleIngredient deletes when checked=false", async () => {
-    await toggleIngredient(client as any, "recipe-1", 2, false);
+    await toggleIngredient(client, "recipe-1", 2, false);
     expect(client.from).toHaveBeenCalledWith("checked_ingredients");
   });
 
   it("clearCheckedIngredients deletes all for a recipe", async () => {
-    await clearCheckedIngredients(client as any, "recipe-1");
+    await clearCheckedIngredients(client, "recipe-1");
     expect(client.from).toHaveBeenCalledWith("checked_ingredients");
   });
 });
@@ -686,11 +1164,12 @@ describe("Service Layer – Profile", () => {
       email: "test@example.com",
       display_name: "Test User",
       avatar_url: "https://example.com/avatar.png",
+      dietary_restrictions: ["nuts", "vegetarian"],
       created_at: "2026-01-01T00:00:00Z",
       updated_at: "2026-01-15T00:00:00Z",
     });
 
-    const profile = await fetchProfile(client as any);
+    const profile = await fetchProfile(client);
 
     expect(client.from).toHaveBeenCalledWith("profiles");
     expect(profile.id).toBe("user-123");
@@ -698,6 +1177,7 @@ describe("Service Layer – Profile", () => {
     // Verify snake_case → camelCase transformations
     expect(profile.displayName).toBe("Test User");
     expect(profile.avatarUrl).toBe("https://example.com/avatar.png");
+    expect(profile.dietaryRestrictions).toEqual(["nuts", "vegetarian"]);
     expect(profile.createdAt).toBe("2026-01-01T00:00:00Z");
     expect(profile.updatedAt).toBe("2026-01-15T00:00:00Z");
   });
@@ -707,11 +1187,11 @@ describe("Service Layer – Profile", () => {
       data: { user: null },
     });
 
-    await expect(fetchProfile(client as any)).rejects.toThrow("Not authenticated");
+    await expect(fetchProfile(client)).rejects.toThrow("Not authenticated");
   });
 
   it("updateProfile calls from('profiles').update() with mapped fields", async () => {
-    await updateProfile(client as any, {
+    await updateProfile(client, {
       display_name: "New Name",
       avatar_url: "https://example.com/avatar.png",
     });
@@ -719,13 +1199,193 @@ describe("Service Layer – Profile", () => {
     expect(client.from).toHaveBeenCalledWith("profiles");
   });
 
+  it("updateProfile saves dietary restrictions", async () => {
+    await updateProfile(client, { dietary_restrictions: ["nuts"] });
+
+    expect(client.from("profiles").update).toHaveBeenCalledWith({ dietary_restrictions: ["nuts"] });
+  });
+
   it("updateProfile handles empty updates", async () => {
-    await updateProfile(client as any, {});
+    await updateProfile(client, {});
     expect(client.from).toHaveBeenCalledWith("profiles");
   });
 
 });
 
+// ======================== HOUSEHOLD ========================
+
+describe("Service Layer – Household", () => {
+  let client: ReturnType<typeof createMockClient>;
+
+  beforeEach(() => {
+    client = createMockClient();
+    client._setTableResponse("household_members", { household_id: "household-1" });
+  });
+
+  it("scopes the meal plan and lists by household", async () => {
+    await fetchMealPlan(client, "2026-02-22", "2026-02-28");
+    await clearCheckedGroceryItems(client);
+
+    expect(client.from("household_members").eq).toHaveBeenCalledWith("user_id", "user-123");
+    expect(client.from("meal_plans").eq).toHaveBeenCalledWith("household_id", "household-1");
+    expect(client.from("meal_plans").eq).not.toHaveBeenCalledWith("user_id", "user-123");
+    expect(client.from("grocery_items").eq).toHaveBeenCalledWith("household_id", "household-1");
+  });
+
+  it("records who added a shared list item", async () => {
+    client._setTableResponse("shopping_items", { id: "item-1", text: "Milk", checked: false, recipe_id: null });
+
+    await addShoppingItem(client, "Milk");
+
+    expect(client.from("shopping_items").insert).toHaveBeenCalledWith({
+      household_id: "household-1",
+      user_id: "user-123",
+      text: "Milk",
+      checked: false,
+    });
+  });
+
+  it("fetchRecipes loads only the user's own recipes", async () => {
+    await fetchRecipes(client);
+
+    expect(client.from("recipes").eq).toHaveBeenCalledWith("user_id", "user-123");
+    expect(client.from).not.toHaveBeenCalledWith("household_members");
+  });
+
+  it("fetchHouseholdRecipes loads housemates' recipes by id, with their owner", async () => {
+    client._setTableResponse("recipes", [
+      { id: "r9", user_id: "user-456", title: "Curry", image: null, source_url: "", created_at: "2026-01-01T00:00:00Z" },
+    ]);
+
+    const recipes = await fetchHouseholdRecipes(client, ["r9"]);
+
+    expect(client.from("recipes").in).toHaveBeenCalledWith("id", ["r9"]);
+    expect(client.from("recipes").neq).toHaveBeenCalledWith("user_id", "user-123");
+    expect(recipes[0]).toMatchObject({ id: "r9", ownerId: "user-456", title: "Curry" });
+  });
+
+  it("fetchHouseholdRecipes skips the query without ids", async () => {
+    expect(await fetchHouseholdRecipes(client, [])).toEqual([]);
+    expect(client.from).not.toHaveBeenCalled();
+  });
+
+  it("throws when the user has no household", async () => {
+    client._setTableResponse("household_members", null, { message: "No rows", code: "PGRST116" });
+    await expect(fetchShoppingList(client)).rejects.toBeTruthy();
+  });
+
+  it("fetchHousehold maps members with their profile names", async () => {
+    client._setTableResponse("households", {
+      id: "household-1", name: "The Smiths", invite_code: "a1b2c3d4e5",
+      created_at: "2026-01-01T00:00:00Z", updated_at: "2026-01-01T00:00:00Z",
+    });
+    client._setTableResponses("household_members", [
+      { data: { household_id: "household-1" }, error: null },
+      {
+        data: [
+          { id: "m1", household_id: "household-1", user_id: "user-123", role: "owner", joined_at: "2026-01-01T00:00:00Z" },
+          { id: "m2", household_id: "household-1", user_id: "user-456", role: "member", joined_at: "2026-02-01T00:00:00Z" },
+        ],
+        error: null,
+      },
+    ]);
+    client._setTableResponse("profiles", [
+      { id: "user-123", display_name: "Sam", email: "sam@example.com" },
+      { id: "user-456", display_name: null, email: "alex@example.com" },
+    ]);
+
+    const household = await fetchHousehold(client);
+
+    expect(household.name).toBe("The Smiths");
+    expect(household.inviteCode).toBe("a1b2c3d4e5");
+    expect(household.members).toEqual([
+      { userId: "user-123", displayName: "Sam", email: "sam@example.com", role: "owner", joinedAt: "2026-01-01T00:00:00Z" },
+      { userId: "user-456", displayName: null, email: "alex@example.com", role: "member", joinedAt: "2026-02-01T00:00:00Z" },
+    ]);
+  });
+
+  it("renameHousehold trims and rejects empty names", async () => {
+    await renameHousehold(client, "  The Smiths ");
+    expect(client.from("households").update).toHaveBeenCalledWith({ name: "The Smiths" });
+    await expect(renameHousehold(client, "   ")).rejects.toThrow("cannot be empty");
+  });
+
+  it("resetHouseholdInviteCode returns the new code", async () => {
+    client._setTableResponse("households", { invite_code: "f0e1d2c3b4" });
+
+    expect(await resetHouseholdInviteCode(client)).toBe("f0e1d2c3b4");
+    const [{ invite_code }] = client.from("households").update.mock.calls[0];
+    expect(invite_code).toMatch(/^[0-9a-f]{10}$/);
+  });
+
+  it("joinHousehold normalizes the invite code", async () => {
+    await joinHousehold(client, " A1B2C3D4E5 ");
+    expect(client.rpc).toHaveBeenCalledWith("join_household", { code: "a1b2c3d4e5" });
+  });
+
+  it("joinHousehold surfaces an unknown code", async () => {
+    client.rpc.mockResolvedValueOnce({ data: null, error: { message: "Invite code not found", code: "P0002" } });
+    await expect(joinHousehold(client, "nope")).rejects.toMatchObject({ code: "P0002" });
+    await expect(joinHousehold(client, " ")).rejects.toThrow("cannot be empty");
+  });
+
+  it("leaveHousehold and removeHouseholdMember call their functions", async () => {
+    await leaveHousehold(client);
+    await removeHouseholdMember(client, "user-456");
+
+    expect(client.rpc).toHaveBeenCalledWith("leave_household");
+    expect(client.rpc).toHaveBeenCalledWith("remove_household_member", { member: "user-456" });
+  });
+});
+
+// ======================== REALTIME ========================
+
+describe("Service Layer – Realtime", () => {
+  it("maps row changes to household changes", () => {
+    const client = createMockClient();
+    const onChange = vi.fn();
+    subscribeToHouseholdChanges(client, onChange);
+
+    client._channel._emit("shopping_items", {
+      eventType: "UPDATE",
+      new: { id: "s1", text: "Milk", checked: true, recipe_id: null },
+      old: { id: "s1" },
+    });
+    client._channel._emit("meal_plans", {
+      eventType: "INSERT",
+      new: { id: "m1", date: "2026-02-22", meal_type: "dinner", recipe_id: "r1", is_leftover: false, position: 2 },
+      old: {},
+    });
+    client._channel._emit("grocery_items", { eventType: "DELETE", new: {}, old: { id: "g1" } });
+
+    expect(onChange.mock.calls.map(([change]) => change)).toEqual([
+      { table: "shopping_items", type: "upsert", item: { id: "s1", text: "Milk", checked: true, recipeId: undefined } },
+      {
+        table: "meal_plans",
+        type: "upsert",
+        date: "2026-02-22",
+        slot: "dinner",
+        entry: { id: "m1", recipeId: "r1", isLeftover: false, position: 2 },
+      },
+      { table: "grocery_items", type: "delete", id: "g1" },
+    ]);
+  });
+
+  it("resyncs on every (re)connect and removes the channel on unsubscribe", () => {
+    const client = createMockClient();
+    const onSubscribed = vi.fn();
+    const unsubscribe = subscribeToHouseholdChanges(client, vi.fn(), onSubscribed);
+
+    client._channel._status("SUBSCRIBED");
+    client._channel._status("CHANNEL_ERROR");
+    client._channel._status("SUBSCRIBED");
+    expect(onSubscribed).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    expect(client.removeChannel).toHaveBeenCalledWith(client._channel);
+  });
+});
+
 // ======================== MEAL TEMPLATES ========================
 
 describe("Service Layer – Meal Templates", () => {
@@ -746,7 +1406,7 @@ describe("Service Layer – Meal Templates", () => {
       },
     ]);
 
-    const templates = await fetchTemplates(client as any);
+    const templates = await fetchTemplates(client);
 
     expect(client.from).toHaveBeenCalledWith("meal_templates");
     expect(templates).toHaveLength(1);
@@ -764,14 +1424,14 @@ describe("Service Layer – Meal Templates", () => {
       created_at: "2026-01-01T00:00:00Z",
     });
 
-    const result = await saveTemplate(client as any, "Week A", { 0: { breakfast: [{ recipeId: "r1", isLeftover: false, position: 0 }], lunch: [], dinner: [], snack: [] } });
+    const result = await saveTemplate(client, "Week A", { 0: { breakfast: [{ recipeId: "r1", isLeftover: false, position: 0 }], lunch: [], dinner: [], snack: [] } });
     expect(client.from).toHaveBeenCalledWith("meal_templates");
     expect(result.name).toBe("Week A");
     expect(result.id).toBe("tmpl-1");
   });
 
   it("deleteTemplate calls from('meal_templates').delete()", async () => {
-    await deleteTemplate(client as any, "tmpl-1");
+    await deleteTemplate(client, "tmpl-1");
     expect(client.from).toHaveBeenCalledWith("meal_templates");
   });
 });
@@ -807,7 +1467,7 @@ describe("Service Layer – Recipe Groups", () => {
       },
     ]);
 
-    const groups = await fetchGroups(client as any);
+    const groups = await fetchGroups(client);
 
     expect(client.from).toHaveBeenCalledWith("recipe_groups");
     expect(groups).toHaveLength(2);
@@ -822,13 +1482,13 @@ describe("Service Layer – Recipe Groups", () => {
   });
 
   it("fetchGroups returns empty array when no groups exist", async () => {
-    const groups = await fetchGroups(client as any);
+    const groups = await fetchGroups(client);
     expect(groups).toEqual([]);
   });
 
   it("fetchGroups throws on database error", async () => {
     client._setTableResponse("recipe_groups", null, { message: "DB error", code: "500" });
-    await expect(fetchGroups(client as any)).rejects.toBeTruthy();
+    await expect(fetchGroups(client)).rejects.toBeTruthy();
   });
 
   it("createGroup inserts and returns a RecipeGroup with correct field mapping", async () => {
@@ -842,7 +1502,7 @@ describe("Service Layer – Recipe Groups", () => {
       user_id: "user-123",
     });
 
-    const group = await createGroup(client as any, "Desserts", "cake");
+    const group = await createGroup(client, "Desserts", "cake");
 
     expect(client.from).toHaveBeenCalledWith("recipe_groups");
     expect(group.id).toBe("g-new");
@@ -863,18 +1523,18 @@ describe("Service Layer – Recipe Groups", () => {
       user_id: "user-123",
     });
 
-    const group = await createGroup(client as any, "Quick Meals");
+    const group = await createGroup(client, "Quick Meals");
 
     expect(group.icon).toBeNull();
   });
 
   it("createGroup throws on database error", async () => {
     client._setTableResponse("recipe_groups", null, { message: "Insert failed", code: "500" });
-    await expect(createGroup(client as any, "Fail")).rejects.toBeTruthy();
+    await expect(createGroup(client, "Fail")).rejects.toBeTruthy();
   });
 
   it("updateGroup calls update with correct snake_case field mapping", async () => {
-    await updateGroup(client as any, "g1", {
+    await updateGroup(client, "g1", {
       name: "Updated Name",
       icon: "new-icon",
       sortOrder: 5,
@@ -884,7 +1544,7 @@ describe("Service Layer – Recipe Groups", () => {
   });
 
   it("updateGroup skips update when no fields provided", async () => {
-    await updateGroup(client as any, "g1", {});
+    await updateGroup(client, "g1", {});
     // from should not be called since there are no updates
     // Actually, it's not called at all when Object.keys(dbUpdates).length === 0
     // The function returns early, so from() is only called for getUserId
@@ -893,18 +1553,18 @@ describe("Service Layer – Recipe Groups", () => {
   it("updateGroup throws on database error", async () => {
     client._setTableResponse("recipe_groups", null, { message: "Update failed", code: "500" });
     await expect(
-      updateGroup(client as any, "g1", { name: "Fail" })
+      updateGroup(client, "g1", { name: "Fail" })
     ).rejects.toBeTruthy();
   });
 
   it("deleteGroup calls delete with id and user_id filters", async () => {
-    await deleteGroup(client as any, "g1");
+    await deleteGroup(client, "g1");
     expect(client.from).toHaveBeenCalledWith("recipe_groups");
   });
 
   it("deleteGroup throws on database error", async () => {
     client._setTableResponse("recipe_groups", null, { message: "Delete failed", code: "500" });
-    await expect(deleteGroup(client as any, "g1")).rejects.toBeTruthy();
+    await expect(deleteGroup(client, "g1")).rejects.toBeTruthy();
   });
 });
 
@@ -927,7 +1587,7 @@ describe("Service Layer – Recipe Group Members", () => {
       { id: "m2", group_id: "g2", recipe_id: "r2", added_at: "2026-01-02T00:00:00Z" },
     ]);
 
-    const members = await fetchGroupMembers(client as any);
+    const members = await fetchGroupMembers(client);
 
     expect(client.from).toHaveBeenCalledWith("recipe_groups");
     expect(client.from).toHaveBeenCalledWith("recipe_group_members");
@@ -940,13 +1600,13 @@ describe("Service Layer – Recipe Group Members", () => {
   });
 
   it("fetchGroupMembers returns empty array when user has no groups", async () => {
-    const members = await fetchGroupMembers(client as any);
+    const members = await fetchGroupMembers(client);
     expect(members).toEqual([]);
   });
 
   it("fetchGroupMembers throws on groups query error", async () => {
     client._setTableResponse("recipe_groups", null, { message: "DB error", code: "500" });
-    await expect(fetchGroupMembers(client as any)).rejects.toBeTruthy();
+    await expect(fetchGroupMembers(client)).rejects.toBeTruthy();
   });
 
   it("addRecipeToGroup verifies group ownership then inserts member", async () => {
@@ -958,7 +1618,7 @@ describe("Service Layer – Recipe Group Members", () => {
       added_at: "2026-02-01T00:00:00Z",
     });
 
-    const member = await addRecipeToGroup(client as any, "g1", "r1");
+    const member = await addRecipeToGroup(client, "g1", "r1");
 
     expect(client.from).toHaveBeenCalledWith("recipe_groups");
     expect(client.from).toHaveBeenCalledWith("recipe_group_members");
@@ -977,7 +1637,7 @@ describe("Service Layer – Recipe Group Members", () => {
       added_at: "2026-01-15T00:00:00Z",
     });
 
-    const member = await addRecipeToGroup(client as any, "g1", "r1");
+    const member = await addRecipeToGroup(client, "g1", "r1");
 
     // Should return the existing member without attempting a second insert
     expect(member.id).toBe("existing-m1");
@@ -989,14 +1649,14 @@ describe("Service Layer – Recipe Group Members", () => {
     client._setTableResponse("recipe_groups", null, { message: "Not found", code: "PGRST116" });
 
     await expect(
-      addRecipeToGroup(client as any, "nonexistent", "r1")
+      addRecipeToGroup(client, "nonexistent", "r1")
     ).rejects.toThrow("Group not found");
   });
 
   it("removeRecipeFromGroup verifies group ownership then deletes member", async () => {
     client._setTableResponse("recipe_groups", { id: "g1" });
 
-    await removeRecipeFromGroup(client as any, "g1", "r1");
+    await removeRecipeFromGroup(client, "g1", "r1");
 
     expect(client.from).toHaveBeenCalledWith("recipe_groups");
     expect(client.from).toHaveBeenCalledWith("recipe_group_members");
@@ -1006,11 +1666,92 @@ describe("Service Layer – Recipe Group Members", () => {
     client._setTableResponse("recipe_groups", null, { message: "Not found", code: "PGRST116" });
 
     await expect(
-      removeRecipeFromGroup(client as any, "nonexistent", "r1")
+      removeRecipeFromGroup(client, "nonexistent", "r1")
     ).rejects.toThrow("Group not found");
   });
 });
 
+// ======================== SHARE LINKS ========================
+
+describe("Service Layer – Share Links", () => {
+  let client: ReturnType<typeof createMockClient>;
+  const token = "0123456789abcdef0123456789abcdef";
+
+  beforeEach(() => {
+    client = createMockClient();
+  });
+
+  it("fetchShareToken looks up the user's link for the target", async () => {
+    client._setTableResponse("recipe_shares", { token });
+
+    expect(await fetchShareToken(client, { type: "group", id: "g1" })).toBe(token);
+    const chain = client.from("recipe_shares");
+    expect(chain.eq).toHaveBeenCalledWith("user_id", "user-123");
+    expect(chain.eq).toHaveBeenCalledWith("group_id", "g1");
+  });
+
+  it("createShareLink reuses an existing link", async () => {
+    client._setTableResponse("recipe_shares", { token });
+
+    expect(await createShareLink(client, { type: "recipe", id: "r1" })).toBe(token);
+    expect(client.from("recipe_shares").insert).not.toHaveBeenCalled();
+  });
+
+  it("createShareLink inserts a new unguessable token", async () => {
+    client._setTableResponses("recipe_shares", [
+      { data: null, error: null },
+      { data: { token }, error: null },
+    ]);
+
+    expect(await createShareLink(client, { type: "recipe", id: "r1" })).toBe(token);
+    const insert = client.from("recipe_shares").insert;
+    const [row] = insert.mock.calls[0];
+    expect(row).toMatchObject({ user_id: "user-123", recipe_id: "r1", group_id: null });
+    expect(row.token).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it("deleteShareLink deletes the user's link for the target", async () => {
+    await deleteShareLink(client, { type: "recipe", id: "r1" });
+
+    const chain = client.from("recipe_shares");
+    expect(chain.delete).toHaveBeenCalled();
+    expect(chain.eq).toHaveBeenCalledWith("recipe_id", "r1");
+  });
+
+  it("fetchSharedRecipes maps the shared recipes", async () => {
+    client.rpc.mockResolvedValueOnce({
+      data: {
+        kind: "recipe",
+        name: "Pancakes",
+        recipes: [{
+          id: "r1", title: "Pancakes", image: null, source_url: "https://example.com/pancakes",
+          prep_time: "PT10M", cook_time: null, total_time: null, servings: "4", author: "Gran",
+          cuisine_type: null, difficulty: "Easy", created_at: "2026-01-01T00:00:00Z",
+          ingredients: ["2 eggs"], instructions: ["Whisk."], tags: ["breakfast"],
+        }],
+      },
+      error: null,
+    });
+
+    const share = await fetchSharedRecipes(client, token);
+
+    expect(client.rpc).toHaveBeenCalledWith("shared_recipes", { share_token: token });
+    expect(share?.name).toBe("Pancakes");
+    expect(share?.recipes[0]).toMatchObject({
+      id: "r1", sourceUrl: "https://example.com/pancakes", prepTime: "PT10M",
+      author: "Gran", ingredients: ["2 eggs"], tags: ["breakfast"],
+    });
+  });
+
+  it("fetchSharedRecipes returns null for unknown or malformed tokens", async () => {
+    client.rpc.mockResolvedValueOnce({ data: null, error: null });
+    expect(await fetchSharedRecipes(client, token)).toBeNull();
+
+    expect(await fetchSharedRecipes(client, "../../recipes")).toBeNull();
+    expect(client.rpc).toHaveBeenCalledTimes(1);
+  });
+});
+
 // ======================== ensureDefaultGroups ========================
 
 describe("Service Layer – ensureDefaultGroups", () => {
@@ -1033,7 +1774,7 @@ describe("Service Layer – ensureDefaultGroups", () => {
       },
     ]);
 
-    const groups = await ensureDefaultGroups(client as any);
+    const groups = await ensureDefaultGroups(client);
 
     expect(groups).toHaveLength(1);
     expect(groups[0].name).toBe("Favorites");
@@ -1047,7 +1788,7 @@ describe("Service Layer – ensureDefaultGroups", () => {
       { data: { id: "g-new", name: "Favorites", icon: null, sort_order: 0, is_default: true, created_at: "2026-02-01T00:00:00Z", user_id: "user-123" }, error: null }, // insert default
     ]);
 
-    const groups = await ensureDefaultGroups(client as any);
+    const groups = await ensureDefaultGroups(client);
 
     expect(groups).toHaveLength(1);
     expect(groups[0].name).toBe("Favorites");
@@ -1056,7 +1797,7 @@ describe("Service Layer – ensureDefaultGroups", () => {
 
   it("throws on database error when fetching existing groups", async () => {
     client._setTableResponse("recipe_groups", null, { message: "DB error", code: "500" });
-    await expect(ensureDefaultGroups(client as any)).rejects.toBeTruthy();
+    await expect(ensureDefaultGroups(client)).rejects.toBeTruthy();
   });
 });
 
@@ -1071,49 +1812,49 @@ describe("Service Layer – Error Paths", () => {
 
   it("fetchRecipes throws when recipes query returns error", async () => {
     client._setTableResponse("recipes", null, { message: "Connection refused", code: "500" });
-    await expect(fetchRecipes(client as any)).rejects.toBeTruthy();
+    await expect(fetchRecipes(client)).rejects.toBeTruthy();
   });
 
   it("addRecipe throws when recipe insert returns error", async () => {
     client._setTableResponse("recipes", null, { message: "Constraint violation", code: "23505" });
     await expect(
-      addRecipe(client as any, { title: "T", image: null, ingredients: [], instructions: [] }, "url")
+      addRecipe(client, { title: "T", image: null, ingredients: [], instructions: [] }, "url")
     ).rejects.toBeTruthy();
   });
 
   it("deleteRecipe throws when delete returns error", async () => {
     client._setTableResponse("recipes", null, { message: "Foreign key violation", code: "23503" });
-    await expect(deleteRecipe(client as any, "r1")).rejects.toBeTruthy();
+    await expect(deleteRecipe(client, "r1")).rejects.toBeTruthy();
   });
 
   it("updateRecipe throws when update returns error", async () => {
     client._setTableResponse("recipes", null, { message: "Update denied", code: "42501" });
-    await expect(updateRecipe(client as any, "r1", { title: "Fail" })).rejects.toBeTruthy();
+    await expect(updateRecipe(client, "r1", { title: "Fail" })).rejects.toBeTruthy();
   });
 
   it("fetchMealPlan throws when query returns error", async () => {
     client._setTableResponse("meal_plans", null, { message: "Timeout", code: "57014" });
-    await expect(fetchMealPlan(client as any, "2026-01-01", "2026-01-07")).rejects.toBeTruthy();
+    await expect(fetchMealPlan(client, "2026-01-01", "2026-01-07")).rejects.toBeTruthy();
   });
 
   it("assignMeal throws when upsert returns error", async () => {
     client._setTableResponse("meal_plans", null, { message: "Conflict", code: "23505" });
-    await expect(assignMeal(client as any, "2026-01-01", "dinner", "r1")).rejects.toBeTruthy();
+    await expect(assignMeal(client, "2026-01-01", "dinner", "r1")).rejects.toBeTruthy();
   });
 
   it("addShoppingItem throws when insert returns error", async () => {
     client._setTableResponse("shopping_items", null, { message: "Insert failed", code: "500" });
-    await expect(addShoppingItem(client as any, "Milk")).rejects.toBeTruthy();
+    await expect(addShoppingItem(client, "Milk")).rejects.toBeTruthy();
   });
 
   it("fetchGroups throws when query returns error", async () => {
     client._setTableResponse("recipe_groups", null, { message: "Permission denied", code: "42501" });
-    await expect(fetchGroups(client as any)).rejects.toBeTruthy();
+    await expect(fetchGroups(client)).rejects.toBeTruthy();
   });
 
   it("createGroup throws when insert returns error", async () => {
     client._setTableResponse("recipe_groups", null, { message: "Duplicate", code: "23505" });
-    await expect(createGroup(client as any, "Fail")).rejects.toBeTruthy();
+    await expect(createGroup(client, "Fail")).rejects.toBeTruthy();
   });
 });
 
@@ -1127,23 +1868,23 @@ describe("Service Layer – Date Validation (R5-39)", () => {
   });
 
   it("fetchMealPlan throws on invalid startDate format", async () => {
-    await expect(fetchMealPlan(client as any, "not-a-date", "2026-01-07")).rejects.toThrow("Invalid date format");
+    await expect(fetchMealPlan(client, "not-a-date", "2026-01-07")).rejects.toThrow("Invalid date format");
   });
 
   it("fetchMealPlan throws on invalid endDate format", async () => {
-    await expect(fetchMealPlan(client as any, "2026-01-01", "01/07/2026")).rejects.toThrow("Invalid date format");
+    await expect(fetchMealPlan(client, "2026-01-01", "01/07/2026")).rejects.toThrow("Invalid date format");
   });
 
   it("assignMeal throws on invalid date format", async () => {
-    await expect(assignMeal(client as any, "Jan 1 2026", "dinner", "r1")).rejects.toThrow("Invalid date format");
+    await expect(assignMeal(client, "Jan 1 2026", "dinner", "r1")).rejects.toThrow("Invalid date format");
   });
 
   it("removeMeal throws on invalid date format", async () => {
-    await expect(removeMeal(client as any, "2026/01/01", "dinner", "r1")).rejects.toThrow("Invalid date format");
+    await expect(removeMeal(client, "2026/01/01", "dinner", "r1")).rejects.toThrow("Invalid date format");
   });
 
   it("clearWeek throws on any invalid date in the array", async () => {
-    await expect(clearWeek(client as any, ["2026-01-01", "bad"])).rejects.toThrow("Invalid date format");
+    await expect(clearWeek(client, ["2026-01-01", "bad"])).rejects.toThrow("Invalid date format");
   });
 });
 
@@ -1158,7 +1899,7 @@ describe("Service Layer – Shopping Item Text Length (R5-48)", () => {
 
   it("addShoppingItem throws when text exceeds 500 characters", async () => {
     const longText = "a".repeat(501);
-    await expect(addShoppingItem(client as any, longText)).rejects.toThrow("Shopping item text exceeds 500 character limit");
+    await expect(addShoppingItem(client, longText)).rejects.toThrow("Shopping item text exceeds 500 character limit");
   });
 
   it("addShoppingItem allows text of exactly 500 characters", async () => {
@@ -1168,7 +1909,7 @@ describe("Service Layer – Shopping Item Text Length (R5-48)", () => {
       checked: false,
       recipe_id: null,
     });
-    const item = await addShoppingItem(client as any, "a".repeat(500));
+    const item = await addShoppingItem(client, "a".repeat(500));
     expect(item.text).toBe("a".repeat(500));
   });
 
@@ -1177,11 +1918,141 @@ describe("Service Layer – Shopping Item Text Length (R5-48)", () => {
       { text: "short", checked: false },
       { text: "b".repeat(501), checked: false },
     ];
-    await expect(restoreShoppingItems(client as any, items)).rejects.toThrow("Shopping item text exceeds 500 character limit");
+    await expect(restoreShoppingItems(client, items)).rejects.toThrow("Shopping item text exceeds 500 character limit");
   });
 
   it("generateShoppingList throws when any item text exceeds 500 characters", async () => {
     const items = [{ text: "c".repeat(501), recipeId: "r1" }];
-    await expect(generateShoppingList(client as any, items)).rejects.toThrow("Shopping item text exceeds 500 character limit");
+    await expect(generateShoppingList(client, items)).rejects.toThrow("Shopping item text exceeds 500 character limit");
+  });
+});
+
+// ======================== ACCOUNT BACKUP ========================
+
+describe("Service Layer – Account Backup", () => {
+  let client: ReturnType<typeof createMockClient>;
+
+  beforeEach(() => {
+    client = createMockClient();
+  });
+
+  const recipeRow = {
+    id: "r1", user_id: "user-123", title: "Toast", image: null, source_url: "",
+    prep_time: null, cook_time: null, total_time: null, servings: "1", author: null,
+    cuisine_type: null, difficulty: null, rating: 4, is_favorite: true, notes: null,
+    allergens: ["gluten"], diets: ["vegetarian", "vegan"],
+    created_at: "2026-01-01T00:00:00Z", updated_at: "2026-01-02T00:00:00Z",
+  };
+
+  it("exportAccountData nests recipe children and group members", async () => {
+    client._setTableResponse("recipes", [recipeRow]);
+    client._setTableResponse("recipe_ingredients", [
+      { id: "i1", recipe_id: "r1", text: "1 slice bread", sort_order: 0 },
+    ]);
+    client._setTableResponse("recipe_instructions", [
+      { id: "s1", recipe_id: "r1", text: "Toast it.", sort_order: 0 },
+    ]);
+    client._setTableResponse("recipe_tags", [{ id: "t1", recipe_id: "r1", tag: "Breakfast" }]);
+    client._setTableResponse("recipe_groups", [
+      { id: "g1", user_id: "user-123", name: "Favorites", icon: "heart", sort_order: 0, is_default: true, created_at: "2026-01-01T00:00:00Z", updated_at: "2026-01-01T00:00:00Z" },
+    ]);
+    client._setTableResponse("recipe_group_members", [
+      { id: "m1", group_id: "g1", recipe_id: "r1", added_at: "2026-01-03T00:00:00Z" },
+    ]);
+
+    const backup = await exportAccountData(client);
+
+    expect(backup.version).toBe(1);
+    expect(backup.recipes[0]).toMatchObject({
+      id: "r1",
+      title: "Toast",
+      rating: 4,
+      allergens: ["gluten"],
+      diets: ["vegetarian", "vegan"],
+      ingredients: ["1 slice bread"],
+      instructions: ["Toast it."],
+      tags: ["Breakfast"],
+    });
+    expect(backup.recipes[0]).not.toHaveProperty("user_id");
+    expect(backup.recipe_groups[0].members).toEqual([{ recipe_id: "r1", added_at: "2026-01-03T00:00:00Z" }]);
+  });
+
+  it("exportAccountData throws on database error", async () => {
+    client._setTableResponse("meal_plans", null, { message: "Query failed", code: "500" });
+    await expect(exportAccountData(client)).rejects.toBeTruthy();
+  });
+
+  const archive = {
+    version: 1 as const,
+    exportedAt: "2026-10-19T00:00:00Z",
+    recipes: [{
+      id: "old-r1", title: "Toast", image: null, source_url: "", prep_time: null, cook_time: null,
+      total_time: null, servings: "1", author: null, cuisine_type: null, difficulty: null, rating: 4,
+      is_favorite: true, notes: null, created_at: "2026-01-01T00:00:00Z",
+      ingredients: ["1 slice bread", "1 tbsp butter"], instructions: ["Toast it."], tags: [],
+    }],
+    meal_plans: [
+      { date: "2026-10-19", meal_type: "breakfast" as const, recipe_id: "old-r1", is_leftover: false, position: 0 },
+      { date: "2026-10-19", meal_type: "lunch" as const, recipe_id: "missing", is_leftover: false, position: 0 },
+    ],
+    meal_templates: [
+      { name: "Week", template: { "0": { breakfast: [{ recipeId: "old-r1", isLeftover: false, position: 0 }] } }, created_at: "2026-01-01T00:00:00Z" },
+    ],
+    shopping_items: [{ text: "bread", checked: false, recipe_id: "old-r1" }],
+    grocery_items: [],
+    pantry_items: [],
+    checked_ingredients: [],
+    recipe_groups: [],
+    ingredient_prices: [{ name: "bread", store: "", price: 3.49, quantity: 1, unit: null }],
+    price_history: [],
+    grocery_stores: [{ name: "Costco", aisle_order: ["Dairy & Eggs"], sort_order: 0, items: ["bread"] }],
+  };
+
+  it("restoreAccountData hands the remapped archive to restore_account_data in one call", async () => {
+    await restoreAccountData(client, archive);
+
+    expect(client.rpc).toHaveBeenCalledTimes(1);
+    const [fn, { payload }] = client.rpc.mock.calls[0];
+    const newId = payload.recipes[0].id;
+
+    expect(fn).toBe("restore_account_data");
+    // Nothing is deleted or inserted from the client
+    expect(client.from).not.toHaveBeenCalled();
+    expect(newId).not.toBe("old-r1");
+    expect(payload.recipes[0].user_id).toBeUndefined();
+    expect(payload.recipe_ingredients).toEqual([
+      { recipe_id: newId, text: "1 slice bread", sort_order: 0 },
+      { recipe_id: newId, text: "1 tbsp butter", sort_order: 1 },
+    ]);
+    expect(payload.meal_plans).toHaveLength(1);
+    expect(payload.meal_plans[0].recipe_id).toBe(newId);
+    expect(payload.meal_templates[0].template["0"].breakfast[0].recipeId).toBe(newId);
+    expect(payload.shopping_items[0].recipe_id).toBe(newId);
+    expect(payload.ingredient_prices).toEqual([
+      { name: "bread", store: "", price: 3.49, quantity: 1, unit: null },
+    ]);
+    expect(payload.store_assignments).toEqual([
+      { name: "bread", store_id: payload.grocery_stores[0].id },
+    ]);
+    expect(payload.recipe_tags).toEqual([]);
+  });
+
+  it("restoreAccountData keeps the archive's dietary classification, or classifies older archives", async () => {
+    await restoreAccountData(client, {
+      ...archive,
+      recipes: [
+        { ...archive.recipes[0], allergens: ["gluten"], diets: ["vegetarian"] },
+        { ...archive.recipes[0], id: "old-r2" },
+      ],
+    });
+
+    const { payload } = client.rpc.mock.calls[0][1];
+    expect(payload.recipes[0]).toMatchObject({ allergens: ["gluten"], diets: ["vegetarian"] });
+    expect(payload.recipes[1]).toMatchObject({ allergens: ["gluten", "dairy"], diets: ["vegetarian"] });
+  });
+
+  it("restoreAccountData throws when the restore fails", async () => {
+    client.rpc.mockResolvedValue({ data: null, error: { message: "insert failed" } });
+    await expect(restoreAccountData(client, archive)).rejects.toEqual({ message: "insert failed" });
   });
 });
@@ -1,9 +1,20 @@
-import type { SupabaseClient } from "@supabase/supabase-js";
-import type { Database } from "@/types/supabase";
-import type { Recipe, MealPlan, MealPlanDay, MealSlot, MealSlotEntry, MealTemplate, ShoppingItem, GroceryItem, ScrapedRecipe, Profile, RecipeGroup, RecipeGroupMember } from "@/types";
+import { isAuthRetryableFetchError, type RealtimePostgresChangesPayload, type SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@/types/supabase";
+import { ACCOUNT_BACKUP_VERSION, type AccountBackup } from "@/lib/schemas";
+import type { SearchQuery } from "@/lib/recipe-search";
+import { classifyIngredients } from "@/lib/dietary";
+import { recipeSnapshot, sameSnapshot, SNAPSHOT_FIELDS } from "@/lib/recipe-revisions";
+import type { Recipe, MealPlan, MealPlanDay, MealSlot, MealSlotEntry, MealTemplate, ShoppingItem, GroceryItem, PantryItem, IngredientPrice, PriceRecord, GroceryStore, StoreAssignments, ScrapedRecipe, Profile, Household, RecipeGroup, RecipeGroupMember, ShareTarget, SharedRecipes, RecipeRevision, RecipeSnapshot, RevisionKind, Allergen, Diet, DietaryRestriction, SourceDetails, NutritionFacts, RecipeVideo } from "@/types";
 
 type Client = SupabaseClient<Database>;
 type RecipeRow = Database["public"]["Tables"]["recipes"]["Row"];
+type PantryRow = Database["public"]["Tables"]["pantry_items"]["Row"];
+type IngredientPriceRow = Database["public"]["Tables"]["ingredient_prices"]["Row"];
+type PriceHistoryRow = Database["public"]["Tables"]["price_history"]["Row"];
+type GroceryStoreRow = Database["public"]["Tables"]["grocery_stores"]["Row"];
+type MealPlanRow = Database["public"]["Tables"]["meal_plans"]["Row"];
+type ShoppingItemRow = Database["public"]["Tables"]["shopping_items"]["Row"];
+type GroceryItemRow = Database["public"]["Tables"]["grocery_items"]["Row"];
 
 // ============================================================
 // Helpers
@@ -24,6 +35,7 @@ function rowToRecipe(
 ): Recipe {
   return {
     id: row.id,
+    ownerId: row.user_id,
     title: row.title,
     image: row.image,
     ingredients,
@@ -41,19 +53,131 @@ function rowToRecipe(
     rating: row.rating,
     isFavorite: row.is_favorite,
     notes: row.notes,
+    allergens: row.allergens as Allergen[] | null,
+    diets: row.diets as Diet[] | null,
+    description: row.description,
+    nutrition: row.nutrition as NutritionFacts | null,
+    categories: row.categories,
+    keywords: row.keywords,
+    suitableForDiet: row.suitable_for_diet,
+    video: row.video as unknown as RecipeVideo | null,
+    aggregateRating:
+      row.aggregate_rating != null
+        ? { value: Number(row.aggregate_rating), count: row.aggregate_rating_count }
+        : null,
+  };
+}
+
+/** The recipes columns for what the source page published; missing details are null. */
+function sourceDetailColumns(details: SourceDetails) {
+  return {
+    description: details.description ?? null,
+    nutrition: (details.nutrition ?? null) as Record<string, unknown> | null,
+    categories: details.categories ?? null,
+    keywords: details.keywords ?? null,
+    suitable_for_diet: details.suitableForDiet ?? null,
+    video: (details.video ?? null) as unknown as Record<string, unknown> | null,
+    aggregate_rating: details.aggregateRating?.value ?? null,
+    aggregate_rating_count: details.aggregateRating?.count ?? null,
+  };
+}
+
+function rowToMealSlotEntry(row: MealPlanRow): MealSlotEntry {
+  return {
+    id: row.id,
+    recipeId: row.recipe_id,
+    isLeftover: row.is_leftover,
+    position: row.position,
+  };
+}
+
+function rowToShoppingItem(row: ShoppingItemRow): ShoppingItem {
+  return {
+    id: row.id,
+    text: row.text,
+    checked: row.checked,
+    recipeId: row.recipe_id ?? undefined,
+  };
+}
+
+function rowToGroceryItem(row: GroceryItemRow): GroceryItem {
+  return {
+    id: row.id,
+    text: row.text,
+    checked: row.checked,
+  };
+}
+
+function rowToPantryItem(row: PantryRow): PantryItem {
+  return {
+    id: row.id,
+    name: row.name,
+    quantity: row.quantity,
+    unit: row.unit,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToIngredientPrice(row: IngredientPriceRow): IngredientPrice {
+  return {
+    id: row.id,
+    name: row.name,
+    store: row.store || null,
+    price: row.price,
+    quantity: row.quantity,
+    unit: row.unit,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToPriceRecord(row: PriceHistoryRow): PriceRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    store: row.store || null,
+    price: row.price,
+    quantity: row.quantity,
+    unit: row.unit,
+    recordedAt: row.recorded_at,
+  };
+}
+
+function rowToGroceryStore(row: GroceryStoreRow): GroceryStore {
+  return {
+    id: row.id,
+    name: row.name,
+    aisleOrder: row.aisle_order,
+    sortOrder: row.sort_order,
   };
 }
 
 async function getUserId(client: Client): Promise<string> {
-  const { data: { user } } = await client.auth.getUser();
+  const { data: { user }, error } = await client.auth.getUser();
+  // A dropped connection isn't a signed-out user: surface it so callers can retry
+  if (!user && isAuthRetryableFetchError(error)) throw error;
   if (!user) throw new Error("Not authenticated");
   return user.id;
 }
 
+/** The signed-in user and the household whose meal plan and lists they share. */
+async function getHouseholdScope(client: Client): Promise<{ userId: string; householdId: string }> {
+  const userId = await getUserId(client);
+
+  const { data, error } = await client
+    .from("household_members")
+    .select("household_id")
+    .eq("user_id", userId)
+    .single();
+
+  if (error) throw error;
+  return { userId, householdId: data.household_id };
+}
+
 // ============================================================
 // RECIPES
 // ============================================================
 
+/** The user's own recipes — the library. See fetchHouseholdRecipes for housemates'. */
 export async function fetchRecipes(client: Client): Promise<Recipe[]> {
   const userId = await getUserId(client);
 
@@ -64,7 +188,48 @@ export async function fetchRecipes(client: Client): Promise<Recipe[]> {
     .order("created_at", { ascending: false });
 
   if (error) throw error;
-  if (!recipes || recipes.length === 0) return [];
+
+  return withRecipeChildren(client, recipes ?? []);
+}
+
+/**
+ * Housemates' recipes among `ids` — the ones a shared meal plan holds that
+ * aren't the user's. They're for showing the plan, not for the library.
+ */
+export async function fetchHouseholdRecipes(client: Client, ids: string[]): Promise<Recipe[]> {
+  if (ids.length === 0) return [];
+  const userId = await getUserId(client);
+
+  // RLS limits this to the household's recipes
+  const { data: recipes, error } = await client
+    .from("recipes")
+    .select("*")
+    .in("id", ids)
+    .neq("user_id", userId);
+
+  if (error) throw error;
+
+  return withRecipeChildren(client, recipes ?? []);
+}
+
+/** One recipe the user can see (theirs or a housemate's), or null. */
+export async function fetchRecipe(client: Client, id: string): Promise<Recipe | null> {
+  const { data, error } = await client
+    .from("recipes")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const [recipe] = await withRecipeChildren(client, [data]);
+  return recipe;
+}
+
+/** Loads ingredients, instructions and tags for recipe rows, keeping their order. */
+async function withRecipeChildren(client: Client, recipes: RecipeRow[]): Promise<Recipe[]> {
+  if (recipes.length === 0) return [];
 
   const recipeIds = recipes.map((r) => r.id);
 
@@ -140,6 +305,8 @@ export async function addRecipe(
       servings: scraped.servings ?? null,
       author: scraped.author ?? null,
       cuisine_type: scraped.cuisineType ?? null,
+      ...sourceDetailColumns(scraped),
+      ...classifyIngredients(scraped.ingredients),
     })
     .select()
     .single();
@@ -173,12 +340,26 @@ export async function addRecipe(
   return rowToRecipe(recipe, scraped.ingredients, scraped.instructions, []);
 }
 
+/**
+ * Apply an edit to one of the user's recipes. Edits to its content (see
+ * SNAPSHOT_FIELDS) are recorded as a revision first; `kind` marks one that
+ * restores an earlier revision.
+ */
 export async function updateRecipe(
   client: Client,
   id: string,
-  updates: Partial<Omit<Recipe, "id" | "createdAt">>
+  updates: Partial<Omit<Recipe, "id" | "createdAt">>,
+  kind: Exclude<RevisionKind, "original"> = "edit"
 ): Promise<void> {
   const userId = await getUserId(client);
+
+  // Recorded before the edit is applied, so a failed revision leaves the recipe untouched
+  if (SNAPSHOT_FIELDS.some((field) => updates[field] !== undefined)) {
+    const current = await fetchRecipe(client, id);
+    if (!current) throw new Error("Recipe not found");
+    const before = recipeSnapshot(current);
+    await recordRevision(client, id, before, recipeSnapshot({ ...before, ...updates }), kind);
+  }
   const dbUpdates: Database["public"]["Tables"]["recipes"]["Update"] = {};
 
   if (updates.title !== undefined) dbUpdates.title = updates.title;
@@ -194,9 +375,19 @@ export async function updateRecipe(
   if (updates.rating !== undefined) dbUpdates.rating = updates.rating ?? null;
   if (updates.isFavorite !== undefined) dbUpdates.is_favorite = updates.isFavorite;
   if (updates.notes !== undefined) dbUpdates.notes = updates.notes ?? null;
+  if (updates.description !== undefined) dbUpdates.description = updates.description ?? null;
 
   // If only sub-tables change (no column updates), verify ownership explicitly (R4-4)
-  if (Object.keys(dbUpdates).length === 0 && (updates.ingredients !== undefined || updates.instructions !== undefined)) {
+  const onlySubTables = Object.keys(dbUpdates).length === 0;
+
+  // The dietary classification follows the ingredients
+  if (updates.ingredients !== undefined) {
+    const { allergens, diets } = classifyIngredients(updates.ingredients);
+    dbUpdates.allergens = allergens;
+    dbUpdates.diets = diets;
+  }
+
+  if (onlySubTables && (updates.ingredients !== undefined || updates.instructions !== undefined)) {
     const { data: owned, error: ownErr } = await client
       .from("recipes")
       .select("id")
@@ -334,6 +525,135 @@ export async function updateRecipeTags(
   }
 }
 
+// ============================================================
+// RECIPE REVISIONS
+// ============================================================
+
+/**
+ * Record `after` as a revision of the recipe. The first time, `before` is
+ * kept as the original too — the recipe as it was saved, however long ago.
+ * Nothing is recorded when the content doesn't change.
+ */
+async function recordRevision(
+  client: Client,
+  recipeId: string,
+  before: RecipeSnapshot,
+  after: RecipeSnapshot,
+  kind: Exclude<RevisionKind, "original">
+): Promise<void> {
+  if (sameSnapshot(before, after)) return;
+  const userId = await getUserId(client);
+
+  const { data: original, error: originalError } = await client
+    .from("recipe_revisions")
+    .select("id")
+    .eq("recipe_id", recipeId)
+    .eq("kind", "original")
+    .maybeSingle();
+
+  if (originalError) throw originalError;
+
+  if (!original) {
+    const { error } = await client.from("recipe_revisions").insert({
+      recipe_id: recipeId,
+      user_id: userId,
+      kind: "original",
+      snapshot: before as unknown as Record<string, unknown>,
+    });
+    // 23505: a concurrent edit recorded the original first
+    if (error && error.code !== "23505") throw error;
+  }
+
+  const { error } = await client.from("recipe_revisions").insert({
+    recipe_id: recipeId,
+    user_id: userId,
+    kind,
+    snapshot: after as unknown as Record<string, unknown>,
+  });
+
+  if (error) throw error;
+}
+
+/** A recipe's revisions, newest first; the original is last. Empty until its first edit. */
+export async function fetchRecipeRevisions(client: Client, recipeId: string): Promise<RecipeRevision[]> {
+  const { data, error } = await client
+    .from("recipe_revisions")
+    .select("*")
+    .eq("recipe_id", recipeId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    recipeId: row.recipe_id,
+    kind: row.kind as RevisionKind,
+    snapshot: recipeSnapshot(row.snapshot as unknown as RecipeSnapshot),
+    createdAt: row.created_at,
+  }));
+}
+
+/** Restore a recipe's content to an earlier revision, itself recorded as a new revision. */
+export async function revertRecipe(client: Client, recipeId: string, revisionId: string): Promise<void> {
+  const { data, error } = await client
+    .from("recipe_revisions")
+    .select("snapshot")
+    .eq("id", revisionId)
+    .eq("recipe_id", recipeId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error("Revision not found");
+
+  await updateRecipe(client, recipeId, recipeSnapshot(data.snapshot as unknown as RecipeSnapshot), "revert");
+}
+
+// ============================================================
+// RECIPE SEARCH
+// ============================================================
+
+/** Free text to rank by, in websearch syntax ("quoted phrases" kept together). */
+function searchRankText(query: SearchQuery): string {
+  return query.terms
+    .filter((t) => !t.negate && (t.field === "any" || t.field === "title"))
+    .map((t) => (/\s/.test(t.value) ? `"${t.value.replace(/"/g, "")}"` : t.value))
+    .join(" ");
+}
+
+/**
+ * Search the user's recipes with the Postgres full-text index (see the
+ * search_recipes function), most relevant first. Only matching recipes are
+ * loaded, so this works without the whole library in memory.
+ */
+export async function searchRecipes(
+  client: Client,
+  query: SearchQuery,
+  limit = 50
+): Promise<Recipe[]> {
+  const { data: hits, error } = await client.rpc("search_recipes", {
+    p_text: searchRankText(query),
+    p_terms: query.terms.map(({ field, value, negate }) => ({ field, value, negate })),
+    p_ranges: query.ranges.map(({ field, op, value, negate }) => ({ field, op, value, negate })),
+    p_favorite: query.favorite,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  if (!hits || hits.length === 0) return [];
+
+  const ids = hits.map((h) => h.id);
+  const { data: rows, error: rowsError } = await client
+    .from("recipes")
+    .select("*")
+    .in("id", ids);
+
+  if (rowsError) throw rowsError;
+
+  const rank = new Map(ids.map((id, i) => [id, i]));
+  const ordered = [...(rows ?? [])].sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
+  return withRecipeChildren(client, ordered);
+}
+
 // ============================================================
 // MEAL PLAN
 // ============================================================
@@ -345,12 +665,12 @@ export async function fetchMealPlan(
 ): Promise<MealPlan> {
   assertISODate(startDate);
   assertISODate(endDate);
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
 
   const { data, error } = await client
     .from("meal_plans")
     .select("*")
-    .eq("user_id", userId)
+    .eq("household_id", householdId)
     .gte("date", startDate)
     .lte("date", endDate)
     .order("position", { ascending: true });
@@ -363,11 +683,7 @@ export async function fetchMealPlan(
       plan[row.date] = { breakfast: [], lunch: [], dinner: [], snack: [] };
     }
     const slot = row.meal_type as MealSlot;
-    plan[row.date][slot].push({
-      recipeId: row.recipe_id,
-      isLeftover: row.is_leftover,
-      position: row.position,
-    });
+    plan[row.date][slot].push(rowToMealSlotEntry(row));
   }
   return plan;
 }
@@ -380,13 +696,13 @@ export async function assignMeal(
   isLeftover: boolean = false
 ): Promise<void> {
   assertISODate(date);
-  const userId = await getUserId(client);
+  const { userId, householdId } = await getHouseholdScope(client);
 
   // Check if this recipe is already in this slot
   const { data: existing } = await client
     .from("meal_plans")
     .select("id")
-    .eq("user_id", userId)
+    .eq("household_id", householdId)
     .eq("date", date)
     .eq("meal_type", slot)
     .eq("recipe_id", recipeId)
@@ -404,7 +720,7 @@ export async function assignMeal(
     const { data: maxPos } = await client
       .from("meal_plans")
       .select("position")
-      .eq("user_id", userId)
+      .eq("household_id", householdId)
       .eq("date", date)
       .eq("meal_type", slot)
       .order("position", { ascending: false })
@@ -415,6 +731,7 @@ export async function assignMeal(
     const { error } = await client
       .from("meal_plans")
       .insert({
+        household_id: householdId,
         user_id: userId,
         date,
         meal_type: slot,
@@ -437,12 +754,12 @@ export async function removeMeal(
   recipeId: string
 ): Promise<void> {
   assertISODate(date);
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
 
   const { error } = await client
     .from("meal_plans")
     .delete()
-    .eq("user_id", userId)
+    .eq("household_id", householdId)
     .eq("date", date)
     .eq("meal_type", slot)
     .eq("recipe_id", recipeId);
@@ -455,12 +772,12 @@ export async function clearWeek(
   weekDates: string[]
 ): Promise<void> {
   for (const d of weekDates) assertISODate(d);
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
 
   const { error } = await client
     .from("meal_plans")
     .delete()
-    .eq("user_id", userId)
+    .eq("household_id", householdId)
     .in("date", weekDates);
 
   if (error) throw error;
@@ -539,21 +856,16 @@ export async function deleteTemplate(
 export async function fetchShoppingList(
   client: Client
 ): Promise<ShoppingItem[]> {
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
 
   const { data, error } = await client
     .from("shopping_items")
     .select("*")
-    .eq("user_id", userId);
+    .eq("household_id", householdId);
 
   if (error) throw error;
 
-  return (data ?? []).map((row) => ({
-    id: row.id,
-    text: row.text,
-    checked: row.checked,
-    recipeId: row.recipe_id ?? undefined,
-  }));
+  return (data ?? []).map(rowToShoppingItem);
 }
 
 export async function addShoppingItem(
@@ -565,22 +877,17 @@ export async function addShoppingItem(
     throw new Error("Shopping item text exceeds 500 character limit");
   }
 
-  const userId = await getUserId(client);
+  const { userId, householdId } = await getHouseholdScope(client);
 
   const { data, error } = await client
     .from("shopping_items")
-    .insert({ user_id: userId, text, checked: false })
+    .insert({ household_id: householdId, user_id: userId, text, checked: false })
     .select()
     .single();
 
   if (error) throw error;
 
-  return {
-    id: data.id,
-    text: data.text,
-    checked: data.checked,
-    recipeId: data.recipe_id ?? undefined,
-  };
+  return rowToShoppingItem(data);
 }
 
 export async function toggleShoppingItem(
@@ -588,23 +895,23 @@ export async function toggleShoppingItem(
   id: string,
   checked: boolean
 ): Promise<void> {
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
   const { error } = await client
     .from("shopping_items")
     .update({ checked })
     .eq("id", id)
-    .eq("user_id", userId);
+    .eq("household_id", householdId);
 
   if (error) throw error;
 }
 
 export async function uncheckAllShoppingItems(client: Client): Promise<void> {
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
 
   const { error } = await client
     .from("shopping_items")
     .update({ checked: false })
-    .eq("user_id", userId)
+    .eq("household_id", householdId)
     .eq("checked", true);
 
   if (error) throw error;
@@ -624,12 +931,13 @@ export async function restoreShoppingItems(
     }
   }
 
-  const userId = await getUserId(client);
+  const { userId, householdId } = await getHouseholdScope(client);
 
   const { data, error } = await client
     .from("shopping_items")
     .insert(
       items.map((item) => ({
+        household_id: householdId,
         user_id: userId,
         text: item.text,
         checked: item.checked,
@@ -640,12 +948,7 @@ export async function restoreShoppingItems(
 
   if (error) throw error;
 
-  return (data ?? []).map((row) => ({
-    id: row.id,
-    text: row.text,
-    checked: row.checked,
-    recipeId: row.recipe_id ?? undefined,
-  }));
+  return (data ?? []).map(rowToShoppingItem);
 }
 
 /** Update the text of an existing shopping item (used during ingredient aggregation). */
@@ -657,35 +960,35 @@ export async function updateShoppingItemText(
   if (text.length > 500) {
     throw new Error("Shopping item text exceeds 500 character limit");
   }
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
   const { error } = await client
     .from("shopping_items")
     .update({ text })
     .eq("id", id)
-    .eq("user_id", userId);
+    .eq("household_id", householdId);
 
   if (error) throw error;
 }
 
 export async function clearCheckedItems(client: Client): Promise<void> {
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
 
   const { error } = await client
     .from("shopping_items")
     .delete()
-    .eq("user_id", userId)
+    .eq("household_id", householdId)
     .eq("checked", true);
 
   if (error) throw error;
 }
 
 export async function clearShoppingList(client: Client): Promise<void> {
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
 
   const { error } = await client
     .from("shopping_items")
     .delete()
-    .eq("user_id", userId);
+    .eq("household_id", householdId);
 
   if (error) throw error;
 }
@@ -701,19 +1004,19 @@ export async function generateShoppingList(
     }
   }
 
-  const userId = await getUserId(client);
+  const { userId, householdId } = await getHouseholdScope(client);
 
   // Capture existing items for recovery if insert fails (R5-15)
   const { data: prevItems } = await client
     .from("shopping_items")
     .select("text, checked, recipe_id")
-    .eq("user_id", userId);
+    .eq("household_id", householdId);
 
   // Clear existing items first
   const { error: deleteError } = await client
     .from("shopping_items")
     .delete()
-    .eq("user_id", userId);
+    .eq("household_id", householdId);
 
   if (deleteError) throw deleteError;
 
@@ -723,6 +1026,7 @@ export async function generateShoppingList(
     .from("shopping_items")
     .insert(
       items.map((item) => ({
+        household_id: householdId,
         user_id: userId,
         text: item.text,
         checked: false,
@@ -737,6 +1041,7 @@ export async function generateShoppingList(
       try {
         await client.from("shopping_items").insert(
           prevItems.map((row) => ({
+            household_id: householdId,
             user_id: userId,
             text: row.text,
             checked: row.checked,
@@ -750,12 +1055,7 @@ export async function generateShoppingList(
     throw error;
   }
 
-  return (data ?? []).map((row) => ({
-    id: row.id,
-    text: row.text,
-    checked: row.checked,
-    recipeId: row.recipe_id ?? undefined,
-  }));
+  return (data ?? []).map(rowToShoppingItem);
 }
 
 // ============================================================
@@ -765,21 +1065,17 @@ export async function generateShoppingList(
 export async function fetchGroceryList(
   client: Client
 ): Promise<GroceryItem[]> {
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
 
   const { data, error } = await client
     .from("grocery_items")
     .select("*")
-    .eq("user_id", userId)
+    .eq("household_id", householdId)
     .order("created_at", { ascending: true });
 
   if (error) throw error;
 
-  return (data ?? []).map((row) => ({
-    id: row.id,
-    text: row.text,
-    checked: row.checked,
-  }));
+  return (data ?? []).map(rowToGroceryItem);
 }
 
 export async function addGroceryItem(
@@ -790,21 +1086,17 @@ export async function addGroceryItem(
     throw new Error("Grocery item text exceeds 500 character limit");
   }
 
-  const userId = await getUserId(client);
+  const { userId, householdId } = await getHouseholdScope(client);
 
   const { data, error } = await client
     .from("grocery_items")
-    .insert({ user_id: userId, text, checked: false })
+    .insert({ household_id: householdId, user_id: userId, text, checked: false })
     .select()
     .single();
 
   if (error) throw error;
 
-  return {
-    id: data.id,
-    text: data.text,
-    checked: data.checked,
-  };
+  return rowToGroceryItem(data);
 }
 
 export async function toggleGroceryItem(
@@ -812,46 +1104,46 @@ export async function toggleGroceryItem(
   id: string,
   checked: boolean
 ): Promise<void> {
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
   const { error } = await client
     .from("grocery_items")
     .update({ checked })
     .eq("id", id)
-    .eq("user_id", userId);
+    .eq("household_id", householdId);
 
   if (error) throw error;
 }
 
 export async function clearCheckedGroceryItems(client: Client): Promise<void> {
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
 
   const { error } = await client
     .from("grocery_items")
     .delete()
-    .eq("user_id", userId)
+    .eq("household_id", householdId)
     .eq("checked", true);
 
   if (error) throw error;
 }
 
 export async function clearGroceryList(client: Client): Promise<void> {
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
 
   const { error } = await client
     .from("grocery_items")
     .delete()
-    .eq("user_id", userId);
+    .eq("household_id", householdId);
 
   if (error) throw error;
 }
 
 export async function uncheckAllGroceryItems(client: Client): Promise<void> {
-  const userId = await getUserId(client);
+  const { householdId } = await getHouseholdScope(client);
 
   const { error } = await client
     .from("grocery_items")
     .update({ checked: false })
-    .eq("user_id", userId)
+    .eq("household_id", householdId)
     .eq("checked", true);
 
   if (error) throw error;
@@ -870,12 +1162,13 @@ export async function restoreGroceryItems(
     }
   }
 
-  const userId = await getUserId(client);
+  const { userId, householdId } = await getHouseholdScope(client);
 
   const { data, error } = await client
     .from("grocery_items")
     .insert(
       items.map((item) => ({
+        household_id: householdId,
         user_id: userId,
         text: item.text,
         checked: item.checked,
@@ -885,42 +1178,339 @@ export async function restoreGroceryItems(
 
   if (error) throw error;
 
-  return (data ?? []).map((row) => ({
-    id: row.id,
-    text: row.text,
-    checked: row.checked,
-  }));
+  return (data ?? []).map(rowToGroceryItem);
 }
 
 // ============================================================
-// CHECKED INGREDIENTS
+// PANTRY
 // ============================================================
 
-export async function fetchCheckedIngredients(
-  client: Client
-): Promise<Record<string, number[]>> {
+export async function fetchPantry(client: Client): Promise<PantryItem[]> {
   const userId = await getUserId(client);
 
   const { data, error } = await client
-    .from("checked_ingredients")
+    .from("pantry_items")
     .select("*")
-    .eq("user_id", userId);
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
 
   if (error) throw error;
 
-  const result: Record<string, number[]> = {};
-  for (const row of data ?? []) {
-    if (!result[row.recipe_id]) result[row.recipe_id] = [];
-    result[row.recipe_id].push(row.ingredient_index);
+  return (data ?? []).map(rowToPantryItem);
+}
+
+export async function addPantryItem(
+  client: Client,
+  item: { name: string; quantity: number | null; unit: string | null }
+): Promise<PantryItem> {
+  if (item.name.length > 500) {
+    throw new Error("Pantry item name exceeds 500 character limit");
   }
-  return result;
+
+  const userId = await getUserId(client);
+
+  const { data, error } = await client
+    .from("pantry_items")
+    .insert({ user_id: userId, name: item.name, quantity: item.quantity, unit: item.unit })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return rowToPantryItem(data);
 }
 
-export async function toggleIngredient(
+export async function updatePantryItem(
   client: Client,
-  recipeId: string,
-  index: number,
-  checked: boolean
+  id: string,
+  updates: Partial<Pick<PantryItem, "name" | "quantity" | "unit">>
+): Promise<void> {
+  if (updates.name !== undefined && updates.name.length > 500) {
+    throw new Error("Pantry item name exceeds 500 character limit");
+  }
+
+  const userId = await getUserId(client);
+  const { error } = await client
+    .from("pantry_items")
+    .update(updates)
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+}
+
+export async function deletePantryItem(client: Client, id: string): Promise<void> {
+  const userId = await getUserId(client);
+  const { error } = await client
+    .from("pantry_items")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+}
+
+// ============================================================
+// INGREDIENT PRICES
+// ============================================================
+
+/** Price as entered by the user; `name` should already be normalized. */
+export type IngredientPriceInput = Pick<IngredientPrice, "name" | "store" | "price" | "quantity" | "unit">;
+
+function validatePriceInput(input: IngredientPriceInput): void {
+  if (input.name.length > 500) {
+    throw new Error("Ingredient name exceeds 500 character limit");
+  }
+  if (!(input.price >= 0) || !(input.quantity > 0)) {
+    throw new Error("Price must be non-negative and quantity positive");
+  }
+}
+
+export async function fetchIngredientPrices(client: Client): Promise<IngredientPrice[]> {
+  const userId = await getUserId(client);
+
+  const { data, error } = await client
+    .from("ingredient_prices")
+    .select("*")
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []).map(rowToIngredientPrice);
+}
+
+/** Set the current price for an ingredient at a store, replacing any previous one. */
+export async function saveIngredientPrice(
+  client: Client,
+  input: IngredientPriceInput
+): Promise<IngredientPrice> {
+  validatePriceInput(input);
+  const userId = await getUserId(client);
+
+  const { data, error } = await client
+    .from("ingredient_prices")
+    .upsert(
+      {
+        user_id: userId,
+        name: input.name,
+        store: input.store ?? "",
+        price: input.price,
+        quantity: input.quantity,
+        unit: input.unit,
+      },
+      { onConflict: "user_id,name,store" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return rowToIngredientPrice(data);
+}
+
+export async function deleteIngredientPrice(client: Client, id: string): Promise<void> {
+  const userId = await getUserId(client);
+  const { error } = await client
+    .from("ingredient_prices")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Record a price actually paid: appends it to the ingredient's history and
+ * makes it the current price for that store.
+ */
+export async function recordPricePaid(
+  client: Client,
+  input: IngredientPriceInput
+): Promise<IngredientPrice> {
+  validatePriceInput(input);
+  const userId = await getUserId(client);
+
+  const { error } = await client.from("price_history").insert({
+    user_id: userId,
+    name: input.name,
+    store: input.store ?? "",
+    price: input.price,
+    quantity: input.quantity,
+    unit: input.unit,
+  });
+
+  if (error) throw error;
+
+  return saveIngredientPrice(client, input);
+}
+
+/** Most recent prices paid for an ingredient, newest first. */
+export async function fetchPriceHistory(
+  client: Client,
+  name: string,
+  limit = 20
+): Promise<PriceRecord[]> {
+  const userId = await getUserId(client);
+
+  const { data, error } = await client
+    .from("price_history")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("name", name)
+    .order("recorded_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data ?? []).map(rowToPriceRecord);
+}
+
+// ============================================================
+// GROCERY STORES
+// ============================================================
+
+/** Fetches the user's stores, in the order they're shown on the shopping list. */
+export async function fetchGroceryStores(client: Client): Promise<GroceryStore[]> {
+  const userId = await getUserId(client);
+
+  const { data, error } = await client
+    .from("grocery_stores")
+    .select("*")
+    .eq("user_id", userId)
+    .order("sort_order", { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []).map(rowToGroceryStore);
+}
+
+export async function createGroceryStore(
+  client: Client,
+  store: Omit<GroceryStore, "id">
+): Promise<GroceryStore> {
+  if (store.name.length > 100) {
+    throw new Error("Store name exceeds 100 character limit");
+  }
+  const userId = await getUserId(client);
+
+  const { data, error } = await client
+    .from("grocery_stores")
+    .insert({
+      user_id: userId,
+      name: store.name,
+      aisle_order: store.aisleOrder,
+      sort_order: store.sortOrder,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return rowToGroceryStore(data);
+}
+
+export async function updateGroceryStore(
+  client: Client,
+  id: string,
+  updates: Partial<Omit<GroceryStore, "id">>
+): Promise<void> {
+  const userId = await getUserId(client);
+  const dbUpdates: Record<string, unknown> = {};
+
+  if (updates.name !== undefined) dbUpdates.name = updates.name;
+  if (updates.aisleOrder !== undefined) dbUpdates.aisle_order = updates.aisleOrder;
+  if (updates.sortOrder !== undefined) dbUpdates.sort_order = updates.sortOrder;
+
+  if (Object.keys(dbUpdates).length === 0) return;
+
+  const { error } = await client
+    .from("grocery_stores")
+    .update(dbUpdates)
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+}
+
+/** Deletes a store; its item assignments cascade. */
+export async function deleteGroceryStore(client: Client, id: string): Promise<void> {
+  const userId = await getUserId(client);
+  const { error } = await client
+    .from("grocery_stores")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+}
+
+export async function fetchStoreAssignments(client: Client): Promise<StoreAssignments> {
+  const userId = await getUserId(client);
+
+  const { data, error } = await client
+    .from("store_assignments")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  return Object.fromEntries((data ?? []).map((row) => [row.name, row.store_id]));
+}
+
+/**
+ * Assign an ingredient (by normalized name) to a store, replacing any
+ * previous assignment. A null store clears the assignment.
+ */
+export async function assignItemToStore(
+  client: Client,
+  name: string,
+  storeId: string | null
+): Promise<void> {
+  const userId = await getUserId(client);
+
+  const { error } = storeId
+    ? await client
+        .from("store_assignments")
+        .upsert({ user_id: userId, name, store_id: storeId }, { onConflict: "user_id,name" })
+    : await client
+        .from("store_assignments")
+        .delete()
+        .eq("user_id", userId)
+        .eq("name", name);
+
+  if (error) throw error;
+}
+
+// ============================================================
+// CHECKED INGREDIENTS
+// ============================================================
+
+export async function fetchCheckedIngredients(
+  client: Client
+): Promise<Record<string, number[]>> {
+  const userId = await getUserId(client);
+
+  const { data, error } = await client
+    .from("checked_ingredients")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  const result: Record<string, number[]> = {};
+  for (const row of data ?? []) {
+    if (!result[row.recipe_id]) result[row.recipe_id] = [];
+    result[row.recipe_id].push(row.ingredient_index);
+  }
+  return result;
+}
+
+export async function toggleIngredient(
+  client: Client,
+  recipeId: string,
+  index: number,
+  checked: boolean
 ): Promise<void> {
   const userId = await getUserId(client);
 
@@ -979,6 +1569,7 @@ export async function fetchProfile(client: Client): Promise<Profile> {
     email: data.email,
     displayName: data.display_name,
     avatarUrl: data.avatar_url,
+    dietaryRestrictions: (data.dietary_restrictions ?? []) as DietaryRestriction[],
     createdAt: data.created_at,
     updatedAt: data.updated_at,
   };
@@ -986,15 +1577,16 @@ export async function fetchProfile(client: Client): Promise<Profile> {
 
 export async function updateProfile(
   client: Client,
-  updates: { display_name?: string; avatar_url?: string }
+  updates: { display_name?: string; avatar_url?: string; dietary_restrictions?: DietaryRestriction[] }
 ): Promise<void> {
   const userId = await getUserId(client);
 
   // Explicitly pick only allowed fields to prevent injection of unexpected columns (R5-45)
-  const { display_name, avatar_url } = updates;
-  const safeUpdates: Record<string, string> = {};
+  const { display_name, avatar_url, dietary_restrictions } = updates;
+  const safeUpdates: Database["public"]["Tables"]["profiles"]["Update"] = {};
   if (display_name !== undefined) safeUpdates.display_name = display_name;
   if (avatar_url !== undefined) safeUpdates.avatar_url = avatar_url;
+  if (dietary_restrictions !== undefined) safeUpdates.dietary_restrictions = dietary_restrictions;
 
   const { error } = await client
     .from("profiles")
@@ -1004,6 +1596,187 @@ export async function updateProfile(
   if (error) throw error;
 }
 
+// ============================================================
+// HOUSEHOLD
+// ============================================================
+
+/** Invite codes are 10 hex characters, like the column default. */
+function newInviteCode(): string {
+  return crypto.randomUUID().replace(/-/g, "").slice(0, 10);
+}
+
+export async function fetchHousehold(client: Client): Promise<Household> {
+  const { householdId } = await getHouseholdScope(client);
+
+  const [householdRes, membersRes] = await Promise.all([
+    client.from("households").select("*").eq("id", householdId).single(),
+    client
+      .from("household_members")
+      .select("*")
+      .eq("household_id", householdId)
+      .order("joined_at", { ascending: true }),
+  ]);
+
+  if (householdRes.error) throw householdRes.error;
+  if (membersRes.error) throw membersRes.error;
+
+  const members = membersRes.data ?? [];
+  const { data: profiles, error } = await client
+    .from("profiles")
+    .select("id, display_name, email")
+    .in("id", members.map((m) => m.user_id));
+
+  if (error) throw error;
+
+  const profileById = new Map((profiles ?? []).map((p) => [p.id, p]));
+  return {
+    id: householdRes.data.id,
+    name: householdRes.data.name,
+    inviteCode: householdRes.data.invite_code,
+    members: members.map((m) => ({
+      userId: m.user_id,
+      displayName: profileById.get(m.user_id)?.display_name ?? null,
+      email: profileById.get(m.user_id)?.email ?? null,
+      role: m.role,
+      joinedAt: m.joined_at,
+    })),
+  };
+}
+
+/** Owner only (enforced by RLS). */
+export async function renameHousehold(client: Client, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Household name cannot be empty");
+  if (trimmed.length > 100) throw new Error("Household name exceeds 100 character limit");
+
+  const { householdId } = await getHouseholdScope(client);
+  const { error } = await client
+    .from("households")
+    .update({ name: trimmed })
+    .eq("id", householdId);
+
+  if (error) throw error;
+}
+
+/** Owner only (enforced by RLS). Invalidates the old code; returns the new one. */
+export async function resetHouseholdInviteCode(client: Client): Promise<string> {
+  const { householdId } = await getHouseholdScope(client);
+
+  const { data, error } = await client
+    .from("households")
+    .update({ invite_code: newInviteCode() })
+    .eq("id", householdId)
+    .select("invite_code")
+    .single();
+
+  if (error) throw error;
+  return data.invite_code;
+}
+
+/**
+ * Join another household by its invite code. If the user was on their own,
+ * their meal plan and lists are merged into the new household's.
+ */
+export async function joinHousehold(client: Client, inviteCode: string): Promise<void> {
+  const code = inviteCode.trim().toLowerCase();
+  if (!code) throw new Error("Invite code cannot be empty");
+
+  await getUserId(client);
+  const { error } = await client.rpc("join_household", { code });
+
+  if (error) throw error;
+}
+
+/** Leave a shared household for a new, empty one of the user's own. */
+export async function leaveHousehold(client: Client): Promise<void> {
+  await getUserId(client);
+  const { error } = await client.rpc("leave_household");
+
+  if (error) throw error;
+}
+
+/** Owner only: move a member out into a household of their own. */
+export async function removeHouseholdMember(client: Client, memberId: string): Promise<void> {
+  await getUserId(client);
+  const { error } = await client.rpc("remove_household_member", { member: memberId });
+
+  if (error) throw error;
+}
+
+// ============================================================
+// REALTIME
+// ============================================================
+
+/**
+ * A change to the household's meal plan or lists, made on this device or
+ * another one. Deletes carry only the row id.
+ */
+export type HouseholdChange =
+  | { table: "shopping_items"; type: "upsert"; item: ShoppingItem }
+  | { table: "grocery_items"; type: "upsert"; item: GroceryItem }
+  | { table: "meal_plans"; type: "upsert"; date: string; slot: MealSlot; entry: MealSlotEntry }
+  | { table: "shopping_items" | "grocery_items" | "meal_plans"; type: "delete"; id: string };
+
+/**
+ * Subscribes to inserts, updates and deletes on the household's meal plan,
+ * shopping list and grocery list. RLS limits inserts and updates to the
+ * household, so the subscription follows the user into a new one without
+ * resubscribing. Deletes can't be filtered by Realtime and arrive for every
+ * household; they carry only the id, so callers ignore ids they don't hold.
+ *
+ * `onSubscribed` runs each time the channel (re)connects — anything changed
+ * while disconnected has to be fetched again. Returns an unsubscribe function.
+ */
+export function subscribeToHouseholdChanges(
+  client: Client,
+  onChange: (change: HouseholdChange) => void,
+  onSubscribed?: () => void
+): () => void {
+  function listener<T extends { id: string }>(
+    table: HouseholdChange["table"],
+    toChange: (row: T) => HouseholdChange
+  ) {
+    return (payload: RealtimePostgresChangesPayload<T>) => {
+      if (payload.eventType === "DELETE") {
+        if (payload.old.id) onChange({ table, type: "delete", id: payload.old.id });
+      } else {
+        onChange(toChange(payload.new));
+      }
+    };
+  }
+
+  const channel = client
+    .channel("household-changes")
+    .on<ShoppingItemRow>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "shopping_items" },
+      listener("shopping_items", (row) => ({ table: "shopping_items", type: "upsert", item: rowToShoppingItem(row) }))
+    )
+    .on<GroceryItemRow>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "grocery_items" },
+      listener("grocery_items", (row) => ({ table: "grocery_items", type: "upsert", item: rowToGroceryItem(row) }))
+    )
+    .on<MealPlanRow>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "meal_plans" },
+      listener("meal_plans", (row) => ({
+        table: "meal_plans",
+        type: "upsert",
+        date: row.date,
+        slot: row.meal_type as MealSlot,
+        entry: rowToMealSlotEntry(row),
+      }))
+    )
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") onSubscribed?.();
+    });
+
+  return () => {
+    void client.removeChannel(channel);
+  };
+}
+
 // ============================================================
 // RECIPE GROUPS
 // ============================================================
@@ -1286,3 +2059,459 @@ export async function ensureDefaultGroups(
 
   return allGroups;
 }
+
+// ============================================================
+// SHARE LINKS
+// ============================================================
+
+/** Share tokens are 32 hex characters (122 random bits), so links can't be guessed. */
+function newShareToken(): string {
+  return crypto.randomUUID().replace(/-/g, "");
+}
+
+const SHARE_TOKEN_PATTERN = /^[0-9a-f]{32}$/;
+
+function shareColumn(target: ShareTarget): "recipe_id" | "group_id" {
+  return target.type === "recipe" ? "recipe_id" : "group_id";
+}
+
+/** A recipe as shared_recipes() returns it: only what the public page shows. */
+interface SharedRecipeRow {
+  id: string;
+  title: string;
+  image: string | null;
+  source_url: string;
+  prep_time: string | null;
+  cook_time: string | null;
+  total_time: string | null;
+  servings: string | null;
+  author: string | null;
+  cuisine_type: string | null;
+  difficulty: Recipe["difficulty"];
+  created_at: string;
+  ingredients: string[];
+  instructions: string[];
+  tags: string[];
+}
+
+/** The token of the user's link for a recipe or group, or null if they haven't shared it. */
+export async function fetchShareToken(client: Client, target: ShareTarget): Promise<string | null> {
+  const userId = await getUserId(client);
+
+  const { data, error } = await client
+    .from("recipe_shares")
+    .select("token")
+    .eq("user_id", userId)
+    .eq(shareColumn(target), target.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.token ?? null;
+}
+
+/** Publish a recipe or group; returns the existing token if it's already shared. */
+export async function createShareLink(client: Client, target: ShareTarget): Promise<string> {
+  const existing = await fetchShareToken(client, target);
+  if (existing) return existing;
+
+  const userId = await getUserId(client);
+  const { data, error } = await client
+    .from("recipe_shares")
+    .insert({
+      user_id: userId,
+      token: newShareToken(),
+      recipe_id: target.type === "recipe" ? target.id : null,
+      group_id: target.type === "group" ? target.id : null,
+    })
+    .select("token")
+    .single();
+
+  if (error) throw error;
+  return data.token;
+}
+
+/** Stop sharing: the link stops working, and sharing again makes a new one. */
+export async function deleteShareLink(client: Client, target: ShareTarget): Promise<void> {
+  const userId = await getUserId(client);
+
+  const { error } = await client
+    .from("recipe_shares")
+    .delete()
+    .eq("user_id", userId)
+    .eq(shareColumn(target), target.id);
+
+  if (error) throw error;
+}
+
+/**
+ * What a share link shows, or null if the token doesn't exist (or sharing
+ * stopped). Works without a session — visitors read through a security
+ * definer function rather than the tables.
+ */
+export async function fetchSharedRecipes(client: Client, token: string): Promise<SharedRecipes | null> {
+  if (!SHARE_TOKEN_PATTERN.test(token)) return null;
+
+  const { data, error } = await client.rpc("shared_recipes", { share_token: token });
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const shared = data as unknown as { kind: SharedRecipes["kind"]; name: string; recipes: SharedRecipeRow[] };
+  return {
+    kind: shared.kind,
+    name: shared.name,
+    recipes: shared.recipes.map((row) => ({
+      id: row.id,
+      title: row.title,
+      image: row.image,
+      ingredients: row.ingredients,
+      instructions: row.instructions,
+      sourceUrl: row.source_url,
+      tags: row.tags,
+      createdAt: row.created_at,
+      prepTime: row.prep_time,
+      cookTime: row.cook_time,
+      totalTime: row.total_time,
+      servings: row.servings,
+      author: row.author,
+      cuisineType: row.cuisine_type,
+      difficulty: row.difficulty,
+    })),
+  };
+}
+
+// ============================================================
+// ACCOUNT BACKUP
+// ============================================================
+
+type TableName = keyof Database["public"]["Tables"];
+
+/** Rows for one table in a restore; the database fills in the owner and household. */
+type RestoreRows<T extends TableName> = Omit<Database["public"]["Tables"][T]["Insert"], "user_id" | "household_id">[];
+
+/** Replace every string equal to an old recipe id (template JSONB references recipes by id). */
+function remapRecipeIds(value: unknown, ids: Map<string, string>): unknown {
+  if (typeof value === "string") return ids.get(value) ?? value;
+  if (Array.isArray(value)) return value.map((v) => remapRecipeIds(v, ids));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, remapRecipeIds(v, ids)])
+    );
+  }
+  return value;
+}
+
+/** Dump every table the user owns (and the shared rows they added) into a versioned backup archive. */
+export async function exportAccountData(client: Client): Promise<AccountBackup> {
+  const userId = await getUserId(client);
+
+  const [recipesRes, mealPlansRes, templatesRes, shoppingRes, groceryRes, pantryRes, checkedRes, groupsRes, pricesRes, historyRes, storesRes, assignmentsRes] =
+    await Promise.all([
+      client.from("recipes").select("*").eq("user_id", userId).order("created_at", { ascending: true }),
+      client.from("meal_plans").select("*").eq("user_id", userId).order("date", { ascending: true }),
+      client.from("meal_templates").select("*").eq("user_id", userId).order("created_at", { ascending: true }),
+      client.from("shopping_items").select("*").eq("user_id", userId),
+      client.from("grocery_items").select("*").eq("user_id", userId).order("created_at", { ascending: true }),
+      client.from("pantry_items").select("*").eq("user_id", userId).order("created_at", { ascending: true }),
+      client.from("checked_ingredients").select("*").eq("user_id", userId),
+      client.from("recipe_groups").select("*").eq("user_id", userId).order("sort_order", { ascending: true }),
+      client.from("ingredient_prices").select("*").eq("user_id", userId),
+      client.from("price_history").select("*").eq("user_id", userId).order("recorded_at", { ascending: true }),
+      client.from("grocery_stores").select("*").eq("user_id", userId).order("sort_order", { ascending: true }),
+      client.from("store_assignments").select("*").eq("user_id", userId),
+    ]);
+
+  for (const res of [recipesRes, mealPlansRes, templatesRes, shoppingRes, groceryRes, pantryRes, checkedRes, groupsRes, pricesRes, historyRes, storesRes, assignmentsRes]) {
+    if (res.error) throw res.error;
+  }
+
+  const recipes = recipesRes.data ?? [];
+  const groups = groupsRes.data ?? [];
+  const recipeIds = recipes.map((r) => r.id);
+  const groupIds = groups.map((g) => g.id);
+  const empty = Promise.resolve({ data: [], error: null });
+
+  const [ingredientsRes, instructionsRes, tagsRes, membersRes] = await Promise.all([
+    recipeIds.length > 0
+      ? client.from("recipe_ingredients").select("*").in("recipe_id", recipeIds).order("sort_order", { ascending: true })
+      : empty,
+    recipeIds.length > 0
+      ? client.from("recipe_instructions").select("*").in("recipe_id", recipeIds).order("sort_order", { ascending: true })
+      : empty,
+    recipeIds.length > 0 ? client.from("recipe_tags").select("*").in("recipe_id", recipeIds) : empty,
+    groupIds.length > 0 ? client.from("recipe_group_members").select("*").in("group_id", groupIds) : empty,
+  ]);
+
+  for (const res of [ingredientsRes, instructionsRes, tagsRes, membersRes]) {
+    if (res.error) throw res.error;
+  }
+
+  const groupBy = <R, K extends keyof R>(rows: R[], key: K) => {
+    const map = new Map<R[K], R[]>();
+    for (const row of rows) map.set(row[key], [...(map.get(row[key]) ?? []), row]);
+    return map;
+  };
+  const ingredients = groupBy(ingredientsRes.data ?? [], "recipe_id");
+  const instructions = groupBy(instructionsRes.data ?? [], "recipe_id");
+  const tags = groupBy(tagsRes.data ?? [], "recipe_id");
+  const members = groupBy(membersRes.data ?? [], "group_id");
+  const assignments = groupBy(assignmentsRes.data ?? [], "store_id");
+
+  return {
+    version: ACCOUNT_BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    recipes: recipes.map((r) => ({
+      id: r.id,
+      title: r.title,
+      image: r.image,
+      source_url: r.source_url,
+      prep_time: r.prep_time,
+      cook_time: r.cook_time,
+      total_time: r.total_time,
+      servings: r.servings,
+      author: r.author,
+      cuisine_type: r.cuisine_type,
+      difficulty: r.difficulty,
+      rating: r.rating,
+      is_favorite: r.is_favorite,
+      notes: r.notes,
+      allergens: r.allergens as Allergen[] | null,
+      diets: r.diets as Diet[] | null,
+      description: r.description,
+      nutrition: r.nutrition as Record<string, string> | null,
+      categories: r.categories,
+      keywords: r.keywords,
+      suitable_for_diet: r.suitable_for_diet,
+      video: r.video as unknown as RecipeVideo | null,
+      aggregate_rating: r.aggregate_rating != null ? Number(r.aggregate_rating) : null,
+      aggregate_rating_count: r.aggregate_rating_count,
+      created_at: r.created_at,
+      ingredients: (ingredients.get(r.id) ?? []).map((row) => row.text),
+      instructions: (instructions.get(r.id) ?? []).map((row) => row.text),
+      tags: (tags.get(r.id) ?? []).map((row) => row.tag),
+    })),
+    meal_plans: (mealPlansRes.data ?? []).map((row) => ({
+      date: row.date,
+      meal_type: row.meal_type,
+      recipe_id: row.recipe_id,
+      is_leftover: row.is_leftover,
+      position: row.position,
+    })),
+    meal_templates: (templatesRes.data ?? []).map((row) => ({
+      name: row.name,
+      template: row.template,
+      created_at: row.created_at,
+    })),
+    shopping_items: (shoppingRes.data ?? []).map((row) => ({
+      text: row.text,
+      checked: row.checked,
+      recipe_id: row.recipe_id,
+    })),
+    grocery_items: (groceryRes.data ?? []).map((row) => ({
+      text: row.text,
+      checked: row.checked,
+      created_at: row.created_at,
+    })),
+    pantry_items: (pantryRes.data ?? []).map((row) => ({
+      name: row.name,
+      quantity: row.quantity,
+      unit: row.unit,
+    })),
+    checked_ingredients: (checkedRes.data ?? []).map((row) => ({
+      recipe_id: row.recipe_id,
+      ingredient_index: row.ingredient_index,
+    })),
+    recipe_groups: groups.map((g) => ({
+      name: g.name,
+      icon: g.icon,
+      sort_order: g.sort_order,
+      is_default: g.is_default,
+      created_at: g.created_at,
+      members: (members.get(g.id) ?? []).map((m) => ({
+        recipe_id: m.recipe_id,
+        added_at: m.added_at,
+      })),
+    })),
+    ingredient_prices: (pricesRes.data ?? []).map((row) => ({
+      name: row.name,
+      store: row.store,
+      price: row.price,
+      quantity: row.quantity,
+      unit: row.unit,
+    })),
+    price_history: (historyRes.data ?? []).map((row) => ({
+      name: row.name,
+      store: row.store,
+      price: row.price,
+      quantity: row.quantity,
+      unit: row.unit,
+      recorded_at: row.recorded_at,
+    })),
+    grocery_stores: (storesRes.data ?? []).map((row) => ({
+      name: row.name,
+      aisle_order: row.aisle_order,
+      sort_order: row.sort_order,
+      items: (assignments.get(row.id) ?? []).map((a) => a.name),
+    })),
+  };
+}
+
+/**
+ * Replace all of the user's data with the contents of a backup archive.
+ *
+ * The archive is given fresh ids (so an archive from another account can't
+ * collide), remapping every recipe reference; references to recipes missing
+ * from the archive are dropped. The rows are then swapped in by the
+ * `restore_account_data` database function in one transaction, so a failed
+ * restore leaves the existing data as it was. In a shared household only the
+ * list items and meal plan entries this user added are replaced; housemates'
+ * stay. Archives from before recipes kept their dietary classification are
+ * classified here.
+ */
+export async function restoreAccountData(
+  client: Client,
+  backup: AccountBackup
+): Promise<{ recipeCount: number }> {
+  const newRecipeIds = backup.recipes.map(() => crypto.randomUUID());
+  const recipeIds = new Map<string, string>();
+  backup.recipes.forEach((r, i) => {
+    if (!recipeIds.has(r.id)) recipeIds.set(r.id, newRecipeIds[i]);
+  });
+
+  const recipes: RestoreRows<"recipes"> = backup.recipes.map((r, i) => {
+    const dietary = r.allergens && r.diets ? { allergens: r.allergens, diets: r.diets } : classifyIngredients(r.ingredients);
+    return {
+      id: newRecipeIds[i],
+      title: r.title,
+      image: r.image,
+      source_url: r.source_url,
+      prep_time: r.prep_time,
+      cook_time: r.cook_time,
+      total_time: r.total_time,
+      servings: r.servings,
+      author: r.author,
+      cuisine_type: r.cuisine_type,
+      difficulty: r.difficulty,
+      rating: r.rating,
+      is_favorite: r.is_favorite,
+      notes: r.notes,
+      allergens: dietary.allergens,
+      diets: dietary.diets,
+      description: r.description ?? null,
+      nutrition: r.nutrition ?? null,
+      categories: r.categories ?? null,
+      keywords: r.keywords ?? null,
+      suitable_for_diet: r.suitable_for_diet ?? null,
+      video: r.video ?? null,
+      aggregate_rating: r.aggregate_rating ?? null,
+      aggregate_rating_count: r.aggregate_rating_count ?? null,
+      created_at: r.created_at,
+    };
+  });
+
+  const recipeIngredients: RestoreRows<"recipe_ingredients"> = backup.recipes.flatMap((r, i) =>
+    r.ingredients.map((text, sort_order) => ({ recipe_id: newRecipeIds[i], text, sort_order }))
+  );
+  const recipeInstructions: RestoreRows<"recipe_instructions"> = backup.recipes.flatMap((r, i) =>
+    r.instructions.map((text, sort_order) => ({ recipe_id: newRecipeIds[i], text, sort_order }))
+  );
+  const recipeTags: RestoreRows<"recipe_tags"> = backup.recipes.flatMap((r, i) =>
+    r.tags.map((tag) => ({ recipe_id: newRecipeIds[i], tag }))
+  );
+
+  const mealPlans: RestoreRows<"meal_plans"> = backup.meal_plans
+    .filter((m) => recipeIds.has(m.recipe_id))
+    .map((m) => ({
+      date: m.date,
+      meal_type: m.meal_type,
+      recipe_id: recipeIds.get(m.recipe_id)!,
+      is_leftover: m.is_leftover,
+      position: m.position,
+    }));
+
+  const mealTemplates: RestoreRows<"meal_templates"> = backup.meal_templates.map((t) => ({
+    name: t.name,
+    template: remapRecipeIds(t.template, recipeIds) as Record<string, unknown>,
+    created_at: t.created_at,
+  }));
+
+  const shoppingItems: RestoreRows<"shopping_items"> = backup.shopping_items.map((s) => ({
+    text: s.text,
+    checked: s.checked,
+    recipe_id: s.recipe_id ? recipeIds.get(s.recipe_id) ?? null : null,
+  }));
+
+  const groceryItems: RestoreRows<"grocery_items"> = backup.grocery_items.map((g) => ({
+    text: g.text,
+    checked: g.checked,
+    created_at: g.created_at,
+  }));
+
+  const pantryItems: RestoreRows<"pantry_items"> = backup.pantry_items.map((p) => ({
+    name: p.name,
+    quantity: p.quantity,
+    unit: p.unit,
+  }));
+
+  const checkedIngredients: RestoreRows<"checked_ingredients"> = backup.checked_ingredients
+    .filter((c) => recipeIds.has(c.recipe_id))
+    .map((c) => ({ recipe_id: recipeIds.get(c.recipe_id)!, ingredient_index: c.ingredient_index }));
+
+  const newGroupIds = backup.recipe_groups.map(() => crypto.randomUUID());
+  const recipeGroups: RestoreRows<"recipe_groups"> = backup.recipe_groups.map((g, i) => ({
+    id: newGroupIds[i],
+    name: g.name,
+    icon: g.icon,
+    sort_order: g.sort_order,
+    is_default: g.is_default,
+    created_at: g.created_at,
+  }));
+  const recipeGroupMembers: RestoreRows<"recipe_group_members"> = backup.recipe_groups.flatMap((g, i) =>
+    g.members
+      .filter((m) => recipeIds.has(m.recipe_id))
+      .map((m) => ({ group_id: newGroupIds[i], recipe_id: recipeIds.get(m.recipe_id)!, added_at: m.added_at }))
+  );
+
+  const newStoreIds = backup.grocery_stores.map(() => crypto.randomUUID());
+  const groceryStores: RestoreRows<"grocery_stores"> = backup.grocery_stores.map((s, i) => ({
+    id: newStoreIds[i],
+    name: s.name,
+    aisle_order: s.aisle_order,
+    sort_order: s.sort_order,
+  }));
+  // An ingredient can only be assigned to one store; the first one wins
+  const assigned = new Set<string>();
+  const storeAssignments: RestoreRows<"store_assignments"> = backup.grocery_stores.flatMap((s, i) =>
+    s.items
+      .filter((name) => {
+        if (assigned.has(name)) return false;
+        assigned.add(name);
+        return true;
+      })
+      .map((name) => ({ name, store_id: newStoreIds[i] }))
+  );
+
+  const payload = {
+    recipes,
+    recipe_ingredients: recipeIngredients,
+    recipe_instructions: recipeInstructions,
+    recipe_tags: recipeTags,
+    meal_plans: mealPlans,
+    meal_templates: mealTemplates,
+    shopping_items: shoppingItems,
+    grocery_items: groceryItems,
+    pantry_items: pantryItems,
+    checked_ingredients: checkedIngredients,
+    recipe_groups: recipeGroups,
+    recipe_group_members: recipeGroupMembers,
+    ingredient_prices: backup.ingredient_prices satisfies RestoreRows<"ingredient_prices">,
+    price_history: backup.price_history satisfies RestoreRows<"price_history">,
+    grocery_stores: groceryStores,
+    store_assignments: storeAssignments,
+  };
+
+  const { error } = await client.rpc("restore_account_data", { payload: payload as unknown as Json });
+  if (error) throw error;
+
+  return { recipeCount: backup.recipes.length };
+}
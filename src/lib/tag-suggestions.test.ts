@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { suggestTags } from "./tag-suggestions";
+
+describe("suggestTags", () => {
+  it("maps categories and keywords onto the default tags", () => {
+    expect(
+      suggestTags({
+        tags: [],
+        categories: ["Main Course"],
+        keywords: ["30-minute meals", "weeknight"],
+        suitableForDiet: ["Vegetarian"],
+      })
+    ).toEqual(["Dinner", "Quick", "Vegetarian"]);
+  });
+
+  it("offers other categories and short keywords as they are", () => {
+    expect(
+      suggestTags({
+        tags: [],
+        categories: ["Dessert", "Baking"],
+        keywords: ["chocolate", "best fudgy brownies from scratch"],
+      })
+    ).toEqual(["Dessert", "Baking", "Chocolate"]);
+  });
+
+  it("leaves out tags the recipe already has", () => {
+    expect(suggestTags({ tags: ["dessert", "Chocolate"], categories: ["Dessert"], keywords: ["chocolate", "cocoa"] })).toEqual([
+      "Cocoa",
+    ]);
+  });
+
+  it("suggests nothing when the source published nothing", () => {
+    expect(suggestTags({ tags: [] })).toEqual([]);
+  });
+
+  it("caps the number of suggestions", () => {
+    const keywords = Array.from({ length: 20 }, (_, i) => `keyword ${i}`);
+    expect(suggestTags({ tags: [], keywords })).toHaveLength(8);
+  });
+});
@@ -0,0 +1,64 @@
+// ---------------------------------------------------------------------------
+// Tag suggestions — turn a source page's categories, keywords and diets into
+// tags the user can add with a tap
+//
+// Terms that mean one of the default tags ("Main course", "Brunch",
+// "30-minute") suggest that tag; other categories and short keywords are
+// offered as they are. Nothing is applied automatically: keyword lists are
+// written for search engines and are often long and repetitive.
+// ---------------------------------------------------------------------------
+
+import { DEFAULT_TAGS } from "./constants";
+import type { Recipe } from "@/types";
+
+type DefaultTag = (typeof DEFAULT_TAGS)[number];
+
+/** Patterns for source terms that mean a default tag. */
+const DEFAULT_TAG_PATTERNS: [DefaultTag, RegExp][] = [
+  ["Breakfast", /\b(?:breakfast|brunch)\b/i],
+  ["Lunch", /\blunch\b/i],
+  ["Dinner", /\b(?:dinner|supper|mains?|main (?:course|dish)|entr[eé]es?)\b/i],
+  ["Snack", /\b(?:snacks?|appeti[sz]ers?|starters?)\b/i],
+  ["Dessert", /\bdesserts?\b/i],
+  ["Quick", /\b(?:quick|(?:10|15|20|30)[- ]min(?:ute)?s?|weeknight)\b/i],
+  ["Vegetarian", /\bvegetarian\b/i],
+  ["Vegan", /\bvegan\b/i],
+];
+
+/** Keywords longer than this are search phrases rather than tags. */
+const MAX_TAG_WORDS = 3;
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Tags to suggest for a recipe from what its source published, best first:
+ * default tags, then categories, then keywords. Tags the recipe already has
+ * are left out, compared case-insensitively.
+ */
+export function suggestTags(
+  recipe: Pick<Recipe, "tags" | "categories" | "keywords" | "suitableForDiet">
+): string[] {
+  const terms = [
+    ...(recipe.categories ?? []),
+    ...(recipe.suitableForDiet ?? []),
+    ...(recipe.keywords ?? []),
+  ];
+  const defaults = DEFAULT_TAG_PATTERNS.filter(([, pattern]) => terms.some((t) => pattern.test(t))).map(
+    ([tag]) => tag
+  );
+  const others = [...(recipe.categories ?? []), ...(recipe.keywords ?? [])]
+    .map((term) => term.trim())
+    .filter((term) => term && term.split(/\s+/).length <= MAX_TAG_WORDS)
+    // A term that suggested a default tag is covered by it
+    .filter((term) => !DEFAULT_TAG_PATTERNS.some(([, pattern]) => pattern.test(term)))
+    .map((term) => term.charAt(0).toUpperCase() + term.slice(1));
+
+  const taken = new Set(recipe.tags.map((t) => t.toLowerCase()));
+  const suggestions: string[] = [];
+  for (const tag of [...defaults, ...others]) {
+    if (taken.has(tag.toLowerCase())) continue;
+    taken.add(tag.toLowerCase());
+    suggestions.push(tag);
+    if (suggestions.length === MAX_SUGGESTIONS) break;
+  }
+  return suggestions;
+}
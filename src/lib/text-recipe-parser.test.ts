@@ -0,0 +1,179 @@
+// ---------------------------------------------------------------------------
+// Tests for text-recipe-parser — free-form pasted text → ScrapedRecipe
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import { parseRecipeText } from "./text-recipe-parser";
+
+describe("parseRecipeText", () => {
+  it("parses a labelled recipe with metadata", () => {
+    const recipe = parseRecipeText(`
+Grandma's Lemon Bars
+By Grandma June
+Serves 12
+Prep: 20 min | Bake: 25 min | Total time: 1 hr 15 min
+
+Ingredients:
+- 2 cups all-purpose flour
+- 1/2 cup powdered sugar
+- 1 cup butter, softened
+
+Instructions:
+1. Preheat the oven to 350°F.
+2. Mix flour, sugar and butter; press into a pan.
+3. Bake for 20 minutes.
+`);
+
+    expect(recipe).not.toBeNull();
+    expect(recipe!.title).toBe("Grandma's Lemon Bars");
+    expect(recipe!.author).toBe("Grandma June");
+    expect(recipe!.servings).toBe("12");
+    expect(recipe!.prepTime).toBe("PT20M");
+    expect(recipe!.cookTime).toBe("PT25M");
+    expect(recipe!.totalTime).toBe("PT1H15M");
+    expect(recipe!.ingredients).toEqual([
+      "2 cups all-purpose flour",
+      "1/2 cup powdered sugar",
+      "1 cup butter, softened",
+    ]);
+    expect(recipe!.instructions).toEqual([
+      "Preheat the oven to 350°F.",
+      "Mix flour, sugar and butter; press into a pan.",
+      "Bake for 20 minutes.",
+    ]);
+  });
+
+  it("accepts markdown headings and marks ingredient subsections", () => {
+    const recipe = parseRecipeText(`
+# **Chicken Tacos**
+
+## Ingredients
+### For the marinade
+* 2 tbsp lime juice
+* 1 tsp cumin
+For the tacos:
+* 8 tortillas
+
+## Method
+Marinate the chicken.
+Grill and slice.
+`);
+
+    expect(recipe!.title).toBe("Chicken Tacos");
+    expect(recipe!.ingredients).toEqual([
+      "## For the marinade:",
+      "2 tbsp lime juice",
+      "1 tsp cumin",
+      "## For the tacos:",
+      "8 tortillas",
+    ]);
+    expect(recipe!.instructions).toEqual(["Marinate the chicken.", "Grill and slice."]);
+  });
+
+  it("joins wrapped lines within numbered steps", () => {
+    const recipe = parseRecipeText(`Soup
+Ingredients
+1 onion
+Directions
+1. Chop the onion and sweat it in butter
+   until soft.
+2. Add stock.`);
+
+    expect(recipe!.instructions).toEqual([
+      "Chop the onion and sweat it in butter until soft.",
+      "Add stock.",
+    ]);
+  });
+
+  it("treats blank-line separated paragraphs as one step each", () => {
+    const recipe = parseRecipeText(`Bread
+Ingredients
+500 g flour
+Method
+Mix the flour with water and
+knead for ten minutes.
+
+Leave to rise, then bake
+until golden.`);
+
+    expect(recipe!.instructions).toEqual([
+      "Mix the flour with water and knead for ten minutes.",
+      "Leave to rise, then bake until golden.",
+    ]);
+  });
+
+  it("splits steps embedded on a single line", () => {
+    const recipe = parseRecipeText(`Eggs
+Ingredients
+2 eggs
+Instructions
+1. Boil water. 2. Add eggs. 3. Cook 7 minutes.`);
+
+    expect(recipe!.instructions).toEqual(["Boil water.", "Add eggs.", "Cook 7 minutes."]);
+  });
+
+  it("splits unlabelled text into ingredients and method", () => {
+    const recipe = parseRecipeText(`Quick Guacamole
+A family favourite for game night.
+3 ripe avocados
+1 lime, juiced
+salt
+Mash the avocados with the lime juice.
+Season with salt and serve.`);
+
+    expect(recipe!.title).toBe("Quick Guacamole");
+    expect(recipe!.ingredients).toEqual(["3 ripe avocados", "1 lime, juiced", "salt"]);
+    expect(recipe!.instructions).toEqual([
+      "Mash the avocados with the lime juice.",
+      "Season with salt and serve.",
+    ]);
+  });
+
+  it("uses an unlabelled list above a labelled method as ingredients", () => {
+    const recipe = parseRecipeText(`Pesto
+2 cups basil
+1/3 cup pine nuts
+Method:
+Blend everything.`);
+
+    expect(recipe!.ingredients).toEqual(["2 cups basil", "1/3 cup pine nuts"]);
+    expect(recipe!.instructions).toEqual(["Blend everything."]);
+  });
+
+  it("ignores notes sections", () => {
+    const recipe = parseRecipeText(`Rice
+Ingredients
+1 cup rice
+Instructions
+Cook the rice.
+Notes:
+Leftovers keep for 3 days.`);
+
+    expect(recipe!.instructions).toEqual(["Cook the rice."]);
+  });
+
+  it("does not treat sentences mentioning times as metadata", () => {
+    const recipe = parseRecipeText(`Stew
+Ingredients
+1 lb beef
+Instructions
+Simmer for 2 hours, total time about 3 hours.`);
+
+    expect(recipe!.totalTime).toBeNull();
+    expect(recipe!.instructions).toHaveLength(1);
+  });
+
+  it("falls back to a placeholder title", () => {
+    const recipe = parseRecipeText(`Ingredients
+1 cup oats
+Instructions
+Soak overnight.`);
+
+    expect(recipe!.title).toBe("Untitled Recipe");
+  });
+
+  it("returns null when no recipe content is found", () => {
+    expect(parseRecipeText("")).toBeNull();
+    expect(parseRecipeText("Just a title")).toBeNull();
+  });
+});
@@ -0,0 +1,295 @@
+// ---------------------------------------------------------------------------
+// Text Recipe Parser — turn free-form pasted text into a ScrapedRecipe
+//
+// Handles cookbook transcriptions, emailed recipes and notes-app dumps: a
+// title line, optional metadata ("Serves 4", "Prep: 15 min | Cook: 1 hr"),
+// then ingredients and method — with or without "Ingredients" / "Method"
+// headings. Server-side only (reuses the HTML scraper's helpers).
+// ---------------------------------------------------------------------------
+
+import type { ScrapedRecipe } from "@/types";
+import { detectAndMarkSectionHeaders, UNIT_PATTERN } from "./ingredient-parser";
+import { markInstructionHeaders } from "./instructions";
+import {
+  splitNumberedSteps,
+  parseTimeToISO,
+  INGREDIENTS_HEADING_RE,
+  INSTRUCTIONS_HEADING_RE,
+  STOP_SECTION_RE,
+  COOKING_VERB_RE,
+} from "./scraper";
+
+/** Longest text accepted for parsing — a long cookbook page is ~10k chars. */
+export const MAX_RECIPE_TEXT_LENGTH = 50_000;
+
+// ---------------------------------------------------------------------------
+// Line patterns
+// ---------------------------------------------------------------------------
+
+/** List bullets and checkbox markers ("- ", "• ", "▢ ", "[ ] "). */
+const BULLET_RE = /^(?:[-*•·▢□☐◦‣]|\[\s?[xX]?\s?\])\s*/;
+
+/** Step numbering ("1. ", "2) ", "Step 3: "). Requires a space so "2.5 cups" isn't a step. */
+const STEP_NUMBER_RE = /^(?:step\s*\d{1,2}\s*[.):]?|\d{1,2}[.)])\s+/i;
+
+/** Markdown heading hashes and emphasis wrappers around heading text. */
+const MARKDOWN_HEADING_RE = /^#{1,6}\s+/;
+const EMPHASIS_RE = /^(\*\*|__)(.+)\1$/;
+
+/** "Prep: 15 min", "Cook time 1 hr 30 min", "Bake: 25 min", "Total: 2 hours and 10 minutes". */
+const TIME_META_RE =
+  /\b(prep(?:aration)?|cook(?:ing)?|bak(?:e|ing)|total)\s*(?:time)?\s*:?\s*(\d+\s*(?:hours?|hrs?|h|minutes?|mins?|m)\b(?:\s*(?:and\s*)?\d+\s*(?:minutes?|mins?|m)\b)?)/gi;
+
+/** "Serves 4", "Yield: 12 cookies", "Makes 2 loaves". */
+const SERVINGS_META_RE = /^(?:serves|servings|yields?|makes)\b\s*:?\s*(.{1,40})$/i;
+
+/** "4 servings" on its own line. */
+const BARE_SERVINGS_RE = /^(\d+(?:\s*(?:-|to)\s*\d+)?)\s+servings?$/i;
+
+/** "By Grandma June", "Author: Sam". Only honoured above the ingredients. */
+const AUTHOR_META_RE = /^(?:by|author|recipe by|from the kitchen of)\s*:?\s+(.{1,60})$/i;
+
+/** "Title: Lemon Bars", "Recipe: Lemon Bars". */
+const TITLE_PREFIX_RE = /^(?:title|recipe)\s*:\s*/i;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type Section = "header" | "ingredients" | "instructions" | "skip";
+
+interface TextMetadata {
+  prepTime: string | null;
+  cookTime: string | null;
+  totalTime: string | null;
+  servings: string | null;
+  author: string | null;
+}
+
+/** Strip markdown heading/emphasis markup so "## **Method**" matches heading patterns. */
+function stripHeadingMarkup(line: string): string {
+  const text = line.replace(MARKDOWN_HEADING_RE, "").trim();
+  return text.replace(EMPHASIS_RE, "$2").trim();
+}
+
+/**
+ * Consume a metadata line into `meta`. Returns true when the whole line was
+ * metadata; partial matches ("Bake for 30 min, total time 1 hr") are left
+ * alone so they stay part of the method.
+ */
+function parseMetadataLine(line: string, meta: TextMetadata, allowAuthor: boolean): boolean {
+  const times: { label: string; iso: string }[] = [];
+  const rest = line.replace(TIME_META_RE, (_, label: string, value: string) => {
+    const iso = parseTimeToISO(value.replace(/\band\b/i, " "));
+    if (iso) times.push({ label: label.toLowerCase(), iso });
+    return iso ? "" : `${label} ${value}`;
+  });
+  if (times.length > 0 && /^[\s|,;·•/-]*$/.test(rest)) {
+    for (const { label, iso } of times) {
+      if (label.startsWith("prep")) meta.prepTime ??= iso;
+      else if (label.startsWith("cook") || label.startsWith("bak")) meta.cookTime ??= iso;
+      else meta.totalTime ??= iso;
+    }
+    return true;
+  }
+
+  const servings = line.match(SERVINGS_META_RE)?.[1] ?? line.match(BARE_SERVINGS_RE)?.[1];
+  if (servings && /\d/.test(servings)) {
+    meta.servings ??= servings.replace(/\.$/, "").trim();
+    return true;
+  }
+
+  if (allowAuthor) {
+    const author = line.match(AUTHOR_META_RE)?.[1];
+    if (author) {
+      meta.author ??= author.replace(/\.$/, "").trim();
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/** Heuristic for unlabelled text: does this line read like an ingredient? */
+function looksLikeIngredient(line: string): boolean {
+  if (STEP_NUMBER_RE.test(line)) return false;
+  if (BULLET_RE.test(line)) return true;
+  if (line.length > 100) return false;
+  if (UNIT_PATTERN.test(line)) return true;
+  if (/^[\d½⅓⅔¼¾⅛]/.test(line)) return true;
+  // Short, non-sentence lines without a leading cooking verb ("salt and pepper")
+  return line.length <= 50 && !/[.!]$/.test(line) && !COOKING_VERB_RE.test(line);
+}
+
+/** Clean an ingredient line; markdown subheadings become "For the sauce:" headers. */
+function cleanIngredientLine(line: string): string {
+  if (MARKDOWN_HEADING_RE.test(line)) {
+    const heading = stripHeadingMarkup(line).replace(/:$/, "");
+    return `${heading}:`;
+  }
+  return line.replace(BULLET_RE, "").trim();
+}
+
+/**
+ * Turn blank-line separated blocks of method text into steps.
+ *   - Numbered lines start a new step; unnumbered lines continue the previous one
+ *   - Bulleted lines are one step each
+ *   - Several multi-line paragraphs are wrapped text: one step per paragraph
+ *   - A single unnumbered block (notes-app style) is one step per line
+ * Lines that embed "1. … 2. …" are split with `splitNumberedSteps`.
+ */
+function blocksToSteps(blocks: string[][]): string[] {
+  const raw: string[] = [];
+  const paragraphs = blocks.length > 1;
+
+  for (const block of blocks) {
+    if (block.some((l) => STEP_NUMBER_RE.test(l))) {
+      let current: string | null = null;
+      for (const line of block) {
+        const embedded = splitNumberedSteps(line);
+        if (embedded) {
+          if (current) raw.push(current);
+          raw.push(...embedded);
+          current = null;
+        } else if (STEP_NUMBER_RE.test(line)) {
+          if (current) raw.push(current);
+          current = line.replace(STEP_NUMBER_RE, "").trim();
+        } else {
+          const text = line.replace(BULLET_RE, "").trim();
+          current = current ? `${current} ${text}` : text;
+        }
+      }
+      if (current) raw.push(current);
+    } else if (block.every((l) => BULLET_RE.test(l)) || !paragraphs) {
+      raw.push(...block.map((l) => l.replace(BULLET_RE, "").trim()));
+    } else {
+      raw.push(block.map((l) => l.replace(BULLET_RE, "").trim()).join(" "));
+    }
+  }
+
+  return raw.filter((step) => step.length > 0);
+}
+
+/** Split a list of lines into blank-line separated blocks ("" marks a break). */
+function toBlocks(lines: string[]): string[][] {
+  const blocks: string[][] = [[]];
+  for (const line of lines) {
+    if (line === "") {
+      if (blocks[blocks.length - 1].length > 0) blocks.push([]);
+    } else {
+      blocks[blocks.length - 1].push(line);
+    }
+  }
+  return blocks.filter((b) => b.length > 0);
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse free-form recipe text into a ScrapedRecipe.
+ *
+ * Recognises "Ingredients" / "Instructions"-style headings (plain, with a
+ * colon, or as markdown); without them, the leading run of ingredient-looking
+ * lines becomes the ingredient list and the rest becomes the method.
+ * Returns null when neither ingredients nor instructions could be found.
+ */
+export function parseRecipeText(text: string): ScrapedRecipe | null {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n").map((l) => l.trim());
+
+  const meta: TextMetadata = {
+    prepTime: null,
+    cookTime: null,
+    totalTime: null,
+    servings: null,
+    author: null,
+  };
+  let title: string | null = null;
+  let section: Section = "header";
+
+  // Header keeps "" markers so unlabelled method text retains its paragraphs
+  const header: string[] = [];
+  const ingredientLines: string[] = [];
+  const instructionLines: string[] = [];
+
+  for (const line of lines) {
+    if (!line) {
+      if (section === "instructions") instructionLines.push("");
+      else if (section === "header") header.push("");
+      continue;
+    }
+
+    const heading = stripHeadingMarkup(line);
+    if (INGREDIENTS_HEADING_RE.test(heading)) {
+      section = "ingredients";
+      continue;
+    }
+    if (INSTRUCTIONS_HEADING_RE.test(heading)) {
+      section = "instructions";
+      continue;
+    }
+    if (STOP_SECTION_RE.test(heading)) {
+      section = "skip";
+      continue;
+    }
+    if (section === "skip") continue;
+
+    if (section !== "instructions" && parseMetadataLine(line, meta, section === "header")) continue;
+
+    if (!title && section === "header") {
+      title = heading.replace(TITLE_PREFIX_RE, "").trim();
+      continue;
+    }
+
+    if (section === "header") header.push(line);
+    else if (section === "ingredients") ingredientLines.push(line);
+    else instructionLines.push(line);
+  }
+
+  // Unlabelled text (or a labelled method under an unlabelled ingredient list):
+  // the first run of ingredient-looking lines is the ingredient list, and
+  // anything after it is the method. Lines before it are an intro/description.
+  if (ingredientLines.length === 0) {
+    const content = header.filter((l) => l !== "");
+    const start = content.findIndex(looksLikeIngredient);
+    let end = start;
+    if (start !== -1) {
+      while (end < content.length && looksLikeIngredient(content[end])) end++;
+      ingredientLines.push(...content.slice(start, end));
+    }
+
+    if (instructionLines.length === 0 && start !== -1 && end < content.length) {
+      // Re-walk the header so the method keeps its paragraph breaks
+      let index = 0;
+      for (const line of header) {
+        if (line === "") {
+          if (index > end) instructionLines.push("");
+          continue;
+        }
+        if (index >= end) instructionLines.push(line);
+        index++;
+      }
+    }
+  }
+
+  const ingredients = detectAndMarkSectionHeaders(
+    ingredientLines.map(cleanIngredientLine).filter((l) => l.length > 0),
+  );
+  const instructions = markInstructionHeaders(blocksToSteps(toBlocks(instructionLines)));
+
+  if (ingredients.length === 0 && instructions.length === 0) return null;
+
+  return {
+    title: title || "Untitled Recipe",
+    image: null,
+    ingredients,
+    instructions,
+    prepTime: meta.prepTime,
+    cookTime: meta.cookTime,
+    totalTime: meta.totalTime,
+    servings: meta.servings,
+    author: meta.author,
+    cuisineType: null,
+  };
+}
@@ -0,0 +1,209 @@
+// ---------------------------------------------------------------------------
+// Tests for unit-converter — US customary ↔ metric ingredient display
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import { parseIngredient } from "./ingredient-parser";
+import {
+  getUnitSystem,
+  convertAcrossSystems,
+  formatIngredientForSystem,
+  scaleIngredientForSystem,
+  formatIngredientAsGrams,
+  hasGramConversions,
+  convertTemperatures,
+} from "./unit-converter";
+
+// ---------------------------------------------------------------------------
+// getUnitSystem / convertAcrossSystems
+// ---------------------------------------------------------------------------
+
+describe("getUnitSystem", () => {
+  it("classifies US and metric units", () => {
+    expect(getUnitSystem("cup")).toBe("us");
+    expect(getUnitSystem("lb")).toBe("us");
+    expect(getUnitSystem("ml")).toBe("metric");
+    expect(getUnitSystem("kg")).toBe("metric");
+  });
+
+  it("returns null for count-style or missing units", () => {
+    expect(getUnitSystem("clove")).toBeNull();
+    expect(getUnitSystem(null)).toBeNull();
+  });
+});
+
+describe("convertAcrossSystems", () => {
+  it("converts within a family like convertQuantity", () => {
+    expect(convertAcrossSystems(3, "tsp", "tbsp")).toBeCloseTo(1);
+  });
+
+  it("converts volume across systems", () => {
+    expect(convertAcrossSystems(1, "cup", "ml")).toBeCloseTo(236.59, 1);
+    expect(convertAcrossSystems(1, "l", "cup")).toBeCloseTo(4.227, 2);
+  });
+
+  it("converts mass across systems", () => {
+    expect(convertAcrossSystems(1, "lb", "g")).toBeCloseTo(453.59, 1);
+    expect(convertAcrossSystems(1, "kg", "lb")).toBeCloseTo(2.2046, 3);
+  });
+
+  it("returns null for volume ↔ mass", () => {
+    expect(convertAcrossSystems(1, "cup", "g")).toBeNull();
+    expect(convertAcrossSystems(1, "clove", "g")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatIngredientForSystem
+// ---------------------------------------------------------------------------
+
+describe("formatIngredientForSystem", () => {
+  const fmt = (raw: string, system: "us" | "metric" | null, ratio = 1) =>
+    formatIngredientForSystem(parseIngredient(raw), system, ratio);
+
+  it("falls back to formatIngredientMain when no system is set", () => {
+    expect(fmt("1 cup milk", null)).toBe("1 cup milk");
+    expect(fmt("1 cup milk", null, 2)).toBe("2 cup milk");
+  });
+
+  it("converts US volume to metric with rounding", () => {
+    expect(fmt("1 cup milk", "metric")).toBe("235 ml milk");
+    expect(fmt("1 tbsp olive oil", "metric")).toBe("15 ml olive oil");
+    expect(fmt("1/2 tsp salt", "metric")).toBe("2.5 ml salt");
+  });
+
+  it("switches to litres for large volumes", () => {
+    expect(fmt("6 cups stock", "metric")).toBe("1.4 l stock");
+  });
+
+  it("converts US weight to metric", () => {
+    expect(fmt("1 lb ground beef", "metric")).toBe("455 g ground beef");
+    expect(fmt("3 lbs potatoes", "metric")).toBe("1.35 kg potatoes");
+  });
+
+  it("converts metric volume to the most readable US unit", () => {
+    expect(fmt("250 ml milk", "us")).toBe("1 cup milk");
+    expect(fmt("15 ml soy sauce", "us")).toBe("1 tbsp soy sauce");
+    expect(fmt("5 ml vanilla", "us")).toBe("1 tsp vanilla");
+  });
+
+  it("snaps to thirds when converting back to cups", () => {
+    expect(fmt("80 ml cream", "us")).toBe("1/3 cup cream");
+  });
+
+  it("converts metric weight to oz or lb", () => {
+    expect(fmt("200 g chocolate", "us")).toBe("7 oz chocolate");
+    expect(fmt("1 kg chicken thighs", "us")).toBe("2 1/4 lb chicken thighs");
+  });
+
+  it("applies the scaling ratio before converting", () => {
+    expect(fmt("1 cup milk", "metric", 2)).toBe("475 ml milk");
+  });
+
+  it("leaves units already in the target system untouched", () => {
+    expect(fmt("2 cups flour", "us")).toBe("2 cups flour");
+    expect(fmt("100 g butter", "metric")).toBe("100 g butter");
+  });
+
+  it("leaves non-convertible units and counts untouched", () => {
+    expect(fmt("3 cloves garlic", "metric")).toBe("3 cloves garlic");
+    expect(fmt("2 eggs", "metric")).toBe("2 eggs");
+    expect(fmt("salt to taste", "metric")).toBe("salt to taste");
+  });
+});
+
+describe("scaleIngredientForSystem", () => {
+  it("includes the prep note", () => {
+    const parsed = parseIngredient("1 cup onion, diced");
+    expect(scaleIngredientForSystem(parsed, 1, "metric")).toBe("235 ml onion, diced");
+  });
+
+  it("delegates to scaleIngredient without a system", () => {
+    const parsed = parseIngredient("1 cup onion, diced");
+    expect(scaleIngredientForSystem(parsed, 2, null)).toBe("2 cup onion, diced");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatIngredientAsGrams / hasGramConversions
+// ---------------------------------------------------------------------------
+
+describe("formatIngredientAsGrams", () => {
+  it("weighs volume ingredients with a known density", () => {
+    expect(formatIngredientAsGrams(parseIngredient("2 cups all-purpose flour"))).toBe(
+      "250 g all-purpose flour",
+    );
+    expect(formatIngredientAsGrams(parseIngredient("1 tsp baking soda"))).toBe("4.5 g baking soda");
+  });
+
+  it("converts other weights to grams", () => {
+    expect(formatIngredientAsGrams(parseIngredient("4 oz butter"))).toBe("113 g butter");
+  });
+
+  it("applies the scaling ratio", () => {
+    expect(formatIngredientAsGrams(parseIngredient("1 cup sugar"), 0.5)).toBe("100 g sugar");
+  });
+
+  it("returns null when the ingredient can't be weighed", () => {
+    expect(formatIngredientAsGrams(parseIngredient("2 eggs"))).toBeNull();
+    expect(formatIngredientAsGrams(parseIngredient("1 cup chicken stock"))).toBeNull();
+    expect(formatIngredientAsGrams(parseIngredient("salt to taste"))).toBeNull();
+  });
+});
+
+describe("hasGramConversions", () => {
+  it("is true for baking-style ingredient lists", () => {
+    const parsed = ["2 cups flour", "2 eggs"].map(parseIngredient);
+    expect(hasGramConversions(parsed)).toBe(true);
+  });
+
+  it("is false when nothing is measured by volume with a known density", () => {
+    const parsed = ["1 lb chicken", "2 cloves garlic", "1 cup chicken stock"].map(parseIngredient);
+    expect(hasGramConversions(parsed)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// convertTemperatures
+// ---------------------------------------------------------------------------
+
+describe("convertTemperatures", () => {
+  it("converts Fahrenheit to Celsius rounded to 5°", () => {
+    expect(convertTemperatures("Preheat the oven to 350°F.", "metric")).toBe(
+      "Preheat the oven to 175°C.",
+    );
+    expect(convertTemperatures("Bake at 425 degrees F", "metric")).toBe("Bake at 220°C");
+  });
+
+  it("converts Celsius to Fahrenheit rounded to 25°", () => {
+    expect(convertTemperatures("Heat oven to 180°C", "us")).toBe("Heat oven to 350°F");
+    expect(convertTemperatures("Roast at 220 C for 20 minutes", "us")).toBe(
+      "Roast at 425°F for 20 minutes",
+    );
+  });
+
+  it("converts internal temperatures to the nearest degree", () => {
+    expect(convertTemperatures("Cook until it reaches 63°C inside.", "us")).toBe(
+      "Cook until it reaches 145°F inside.",
+    );
+    expect(convertTemperatures("Cook chicken to 165°F.", "metric")).toBe("Cook chicken to 74°C.");
+  });
+
+  it("handles bare three-digit values", () => {
+    expect(convertTemperatures("Bake at 400F", "metric")).toBe("Bake at 205°C");
+  });
+
+  it("does not treat short bare values as temperatures", () => {
+    expect(convertTemperatures("Add 2 C flour", "metric")).toBe("Add 2 C flour");
+  });
+
+  it("leaves text alone when it already states the target system", () => {
+    const text = "Preheat to 350°F (175°C).";
+    expect(convertTemperatures(text, "metric")).toBe(text);
+    expect(convertTemperatures(text, "us")).toBe(text);
+  });
+
+  it("returns text unchanged without a system", () => {
+    expect(convertTemperatures("Bake at 350°F", null)).toBe("Bake at 350°F");
+  });
+});
@@ -0,0 +1,292 @@
+// ---------------------------------------------------------------------------
+// Unit Converter — rewrite ingredient quantities in US customary or metric
+//
+// Builds on the same-family conversion in ingredient-aggregator and bridges
+// the US (tsp/oz) and metric (ml/g) families so "1 cup milk" can be shown as
+// "235 ml milk" and vice versa. Also converts oven temperatures in
+// instruction text (350°F ↔ 175°C).
+// ---------------------------------------------------------------------------
+
+import { formatQuantity, formatIngredientMain, scaleIngredient, type ParsedIngredient } from "./ingredient-parser";
+import { normalizeUnit, canConvertUnits, convertQuantity, convertToGrams, getIngredientDensity } from "./ingredient-aggregator";
+
+export type UnitSystem = "us" | "metric";
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  us: "US",
+  metric: "Metric",
+};
+
+// ---------------------------------------------------------------------------
+// Cross-system bridges
+// ---------------------------------------------------------------------------
+
+/** Which system each convertible normalized unit belongs to. */
+const UNIT_SYSTEM: Record<string, UnitSystem> = {
+  tsp: "us",
+  tbsp: "us",
+  cup: "us",
+  oz: "us",
+  lb: "us",
+  ml: "metric",
+  l: "metric",
+  g: "metric",
+  kg: "metric",
+};
+
+/**
+ * One anchor pair per measurement kind. A quantity is converted to the US
+ * anchor within its own family, multiplied by the factor, then converted from
+ * the metric anchor to the target unit (or the reverse).
+ */
+const BRIDGES: { us: string; metric: string; factor: number }[] = [
+  // 1 tsp = 4.92892 ml
+  { us: "tsp", metric: "ml", factor: 4.92892 },
+  // 1 oz = 28.3495 g
+  { us: "oz", metric: "g", factor: 28.3495 },
+];
+
+/** Returns the unit system of a normalized unit, or null for non-convertible units (clove, can, …). */
+export function getUnitSystem(unit: string | null): UnitSystem | null {
+  if (!unit) return null;
+  return UNIT_SYSTEM[unit] ?? null;
+}
+
+/**
+ * Convert a quantity between any two normalized units of the same kind
+ * (volume or weight), including across US and metric. Returns null when the
+ * units measure different things (e.g. cup → g).
+ */
+export function convertAcrossSystems(qty: number, from: string, to: string): number | null {
+  if (canConvertUnits(from, to)) return convertQuantity(qty, from, to);
+
+  for (const bridge of BRIDGES) {
+    if (canConvertUnits(from, bridge.us) && canConvertUnits(to, bridge.metric)) {
+      const anchored = convertQuantity(qty, from, bridge.us) * bridge.factor;
+      return convertQuantity(anchored, bridge.metric, to);
+    }
+    if (canConvertUnits(from, bridge.metric) && canConvertUnits(to, bridge.us)) {
+      const anchored = convertQuantity(qty, from, bridge.metric) / bridge.factor;
+      return convertQuantity(anchored, bridge.us, to);
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Rounding
+// ---------------------------------------------------------------------------
+
+/**
+ * Round to the nearest eighth, but snap to thirds when close so 1/3 cup
+ * doesn't come back as 3/8 after a round trip through ml.
+ */
+function roundToKitchenFraction(n: number): number {
+  const whole = Math.floor(n);
+  const frac = n - whole;
+  for (const third of [1 / 3, 2 / 3]) {
+    if (Math.abs(frac - third) < 0.04) return whole + third;
+  }
+  return Math.round(n * 8) / 8;
+}
+
+/** Round a metric quantity to a step that makes sense for its magnitude. */
+function roundMetric(n: number): number {
+  if (n < 10) return Math.round(n * 2) / 2;
+  if (n < 100) return Math.round(n);
+  return Math.round(n / 5) * 5;
+}
+
+/** Format a metric quantity as a decimal — metric recipes don't use fractions. */
+function formatMetricQuantity(n: number): string {
+  return String(parseFloat(n.toFixed(2)));
+}
+
+// ---------------------------------------------------------------------------
+// Target unit selection
+// ---------------------------------------------------------------------------
+
+interface ConvertedQuantity {
+  quantity: number;
+  unit: string;
+}
+
+/** Pick the most readable US unit for a volume in tsp or a weight in oz. */
+function pickUsUnit(qty: number, from: string): ConvertedQuantity | null {
+  const tsp = convertAcrossSystems(qty, from, "tsp");
+  if (tsp !== null) {
+    if (tsp >= 12) return { quantity: roundToKitchenFraction(tsp / 48), unit: "cup" };
+    if (tsp >= 3) return { quantity: roundToKitchenFraction(tsp / 3), unit: "tbsp" };
+    return { quantity: roundToKitchenFraction(tsp), unit: "tsp" };
+  }
+  const oz = convertAcrossSystems(qty, from, "oz");
+  if (oz !== null) {
+    if (oz >= 16) return { quantity: roundToKitchenFraction(oz / 16), unit: "lb" };
+    return { quantity: Math.max(0.25, Math.round(oz * 4) / 4), unit: "oz" };
+  }
+  return null;
+}
+
+/** Pick the most readable metric unit for a volume or weight. */
+function pickMetricUnit(qty: number, from: string): ConvertedQuantity | null {
+  const ml = convertAcrossSystems(qty, from, "ml");
+  if (ml !== null) {
+    if (ml >= 1000) return { quantity: Math.round(ml / 50) / 20, unit: "l" };
+    return { quantity: roundMetric(ml), unit: "ml" };
+  }
+  const g = convertAcrossSystems(qty, from, "g");
+  if (g !== null) {
+    if (g >= 1000) return { quantity: Math.round(g / 50) / 20, unit: "kg" };
+    return { quantity: roundMetric(g), unit: "g" };
+  }
+  return null;
+}
+
+/** Display a converted unit, pluralizing only where it reads naturally. */
+function displayUnit(unit: string, qty: number): string {
+  if (unit === "cup" && qty > 1) return "cups";
+  return unit;
+}
+
+// ---------------------------------------------------------------------------
+// Ingredient formatting
+// ---------------------------------------------------------------------------
+
+/**
+ * Return the main ingredient text (quantity + unit + name) rewritten for the
+ * given unit system. Drop-in replacement for `formatIngredientMain` — when
+ * `system` is null, or the ingredient's unit can't be converted (cloves, cans,
+ * unitless counts), the ingredient is only scaled.
+ */
+export function formatIngredientForSystem(
+  parsed: ParsedIngredient,
+  system: UnitSystem | null,
+  ratio: number = 1,
+): string {
+  if (!system || parsed.quantity === null) {
+    return formatIngredientMain(parsed, ratio);
+  }
+
+  const unit = normalizeUnit(parsed.unit);
+  const unitSystem = getUnitSystem(unit);
+  if (!unit || !unitSystem || unitSystem === system) {
+    return formatIngredientMain(parsed, ratio);
+  }
+
+  const scaled = parsed.quantity * ratio;
+  const converted = system === "metric"
+    ? pickMetricUnit(scaled, unit)
+    : pickUsUnit(scaled, unit);
+  if (!converted) return formatIngredientMain(parsed, ratio);
+
+  const qty = system === "metric"
+    ? formatMetricQuantity(converted.quantity)
+    : formatQuantity(converted.quantity);
+  const parts = [qty, displayUnit(converted.unit, converted.quantity)];
+  if (parsed.name) parts.push(parsed.name);
+  return parts.join(" ");
+}
+
+/**
+ * Scale and convert an ingredient, returning the full line including the prep
+ * note. Counterpart of `scaleIngredient` for callers that copy ingredient text
+ * elsewhere (e.g. the shopping list).
+ */
+export function scaleIngredientForSystem(
+  parsed: ParsedIngredient,
+  ratio: number,
+  system: UnitSystem | null,
+): string {
+  if (!system || parsed.quantity === null) return scaleIngredient(parsed, ratio);
+  const main = formatIngredientForSystem(parsed, system, ratio);
+  return parsed.prepNote ? `${main}, ${parsed.prepNote}` : main;
+}
+
+// ---------------------------------------------------------------------------
+// Grams — volume → weight via the ingredient density table
+// ---------------------------------------------------------------------------
+
+/**
+ * Format an ingredient by weight in grams ("1 cup flour" → "125 g flour").
+ * Returns null when the ingredient can't be weighed (unknown density, counts,
+ * cloves, …) so callers can fall back to `formatIngredientForSystem`.
+ */
+export function formatIngredientAsGrams(
+  parsed: ParsedIngredient,
+  ratio: number = 1,
+): string | null {
+  if (parsed.quantity === null) return null;
+  const grams = convertToGrams(parsed.quantity * ratio, parsed.unit, parsed.name);
+  if (grams === null) return null;
+
+  // Half grams matter for leaveners and salt; whole grams are enough otherwise
+  const rounded = grams < 10 ? Math.round(grams * 2) / 2 : Math.round(grams);
+  const parts = [formatMetricQuantity(rounded), "g"];
+  if (parsed.name) parts.push(parsed.name);
+  return parts.join(" ");
+}
+
+/**
+ * True when at least one ingredient is measured by volume and has a known
+ * density — i.e. a "show grams" toggle would change something.
+ */
+export function hasGramConversions(parsedIngredients: ParsedIngredient[]): boolean {
+  return parsedIngredients.some((p) => {
+    const unit = normalizeUnit(p.unit);
+    if (p.quantity === null || !unit) return false;
+    const isVolume = canConvertUnits(unit, "cup") || canConvertUnits(unit, "ml");
+    return isVolume && getIngredientDensity(p.name) !== null;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Temperatures in instruction text
+// ---------------------------------------------------------------------------
+
+/**
+ * Matches "350°F", "350 °F", "350 degrees F", "180 degrees Celsius", and bare
+ * "425F" / "200 C" for three-digit values (two-digit bare values like "2 C"
+ * are too often cups).
+ */
+const TEMPERATURE_PATTERN =
+  /\b(\d{2,3})\s*(°|º|degrees?)?\s*(F|C|Fahrenheit|Celsius)\b/gi;
+
+function isFahrenheit(unit: string): boolean {
+  return unit[0].toUpperCase() === "F";
+}
+
+/** Oven settings start about here; below it a temperature is the food's own. */
+const OVEN_MIN_F = 250;
+const OVEN_MIN_C = 120;
+
+/**
+ * Rewrite temperatures in free text to the given unit system. Oven
+ * temperatures are rounded to the nearest 5°C or 25°F, matching common oven
+ * dial markings; lower ones (internal and food temperatures, where a few
+ * degrees matter) to the nearest degree. Text that already mentions a
+ * temperature in the target system (e.g. "350°F (175°C)") is left alone.
+ */
+export function convertTemperatures(text: string, system: UnitSystem | null): string {
+  if (!system) return text;
+
+  const targetIsF = system === "us";
+  const matches = [...text.matchAll(TEMPERATURE_PATTERN)].filter(
+    (m) => m[2] || parseInt(m[1], 10) >= 100,
+  );
+  if (matches.some((m) => isFahrenheit(m[3]) === targetIsF)) return text;
+
+  return text.replace(TEMPERATURE_PATTERN, (match, degrees: string, marker: string | undefined, unit: string) => {
+    const value = parseInt(degrees, 10);
+    if (!marker && value < 100) return match;
+    if (isFahrenheit(unit) === targetIsF) return match;
+
+    if (targetIsF) {
+      const step = value >= OVEN_MIN_C ? 25 : 1;
+      const f = Math.round(((value * 9) / 5 + 32) / step) * step;
+      return `${f}°F`;
+    }
+    const step = value >= OVEN_MIN_F ? 5 : 1;
+    const c = Math.round(((value - 32) * 5) / 9 / step) * step;
+    return `${c}°C`;
+  });
+}
@@ -1,7 +1,7 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { useRecipeStore } from "./recipe-store";
 import { act } from "@testing-library/react";
-import type { Recipe, ScrapedRecipe } from "@/types";
+import type { Recipe, RecipeRevision, ScrapedRecipe } from "@/types";
 
 // ---------------------------------------------------------------------------
 // Mock Supabase client + service layer so store actions don't hit a real DB
@@ -23,6 +23,7 @@ vi.mock("@/lib/supabase/service", () => ({
     createdAt: new Date().toISOString(),
   }),
   updateRecipe: vi.fn().mockResolvedValue(undefined),
+  revertRecipe: vi.fn().mockResolvedValue(undefined),
   deleteRecipe: vi.fn().mockResolvedValue(undefined),
   updateRecipeTags: vi.fn().mockResolvedValue(undefined),
   toggleIngredient: vi.fn().mockResolvedValue(undefined),
@@ -40,6 +41,17 @@ vi.mock("@/lib/supabase/service", () => ({
   clearCheckedItems: vi.fn().mockResolvedValue(undefined),
   clearShoppingList: vi.fn().mockResolvedValue(undefined),
   fetchRecipes: vi.fn().mockResolvedValue([]),
+  fetchHouseholdRecipes: vi.fn().mockResolvedValue([]),
+  fetchProfile: vi.fn().mockResolvedValue({
+    id: "user-123",
+    email: null,
+    displayName: null,
+    avatarUrl: null,
+    dietaryRestrictions: ["nuts"],
+    createdAt: "2026-01-01T00:00:00Z",
+    updatedAt: "2026-01-01T00:00:00Z",
+  }),
+  updateProfile: vi.fn().mockResolvedValue(undefined),
   fetchShoppingList: vi.fn().mockResolvedValue([]),
   fetchCheckedIngredients: vi.fn().mockResolvedValue({}),
   fetchMealPlan: vi.fn().mockResolvedValue({}),
@@ -84,6 +96,37 @@ vi.mock("@/lib/supabase/service", () => ({
   restoreGroceryItems: vi.fn().mockImplementation(async (_client: unknown, items: { text: string; checked: boolean }[]) =>
     items.map((item, i) => ({ id: `restored-grocery-${i}`, text: item.text, checked: item.checked })),
   ),
+  fetchPantry: vi.fn().mockResolvedValue([]),
+  addPantryItem: vi.fn().mockImplementation(
+    async (_client: unknown, item: { name: string; quantity: number | null; unit: string | null }) => ({
+      id: `db-pantry-${Date.now()}`,
+      ...item,
+      updatedAt: new Date().toISOString(),
+    }),
+  ),
+  updatePantryItem: vi.fn().mockResolvedValue(undefined),
+  deletePantryItem: vi.fn().mockResolvedValue(undefined),
+  fetchIngredientPrices: vi.fn().mockResolvedValue([]),
+  saveIngredientPrice: vi.fn().mockImplementation(async (_client: unknown, input: object) => ({
+    id: `db-price-${Date.now()}`,
+    ...input,
+    updatedAt: new Date().toISOString(),
+  })),
+  recordPricePaid: vi.fn().mockImplementation(async (_client: unknown, input: object) => ({
+    id: `db-price-${Date.now()}`,
+    ...input,
+    updatedAt: new Date().toISOString(),
+  })),
+  deleteIngredientPrice: vi.fn().mockResolvedValue(undefined),
+  fetchGroceryStores: vi.fn().mockResolvedValue([]),
+  fetchStoreAssignments: vi.fn().mockResolvedValue({}),
+  createGroceryStore: vi.fn().mockImplementation(async (_client: unknown, store: object) => ({
+    id: `db-store-${Date.now()}`,
+    ...store,
+  })),
+  updateGroceryStore: vi.fn().mockResolvedValue(undefined),
+  deleteGroceryStore: vi.fn().mockResolvedValue(undefined),
+  assignItemToStore: vi.fn().mockResolvedValue(undefined),
 }));
 
 // ---------------------------------------------------------------------------
@@ -101,10 +144,25 @@ const makeScraped = (overrides: Partial<ScrapedRecipe> = {}): ScrapedRecipe => (
   ...overrides,
 });
 
-/** Shorthand: add a recipe optimistically and return the first recipe in state. */
+/** A saved recipe fixture. */
+const makeRecipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  id: "r1",
+  title: "Test Recipe",
+  image: null,
+  ingredients: ["1 cup flour"],
+  instructions: ["Mix ingredients"],
+  sourceUrl: "",
+  tags: [],
+  createdAt: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+let testPageCount = 0;
+
+/** Shorthand: add a recipe optimistically and return the first recipe in state. Each comes from its own page. */
 const addTestRecipe = (
   overrides: Partial<ScrapedRecipe> = {},
-  url = "https://example.com/recipe",
+  url = `https://example.com/recipe-${++testPageCount}`,
 ) => {
   getState().addRecipe(makeScraped(overrides), url);
   return getState().recipes[0];
@@ -125,16 +183,23 @@ beforeEach(() => {
   act(() => {
     useRecipeStore.setState({
       recipes: [],
+      householdRecipes: [],
       mealPlan: {},
       mealTemplates: [],
       shoppingList: [],
+      pantry: [],
+      ingredientPrices: [],
+      groceryStores: [],
+      storeAssignments: {},
       checkedIngredients: {},
       isLoading: false,
       error: null,
       cookingRecipeId: null,
       cookingCompletedSteps: new Set(),
+      dietaryRestrictions: [],
       recipeGroups: [],
       groupMembers: {},
+      pendingMutations: [],
     });
   });
 });
@@ -198,6 +263,25 @@ describe("Recipe Actions", () => {
     expect(first.id).not.toBe(second.id);
   });
 
+  it("addRecipe returns the recipe already saved from the same page instead of saving it again", () => {
+    const saved = makeRecipe({ id: "r1", sourceUrl: "https://www.example.com/chili/" });
+    useRecipeStore.setState({ recipes: [saved] });
+
+    expect(getState().addRecipe(makeScraped(), "https://example.com/chili?utm_source=x")).toBe(saved);
+    expect(
+      getState().addRecipe(makeScraped({ canonicalUrl: "https://example.com/chili" }), "https://example.com/p/42")
+    ).toBe(saved);
+    expect(getState().recipes).toEqual([saved]);
+    expect(db.addRecipe).not.toHaveBeenCalled();
+  });
+
+  it("addRecipe saves another copy of a page when asked", () => {
+    useRecipeStore.setState({ recipes: [makeRecipe({ id: "r1", sourceUrl: "https://example.com/chili" })] });
+
+    expect(getState().addRecipe(makeScraped(), "https://example.com/chili", { allowDuplicate: true })).toBeNull();
+    expect(getState().recipes).toHaveLength(2);
+  });
+
   // 4
   it("addRecipe prepends to recipes array (newest first)", () => {
     addTestRecipe({ title: "First" });
@@ -259,6 +343,76 @@ describe("Recipe Actions", () => {
     expect(updated.createdAt).toBe(recipe.createdAt);
     expect(updated.ingredients).toEqual(recipe.ingredients);
   });
+
+  it("revertRecipe restores the revision's content and saves it", async () => {
+    const recipe: Recipe = {
+      id: "r1",
+      title: "Edited",
+      image: null,
+      ingredients: ["1 lb shrimp"],
+      instructions: ["Grill."],
+      sourceUrl: "https://example.com/recipe",
+      tags: ["dinner"],
+      createdAt: "2026-10-01T00:00:00Z",
+      rating: 4,
+    };
+    useRecipeStore.setState({ recipes: [recipe] });
+    const revision: RecipeRevision = {
+      id: "rev-1",
+      recipeId: "r1",
+      kind: "original",
+      createdAt: "2026-10-01T00:00:00Z",
+      snapshot: {
+        title: "Original",
+        image: null,
+        sourceUrl: recipe.sourceUrl,
+        ingredients: ["1 cup flour"],
+        instructions: ["Mix."],
+        prepTime: null,
+        cookTime: null,
+        totalTime: null,
+        servings: "2",
+        author: null,
+        cuisineType: null,
+        difficulty: null,
+        notes: null,
+      },
+    };
+
+    await getState().revertRecipe("r1", revision);
+
+    const reverted = getState().recipes[0];
+    expect(reverted.title).toBe("Original");
+    expect(reverted.ingredients).toEqual(["1 cup flour"]);
+    expect(reverted.allergens).toEqual(["gluten"]);
+    // Tags and ratings aren't part of a revision
+    expect(reverted.tags).toEqual(["dinner"]);
+    expect(reverted.rating).toBe(4);
+    expect(db.revertRecipe).toHaveBeenCalledWith(expect.anything(), "r1", "rev-1");
+  });
+
+  it("revertRecipe rolls back when saving fails", async () => {
+    const recipe: Recipe = {
+      id: "r1",
+      title: "Edited",
+      image: null,
+      ingredients: [],
+      instructions: [],
+      sourceUrl: "",
+      tags: [],
+      createdAt: "2026-10-01T00:00:00Z",
+    };
+    useRecipeStore.setState({ recipes: [recipe] });
+    vi.mocked(db.revertRecipe).mockRejectedValueOnce(new Error("db down"));
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const revision = { id: "rev-1", recipeId: "r1", kind: "edit", createdAt: "", snapshot: { ...recipe, title: "Older" } } as RecipeRevision;
+
+    await expect(getState().revertRecipe("r1", revision)).rejects.toThrow("db down");
+
+    expect(getState().recipes[0].title).toBe("Edited");
+    expect(getState().error).toBe("Failed to revert recipe in cloud");
+    consoleSpy.mockRestore();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -660,6 +814,59 @@ describe("Lifecycle Actions", () => {
     expect(result).toEqual({ migrated: false, recipeCount: 0 });
     localStorage.removeItem("cooksnap-storage");
   });
+
+  // 30
+  it("importRecipes skips duplicate source URLs, however they are written, and carries over extras", async () => {
+    const imported = (title: string, sourceUrl: string): Recipe => ({
+      id: "import-0",
+      title,
+      image: null,
+      ingredients: ["1 egg"],
+      instructions: ["Fry"],
+      sourceUrl,
+      tags: ["Breakfast"],
+      createdAt: "2025-01-01T00:00:00Z",
+      rating: 5,
+      isFavorite: true,
+    });
+
+    act(() => {
+      useRecipeStore.setState({ recipes: [imported("Existing", "https://example.com/existing")] });
+    });
+
+    const result = await getState().importRecipes([
+      imported("Existing", "https://example.com/existing"),
+      imported("Eggs", "https://example.com/eggs"),
+      imported("Eggs again", "https://www.example.com/eggs/?utm_source=newsletter"),
+      imported("No source", ""),
+    ]);
+
+    expect(result).toEqual({ imported: 2, duplicates: 2, failed: 0 });
+    expect(db.addRecipe).toHaveBeenCalledTimes(2);
+    expect(db.updateRecipeTags).toHaveBeenCalledWith(expect.anything(), "db-id", ["Breakfast"]);
+    expect(db.updateRecipe).toHaveBeenCalledWith(expect.anything(), "db-id", { rating: 5, isFavorite: true });
+  });
+
+  // 31
+  it("importRecipes keeps going when a recipe fails to save", async () => {
+    vi.mocked(db.addRecipe).mockRejectedValueOnce(new Error("insert failed"));
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const recipe = (title: string): Recipe => ({
+      id: "import-0",
+      title,
+      image: null,
+      ingredients: ["1 egg"],
+      instructions: [],
+      sourceUrl: "",
+      tags: [],
+      createdAt: "2025-01-01T00:00:00Z",
+    });
+    const result = await getState().importRecipes([recipe("Bad"), recipe("Good")]);
+
+    expect(result).toEqual({ imported: 1, duplicates: 0, failed: 1 });
+    consoleSpy.mockRestore();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -722,6 +929,97 @@ describe("Cooking Mode", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Preferences
+// ---------------------------------------------------------------------------
+
+describe("Preferences", () => {
+  it("setUnitSystem updates state and persists to localStorage", () => {
+    getState().setUnitSystem("metric");
+    expect(getState().unitSystem).toBe("metric");
+    expect(localStorage.getItem("cooksnap:units")).toBe("metric");
+
+    getState().setUnitSystem(null);
+    expect(getState().unitSystem).toBeNull();
+    expect(localStorage.getItem("cooksnap:units")).toBeNull();
+  });
+
+  it("hydrate restores the unit system from localStorage", async () => {
+    localStorage.setItem("cooksnap:units", "us");
+    await getState().hydrate();
+    expect(getState().unitSystem).toBe("us");
+    localStorage.removeItem("cooksnap:units");
+  });
+
+  it("setPlanGoals persists targets and hydrate restores them", async () => {
+    getState().setPlanGoals({ dailyCalories: 2000, weeklyBudget: 150 });
+    expect(JSON.parse(localStorage.getItem("cooksnap:plan-goals")!)).toEqual({ dailyCalories: 2000, weeklyBudget: 150 });
+
+    useRecipeStore.setState({ planGoals: { dailyCalories: null, weeklyBudget: null } });
+    await getState().hydrate();
+    expect(getState().planGoals).toEqual({ dailyCalories: 2000, weeklyBudget: 150 });
+
+    getState().setPlanGoals({ dailyCalories: null, weeklyBudget: null });
+    expect(localStorage.getItem("cooksnap:plan-goals")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Dietary classification and restrictions
+// ---------------------------------------------------------------------------
+
+describe("Dietary", () => {
+  it("addRecipe classifies the optimistic recipe", () => {
+    const recipe = addTestRecipe({ ingredients: ["1 cup flour", "2 eggs"] });
+    expect(recipe.allergens).toEqual(["gluten", "egg"]);
+    expect(recipe.diets).toEqual(["vegetarian"]);
+  });
+
+  it("updateRecipe reclassifies when the ingredients change", () => {
+    const recipe = addTestRecipe({ ingredients: ["1 cup flour"] });
+    getState().updateRecipe(recipe.id, { ingredients: ["1 lb shrimp"] });
+
+    const updated = getState().recipes[0];
+    expect(updated.allergens).toEqual(["shellfish"]);
+    expect(updated.diets).toEqual([]);
+  });
+
+  it("hydrate loads the household restrictions from the profile", async () => {
+    await getState().hydrate();
+    expect(getState().dietaryRestrictions).toEqual(["nuts"]);
+  });
+
+  it("hydrate still loads when the profile can't be fetched", async () => {
+    vi.mocked(db.fetchProfile).mockRejectedValueOnce(new Error("no profile"));
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await getState().hydrate();
+
+    expect(getState().error).toBeNull();
+    expect(getState().dietaryRestrictions).toEqual([]);
+    consoleSpy.mockRestore();
+  });
+
+  it("setDietaryRestrictions saves to the profile", async () => {
+    await getState().setDietaryRestrictions(["nuts", "vegetarian"]);
+
+    expect(getState().dietaryRestrictions).toEqual(["nuts", "vegetarian"]);
+    expect(db.updateProfile).toHaveBeenCalledWith(expect.anything(), { dietary_restrictions: ["nuts", "vegetarian"] });
+  });
+
+  it("setDietaryRestrictions rolls back on failure", async () => {
+    useRecipeStore.setState({ dietaryRestrictions: ["egg"] });
+    vi.mocked(db.updateProfile).mockRejectedValueOnce(new Error("offline"));
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await getState().setDietaryRestrictions(["egg", "soy"]);
+
+    expect(getState().dietaryRestrictions).toEqual(["egg"]);
+    expect(getState().error).toBe("Failed to save dietary restrictions");
+    consoleSpy.mockRestore();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Supabase Sync (verify service functions are called)
 // ---------------------------------------------------------------------------
@@ -848,7 +1146,9 @@ describe("Supabase Sync", () => {
 
 describe("Hydration – Meal Plan", () => {
   it("hydrate now fetches meal plan data", async () => {
-    const mockMealPlan = { "2026-02-22": { dinner: "r1" } };
+    const mockMealPlan = {
+      "2026-02-22": { breakfast: [], lunch: [], dinner: [{ recipeId: "r1", isLeftover: false, position: 0 }], snack: [] },
+    };
     vi.mocked(db.fetchRecipes).mockResolvedValueOnce([]);
     vi.mocked(db.fetchShoppingList).mockResolvedValueOnce([]);
     vi.mocked(db.fetchCheckedIngredients).mockResolvedValueOnce({});
@@ -861,6 +1161,26 @@ describe("Hydration – Meal Plan", () => {
     expect(db.fetchMealPlan).toHaveBeenCalled();
     expect(getState().mealPlan).toEqual(mockMealPlan);
   });
+
+  it("hydrate loads housemates' planned recipes outside the library", async () => {
+    const own = makeRecipe({ id: "r1", ownerId: "user-123" });
+    const theirs = makeRecipe({ id: "r2", ownerId: "user-456" });
+    const day = (...ids: string[]) => ({
+      breakfast: [],
+      lunch: [],
+      dinner: ids.map((recipeId, position) => ({ recipeId, isLeftover: false, position })),
+      snack: [],
+    });
+    vi.mocked(db.fetchRecipes).mockResolvedValueOnce([own]);
+    vi.mocked(db.fetchMealPlan).mockResolvedValueOnce({ "2026-02-22": day("r1", "r2") });
+    vi.mocked(db.fetchHouseholdRecipes).mockResolvedValueOnce([theirs]);
+
+    await getState().hydrate();
+
+    expect(db.fetchHouseholdRecipes).toHaveBeenCalledWith(expect.anything(), ["r2"]);
+    expect(getState().recipes).toEqual([own]);
+    expect(getState().householdRecipes).toEqual([theirs]);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -870,19 +1190,34 @@ describe("Hydration – Meal Plan", () => {
 describe("fetchMealPlanForWeek", () => {
   it("merges fetched data into existing mealPlan", async () => {
     // Pre-populate with existing data
+    const existing = { breakfast: [{ recipeId: "r1", isLeftover: false, position: 0 }], lunch: [], dinner: [], snack: [] };
+    const fetched = { breakfast: [], lunch: [{ recipeId: "r2", isLeftover: false, position: 0 }], dinner: [], snack: [] };
     useRecipeStore.setState({
-      mealPlan: { "2026-02-22": { breakfast: "r1" } },
+      recipes: [makeRecipe({ id: "r1" }), makeRecipe({ id: "r2" })],
+      mealPlan: { "2026-02-22": existing },
     });
 
+    vi.mocked(db.fetchMealPlan).mockResolvedValueOnce({ "2026-03-01": fetched });
+
+    await getState().fetchMealPlanForWeek("2026-03-01", "2026-03-07");
+
+    const plan = getState().mealPlan;
+    expect(plan["2026-02-22"]).toEqual(existing);
+    expect(plan["2026-03-01"]).toEqual(fetched);
+    expect(db.fetchHouseholdRecipes).not.toHaveBeenCalled();
+  });
+
+  it("loads housemates' recipes the fetched week holds", async () => {
+    const theirs = makeRecipe({ id: "r9", ownerId: "user-456" });
     vi.mocked(db.fetchMealPlan).mockResolvedValueOnce({
-      "2026-03-01": { lunch: "r2" },
+      "2026-03-01": { breakfast: [], lunch: [{ recipeId: "r9", isLeftover: false, position: 0 }], dinner: [], snack: [] },
     });
+    vi.mocked(db.fetchHouseholdRecipes).mockResolvedValueOnce([theirs]);
 
     await getState().fetchMealPlanForWeek("2026-03-01", "2026-03-07");
 
-    const plan = getState().mealPlan;
-    expect(plan["2026-02-22"]).toEqual({ breakfast: "r1" });
-    expect(plan["2026-03-01"]).toEqual({ lunch: "r2" });
+    expect(getState().householdRecipes).toEqual([theirs]);
+    expect(getState().recipes).toEqual([]);
   });
 });
 
@@ -918,6 +1253,383 @@ describe("Shopping List – Snack & Leftovers", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Realtime Sync
+// ---------------------------------------------------------------------------
+
+describe("Realtime Sync", () => {
+  it("applies a housemate checking off an item", () => {
+    useRecipeStore.setState({ shoppingList: [{ id: "s1", text: "Milk", checked: false }] });
+
+    getState().applyHouseholdChange({
+      table: "shopping_items",
+      type: "upsert",
+      item: { id: "s1", text: "Milk", checked: true },
+    });
+
+    expect(getState().shoppingList).toEqual([{ id: "s1", text: "Milk", checked: true }]);
+  });
+
+  it("claims an optimistic temp item instead of adding a duplicate", async () => {
+    let resolveAdd!: (item: { id: string; text: string; checked: boolean }) => void;
+    vi.mocked(db.addShoppingItem).mockReturnValueOnce(new Promise((r) => { resolveAdd = r; }));
+
+    const adding = getState().addShoppingItem("Eggs");
+    expect(getState().shoppingList[0].id).toMatch(/^temp-/);
+
+    // The realtime insert lands before the insert's own response
+    getState().applyHouseholdChange({
+      table: "shopping_items",
+      type: "upsert",
+      item: { id: "s-eggs", text: "Eggs", checked: false },
+    });
+    resolveAdd({ id: "s-eggs", text: "Eggs", checked: false });
+    await adding;
+
+    expect(getState().shoppingList).toEqual([{ id: "s-eggs", text: "Eggs", checked: false }]);
+  });
+
+  it("appends items added on another device and removes deleted ones", () => {
+    useRecipeStore.setState({ groceryList: [{ id: "g1", text: "Soap", checked: false }] });
+
+    getState().applyHouseholdChange({
+      table: "grocery_items",
+      type: "upsert",
+      item: { id: "g2", text: "Sponges", checked: false },
+    });
+    getState().applyHouseholdChange({ table: "grocery_items", type: "delete", id: "g1" });
+
+    expect(getState().groceryList).toEqual([{ id: "g2", text: "Sponges", checked: false }]);
+  });
+
+  it("leaves state untouched for deletes of rows it doesn't hold", () => {
+    const shoppingList = [{ id: "s1", text: "Milk", checked: false }];
+    useRecipeStore.setState({ shoppingList });
+
+    getState().applyHouseholdChange({ table: "shopping_items", type: "delete", id: "other-household" });
+    getState().applyHouseholdChange({ table: "meal_plans", type: "delete", id: "other-household" });
+
+    expect(getState().shoppingList).toBe(shoppingList);
+  });
+
+  it("merges meal plan entries by recipe and removes them by row id", () => {
+    getState().assignMeal("2026-02-22", "dinner", "r1");
+
+    getState().applyHouseholdChange({
+      table: "meal_plans",
+      type: "upsert",
+      date: "2026-02-22",
+      slot: "dinner",
+      entry: { id: "m1", recipeId: "r1", isLeftover: false, position: 0 },
+    });
+    getState().applyHouseholdChange({
+      table: "meal_plans",
+      type: "upsert",
+      date: "2026-02-22",
+      slot: "dinner",
+      entry: { id: "m2", recipeId: "r2", isLeftover: false, position: 1 },
+    });
+    expect(getState().mealPlan["2026-02-22"].dinner.map((e) => e.id)).toEqual(["m1", "m2"]);
+
+    getState().applyHouseholdChange({ table: "meal_plans", type: "delete", id: "m1" });
+    expect(getState().mealPlan["2026-02-22"].dinner.map((e) => e.recipeId)).toEqual(["r2"]);
+  });
+
+  it("loads a recipe a housemate plans that this device hasn't seen", async () => {
+    useRecipeStore.setState({ recipes: [makeRecipe({ id: "r1" })] });
+    const theirs = makeRecipe({ id: "r9", title: "Their Curry", ownerId: "user-456" });
+    vi.mocked(db.fetchHouseholdRecipes).mockResolvedValueOnce([theirs]);
+
+    getState().applyHouseholdChange({
+      table: "meal_plans",
+      type: "upsert",
+      date: "2026-02-22",
+      slot: "dinner",
+      entry: { id: "m9", recipeId: "r9", isLeftover: false, position: 0 },
+    });
+
+    await vi.waitFor(() => expect(getState().householdRecipes).toEqual([theirs]));
+    expect(db.fetchHouseholdRecipes).toHaveBeenCalledWith(expect.anything(), ["r9"]);
+  });
+
+  it("resyncHousehold replaces lists with the server's, keeping unsaved items", async () => {
+    useRecipeStore.setState({
+      shoppingList: [
+        { id: "s1", text: "Milk", checked: false },
+        { id: "temp-1-1", text: "Bread", checked: false },
+      ],
+    });
+    vi.mocked(db.fetchShoppingList).mockResolvedValueOnce([{ id: "s1", text: "Milk", checked: true }]);
+    vi.mocked(db.fetchGroceryList).mockResolvedValueOnce([]);
+
+    await getState().resyncHousehold();
+
+    expect(getState().shoppingList).toEqual([
+      { id: "s1", text: "Milk", checked: true },
+      { id: "temp-1-1", text: "Bread", checked: false },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Offline Queue
+// ---------------------------------------------------------------------------
+
+describe("Offline Queue", () => {
+  let online = true;
+  let onLineSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    online = true;
+    onLineSpy = vi.spyOn(navigator, "onLine", "get").mockImplementation(() => online);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    onLineSpy.mockRestore();
+  });
+
+  it("queues calls made offline and keeps the optimistic state", async () => {
+    useRecipeStore.setState({ shoppingList: [{ id: "s1", text: "Milk", checked: false }] });
+    online = false;
+
+    await getState().toggleShoppingItem("s1");
+
+    expect(db.toggleShoppingItem).not.toHaveBeenCalled();
+    expect(getState().shoppingList[0].checked).toBe(true);
+    expect(getState().pendingMutations).toMatchObject([{ op: "toggleShoppingItem", args: ["s1", true] }]);
+    expect(getState().error).toBeNull();
+  });
+
+  it("queues a call whose request never reaches the server instead of rolling back", async () => {
+    useRecipeStore.setState({ shoppingList: [{ id: "s1", text: "Milk", checked: false }] });
+    vi.mocked(db.toggleShoppingItem).mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+    await getState().toggleShoppingItem("s1");
+
+    expect(getState().shoppingList[0].checked).toBe(true);
+    expect(getState().pendingMutations).toHaveLength(1);
+  });
+
+  it("still rolls back calls the server refuses", async () => {
+    useRecipeStore.setState({ shoppingList: [{ id: "s1", text: "Milk", checked: false }] });
+    vi.mocked(db.toggleShoppingItem).mockRejectedValueOnce(new Error("permission denied"));
+
+    await getState().toggleShoppingItem("s1");
+
+    expect(getState().shoppingList[0].checked).toBe(false);
+    expect(getState().pendingMutations).toHaveLength(0);
+    expect(getState().error).toBe("Failed to update shopping item");
+  });
+
+  it("replays in order, swapping an add's temp id for the saved one", async () => {
+    online = false;
+    await getState().addShoppingItem("Eggs");
+    const tempId = getState().shoppingList[0].id;
+    await getState().toggleShoppingItem(tempId);
+    expect(getState().pendingMutations.map((m) => m.op)).toEqual(["addShoppingItem", "toggleShoppingItem"]);
+
+    online = true;
+    vi.mocked(db.addShoppingItem).mockResolvedValueOnce({ id: "db-Eggs", text: "Eggs", checked: false });
+    vi.mocked(db.fetchShoppingList).mockResolvedValueOnce([{ id: "db-Eggs", text: "Eggs", checked: true }]);
+    await getState().flushQueue();
+
+    expect(db.addShoppingItem).toHaveBeenCalledWith(expect.anything(), "Eggs");
+    expect(db.toggleShoppingItem).toHaveBeenCalledWith(expect.anything(), "db-Eggs", true);
+    expect(getState().pendingMutations).toHaveLength(0);
+    expect(getState().shoppingList).toEqual([{ id: "db-Eggs", text: "Eggs", checked: true }]);
+  });
+
+  it("drops calls the server refuses on replay and reports them", async () => {
+    online = false;
+    await getState().removeMealFromSlot("2026-02-22", "dinner", "r1");
+    await getState().addShoppingItem("Bread");
+
+    online = true;
+    vi.mocked(db.removeMeal).mockRejectedValueOnce(new Error("violates foreign key constraint"));
+    await getState().flushQueue();
+
+    expect(db.addShoppingItem).toHaveBeenCalled();
+    expect(getState().pendingMutations).toHaveLength(0);
+    expect(getState().error).toBe("A change made offline couldn't be saved");
+  });
+
+  it("keeps the queue and retries later while the server is unreachable", async () => {
+    online = false;
+    await getState().clearShoppingList();
+
+    online = true;
+    vi.mocked(db.clearShoppingList).mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    await getState().flushQueue();
+    expect(getState().pendingMutations).toMatchObject([{ op: "clearShoppingList", attempts: 1 }]);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(db.clearShoppingList).toHaveBeenCalledTimes(2);
+    expect(getState().pendingMutations).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pantry
+// ---------------------------------------------------------------------------
+
+describe("Pantry", () => {
+  it("generateShoppingList subtracts pantry stock", () => {
+    const recipe = addTestRecipe({
+      ingredients: ["3 cups rice", "1 tsp ground cumin", "2 eggs"],
+    });
+    useRecipeStore.setState({
+      pantry: [
+        { id: "p1", name: "rice", quantity: 1, unit: "cup", updatedAt: "" },
+        { id: "p2", name: "ground cumin", quantity: null, unit: null, updatedAt: "" },
+      ],
+    });
+
+    getState().assignMeal("2026-02-22", "dinner", recipe.id);
+    getState().generateShoppingList(["2026-02-22"]);
+
+    expect(getState().shoppingList.map((i) => i.text)).toEqual(["2 cups rice", "2 eggs"]);
+  });
+
+  it("addPantryItem adds optimistically and swaps in the saved row", async () => {
+    getState().addPantryItem("rice", 2, "cup");
+    expect(getState().pantry[0].id).toMatch(/^temp-/);
+
+    await vi.waitFor(() => expect(getState().pantry[0].id).toMatch(/^db-pantry-/));
+    expect(db.addPantryItem).toHaveBeenCalledWith(expect.anything(), { name: "rice", quantity: 2, unit: "cup" });
+  });
+
+  it("removePantryItem rolls back on failure", async () => {
+    const item = { id: "p1", name: "rice", quantity: 1, unit: "cup", updatedAt: "" };
+    useRecipeStore.setState({ pantry: [item] });
+    vi.mocked(db.deletePantryItem).mockRejectedValueOnce(new Error("offline"));
+
+    getState().removePantryItem("p1");
+    expect(getState().pantry).toHaveLength(0);
+
+    await vi.waitFor(() => expect(getState().pantry).toEqual([item]));
+    expect(getState().error).toBe("Failed to remove pantry item");
+  });
+
+  it("addShoppingItemToPantry restocks an existing entry", () => {
+    useRecipeStore.setState({
+      shoppingList: [{ id: "s1", text: "2 cups rice", checked: true }],
+      pantry: [{ id: "p1", name: "Rice", quantity: 1, unit: "cup", updatedAt: "" }],
+    });
+
+    getState().addShoppingItemToPantry("s1");
+
+    expect(getState().pantry[0]).toMatchObject({ id: "p1", quantity: 3, unit: "cup" });
+    expect(db.updatePantryItem).toHaveBeenCalledWith(expect.anything(), "p1", { quantity: 3, unit: "cup" });
+  });
+
+  it("addShoppingItemToPantry creates a new entry for unknown ingredients", () => {
+    useRecipeStore.setState({
+      shoppingList: [{ id: "s1", text: "1 jar ground cumin", checked: true }],
+    });
+
+    getState().addShoppingItemToPantry("s1");
+
+    expect(db.addPantryItem).toHaveBeenCalledTimes(1);
+    expect(getState().pantry).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Ingredient Prices
+// ---------------------------------------------------------------------------
+
+describe("Ingredient Prices", () => {
+  const price = {
+    id: "ip1", name: "chicken thigh", store: null, price: 6, quantity: 1, unit: "lb", updatedAt: "2026-10-01T00:00:00Z",
+  };
+
+  it("saveIngredientPrice replaces the price for the same ingredient and store", async () => {
+    useRecipeStore.setState({ ingredientPrices: [price] });
+
+    getState().saveIngredientPrice({ name: "chicken thigh", store: null, price: 7, quantity: 1, unit: "lb" });
+    expect(getState().ingredientPrices).toHaveLength(1);
+    expect(getState().ingredientPrices[0].price).toBe(7);
+
+    await vi.waitFor(() => expect(getState().ingredientPrices[0].id).toMatch(/^db-price-/));
+  });
+
+  it("checkOffWithPrice checks the item and records the price paid", async () => {
+    useRecipeStore.setState({
+      groceryList: [{ id: "g1", text: "2 lb chicken thighs", checked: false }],
+      ingredientPrices: [price],
+    });
+
+    getState().checkOffWithPrice("grocery", "g1", 7.98, " Costco ");
+
+    expect(getState().groceryList[0].checked).toBe(true);
+    expect(db.recordPricePaid).toHaveBeenCalledWith(expect.anything(), {
+      name: "chicken thigh", store: "Costco", price: 7.98, quantity: 2, unit: "lb",
+    });
+    await vi.waitFor(() => expect(getState().ingredientPrices).toHaveLength(2));
+  });
+
+  it("checkOffWithPrice rolls back prices on failure but keeps the item checked", async () => {
+    useRecipeStore.setState({
+      shoppingList: [{ id: "s1", text: "bananas", checked: false }],
+      ingredientPrices: [price],
+    });
+    vi.mocked(db.recordPricePaid).mockRejectedValueOnce(new Error("offline"));
+
+    getState().checkOffWithPrice("shopping", "s1", 1.5, null);
+
+    await vi.waitFor(() => expect(getState().error).toBe("Failed to record price"));
+    expect(getState().ingredientPrices).toEqual([price]);
+    expect(getState().shoppingList[0].checked).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Grocery Stores
+// ---------------------------------------------------------------------------
+
+describe("Grocery Stores", () => {
+  const costco = { id: "st1", name: "Costco", aisleOrder: [], sortOrder: 0 };
+
+  it("assignItemToStore keys the assignment by ingredient name", () => {
+    useRecipeStore.setState({ groceryStores: [costco] });
+
+    getState().assignItemToStore("2 lb chicken thighs", "st1");
+
+    expect(getState().storeAssignments).toEqual({ "chicken thigh": "st1" });
+    expect(db.assignItemToStore).toHaveBeenCalledWith(expect.anything(), "chicken thigh", "st1");
+
+    getState().assignItemToStore("chicken thighs", null);
+    expect(getState().storeAssignments).toEqual({});
+  });
+
+  it("saves assignments made while a new store is still being created", async () => {
+    getState().createGroceryStore("Market");
+    const tempId = getState().groceryStores[0].id;
+
+    getState().assignItemToStore("eggs", tempId);
+    expect(db.assignItemToStore).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(getState().groceryStores[0].id).toMatch(/^db-store-/));
+    const savedId = getState().groceryStores[0].id;
+    expect(getState().storeAssignments).toEqual({ egg: savedId });
+    expect(db.assignItemToStore).toHaveBeenCalledWith(expect.anything(), "egg", savedId);
+  });
+
+  it("deleteGroceryStore drops its assignments and rolls back on failure", async () => {
+    useRecipeStore.setState({ groceryStores: [costco], storeAssignments: { egg: "st1" } });
+    vi.mocked(db.deleteGroceryStore).mockRejectedValueOnce(new Error("offline"));
+
+    getState().deleteGroceryStore("st1");
+    expect(getState().storeAssignments).toEqual({});
+
+    await vi.waitFor(() => expect(getState().error).toBe("Failed to delete store"));
+    expect(getState().groceryStores).toEqual([costco]);
+    expect(getState().storeAssignments).toEqual({ egg: "st1" });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Meal Templates
 // ---------------------------------------------------------------------------
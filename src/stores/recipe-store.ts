@@ -6,18 +6,42 @@ import * as db from "@/lib/supabase/service";
 import type {
   Recipe,
   RecipeGroup,
+  RecipeRevision,
   MealPlan,
   MealPlanDay,
   MealSlotEntry,
   MealTemplate,
   ShoppingItem,
   GroceryItem,
+  PantryItem,
+  IngredientPrice,
+  GroceryStore,
+  StoreAssignments,
   ScrapedRecipe,
   MealSlot,
+  PlanGoals,
+  DietaryRestriction,
 } from "@/types";
 import { SLOTS } from "@/lib/constants";
 import { getTodayISO, getWeekDates } from "@/lib/utils";
-import { aggregateIngredients } from "@/lib/ingredient-aggregator";
+import { aggregateIngredients, subtractPantry, restockPantryItem, normalizeIngredientName } from "@/lib/ingredient-aggregator";
+import { parseIngredient } from "@/lib/ingredient-parser";
+import type { UnitSystem } from "@/lib/unit-converter";
+import { priceFromItem } from "@/lib/cost";
+import { storeAssignmentKey } from "@/lib/shopping-stores";
+import { classifyIngredients } from "@/lib/dietary";
+import { canonicalizeUrl, findRecipeBySourceUrl } from "@/lib/canonical-url";
+import {
+  isOffline,
+  isNetworkError,
+  retryDelay,
+  replaceId,
+  loadOffline,
+  saveOffline,
+  clearOffline,
+  type QueuedMutation,
+  type OfflineSnapshot,
+} from "@/lib/offline";
 
 function getClient() {
   return createClient();
@@ -35,6 +59,129 @@ function nextTempId() {
   return `temp-${Date.now()}-${++tempIdCounter}`;
 }
 
+/** Whether an item is an optimistic placeholder that hasn't been saved yet. */
+function isTempId(id: string): boolean {
+  return id.startsWith("temp-");
+}
+
+/** The prev/current/next week window hydrate loads the meal plan for. */
+function mealPlanWindow(): [start: string, end: string] {
+  return [getWeekDates(-1)[0], getWeekDates(1)[6]];
+}
+
+/**
+ * Swap an optimistic item for the saved one. A realtime event may have
+ * delivered the saved row already, in which case the placeholder just goes.
+ */
+function replaceTemp<T extends { id: string }>(list: T[], tempId: string, saved: T): T[] {
+  if (list.some((i) => i.id === saved.id)) return list.filter((i) => i.id !== tempId);
+  return list.map((i) => (i.id === tempId ? saved : i));
+}
+
+/**
+ * Merge a list item from a realtime insert or update. If this device added
+ * it optimistically it is still under a temp id, so the first placeholder
+ * with the same text takes the row over instead of the item showing twice.
+ */
+function upsertListItem<T extends { id: string; text: string }>(list: T[], item: T): T[] {
+  if (list.some((i) => i.id === item.id)) return list.map((i) => (i.id === item.id ? item : i));
+  const tempIdx = list.findIndex((i) => isTempId(i.id) && i.text === item.text);
+  if (tempIdx >= 0) return list.map((i, idx) => (idx === tempIdx ? item : i));
+  return [...list, item];
+}
+
+/** Drop a list item by id, keeping the same array when it isn't there. */
+function removeListItem<T extends { id: string }>(list: T[], id: string): T[] {
+  return list.some((i) => i.id === id) ? list.filter((i) => i.id !== id) : list;
+}
+
+/** Drop a meal plan entry by row id, keeping the same plan when it isn't there. */
+function removeMealEntry(plan: MealPlan, id: string): MealPlan {
+  for (const [date, day] of Object.entries(plan)) {
+    for (const slot of SLOTS) {
+      if (day[slot].some((e) => e.id === id)) {
+        return { ...plan, [date]: { ...day, [slot]: day[slot].filter((e) => e.id !== id) } };
+      }
+    }
+  }
+  return plan;
+}
+
+/**
+ * Merge a meal plan entry from a realtime insert or update. A slot holds a
+ * recipe at most once, so an optimistic entry (which has no id yet) is
+ * matched by recipe.
+ */
+function upsertMealEntry(plan: MealPlan, date: string, slot: MealSlot, entry: MealSlotEntry): MealPlan {
+  const next = entry.id ? removeMealEntry(plan, entry.id) : plan;
+  const day: MealPlanDay = next[date] || { breakfast: [], lunch: [], dinner: [], snack: [] };
+  const entries = [...day[slot].filter((e) => e.recipeId !== entry.recipeId), entry]
+    .sort((a, b) => a.position - b.position);
+  return { ...next, [date]: { ...day, [slot]: entries } };
+}
+
+/** Recipe ids the meal plan holds that aren't among `known` (temp ids aside). */
+function missingPlanRecipeIds(plan: MealPlan, known: Recipe[]): string[] {
+  const ids = new Set(known.map((r) => r.id));
+  const missing = new Set<string>();
+  for (const day of Object.values(plan)) {
+    for (const slot of SLOTS) {
+      for (const entry of day[slot]) {
+        if (!ids.has(entry.recipeId) && !isTempId(entry.recipeId)) missing.add(entry.recipeId);
+      }
+    }
+  }
+  return [...missing];
+}
+
+/** Replace the price for the same ingredient and store, or add it. */
+function withPrice(prices: IngredientPrice[], price: IngredientPrice): IngredientPrice[] {
+  const rest = prices.filter((p) => !(p.name === price.name && p.store === price.store));
+  return [...rest, price].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Inserts a full Recipe (from localStorage migration or a file import) as a
+ * new row, then carries over tags and the user-editable extras that
+ * `db.addRecipe` doesn't take.
+ */
+async function saveRecipeCopy(client: ReturnType<typeof getClient>, recipe: Recipe): Promise<void> {
+  const scraped: ScrapedRecipe = {
+    title: recipe.title,
+    image: recipe.image,
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    totalTime: recipe.totalTime,
+    servings: recipe.servings,
+    author: recipe.author,
+    cuisineType: recipe.cuisineType,
+    description: recipe.description,
+    nutrition: recipe.nutrition,
+    categories: recipe.categories,
+    keywords: recipe.keywords,
+    suitableForDiet: recipe.suitableForDiet,
+    video: recipe.video,
+    aggregateRating: recipe.aggregateRating,
+  };
+  const newRecipe = await db.addRecipe(client, scraped, recipe.sourceUrl);
+
+  if (recipe.tags && recipe.tags.length > 0) {
+    await db.updateRecipeTags(client, newRecipe.id, recipe.tags);
+  }
+
+  // Extra fields (difficulty, rating, isFavorite, notes)
+  const extras: Partial<Omit<Recipe, "id" | "createdAt">> = {};
+  if (recipe.difficulty) extras.difficulty = recipe.difficulty;
+  if (recipe.rating != null) extras.rating = recipe.rating;
+  if (recipe.isFavorite) extras.isFavorite = recipe.isFavorite;
+  if (recipe.notes) extras.notes = recipe.notes;
+  if (Object.keys(extras).length > 0) {
+    await db.updateRecipe(client, newRecipe.id, extras);
+  }
+}
+
 /**
  * Converts old-format template days (string slot values + leftovers map)
  * to the new array-based MealPlanDay format. No-ops on already-migrated data.
@@ -86,12 +233,227 @@ function migrateTemplateDays(
   return result;
 }
 
+// ---------------------------------------------------------------------------
+// Offline queue
+// ---------------------------------------------------------------------------
+
+/** Service calls that can wait in the offline queue. */
+type QueueableOp =
+  | "addRecipe" | "updateRecipe" | "revertRecipe" | "deleteRecipe" | "updateRecipeTags"
+  | "toggleIngredient" | "clearCheckedIngredients"
+  | "assignMeal" | "removeMeal" | "clearWeek"
+  | "addShoppingItem" | "toggleShoppingItem" | "uncheckAllShoppingItems" | "clearCheckedItems" | "clearShoppingList"
+  | "addGroceryItem" | "toggleGroceryItem" | "uncheckAllGroceryItems" | "clearCheckedGroceryItems" | "clearGroceryList"
+  | "addPantryItem" | "updatePantryItem" | "deletePantryItem";
+type OpArgs<K extends QueueableOp> = (typeof db)[K] extends (client: never, ...args: infer A) => unknown ? A : never;
+type OpResult<K extends QueueableOp> = Awaited<ReturnType<(typeof db)[K]>>;
+
+function callOp<K extends QueueableOp>(op: K, args: OpArgs<K>): Promise<OpResult<K>> {
+  const fn = db[op] as (client: ReturnType<typeof getClient>, ...args: unknown[]) => Promise<OpResult<K>>;
+  return fn(getClient(), ...args);
+}
+
+/**
+ * Make the service call behind an optimistic update — or, offline, queue it
+ * for replay and resolve to undefined, keeping the optimistic state. Calls
+ * also queue behind ones already waiting (so they replay in order) and when
+ * the request doesn't reach the server. Any other failure is thrown for the
+ * caller to roll back as usual. `tempId` is the placeholder an add created.
+ */
+async function runOrQueue<K extends QueueableOp>(
+  op: K,
+  args: OpArgs<K>,
+  tempId?: string
+): Promise<OpResult<K> | undefined> {
+  if (!isOffline() && useRecipeStore.getState().pendingMutations.length === 0) {
+    try {
+      return await callOp(op, args);
+    } catch (e) {
+      if (!isNetworkError(e)) throw e;
+    }
+  }
+
+  const mutation: QueuedMutation<QueueableOp> = {
+    id: nextTempId(),
+    op,
+    args,
+    tempId,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  useRecipeStore.setState((state) => ({ pendingMutations: [...state.pendingMutations, mutation] }));
+  scheduleReplay(0);
+  return undefined;
+}
+
+let replaying = false;
+let replayTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Try the queue again after a delay (replaces any retry already scheduled). */
+function scheduleReplay(delay: number) {
+  if (replayTimer) clearTimeout(replayTimer);
+  replayTimer = setTimeout(() => {
+    replayTimer = null;
+    void useRecipeStore.getState().flushQueue();
+  }, delay);
+}
+
+/** Replay the queue unless a replay is already running (then resolves null). */
+async function replayOnce(): Promise<{ drained: boolean; dropped: number } | null> {
+  if (replaying) return null;
+  replaying = true;
+  useRecipeStore.setState({ isSyncing: true });
+  try {
+    return await replayQueue();
+  } finally {
+    replaying = false;
+    useRecipeStore.setState({ isSyncing: false });
+  }
+}
+
+/** Error text for queued calls the server refused. */
+function droppedError(dropped: number): string {
+  return dropped === 1
+    ? "A change made offline couldn't be saved"
+    : `${dropped} changes made offline couldn't be saved`;
+}
+
+/**
+ * Replay queued calls in order. Stops (and schedules a retry with backoff)
+ * as soon as one can't reach the server; a call the server refuses — its row
+ * was deleted on another device, say — is dropped, since the refetch after
+ * replay brings back the server's version. Returns whether the queue drained
+ * and how many calls were dropped.
+ */
+async function replayQueue(): Promise<{ drained: boolean; dropped: number }> {
+  const { getState, setState } = useRecipeStore;
+  let dropped = 0;
+
+  while (getState().pendingMutations.length > 0) {
+    if (isOffline()) return { drained: false, dropped };
+    const [next] = getState().pendingMutations;
+
+    let saved: unknown;
+    try {
+      saved = await callOp(next.op, next.args as OpArgs<typeof next.op>);
+    } catch (e) {
+      if (isNetworkError(e)) {
+        setState((state) => ({
+          pendingMutations: state.pendingMutations.map((m) =>
+            m.id === next.id ? { ...m, attempts: m.attempts + 1 } : m
+          ),
+        }));
+        scheduleReplay(retryDelay(next.attempts + 1));
+        return { drained: false, dropped };
+      }
+      console.error(`Failed to replay ${next.op}:`, formatError(e));
+      dropped++;
+    }
+
+    setState((state) => {
+      const pendingMutations = state.pendingMutations.filter((m) => m.id !== next.id);
+      const realId = (saved as { id?: unknown } | undefined)?.id;
+      if (!next.tempId || typeof realId !== "string") return { pendingMutations };
+
+      // The add is saved: everything still pointing at its placeholder,
+      // queued calls included, now points at the real row
+      const from = next.tempId;
+      return {
+        pendingMutations: replaceId(pendingMutations, from, realId),
+        recipes: replaceId(state.recipes, from, realId),
+        mealPlan: replaceId(state.mealPlan, from, realId),
+        shoppingList: replaceId(state.shoppingList, from, realId),
+        groceryList: replaceId(state.groceryList, from, realId),
+        pantry: replaceId(state.pantry, from, realId),
+        checkedIngredients: replaceId(state.checkedIngredients, from, realId),
+        groupMembers: replaceId(state.groupMembers, from, realId),
+        cookingRecipeId: state.cookingRecipeId === from ? realId : state.cookingRecipeId,
+      };
+    });
+  }
+
+  return { drained: true, dropped };
+}
+
+/** The parts of the store kept in the offline snapshot. */
+const SNAPSHOT_FIELDS = [
+  "recipes", "householdRecipes", "mealPlan", "mealTemplates", "shoppingList", "groceryList", "pantry",
+  "ingredientPrices", "groceryStores", "storeAssignments", "checkedIngredients",
+  "dietaryRestrictions", "recipeGroups", "groupMembers",
+] as const;
+
+type SnapshotState = Pick<RecipeStore, (typeof SNAPSHOT_FIELDS)[number]>;
+
+let queueLoaded = false;
+
+/** Pick up calls queued before the app was last closed (once per page load). */
+async function loadQueue() {
+  if (queueLoaded) return;
+  queueLoaded = true;
+  const queued = await loadOffline<QueuedMutation<QueueableOp>[]>("queue");
+  if (queued?.length) {
+    useRecipeStore.setState((state) => ({ pendingMutations: [...queued, ...state.pendingMutations] }));
+  }
+}
+
+/** The signed-in user's id from the locally stored session (works offline). */
+async function sessionUserId(): Promise<string | null> {
+  const { data: { session } } = await getClient().auth.getSession();
+  return session?.user.id ?? null;
+}
+
+/** The last snapshot saved on this device, if it's the signed-in user's. */
+async function loadSnapshot(): Promise<SnapshotState | null> {
+  const snapshot = await loadOffline<OfflineSnapshot<SnapshotState>>("snapshot");
+  if (!snapshot) return null;
+  return snapshot.userId === (await sessionUserId()) ? snapshot.state : null;
+}
+
+async function saveSnapshot() {
+  const state = useRecipeStore.getState();
+  if (!state.hydrated) return;
+  const userId = await sessionUserId();
+  if (!userId) return;
+  const snapshot: OfflineSnapshot<SnapshotState> = {
+    userId,
+    savedAt: new Date().toISOString(),
+    state: Object.fromEntries(SNAPSHOT_FIELDS.map((f) => [f, state[f]])) as SnapshotState,
+  };
+  await saveOffline("snapshot", snapshot);
+}
+
+/**
+ * Fetch the housemates' recipes the meal plan holds that this device doesn't
+ * have yet: after loading another week, or when a housemate plans a recipe
+ * they saved after this device loaded.
+ */
+async function loadHouseholdRecipes(): Promise<void> {
+  const { mealPlan, recipes, householdRecipes } = useRecipeStore.getState();
+  const missing = missingPlanRecipeIds(mealPlan, [...recipes, ...householdRecipes]);
+  if (missing.length === 0) return;
+  const fetched = await db.fetchHouseholdRecipes(getClient(), missing);
+  if (fetched.length === 0) return;
+  useRecipeStore.setState((state) => ({
+    householdRecipes: [...state.householdRecipes.filter((r) => !fetched.some((f) => f.id === r.id)), ...fetched],
+  }));
+}
+
 interface RecipeStore {
+  /** The user's own recipes — the library. */
   recipes: Recipe[];
+  /**
+   * Housemates' recipes the shared meal plan holds. Shown with the plan but
+   * read-only, and kept out of the library, search and duplicate checks.
+   */
+  householdRecipes: Recipe[];
   mealPlan: MealPlan;
   mealTemplates: MealTemplate[];
   shoppingList: ShoppingItem[];
   groceryList: GroceryItem[];
+  pantry: PantryItem[];
+  ingredientPrices: IngredientPrice[];
+  groceryStores: GroceryStore[];
+  storeAssignments: StoreAssignments;
   checkedIngredients: Record<string, number[]>;
   isLoading: boolean;
   hydrated: boolean;
@@ -101,19 +463,40 @@ interface RecipeStore {
   cookingRecipeId: string | null;
   cookingCompletedSteps: Set<number>;
 
+  // Unit display preference (device-local, persisted to localStorage). null = as written.
+  unitSystem: UnitSystem | null;
+
+  // Meal plan targets (device-local, persisted to localStorage)
+  planGoals: PlanGoals;
+
+  // Household dietary restrictions (synced to the profile)
+  dietaryRestrictions: DietaryRestriction[];
+
   // Recipe groups
   recipeGroups: RecipeGroup[];
   groupMembers: Record<string, string[]>; // groupId → recipeId[]
 
+  // Service calls made offline, replayed in order once back online
+  pendingMutations: QueuedMutation<QueueableOp>[];
+  isSyncing: boolean;
+
   // Lifecycle actions
   hydrate: () => Promise<void>;
   clear: () => void;
   clearError: () => void;
   migrateFromLocalStorage: () => Promise<{ migrated: boolean; recipeCount: number }>;
+  importRecipes: (recipes: Recipe[]) => Promise<{ imported: number; duplicates: number; failed: number }>;
 
   // Recipe actions
-  addRecipe: (scraped: ScrapedRecipe, sourceUrl: string) => void;
+  /**
+   * Save a scraped recipe. If one from the same page is already saved (see
+   * lib/canonical-url), nothing is saved and that recipe is returned, unless
+   * `allowDuplicate` asks for another copy.
+   */
+  addRecipe: (scraped: ScrapedRecipe, sourceUrl: string, options?: { allowDuplicate?: boolean }) => Recipe | null;
   updateRecipe: (id: string, updates: Partial<Omit<Recipe, "id" | "createdAt">>) => void;
+  /** Restore a recipe's content to `revision`, recorded as a new revision. */
+  revertRecipe: (id: string, revision: RecipeRevision) => Promise<void>;
   deleteRecipe: (id: string) => void;
   updateTags: (id: string, tags: string[]) => void;
 
@@ -122,6 +505,11 @@ interface RecipeStore {
   stopCooking: () => void;
   toggleCookingStep: (index: number) => void;
 
+  // Preference actions
+  setUnitSystem: (system: UnitSystem | null) => void;
+  setPlanGoals: (goals: PlanGoals) => void;
+  setDietaryRestrictions: (restrictions: DietaryRestriction[]) => void;
+
   // Ingredient checklist actions
   toggleIngredient: (recipeId: string, index: number) => void;
   clearCheckedIngredients: (recipeId: string) => void;
@@ -163,22 +551,57 @@ interface RecipeStore {
   clearCheckedGroceryItems: () => void;
   clearGroceryList: () => void;
   restoreGroceryItems: (items: GroceryItem[]) => void;
+
+  // Pantry actions
+  addPantryItem: (name: string, quantity: number | null, unit: string | null) => void;
+  updatePantryItem: (id: string, updates: Partial<Pick<PantryItem, "name" | "quantity" | "unit">>) => void;
+  removePantryItem: (id: string) => void;
+  stockPantry: (text: string) => void;
+  addShoppingItemToPantry: (id: string) => void;
+
+  // Price actions
+  saveIngredientPrice: (input: db.IngredientPriceInput) => void;
+  removeIngredientPrice: (id: string) => void;
+  checkOffWithPrice: (list: "shopping" | "grocery", id: string, price: number, store: string | null) => void;
+
+  // Grocery store actions
+  createGroceryStore: (name: string) => void;
+  updateGroceryStore: (id: string, updates: Partial<Omit<GroceryStore, "id">>) => void;
+  deleteGroceryStore: (id: string) => void;
+  assignItemToStore: (text: string, storeId: string | null) => void;
+
+  // Realtime household sync
+  applyHouseholdChange: (change: db.HouseholdChange) => void;
+  resyncHousehold: () => Promise<void>;
+
+  // Offline queue
+  flushQueue: () => Promise<void>;
 }
 
 export const useRecipeStore = create<RecipeStore>()((set, get) => ({
   recipes: [],
+  householdRecipes: [],
   mealPlan: {},
   mealTemplates: [],
   shoppingList: [],
   groceryList: [],
+  pantry: [],
+  ingredientPrices: [],
+  groceryStores: [],
+  storeAssignments: {},
   checkedIngredients: {},
   isLoading: false,
   hydrated: false,
   error: null,
   cookingRecipeId: null,
   cookingCompletedSteps: new Set(),
+  unitSystem: null,
+  planGoals: { dailyCalories: null, weeklyBudget: null },
+  dietaryRestrictions: [],
   recipeGroups: [],
   groupMembers: {},
+  pendingMutations: [],
+  isSyncing: false,
 
   // ------------------------------------------------------------------
   // Lifecycle
@@ -187,33 +610,46 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
   hydrate: async () => {
     set({ isLoading: true, error: null });
     try {
+      // Calls queued on an earlier visit go first, so the fetch includes them
+      await loadQueue();
+      const replayed = get().pendingMutations.length > 0 ? await replayOnce() : null;
+
       const client = getClient();
       // Compute a 3-week window (prev, current, next) around today
-      const prevWeek = getWeekDates(-1);
-      const nextWeek = getWeekDates(1);
-      const startStr = prevWeek[0];
-      const endStr = nextWeek[6];
+      const [startStr, endStr] = mealPlanWindow();
 
-      const [recipes, shoppingList, groceryList, checkedIngredients, mealPlan, rawTemplates] = await Promise.all([
+      const [recipes, shoppingList, groceryList, pantry, ingredientPrices, groceryStores, storeAssignments, checkedIngredients, mealPlan, rawTemplates] = await Promise.all([
         db.fetchRecipes(client),
         db.fetchShoppingList(client),
         db.fetchGroceryList(client),
+        db.fetchPantry(client),
+        db.fetchIngredientPrices(client),
+        db.fetchGroceryStores(client),
+        db.fetchStoreAssignments(client),
         db.fetchCheckedIngredients(client),
         db.fetchMealPlan(client, startStr, endStr),
         db.fetchTemplates(client),
       ]);
 
+      const householdRecipes = await db.fetchHouseholdRecipes(client, missingPlanRecipeIds(mealPlan, recipes));
+
       // Migrate old-format templates (string slots) to new array format on read
       const mealTemplates = rawTemplates.map((t) => ({
         ...t,
         days: migrateTemplateDays(t.days),
       }));
 
-      // Fetch recipe groups and members
-      const [recipeGroups, members] = await Promise.all([
+      // Fetch recipe groups and members, and the household's dietary
+      // restrictions (a profile problem shouldn't block loading the library)
+      const [recipeGroups, members, profile] = await Promise.all([
         db.ensureDefaultGroups(client),
         db.fetchGroupMembers(client),
+        db.fetchProfile(client).catch((e) => {
+          console.error("Failed to load profile:", formatError(e));
+          return null;
+        }),
       ]);
+      const dietaryRestrictions = profile?.dietaryRestrictions ?? [];
 
       // Convert flat member list to groupId → recipeId[] map
       const groupMembers: Record<string, string[]> = {};
@@ -230,7 +666,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
         if (raw) {
           const parsed = JSON.parse(raw) as { recipeId: string; steps: number[] };
           // Only restore if the recipe still exists
-          if (recipes.some((r) => r.id === parsed.recipeId)) {
+          if ([...recipes, ...householdRecipes].some((r) => r.id === parsed.recipeId)) {
             cookingRecipeId = parsed.recipeId;
             cookingCompletedSteps = new Set(parsed.steps);
           } else {
@@ -239,8 +675,35 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
         }
       } catch { /* localStorage unavailable or corrupt */ }
 
-      set({ recipes, shoppingList, groceryList, checkedIngredients, mealPlan, mealTemplates, recipeGroups, groupMembers, cookingRecipeId, cookingCompletedSteps, isLoading: false, hydrated: true });
+      // Restore unit display preference
+      let unitSystem: UnitSystem | null = null;
+      try {
+        const raw = localStorage.getItem("cooksnap:units");
+        if (raw === "us" || raw === "metric") unitSystem = raw;
+      } catch { /* localStorage unavailable */ }
+
+      // Restore meal plan targets
+      let planGoals: PlanGoals = { dailyCalories: null, weeklyBudget: null };
+      try {
+        const raw = localStorage.getItem("cooksnap:plan-goals");
+        if (raw) {
+          const parsed = JSON.parse(raw);
+          planGoals = {
+            dailyCalories: typeof parsed.dailyCalories === "number" ? parsed.dailyCalories : null,
+            weeklyBudget: typeof parsed.weeklyBudget === "number" ? parsed.weeklyBudget : null,
+          };
+        }
+      } catch { /* localStorage unavailable or corrupt */ }
+
+      set({ recipes, householdRecipes, shoppingList, groceryList, pantry, ingredientPrices, groceryStores, storeAssignments, checkedIngredients, mealPlan, mealTemplates, recipeGroups, groupMembers, cookingRecipeId, cookingCompletedSteps, unitSystem, planGoals, dietaryRestrictions, isLoading: false, hydrated: true });
+      if (replayed?.dropped) set({ error: droppedError(replayed.dropped) });
     } catch (e) {
+      // No connection: open with what this device saved last time
+      const snapshot = isOffline() || isNetworkError(e) ? await loadSnapshot() : null;
+      if (snapshot) {
+        set({ ...snapshot, isLoading: false, hydrated: true });
+        return;
+      }
       const msg = e instanceof Error ? e.message : "Failed to load data";
       console.error("Hydrate error:", formatError(e));
       set({ error: msg, isLoading: false, hydrated: true });
@@ -249,21 +712,30 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
 
   clear: () => {
     try { localStorage.removeItem("cooksnap:cooking"); } catch { /* noop */ }
+    if (replayTimer) clearTimeout(replayTimer);
     set({
       recipes: [],
+      householdRecipes: [],
       mealPlan: {},
       mealTemplates: [],
       shoppingList: [],
       groceryList: [],
+      pantry: [],
+      ingredientPrices: [],
+      groceryStores: [],
+      storeAssignments: {},
       checkedIngredients: {},
       isLoading: false,
       hydrated: false,
       error: null,
       cookingRecipeId: null,
       cookingCompletedSteps: new Set(),
+      dietaryRestrictions: [],
       recipeGroups: [],
       groupMembers: {},
+      pendingMutations: [],
     });
+    void clearOffline();
   },
 
   clearError: () => set({ error: null }),
@@ -296,10 +768,10 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
 
       const client = getClient();
 
-      // Build a set of existing sourceUrls to prevent duplicate imports on retry
+      // Build a set of existing canonical sourceUrls to prevent duplicate imports on retry
       const existingRecipes = get().recipes;
       const existingUrls = new Set(
-        existingRecipes.map((r) => r.sourceUrl).filter(Boolean),
+        existingRecipes.map((r) => r.sourceUrl).filter(Boolean).map(canonicalizeUrl),
       );
 
       let importedCount = 0;
@@ -307,39 +779,11 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
       // Import each recipe into Supabase
       for (const recipe of recipes) {
         // Skip if a recipe with the same sourceUrl already exists
-        if (recipe.sourceUrl && existingUrls.has(recipe.sourceUrl)) {
+        if (recipe.sourceUrl && existingUrls.has(canonicalizeUrl(recipe.sourceUrl))) {
           continue;
         }
 
-        const scraped: ScrapedRecipe = {
-          title: recipe.title,
-          image: recipe.image,
-          ingredients: recipe.ingredients,
-          instructions: recipe.instructions,
-          prepTime: recipe.prepTime,
-          cookTime: recipe.cookTime,
-          totalTime: recipe.totalTime,
-          servings: recipe.servings,
-          author: recipe.author,
-          cuisineType: recipe.cuisineType,
-        };
-        const newRecipe = await db.addRecipe(client, scraped, recipe.sourceUrl);
-
-        // Migrate tags
-        if (recipe.tags && recipe.tags.length > 0) {
-          await db.updateRecipeTags(client, newRecipe.id, recipe.tags);
-        }
-
-        // Migrate extra fields (difficulty, rating, isFavorite, notes)
-        const extras: Partial<Omit<Recipe, "id" | "createdAt">> = {};
-        if (recipe.difficulty) extras.difficulty = recipe.difficulty;
-        if (recipe.rating != null) extras.rating = recipe.rating;
-        if (recipe.isFavorite) extras.isFavorite = recipe.isFavorite;
-        if (recipe.notes) extras.notes = recipe.notes;
-        if (Object.keys(extras).length > 0) {
-          await db.updateRecipe(client, newRecipe.id, extras);
-        }
-
+        await saveRecipeCopy(client, recipe);
         importedCount++;
       }
 
@@ -357,13 +801,46 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     }
   },
 
+  importRecipes: async (recipes) => {
+    const client = getClient();
+
+    // Same duplicate rule as the localStorage migration: one recipe per canonical source URL
+    const seenUrls = new Set(get().recipes.map((r) => r.sourceUrl).filter(Boolean).map(canonicalizeUrl));
+    let imported = 0;
+    let duplicates = 0;
+    let failed = 0;
+
+    for (const recipe of recipes) {
+      if (recipe.sourceUrl && seenUrls.has(canonicalizeUrl(recipe.sourceUrl))) {
+        duplicates++;
+        continue;
+      }
+      try {
+        await saveRecipeCopy(client, recipe);
+        if (recipe.sourceUrl) seenUrls.add(canonicalizeUrl(recipe.sourceUrl));
+        imported++;
+      } catch (e) {
+        // Keep going — one bad row shouldn't abandon a several-hundred recipe import
+        console.error(`Failed to import "${recipe.title}":`, formatError(e));
+        failed++;
+      }
+    }
+
+    if (imported > 0) await get().hydrate();
+
+    return { imported, duplicates, failed };
+  },
+
   // ------------------------------------------------------------------
   // Recipe actions
   // ------------------------------------------------------------------
 
-  addRecipe: async (scraped, sourceUrl) => {
-    // Optimistic: add a temporary recipe with a placeholder id
+  addRecipe: (scraped, sourceUrl, options) => {
     const prevRecipes = get().recipes;
+    const duplicate = findRecipeBySourceUrl(prevRecipes, sourceUrl, scraped.canonicalUrl);
+    if (duplicate && !options?.allowDuplicate) return duplicate;
+
+    // Optimistic: add a temporary recipe with a placeholder id
     const tempId = nextTempId();
     const optimistic: Recipe = {
       id: tempId,
@@ -384,41 +861,59 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
       rating: null,
       isFavorite: false,
       notes: null,
+      ...classifyIngredients(scraped.ingredients),
     };
     set((state) => ({ recipes: [optimistic, ...state.recipes] }));
 
     // Sync to Supabase
-    try {
-      const client = getClient();
-      const saved = await db.addRecipe(client, scraped, sourceUrl);
-      // Replace temp recipe with the real one from DB
-      set((state) => ({
-        recipes: state.recipes.map((r) => (r.id === tempId ? saved : r)),
-      }));
-    } catch (e) {
-      console.error("Failed to save recipe:", formatError(e));
-      set({ recipes: prevRecipes, error: "Failed to save recipe to cloud" });
-    }
+    runOrQueue("addRecipe", [scraped, sourceUrl], tempId)
+      .then((saved) => {
+        // Replace temp recipe with the real one from DB
+        if (saved) set((state) => ({ recipes: replaceTemp(state.recipes, tempId, saved) }));
+      })
+      .catch((e) => {
+        console.error("Failed to save recipe:", formatError(e));
+        set({ recipes: prevRecipes, error: "Failed to save recipe to cloud" });
+      });
+    return null;
   },
 
   updateRecipe: async (id, updates) => {
     const prevRecipes = get().recipes;
-    // Optimistic update
+    // Optimistic update — reclassify along with the ingredients, as the service does
+    const classified = updates.ingredients ? classifyIngredients(updates.ingredients) : {};
     set((state) => ({
       recipes: state.recipes.map((r) =>
-        r.id === id ? { ...r, ...updates } : r
+        r.id === id ? { ...r, ...updates, ...classified } : r
       ),
     }));
 
     try {
-      const client = getClient();
-      await db.updateRecipe(client, id, updates);
+      await runOrQueue("updateRecipe", [id, updates]);
     } catch (e) {
       console.error("Failed to update recipe:", formatError(e));
       set({ recipes: prevRecipes, error: "Failed to update recipe in cloud" });
     }
   },
 
+  revertRecipe: async (id, revision) => {
+    const prevRecipes = get().recipes;
+    const { snapshot } = revision;
+    set((state) => ({
+      recipes: state.recipes.map((r) =>
+        r.id === id ? { ...r, ...snapshot, ...classifyIngredients(snapshot.ingredients) } : r
+      ),
+    }));
+
+    try {
+      await runOrQueue("revertRecipe", [id, revision.id]);
+    } catch (e) {
+      console.error("Failed to revert recipe:", formatError(e));
+      set({ recipes: prevRecipes, error: "Failed to revert recipe in cloud" });
+      throw e;
+    }
+  },
+
   deleteRecipe: async (id) => {
     const prevRecipes = get().recipes;
     // Optimistic delete
@@ -427,8 +922,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     }));
 
     try {
-      const client = getClient();
-      await db.deleteRecipe(client, id);
+      await runOrQueue("deleteRecipe", [id]);
     } catch (e) {
       console.error("Failed to delete recipe:", formatError(e));
       set({ recipes: prevRecipes, error: "Failed to delete recipe from cloud" });
@@ -446,8 +940,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     }));
 
     try {
-      const client = getClient();
-      await db.updateRecipeTags(client, id, tags);
+      await runOrQueue("updateRecipeTags", [id, tags]);
     } catch (e) {
       console.error("Failed to update tags:", formatError(e));
       set({ recipes: prevRecipes, error: "Failed to update tags in cloud" });
@@ -491,6 +984,49 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     });
   },
 
+  // ------------------------------------------------------------------
+  // Preference actions — device-local, not synced to Supabase
+  // ------------------------------------------------------------------
+
+  setUnitSystem: (system) => {
+    set({ unitSystem: system });
+    try {
+      if (system) {
+        localStorage.setItem("cooksnap:units", system);
+      } else {
+        localStorage.removeItem("cooksnap:units");
+      }
+    } catch { /* localStorage unavailable */ }
+  },
+
+  setPlanGoals: (goals) => {
+    set({ planGoals: goals });
+    try {
+      if (goals.dailyCalories === null && goals.weeklyBudget === null) {
+        localStorage.removeItem("cooksnap:plan-goals");
+      } else {
+        localStorage.setItem("cooksnap:plan-goals", JSON.stringify(goals));
+      }
+    } catch { /* localStorage unavailable */ }
+  },
+
+  // ------------------------------------------------------------------
+  // Dietary restrictions — household-wide, saved to the profile
+  // ------------------------------------------------------------------
+
+  setDietaryRestrictions: async (restrictions) => {
+    const prev = get().dietaryRestrictions;
+    set({ dietaryRestrictions: restrictions });
+
+    try {
+      const client = getClient();
+      await db.updateProfile(client, { dietary_restrictions: restrictions });
+    } catch (e) {
+      console.error("Failed to save dietary restrictions:", formatError(e));
+      set({ dietaryRestrictions: prev, error: "Failed to save dietary restrictions" });
+    }
+  },
+
   // ------------------------------------------------------------------
   // Ingredient checklist actions
   // ------------------------------------------------------------------
@@ -512,8 +1048,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     }));
 
     try {
-      const client = getClient();
-      await db.toggleIngredient(client, recipeId, index, !isChecked);
+      await runOrQueue("toggleIngredient", [recipeId, index, !isChecked]);
     } catch (e) {
       console.error("Failed to toggle ingredient:", formatError(e));
       set({ checkedIngredients: prevCheckedIngredients, error: "Failed to sync ingredient check" });
@@ -529,8 +1064,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
       return { checkedIngredients: updated };
     });
 
-    const client = getClient();
-    db.clearCheckedIngredients(client, recipeId).catch((e) => {
+    runOrQueue("clearCheckedIngredients", [recipeId]).catch((e) => {
       console.error("Failed to clear checked ingredients:", formatError(e));
       set({ checkedIngredients: prevCheckedIngredients, error: "Failed to sync ingredient checks" });
     });
@@ -566,8 +1100,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     });
 
     try {
-      const client = getClient();
-      await db.assignMeal(client, date, slot, recipeId, isLeftover);
+      await runOrQueue("assignMeal", [date, slot, recipeId, isLeftover]);
     } catch (e) {
       const detail = formatError(e);
       console.error("Failed to assign meal:", detail, e);
@@ -591,8 +1124,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     });
 
     try {
-      const client = getClient();
-      await db.removeMeal(client, date, slot, recipeId);
+      await runOrQueue("removeMeal", [date, slot, recipeId]);
     } catch (e) {
       const detail = formatError(e);
       console.error("Failed to remove meal:", detail, e);
@@ -611,8 +1143,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
       return { mealPlan: newPlan };
     });
 
-    const client = getClient();
-    db.clearWeek(client, weekDates).catch((e) => {
+    runOrQueue("clearWeek", [weekDates]).catch((e) => {
       console.error("Failed to clear week:", formatError(e));
       set({ mealPlan: prevMealPlan, error: "Failed to clear week in cloud" });
     });
@@ -627,6 +1158,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
       set((state) => ({
         mealPlan: { ...state.mealPlan, ...fetched },
       }));
+      await loadHouseholdRecipes();
     } catch (e) {
       console.error("Failed to fetch meal plan for week:", formatError(e));
       set({ error: "Failed to load meal plan for this week" });
@@ -658,7 +1190,15 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     const days: Record<number, MealPlanDay> = {};
     for (let i = 0; i < weekDates.length; i++) {
       const day = mealPlan[weekDates[i]];
-      if (day) days[i] = day;
+      if (!day) continue;
+      // Row ids belong to this week's plan, not the template
+      const toTemplate = ({ recipeId, isLeftover, position }: MealSlotEntry) => ({ recipeId, isLeftover, position });
+      days[i] = {
+        breakfast: day.breakfast.map(toTemplate),
+        lunch: day.lunch.map(toTemplate),
+        dinner: day.dinner.map(toTemplate),
+        snack: day.snack.map(toTemplate),
+      };
     }
 
     // Optimistic: add a temporary template
@@ -852,7 +1392,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
   // ------------------------------------------------------------------
 
   generateShoppingList: (weekDates) => {
-    const { mealPlan, recipes } = get();
+    const { mealPlan, recipes, householdRecipes } = get();
     const prevShoppingList = get().shoppingList;
 
     // Collect all raw ingredient strings and track which recipe contributed each
@@ -865,7 +1405,8 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
       for (const slot of SLOTS) {
         for (const entry of day[slot]) {
           if (entry.isLeftover) continue;
-          const recipe = recipes.find((r) => r.id === entry.recipeId);
+          const recipe = recipes.find((r) => r.id === entry.recipeId)
+            ?? householdRecipes.find((r) => r.id === entry.recipeId);
           if (!recipe) continue;
           for (const ingredient of recipe.ingredients) {
             // Skip section headers — they aren't real ingredients
@@ -881,8 +1422,9 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
       }
     }
 
-    // Aggregate duplicates (sums quantities, converts units)
-    const aggregated = aggregateIngredients(allRaw);
+    // Aggregate duplicates (sums quantities, converts units), then drop
+    // whatever the pantry already covers
+    const aggregated = subtractPantry(aggregateIngredients(allRaw), get().pantry);
 
     // Build items with recipeId from the first contributing recipe
     const items = aggregated.map((text) => {
@@ -1035,13 +1577,8 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     }));
 
     try {
-      const client = getClient();
-      const saved = await db.addShoppingItem(client, text);
-      set((state) => ({
-        shoppingList: state.shoppingList.map((item) =>
-          item.id === tempId ? saved : item
-        ),
-      }));
+      const saved = await runOrQueue("addShoppingItem", [text], tempId);
+      if (saved) set((state) => ({ shoppingList: replaceTemp(state.shoppingList, tempId, saved) }));
     } catch (e) {
       console.error("Failed to add shopping item:", formatError(e));
       set({ shoppingList: prevShoppingList, error: "Failed to add shopping item" });
@@ -1063,8 +1600,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     }));
 
     try {
-      const client = getClient();
-      await db.toggleShoppingItem(client, id, newChecked);
+      await runOrQueue("toggleShoppingItem", [id, newChecked]);
     } catch (e) {
       console.error("Failed to toggle shopping item:", formatError(e));
       set({ shoppingList: prevShoppingList, error: "Failed to update shopping item" });
@@ -1084,8 +1620,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     });
 
     try {
-      const client = getClient();
-      await db.uncheckAllShoppingItems(client);
+      await runOrQueue("uncheckAllShoppingItems", []);
     } catch (e) {
       console.error("Failed to uncheck shopping items:", formatError(e));
       set({ shoppingList: prevShoppingList, error: "Failed to uncheck shopping items" });
@@ -1099,8 +1634,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     set({ shoppingList: prevShoppingList.filter((item) => !item.checked) });
 
     try {
-      const client = getClient();
-      await db.clearCheckedItems(client);
+      await runOrQueue("clearCheckedItems", []);
     } catch (e) {
       console.error("Failed to clear checked items:", formatError(e));
       set({ shoppingList: prevShoppingList, error: "Failed to clear checked items" });
@@ -1113,8 +1647,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     set({ shoppingList: [] });
 
     try {
-      const client = getClient();
-      await db.clearShoppingList(client);
+      await runOrQueue("clearShoppingList", []);
     } catch (e) {
       console.error("Failed to clear shopping list:", formatError(e));
       set({ shoppingList: prevShoppingList, error: "Failed to clear shopping list" });
@@ -1123,9 +1656,11 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
 
   restoreShoppingItems: async (items) => {
     const prevShoppingList = get().shoppingList;
-    // Optimistic update — add items back to local state immediately
+    // Optimistic update — add items back to local state immediately, under
+    // temp ids since the rows come back with fresh ones
+    const optimistic = items.map((i) => ({ ...i, id: nextTempId() }));
     set((state) => ({
-      shoppingList: [...state.shoppingList, ...items],
+      shoppingList: [...state.shoppingList, ...optimistic],
     }));
 
     try {
@@ -1134,14 +1669,12 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
         client,
         items.map((i) => ({ text: i.text, checked: i.checked, recipeId: i.recipeId })),
       );
-      // Replace temp items with real DB items (fresh IDs)
-      const tempIds = new Set(items.map((i) => i.id));
-      set((state) => ({
-        shoppingList: [
-          ...state.shoppingList.filter((i) => !tempIds.has(i.id)),
-          ...restored,
-        ],
-      }));
+      // Replace temp items with real DB items, unless realtime already has
+      const tempIds = new Set(optimistic.map((i) => i.id));
+      set((state) => {
+        const kept = state.shoppingList.filter((i) => !tempIds.has(i.id));
+        return { shoppingList: [...kept, ...restored.filter((r) => !kept.some((i) => i.id === r.id))] };
+      });
     } catch (e) {
       console.error("Failed to restore shopping items:", formatError(e));
       set({ shoppingList: prevShoppingList, error: "Failed to undo" });
@@ -1164,13 +1697,8 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     }));
 
     try {
-      const client = getClient();
-      const saved = await db.addGroceryItem(client, text);
-      set((state) => ({
-        groceryList: state.groceryList.map((item) =>
-          item.id === tempId ? saved : item
-        ),
-      }));
+      const saved = await runOrQueue("addGroceryItem", [text], tempId);
+      if (saved) set((state) => ({ groceryList: replaceTemp(state.groceryList, tempId, saved) }));
     } catch (e) {
       console.error("Failed to add grocery item:", formatError(e));
       set({ groceryList: prevGroceryList, error: "Failed to add grocery item" });
@@ -1191,8 +1719,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     }));
 
     try {
-      const client = getClient();
-      await db.toggleGroceryItem(client, id, newChecked);
+      await runOrQueue("toggleGroceryItem", [id, newChecked]);
     } catch (e) {
       console.error("Failed to toggle grocery item:", formatError(e));
       set({ groceryList: prevGroceryList, error: "Failed to update grocery item" });
@@ -1211,8 +1738,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     });
 
     try {
-      const client = getClient();
-      await db.uncheckAllGroceryItems(client);
+      await runOrQueue("uncheckAllGroceryItems", []);
     } catch (e) {
       console.error("Failed to uncheck grocery items:", formatError(e));
       set({ groceryList: prevGroceryList, error: "Failed to uncheck grocery items" });
@@ -1225,8 +1751,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     set({ groceryList: prevGroceryList.filter((item) => !item.checked) });
 
     try {
-      const client = getClient();
-      await db.clearCheckedGroceryItems(client);
+      await runOrQueue("clearCheckedGroceryItems", []);
     } catch (e) {
       console.error("Failed to clear checked grocery items:", formatError(e));
       set({ groceryList: prevGroceryList, error: "Failed to clear checked grocery items" });
@@ -1238,8 +1763,7 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
     set({ groceryList: [] });
 
     try {
-      const client = getClient();
-      await db.clearGroceryList(client);
+      await runOrQueue("clearGroceryList", []);
     } catch (e) {
       console.error("Failed to clear grocery list:", formatError(e));
       set({ groceryList: prevGroceryList, error: "Failed to clear grocery list" });
@@ -1248,8 +1772,9 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
 
   restoreGroceryItems: async (items) => {
     const prevGroceryList = get().groceryList;
+    const optimistic = items.map((i) => ({ ...i, id: nextTempId() }));
     set((state) => ({
-      groceryList: [...state.groceryList, ...items],
+      groceryList: [...state.groceryList, ...optimistic],
     }));
 
     try {
@@ -1258,16 +1783,341 @@ export const useRecipeStore = create<RecipeStore>()((set, get) => ({
         client,
         items.map((i) => ({ text: i.text, checked: i.checked })),
       );
-      const tempIds = new Set(items.map((i) => i.id));
-      set((state) => ({
-        groceryList: [
-          ...state.groceryList.filter((i) => !tempIds.has(i.id)),
-          ...restored,
-        ],
-      }));
+      const tempIds = new Set(optimistic.map((i) => i.id));
+      set((state) => {
+        const kept = state.groceryList.filter((i) => !tempIds.has(i.id));
+        return { groceryList: [...kept, ...restored.filter((r) => !kept.some((i) => i.id === r.id))] };
+      });
     } catch (e) {
       console.error("Failed to restore grocery items:", formatError(e));
       set({ groceryList: prevGroceryList, error: "Failed to undo" });
     }
   },
+
+  // ------------------------------------------------------------------
+  // Pantry actions
+  // ------------------------------------------------------------------
+
+  addPantryItem: async (name, quantity, unit) => {
+    const prevPantry = get().pantry;
+    const tempId = nextTempId();
+
+    set((state) => ({
+      pantry: [
+        ...state.pantry,
+        { id: tempId, name, quantity, unit, updatedAt: new Date().toISOString() },
+      ],
+    }));
+
+    try {
+      const saved = await runOrQueue("addPantryItem", [{ name, quantity, unit }], tempId);
+      if (saved) set((state) => ({ pantry: replaceTemp(state.pantry, tempId, saved) }));
+    } catch (e) {
+      console.error("Failed to add pantry item:", formatError(e));
+      set({ pantry: prevPantry, error: "Failed to add pantry item" });
+    }
+  },
+
+  updatePantryItem: async (id, updates) => {
+    const prevPantry = get().pantry;
+
+    set((state) => ({
+      pantry: state.pantry.map((item) =>
+        item.id === id ? { ...item, ...updates, updatedAt: new Date().toISOString() } : item
+      ),
+    }));
+
+    try {
+      await runOrQueue("updatePantryItem", [id, updates]);
+    } catch (e) {
+      console.error("Failed to update pantry item:", formatError(e));
+      set({ pantry: prevPantry, error: "Failed to update pantry item" });
+    }
+  },
+
+  removePantryItem: async (id) => {
+    const prevPantry = get().pantry;
+
+    set({ pantry: prevPantry.filter((item) => item.id !== id) });
+
+    try {
+      await runOrQueue("deletePantryItem", [id]);
+    } catch (e) {
+      console.error("Failed to remove pantry item:", formatError(e));
+      set({ pantry: prevPantry, error: "Failed to remove pantry item" });
+    }
+  },
+
+  stockPantry: (text) => {
+    const parsed = parseIngredient(text);
+    if (!parsed.name) return;
+
+    // Restock an existing entry for the same ingredient instead of duplicating it
+    const key = normalizeIngredientName(parsed.name);
+    const existing = get().pantry.find((p) => normalizeIngredientName(p.name) === key);
+    if (existing) {
+      get().updatePantryItem(existing.id, restockPantryItem(existing, parsed));
+    } else {
+      get().addPantryItem(parsed.name, parsed.quantity, parsed.unit);
+    }
+  },
+
+  addShoppingItemToPantry: (id) => {
+    const item = get().shoppingList.find((i) => i.id === id);
+    if (item) get().stockPantry(item.text);
+  },
+
+  // ------------------------------------------------------------------
+  // Price actions
+  // ------------------------------------------------------------------
+
+  saveIngredientPrice: async (input) => {
+    const prevPrices = get().ingredientPrices;
+    const tempId = nextTempId();
+
+    set({
+      ingredientPrices: withPrice(prevPrices, { id: tempId, ...input, updatedAt: new Date().toISOString() }),
+    });
+
+    try {
+      const client = getClient();
+      const saved = await db.saveIngredientPrice(client, input);
+      set((state) => ({ ingredientPrices: withPrice(state.ingredientPrices, saved) }));
+    } catch (e) {
+      console.error("Failed to save price:", formatError(e));
+      set({ ingredientPrices: prevPrices, error: "Failed to save price" });
+    }
+  },
+
+  removeIngredientPrice: async (id) => {
+    const prevPrices = get().ingredientPrices;
+
+    set({ ingredientPrices: prevPrices.filter((p) => p.id !== id) });
+
+    try {
+      const client = getClient();
+      await db.deleteIngredientPrice(client, id);
+    } catch (e) {
+      console.error("Failed to remove price:", formatError(e));
+      set({ ingredientPrices: prevPrices, error: "Failed to remove price" });
+    }
+  },
+
+  checkOffWithPrice: async (list, id, price, store) => {
+    const items = list === "shopping" ? get().shoppingList : get().groceryList;
+    const item = items.find((i) => i.id === id);
+    if (!item) return;
+
+    if (!item.checked) {
+      if (list === "shopping") get().toggleShoppingItem(id);
+      else get().toggleGroceryItem(id);
+    }
+
+    const input = priceFromItem(item.text, price, store);
+    const prevPrices = get().ingredientPrices;
+    set({
+      ingredientPrices: withPrice(prevPrices, { id: nextTempId(), ...input, updatedAt: new Date().toISOString() }),
+    });
+
+    try {
+      const client = getClient();
+      const saved = await db.recordPricePaid(client, input);
+      set((state) => ({ ingredientPrices: withPrice(state.ingredientPrices, saved) }));
+    } catch (e) {
+      console.error("Failed to record price:", formatError(e));
+      set({ ingredientPrices: prevPrices, error: "Failed to record price" });
+    }
+  },
+
+  // ------------------------------------------------------------------
+  // Grocery store actions
+  // ------------------------------------------------------------------
+
+  createGroceryStore: (name) => {
+    const tempId = nextTempId();
+    const store: Omit<GroceryStore, "id"> = { name, aisleOrder: [], sortOrder: get().groceryStores.length };
+    set((state) => ({ groceryStores: [...state.groceryStores, { id: tempId, ...store }] }));
+
+    const client = getClient();
+    db.createGroceryStore(client, store)
+      .then((saved) => {
+        // Carry over any items assigned while the store was still a temp row
+        const pending = Object.entries(get().storeAssignments)
+          .filter(([, id]) => id === tempId)
+          .map(([name]) => name);
+        set((state) => ({
+          groceryStores: state.groceryStores.map((s) => (s.id === tempId ? saved : s)),
+          storeAssignments: Object.fromEntries(
+            Object.entries(state.storeAssignments).map(([name, id]) => [name, id === tempId ? saved.id : id])
+          ),
+        }));
+        for (const name of pending) {
+          db.assignItemToStore(client, name, saved.id).catch((e) => {
+            console.error("Failed to persist store assignment:", formatError(e));
+          });
+        }
+      })
+      .catch((e) => {
+        console.error("Failed to create store:", formatError(e));
+        set((state) => ({
+          groceryStores: state.groceryStores.filter((s) => s.id !== tempId),
+          storeAssignments: Object.fromEntries(
+            Object.entries(state.storeAssignments).filter(([, id]) => id !== tempId)
+          ),
+          error: "Failed to create store",
+        }));
+      });
+  },
+
+  updateGroceryStore: (id, updates) => {
+    const prevStores = get().groceryStores;
+    set((state) => ({
+      groceryStores: state.groceryStores.map((s) => (s.id === id ? { ...s, ...updates } : s)),
+    }));
+
+    const client = getClient();
+    db.updateGroceryStore(client, id, updates).catch((e) => {
+      console.error("Failed to update store:", formatError(e));
+      set({ groceryStores: prevStores, error: "Failed to update store" });
+    });
+  },
+
+  deleteGroceryStore: (id) => {
+    const prevStores = get().groceryStores;
+    const prevAssignments = get().storeAssignments;
+    set((state) => ({
+      groceryStores: state.groceryStores.filter((s) => s.id !== id),
+      storeAssignments: Object.fromEntries(
+        Object.entries(state.storeAssignments).filter(([, storeId]) => storeId !== id)
+      ),
+    }));
+
+    const client = getClient();
+    db.deleteGroceryStore(client, id).catch((e) => {
+      console.error("Failed to delete store:", formatError(e));
+      set({ groceryStores: prevStores, storeAssignments: prevAssignments, error: "Failed to delete store" });
+    });
+  },
+
+  assignItemToStore: (text, storeId) => {
+    const name = storeAssignmentKey(text);
+    const prevAssignments = get().storeAssignments;
+    const rest = Object.fromEntries(Object.entries(prevAssignments).filter(([n]) => n !== name));
+    set({ storeAssignments: storeId ? { ...rest, [name]: storeId } : rest });
+
+    // Assignments to a store that's still being created are saved once it is
+    if (storeId?.startsWith("temp-")) return;
+
+    const client = getClient();
+    db.assignItemToStore(client, name, storeId).catch((e) => {
+      console.error("Failed to assign store:", formatError(e));
+      set({ storeAssignments: prevAssignments, error: "Failed to assign store" });
+    });
+  },
+
+  // ------------------------------------------------------------------
+  // Realtime household sync
+  // ------------------------------------------------------------------
+
+  applyHouseholdChange: (change) => {
+    if (change.type === "delete") {
+      const { id } = change;
+      if (change.table === "meal_plans") {
+        set((state) => ({ mealPlan: removeMealEntry(state.mealPlan, id) }));
+      } else if (change.table === "shopping_items") {
+        set((state) => ({ shoppingList: removeListItem(state.shoppingList, id) }));
+      } else {
+        set((state) => ({ groceryList: removeListItem(state.groceryList, id) }));
+      }
+      return;
+    }
+
+    switch (change.table) {
+      case "shopping_items":
+        set((state) => ({ shoppingList: upsertListItem(state.shoppingList, change.item) }));
+        break;
+      case "grocery_items":
+        set((state) => ({ groceryList: upsertListItem(state.groceryList, change.item) }));
+        break;
+      case "meal_plans":
+        set((state) => ({ mealPlan: upsertMealEntry(state.mealPlan, change.date, change.slot, change.entry) }));
+        // A housemate may have planned a recipe they saved after this device loaded
+        loadHouseholdRecipes().catch((e) => {
+          console.error("Failed to load a housemate's recipe:", formatError(e));
+        });
+        break;
+    }
+  },
+
+  resyncHousehold: async () => {
+    try {
+      const client = getClient();
+      const [start, end] = mealPlanWindow();
+      const [shoppingList, groceryList, mealPlan] = await Promise.all([
+        db.fetchShoppingList(client),
+        db.fetchGroceryList(client),
+        db.fetchMealPlan(client, start, end),
+      ]);
+
+      set((state) => {
+        // Days in the window come back whole; an empty day isn't returned at all
+        const plan = Object.fromEntries(
+          Object.entries(state.mealPlan).filter(([date]) => date < start || date > end)
+        );
+        // Items still being saved aren't on the server yet
+        return {
+          shoppingList: [...shoppingList, ...state.shoppingList.filter((i) => isTempId(i.id))],
+          groceryList: [...groceryList, ...state.groceryList.filter((i) => isTempId(i.id))],
+          mealPlan: { ...plan, ...mealPlan },
+        };
+      });
+      await loadHouseholdRecipes();
+    } catch (e) {
+      console.error("Failed to sync household changes:", formatError(e));
+      set({ error: "Failed to sync changes from your household" });
+    }
+  },
+
+  // ------------------------------------------------------------------
+  // Offline queue
+  // ------------------------------------------------------------------
+
+  flushQueue: async () => {
+    if (get().pendingMutations.length === 0) return;
+    const replayed = await replayOnce();
+    if (!replayed?.drained) return;
+
+    try {
+      // Reload what the replayed calls touched; where another device changed
+      // the same thing in the meantime, the server's version wins
+      const client = getClient();
+      const [recipes, pantry, checkedIngredients] = await Promise.all([
+        db.fetchRecipes(client),
+        db.fetchPantry(client),
+        db.fetchCheckedIngredients(client),
+      ]);
+      set({ recipes, pantry, checkedIngredients });
+      await get().resyncHousehold();
+    } catch (e) {
+      console.error("Failed to reload after syncing offline changes:", formatError(e));
+    }
+    if (replayed.dropped > 0) set({ error: droppedError(replayed.dropped) });
+  },
 }));
+
+// Keep the offline snapshot and queue current. The queue is written as soon
+// as it changes; the snapshot, which is larger, once things settle.
+if (typeof window !== "undefined" && typeof indexedDB !== "undefined") {
+  let snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+  useRecipeStore.subscribe((state, prev) => {
+    if (state.pendingMutations !== prev.pendingMutations) {
+      void saveOffline("queue", state.pendingMutations);
+    }
+    if (!state.hydrated || SNAPSHOT_FIELDS.every((f) => state[f] === prev[f])) return;
+    if (snapshotTimer) clearTimeout(snapshotTimer);
+    snapshotTimer = setTimeout(() => {
+      snapshotTimer = null;
+      void saveSnapshot();
+    }, 1000);
+  });
+}
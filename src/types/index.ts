@@ -1,5 +1,10 @@
-export interface Recipe {
+export interface Recipe extends SourceDetails {
   id: string;
+  /**
+   * Who saved it. A housemate's recipe can be in the shared meal plan but
+   * is read-only here. Missing on recipes not yet saved.
+   */
+  ownerId?: string;
   title: string;
   image: string | null;
   ingredients: string[];
@@ -19,9 +24,21 @@ export interface Recipe {
   rating?: number | null;
   isFavorite?: boolean;
   notes?: string | null;
+
+  // Dietary classification derived from the ingredients (see lib/dietary).
+  // Missing on recipes saved before classification existed.
+  allergens?: Allergen[] | null;
+  diets?: Diet[] | null;
 }
 
-export interface ScrapedRecipe {
+export type Allergen = "gluten" | "dairy" | "nuts" | "shellfish" | "egg" | "soy";
+
+export type Diet = "vegetarian" | "vegan";
+
+/** A household restriction: an allergen to avoid or a diet to keep. */
+export type DietaryRestriction = Allergen | Diet;
+
+export interface ScrapedRecipe extends SourceDetails {
   title: string;
   image: string | null;
   ingredients: string[];
@@ -34,9 +51,91 @@ export interface ScrapedRecipe {
   servings?: string | null;
   author?: string | null;
   cuisineType?: string | null;
+
+  /**
+   * How the scraper found the recipe: "json-ld", "microdata", "open-graph",
+   * "dom-text" or a site extractor's id, then "+id" for each site extractor
+   * that refined it ("json-ld+allrecipes"). Reported by the scrape API, not
+   * stored.
+   */
+  strategy?: string;
+  /** How far each field can be trusted, for review before saving. Not stored. */
+  confidence?: ScrapeConfidence;
+  /**
+   * The page's canonical URL (see lib/canonical-url), from its
+   * `<link rel="canonical">` when that stays on the same site. Used to spot
+   * recipes saved twice; the source URL saved is still the one imported.
+   */
+  canonicalUrl?: string;
+}
+
+export type ConfidenceLevel = "high" | "medium" | "low";
+
+/**
+ * Per-field confidence in a scraped recipe: high from structured data, lower
+ * for what was pieced together from the page's text, low for what's missing.
+ */
+export interface ScrapeConfidence {
+  title: ConfidenceLevel;
+  image: ConfidenceLevel;
+  ingredients: ConfidenceLevel;
+  instructions: ConfidenceLevel;
+  servings: ConfidenceLevel;
+  /** Prep, cook and total time together. */
+  times: ConfidenceLevel;
+  author: ConfidenceLevel;
+  /** Indexes of ingredient lines that don't read like an ingredient. */
+  suspiciousIngredients: number[];
+}
+
+/**
+ * What a recipe page publishes beyond the basics, kept as given. The
+ * nutrition is the site's own figures, not our estimate (see lib/nutrition),
+ * and `suitableForDiet` is what the site claims rather than what the
+ * ingredients say (see `Recipe.diets`).
+ */
+export interface SourceDetails {
+  description?: string | null;
+  nutrition?: NutritionFacts | null;
+  /** schema.org recipeCategory: "Dessert", "Main course" */
+  categories?: string[] | null;
+  keywords?: string[] | null;
+  /** Readable diet names: "Gluten-free", "Vegan" */
+  suitableForDiet?: string[] | null;
+  video?: RecipeVideo | null;
+  aggregateRating?: AggregateRating | null;
+}
+
+/** Published nutrition per serving, as the source writes it ("240 kcal", "12 g"). */
+export interface NutritionFacts {
+  servingSize?: string;
+  calories?: string;
+  fat?: string;
+  saturatedFat?: string;
+  carbohydrates?: string;
+  sugar?: string;
+  fiber?: string;
+  protein?: string;
+  cholesterol?: string;
+  sodium?: string;
+}
+
+export interface RecipeVideo {
+  name: string | null;
+  /** Where to watch it: the embed URL when there is one, else the file or page */
+  url: string;
+  thumbnailUrl: string | null;
+}
+
+/** Readers' rating on the source site, out of 5. */
+export interface AggregateRating {
+  value: number;
+  count: number | null;
 }
 
 export interface MealSlotEntry {
+  /** Row id once saved; realtime deletes identify the entry only by this. */
+  id?: string;
   recipeId: string;
   isLeftover: boolean;
   position: number;
@@ -66,6 +165,47 @@ export interface GroceryItem {
   checked: boolean;
 }
 
+export interface PantryItem {
+  id: string;
+  name: string;
+  quantity: number | null; // null = "have some", not tracked
+  unit: string | null;
+  updatedAt: string;
+}
+
+/** Last price paid for an ingredient: `price` buys `quantity` `unit`. */
+export interface IngredientPrice {
+  id: string;
+  name: string; // normalized ingredient name
+  store: string | null; // null = any store
+  price: number;
+  quantity: number;
+  unit: string | null; // null = per item
+  updatedAt: string;
+}
+
+/** One entry in an ingredient's price history. */
+export interface PriceRecord {
+  id: string;
+  name: string;
+  store: string | null;
+  price: number;
+  quantity: number;
+  unit: string | null;
+  recordedAt: string;
+}
+
+/** A place the user shops, with its aisles in walking order. */
+export interface GroceryStore {
+  id: string;
+  name: string;
+  aisleOrder: string[]; // ingredient category names; missing ones are walked last
+  sortOrder: number;
+}
+
+/** Normalized ingredient name → id of the store it's bought at. */
+export type StoreAssignments = Record<string, string>;
+
 export type MealSlot = "breakfast" | "lunch" | "dinner" | "snack";
 
 export interface MealTemplate {
@@ -75,15 +215,41 @@ export interface MealTemplate {
   createdAt: string;
 }
 
+/** Meal plan targets shown against the weekly summary. null = no target. */
+export interface PlanGoals {
+  dailyCalories: number | null;
+  weeklyBudget: number | null;
+}
+
 export interface Profile {
   id: string;
   email: string | null;
   displayName: string | null;
   avatarUrl: string | null;
+  dietaryRestrictions: DietaryRestriction[];
   createdAt: string;
   updatedAt: string;
 }
 
+export type HouseholdRole = "owner" | "member";
+
+export interface HouseholdMember {
+  userId: string;
+  displayName: string | null;
+  email: string | null;
+  role: HouseholdRole;
+  joinedAt: string;
+}
+
+/** Accounts sharing one meal plan, shopping list and grocery list. */
+export interface Household {
+  id: string;
+  name: string;
+  /** Code another account enters to join. */
+  inviteCode: string;
+  members: HouseholdMember[];
+}
+
 export interface RecipeGroup {
   id: string;
   name: string;
@@ -99,3 +265,38 @@ export interface RecipeGroupMember {
   recipeId: string;
   addedAt: string;
 }
+
+/** What a share link points at. */
+export type ShareTarget = { type: "recipe" | "group"; id: string };
+
+/** What a visitor to a share link sees. */
+export interface SharedRecipes {
+  kind: "recipe" | "group";
+  /** The recipe's title, or the group's name. */
+  name: string;
+  recipes: Recipe[];
+}
+
+/** The recipe fields a revision keeps: everything the edit form changes. */
+export type RecipeSnapshot = Pick<Recipe, "title" | "image" | "sourceUrl" | "ingredients" | "instructions"> & {
+  prepTime: string | null;
+  cookTime: string | null;
+  totalTime: string | null;
+  servings: string | null;
+  author: string | null;
+  cuisineType: string | null;
+  difficulty: Recipe["difficulty"];
+  notes: string | null;
+};
+
+/** How a revision came about: the recipe as first saved, an edit, or a revert to an earlier revision. */
+export type RevisionKind = "original" | "edit" | "revert";
+
+/** A recipe as it stood after one change. */
+export interface RecipeRevision {
+  id: string;
+  recipeId: string;
+  kind: RevisionKind;
+  snapshot: RecipeSnapshot;
+  createdAt: string;
+}
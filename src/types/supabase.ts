@@ -15,6 +15,7 @@ export interface Database {
           email: string | null;
           display_name: string | null;
           avatar_url: string | null;
+          dietary_restrictions: string[];
           created_at: string;
           updated_at: string;
         };
@@ -23,6 +24,7 @@ export interface Database {
           email?: string | null;
           display_name?: string | null;
           avatar_url?: string | null;
+          dietary_restrictions?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -31,11 +33,75 @@ export interface Database {
           email?: string | null;
           display_name?: string | null;
           avatar_url?: string | null;
+          dietary_restrictions?: string[];
           created_at?: string;
           updated_at?: string;
         };
         Relationships: [];
       };
+      households: {
+        Row: {
+          id: string;
+          name: string;
+          invite_code: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name?: string;
+          invite_code?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          invite_code?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      household_members: {
+        Row: {
+          id: string;
+          household_id: string;
+          user_id: string;
+          role: "owner" | "member";
+          joined_at: string;
+        };
+        Insert: {
+          id?: string;
+          household_id: string;
+          user_id: string;
+          role?: "owner" | "member";
+          joined_at?: string;
+        };
+        Update: {
+          id?: string;
+          household_id?: string;
+          user_id?: string;
+          role?: "owner" | "member";
+          joined_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "household_members_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "household_members_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       recipes: {
         Row: {
           id: string;
@@ -53,6 +119,17 @@ export interface Database {
           rating: number | null;
           is_favorite: boolean;
           notes: string | null;
+          search_document: unknown;
+          allergens: string[] | null;
+          diets: string[] | null;
+          description: string | null;
+          nutrition: Record<string, unknown> | null;
+          categories: string[] | null;
+          keywords: string[] | null;
+          suitable_for_diet: string[] | null;
+          video: Record<string, unknown> | null;
+          aggregate_rating: number | null;
+          aggregate_rating_count: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -72,6 +149,17 @@ export interface Database {
           rating?: number | null;
           is_favorite?: boolean;
           notes?: string | null;
+          search_document?: unknown;
+          allergens?: string[] | null;
+          diets?: string[] | null;
+          description?: string | null;
+          nutrition?: Record<string, unknown> | null;
+          categories?: string[] | null;
+          keywords?: string[] | null;
+          suitable_for_diet?: string[] | null;
+          video?: Record<string, unknown> | null;
+          aggregate_rating?: number | null;
+          aggregate_rating_count?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -91,6 +179,17 @@ export interface Database {
           rating?: number | null;
           is_favorite?: boolean;
           notes?: string | null;
+          search_document?: unknown;
+          allergens?: string[] | null;
+          diets?: string[] | null;
+          description?: string | null;
+          nutrition?: Record<string, unknown> | null;
+          categories?: string[] | null;
+          keywords?: string[] | null;
+          suitable_for_diet?: string[] | null;
+          video?: Record<string, unknown> | null;
+          aggregate_rating?: number | null;
+          aggregate_rating_count?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -191,6 +290,7 @@ export interface Database {
       meal_plans: {
         Row: {
           id: string;
+          household_id: string;
           user_id: string;
           date: string;
           meal_type: "breakfast" | "lunch" | "dinner" | "snack";
@@ -200,6 +300,7 @@ export interface Database {
         };
         Insert: {
           id?: string;
+          household_id: string;
           user_id: string;
           date: string;
           meal_type: "breakfast" | "lunch" | "dinner" | "snack";
@@ -209,6 +310,7 @@ export interface Database {
         };
         Update: {
           id?: string;
+          household_id?: string;
           user_id?: string;
           date?: string;
           meal_type?: "breakfast" | "lunch" | "dinner" | "snack";
@@ -217,6 +319,13 @@ export interface Database {
           position?: number;
         };
         Relationships: [
+          {
+            foreignKeyName: "meal_plans_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "meal_plans_user_id_fkey";
             columns: ["user_id"];
@@ -268,6 +377,7 @@ export interface Database {
       shopping_items: {
         Row: {
           id: string;
+          household_id: string;
           user_id: string;
           text: string;
           checked: boolean;
@@ -275,6 +385,7 @@ export interface Database {
         };
         Insert: {
           id?: string;
+          household_id: string;
           user_id: string;
           text: string;
           checked?: boolean;
@@ -282,12 +393,20 @@ export interface Database {
         };
         Update: {
           id?: string;
+          household_id?: string;
           user_id?: string;
           text?: string;
           checked?: boolean;
           recipe_id?: string | null;
         };
         Relationships: [
+          {
+            foreignKeyName: "shopping_items_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "shopping_items_user_id_fkey";
             columns: ["user_id"];
@@ -307,6 +426,7 @@ export interface Database {
       grocery_items: {
         Row: {
           id: string;
+          household_id: string;
           user_id: string;
           text: string;
           checked: boolean;
@@ -314,6 +434,7 @@ export interface Database {
         };
         Insert: {
           id?: string;
+          household_id: string;
           user_id: string;
           text: string;
           checked?: boolean;
@@ -321,12 +442,20 @@ export interface Database {
         };
         Update: {
           id?: string;
+          household_id?: string;
           user_id?: string;
           text?: string;
           checked?: boolean;
           created_at?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: "grocery_items_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "grocery_items_user_id_fkey";
             columns: ["user_id"];
@@ -336,6 +465,206 @@ export interface Database {
           },
         ];
       };
+      pantry_items: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          quantity: number | null;
+          unit: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          quantity?: number | null;
+          unit?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          quantity?: number | null;
+          unit?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "pantry_items_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      ingredient_prices: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          store: string;
+          price: number;
+          quantity: number;
+          unit: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          store?: string;
+          price: number;
+          quantity?: number;
+          unit?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          store?: string;
+          price?: number;
+          quantity?: number;
+          unit?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "ingredient_prices_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      price_history: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          store: string;
+          price: number;
+          quantity: number;
+          unit: string | null;
+          recorded_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          store?: string;
+          price: number;
+          quantity?: number;
+          unit?: string | null;
+          recorded_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          store?: string;
+          price?: number;
+          quantity?: number;
+          unit?: string | null;
+          recorded_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "price_history_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      grocery_stores: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          aisle_order: string[];
+          sort_order: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          aisle_order?: string[];
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          aisle_order?: string[];
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "grocery_stores_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      store_assignments: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          store_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          store_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          store_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "store_assignments_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "store_assignments_store_id_fkey";
+            columns: ["store_id"];
+            isOneToOne: false;
+            referencedRelation: "grocery_stores";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       checked_ingredients: {
         Row: {
           id: string;
@@ -449,12 +778,153 @@ export interface Database {
           },
         ];
       };
+      recipe_shares: {
+        Row: {
+          id: string;
+          user_id: string;
+          token: string;
+          recipe_id: string | null;
+          group_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          token: string;
+          recipe_id?: string | null;
+          group_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          token?: string;
+          recipe_id?: string | null;
+          group_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "recipe_shares_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "recipe_shares_recipe_id_fkey";
+            columns: ["recipe_id"];
+            isOneToOne: false;
+            referencedRelation: "recipes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "recipe_shares_group_id_fkey";
+            columns: ["group_id"];
+            isOneToOne: false;
+            referencedRelation: "recipe_groups";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      recipe_revisions: {
+        Row: {
+          id: string;
+          recipe_id: string;
+          user_id: string;
+          kind: string;
+          snapshot: Record<string, unknown>;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          recipe_id: string;
+          user_id: string;
+          kind: string;
+          snapshot: Record<string, unknown>;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          recipe_id?: string;
+          user_id?: string;
+          kind?: string;
+          snapshot?: Record<string, unknown>;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "recipe_revisions_recipe_id_fkey";
+            columns: ["recipe_id"];
+            isOneToOne: false;
+            referencedRelation: "recipes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "recipe_revisions_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      current_household_id: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      in_my_household: {
+        Args: {
+          member: string;
+        };
+        Returns: boolean;
+      };
+      join_household: {
+        Args: {
+          code: string;
+        };
+        Returns: string;
+      };
+      leave_household: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      remove_household_member: {
+        Args: {
+          member: string;
+        };
+        Returns: undefined;
+      };
+      restore_account_data: {
+        Args: {
+          payload: Json;
+        };
+        Returns: undefined;
+      };
+      search_recipes: {
+        Args: {
+          p_text?: string;
+          p_terms?: Json;
+          p_ranges?: Json;
+          p_favorite?: boolean | null;
+          p_limit?: number;
+        };
+        Returns: {
+          id: string;
+          rank: number;
+        }[];
+      };
+      shared_recipes: {
+        Args: {
+          share_token: string;
+        };
+        Returns: Json;
+      };
     };
     Enums: {
       [_ in never]: never;
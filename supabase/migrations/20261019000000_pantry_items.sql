@@ -0,0 +1,31 @@
+-- Pantry inventory: what the user has on hand, subtracted from generated
+-- shopping lists. A null quantity means "have some, untracked" (spices etc.).
+create table pantry_items (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  name text not null,
+  quantity numeric check (quantity is null or quantity >= 0),
+  unit text,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null
+);
+
+create index idx_pantry_items_user_id on pantry_items(user_id);
+
+alter table pantry_items enable row level security;
+
+create policy "Users can view own pantry items"
+  on pantry_items for select using (auth.uid() = user_id);
+
+create policy "Users can insert own pantry items"
+  on pantry_items for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own pantry items"
+  on pantry_items for update using (auth.uid() = user_id);
+
+create policy "Users can delete own pantry items"
+  on pantry_items for delete using (auth.uid() = user_id);
+
+create trigger set_updated_at_pantry_items
+  before update on pantry_items
+  for each row execute function public.update_updated_at();
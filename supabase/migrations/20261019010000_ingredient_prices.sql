@@ -0,0 +1,58 @@
+-- Ingredient prices: what the user last paid for an ingredient, per store,
+-- used to estimate shopping list costs. An empty store means "any store".
+-- A null unit means the price is per item ("3 lemons for $2").
+create table ingredient_prices (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  name text not null,
+  store text default '' not null,
+  price numeric not null check (price >= 0),
+  quantity numeric default 1 not null check (quantity > 0),
+  unit text,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null,
+  unique (user_id, name, store)
+);
+
+-- Price history: every price paid, recorded when a list item is checked off
+-- with a price. Append-only.
+create table price_history (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  name text not null,
+  store text default '' not null,
+  price numeric not null check (price >= 0),
+  quantity numeric default 1 not null check (quantity > 0),
+  unit text,
+  recorded_at timestamptz default now() not null
+);
+
+create index idx_price_history_user_name on price_history(user_id, name, recorded_at desc);
+
+alter table ingredient_prices enable row level security;
+alter table price_history enable row level security;
+
+create policy "Users can view own ingredient prices"
+  on ingredient_prices for select using (auth.uid() = user_id);
+
+create policy "Users can insert own ingredient prices"
+  on ingredient_prices for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own ingredient prices"
+  on ingredient_prices for update using (auth.uid() = user_id);
+
+create policy "Users can delete own ingredient prices"
+  on ingredient_prices for delete using (auth.uid() = user_id);
+
+create policy "Users can view own price history"
+  on price_history for select using (auth.uid() = user_id);
+
+create policy "Users can insert own price history"
+  on price_history for insert with check (auth.uid() = user_id);
+
+create policy "Users can delete own price history"
+  on price_history for delete using (auth.uid() = user_id);
+
+create trigger set_updated_at_ingredient_prices
+  before update on ingredient_prices
+  for each row execute function public.update_updated_at();
@@ -0,0 +1,56 @@
+-- Grocery stores: the places a user shops, each with its own aisle order
+-- (ingredient category names in walking order). Categories missing from
+-- aisle_order are walked last, in the default order.
+create table grocery_stores (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  name text not null,
+  aisle_order text[] default '{}' not null,
+  sort_order integer default 0 not null,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null
+);
+
+-- Which store an item is bought at, keyed by normalized ingredient name so
+-- the assignment survives regenerating the shopping list.
+create table store_assignments (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  name text not null,
+  store_id uuid references grocery_stores(id) on delete cascade not null,
+  created_at timestamptz default now() not null,
+  unique (user_id, name)
+);
+
+create index idx_store_assignments_store on store_assignments(store_id);
+
+alter table grocery_stores enable row level security;
+alter table store_assignments enable row level security;
+
+create policy "Users can view own grocery stores"
+  on grocery_stores for select using (auth.uid() = user_id);
+
+create policy "Users can insert own grocery stores"
+  on grocery_stores for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own grocery stores"
+  on grocery_stores for update using (auth.uid() = user_id);
+
+create policy "Users can delete own grocery stores"
+  on grocery_stores for delete using (auth.uid() = user_id);
+
+create policy "Users can view own store assignments"
+  on store_assignments for select using (auth.uid() = user_id);
+
+create policy "Users can insert own store assignments"
+  on store_assignments for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own store assignments"
+  on store_assignments for update using (auth.uid() = user_id);
+
+create policy "Users can delete own store assignments"
+  on store_assignments for delete using (auth.uid() = user_id);
+
+create trigger set_updated_at_grocery_stores
+  before update on grocery_stores
+  for each row execute function public.update_updated_at();
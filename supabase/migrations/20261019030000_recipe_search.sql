@@ -0,0 +1,192 @@
+-- Full-text recipe search. Each recipe carries a weighted search document
+-- (title > tags and ingredients > author, cuisine and difficulty >
+-- instructions), kept current by triggers on the recipe and its child rows.
+-- search_recipes() applies the fielded query syntax parsed client-side in
+-- src/lib/recipe-search.ts; trigram word similarity gives typo tolerance.
+
+create extension if not exists pg_trgm with schema extensions;
+
+alter table recipes add column search_document tsvector;
+
+create or replace function public.recipe_search_document(r public.recipes)
+returns tsvector
+language sql
+stable
+set search_path = public
+as $$
+  select
+    setweight(to_tsvector('english', coalesce(r.title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce((select string_agg(t.tag, ' ') from recipe_tags t where t.recipe_id = r.id), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce((select string_agg(i.text, ' ') from recipe_ingredients i where i.recipe_id = r.id), '')), 'B') ||
+    setweight(to_tsvector('english', concat_ws(' ', r.author, r.cuisine_type, r.difficulty)), 'C') ||
+    setweight(to_tsvector('english', coalesce((select string_agg(s.text, ' ') from recipe_instructions s where s.recipe_id = r.id), '')), 'D');
+$$;
+
+create or replace function public.set_recipe_search_document()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.search_document = public.recipe_search_document(new);
+  return new;
+end;
+$$;
+
+-- Child rows changed: touch search_document so the recipe trigger rebuilds it
+create or replace function public.refresh_recipe_search_document()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  update recipes set search_document = null
+  where id = case when tg_op = 'DELETE' then old.recipe_id else new.recipe_id end;
+  return null;
+end;
+$$;
+
+create trigger set_search_document_recipes
+  before insert or update of title, author, cuisine_type, difficulty, search_document on recipes
+  for each row execute function public.set_recipe_search_document();
+
+create trigger refresh_search_document_ingredients
+  after insert or update or delete on recipe_ingredients
+  for each row execute function public.refresh_recipe_search_document();
+
+create trigger refresh_search_document_instructions
+  after insert or update or delete on recipe_instructions
+  for each row execute function public.refresh_recipe_search_document();
+
+create trigger refresh_search_document_tags
+  after insert or update or delete on recipe_tags
+  for each row execute function public.refresh_recipe_search_document();
+
+create index idx_recipes_search_document on recipes using gin (search_document);
+create index idx_recipes_title_trgm on recipes using gin (title extensions.gin_trgm_ops);
+create index idx_recipe_ingredients_text_trgm on recipe_ingredients using gin (text extensions.gin_trgm_ops);
+
+-- Backfill without bumping every recipe's updated_at
+alter table recipes disable trigger set_updated_at_recipes;
+update recipes set search_document = null;
+alter table recipes enable trigger set_updated_at_recipes;
+
+-- "PT1H30M" → 90; null for anything else
+create or replace function public.iso_duration_minutes(d text)
+returns integer
+language sql
+immutable
+as $$
+  select case
+    when d ~ '^PT(\d+H)?(\d+M)?$' and d <> 'PT'
+    then coalesce(substring(d from '(\d+)H')::integer, 0) * 60 + coalesce(substring(d from '(\d+)M')::integer, 0)
+  end;
+$$;
+
+-- Total time in minutes, falling back to prep + cook
+create or replace function public.recipe_minutes(r public.recipes)
+returns integer
+language sql
+immutable
+set search_path = public
+as $$
+  select coalesce(
+    iso_duration_minutes(r.total_time),
+    case
+      when iso_duration_minutes(r.prep_time) is not null or iso_duration_minutes(r.cook_time) is not null
+      then coalesce(iso_duration_minutes(r.prep_time), 0) + coalesce(iso_duration_minutes(r.cook_time), 0)
+    end
+  );
+$$;
+
+-- Substring match, or (when fuzzy) a close trigram match for words of 4+ letters
+create or replace function public.search_text_matches(haystack text, needle text, fuzzy boolean)
+returns boolean
+language sql
+immutable
+set search_path = public, extensions
+as $$
+  select haystack is not null and (
+    strpos(lower(haystack), lower(needle)) > 0
+    or (fuzzy and length(needle) >= 4 and word_similarity(lower(needle), lower(haystack)) >= 0.5)
+  );
+$$;
+
+create or replace function public.recipe_matches_term(r public.recipes, field text, value text, fuzzy boolean)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select case field
+    when 'title' then search_text_matches(r.title, value, fuzzy)
+    when 'ingredient' then exists (
+      select 1 from recipe_ingredients i where i.recipe_id = r.id and search_text_matches(i.text, value, fuzzy))
+    when 'instruction' then exists (
+      select 1 from recipe_instructions s where s.recipe_id = r.id and search_text_matches(s.text, value, fuzzy))
+    when 'tag' then exists (
+      select 1 from recipe_tags t where t.recipe_id = r.id and search_text_matches(t.tag, value, fuzzy))
+    when 'author' then search_text_matches(r.author, value, fuzzy)
+    when 'cuisine' then search_text_matches(r.cuisine_type, value, fuzzy)
+    when 'difficulty' then lower(r.difficulty) = lower(value)
+    else coalesce(r.search_document @@ plainto_tsquery('english', value), false)
+      or search_text_matches(r.title, value, fuzzy)
+      or exists (
+        select 1 from recipe_ingredients i where i.recipe_id = r.id and search_text_matches(i.text, value, fuzzy))
+  end;
+$$;
+
+create or replace function public.compare_numbers(actual numeric, op text, expected numeric)
+returns boolean
+language sql
+immutable
+as $$
+  select case op
+    when '<' then actual < expected
+    when '<=' then actual <= expected
+    when '=' then actual = expected
+    when '>=' then actual >= expected
+    when '>' then actual > expected
+  end;
+$$;
+
+-- Search the caller's recipes.
+--   p_text:     free text for ranking (websearch syntax)
+--   p_terms:    [{ field, value, negate }] — every positive term must match,
+--               negated terms exclude on an exact match only
+--   p_ranges:   [{ field: 'time' | 'rating', op, value, negate }]
+--   p_favorite: true / false to filter on is_favorite, null for either
+create or replace function public.search_recipes(
+  p_text text default '',
+  p_terms jsonb default '[]',
+  p_ranges jsonb default '[]',
+  p_favorite boolean default null,
+  p_limit integer default 50
+)
+returns table (id uuid, rank real)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select
+    r.id,
+    (ts_rank(r.search_document, websearch_to_tsquery('english', p_text))
+      + word_similarity(lower(p_text), lower(r.title)))::real as rank
+  from recipes r
+  where r.user_id = auth.uid()
+    and (p_favorite is null or r.is_favorite = p_favorite)
+    and not exists (
+      select 1 from jsonb_to_recordset(p_terms) as t(field text, value text, negate boolean)
+      where recipe_matches_term(r, t.field, t.value, not t.negate) = t.negate
+    )
+    and not exists (
+      select 1 from jsonb_to_recordset(p_ranges) as g(field text, op text, value numeric, negate boolean)
+      where coalesce(
+        compare_numbers(case g.field when 'time' then recipe_minutes(r) else r.rating end, g.op, g.value),
+        false
+      ) = g.negate
+    )
+  order by rank desc, r.created_at desc
+  limit least(greatest(p_limit, 1), 200);
+$$;
@@ -0,0 +1,15 @@
+-- Dietary classification per recipe, derived from the ingredient lines by the
+-- app (see src/lib/dietary.ts) and rewritten whenever the ingredients change.
+-- Null means the recipe hasn't been classified yet; the app classifies it on
+-- the fly until it is next saved.
+alter table recipes
+  add column allergens text[]
+    check (allergens <@ array['gluten', 'dairy', 'nuts', 'shellfish', 'egg', 'soy']),
+  add column diets text[]
+    check (diets <@ array['vegetarian', 'vegan']);
+
+-- Household restrictions: allergens to avoid and diets to keep. Recipes that
+-- break one are flagged in the recipe list and meal plan picker.
+alter table profiles
+  add column dietary_restrictions text[] default '{}' not null
+    check (dietary_restrictions <@ array['gluten', 'dairy', 'nuts', 'shellfish', 'egg', 'soy', 'vegetarian', 'vegan']);
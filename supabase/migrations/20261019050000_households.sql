@@ -0,0 +1,331 @@
+-- Households: several accounts sharing one meal plan, shopping list and
+-- grocery list. Every profile belongs to exactly one household — a household
+-- of one until they join someone else's with its invite code — so the shared
+-- tables are always scoped by household_id. Members can also read each
+-- other's recipes (a shared plan has to show what's planned); only the owner
+-- of a recipe can change it.
+
+create table households (
+  id uuid default gen_random_uuid() primary key,
+  name text default 'My household' not null,
+  invite_code text default left(md5(gen_random_uuid()::text), 10) unique not null,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null
+);
+
+create table household_members (
+  id uuid default gen_random_uuid() primary key,
+  household_id uuid references households(id) on delete cascade not null,
+  user_id uuid references profiles(id) on delete cascade not null unique,
+  role text default 'member' not null check (role in ('owner', 'member')),
+  joined_at timestamptz default now() not null
+);
+
+create index idx_household_members_household_id on household_members(household_id);
+
+create trigger set_updated_at_households
+  before update on households
+  for each row execute function public.update_updated_at();
+
+-- ------------------------------------------------------------
+-- Every existing profile gets a household of its own
+-- ------------------------------------------------------------
+
+do $$
+declare
+  profile_id uuid;
+  new_household uuid;
+begin
+  for profile_id in select id from profiles loop
+    insert into households default values returning id into new_household;
+    insert into household_members (household_id, user_id, role)
+    values (new_household, profile_id, 'owner');
+  end loop;
+end;
+$$;
+
+-- ------------------------------------------------------------
+-- Shared tables: scope by household; user_id records who added the row
+-- ------------------------------------------------------------
+
+alter table meal_plans add column household_id uuid references households(id) on delete cascade;
+alter table shopping_items add column household_id uuid references households(id) on delete cascade;
+alter table grocery_items add column household_id uuid references households(id) on delete cascade;
+
+update meal_plans t set household_id = m.household_id from household_members m where m.user_id = t.user_id;
+update shopping_items t set household_id = m.household_id from household_members m where m.user_id = t.user_id;
+update grocery_items t set household_id = m.household_id from household_members m where m.user_id = t.user_id;
+
+alter table meal_plans alter column household_id set not null;
+alter table shopping_items alter column household_id set not null;
+alter table grocery_items alter column household_id set not null;
+
+-- A recipe appears at most once per slot of the household's plan
+alter table meal_plans drop constraint if exists meal_plans_user_slot_recipe_key;
+alter table meal_plans drop constraint if exists meal_plans_user_id_date_meal_type_recipe_id_key;
+alter table meal_plans
+  add constraint meal_plans_household_slot_recipe_key
+  unique (household_id, date, meal_type, recipe_id);
+
+drop index if exists idx_meal_plans_date;
+create index idx_meal_plans_household_date on meal_plans(household_id, date);
+create index idx_shopping_items_household_id on shopping_items(household_id);
+create index idx_grocery_items_household_id on grocery_items(household_id);
+
+-- ------------------------------------------------------------
+-- Membership helpers. Security definer so policies can call them without
+-- recursing into household_members' own policies.
+-- ------------------------------------------------------------
+
+create or replace function public.current_household_id()
+returns uuid
+language sql
+stable
+security definer set search_path = ''
+as $$
+  select household_id from public.household_members where user_id = auth.uid();
+$$;
+
+create or replace function public.in_my_household(member uuid)
+returns boolean
+language sql
+stable
+security definer set search_path = ''
+as $$
+  select exists (
+    select 1 from public.household_members
+    where user_id = member and household_id = public.current_household_id()
+  );
+$$;
+
+-- Move a user into another household. If they were the last member, the
+-- plan and lists they leave behind come with them (so joining a partner
+-- merges what you'd planned alone) and the empty household is deleted;
+-- otherwise everything stays with the remaining members, and ownership
+-- passes to the longest-standing one if the owner is the one leaving.
+create or replace function public.move_to_household(member uuid, target uuid, new_role text)
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  source uuid;
+  was_owner boolean;
+begin
+  select household_id, role = 'owner' into source, was_owner
+  from public.household_members where user_id = member;
+  if source = target then
+    return;
+  end if;
+
+  if not exists (select 1 from public.household_members where household_id = source and user_id <> member) then
+    delete from public.meal_plans p
+    where p.household_id = source and exists (
+      select 1 from public.meal_plans q
+      where q.household_id = target and q.date = p.date and q.meal_type = p.meal_type and q.recipe_id = p.recipe_id
+    );
+    update public.meal_plans set household_id = target where household_id = source;
+    update public.shopping_items set household_id = target where household_id = source;
+    update public.grocery_items set household_id = target where household_id = source;
+  elsif was_owner then
+    update public.household_members set role = 'owner'
+    where id = (
+      select id from public.household_members
+      where household_id = source and user_id <> member
+      order by joined_at
+      limit 1
+    );
+  end if;
+
+  update public.household_members
+  set household_id = target, role = new_role, joined_at = now()
+  where user_id = member;
+
+  delete from public.households h
+  where h.id = source and not exists (select 1 from public.household_members m where m.household_id = source);
+end;
+$$;
+
+revoke execute on function public.move_to_household(uuid, uuid, text) from public, anon, authenticated;
+
+-- ------------------------------------------------------------
+-- Membership changes (called by the app via rpc)
+-- ------------------------------------------------------------
+
+-- Join the household with this invite code; returns its id
+create or replace function public.join_household(code text)
+returns uuid
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  target uuid;
+begin
+  select id into target from public.households where invite_code = lower(trim(code));
+  if target is null then
+    raise exception 'Invite code not found' using errcode = 'P0002';
+  end if;
+  perform public.move_to_household(auth.uid(), target, 'member');
+  return target;
+end;
+$$;
+
+-- Leave a shared household for a new one of your own; returns its id
+create or replace function public.leave_household()
+returns uuid
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  fresh uuid;
+begin
+  if not exists (
+    select 1 from public.household_members
+    where household_id = public.current_household_id() and user_id <> auth.uid()
+  ) then
+    raise exception 'You are the only member of this household' using errcode = 'P0001';
+  end if;
+  insert into public.households default values returning id into fresh;
+  perform public.move_to_household(auth.uid(), fresh, 'owner');
+  return fresh;
+end;
+$$;
+
+-- Owner only: move another member out into a household of their own
+create or replace function public.remove_household_member(member uuid)
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  fresh uuid;
+begin
+  if member = auth.uid() or not exists (
+    select 1 from public.household_members me
+    join public.household_members them on them.household_id = me.household_id
+    where me.user_id = auth.uid() and me.role = 'owner' and them.user_id = member
+  ) then
+    raise exception 'Only the household owner can remove other members' using errcode = '42501';
+  end if;
+  insert into public.households default values returning id into fresh;
+  perform public.move_to_household(member, fresh, 'owner');
+end;
+$$;
+
+-- New users start in a household of their own
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  new_household uuid;
+begin
+  insert into public.profiles (id, email, display_name)
+  values (
+    new.id,
+    new.email,
+    coalesce(new.raw_user_meta_data ->> 'display_name', split_part(new.email, '@', 1))
+  );
+  insert into public.households default values returning id into new_household;
+  insert into public.household_members (household_id, user_id, role)
+  values (new_household, new.id, 'owner');
+  return new;
+end;
+$$;
+
+-- ------------------------------------------------------------
+-- Row level security
+-- ------------------------------------------------------------
+
+alter table households enable row level security;
+alter table household_members enable row level security;
+
+create policy "Members can view their household"
+  on households for select using (id = public.current_household_id());
+
+create policy "Owners can update their household"
+  on households for update using (
+    exists (
+      select 1 from household_members
+      where household_id = households.id and user_id = auth.uid() and role = 'owner'
+    )
+  );
+
+-- Membership only changes through the functions above
+create policy "Members can view their household's members"
+  on household_members for select using (household_id = public.current_household_id());
+
+create policy "Household members can view each other's profiles"
+  on profiles for select using (public.in_my_household(id));
+
+-- Recipes: housemates can read, only the owner can write
+create policy "Household members can view each other's recipes"
+  on recipes for select using (public.in_my_household(user_id));
+
+create policy "Household members can view each other's recipe ingredients"
+  on recipe_ingredients for select
+  using (exists (select 1 from recipes where recipes.id = recipe_id and public.in_my_household(recipes.user_id)));
+
+create policy "Household members can view each other's recipe instructions"
+  on recipe_instructions for select
+  using (exists (select 1 from recipes where recipes.id = recipe_id and public.in_my_household(recipes.user_id)));
+
+create policy "Household members can view each other's recipe tags"
+  on recipe_tags for select
+  using (exists (select 1 from recipes where recipes.id = recipe_id and public.in_my_household(recipes.user_id)));
+
+-- Meal plans and lists: shared by the whole household
+drop policy if exists "Users can view own meal plans" on meal_plans;
+drop policy if exists "Users can insert own meal plans" on meal_plans;
+drop policy if exists "Users can update own meal plans" on meal_plans;
+drop policy if exists "Users can delete own meal plans" on meal_plans;
+
+create policy "Household members can view meal plans"
+  on meal_plans for select using (household_id = public.current_household_id());
+
+create policy "Household members can insert meal plans"
+  on meal_plans for insert
+  with check (household_id = public.current_household_id() and auth.uid() = user_id);
+
+create policy "Household members can update meal plans"
+  on meal_plans for update using (household_id = public.current_household_id());
+
+create policy "Household members can delete meal plans"
+  on meal_plans for delete using (household_id = public.current_household_id());
+
+drop policy if exists "Users can view own shopping items" on shopping_items;
+drop policy if exists "Users can insert own shopping items" on shopping_items;
+drop policy if exists "Users can update own shopping items" on shopping_items;
+drop policy if exists "Users can delete own shopping items" on shopping_items;
+
+create policy "Household members can view shopping items"
+  on shopping_items for select using (household_id = public.current_household_id());
+
+create policy "Household members can insert shopping items"
+  on shopping_items for insert
+  with check (household_id = public.current_household_id() and auth.uid() = user_id);
+
+create policy "Household members can update shopping items"
+  on shopping_items for update using (household_id = public.current_household_id());
+
+create policy "Household members can delete shopping items"
+  on shopping_items for delete using (household_id = public.current_household_id());
+
+drop policy if exists "Users can view own grocery items" on grocery_items;
+drop policy if exists "Users can insert own grocery items" on grocery_items;
+drop policy if exists "Users can update own grocery items" on grocery_items;
+drop policy if exists "Users can delete own grocery items" on grocery_items;
+
+create policy "Household members can view grocery items"
+  on grocery_items for select using (household_id = public.current_household_id());
+
+create policy "Household members can insert grocery items"
+  on grocery_items for insert
+  with check (household_id = public.current_household_id() and auth.uid() = user_id);
+
+create policy "Household members can update grocery items"
+  on grocery_items for update using (household_id = public.current_household_id());
+
+create policy "Household members can delete grocery items"
+  on grocery_items for delete using (household_id = public.current_household_id());
@@ -0,0 +1,5 @@
+-- Stream changes to the shared meal plan and lists so housemates see each
+-- other's edits while the app is open. Realtime applies RLS to inserts and
+-- updates, so each subscriber only receives their own household's rows.
+
+alter publication supabase_realtime add table meal_plans, shopping_items, grocery_items;
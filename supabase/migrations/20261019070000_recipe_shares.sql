@@ -0,0 +1,97 @@
+-- Share links: a recipe or a whole group published at an unguessable URL
+-- that anyone can open without an account. The owner manages their links
+-- through RLS; visitors read through shared_recipes(), which returns only
+-- what the page shows (no notes, ratings or favourites).
+
+create table recipe_shares (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  token text unique not null check (char_length(token) >= 32),
+  recipe_id uuid references recipes(id) on delete cascade,
+  group_id uuid references recipe_groups(id) on delete cascade,
+  created_at timestamptz default now() not null,
+  check ((recipe_id is null) <> (group_id is null))
+);
+
+-- One link per group, and per recipe for each housemate who shares it;
+-- stopping sharing deletes the link, so sharing again makes a new token
+create unique index idx_recipe_shares_user_recipe on recipe_shares(user_id, recipe_id) where recipe_id is not null;
+create unique index idx_recipe_shares_group_id on recipe_shares(group_id) where group_id is not null;
+create index idx_recipe_shares_user_id on recipe_shares(user_id);
+
+alter table recipe_shares enable row level security;
+
+create policy "Users can view own shares"
+  on recipe_shares for select using (auth.uid() = user_id);
+
+-- Any recipe the user can see (their own or a housemate's), or their own group
+create policy "Users can share visible recipes and own groups"
+  on recipe_shares for insert
+  with check (
+    auth.uid() = user_id
+    and (
+      exists (select 1 from recipes where recipes.id = recipe_id)
+      or exists (select 1 from recipe_groups where recipe_groups.id = group_id and recipe_groups.user_id = auth.uid())
+    )
+  );
+
+create policy "Users can delete own shares"
+  on recipe_shares for delete using (auth.uid() = user_id);
+
+-- Everything a share link shows, or null for an unknown token. Security
+-- definer so visitors without an account can read it; group shares include
+-- only recipes from the sharer's household, whatever else the group holds.
+create or replace function public.shared_recipes(share_token text)
+returns jsonb
+language sql
+stable
+security definer set search_path = ''
+as $$
+  select jsonb_build_object(
+    'kind', case when s.group_id is null then 'recipe' else 'group' end,
+    'name', coalesce(g.name, (select r.title from public.recipes r where r.id = s.recipe_id)),
+    'recipes', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'title', r.title,
+        'image', r.image,
+        'source_url', r.source_url,
+        'prep_time', r.prep_time,
+        'cook_time', r.cook_time,
+        'total_time', r.total_time,
+        'servings', r.servings,
+        'author', r.author,
+        'cuisine_type', r.cuisine_type,
+        'difficulty', r.difficulty,
+        'created_at', r.created_at,
+        'ingredients', coalesce((
+          select jsonb_agg(i.text order by i.sort_order)
+          from public.recipe_ingredients i where i.recipe_id = r.id
+        ), '[]'::jsonb),
+        'instructions', coalesce((
+          select jsonb_agg(i.text order by i.sort_order)
+          from public.recipe_instructions i where i.recipe_id = r.id
+        ), '[]'::jsonb),
+        'tags', coalesce((
+          select jsonb_agg(t.tag order by t.tag)
+          from public.recipe_tags t where t.recipe_id = r.id
+        ), '[]'::jsonb)
+      ) order by r.title)
+      from public.recipes r
+      where r.id = s.recipe_id
+        or (
+          r.id in (select m.recipe_id from public.recipe_group_members m where m.group_id = s.group_id)
+          and r.user_id in (
+            select them.user_id from public.household_members me
+            join public.household_members them on them.household_id = me.household_id
+            where me.user_id = s.user_id
+          )
+        )
+    ), '[]'::jsonb)
+  )
+  from public.recipe_shares s
+  left join public.recipe_groups g on g.id = s.group_id
+  where s.token = share_token;
+$$;
+
+grant execute on function public.shared_recipes(text) to anon, authenticated;
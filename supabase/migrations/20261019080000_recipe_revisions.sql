@@ -0,0 +1,31 @@
+-- Recipe revisions: every content edit to a recipe (title, ingredients,
+-- instructions, metadata, notes) is kept as a full snapshot, so a bad edit
+-- can be reverted. The recipe as it was first saved is kept as its
+-- 'original' revision, recorded before the first edit. Revisions are never
+-- updated or deleted, except with the recipe itself.
+
+create table recipe_revisions (
+  id uuid default gen_random_uuid() primary key,
+  recipe_id uuid references recipes(id) on delete cascade not null,
+  user_id uuid references profiles(id) on delete cascade not null,
+  kind text not null check (kind in ('original', 'edit', 'revert')),
+  snapshot jsonb not null,
+  created_at timestamptz default now() not null
+);
+
+create index idx_recipe_revisions_recipe_id on recipe_revisions(recipe_id, created_at desc);
+create unique index idx_recipe_revisions_original on recipe_revisions(recipe_id) where kind = 'original';
+
+alter table recipe_revisions enable row level security;
+
+-- Readable wherever the recipe is (own or a housemate's); only the owner edits
+create policy "Users can view revisions of visible recipes"
+  on recipe_revisions for select
+  using (exists (select 1 from recipes where recipes.id = recipe_id));
+
+create policy "Users can add revisions to own recipes"
+  on recipe_revisions for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from recipes where recipes.id = recipe_id and recipes.user_id = auth.uid())
+  );
@@ -0,0 +1,13 @@
+-- What the source page publishes about a recipe beyond the basics: its
+-- description, nutrition per serving, categories, keywords, the diets it's
+-- marked suitable for, a how-to video and the site's reader rating. Filled in
+-- on import and left as published; null means the source didn't say.
+alter table recipes
+  add column description text,
+  add column nutrition jsonb,
+  add column categories text[],
+  add column keywords text[],
+  add column suitable_for_diet text[],
+  add column video jsonb,
+  add column aggregate_rating numeric(3, 2) check (aggregate_rating >= 0 and aggregate_rating <= 5),
+  add column aggregate_rating_count integer check (aggregate_rating_count >= 0);
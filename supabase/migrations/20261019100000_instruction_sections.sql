@@ -0,0 +1,6 @@
+-- Instructions are grouped into sections the way ingredients are: a
+-- "## Name:" row starts a section, and a "- " row is a sub-step (a
+-- direction or tip) of the step above it. Existing rows are plain steps and
+-- need no change.
+comment on column recipe_instructions.text is
+  'A step; "## Name:" starts a section and "- " marks a sub-step of the step above, as in recipe_ingredients';
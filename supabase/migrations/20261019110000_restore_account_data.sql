@@ -0,0 +1,120 @@
+-- Account restore in one transaction
+--
+-- restoreAccountData used to delete the user's rows and then insert the
+-- archive batch by batch from the client; an insert failing partway left the
+-- account empty or half restored. The client now builds the rows (fresh ids,
+-- remapped recipe references) and hands them all to this function, so the
+-- old data is only gone once the new data is in.
+--
+-- Security definer, so it does RLS's job itself: every row is stamped with
+-- the caller's id and household, and rows pointing at a recipe, group or
+-- store only go in when that row is one of the caller's own.
+
+create or replace function public.restore_account_data(payload jsonb)
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  uid uuid := auth.uid();
+  household uuid := public.current_household_id();
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  -- Deleting recipes cascades to ingredients, instructions, tags, meal plans,
+  -- checked ingredients and group members; deleting stores to assignments.
+  -- In a shared household only the list items and meal plan entries this
+  -- user added go; housemates' stay.
+  delete from public.recipes where user_id = uid;
+  delete from public.shopping_items where user_id = uid;
+  delete from public.grocery_items where user_id = uid;
+  delete from public.pantry_items where user_id = uid;
+  delete from public.meal_templates where user_id = uid;
+  delete from public.recipe_groups where user_id = uid;
+  delete from public.ingredient_prices where user_id = uid;
+  delete from public.price_history where user_id = uid;
+  delete from public.grocery_stores where user_id = uid;
+
+  insert into public.recipes (
+    id, user_id, title, image, source_url, prep_time, cook_time, total_time, servings, author,
+    cuisine_type, difficulty, rating, is_favorite, notes, allergens, diets, description, nutrition,
+    categories, keywords, suitable_for_diet, video, aggregate_rating, aggregate_rating_count, created_at
+  )
+  select
+    r.id, uid, r.title, r.image, coalesce(r.source_url, ''), r.prep_time, r.cook_time, r.total_time, r.servings, r.author,
+    r.cuisine_type, r.difficulty, r.rating, coalesce(r.is_favorite, false), r.notes, r.allergens, r.diets, r.description, r.nutrition,
+    r.categories, r.keywords, r.suitable_for_diet, r.video, r.aggregate_rating, r.aggregate_rating_count, coalesce(r.created_at, now())
+  from jsonb_populate_recordset(null::public.recipes, coalesce(payload->'recipes', '[]')) r;
+
+  insert into public.recipe_ingredients (recipe_id, text, sort_order)
+  select i.recipe_id, i.text, coalesce(i.sort_order, 0)
+  from jsonb_populate_recordset(null::public.recipe_ingredients, coalesce(payload->'recipe_ingredients', '[]')) i
+  where i.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.recipe_instructions (recipe_id, text, sort_order)
+  select i.recipe_id, i.text, coalesce(i.sort_order, 0)
+  from jsonb_populate_recordset(null::public.recipe_instructions, coalesce(payload->'recipe_instructions', '[]')) i
+  where i.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.recipe_tags (recipe_id, tag)
+  select t.recipe_id, t.tag
+  from jsonb_populate_recordset(null::public.recipe_tags, coalesce(payload->'recipe_tags', '[]')) t
+  where t.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.meal_plans (household_id, user_id, date, meal_type, recipe_id, is_leftover, position)
+  select household, uid, m.date, m.meal_type, m.recipe_id, coalesce(m.is_leftover, false), coalesce(m.position, 0)
+  from jsonb_populate_recordset(null::public.meal_plans, coalesce(payload->'meal_plans', '[]')) m
+  where m.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.meal_templates (user_id, name, template, created_at)
+  select uid, t.name, t.template, coalesce(t.created_at, now())
+  from jsonb_populate_recordset(null::public.meal_templates, coalesce(payload->'meal_templates', '[]')) t;
+
+  insert into public.shopping_items (household_id, user_id, text, checked, recipe_id)
+  select household, uid, s.text, coalesce(s.checked, false),
+    case when s.recipe_id in (select id from public.recipes where user_id = uid) then s.recipe_id end
+  from jsonb_populate_recordset(null::public.shopping_items, coalesce(payload->'shopping_items', '[]')) s;
+
+  insert into public.grocery_items (household_id, user_id, text, checked, created_at)
+  select household, uid, g.text, coalesce(g.checked, false), coalesce(g.created_at, now())
+  from jsonb_populate_recordset(null::public.grocery_items, coalesce(payload->'grocery_items', '[]')) g;
+
+  insert into public.pantry_items (user_id, name, quantity, unit)
+  select uid, p.name, p.quantity, p.unit
+  from jsonb_populate_recordset(null::public.pantry_items, coalesce(payload->'pantry_items', '[]')) p;
+
+  insert into public.checked_ingredients (user_id, recipe_id, ingredient_index)
+  select uid, c.recipe_id, c.ingredient_index
+  from jsonb_populate_recordset(null::public.checked_ingredients, coalesce(payload->'checked_ingredients', '[]')) c
+  where c.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.recipe_groups (id, user_id, name, icon, sort_order, is_default, created_at)
+  select g.id, uid, g.name, g.icon, coalesce(g.sort_order, 0), coalesce(g.is_default, false), coalesce(g.created_at, now())
+  from jsonb_populate_recordset(null::public.recipe_groups, coalesce(payload->'recipe_groups', '[]')) g;
+
+  insert into public.recipe_group_members (group_id, recipe_id, added_at)
+  select m.group_id, m.recipe_id, coalesce(m.added_at, now())
+  from jsonb_populate_recordset(null::public.recipe_group_members, coalesce(payload->'recipe_group_members', '[]')) m
+  where m.group_id in (select id from public.recipe_groups where user_id = uid)
+    and m.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.ingredient_prices (user_id, name, store, price, quantity, unit)
+  select uid, p.name, coalesce(p.store, ''), p.price, coalesce(p.quantity, 1), p.unit
+  from jsonb_populate_recordset(null::public.ingredient_prices, coalesce(payload->'ingredient_prices', '[]')) p;
+
+  insert into public.price_history (user_id, name, store, price, quantity, unit, recorded_at)
+  select uid, p.name, coalesce(p.store, ''), p.price, coalesce(p.quantity, 1), p.unit, coalesce(p.recorded_at, now())
+  from jsonb_populate_recordset(null::public.price_history, coalesce(payload->'price_history', '[]')) p;
+
+  insert into public.grocery_stores (id, user_id, name, aisle_order, sort_order)
+  select s.id, uid, s.name, coalesce(s.aisle_order, '{}'), coalesce(s.sort_order, 0)
+  from jsonb_populate_recordset(null::public.grocery_stores, coalesce(payload->'grocery_stores', '[]')) s;
+
+  insert into public.store_assignments (user_id, name, store_id)
+  select uid, a.name, a.store_id
+  from jsonb_populate_recordset(null::public.store_assignments, coalesce(payload->'store_assignments', '[]')) a
+  where a.store_id in (select id from public.grocery_stores where user_id = uid);
+end;
+$$;
@@ -0,0 +1,90 @@
+-- Recipe search fixes
+--
+-- "difficulty:easy" let through every recipe without a difficulty: the
+-- comparison was null, and search_recipes only excludes a recipe when a
+-- term's match is exactly false (or exactly true, for a negated term).
+--
+-- The child-row triggers fired once per ingredient, step and tag, each
+-- rebuilding the recipe's whole search document (and bumping its
+-- updated_at), so saving a recipe with n lines cost n rebuilds of n lines.
+-- They now fire once per statement and rebuild each affected recipe once.
+-- Transition tables can't be shared between events, hence a trigger per
+-- event.
+
+create or replace function public.recipe_matches_term(r public.recipes, field text, value text, fuzzy boolean)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select case field
+    when 'title' then search_text_matches(r.title, value, fuzzy)
+    when 'ingredient' then exists (
+      select 1 from recipe_ingredients i where i.recipe_id = r.id and search_text_matches(i.text, value, fuzzy))
+    when 'instruction' then exists (
+      select 1 from recipe_instructions s where s.recipe_id = r.id and search_text_matches(s.text, value, fuzzy))
+    when 'tag' then exists (
+      select 1 from recipe_tags t where t.recipe_id = r.id and search_text_matches(t.tag, value, fuzzy))
+    when 'author' then search_text_matches(r.author, value, fuzzy)
+    when 'cuisine' then search_text_matches(r.cuisine_type, value, fuzzy)
+    when 'difficulty' then coalesce(lower(r.difficulty) = lower(value), false)
+    else coalesce(r.search_document @@ plainto_tsquery('english', value), false)
+      or search_text_matches(r.title, value, fuzzy)
+      or exists (
+        select 1 from recipe_ingredients i where i.recipe_id = r.id and search_text_matches(i.text, value, fuzzy))
+  end;
+$$;
+
+drop trigger refresh_search_document_ingredients on recipe_ingredients;
+drop trigger refresh_search_document_instructions on recipe_instructions;
+drop trigger refresh_search_document_tags on recipe_tags;
+
+-- Child rows changed: touch search_document once per affected recipe so the
+-- recipe trigger rebuilds it
+create or replace function public.refresh_recipe_search_document()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update recipes set search_document = null where id in (select recipe_id from new_rows);
+  elsif tg_op = 'DELETE' then
+    update recipes set search_document = null where id in (select recipe_id from old_rows);
+  else
+    update recipes set search_document = null
+    where id in (select recipe_id from new_rows union select recipe_id from old_rows);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger refresh_search_document_ingredients_insert
+  after insert on recipe_ingredients referencing new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_ingredients_update
+  after update on recipe_ingredients referencing old table as old_rows new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_ingredients_delete
+  after delete on recipe_ingredients referencing old table as old_rows
+  for each statement execute function public.refresh_recipe_search_document();
+
+create trigger refresh_search_document_instructions_insert
+  after insert on recipe_instructions referencing new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_instructions_update
+  after update on recipe_instructions referencing old table as old_rows new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_instructions_delete
+  after delete on recipe_instructions referencing old table as old_rows
+  for each statement execute function public.refresh_recipe_search_document();
+
+create trigger refresh_search_document_tags_insert
+  after insert on recipe_tags referencing new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_tags_update
+  after update on recipe_tags referencing old table as old_rows new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_tags_delete
+  after delete on recipe_tags referencing old table as old_rows
+  for each statement execute function public.refresh_recipe_search_document();
@@ -0,0 +1,79 @@
+-- Share links: only a recipe's owner can publish it
+--
+-- Any housemate could share a recipe they could see, or a group holding
+-- it, and the owner could neither see nor revoke that link. Recipe links
+-- now need the sharer to own the recipe, links housemates already made are
+-- dropped, and shared_recipes() checks ownership again on every read: a
+-- recipe link stops working if the recipe ever belongs to someone else,
+-- and a group link leaves out housemates' recipes in the group.
+
+drop policy "Users can share visible recipes and own groups" on recipe_shares;
+
+create policy "Users can share own recipes and groups"
+  on recipe_shares for insert
+  with check (
+    auth.uid() = user_id
+    and (
+      exists (select 1 from recipes where recipes.id = recipe_id and recipes.user_id = auth.uid())
+      or exists (select 1 from recipe_groups where recipe_groups.id = group_id and recipe_groups.user_id = auth.uid())
+    )
+  );
+
+delete from recipe_shares s
+where s.recipe_id is not null
+  and not exists (select 1 from recipes r where r.id = s.recipe_id and r.user_id = s.user_id);
+
+-- Everything a share link shows, or null for an unknown token or a recipe
+-- the sharer no longer owns. Security definer so visitors without an
+-- account can read it; group shares include only the sharer's own recipes,
+-- whatever else the group holds.
+create or replace function public.shared_recipes(share_token text)
+returns jsonb
+language sql
+stable
+security definer set search_path = ''
+as $$
+  select jsonb_build_object(
+    'kind', case when s.group_id is null then 'recipe' else 'group' end,
+    'name', coalesce(g.name, (select r.title from public.recipes r where r.id = s.recipe_id)),
+    'recipes', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'title', r.title,
+        'image', r.image,
+        'source_url', r.source_url,
+        'prep_time', r.prep_time,
+        'cook_time', r.cook_time,
+        'total_time', r.total_time,
+        'servings', r.servings,
+        'author', r.author,
+        'cuisine_type', r.cuisine_type,
+        'difficulty', r.difficulty,
+        'created_at', r.created_at,
+        'ingredients', coalesce((
+          select jsonb_agg(i.text order by i.sort_order)
+          from public.recipe_ingredients i where i.recipe_id = r.id
+        ), '[]'::jsonb),
+        'instructions', coalesce((
+          select jsonb_agg(i.text order by i.sort_order)
+          from public.recipe_instructions i where i.recipe_id = r.id
+        ), '[]'::jsonb),
+        'tags', coalesce((
+          select jsonb_agg(t.tag order by t.tag)
+          from public.recipe_tags t where t.recipe_id = r.id
+        ), '[]'::jsonb)
+      ) order by r.title)
+      from public.recipes r
+      where r.user_id = s.user_id
+        and (
+          r.id = s.recipe_id
+          or r.id in (select m.recipe_id from public.recipe_group_members m where m.group_id = s.group_id)
+        )
+    ), '[]'::jsonb)
+  )
+  from public.recipe_shares s
+  left join public.recipe_groups g on g.id = s.group_id
+  where s.token = share_token
+    and (s.group_id is not null
+      or exists (select 1 from public.recipes r where r.id = s.recipe_id and r.user_id = s.user_id));
+$$;
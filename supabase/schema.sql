@@ -1,6 +1,9 @@
 -- CookSnap Database Schema
 -- Run this in the Supabase SQL Editor to set up the database.
 
+-- Trigram matching for typo-tolerant recipe search
+create extension if not exists pg_trgm with schema extensions;
+
 -- ============================================================
 -- TABLES
 -- ============================================================
@@ -11,10 +14,32 @@ create table profiles (
   email text,
   display_name text,
   avatar_url text,
+  -- Household restrictions: allergens to avoid and diets to keep
+  dietary_restrictions text[] default '{}' not null
+    check (dietary_restrictions <@ array['gluten', 'dairy', 'nuts', 'shellfish', 'egg', 'soy', 'vegetarian', 'vegan']),
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null
+);
+
+-- Households (accounts sharing one meal plan, shopping list and grocery list;
+-- every profile belongs to exactly one, a household of one by default)
+create table households (
+  id uuid default gen_random_uuid() primary key,
+  name text default 'My household' not null,
+  invite_code text default left(md5(gen_random_uuid()::text), 10) unique not null,
   created_at timestamptz default now() not null,
   updated_at timestamptz default now() not null
 );
 
+-- Household members (one household per user; changed only via join/leave functions)
+create table household_members (
+  id uuid default gen_random_uuid() primary key,
+  household_id uuid references households(id) on delete cascade not null,
+  user_id uuid references profiles(id) on delete cascade not null unique,
+  role text default 'member' not null check (role in ('owner', 'member')),
+  joined_at timestamptz default now() not null
+);
+
 -- Recipes
 create table recipes (
   id uuid default gen_random_uuid() primary key,
@@ -32,6 +57,19 @@ create table recipes (
   rating smallint check (rating >= 1 and rating <= 5),
   is_favorite boolean default false not null,
   notes text,
+  search_document tsvector, -- maintained by triggers, see recipe_search_document()
+  -- Derived from the ingredients by the app (src/lib/dietary.ts); null = not yet classified
+  allergens text[] check (allergens <@ array['gluten', 'dairy', 'nuts', 'shellfish', 'egg', 'soy']),
+  diets text[] check (diets <@ array['vegetarian', 'vegan']),
+  -- As published by the source page; null = not given
+  description text,
+  nutrition jsonb,
+  categories text[],
+  keywords text[],
+  suitable_for_diet text[],
+  video jsonb,
+  aggregate_rating numeric(3, 2) check (aggregate_rating >= 0 and aggregate_rating <= 5),
+  aggregate_rating_count integer check (aggregate_rating_count >= 0),
   created_at timestamptz default now() not null,
   updated_at timestamptz default now() not null
 );
@@ -44,7 +82,7 @@ create table recipe_ingredients (
   sort_order integer not null default 0
 );
 
--- Recipe instructions (one row per step)
+-- Recipe instructions (one row per line; see src/lib/instructions.ts)
 create table recipe_instructions (
   id uuid default gen_random_uuid() primary key,
   recipe_id uuid references recipes(id) on delete cascade not null,
@@ -52,6 +90,9 @@ create table recipe_instructions (
   sort_order integer not null default 0
 );
 
+comment on column recipe_instructions.text is
+  'A step; "## Name:" starts a section and "- " marks a sub-step of the step above, as in recipe_ingredients';
+
 -- Recipe tags
 create table recipe_tags (
   id uuid default gen_random_uuid() primary key,
@@ -59,16 +100,17 @@ create table recipe_tags (
   tag text not null
 );
 
--- Meal plans (multiple recipes per slot, ordered by position)
+-- Meal plans (shared by the household; multiple recipes per slot, ordered by position)
 create table meal_plans (
   id uuid default gen_random_uuid() primary key,
-  user_id uuid references profiles(id) on delete cascade not null,
+  household_id uuid references households(id) on delete cascade not null,
+  user_id uuid references profiles(id) on delete cascade not null, -- who added it
   date date not null,
   meal_type text not null check (meal_type in ('breakfast', 'lunch', 'dinner', 'snack')),
   recipe_id uuid references recipes(id) on delete cascade not null,
   is_leftover boolean default false,
   position smallint not null default 0,
-  unique (user_id, date, meal_type, recipe_id)
+  constraint meal_plans_household_slot_recipe_key unique (household_id, date, meal_type, recipe_id)
 );
 
 -- Meal templates (saved weekly meal plan patterns)
@@ -80,15 +122,85 @@ create table meal_templates (
   created_at timestamptz default now()
 );
 
--- Shopping items
+-- Shopping items (shared by the household)
 create table shopping_items (
   id uuid default gen_random_uuid() primary key,
-  user_id uuid references profiles(id) on delete cascade not null,
+  household_id uuid references households(id) on delete cascade not null,
+  user_id uuid references profiles(id) on delete cascade not null, -- who added it
   text text not null,
   checked boolean default false not null,
   recipe_id uuid references recipes(id) on delete set null
 );
 
+-- Grocery items (free-form household list, independent of the meal plan)
+create table grocery_items (
+  id uuid default gen_random_uuid() primary key,
+  household_id uuid references households(id) on delete cascade not null,
+  user_id uuid references profiles(id) on delete cascade not null, -- who added it
+  text text not null,
+  checked boolean default false not null,
+  created_at timestamptz default now() not null
+);
+
+-- Pantry items (what's on hand; null quantity = "have some, untracked")
+create table pantry_items (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  name text not null,
+  quantity numeric check (quantity is null or quantity >= 0),
+  unit text,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null
+);
+
+-- Ingredient prices (last price paid per ingredient and store; '' = any store,
+-- null unit = per item)
+create table ingredient_prices (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  name text not null,
+  store text default '' not null,
+  price numeric not null check (price >= 0),
+  quantity numeric default 1 not null check (quantity > 0),
+  unit text,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null,
+  unique (user_id, name, store)
+);
+
+-- Price history (append-only log of prices paid when checking items off)
+create table price_history (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  name text not null,
+  store text default '' not null,
+  price numeric not null check (price >= 0),
+  quantity numeric default 1 not null check (quantity > 0),
+  unit text,
+  recorded_at timestamptz default now() not null
+);
+
+-- Grocery stores (where the user shops; aisle_order = category names in walking order)
+create table grocery_stores (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  name text not null,
+  aisle_order text[] default '{}' not null,
+  sort_order integer default 0 not null,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null
+);
+
+-- Store assignments (which store an ingredient is bought at, by normalized name)
+create table store_assignments (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  name text not null,
+  store_id uuid references grocery_stores(id) on delete cascade not null,
+  created_at timestamptz default now() not null,
+  unique (user_id, name)
+);
+
 -- Checked ingredients (tracks which ingredient indices are checked per recipe)
 create table checked_ingredients (
   id uuid default gen_random_uuid() primary key,
@@ -119,28 +231,65 @@ create table recipe_group_members (
   unique (group_id, recipe_id)
 );
 
+-- Share links (a recipe or a group published at an unguessable public URL)
+create table recipe_shares (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references profiles(id) on delete cascade not null,
+  token text unique not null check (char_length(token) >= 32),
+  recipe_id uuid references recipes(id) on delete cascade,
+  group_id uuid references recipe_groups(id) on delete cascade,
+  created_at timestamptz default now() not null,
+  check ((recipe_id is null) <> (group_id is null))
+);
+
+-- Recipe revisions (full snapshot per content edit; 'original' = as first saved)
+create table recipe_revisions (
+  id uuid default gen_random_uuid() primary key,
+  recipe_id uuid references recipes(id) on delete cascade not null,
+  user_id uuid references profiles(id) on delete cascade not null,
+  kind text not null check (kind in ('original', 'edit', 'revert')),
+  snapshot jsonb not null,
+  created_at timestamptz default now() not null
+);
+
 -- ============================================================
 -- INDEXES
 -- ============================================================
 
+create index idx_household_members_household_id on household_members(household_id);
 create index idx_recipes_user_id on recipes(user_id);
+create index idx_recipes_search_document on recipes using gin (search_document);
+create index idx_recipes_title_trgm on recipes using gin (title extensions.gin_trgm_ops);
+create index idx_recipe_ingredients_text_trgm on recipe_ingredients using gin (text extensions.gin_trgm_ops);
 create index idx_recipe_ingredients_recipe_id on recipe_ingredients(recipe_id);
 create index idx_recipe_instructions_recipe_id on recipe_instructions(recipe_id);
 create index idx_recipe_tags_recipe_id on recipe_tags(recipe_id);
 create index idx_meal_plans_user_id on meal_plans(user_id);
-create index idx_meal_plans_date on meal_plans(user_id, date);
+create index idx_meal_plans_household_date on meal_plans(household_id, date);
 create index idx_meal_templates_user_id on meal_templates(user_id);
 create index idx_shopping_items_user_id on shopping_items(user_id);
+create index idx_shopping_items_household_id on shopping_items(household_id);
+create index idx_grocery_items_household_id on grocery_items(household_id);
+create index idx_pantry_items_user_id on pantry_items(user_id);
+create index idx_price_history_user_name on price_history(user_id, name, recorded_at desc);
+create index idx_store_assignments_store on store_assignments(store_id);
 create index idx_checked_ingredients_user_recipe on checked_ingredients(user_id, recipe_id);
 create index idx_recipe_groups_user_id on recipe_groups(user_id);
 create index idx_recipe_group_members_group_id on recipe_group_members(group_id);
 create index idx_recipe_group_members_recipe_id on recipe_group_members(recipe_id);
+create unique index idx_recipe_shares_user_recipe on recipe_shares(user_id, recipe_id) where recipe_id is not null;
+create unique index idx_recipe_shares_group_id on recipe_shares(group_id) where group_id is not null;
+create index idx_recipe_shares_user_id on recipe_shares(user_id);
+create index idx_recipe_revisions_recipe_id on recipe_revisions(recipe_id, created_at desc);
+create unique index idx_recipe_revisions_original on recipe_revisions(recipe_id) where kind = 'original';
 
 -- ============================================================
 -- ROW LEVEL SECURITY
 -- ============================================================
 
 alter table profiles enable row level security;
+alter table households enable row level security;
+alter table household_members enable row level security;
 alter table recipes enable row level security;
 alter table recipe_ingredients enable row level security;
 alter table recipe_instructions enable row level security;
@@ -148,17 +297,67 @@ alter table recipe_tags enable row level security;
 alter table meal_plans enable row level security;
 alter table meal_templates enable row level security;
 alter table shopping_items enable row level security;
+alter table grocery_items enable row level security;
+alter table pantry_items enable row level security;
+alter table ingredient_prices enable row level security;
+alter table price_history enable row level security;
+alter table grocery_stores enable row level security;
+alter table store_assignments enable row level security;
 alter table checked_ingredients enable row level security;
 alter table recipe_groups enable row level security;
 alter table recipe_group_members enable row level security;
+alter table recipe_shares enable row level security;
+alter table recipe_revisions enable row level security;
+
+-- Household membership helpers. Security definer so policies can call them
+-- without recursing into household_members' own policies.
+create or replace function public.current_household_id()
+returns uuid
+language sql
+stable
+security definer set search_path = ''
+as $$
+  select household_id from public.household_members where user_id = auth.uid();
+$$;
+
+create or replace function public.in_my_household(member uuid)
+returns boolean
+language sql
+stable
+security definer set search_path = ''
+as $$
+  select exists (
+    select 1 from public.household_members
+    where user_id = member and household_id = public.current_household_id()
+  );
+$$;
 
--- Profiles: users can read/update their own profile
+-- Profiles: users can read/update their own profile, and read housemates'
 create policy "Users can view own profile"
   on profiles for select using (auth.uid() = id);
 
 create policy "Users can update own profile"
   on profiles for update using (auth.uid() = id);
 
+create policy "Household members can view each other's profiles"
+  on profiles for select using (public.in_my_household(id));
+
+-- Households: members can read theirs, the owner can rename it
+create policy "Members can view their household"
+  on households for select using (id = public.current_household_id());
+
+create policy "Owners can update their household"
+  on households for update using (
+    exists (
+      select 1 from household_members
+      where household_id = households.id and user_id = auth.uid() and role = 'owner'
+    )
+  );
+
+-- Household members: read-only; membership changes through join/leave functions
+create policy "Members can view their household's members"
+  on household_members for select using (household_id = public.current_household_id());
+
 -- Recipes: full CRUD on own recipes
 create policy "Users can view own recipes"
   on recipes for select using (auth.uid() = user_id);
@@ -172,6 +371,9 @@ create policy "Users can update own recipes"
 create policy "Users can delete own recipes"
   on recipes for delete using (auth.uid() = user_id);
 
+create policy "Household members can view each other's recipes"
+  on recipes for select using (public.in_my_household(user_id));
+
 -- Recipe ingredients: access via recipe ownership
 create policy "Users can view own recipe ingredients"
   on recipe_ingredients for select
@@ -189,6 +391,10 @@ create policy "Users can delete own recipe ingredients"
   on recipe_ingredients for delete
   using (exists (select 1 from recipes where recipes.id = recipe_id and recipes.user_id = auth.uid()));
 
+create policy "Household members can view each other's recipe ingredients"
+  on recipe_ingredients for select
+  using (exists (select 1 from recipes where recipes.id = recipe_id and public.in_my_household(recipes.user_id)));
+
 -- Recipe instructions: access via recipe ownership
 create policy "Users can view own recipe instructions"
   on recipe_instructions for select
@@ -206,6 +412,10 @@ create policy "Users can delete own recipe instructions"
   on recipe_instructions for delete
   using (exists (select 1 from recipes where recipes.id = recipe_id and recipes.user_id = auth.uid()));
 
+create policy "Household members can view each other's recipe instructions"
+  on recipe_instructions for select
+  using (exists (select 1 from recipes where recipes.id = recipe_id and public.in_my_household(recipes.user_id)));
+
 -- Recipe tags: access via recipe ownership
 create policy "Users can view own recipe tags"
   on recipe_tags for select
@@ -223,35 +433,117 @@ create policy "Users can delete own recipe tags"
   on recipe_tags for delete
   using (exists (select 1 from recipes where recipes.id = recipe_id and recipes.user_id = auth.uid()));
 
--- Meal plans: full CRUD on own meal plans
-create policy "Users can view own meal plans"
-  on meal_plans for select using (auth.uid() = user_id);
+create policy "Household members can view each other's recipe tags"
+  on recipe_tags for select
+  using (exists (select 1 from recipes where recipes.id = recipe_id and public.in_my_household(recipes.user_id)));
+
+-- Meal plans: full CRUD for the whole household
+create policy "Household members can view meal plans"
+  on meal_plans for select using (household_id = public.current_household_id());
 
-create policy "Users can insert own meal plans"
-  on meal_plans for insert with check (auth.uid() = user_id);
+create policy "Household members can insert meal plans"
+  on meal_plans for insert
+  with check (household_id = public.current_household_id() and auth.uid() = user_id);
 
-create policy "Users can update own meal plans"
-  on meal_plans for update using (auth.uid() = user_id);
+create policy "Household members can update meal plans"
+  on meal_plans for update using (household_id = public.current_household_id());
 
-create policy "Users can delete own meal plans"
-  on meal_plans for delete using (auth.uid() = user_id);
+create policy "Household members can delete meal plans"
+  on meal_plans for delete using (household_id = public.current_household_id());
 
 -- Meal templates: full CRUD on own templates
 create policy "Users can manage own templates"
   on meal_templates for all using (auth.uid() = user_id);
 
--- Shopping items: full CRUD on own items
-create policy "Users can view own shopping items"
-  on shopping_items for select using (auth.uid() = user_id);
+-- Shopping items: full CRUD for the whole household
+create policy "Household members can view shopping items"
+  on shopping_items for select using (household_id = public.current_household_id());
+
+create policy "Household members can insert shopping items"
+  on shopping_items for insert
+  with check (household_id = public.current_household_id() and auth.uid() = user_id);
+
+create policy "Household members can update shopping items"
+  on shopping_items for update using (household_id = public.current_household_id());
+
+create policy "Household members can delete shopping items"
+  on shopping_items for delete using (household_id = public.current_household_id());
+
+-- Grocery items: full CRUD for the whole household
+create policy "Household members can view grocery items"
+  on grocery_items for select using (household_id = public.current_household_id());
+
+create policy "Household members can insert grocery items"
+  on grocery_items for insert
+  with check (household_id = public.current_household_id() and auth.uid() = user_id);
+
+create policy "Household members can update grocery items"
+  on grocery_items for update using (household_id = public.current_household_id());
+
+create policy "Household members can delete grocery items"
+  on grocery_items for delete using (household_id = public.current_household_id());
+
+-- Pantry items: full CRUD on own pantry
+create policy "Users can view own pantry items"
+  on pantry_items for select using (auth.uid() = user_id);
+
+create policy "Users can insert own pantry items"
+  on pantry_items for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own pantry items"
+  on pantry_items for update using (auth.uid() = user_id);
 
-create policy "Users can insert own shopping items"
-  on shopping_items for insert with check (auth.uid() = user_id);
+create policy "Users can delete own pantry items"
+  on pantry_items for delete using (auth.uid() = user_id);
 
-create policy "Users can update own shopping items"
-  on shopping_items for update using (auth.uid() = user_id);
+-- Ingredient prices: full CRUD on own prices
+create policy "Users can view own ingredient prices"
+  on ingredient_prices for select using (auth.uid() = user_id);
 
-create policy "Users can delete own shopping items"
-  on shopping_items for delete using (auth.uid() = user_id);
+create policy "Users can insert own ingredient prices"
+  on ingredient_prices for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own ingredient prices"
+  on ingredient_prices for update using (auth.uid() = user_id);
+
+create policy "Users can delete own ingredient prices"
+  on ingredient_prices for delete using (auth.uid() = user_id);
+
+-- Price history: append-only, no updates
+create policy "Users can view own price history"
+  on price_history for select using (auth.uid() = user_id);
+
+create policy "Users can insert own price history"
+  on price_history for insert with check (auth.uid() = user_id);
+
+create policy "Users can delete own price history"
+  on price_history for delete using (auth.uid() = user_id);
+
+-- Grocery stores: full CRUD on own stores
+create policy "Users can view own grocery stores"
+  on grocery_stores for select using (auth.uid() = user_id);
+
+create policy "Users can insert own grocery stores"
+  on grocery_stores for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own grocery stores"
+  on grocery_stores for update using (auth.uid() = user_id);
+
+create policy "Users can delete own grocery stores"
+  on grocery_stores for delete using (auth.uid() = user_id);
+
+-- Store assignments: full CRUD on own assignments
+create policy "Users can view own store assignments"
+  on store_assignments for select using (auth.uid() = user_id);
+
+create policy "Users can insert own store assignments"
+  on store_assignments for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own store assignments"
+  on store_assignments for update using (auth.uid() = user_id);
+
+create policy "Users can delete own store assignments"
+  on store_assignments for delete using (auth.uid() = user_id);
 
 -- Checked ingredients: full CRUD on own data
 create policy "Users can view own checked ingredients"
@@ -296,16 +588,47 @@ create policy "Users can delete own group members"
   on recipe_group_members for delete
   using (exists (select 1 from recipe_groups where recipe_groups.id = group_id and recipe_groups.user_id = auth.uid()));
 
+-- Share links: own links only, for the user's own recipes and groups
+create policy "Users can view own shares"
+  on recipe_shares for select using (auth.uid() = user_id);
+
+create policy "Users can share own recipes and groups"
+  on recipe_shares for insert
+  with check (
+    auth.uid() = user_id
+    and (
+      exists (select 1 from recipes where recipes.id = recipe_id and recipes.user_id = auth.uid())
+      or exists (select 1 from recipe_groups where recipe_groups.id = group_id and recipe_groups.user_id = auth.uid())
+    )
+  );
+
+create policy "Users can delete own shares"
+  on recipe_shares for delete using (auth.uid() = user_id);
+
+-- Recipe revisions: readable wherever the recipe is; append-only, by the owner
+create policy "Users can view revisions of visible recipes"
+  on recipe_revisions for select
+  using (exists (select 1 from recipes where recipes.id = recipe_id));
+
+create policy "Users can add revisions to own recipes"
+  on recipe_revisions for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from recipes where recipes.id = recipe_id and recipes.user_id = auth.uid())
+  );
+
 -- ============================================================
 -- FUNCTIONS & TRIGGERS
 -- ============================================================
 
--- Auto-create a profile row when a new user signs up
+-- Auto-create a profile row, and a household of one, when a new user signs up
 create or replace function public.handle_new_user()
 returns trigger
 language plpgsql
 security definer set search_path = ''
 as $$
+declare
+  new_household uuid;
 begin
   insert into public.profiles (id, email, display_name)
   values (
@@ -313,6 +636,9 @@ begin
     new.email,
     coalesce(new.raw_user_meta_data ->> 'display_name', split_part(new.email, '@', 1))
   );
+  insert into public.households default values returning id into new_household;
+  insert into public.household_members (household_id, user_id, role)
+  values (new_household, new.id, 'owner');
   return new;
 end;
 $$;
@@ -336,6 +662,10 @@ create trigger set_updated_at_profiles
   before update on profiles
   for each row execute function public.update_updated_at();
 
+create trigger set_updated_at_households
+  before update on households
+  for each row execute function public.update_updated_at();
+
 create trigger set_updated_at_recipes
   before update on recipes
   for each row execute function public.update_updated_at();
@@ -343,3 +673,522 @@ create trigger set_updated_at_recipes
 create trigger set_updated_at_recipe_groups
   before update on recipe_groups
   for each row execute function public.update_updated_at();
+
+create trigger set_updated_at_pantry_items
+  before update on pantry_items
+  for each row execute function public.update_updated_at();
+
+create trigger set_updated_at_ingredient_prices
+  before update on ingredient_prices
+  for each row execute function public.update_updated_at();
+
+create trigger set_updated_at_grocery_stores
+  before update on grocery_stores
+  for each row execute function public.update_updated_at();
+
+-- ============================================================
+-- HOUSEHOLDS
+-- ============================================================
+
+-- Move a user into another household. If they were the last member, the
+-- plan and lists they leave behind come with them (so joining a partner
+-- merges what you'd planned alone) and the empty household is deleted;
+-- otherwise everything stays with the remaining members, and ownership
+-- passes to the longest-standing one if the owner is the one leaving.
+create or replace function public.move_to_household(member uuid, target uuid, new_role text)
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  source uuid;
+  was_owner boolean;
+begin
+  select household_id, role = 'owner' into source, was_owner
+  from public.household_members where user_id = member;
+  if source = target then
+    return;
+  end if;
+
+  if not exists (select 1 from public.household_members where household_id = source and user_id <> member) then
+    delete from public.meal_plans p
+    where p.household_id = source and exists (
+      select 1 from public.meal_plans q
+      where q.household_id = target and q.date = p.date and q.meal_type = p.meal_type and q.recipe_id = p.recipe_id
+    );
+    update public.meal_plans set household_id = target where household_id = source;
+    update public.shopping_items set household_id = target where household_id = source;
+    update public.grocery_items set household_id = target where household_id = source;
+  elsif was_owner then
+    update public.household_members set role = 'owner'
+    where id = (
+      select id from public.household_members
+      where household_id = source and user_id <> member
+      order by joined_at
+      limit 1
+    );
+  end if;
+
+  update public.household_members
+  set household_id = target, role = new_role, joined_at = now()
+  where user_id = member;
+
+  delete from public.households h
+  where h.id = source and not exists (select 1 from public.household_members m where m.household_id = source);
+end;
+$$;
+
+revoke execute on function public.move_to_household(uuid, uuid, text) from public, anon, authenticated;
+
+-- Join the household with this invite code; returns its id
+create or replace function public.join_household(code text)
+returns uuid
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  target uuid;
+begin
+  select id into target from public.households where invite_code = lower(trim(code));
+  if target is null then
+    raise exception 'Invite code not found' using errcode = 'P0002';
+  end if;
+  perform public.move_to_household(auth.uid(), target, 'member');
+  return target;
+end;
+$$;
+
+-- Leave a shared household for a new one of your own; returns its id
+create or replace function public.leave_household()
+returns uuid
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  fresh uuid;
+begin
+  if not exists (
+    select 1 from public.household_members
+    where household_id = public.current_household_id() and user_id <> auth.uid()
+  ) then
+    raise exception 'You are the only member of this household' using errcode = 'P0001';
+  end if;
+  insert into public.households default values returning id into fresh;
+  perform public.move_to_household(auth.uid(), fresh, 'owner');
+  return fresh;
+end;
+$$;
+
+-- Owner only: move another member out into a household of their own
+create or replace function public.remove_household_member(member uuid)
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  fresh uuid;
+begin
+  if member = auth.uid() or not exists (
+    select 1 from public.household_members me
+    join public.household_members them on them.household_id = me.household_id
+    where me.user_id = auth.uid() and me.role = 'owner' and them.user_id = member
+  ) then
+    raise exception 'Only the household owner can remove other members' using errcode = '42501';
+  end if;
+  insert into public.households default values returning id into fresh;
+  perform public.move_to_household(member, fresh, 'owner');
+end;
+$$;
+
+-- ============================================================
+-- RECIPE SEARCH
+-- ============================================================
+
+-- Weighted search document: title > tags and ingredients > author, cuisine
+-- and difficulty > instructions
+create or replace function public.recipe_search_document(r public.recipes)
+returns tsvector
+language sql
+stable
+set search_path = public
+as $$
+  select
+    setweight(to_tsvector('english', coalesce(r.title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce((select string_agg(t.tag, ' ') from recipe_tags t where t.recipe_id = r.id), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce((select string_agg(i.text, ' ') from recipe_ingredients i where i.recipe_id = r.id), '')), 'B') ||
+    setweight(to_tsvector('english', concat_ws(' ', r.author, r.cuisine_type, r.difficulty)), 'C') ||
+    setweight(to_tsvector('english', coalesce((select string_agg(s.text, ' ') from recipe_instructions s where s.recipe_id = r.id), '')), 'D');
+$$;
+
+create or replace function public.set_recipe_search_document()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.search_document = public.recipe_search_document(new);
+  return new;
+end;
+$$;
+
+-- Child rows changed: touch search_document once per affected recipe so the
+-- recipe trigger rebuilds it
+create or replace function public.refresh_recipe_search_document()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update recipes set search_document = null where id in (select recipe_id from new_rows);
+  elsif tg_op = 'DELETE' then
+    update recipes set search_document = null where id in (select recipe_id from old_rows);
+  else
+    update recipes set search_document = null
+    where id in (select recipe_id from new_rows union select recipe_id from old_rows);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger set_search_document_recipes
+  before insert or update of title, author, cuisine_type, difficulty, search_document on recipes
+  for each row execute function public.set_recipe_search_document();
+
+-- Statement-level, so a save rebuilds each recipe once rather than once per
+-- line; transition tables can't be shared between events, hence one per event
+create trigger refresh_search_document_ingredients_insert
+  after insert on recipe_ingredients referencing new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_ingredients_update
+  after update on recipe_ingredients referencing old table as old_rows new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_ingredients_delete
+  after delete on recipe_ingredients referencing old table as old_rows
+  for each statement execute function public.refresh_recipe_search_document();
+
+create trigger refresh_search_document_instructions_insert
+  after insert on recipe_instructions referencing new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_instructions_update
+  after update on recipe_instructions referencing old table as old_rows new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_instructions_delete
+  after delete on recipe_instructions referencing old table as old_rows
+  for each statement execute function public.refresh_recipe_search_document();
+
+create trigger refresh_search_document_tags_insert
+  after insert on recipe_tags referencing new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_tags_update
+  after update on recipe_tags referencing old table as old_rows new table as new_rows
+  for each statement execute function public.refresh_recipe_search_document();
+create trigger refresh_search_document_tags_delete
+  after delete on recipe_tags referencing old table as old_rows
+  for each statement execute function public.refresh_recipe_search_document();
+
+-- "PT1H30M" → 90; null for anything else
+create or replace function public.iso_duration_minutes(d text)
+returns integer
+language sql
+immutable
+as $$
+  select case
+    when d ~ '^PT(\d+H)?(\d+M)?$' and d <> 'PT'
+    then coalesce(substring(d from '(\d+)H')::integer, 0) * 60 + coalesce(substring(d from '(\d+)M')::integer, 0)
+  end;
+$$;
+
+-- Total time in minutes, falling back to prep + cook
+create or replace function public.recipe_minutes(r public.recipes)
+returns integer
+language sql
+immutable
+set search_path = public
+as $$
+  select coalesce(
+    iso_duration_minutes(r.total_time),
+    case
+      when iso_duration_minutes(r.prep_time) is not null or iso_duration_minutes(r.cook_time) is not null
+      then coalesce(iso_duration_minutes(r.prep_time), 0) + coalesce(iso_duration_minutes(r.cook_time), 0)
+    end
+  );
+$$;
+
+-- Substring match, or (when fuzzy) a close trigram match for words of 4+ letters
+create or replace function public.search_text_matches(haystack text, needle text, fuzzy boolean)
+returns boolean
+language sql
+immutable
+set search_path = public, extensions
+as $$
+  select haystack is not null and (
+    strpos(lower(haystack), lower(needle)) > 0
+    or (fuzzy and length(needle) >= 4 and word_similarity(lower(needle), lower(haystack)) >= 0.5)
+  );
+$$;
+
+create or replace function public.recipe_matches_term(r public.recipes, field text, value text, fuzzy boolean)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select case field
+    when 'title' then search_text_matches(r.title, value, fuzzy)
+    when 'ingredient' then exists (
+      select 1 from recipe_ingredients i where i.recipe_id = r.id and search_text_matches(i.text, value, fuzzy))
+    when 'instruction' then exists (
+      select 1 from recipe_instructions s where s.recipe_id = r.id and search_text_matches(s.text, value, fuzzy))
+    when 'tag' then exists (
+      select 1 from recipe_tags t where t.recipe_id = r.id and search_text_matches(t.tag, value, fuzzy))
+    when 'author' then search_text_matches(r.author, value, fuzzy)
+    when 'cuisine' then search_text_matches(r.cuisine_type, value, fuzzy)
+    when 'difficulty' then coalesce(lower(r.difficulty) = lower(value), false)
+    else coalesce(r.search_document @@ plainto_tsquery('english', value), false)
+      or search_text_matches(r.title, value, fuzzy)
+      or exists (
+        select 1 from recipe_ingredients i where i.recipe_id = r.id and search_text_matches(i.text, value, fuzzy))
+  end;
+$$;
+
+create or replace function public.compare_numbers(actual numeric, op text, expected numeric)
+returns boolean
+language sql
+immutable
+as $$
+  select case op
+    when '<' then actual < expected
+    when '<=' then actual <= expected
+    when '=' then actual = expected
+    when '>=' then actual >= expected
+    when '>' then actual > expected
+  end;
+$$;
+
+-- Search the caller's recipes.
+--   p_text:     free text for ranking (websearch syntax)
+--   p_terms:    [{ field, value, negate }] — every positive term must match,
+--               negated terms exclude on an exact match only
+--   p_ranges:   [{ field: 'time' | 'rating', op, value, negate }]
+--   p_favorite: true / false to filter on is_favorite, null for either
+create or replace function public.search_recipes(
+  p_text text default '',
+  p_terms jsonb default '[]',
+  p_ranges jsonb default '[]',
+  p_favorite boolean default null,
+  p_limit integer default 50
+)
+returns table (id uuid, rank real)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select
+    r.id,
+    (ts_rank(r.search_document, websearch_to_tsquery('english', p_text))
+      + word_similarity(lower(p_text), lower(r.title)))::real as rank
+  from recipes r
+  where r.user_id = auth.uid()
+    and (p_favorite is null or r.is_favorite = p_favorite)
+    and not exists (
+      select 1 from jsonb_to_recordset(p_terms) as t(field text, value text, negate boolean)
+      where recipe_matches_term(r, t.field, t.value, not t.negate) = t.negate
+    )
+    and not exists (
+      select 1 from jsonb_to_recordset(p_ranges) as g(field text, op text, value numeric, negate boolean)
+      where coalesce(
+        compare_numbers(case g.field when 'time' then recipe_minutes(r) else r.rating end, g.op, g.value),
+        false
+      ) = g.negate
+    )
+  order by rank desc, r.created_at desc
+  limit least(greatest(p_limit, 1), 200);
+$$;
+
+-- ============================================================
+-- SHARE LINKS
+-- ============================================================
+
+-- Everything a share link shows, or null for an unknown token or a recipe
+-- the sharer no longer owns. Security definer so visitors without an
+-- account can read it; group shares include only the sharer's own recipes,
+-- whatever else the group holds.
+create or replace function public.shared_recipes(share_token text)
+returns jsonb
+language sql
+stable
+security definer set search_path = ''
+as $$
+  select jsonb_build_object(
+    'kind', case when s.group_id is null then 'recipe' else 'group' end,
+    'name', coalesce(g.name, (select r.title from public.recipes r where r.id = s.recipe_id)),
+    'recipes', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'title', r.title,
+        'image', r.image,
+        'source_url', r.source_url,
+        'prep_time', r.prep_time,
+        'cook_time', r.cook_time,
+        'total_time', r.total_time,
+        'servings', r.servings,
+        'author', r.author,
+        'cuisine_type', r.cuisine_type,
+        'difficulty', r.difficulty,
+        'created_at', r.created_at,
+        'ingredients', coalesce((
+          select jsonb_agg(i.text order by i.sort_order)
+          from public.recipe_ingredients i where i.recipe_id = r.id
+        ), '[]'::jsonb),
+        'instructions', coalesce((
+          select jsonb_agg(i.text order by i.sort_order)
+          from public.recipe_instructions i where i.recipe_id = r.id
+        ), '[]'::jsonb),
+        'tags', coalesce((
+          select jsonb_agg(t.tag order by t.tag)
+          from public.recipe_tags t where t.recipe_id = r.id
+        ), '[]'::jsonb)
+      ) order by r.title)
+      from public.recipes r
+      where r.user_id = s.user_id
+        and (
+          r.id = s.recipe_id
+          or r.id in (select m.recipe_id from public.recipe_group_members m where m.group_id = s.group_id)
+        )
+    ), '[]'::jsonb)
+  )
+  from public.recipe_shares s
+  left join public.recipe_groups g on g.id = s.group_id
+  where s.token = share_token
+    and (s.group_id is not null
+      or exists (select 1 from public.recipes r where r.id = s.recipe_id and r.user_id = s.user_id));
+$$;
+
+grant execute on function public.shared_recipes(text) to anon, authenticated;
+
+-- ============================================================
+-- ACCOUNT BACKUP
+-- ============================================================
+
+-- Replace the caller's data with a backup archive in one transaction (see
+-- restoreAccountData). Security definer, so it does RLS's job itself: rows
+-- are stamped with the caller's id and household, and rows pointing at a
+-- recipe, group or store only go in when it is the caller's own.
+create or replace function public.restore_account_data(payload jsonb)
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  uid uuid := auth.uid();
+  household uuid := public.current_household_id();
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  -- Deleting recipes cascades to ingredients, instructions, tags, meal plans,
+  -- checked ingredients and group members; deleting stores to assignments.
+  -- In a shared household only the list items and meal plan entries this
+  -- user added go; housemates' stay.
+  delete from public.recipes where user_id = uid;
+  delete from public.shopping_items where user_id = uid;
+  delete from public.grocery_items where user_id = uid;
+  delete from public.pantry_items where user_id = uid;
+  delete from public.meal_templates where user_id = uid;
+  delete from public.recipe_groups where user_id = uid;
+  delete from public.ingredient_prices where user_id = uid;
+  delete from public.price_history where user_id = uid;
+  delete from public.grocery_stores where user_id = uid;
+
+  insert into public.recipes (
+    id, user_id, title, image, source_url, prep_time, cook_time, total_time, servings, author,
+    cuisine_type, difficulty, rating, is_favorite, notes, allergens, diets, description, nutrition,
+    categories, keywords, suitable_for_diet, video, aggregate_rating, aggregate_rating_count, created_at
+  )
+  select
+    r.id, uid, r.title, r.image, coalesce(r.source_url, ''), r.prep_time, r.cook_time, r.total_time, r.servings, r.author,
+    r.cuisine_type, r.difficulty, r.rating, coalesce(r.is_favorite, false), r.notes, r.allergens, r.diets, r.description, r.nutrition,
+    r.categories, r.keywords, r.suitable_for_diet, r.video, r.aggregate_rating, r.aggregate_rating_count, coalesce(r.created_at, now())
+  from jsonb_populate_recordset(null::public.recipes, coalesce(payload->'recipes', '[]')) r;
+
+  insert into public.recipe_ingredients (recipe_id, text, sort_order)
+  select i.recipe_id, i.text, coalesce(i.sort_order, 0)
+  from jsonb_populate_recordset(null::public.recipe_ingredients, coalesce(payload->'recipe_ingredients', '[]')) i
+  where i.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.recipe_instructions (recipe_id, text, sort_order)
+  select i.recipe_id, i.text, coalesce(i.sort_order, 0)
+  from jsonb_populate_recordset(null::public.recipe_instructions, coalesce(payload->'recipe_instructions', '[]')) i
+  where i.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.recipe_tags (recipe_id, tag)
+  select t.recipe_id, t.tag
+  from jsonb_populate_recordset(null::public.recipe_tags, coalesce(payload->'recipe_tags', '[]')) t
+  where t.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.meal_plans (household_id, user_id, date, meal_type, recipe_id, is_leftover, position)
+  select household, uid, m.date, m.meal_type, m.recipe_id, coalesce(m.is_leftover, false), coalesce(m.position, 0)
+  from jsonb_populate_recordset(null::public.meal_plans, coalesce(payload->'meal_plans', '[]')) m
+  where m.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.meal_templates (user_id, name, template, created_at)
+  select uid, t.name, t.template, coalesce(t.created_at, now())
+  from jsonb_populate_recordset(null::public.meal_templates, coalesce(payload->'meal_templates', '[]')) t;
+
+  insert into public.shopping_items (household_id, user_id, text, checked, recipe_id)
+  select household, uid, s.text, coalesce(s.checked, false),
+    case when s.recipe_id in (select id from public.recipes where user_id = uid) then s.recipe_id end
+  from jsonb_populate_recordset(null::public.shopping_items, coalesce(payload->'shopping_items', '[]')) s;
+
+  insert into public.grocery_items (household_id, user_id, text, checked, created_at)
+  select household, uid, g.text, coalesce(g.checked, false), coalesce(g.created_at, now())
+  from jsonb_populate_recordset(null::public.grocery_items, coalesce(payload->'grocery_items', '[]')) g;
+
+  insert into public.pantry_items (user_id, name, quantity, unit)
+  select uid, p.name, p.quantity, p.unit
+  from jsonb_populate_recordset(null::public.pantry_items, coalesce(payload->'pantry_items', '[]')) p;
+
+  insert into public.checked_ingredients (user_id, recipe_id, ingredient_index)
+  select uid, c.recipe_id, c.ingredient_index
+  from jsonb_populate_recordset(null::public.checked_ingredients, coalesce(payload->'checked_ingredients', '[]')) c
+  where c.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.recipe_groups (id, user_id, name, icon, sort_order, is_default, created_at)
+  select g.id, uid, g.name, g.icon, coalesce(g.sort_order, 0), coalesce(g.is_default, false), coalesce(g.created_at, now())
+  from jsonb_populate_recordset(null::public.recipe_groups, coalesce(payload->'recipe_groups', '[]')) g;
+
+  insert into public.recipe_group_members (group_id, recipe_id, added_at)
+  select m.group_id, m.recipe_id, coalesce(m.added_at, now())
+  from jsonb_populate_recordset(null::public.recipe_group_members, coalesce(payload->'recipe_group_members', '[]')) m
+  where m.group_id in (select id from public.recipe_groups where user_id = uid)
+    and m.recipe_id in (select id from public.recipes where user_id = uid);
+
+  insert into public.ingredient_prices (user_id, name, store, price, quantity, unit)
+  select uid, p.name, coalesce(p.store, ''), p.price, coalesce(p.quantity, 1), p.unit
+  from jsonb_populate_recordset(null::public.ingredient_prices, coalesce(payload->'ingredient_prices', '[]')) p;
+
+  insert into public.price_history (user_id, name, store, price, quantity, unit, recorded_at)
+  select uid, p.name, coalesce(p.store, ''), p.price, coalesce(p.quantity, 1), p.unit, coalesce(p.recorded_at, now())
+  from jsonb_populate_recordset(null::public.price_history, coalesce(payload->'price_history', '[]')) p;
+
+  insert into public.grocery_stores (id, user_id, name, aisle_order, sort_order)
+  select s.id, uid, s.name, coalesce(s.aisle_order, '{}'), coalesce(s.sort_order, 0)
+  from jsonb_populate_recordset(null::public.grocery_stores, coalesce(payload->'grocery_stores', '[]')) s;
+
+  insert into public.store_assignments (user_id, name, store_id)
+  select uid, a.name, a.store_id
+  from jsonb_populate_recordset(null::public.store_assignments, coalesce(payload->'store_assignments', '[]')) a
+  where a.store_id in (select id from public.grocery_stores where user_id = uid);
+end;
+$$;
+
+-- ============================================================
+-- REALTIME
+-- ============================================================
+
+-- Housemates see each other's plan and list edits live; RLS scopes inserts
+-- and updates to the subscriber's household
+alter publication supabase_realtime add table meal_plans, shopping_items, grocery_items;
@@ -0,0 +1,52 @@
+-- search_recipes() and the search document triggers. Run with `supabase test db`.
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(5);
+
+insert into auth.users (id, email) values ('00000000-0000-0000-0000-00000000000a', 'cook@example.com');
+insert into public.recipes (id, user_id, title, difficulty) values
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000a', 'Toast', 'Easy'),
+  ('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-00000000000a', 'Souffle', 'Hard'),
+  ('00000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-00000000000a', 'Soup', null);
+
+-- Several lines in one statement, as saving a recipe does
+insert into public.recipe_ingredients (recipe_id, text, sort_order) values
+  ('00000000-0000-0000-0000-000000000001', '1 slice bread', 0),
+  ('00000000-0000-0000-0000-000000000001', '1 tbsp butter', 1),
+  ('00000000-0000-0000-0000-000000000003', '1 leek', 0);
+
+select ok(
+  (select search_document @@ to_tsquery('english', 'butter') from public.recipes
+   where id = '00000000-0000-0000-0000-000000000001'),
+  'inserting ingredients rebuilds the search document'
+);
+select ok(
+  (select search_document @@ to_tsquery('english', 'leek') from public.recipes
+   where id = '00000000-0000-0000-0000-000000000003'),
+  'every recipe touched by the statement is rebuilt'
+);
+
+delete from public.recipe_ingredients where text = '1 tbsp butter';
+
+select ok(
+  (select not search_document @@ to_tsquery('english', 'butter') from public.recipes
+   where id = '00000000-0000-0000-0000-000000000001'),
+  'deleting an ingredient rebuilds the search document'
+);
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}';
+
+select set_eq(
+  $$ select id from public.search_recipes(p_terms => '[{"field": "difficulty", "value": "easy", "negate": false}]') $$,
+  $$ values ('00000000-0000-0000-0000-000000000001'::uuid) $$,
+  'difficulty:easy leaves out recipes without a difficulty'
+);
+select set_eq(
+  $$ select id from public.search_recipes(p_terms => '[{"field": "difficulty", "value": "easy", "negate": true}]') $$,
+  $$ values ('00000000-0000-0000-0000-000000000002'::uuid), ('00000000-0000-0000-0000-000000000003'::uuid) $$,
+  '-difficulty:easy keeps recipes without a difficulty'
+);
+
+select * from finish();
+rollback;
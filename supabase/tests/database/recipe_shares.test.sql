@@ -0,0 +1,69 @@
+-- Share link ownership. Run with `supabase test db`.
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(5);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'owner@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'housemate@example.com');
+-- Move the housemate into the owner's household
+update public.household_members
+set household_id = (select household_id from public.household_members
+                    where user_id = '00000000-0000-0000-0000-00000000000a')
+where user_id = '00000000-0000-0000-0000-00000000000b';
+
+insert into public.recipes (id, user_id, title) values
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000a', 'Toast'),
+  ('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-00000000000b', 'Their Curry');
+
+-- A link a housemate made before sharing needed ownership
+insert into public.recipe_shares (user_id, token, recipe_id) values
+  ('00000000-0000-0000-0000-00000000000b', repeat('b', 32), '00000000-0000-0000-0000-000000000001');
+
+select is(
+  public.shared_recipes(repeat('b', 32)),
+  null,
+  'a link to a recipe the sharer does not own shows nothing'
+);
+
+-- The owner's group, holding one of their recipes and one of the housemate's
+insert into public.recipe_groups (id, user_id, name) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'Weeknights');
+insert into public.recipe_group_members (group_id, recipe_id) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-000000000001'),
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-000000000002');
+insert into public.recipe_shares (user_id, token, group_id) values
+  ('00000000-0000-0000-0000-00000000000a', repeat('f', 32), '00000000-0000-0000-0000-0000000000f1');
+
+select is(
+  (select jsonb_agg(r->>'title') from jsonb_array_elements(public.shared_recipes(repeat('f', 32))->'recipes') r),
+  '["Toast"]'::jsonb,
+  'a group link leaves out housemates'' recipes in the group'
+);
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}';
+
+select throws_ok(
+  $$ insert into public.recipe_shares (user_id, token, recipe_id) values
+     ('00000000-0000-0000-0000-00000000000b', repeat('c', 32), '00000000-0000-0000-0000-000000000001') $$,
+  '42501',
+  null,
+  'a housemate cannot share the recipe'
+);
+
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}';
+
+select lives_ok(
+  $$ insert into public.recipe_shares (user_id, token, recipe_id) values
+     ('00000000-0000-0000-0000-00000000000a', repeat('a', 32), '00000000-0000-0000-0000-000000000001') $$,
+  'the owner can share the recipe'
+);
+select is(
+  public.shared_recipes(repeat('a', 32))->>'name',
+  'Toast',
+  'the owner''s link shows the recipe'
+);
+
+select * from finish();
+rollback;